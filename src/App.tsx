@@ -11,6 +11,7 @@ import PrivacyPolicy from "./pages/PrivacyPolicy";
 import Settings from "./pages/Settings";
 import ContactUs from "./pages/ContactUs";
 import SharedRecipePage from "./pages/SharedRecipePage";
+import CookModePage from "./pages/CookModePage";
 import AuthGuard from "./components/auth/AuthGuard";
 
 const queryClient = new QueryClient({
@@ -77,6 +78,7 @@ function App() {
             }
           />
           <Route path="/recipes/:recipeId" element={<SharedRecipePage />} />
+          <Route path="/recipes/:recipeId/cook" element={<CookModePage />} />
           <Route path="/privacy" element={<PrivacyPolicy />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { loadAiUsageSummary, saveAiBudget } from "@/lib/aiUsage";
+import type { AiUsageSummary } from "@/types";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, Sparkles } from "lucide-react";
+
+interface BudgetDraft {
+  soft: string;
+  hard: string;
+}
+
+const formatUsd = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatMonth = (month: Date) =>
+  month.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+const formatTokens = (count: number) => count.toLocaleString("en-US");
+
+const limitToText = (limit: number | null) => (limit == null ? "" : String(limit));
+
+/** Empty means no limit; anything else must be a non-negative amount. */
+const parseLimit = (text: string): number | null | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const amount = Number(trimmed);
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : undefined;
+};
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+const AiUsage = () => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [rows, setRows] = useState<AiUsageSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Limits being edited, keyed by user id; saved per row
+  const [drafts, setDrafts] = useState<Record<string, BudgetDraft>>({});
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    loadAiUsageSummary(month).then((summary) => {
+      if (cancelled) return;
+      setRows(summary);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [month]);
+
+  const isCurrentMonth = month.getTime() === startOfMonth(new Date()).getTime();
+  const totalCost = rows.reduce((sum, row) => sum + row.estimatedCostUsd, 0);
+  const totalCalls = rows.reduce((sum, row) => sum + row.callCount, 0);
+
+  const draftFor = (row: AiUsageSummary): BudgetDraft =>
+    drafts[row.userId] ?? { soft: limitToText(row.softLimitUsd), hard: limitToText(row.hardLimitUsd) };
+
+  const updateDraft = (row: AiUsageSummary, field: keyof BudgetDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [row.userId]: { ...draftFor(row), [field]: value } }));
+  };
+
+  const handleSaveBudget = async (row: AiUsageSummary) => {
+    const draft = draftFor(row);
+    const soft = parseLimit(draft.soft);
+    const hard = parseLimit(draft.hard);
+
+    if (soft === undefined || hard === undefined) {
+      toast.error("Limits must be a dollar amount of 0 or more");
+      return;
+    }
+    if (soft != null && hard != null && soft > hard) {
+      toast.error("The soft limit can't be higher than the hard limit");
+      return;
+    }
+
+    setSavingUserId(row.userId);
+    try {
+      await saveAiBudget(row.userId, soft, hard);
+      setRows((prev) =>
+        prev.map((r) => (r.userId === row.userId ? { ...r, softLimitUsd: soft, hardLimitUsd: hard } : r))
+      );
+      setDrafts((prev) => {
+        const rest = { ...prev };
+        delete rest[row.userId];
+        return rest;
+      });
+      toast.success(`Saved AI budget for ${row.email}`);
+    } catch (error) {
+      console.error("Error saving AI budget:", error);
+      toast.error("Failed to save AI budget");
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="font-display text-xl sm:text-2xl flex items-center gap-2">
+              <Sparkles className="h-5 w-5 sm:h-6 sm:w-6" />
+              AI Usage
+            </CardTitle>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+              {formatUsd(totalCost)} estimated · {totalCalls} call{totalCalls !== 1 ? "s" : ""}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Previous month"
+              onClick={() => setMonth((m) => new Date(m.getFullYear(), m.getMonth() - 1, 1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-32 text-center">{formatMonth(month)}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Next month"
+              disabled={isCurrentMonth}
+              onClick={() => setMonth((m) => new Date(m.getFullYear(), m.getMonth() + 1, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Monthly limits in USD. Past the soft limit, recipe parsing and grocery combining switch to Haiku; past the hard limit they stop using AI. Leave blank for no limit.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No users yet.</p>
+        ) : (
+          rows.map((row) => {
+            const draft = draftFor(row);
+            const isDirty = !!drafts[row.userId];
+            const overHard = isCurrentMonth && row.hardLimitUsd != null && row.estimatedCostUsd >= row.hardLimitUsd;
+            const overSoft = isCurrentMonth && !overHard && row.softLimitUsd != null && row.estimatedCostUsd >= row.softLimitUsd;
+
+            return (
+              <div
+                key={row.userId}
+                className="flex flex-col lg:flex-row lg:items-center lg:justify-between p-4 rounded-lg border bg-white gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium truncate">{row.name || row.email}</span>
+                    {overHard && (
+                      <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full">Over hard limit</span>
+                    )}
+                    {overSoft && (
+                      <span className="text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">Over soft limit</span>
+                    )}
+                  </div>
+                  {row.name && <p className="text-xs text-muted-foreground truncate">{row.email}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    {formatUsd(row.estimatedCostUsd)} · {row.callCount} call{row.callCount !== 1 ? "s" : ""} ·{" "}
+                    {formatTokens(row.inputTokens)} in / {formatTokens(row.outputTokens)} out tokens
+                  </p>
+                </div>
+
+                <div className="flex items-end gap-2">
+                  <div>
+                    <Label htmlFor={`soft-${row.userId}`} className="text-xs text-muted-foreground">
+                      Soft limit
+                    </Label>
+                    <Input
+                      id={`soft-${row.userId}`}
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      placeholder="No limit"
+                      className="w-28"
+                      value={draft.soft}
+                      onChange={(e) => updateDraft(row, "soft", e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`hard-${row.userId}`} className="text-xs text-muted-foreground">
+                      Hard limit
+                    </Label>
+                    <Input
+                      id={`hard-${row.userId}`}
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      placeholder="No limit"
+                      className="w-28"
+                      value={draft.hard}
+                      onChange={(e) => updateDraft(row, "hard", e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => handleSaveBudget(row)}
+                    disabled={!isDirty || savingUserId === row.userId}
+                    className="bg-purple hover:bg-purple-dark"
+                  >
+                    {savingUserId === row.userId ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AiUsage;
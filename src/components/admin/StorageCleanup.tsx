@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { loadStorageCleanupRuns, runStorageCleanup } from "@/lib/storageCleanup";
+import type { StorageCleanupRun } from "@/types";
+import { toast } from "sonner";
+import { HardDrive } from "lucide-react";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+const StorageCleanup = () => {
+  const [runs, setRuns] = useState<StorageCleanupRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [runningMode, setRunningMode] = useState<"dry" | "delete" | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStorageCleanupRuns().then((loaded) => {
+      if (cancelled) return;
+      setRuns(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const totalReclaimed = runs.reduce((sum, run) => sum + run.reclaimedBytes, 0);
+
+  const handleRun = async (dryRun: boolean) => {
+    setRunningMode(dryRun ? "dry" : "delete");
+    try {
+      await runStorageCleanup(dryRun);
+      const loaded = await loadStorageCleanupRuns();
+      setRuns(loaded);
+      setExpandedRunId(dryRun ? loaded[0]?.id ?? null : null);
+      toast.success(dryRun ? "Dry run complete" : "Storage cleaned up");
+    } catch (error) {
+      console.error("Error running storage cleanup:", error);
+      toast.error("Failed to run storage cleanup");
+    } finally {
+      setRunningMode(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="font-display text-xl sm:text-2xl flex items-center gap-2">
+              <HardDrive className="h-5 w-5 sm:h-6 sm:w-6" />
+              Storage Cleanup
+            </CardTitle>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+              {formatBytes(totalReclaimed)} reclaimed in the last {plural(runs.length, "run")}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => handleRun(true)} disabled={runningMode !== null}>
+              {runningMode === "dry" ? "Checking..." : "Dry run"}
+            </Button>
+            <Button
+              onClick={() => setIsConfirmingDelete(true)}
+              disabled={runningMode !== null}
+              className="bg-purple hover:bg-purple-dark"
+            >
+              {runningMode === "delete" ? "Cleaning up..." : "Clean up now"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Uploaded photos and PDFs that no recipe, note or meal plan uses any more are deleted daily once they're over 24 hours old. A dry run lists them without deleting anything.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple"></div>
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No cleanup runs yet.</p>
+        ) : (
+          runs.map((run) => {
+            const isExpanded = expandedRunId === run.id;
+
+            return (
+              <div key={run.id} className="p-4 rounded-lg border bg-white space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{formatDateTime(run.startedAt)}</span>
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                        {run.scheduled ? "Scheduled" : "Manual"}
+                      </span>
+                      {run.dryRun && (
+                        <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">Dry run</span>
+                      )}
+                      {run.status === "failed" && (
+                        <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full">Failed</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {plural(run.scannedCount, "file")} scanned · {run.orphanedCount} unused (
+                      {formatBytes(run.orphanedBytes)})
+                      {!run.dryRun && ` · ${run.deletedCount} deleted, ${formatBytes(run.reclaimedBytes)} reclaimed`}
+                    </p>
+                    {run.error && <p className="text-sm text-red-600 break-words">{run.error}</p>}
+                  </div>
+                  {run.orphans.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                      aria-expanded={isExpanded}
+                    >
+                      {isExpanded ? "Hide files" : "Show files"}
+                    </Button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <ul className="max-h-64 overflow-y-auto rounded-md bg-muted/50 p-2 text-xs font-mono space-y-1">
+                    {run.orphans.map((orphan) => (
+                      <li key={`${orphan.bucket}/${orphan.path}`} className="flex justify-between gap-4">
+                        <span className="truncate">
+                          {orphan.bucket}/{orphan.path}
+                        </span>
+                        <span className="shrink-0 text-muted-foreground">{formatBytes(orphan.size)}</span>
+                      </li>
+                    ))}
+                    {run.orphanedCount > run.orphans.length && (
+                      <li className="text-muted-foreground">
+                        and {run.orphanedCount - run.orphans.length} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete unused uploads?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every uploaded file over 24 hours old that nothing references will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => handleRun(false)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default StorageCleanup;
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { loadThrottledCallers } from "@/lib/rateLimits";
+import type { ThrottledCaller } from "@/types";
+import { ShieldAlert } from "lucide-react";
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+const callerLabel = (caller: ThrottledCaller) => {
+  if (caller.callerType === "ip") return caller.caller;
+  return caller.name ?? caller.email ?? caller.caller;
+};
+
+const ThrottledCallers = () => {
+  const [callers, setCallers] = useState<ThrottledCaller[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadThrottledCallers().then((loaded) => {
+      if (cancelled) return;
+      setCallers(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="font-display text-xl sm:text-2xl flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 sm:h-6 sm:w-6" />
+          Throttled Callers
+        </CardTitle>
+        <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+          Users and IP addresses that hit a rate limit in the last 7 days
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple"></div>
+          </div>
+        ) : callers.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No one has been throttled.</p>
+        ) : (
+          callers.map((caller) => (
+            <div
+              key={`${caller.functionName}:${caller.callerType}:${caller.caller}`}
+              className="p-4 rounded-lg border bg-white flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium truncate">{callerLabel(caller)}</span>
+                  <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                    {caller.callerType === "ip" ? "IP address" : "User"}
+                  </span>
+                </div>
+                {caller.callerType === "user" && caller.name && caller.email && (
+                  <p className="text-sm text-muted-foreground truncate">{caller.email}</p>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground sm:text-right shrink-0">
+                <p className="font-mono">{caller.functionName}</p>
+                <p>
+                  {plural(caller.throttledCount, "request")} turned away · last {formatDateTime(caller.lastThrottledAt)}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThrottledCallers;
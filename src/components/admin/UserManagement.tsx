@@ -30,6 +30,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
+import { getActiveClubId } from "@/lib/clubs";
 import { toast } from "sonner";
 import { UserPlus, Trash2, Users, Crown, Eye, Shield } from "lucide-react";
 
@@ -72,6 +73,10 @@ const UserManagement = ({ currentUserEmail, _testForceDeleteSelf, _testForceRole
   const [newIsClubMember, setNewIsClubMember] = useState(true);
   const [isAdding, setIsAdding] = useState(false);
 
+  // "Club member" means membership of the active club; without one, fall back
+  // to the legacy allowed_users flag
+  const clubId = getActiveClubId();
+
   const loadUsers = async () => {
     try {
       const { data, error } = await supabase
@@ -80,12 +85,24 @@ const UserManagement = ({ currentUserEmail, _testForceDeleteSelf, _testForceRole
         .order("created_at", { ascending: true });
 
       if (error) throw error;
+
+      let memberEmails: Set<string> | null = null;
+      if (clubId) {
+        const { data: members, error: membersError } = await supabase
+          .from("club_members")
+          .select("email")
+          .eq("club_id", clubId);
+
+        if (membersError) throw membersError;
+        memberEmails = new Set((members || []).map((m) => m.email.toLowerCase()));
+      }
+
       setUsers(
         (data || []).map((u) => ({
           id: u.id,
           email: u.email,
           role: u.role as "admin" | "member" | "viewer",
-          is_club_member: u.is_club_member,
+          is_club_member: memberEmails ? memberEmails.has(u.email.toLowerCase()) : u.is_club_member,
           created_at: u.created_at,
         }))
       );
@@ -99,6 +116,7 @@ const UserManagement = ({ currentUserEmail, _testForceDeleteSelf, _testForceRole
 
   useEffect(() => {
     loadUsers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
@@ -163,6 +181,14 @@ const UserManagement = ({ currentUserEmail, _testForceDeleteSelf, _testForceRole
 
       if (error) throw error;
 
+      if (clubId && newIsClubMember) {
+        const { error: memberError } = await supabase
+          .from("club_members")
+          .insert({ club_id: clubId, email, role: newRole });
+
+        if (memberError) throw memberError;
+      }
+
       toast.success(`Invited ${email}`);
       setShowAddDialog(false);
       setNewEmail("");
@@ -254,13 +280,41 @@ const UserManagement = ({ currentUserEmail, _testForceDeleteSelf, _testForceRole
           .eq("id", userId);
 
         if (error) throw error;
+
+        if (clubId) {
+          const email = users.find((u) => u.id === userId)!.email.toLowerCase();
+          const { error: memberError } = await supabase
+            .from("club_members")
+            .update({ role })
+            .eq("club_id", clubId)
+            .eq("email", email);
+
+          if (memberError) throw memberError;
+        }
       }
 
       for (const [userId, isClubMember] of Object.entries(pendingClubMember)) {
-        const { error } = await supabase
-          .from("allowed_users")
-          .update({ is_club_member: isClubMember })
-          .eq("id", userId);
+        if (!clubId) {
+          const { error } = await supabase
+            .from("allowed_users")
+            .update({ is_club_member: isClubMember })
+            .eq("id", userId);
+
+          if (error) throw error;
+          continue;
+        }
+
+        const user = users.find((u) => u.id === userId)!;
+        const email = user.email.toLowerCase();
+        const { error } = isClubMember
+          ? await supabase
+              .from("club_members")
+              .insert({ club_id: clubId, email, role: pendingRoles[userId] ?? user.role })
+          : await supabase
+              .from("club_members")
+              .delete()
+              .eq("club_id", clubId)
+              .eq("email", email);
 
         if (error) throw error;
       }
@@ -0,0 +1,61 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import type { MemberDietaryRestrictions, Recipe, RecipeIngredient } from "@/types";
+import { findMemberConflicts, getDietaryRestrictionLabel } from "@/lib/dietary";
+
+interface EventAllergenSummaryProps {
+  recipes: Recipe[];
+  recipeIngredients: RecipeIngredient[];
+  members: MemberDietaryRestrictions[];
+}
+
+const EventAllergenSummary = ({ recipes, recipeIngredients, members }: EventAllergenSummaryProps) => {
+  if (members.length === 0 || recipes.length === 0) return null;
+
+  const rows = recipes.map((recipe) => {
+    const ingredients = recipeIngredients.filter((ing) => ing.recipeId === recipe.id);
+    return {
+      recipe,
+      checked: ingredients.length > 0,
+      conflicts: findMemberConflicts(ingredients, members),
+    };
+  });
+  const hasConflicts = rows.some((r) => r.conflicts.length > 0);
+
+  return (
+    <Card className={hasConflicts ? "border-amber-200 bg-amber-50/80" : "bg-white/90"}>
+      <CardContent className="p-3 sm:p-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className={`h-4 w-4 shrink-0 ${hasConflicts ? "text-amber-600" : "text-muted-foreground"}`} />
+          <h3 className="text-sm font-semibold">Allergen summary</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {members
+            .map((m) => `${m.name} (${m.restrictions.map((r) => getDietaryRestrictionLabel(r).toLowerCase()).join(", ")})`)
+            .join(" · ")}
+        </p>
+        <ul className="space-y-1 text-sm">
+          {rows.map(({ recipe, checked, conflicts }) => (
+            <li key={recipe.id}>
+              <span className="font-medium">{recipe.name}</span>
+              {": "}
+              {!checked ? (
+                <span className="text-muted-foreground">not checked — no parsed ingredients</span>
+              ) : conflicts.length === 0 ? (
+                <span className="text-green-700">no conflicts</span>
+              ) : (
+                <span className="text-amber-800">
+                  {conflicts
+                    .map((c) => `${c.memberName} (${getDietaryRestrictionLabel(c.restriction).toLowerCase()}: ${c.ingredients.join(", ")})`)
+                    .join("; ")}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventAllergenSummary;
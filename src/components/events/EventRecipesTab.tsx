@@ -15,10 +15,14 @@ import {
   ChevronDown,
   ChevronUp,
   Share2,
+  History,
 } from "lucide-react";
 import { toast } from "sonner";
 import type { User, Recipe, RecipeNote, EventRecipeWithNotes, RecipeRatingsSummary } from "@/types";
 import RecipeIngredientList from "@/components/recipes/RecipeIngredientList";
+import RecipeHistoryDialog from "@/components/recipes/RecipeHistoryDialog";
+import ThumbnailImage from "@/components/recipes/ThumbnailImage";
+import { deleteGroceryCache } from "@/lib/groceryCache";
 
 export interface EventRecipeWithRatings extends EventRecipeWithNotes {
   ratingSummary?: RecipeRatingsSummary;
@@ -86,6 +90,17 @@ const EventRecipesTab = ({
   pantryItems,
 }: EventRecipesTabProps) => {
   const [expandedIngredients, setExpandedIngredients] = useState<Set<string>>(new Set());
+  const [historyRecipe, setHistoryRecipe] = useState<Recipe | null>(null);
+  // Bumped after a revert so open ingredient lists reload
+  const [ingredientsVersion, setIngredientsVersion] = useState(0);
+
+  const handleReverted = async (recipeId: string) => {
+    setIngredientsVersion((version) => version + 1);
+    if (cacheContext) {
+      await deleteGroceryCache(cacheContext.type, cacheContext.id, cacheContext.userId);
+    }
+    onIngredientsChange?.(recipeId);
+  };
 
   const toggleIngredients = (recipeId: string) => {
     setExpandedIngredients((prev) => {
@@ -276,6 +291,17 @@ const EventRecipesTab = ({
                       >
                         <Share2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                       </Button>
+                      {userId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 sm:h-8 sm:w-8"
+                          aria-label={`View history for ${recipe.name}`}
+                          onClick={() => setHistoryRecipe(recipe)}
+                        >
+                          <History className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                        </Button>
+                      )}
                       {(recipe.createdBy === user?.id || canManageRecipes) && (
                         <>
                           <Button
@@ -306,6 +332,7 @@ const EventRecipesTab = ({
                     <>
                       <Separator className="bg-purple/10" />
                       <RecipeIngredientList
+                        key={`${recipe.id}-${ingredientsVersion}`}
                         recipeId={recipe.id}
                         userId={userId ?? ""}
                         editable={recipe.createdBy === userId}
@@ -354,7 +381,7 @@ const EventRecipesTab = ({
                                   {note.photos && note.photos.length > 0 && (
                                     <div className="flex gap-2 mt-2 overflow-x-auto pb-1 -mx-1 px-1">
                                       {note.photos.map((photo, idx) => (
-                                        <img
+                                        <ThumbnailImage
                                           key={idx}
                                           src={photo}
                                           alt={`Photo for ${recipe.name}`}
@@ -422,6 +449,16 @@ const EventRecipesTab = ({
           })}
         </div>
       )}
+
+      {historyRecipe && (
+        <RecipeHistoryDialog
+          recipeId={historyRecipe.id}
+          recipeName={historyRecipe.name}
+          open
+          onOpenChange={(open) => !open && setHistoryRecipe(null)}
+          onReverted={() => handleReverted(historyRecipe.id)}
+        />
+      )}
     </div>
   );
 };
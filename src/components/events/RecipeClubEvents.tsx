@@ -36,6 +36,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import EventRatingDialog from "./EventRatingDialog";
 import { getIngredientColor, getLightBackgroundColor, getBorderColor, getDarkerTextColor } from "@/lib/ingredientColors";
+import { getActiveClubId } from "@/lib/clubs";
 
 interface RecipeClubEventsProps {
   userId: string;
@@ -63,14 +64,18 @@ const RecipeClubEvents = ({ userId, isAdmin = false, onEventChange }: RecipeClub
   const loadEvents = async () => {
     try {
       // Fetch all scheduled and completed events with their ingredients
-      const { data: eventsData, error: eventsError } = await supabase
+      let query = supabase
         .from("scheduled_events")
         .select(`
           *,
           ingredients (*)
         `)
         .eq("type", "club")
-        .in("status", ["scheduled", "completed"])
+        .in("status", ["scheduled", "completed"]);
+      const clubId = getActiveClubId();
+      if (clubId) query = query.eq("club_id", clubId);
+
+      const { data: eventsData, error: eventsError } = await query
         .order("event_date", { ascending: true });
 
       if (eventsError) throw eventsError;
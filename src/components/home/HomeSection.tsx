@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { CalendarClock, BookOpen } from "lucide-react";
 import CountdownCard from "./CountdownCard";
 import { supabase } from "@/integrations/supabase/client";
+import { getActiveClubId } from "@/lib/clubs";
 import IngredientWheel from "@/components/wheel/IngredientWheel";
 import IngredientBank from "@/components/ingredients/IngredientBank";
 
@@ -37,8 +38,10 @@ const HomeSection = ({
 
   useEffect(() => {
     const fetchClubMemberNames = async () => {
+      const clubId = getActiveClubId();
+      if (!clubId) return;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data, error } = await (supabase as any).rpc("get_club_member_names");
+      const { data, error } = await (supabase as any).rpc("get_club_member_names", { p_club_id: clubId });
       if (!error && Array.isArray(data)) {
         setClubMemberNames(data as string[]);
       }
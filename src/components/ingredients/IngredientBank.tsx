@@ -12,6 +12,7 @@ import { Plus, X, Lightbulb, Check } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
 import { getSuggestedIngredients } from "@/lib/ingredientSuggestions";
 import { getIngredientColor } from "@/lib/ingredientColors";
+import { getActiveClubId } from "@/lib/clubs";
 
 interface IngredientBankProps {
   ingredients: Ingredient[];
@@ -36,11 +37,12 @@ const IngredientBank = ({
   // Load all ingredients from Supabase (both in bank and historical)
   useEffect(() => {
     const loadIngredients = async () => {
+      const clubId = getActiveClubId();
       try {
-        const { data, error } = await supabase
-          .from("ingredients")
-          .select("*")
-          .order("created_at", { ascending: true });
+        let query = supabase.from("ingredients").select("*");
+        if (clubId) query = query.eq("club_id", clubId);
+
+        const { data, error } = await query.order("created_at", { ascending: true });
 
         if (error) throw error;
 
@@ -71,19 +73,22 @@ const IngredientBank = ({
           setAllIngredients(defaultIngredients);
           setIngredients(defaultIngredients);
 
-          // Save defaults to database
-          await Promise.all(
-            defaultIngredients.map((i) =>
-              supabase.from("ingredients").insert({
-                id: i.id,
-                name: i.name,
-                used_count: 0,
-                in_bank: true,
-                created_by: userId,
-                color: i.color,
-              })
-            )
-          );
+          // Save defaults to the club's bank
+          if (clubId) {
+            await Promise.all(
+              defaultIngredients.map((i) =>
+                supabase.from("ingredients").insert({
+                  id: i.id,
+                  name: i.name,
+                  used_count: 0,
+                  in_bank: true,
+                  created_by: userId,
+                  color: i.color,
+                  club_id: clubId,
+                })
+              )
+            );
+          }
         }
       } catch (error) {
         console.error("Error loading ingredients:", error);
@@ -212,6 +217,12 @@ const IngredientBank = ({
       return;
     }
 
+    const clubId = getActiveClubId();
+    if (!clubId) {
+      toast.error("Join a club to add ingredients.");
+      return;
+    }
+
     // Create new ingredient
     const ingredientColor = getIngredientColor(trimmedName);
     const newItem: Ingredient = {
@@ -231,6 +242,7 @@ const IngredientBank = ({
         in_bank: true,
         created_by: userId,
         color: ingredientColor,
+        club_id: clubId,
       });
 
       if (error) throw error;
@@ -287,6 +299,12 @@ const IngredientBank = ({
   const addSuggestion = async (name: string) => {
     // Note: isFull check is handled by the render conditional - suggestions section is hidden when full
 
+    const clubId = getActiveClubId();
+    if (!clubId) {
+      toast.error("Join a club to add ingredients.");
+      return;
+    }
+
     const ingredientColor = getIngredientColor(name);
     const newItem: Ingredient = {
       id: uuidv4(),
@@ -305,6 +323,7 @@ const IngredientBank = ({
         in_bank: true,
         created_by: userId,
         color: ingredientColor,
+        club_id: clubId,
       });
 
       if (error) throw error;
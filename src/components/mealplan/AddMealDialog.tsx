@@ -9,13 +9,15 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
-import { Check, Loader2, Search } from "lucide-react";
+import { AlertTriangle, Check, Loader2, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
 import RecipeInputForm, {
   createInitialFormData,
   canSubmitRecipeForm,
+  getRecipeSourceFiles,
   type RecipeFormData,
 } from "@/components/recipes/RecipeInputForm";
+import { DIETARY_RESTRICTIONS, findDietaryConflicts, findDislikedIngredients } from "@/lib/dietary";
 
 interface RecipeResult {
   id: string;
@@ -29,9 +31,12 @@ interface AddMealDialogProps {
   onOpenChange: (open: boolean) => void;
   dayOfWeek: number;
   mealType: string;
-  onAddCustomMeal: (name: string, url?: string, shouldParse?: boolean) => void;
+  /** `sourceFiles` holds the uploaded pages, in order, when the recipe was uploaded */
+  onAddCustomMeal: (name: string, url?: string, shouldParse?: boolean, sourceFiles?: string[] | null) => void;
   onAddRecipeMeal: (recipes: Array<{ id: string; name: string; url?: string }>) => void;
   onAddManualMeal?: (name: string, text: string) => void;
+  dietaryRestrictions?: string[];
+  dislikedIngredients?: string[];
 }
 
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -44,6 +49,8 @@ const AddMealDialog = ({
   onAddCustomMeal,
   onAddRecipeMeal,
   onAddManualMeal,
+  dietaryRestrictions = [],
+  dislikedIngredients = [],
 }: AddMealDialogProps) => {
   const [activeTab, setActiveTab] = useState<"custom" | "recipes">("custom");
   const [formData, setFormData] = useState<RecipeFormData>(createInitialFormData());
@@ -52,7 +59,9 @@ const AddMealDialog = ({
   const [searchResults, setSearchResults] = useState<RecipeResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [selectedRecipes, setSelectedRecipes] = useState<RecipeResult[]>([]);
+  const [selectedIngredients, setSelectedIngredients] = useState<Record<string, { name: string }[]>>({});
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hasDietaryPrefs = dietaryRestrictions.length > 0 || dislikedIngredients.length > 0;
 
   const resetForm = () => {
     setActiveTab("custom");
@@ -62,6 +71,7 @@ const AddMealDialog = ({
     setSearchResults([]);
     setIsSearching(false);
     setSelectedRecipes([]);
+    setSelectedIngredients({});
   };
 
   const handleClose = () => {
@@ -109,13 +119,51 @@ const AddMealDialog = ({
     };
   }, [searchQuery]);
 
+  // Load ingredients for selected recipes so they can be checked against dietary preferences
+  const selectedIdsKey = selectedRecipes.map((r) => r.id).join(",");
+  useEffect(() => {
+    if (!hasDietaryPrefs || !selectedIdsKey) return;
+
+    let cancelled = false;
+    (async () => {
+      const { data } = await supabase
+        .from("recipe_ingredients")
+        .select("recipe_id, name")
+        .in("recipe_id", selectedIdsKey.split(","));
+      if (cancelled || !data) return;
+
+      const byRecipe: Record<string, { name: string }[]> = {};
+      for (const row of data) {
+        (byRecipe[row.recipe_id] ??= []).push({ name: row.name });
+      }
+      setSelectedIngredients(byRecipe);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIdsKey, hasDietaryPrefs]);
+
+  const dietaryWarnings = selectedRecipes.flatMap((recipe) => {
+    const ingredients = selectedIngredients[recipe.id] ?? [];
+    const conflicts = findDietaryConflicts(ingredients, dietaryRestrictions);
+    const disliked = findDislikedIngredients(ingredients, dislikedIngredients);
+    const reasons = [
+      ...[...new Set(conflicts.map((c) => c.restriction))].map(
+        (r) => `not ${DIETARY_RESTRICTIONS[r].toLowerCase()}`
+      ),
+      ...disliked.map((d) => `contains ${d}`),
+    ];
+    return reasons.length > 0 ? [{ name: recipe.name, reasons }] : [];
+  });
+
   const handleCustomSubmit = async () => {
     if (formData.inputMode === "manual" && onAddManualMeal) {
       onAddManualMeal(formData.name.trim(), formData.pasteText);
       handleClose();
     } else {
       // In url/upload mode, form validation ensures URL is always present
-      onAddCustomMeal(formData.name.trim(), formData.url.trim(), true);
+      onAddCustomMeal(formData.name.trim(), formData.url.trim(), true, getRecipeSourceFiles(formData));
       handleClose();
     }
   };
@@ -263,6 +311,22 @@ const AddMealDialog = ({
               )}
             </div>
 
+            {dietaryWarnings.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  Doesn't match your dietary preferences
+                </div>
+                <ul className="mt-1 ml-6 list-disc">
+                  {dietaryWarnings.map((w) => (
+                    <li key={w.name}>
+                      {w.name}: {w.reasons.join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="flex justify-end gap-2 pt-2">
               <Button variant="outline" onClick={() => handleClose()}>
                 Cancel
@@ -274,6 +338,8 @@ const AddMealDialog = ({
               >
                 {selectedRecipes.length === 0
                   ? "Add to Meal"
+                  : dietaryWarnings.length > 0
+                  ? "Add Anyway"
                   : `Add ${selectedRecipes.length} to Meal`}
               </Button>
             </div>
@@ -1,20 +1,45 @@
+import { AlertTriangle } from "lucide-react";
 import MealPlanSlot from "./MealPlanSlot";
-import type { MealPlanItem } from "@/types";
+import { estimateDayNutrition, formatNutrient, type DayNutrition } from "@/lib/nutrition";
+import type { MealPlanItem, RecipeNutrition } from "@/types";
 
 interface MealPlanGridProps {
   items: MealPlanItem[];
   weekStart: Date;
   onAddMeal: (dayOfWeek: number, mealType: string) => void;
   onViewMealEvent?: (dayOfWeek: number, mealType: string) => void;
+  onChangeServings?: (itemId: string, servings: number) => void;
+  defaultServings?: number;
   mealTypes?: string[];
   weekStartDay?: number;
+  /** Per-recipe estimates; when given, each day shows per-person totals */
+  nutritionByRecipe?: Record<string, RecipeNutrition>;
 }
 
 const ALL_DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const DEFAULT_MEAL_TYPES = ["breakfast", "lunch", "dinner"];
 
-const MealPlanGrid = ({ items, weekStart, onAddMeal, onViewMealEvent, mealTypes, weekStartDay = 0 }: MealPlanGridProps) => {
+/** Full breakdown for a day, shown on hover, including what was left out. */
+const describeDayNutrition = (day: DayNutrition): string => {
+  const { perPerson } = day;
+  const lines = [
+    `Per person: ${formatNutrient("calories", perPerson.calories)} calories`,
+    `Protein ${formatNutrient("protein", perPerson.protein)} · Carbs ${formatNutrient("carbs", perPerson.carbs)} · Fat ${formatNutrient("fat", perPerson.fat)}`,
+    `Fiber ${formatNutrient("fiber", perPerson.fiber)} · Sodium ${formatNutrient("sodium", perPerson.sodium)}`,
+  ];
+  if (day.unestimatedMeals.length > 0) lines.push(`Not estimated: ${day.unestimatedMeals.join(", ")}`);
+  if (day.uncountedIngredients > 0) {
+    lines.push(`${day.uncountedIngredients} ingredient${day.uncountedIngredients !== 1 ? "s" : ""} not counted`);
+  }
+  return lines.join("\n");
+};
+
+const isIncomplete = (day: DayNutrition) => day.unestimatedMeals.length > 0 || day.uncountedIngredients > 0;
+
+const MealPlanGrid = ({ items, weekStart, onAddMeal, onViewMealEvent, onChangeServings, defaultServings, mealTypes, weekStartDay = 0, nutritionByRecipe }: MealPlanGridProps) => {
   const activeMealTypes = mealTypes || DEFAULT_MEAL_TYPES;
+  const dayNutrition = nutritionByRecipe ? estimateDayNutrition(items, nutritionByRecipe) : undefined;
+  const hasNutrition = !!dayNutrition && Object.values(dayNutrition).some((day) => day.estimatedMeals > 0);
   // Build reordered day labels and indices based on weekStartDay
   // dayOrder maps display position → actual dayOfWeek value (0=Sun..6=Sat)
   const dayOrder = Array.from({ length: 7 }, (_, i) => (i + weekStartDay) % 7);
@@ -37,10 +62,35 @@ const MealPlanGrid = ({ items, weekStart, onAddMeal, onViewMealEvent, mealTypes,
       mealType={mealType}
       onAddMeal={onAddMeal}
       onViewMealEvent={onViewMealEvent}
+      onChangeServings={onChangeServings}
+      defaultServings={defaultServings}
       slotMinH={slotMinH}
     />
   );
 
+  const renderDayNutrition = (dayOfWeek: number, compact: boolean) => {
+    const day = dayNutrition?.[dayOfWeek];
+    if (!day || day.estimatedMeals === 0) return null;
+    const { perPerson } = day;
+    return (
+      <div
+        className="text-[10px] text-muted-foreground leading-tight"
+        title={describeDayNutrition(day)}
+        data-testid={`day-nutrition-${dayOfWeek}`}
+      >
+        <span className="inline-flex items-center gap-0.5">
+          {isIncomplete(day) && <AlertTriangle className="h-2.5 w-2.5 text-amber-600" aria-label="Estimate incomplete" />}
+          ~{formatNutrient("calories", perPerson.calories)} kcal
+        </span>
+        {!compact && (
+          <div>
+            P {Math.round(perPerson.protein)} · C {Math.round(perPerson.carbs)} · F {Math.round(perPerson.fat)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Expand slot heights when fewer meal types are shown
   const mealCount = activeMealTypes.length;
   const mobileGridCols =
@@ -78,6 +128,7 @@ const MealPlanGrid = ({ items, weekStart, onAddMeal, onViewMealEvent, mealTypes,
               <div className="flex flex-col justify-center py-1">
                 <span className={`text-xs font-semibold ${isToday(displayIndex) ? "text-purple" : ""}`}>{day}</span>
                 <span className={`text-[10px] ${isToday(displayIndex) ? "text-purple/70" : "text-muted-foreground"}`}>{getDateLabel(displayIndex)}</span>
+                {hasNutrition && renderDayNutrition(dayOrder[displayIndex], true)}
               </div>
               {activeMealTypes.map((mealType) => (
                 <div key={mealType} className={mobileMinH}>
@@ -116,6 +167,20 @@ const MealPlanGrid = ({ items, weekStart, onAddMeal, onViewMealEvent, mealTypes,
               ))}
             </div>
           ))}
+
+          {/* Per-person nutrition row */}
+          {hasNutrition && (
+            <div className="grid grid-cols-8 gap-1 mb-1">
+              <div className="p-2 flex items-center">
+                <span className="text-xs font-medium text-muted-foreground">Per person</span>
+              </div>
+              {dayLabels.map((_, displayIndex) => (
+                <div key={displayIndex} className="p-1 text-center">
+                  {renderDayNutrition(dayOrder[displayIndex], false)}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </>
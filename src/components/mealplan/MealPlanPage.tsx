@@ -10,9 +10,11 @@ import AddMealDialog from "./AddMealDialog";
 import GroceryListSection from "@/components/recipes/GroceryListSection";
 import PantrySection from "@/components/pantry/PantrySection";
 import { loadUserPreferences } from "@/lib/userPreferences";
+import { loadRecipeNutrition } from "@/lib/nutrition";
+import type { ServingsTarget } from "@/lib/servings";
 import { useGroceryList } from "@/hooks/useGroceryList";
 import { useRecipeParse } from "@/hooks/useRecipeParse";
-import type { MealPlanItem, UserPreferences } from "@/types";
+import type { MealPlanItem, RecipeNutrition, UserPreferences } from "@/types";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface MealPlanPageProps {
@@ -46,6 +48,9 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
   const [showAddMealDialog, setShowAddMealDialog] = useState(false);
   const [viewTab, setViewTab] = useState<"plan" | "groceries" | "pantry">("plan");
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+  const [nutritionByRecipe, setNutritionByRecipe] = useState<Record<string, RecipeNutrition>>({});
+  // Bumped when a parse finishes so estimates pick up the new ingredients
+  const [nutritionVersion, setNutritionVersion] = useState(0);
 
   const navigate = useNavigate();
 
@@ -54,6 +59,23 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
     [items]
   );
 
+  // Shop for each slot's override, else the household size. A recipe planned
+  // more than once is shopped for every slot it's in.
+  const servingsTargets = useMemo(() => {
+    if (!userPreferences) return undefined;
+    const targets: Record<string, ServingsTarget> = {};
+    for (const item of items) {
+      if (item.recipeId) {
+        const target = targets[item.recipeId] ?? { servings: 0, batches: 0 };
+        targets[item.recipeId] = {
+          servings: target.servings + (item.servings ?? userPreferences.householdSize),
+          batches: target.batches + 1,
+        };
+      }
+    }
+    return targets;
+  }, [items, userPreferences]);
+
   const grocery = useGroceryList({
     contextType: "meal_plan",
     contextId: weekStart.toISOString().split("T")[0],
@@ -61,9 +83,22 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
     recipeIds,
     enabled: viewTab === "groceries",
     supportsGeneralItems: true,
+    servingsTargets,
   });
   const { refreshGroceries } = grocery;
 
+  // Stable across servings changes, which don't affect per-serving estimates
+  const nutritionRecipeKey = [...new Set(recipeIds)].sort().join(",");
+  useEffect(() => {
+    let cancelled = false;
+    loadRecipeNutrition(nutritionRecipeKey ? nutritionRecipeKey.split(",") : []).then((loaded) => {
+      if (!cancelled) setNutritionByRecipe(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [nutritionRecipeKey, nutritionVersion]);
+
   const loadPlan = useCallback(async () => {
     setIsLoading(true);
     try {
@@ -106,6 +141,7 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
             recipeUrl: recipe?.url || undefined,
             eventId: (item as Record<string, unknown>).event_id as string | undefined,
             cookedAt: (item as Record<string, unknown>).cooked_at as string | undefined,
+            servings: ((item as Record<string, unknown>).servings as number | null) ?? undefined,
           };
         });
         setItems(mapped);
@@ -175,13 +211,17 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
   const {
     parseStatus,
     parseStep,
+    parseJob,
     pendingParseName,
     startParse,
     handleRetry: handleParseRetry,
     handleKeep: handleParseKeep,
     handleDiscard: handleParseDiscard,
   } = useRecipeParse({
-    onSuccess: refreshGroceries,
+    onSuccess: () => {
+      refreshGroceries();
+      setNutritionVersion((version) => version + 1);
+    },
     onBeforeDiscard: async (recipeId) => {
       await supabase.from("meal_plan_items").delete().eq("recipe_id", recipeId);
     },
@@ -193,9 +233,9 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
     setShowAddMealDialog(true);
   };
 
-  const handleAddCustomMeal = async (name: string, url?: string, shouldParse?: boolean) => {
+  const handleAddCustomMeal = async (name: string, url?: string, shouldParse?: boolean, sourceFiles?: string[] | null) => {
     // pendingSlot is always set when the dialog is mounted
-    const recipeId = await addItemToPlan(name, pendingSlot!.dayOfWeek, pendingSlot!.mealType, url);
+    const recipeId = await addItemToPlan(name, pendingSlot!.dayOfWeek, pendingSlot!.mealType, url, undefined, sourceFiles);
     if (shouldParse && recipeId && url) {
       startParse(recipeId, name, { url });
     }
@@ -224,7 +264,14 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
     setPendingSlot(null);
   };
 
-  const addItemToPlan = async (name: string, dayOfWeek: number, mealType: string, url?: string, recipeId?: string): Promise<string | undefined> => {
+  const addItemToPlan = async (
+    name: string,
+    dayOfWeek: number,
+    mealType: string,
+    url?: string,
+    recipeId?: string,
+    sourceFiles?: string[] | null
+  ): Promise<string | undefined> => {
     if (!planId) return undefined;
 
     try {
@@ -237,6 +284,7 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
           .insert({
             name,
             url: url || null,
+            source_files: sourceFiles ?? null,
             created_by: userId,
             event_id: null,
             ingredient_id: null,
@@ -296,6 +344,26 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
     }
   };
 
+  const handleChangeServings = async (itemId: string, servings: number) => {
+    const previous = items;
+    setItems((prev) =>
+      prev.map((item) => (item.id === itemId ? { ...item, servings } : item))
+    );
+    try {
+      const updatePayload = { servings };
+      const { error } = await supabase
+        .from("meal_plan_items")
+        // servings column added by migration; cast to satisfy generated types
+        .update(updatePayload as typeof updatePayload & { plan_id?: string })
+        .eq("id", itemId);
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating servings:", error);
+      toast.error("Failed to update servings");
+      setItems(previous);
+    }
+  };
+
   const handleViewMealEvent = async (dayOfWeek: number, mealType: string) => {
     const slotItems = items.filter(
       (i) => i.dayOfWeek === dayOfWeek && i.mealType === mealType
@@ -425,8 +493,11 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
             weekStart={weekStart}
             onAddMeal={handleAddMeal}
             onViewMealEvent={handleViewMealEvent}
+            onChangeServings={handleChangeServings}
+            defaultServings={userPreferences?.householdSize}
             mealTypes={userPreferences?.mealTypes}
             weekStartDay={userPreferences?.weekStartDay}
+            nutritionByRecipe={nutritionByRecipe}
           />
 
           {pendingSlot && (
@@ -438,6 +509,8 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
               onAddCustomMeal={handleAddCustomMeal}
               onAddRecipeMeal={handleAddRecipeMeal}
               onAddManualMeal={handleAddManualMeal}
+              dietaryRestrictions={userPreferences?.dietaryRestrictions}
+              dislikedIngredients={userPreferences?.dislikedIngredients}
             />
           )}
         </>
@@ -455,6 +528,7 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
           combineError={grocery.combineError}
           perRecipeItems={grocery.perRecipeItems}
           checkedItems={grocery.checkedItems}
+          checkedBy={grocery.checkedBy}
           onToggleChecked={grocery.handleToggleChecked}
           generalItems={grocery.generalItems}
           onAddGeneralItemDirect={grocery.handleAddGeneralItemDirect}
@@ -462,6 +536,8 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
           onEditItemText={grocery.handleEditItemText}
           onRemoveItem={grocery.handleRemoveItem}
           hasPendingChanges={grocery.hasPendingChanges}
+          isOffline={grocery.isOffline}
+          pendingSyncCount={grocery.pendingSyncCount}
           onRecombine={grocery.triggerRecombine}
           isAddingGeneral={grocery.isAddingGeneral}
           onAddingGeneralChange={grocery.setIsAddingGeneral}
@@ -479,6 +555,7 @@ const MealPlanPage = ({ userId }: MealPlanPageProps) => {
       <ParseProgressDialog
         parseStatus={parseStatus}
         parseStep={parseStep}
+        parseJob={parseJob}
         recipeName={pendingParseName}
         onDiscard={handleParseDiscard}
         onKeep={handleParseKeep}
@@ -7,9 +7,13 @@ interface MealPlanSlotProps {
   mealType: string;
   onAddMeal: (dayOfWeek: number, mealType: string) => void;
   onViewMealEvent?: (dayOfWeek: number, mealType: string) => void;
+  onChangeServings?: (itemId: string, servings: number) => void;
+  defaultServings?: number;
   slotMinH?: string;
 }
 
+const SERVINGS_OPTIONS = Array.from({ length: 12 }, (_, i) => i + 1);
+
 const mealTypeLabels: Record<string, string> = {
   breakfast: "Breakfast",
   lunch: "Lunch",
@@ -23,6 +27,8 @@ const MealPlanSlot = ({
   mealType,
   onAddMeal,
   onViewMealEvent,
+  onChangeServings,
+  defaultServings,
   slotMinH,
 }: MealPlanSlotProps) => {
   const isCooked = items.length > 0 && items.every((i) => i.cookedAt);
@@ -65,6 +71,25 @@ const MealPlanSlot = ({
                   {name}
                 </p>
               </div>
+              {onChangeServings && item.recipeId && (
+                <select
+                  value={item.servings ?? defaultServings ?? 2}
+                  onChange={(e) => onChangeServings(item.id, Number(e.target.value))}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  aria-label={`Servings for ${name}`}
+                  title="Servings"
+                  className={`shrink-0 text-[10px] bg-transparent rounded border border-transparent hover:border-purple/30 text-muted-foreground ${
+                    item.servings != null ? "font-semibold text-purple" : ""
+                  }`}
+                >
+                  {SERVINGS_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n} srv
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
           );
         })}
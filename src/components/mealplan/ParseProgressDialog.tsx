@@ -1,6 +1,8 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import RecipeParseProgress from "@/components/recipes/RecipeParseProgress";
+import type { ParseStatus, ParseStep } from "@/hooks/useRecipeParse";
+import type { ParseJob } from "@/types";
 
 const PARSE_STEPS = [
   { key: "saving", label: "Adding recipe" },
@@ -9,8 +11,10 @@ const PARSE_STEPS = [
 ];
 
 interface ParseProgressDialogProps {
-  parseStatus: "idle" | "parsing" | "failed";
-  parseStep: "saving" | "parsing" | "loading" | "done";
+  parseStatus: ParseStatus;
+  parseStep: ParseStep;
+  /** Background job behind the parse, for retry and error details */
+  parseJob?: ParseJob | null;
   recipeName: string;
   onDiscard: () => void;
   onKeep: () => void;
@@ -20,6 +24,7 @@ interface ParseProgressDialogProps {
 const ParseProgressDialog = ({
   parseStatus,
   parseStep,
+  parseJob,
   recipeName,
   onDiscard,
   onKeep,
@@ -44,7 +49,20 @@ const ParseProgressDialog = ({
           </DialogDescription>
         </DialogHeader>
         {parseStatus === "parsing" && (
-          <RecipeParseProgress steps={PARSE_STEPS} currentStep={parseStep} />
+          <>
+            <RecipeParseProgress steps={PARSE_STEPS} currentStep={parseStep} />
+            {parseJob && parseJob.attempts > 0 && parseJob.status === "queued" && (
+              <p className="text-sm text-muted-foreground">
+                Retrying (attempt {parseJob.attempts + 1} of {parseJob.maxAttempts})...
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              You can leave this page; parsing continues in the background.
+            </p>
+          </>
+        )}
+        {parseStatus === "failed" && parseJob?.lastError && (
+          <p className="text-sm text-muted-foreground">{parseJob.lastError}</p>
         )}
         {parseStatus === "failed" && (
           <div className="flex justify-between gap-2 pt-2">
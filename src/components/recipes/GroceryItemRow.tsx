@@ -21,9 +21,11 @@ interface GroceryItemRowProps {
   isChecked?: boolean;
   onToggleChecked?: () => void;
   recipeColorMap?: Record<string, string>;
+  /** Name of the household member who checked this item */
+  checkedBy?: string;
 }
 
-const GroceryItemRow = ({ item, editable, onEdit, onEditText, onRemove, isChecked, onToggleChecked, recipeColorMap }: GroceryItemRowProps) => {
+const GroceryItemRow = ({ item, editable, onEdit, onEditText, onRemove, isChecked, onToggleChecked, recipeColorMap, checkedBy }: GroceryItemRowProps) => {
   const useSingleField = !!onEditText;
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(item.name);
@@ -170,6 +172,9 @@ const GroceryItemRow = ({ item, editable, onEdit, onEditText, onRemove, isChecke
           </button>
         )}
         <span className={`text-sm ${isChecked ? "line-through opacity-50" : ""}`}>{displayText}</span>
+        {isChecked && checkedBy && (
+          <span className="text-xs text-gray-400 truncate">· {checkedBy}</span>
+        )}
       </div>
       <div className="flex gap-1 ml-2 shrink-0 items-center">
         {item.sourceRecipes.map((recipe) =>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Loader2, RefreshCw, AlertCircle, Plus } from "lucide-react";
+import { Loader2, RefreshCw, AlertCircle, Plus, WifiOff } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -59,6 +59,10 @@ interface GroceryListSectionProps {
   onAddItemsToRecipe?: (recipeId: string, text: string) => Promise<void>;
   onRemoveGeneralItem?: (itemId: string) => Promise<void>;
   onUpdateGeneralItem?: (itemId: string, updates: { name?: string; quantity?: string; unit?: string }) => Promise<void>;
+  isOffline?: boolean;
+  pendingSyncCount?: number;
+  /** Who checked each item on a shared household list, keyed by item name */
+  checkedBy?: Record<string, string>;
 }
 
 const CheckedSummary = ({
@@ -66,11 +70,13 @@ const CheckedSummary = ({
   checkedItems,
   onToggleChecked,
   recipeColorMap,
+  checkedBy,
 }: {
   items: SmartGroceryItem[];
   checkedItems: Set<string>;
   onToggleChecked?: (name: string) => void;
   recipeColorMap?: Record<string, string>;
+  checkedBy?: Record<string, string>;
 }) => {
   const checked = items.filter((i) => checkedItems.has(i.name));
   if (checked.length === 0) return null;
@@ -87,6 +93,7 @@ const CheckedSummary = ({
             isChecked={true}
             onToggleChecked={onToggleChecked ? () => onToggleChecked(item.name) : undefined}
             recipeColorMap={recipeColorMap}
+            checkedBy={checkedBy?.[item.name]}
           />
         ))}
       </div>
@@ -132,6 +139,9 @@ const GroceryListSection = ({
   isAddingGeneral: externalIsAdding,
   onAddingGeneralChange,
   onAddItemsToRecipe,
+  isOffline = false,
+  pendingSyncCount = 0,
+  checkedBy,
 }: GroceryListSectionProps) => {
   const [isAddingItem, setIsAddingItem] = useState(false);
   const [newItemName, setNewItemName] = useState("");
@@ -227,6 +237,18 @@ const GroceryListSection = ({
   return (
     <Card className="bg-white/90 backdrop-blur-sm border border-purple/10">
       <CardContent className="pt-4 sm:pt-6 pb-4">
+        {(isOffline || pendingSyncCount > 0) && (
+          <div className="flex items-center gap-2 mb-3 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            <WifiOff className="h-3.5 w-3.5 shrink-0" />
+            <span>
+              {isOffline ? "You're offline. " : ""}
+              {pendingSyncCount > 0
+                ? `${pendingSyncCount} ${pendingSyncCount === 1 ? "change" : "changes"} will sync when you're back online.`
+                : "Changes will sync when you're back online."}
+            </span>
+          </div>
+        )}
+
         {isLoading && (
           <div className="flex items-center justify-center py-8">
             <Loader2 className="h-6 w-6 animate-spin text-purple" />
@@ -259,7 +281,7 @@ const GroceryListSection = ({
                   </Select>
                 </div>
                 <div className="flex items-center gap-1 shrink-0">
-                  {hasPendingChanges && !isCombining && !isParsing && onRecombine && (
+                  {hasPendingChanges && !isCombining && !isParsing && !isOffline && onRecombine && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -291,7 +313,7 @@ const GroceryListSection = ({
               </div>
               {/* Desktop: Recombine + export */}
               <div className="hidden sm:flex items-center gap-2">
-                {hasPendingChanges && !isCombining && !isParsing && onRecombine && (
+                {hasPendingChanges && !isCombining && !isParsing && !isOffline && onRecombine && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -325,6 +347,7 @@ const GroceryListSection = ({
                       items={filteredSmartItems}
                       checkedItems={checkedItems}
                       onToggleChecked={onToggleChecked}
+                      checkedBy={checkedBy}
                       recipeColorMap={recipeColorMap}
                     />
                   )}
@@ -387,6 +410,7 @@ const GroceryListSection = ({
                           items={filteredRecipeItems}
                           checkedItems={checkedItems}
                           onToggleChecked={onToggleChecked}
+                          checkedBy={checkedBy}
                         />
                       )}
                     {Array.from(recipeGrouped.entries()).map(([category, items]) => (
@@ -445,6 +469,7 @@ const GroceryListSection = ({
                             items={filteredGeneralItems}
                             checkedItems={checkedItems}
                             onToggleChecked={onToggleChecked}
+                            checkedBy={checkedBy}
                           />
                         )}
                       {Array.from(generalGrouped.entries()).map(([category, items]) => (
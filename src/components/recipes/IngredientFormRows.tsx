@@ -1,5 +1,5 @@
 import { useCallback, useState } from "react";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { getCachedAiOptions } from "@/lib/userPreferences";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -13,6 +13,7 @@ import {
 import { Plus, X, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { GROCERY_CATEGORIES, CATEGORY_ORDER, detectCategory } from "@/lib/groceryList";
+import { parseIngredientLines } from "@/lib/ingredientParser";
 import { supabase } from "@/integrations/supabase/client";
 import { createBlankRow } from "./ingredientRowTypes";
 import type { IngredientRow } from "./ingredientRowTypes";
@@ -34,6 +35,8 @@ const VALID_CATEGORIES = new Set<string>([
   "frozen", "bakery", "beverages", "condiments", "other",
 ]);
 
+type ParsedIngredient = { name: string; quantity: number | null; unit: string | null; category: string };
+
 const IngredientFormRows = ({ rows, onRowsChange }: IngredientFormRowsProps) => {
   const [showPasteArea, setShowPasteArea] = useState(false);
   const [pasteText, setPasteText] = useState("");
@@ -43,31 +46,35 @@ const IngredientFormRows = ({ rows, onRowsChange }: IngredientFormRowsProps) =>
     if (!pasteText.trim()) return;
     setIsParsing(true);
     try {
-      const { data, error } = await supabase.functions.invoke("parse-recipe", {
-        body: { recipeName: "Paste Parse", text: pasteText, model: getCachedAiModel() },
-      });
-
-      if (error) throw error;
-      if (!data?.success) throw new Error(data?.error ?? "Failed to parse ingredients");
-      if (data.skipped) {
-        toast.error("Ingredient parsing is not available in dev mode.");
+      let ingredients: ParsedIngredient[] = [];
+      try {
+        const { data, error } = await supabase.functions.invoke("parse-recipe", {
+          body: { recipeName: "Paste Parse", text: pasteText, ...getCachedAiOptions() },
+        });
+
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error ?? "Failed to parse ingredients");
+        if (!data.skipped) ingredients = data.parsed?.ingredients ?? [];
+      } catch {
+        // Fall through to the rule-based parser below
+      }
+      // AI parsing is skipped in dev mode and can fail or come back empty
+      if (ingredients.length === 0) ingredients = parseIngredientLines(pasteText);
+      if (ingredients.length === 0) {
+        toast.error("Failed to parse ingredients. Please try again.");
         return;
       }
-      const ingredients = data.parsed?.ingredients ?? [];
-      const parsedItems: IngredientRow[] = (ingredients as Array<{ name: string; quantity: number | null; unit: string | null; category: string }>).map(
-        (item) => ({
-          id: `parsed-${crypto.randomUUID()}`,
-          name: item.name || "",
-          quantity: item.quantity != null ? String(item.quantity) : "",
-          unit: item.unit || "",
-          category: (VALID_CATEGORIES.has(item.category) ? item.category : "other") as GroceryCategory,
-        })
-      );
+
+      const parsedItems: IngredientRow[] = ingredients.map((item) => ({
+        id: `parsed-${crypto.randomUUID()}`,
+        name: item.name || "",
+        quantity: item.quantity != null ? String(item.quantity) : "",
+        unit: item.unit || "",
+        category: (VALID_CATEGORIES.has(item.category) ? item.category : "other") as GroceryCategory,
+      }));
       onRowsChange([...rows, ...parsedItems]);
       setPasteText("");
       setShowPasteArea(false);
-    } catch {
-      toast.error("Failed to parse ingredients. Please try again.");
     } finally {
       setIsParsing(false);
     }
@@ -1,9 +1,10 @@
 import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Upload, X, Image as ImageIcon, Loader2, FileText } from "lucide-react";
-import { v4 as uuidv4 } from "uuid";
+import { FileValidationError, removeNotePhoto, uploadNotePhoto } from "@/lib/upload";
+import { isHeicFile } from "@/lib/imageProcessing";
+import ThumbnailImage from "./ThumbnailImage";
 
 interface PhotoUploadProps {
   photos: string[];
@@ -33,32 +34,21 @@ const PhotoUpload = ({
     try {
       const uploadPromises = Array.from(files).map(async (file) => {
         // Validate file type
-        const isImage = file.type.startsWith("image/");
+        const isImage = file.type.startsWith("image/") || isHeicFile(file);
         const isPdf = file.type === "application/pdf";
         if (!isImage && !isPdf) {
           throw new Error(`${file.name} is not an image or PDF`);
         }
 
-        // Validate file size (max 5MB)
-        if (file.size > 5 * 1024 * 1024) {
-          throw new Error(`${file.name} is too large (max 5MB)`);
+        try {
+          return await uploadNotePhoto(file);
+        } catch (error) {
+          // The type is already checked, so this is the size of the processed file
+          if (error instanceof FileValidationError) {
+            throw new Error(`${file.name} is too large (max 5MB)`);
+          }
+          throw error;
         }
-
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${uuidv4()}.${fileExt}`;
-        const filePath = `recipe-photos/${fileName}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from("recipe-photos")
-          .upload(filePath, file);
-
-        if (uploadError) throw uploadError;
-
-        const {
-          data: { publicUrl },
-        } = supabase.storage.from("recipe-photos").getPublicUrl(filePath);
-
-        return publicUrl;
       });
 
       const uploadedUrls = await Promise.all(uploadPromises);
@@ -79,19 +69,7 @@ const PhotoUpload = ({
 
   const removePhoto = async (photoUrl: string) => {
     try {
-      // Extract file path from URL
-      const urlParts = photoUrl.split("/");
-      const fileName = urlParts[urlParts.length - 1];
-      const filePath = `recipe-photos/${fileName}`;
-
-      const { error } = await supabase.storage
-        .from("recipe-photos")
-        .remove([filePath]);
-
-      if (error) {
-        console.error("Error deleting from storage:", error);
-      }
-
+      await removeNotePhoto(photoUrl);
       onPhotosChange(photos.filter((p) => p !== photoUrl));
       toast.success("Photo removed");
     } catch (error) {
@@ -130,7 +108,7 @@ const PhotoUpload = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*,.pdf,application/pdf"
+          accept="image/*,.heic,.heif,.pdf,application/pdf"
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -167,7 +145,7 @@ const PhotoUpload = ({
                     <span className="text-xs text-muted-foreground">PDF</span>
                   </a>
                 ) : (
-                  <img
+                  <ThumbnailImage
                     src={photo}
                     alt={`Recipe photo ${index + 1}`}
                     className="w-full h-full object-cover rounded-lg"
@@ -1,15 +1,21 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ExternalLink, ChevronDown, ChevronUp, MessageSquare, Camera, Star, Pencil, Trash2, Plus, Loader2, Share2 } from "lucide-react";
+import { ExternalLink, ChevronDown, ChevronUp, MessageSquare, Camera, Star, Pencil, Trash2, Plus, Loader2, Share2, RefreshCw, History, ChefHat } from "lucide-react";
 import { toast } from "sonner";
 import type { Recipe, RecipeNote, RecipeRatingsSummary, RecipeIngredient, RecipeContent } from "@/types";
 import { isPantryItem } from "@/lib/groceryList";
 import { getLightBackgroundColor, getBorderColor, getDarkerTextColor } from "@/lib/ingredientColors";
 import { DEFAULT_PANTRY_ITEMS } from "@/lib/pantry";
+import { findDislikedIngredients } from "@/lib/dietary";
+import { estimateRecipeNutrition } from "@/lib/nutrition";
 import RecipeIngredientList from "./RecipeIngredientList";
+import RecipeHistoryDialog from "./RecipeHistoryDialog";
+import RecipeNutritionSummary from "./RecipeNutritionSummary";
+import ThumbnailImage from "./ThumbnailImage";
 
 // Helper to render stars with half-star support
 const renderStars = (rating: number, starSize = "h-4 w-4") => {
@@ -53,14 +59,19 @@ interface RecipeCardProps {
   ingredients?: RecipeIngredient[];
   pantryItems?: string[];
   contentStatus?: RecipeContent["status"];
-  onParseRecipe?: (recipeId: string) => void;
+  servings?: string;
+  dislikedIngredients?: string[];
+  onParseRecipe?: (recipeId: string, reparse?: boolean) => void;
   userId?: string;
   onIngredientsChange?: () => void;
 }
 
-const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredients, pantryItems, contentStatus, onParseRecipe, userId, onIngredientsChange }: RecipeCardProps) => {
+const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredients, pantryItems, contentStatus, servings, dislikedIngredients, onParseRecipe, userId, onIngredientsChange }: RecipeCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [ingredientsExpanded, setIngredientsExpanded] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Bumped after a revert so the ingredient list reloads
+  const [ingredientsVersion, setIngredientsVersion] = useState(0);
 
   const allPantryItems = pantryItems && pantryItems.length > 0
     ? [...new Set([...DEFAULT_PANTRY_ITEMS, ...pantryItems])]
@@ -69,7 +80,11 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
     (ing) => !isPantryItem(ing.name, allPantryItems, ing.unit)
   );
   const hasIngredients = filteredIngredients && filteredIngredients.length > 0;
+  const canViewHistory = !!userId && (contentStatus === "completed" || !!ingredients?.length);
   const hasDetails = recipe.notes.length > 0;
+  const dislikedFound = ingredients && dislikedIngredients?.length
+    ? findDislikedIngredients(ingredients, dislikedIngredients)
+    : [];
 
   // Get colors from ingredient
   const bgColor = recipe.ingredientColor ? getLightBackgroundColor(recipe.ingredientColor) : undefined;
@@ -114,7 +129,7 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
               )}
             </div>
             {/* Action buttons - below name on all screen sizes */}
-            {(recipe.url || onAddNote || onDelete || onEdit) && (
+            {(recipe.url || onAddNote || onDelete || onEdit || canViewHistory || contentStatus === "completed") && (
               <div className="flex items-center gap-0 -ml-1 mt-0.5">
                 {recipe.url && (
                   <a
@@ -139,6 +154,37 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
                 >
                   <Share2 className="h-3.5 w-3.5" />
                 </Button>
+                {contentStatus === "completed" && (
+                  <Link
+                    to={`/recipes/${recipe.id}/cook`}
+                    className="inline-flex items-center justify-center h-7 w-7 p-0 rounded-md hover:bg-accent"
+                    aria-label={`Cook ${recipe.name} step by step`}
+                  >
+                    <ChefHat className="h-3.5 w-3.5" />
+                  </Link>
+                )}
+                {recipe.url && onParseRecipe && contentStatus === "completed" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    aria-label={`Re-parse recipe ${recipe.name}`}
+                    onClick={() => onParseRecipe(recipe.id, true)}
+                  >
+                    <RefreshCw className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                {canViewHistory && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    aria-label={`View history for ${recipe.name}`}
+                    onClick={() => setHistoryOpen(true)}
+                  >
+                    <History className="h-3.5 w-3.5" />
+                  </Button>
+                )}
                 {onAddNote && (
                   <Button
                     variant="ghost"
@@ -180,7 +226,7 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
 
       <CardContent className="px-3 sm:px-6 pt-0 pb-3 sm:pb-6">
         {/* Badges row */}
-        {(recipe.isPersonal || recipe.ingredientName) && (
+        {(recipe.isPersonal || recipe.ingredientName || dislikedFound.length > 0) && (
           <div className="flex items-center gap-1.5 sm:gap-2 mb-2 sm:mb-3 flex-wrap">
             {recipe.isPersonal && (
               <Badge variant="outline" className="border-purple text-purple bg-purple/5">
@@ -199,6 +245,11 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
                 {recipe.ingredientName}
               </Badge>
             )}
+            {dislikedFound.length > 0 && (
+              <Badge variant="outline" className="border-amber-500 text-amber-700 bg-amber-50">
+                Contains {dislikedFound.join(", ")}
+              </Badge>
+            )}
           </div>
         )}
 
@@ -291,12 +342,17 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
             {ingredientsExpanded && (
               <div className="mt-2">
                 <RecipeIngredientList
+                  key={ingredientsVersion}
                   recipeId={recipe.id}
                   userId={userId ?? ''}
                   editable={recipe.createdBy === userId}
                   onIngredientsChange={onIngredientsChange}
                   pantryItems={pantryItems}
+                  servings={servings}
                 />
+                <div className="mt-3 pt-3 border-t">
+                  <RecipeNutritionSummary nutrition={estimateRecipeNutrition(ingredients!, servings)} />
+                </div>
               </div>
             )}
           </div>
@@ -348,7 +404,7 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
                           {note.photos && note.photos.length > 0 && (
                             <div className="flex gap-2 overflow-x-auto pb-2">
                               {note.photos.map((photo, idx) => (
-                                <img
+                                <ThumbnailImage
                                   key={idx}
                                   src={photo}
                                   alt={`${recipe.name} photo ${idx + 1}`}
@@ -385,6 +441,19 @@ const RecipeCard = ({ recipe, onEdit, onDelete, onEditRating, onAddNote, ingredi
           </>
         )}
       </CardContent>
+
+      {canViewHistory && (
+        <RecipeHistoryDialog
+          recipeId={recipe.id}
+          recipeName={recipe.name}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onReverted={() => {
+            setIngredientsVersion((version) => version + 1);
+            onIngredientsChange?.();
+          }}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2, Plus, Minus, ArrowRight, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { RecipeRevision, RecipeRevisionSource } from "@/types";
+import {
+  loadRecipeRevisions,
+  revertRecipeRevision,
+  diffRevisionIngredients,
+  diffRevisionContent,
+  formatRevisionIngredient,
+} from "@/lib/recipeRevisions";
+
+interface RecipeHistoryDialogProps {
+  recipeId: string;
+  recipeName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a revert so the caller can reload the recipe's ingredients */
+  onReverted?: () => void;
+}
+
+const SOURCE_LABELS: Record<RecipeRevisionSource, string> = {
+  parse: "Parsed",
+  edit: "Edited",
+  revert: "Reverted",
+  backfill: "Saved",
+  import: "Imported",
+};
+
+const formatRevisionTime = (createdAt: string) => format(parseISO(createdAt), "MMM d, yyyy h:mm a");
+
+function revisionTitle(revision: RecipeRevision): string {
+  const label = SOURCE_LABELS[revision.source];
+  return revision.changedByName ? `${label} by ${revision.changedByName}` : label;
+}
+
+const RevisionChanges = ({ revision, previous }: { revision: RecipeRevision; previous?: RecipeRevision }) => {
+  if (!previous) {
+    const count = revision.ingredients.length;
+    return (
+      <p className="text-xs text-muted-foreground">
+        {count} ingredient{count !== 1 ? "s" : ""}
+        {revision.source === "backfill" && " (before history was kept)"}
+      </p>
+    );
+  }
+
+  const changes = diffRevisionIngredients(previous.ingredients, revision.ingredients);
+  const contentChanges = diffRevisionContent(previous.content, revision.content);
+
+  if (changes.length === 0 && contentChanges.length === 0) {
+    return <p className="text-xs text-muted-foreground">No ingredient changes</p>;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {changes.length > 0 && (
+        <ul className="space-y-0.5 text-xs">
+          {changes.map((change, idx) => (
+            <li key={idx} className="flex items-center gap-1">
+              {change.type === "added" && (
+                <>
+                  <Plus className="h-3 w-3 text-green-600 shrink-0" aria-label="Added" />
+                  <span className="text-green-700">{formatRevisionIngredient(change.after)}</span>
+                </>
+              )}
+              {change.type === "removed" && (
+                <>
+                  <Minus className="h-3 w-3 text-red-500 shrink-0" aria-label="Removed" />
+                  <span className="text-red-600 line-through">{formatRevisionIngredient(change.before)}</span>
+                </>
+              )}
+              {change.type === "changed" && (
+                <>
+                  <span className="text-muted-foreground">{formatRevisionIngredient(change.before)}</span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" aria-label="Changed to" />
+                  <span className="text-amber-700">{formatRevisionIngredient(change.after)}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {contentChanges.length > 0 && (
+        <p className="text-xs text-muted-foreground">Also changed {contentChanges.join(", ")}</p>
+      )}
+    </div>
+  );
+};
+
+const RecipeHistoryDialog = ({ recipeId, recipeName, open, onOpenChange, onReverted }: RecipeHistoryDialogProps) => {
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setRevisions(await loadRecipeRevisions(recipeId));
+  }, [recipeId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadRevisions().finally(() => setLoading(false));
+  }, [open, loadRevisions]);
+
+  const handleRevert = async (revision: RecipeRevision) => {
+    setRevertingId(revision.id);
+    try {
+      await revertRecipeRevision(revision.id);
+      toast.success(`Reverted to the version from ${formatRevisionTime(revision.createdAt)}`);
+      await loadRevisions();
+      onReverted?.();
+    } catch (error) {
+      console.error("Error reverting recipe:", error);
+      toast.error("Failed to revert recipe");
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History of {recipeName}</DialogTitle>
+          <DialogDescription>Every parse and edit to this recipe's ingredients.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No changes recorded yet</p>
+        ) : (
+          <ol className="relative space-y-4 border-l border-purple/20 pl-4">
+            {revisions.map((revision, idx) => (
+              <li key={revision.id} className="relative">
+                <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-purple/60" />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{revisionTitle(revision)}</span>
+                      {idx === 0 && (
+                        <Badge variant="outline" className="border-purple text-purple bg-purple/5">
+                          Current
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mb-1">{formatRevisionTime(revision.createdAt)}</p>
+                  </div>
+                  {idx > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs shrink-0"
+                      disabled={revertingId !== null}
+                      aria-label={`Revert to version from ${formatRevisionTime(revision.createdAt)}`}
+                      onClick={() => handleRevert(revision)}
+                    >
+                      {revertingId === revision.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                      )}
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                <RevisionChanges revision={revision} previous={revisions[idx + 1]} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeHistoryDialog;
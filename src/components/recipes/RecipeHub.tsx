@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { loadUserPreferences } from "@/lib/userPreferences";
 import { useRecipeParse } from "@/hooks/useRecipeParse";
+import { enqueueRecipeParse, subscribeToParseJob } from "@/lib/parseJobs";
 import { Input } from "@/components/ui/input";
 import {
   Select,
@@ -33,20 +34,24 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Textarea } from "@/components/ui/textarea";
-import { Search, BookOpen, Loader2, SlidersHorizontal, Plus } from "lucide-react";
+import { Search, BookOpen, Loader2, SlidersHorizontal, Plus, FileUp } from "lucide-react";
 import PhotoUpload from "./PhotoUpload";
+import RecipeImportDialog from "./RecipeImportDialog";
 import ParseProgressDialog from "@/components/mealplan/ParseProgressDialog";
 import RecipeInputForm, {
   createInitialFormData,
   canSubmitRecipeForm,
+  getRecipeSourceFiles,
   type RecipeFormData,
 } from "./RecipeInputForm";
-import type { Recipe, Ingredient, RecipeNote, RecipeRatingsSummary, RecipeIngredient, RecipeContent, GroceryCategory } from "@/types";
+import type { Recipe, Ingredient, RecipeNote, RecipeRatingsSummary, RecipeIngredient, RecipeContent, GroceryCategory, UserPreferences } from "@/types";
 import RecipeCard from "./RecipeCard";
 import EventRatingDialog from "@/components/events/EventRatingDialog";
 import { getIngredientColor } from "@/lib/ingredientColors";
 import { getPantryItems, DEFAULT_PANTRY_ITEMS } from "@/lib/pantry";
 import { saveRecipeEdit } from "@/lib/recipeActions";
+import { findDietaryConflicts, getRecipeTotalMinutes } from "@/lib/dietary";
+import { getActiveClubId } from "@/lib/clubs";
 
 export interface RecipeWithNotes extends Recipe {
   notes: RecipeNote[];
@@ -72,6 +77,10 @@ interface RecipeContentRow {
   id: string;
   recipe_id: string;
   status: string;
+  servings: string | null;
+  prep_time: string | null;
+  cook_time: string | null;
+  total_time: string | null;
 }
 
 type RecipeSubTab = "club" | "personal";
@@ -110,12 +119,16 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
   const [recipeContentMap, setRecipeContentMap] = useState<Record<string, RecipeContent>>({});
   const [pantryItemNames, setPantryItemNames] = useState<string[]>(DEFAULT_PANTRY_ITEMS);
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
+  const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+  const [fitsDietOnly, setFitsDietOnly] = useState(false);
+  const [underMaxTimeOnly, setUnderMaxTimeOnly] = useState(false);
 
   // Add Recipe dialog state
   const [showAddRecipeDialog, setShowAddRecipeDialog] = useState(false);
   const [addRecipeFormData, setAddRecipeFormData] = useState<RecipeFormData>(createInitialFormData());
   const [isAddingRecipe, setIsAddingRecipe] = useState(false);
   const [isUploadingAddRecipeFile, setIsUploadingAddRecipeFile] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
 
   const handleAddPersonalRecipe = async () => {
     if (!userId) return;
@@ -126,6 +139,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
         .insert({
           name: addRecipeFormData.name.trim(),
           url: addRecipeFormData.url.trim() || null,
+          source_files: getRecipeSourceFiles(addRecipeFormData),
           created_by: userId,
           event_id: null,
           ingredient_id: null,
@@ -154,6 +168,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
   const {
     parseStatus,
     parseStep,
+    parseJob,
     pendingParseName,
     startParse,
     handleRetry: handleParseRetry,
@@ -205,7 +220,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
 
   const loadClubRecipes = async () => {
     // Load all recipes with their ingredient info, joining scheduled_events to filter out personal meals
-    const { data: recipesData, error: recipesError } = await supabase
+    let query = supabase
       .from("recipes")
       .select(`
         *,
@@ -213,7 +228,11 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
         profiles:created_by (name, avatar_url),
         scheduled_events!event_id (type)
       `)
-      .not("event_id", "is", null)
+      .not("event_id", "is", null);
+    const clubId = getActiveClubId();
+    if (clubId) query = query.eq("club_id", clubId);
+
+    const { data: recipesData, error: recipesError } = await query
       .order("created_at", { ascending: false });
 
     if (recipesError) throw recipesError;
@@ -452,7 +471,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
         .in("recipe_id", recipeIds),
       supabase
         .from("recipe_content")
-        .select("id, recipe_id, status")
+        .select("id, recipe_id, status, servings, prep_time, cook_time, total_time")
         .in("recipe_id", recipeIds),
     ]);
 
@@ -487,6 +506,10 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
           id: row.id,
           recipeId: row.recipe_id,
           status: row.status as RecipeContent["status"],
+          servings: row.servings ?? undefined,
+          prepTime: row.prep_time ?? undefined,
+          cookTime: row.cook_time ?? undefined,
+          totalTime: row.total_time ?? undefined,
         };
       });
     }
@@ -495,11 +518,14 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
 
   const loadUsedIngredients = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("ingredients")
         .select("*")
-        .gt("used_count", 0)
-        .order("name");
+        .gt("used_count", 0);
+      const clubId = getActiveClubId();
+      if (clubId) query = query.eq("club_id", clubId);
+
+      const { data, error } = await query.order("name");
 
       if (error) throw error;
 
@@ -655,23 +681,32 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
     }
   };
 
-  const handleParseRecipe = (recipeId: string) => {
+  const handleParseRecipe = (recipeId: string, reparse = false) => {
     const recipe = recipes.find((r) => r.id === recipeId)!;
 
-    toast("Parsing recipe ingredients...");
-
-    supabase.functions
-      .invoke("parse-recipe", {
-        body: { recipeId, recipeUrl: recipe.url, recipeName: recipe.name, model: getCachedAiModel() },
+    toast(reparse ? "Re-parsing recipe..." : "Parsing recipe ingredients...");
+
+    // Re-parses skip the shared parse cache and refresh it with this result
+    enqueueRecipeParse(recipeId, { recipeName: recipe.name, recipeUrl: recipe.url, reparse })
+      .then((job) => {
+        let finished = false;
+        const unsubscribe = subscribeToParseJob(job.id, ({ status, lastError }) => {
+          if (finished || (status !== "completed" && status !== "failed")) return;
+          finished = true;
+          unsubscribe();
+          if (status === "completed") {
+            toast.success("Recipe parsed!");
+            setIsLoading(true);
+            loadRecipes();
+          } else {
+            console.error("Error parsing recipe:", lastError);
+            toast.error("Failed to parse recipe");
+          }
+        });
       })
-      .then((result) => {
-        if (result?.error) {
-          toast.error("Failed to parse recipe");
-        } else {
-          toast.success("Recipe parsed!");
-          setIsLoading(true);
-          loadRecipes();
-        }
+      .catch((error) => {
+        console.error("Error queueing recipe parse:", error);
+        toast.error("Failed to parse recipe");
       });
   };
 
@@ -684,6 +719,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
         const names = items.map((i) => i.name);
         if (names.length > 0) setPantryItemNames(names);
       }).catch(() => { /* fallback to defaults */ });
+      loadUserPreferences(userId).then(setUserPreferences);
     }
 
     // Eagerly load personal count so the tab button shows it on mount
@@ -716,7 +752,11 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [subTab]);
 
-  // Filter recipes based on search and ingredient
+  const hasDietaryRestrictions = (userPreferences?.dietaryRestrictions.length ?? 0) > 0;
+  const dietFilterActive = fitsDietOnly && hasDietaryRestrictions && !!userPreferences;
+  const timeFilterActive = underMaxTimeOnly && !!userPreferences;
+
+  // Filter recipes based on search, ingredient and the user's dietary preferences
   const filteredRecipes = recipes.filter((recipe) => {
     const matchesSearch =
       searchTerm === "" ||
@@ -730,7 +770,19 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
       ingredientFilter === "all" ||
       recipe.ingredientId === ingredientFilter;
 
-    return matchesSearch && matchesIngredient;
+    // Recipes without parsed ingredients or times can't be verified, so they're hidden while the filter is on
+    const ingredients = recipeIngredientsMap[recipe.id];
+    const matchesDiet =
+      !dietFilterActive ||
+      (!!ingredients?.length &&
+        findDietaryConflicts(ingredients, userPreferences.dietaryRestrictions).length === 0);
+
+    const totalMinutes = getRecipeTotalMinutes(recipeContentMap[recipe.id]);
+    const matchesTime =
+      !timeFilterActive ||
+      (totalMinutes != null && totalMinutes <= userPreferences.maxCookTimeMinutes);
+
+    return matchesSearch && matchesIngredient && matchesDiet && matchesTime;
   });
 
   // Sort filtered recipes
@@ -817,6 +869,17 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
                   <Plus className="h-4 w-4" />
                 </Button>
               )}
+              {subTab === "personal" && userId && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="sm:hidden shrink-0"
+                  onClick={() => setShowImportDialog(true)}
+                  aria-label="Import Recipes"
+                >
+                  <FileUp className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="icon"
@@ -824,7 +887,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
                 onClick={() => setMobileFiltersOpen(!mobileFiltersOpen)}
               >
                 <SlidersHorizontal className="h-4 w-4" />
-                {(sortOption !== "newest" || ingredientFilter !== "all") && (
+                {(sortOption !== "newest" || ingredientFilter !== "all" || dietFilterActive || timeFilterActive) && (
                   <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-purple" />
                 )}
               </Button>
@@ -889,15 +952,47 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
             )}
           </div>
           {subTab === "personal" && userId && (
+            <div className="hidden sm:flex gap-2 shrink-0">
+              <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                <FileUp className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button
+                onClick={() => setShowAddRecipeDialog(true)}
+                className="bg-purple hover:bg-purple-dark"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Recipe
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Preference filters */}
+        {userPreferences && (
+          <div className={`${mobileFiltersOpen ? "flex" : "hidden sm:flex"} flex-wrap gap-2`}>
+            {hasDietaryRestrictions && (
+              <Button
+                variant={fitsDietOnly ? "default" : "outline"}
+                size="sm"
+                aria-pressed={fitsDietOnly}
+                onClick={() => setFitsDietOnly(!fitsDietOnly)}
+                className={fitsDietOnly ? "bg-purple hover:bg-purple-dark" : ""}
+              >
+                Fits my diet
+              </Button>
+            )}
             <Button
-              onClick={() => setShowAddRecipeDialog(true)}
-              className="hidden sm:inline-flex bg-purple hover:bg-purple-dark shrink-0"
+              variant={underMaxTimeOnly ? "default" : "outline"}
+              size="sm"
+              aria-pressed={underMaxTimeOnly}
+              onClick={() => setUnderMaxTimeOnly(!underMaxTimeOnly)}
+              className={underMaxTimeOnly ? "bg-purple hover:bg-purple-dark" : ""}
             >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Recipe
+              Under {userPreferences.maxCookTimeMinutes} min
             </Button>
-          )}
-        </div>
+          </div>
+        )}
 
         {/* Recipe Grid */}
         {sortedRecipes.length === 0 ? (
@@ -905,7 +1000,7 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
             <CardContent className="flex flex-col items-center justify-center py-12">
               <BookOpen className="h-12 w-12 text-muted-foreground mb-4" />
               <p className="text-muted-foreground text-center">
-                {searchTerm || ingredientFilter !== "all"
+                {searchTerm || ingredientFilter !== "all" || dietFilterActive || timeFilterActive
                   ? "No recipes found matching your search."
                   : subTab === "personal"
                   ? "No personal recipes yet. Click \"Add Recipe\" to get started."
@@ -926,6 +1021,8 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
                 ingredients={recipeIngredientsMap[recipe.id]}
                 pantryItems={pantryItemNames}
                 contentStatus={recipeContentMap[recipe.id]?.status}
+                servings={recipeContentMap[recipe.id]?.servings}
+                dislikedIngredients={userPreferences?.dislikedIngredients}
                 onParseRecipe={isAdmin ? handleParseRecipe : undefined}
                 userId={userId}
                 onIngredientsChange={() => handleIngredientsChange(recipe.id)}
@@ -1153,10 +1250,21 @@ const RecipeHub = ({ userId, isAdmin, canEdit = isAdmin, isClubMember }: RecipeH
         </DialogContent>
       </Dialog>
 
+      {/* Import Recipes Dialog */}
+      {userId && (
+        <RecipeImportDialog
+          userId={userId}
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImported={() => { setIsLoading(true); loadRecipes(); }}
+        />
+      )}
+
       {/* Parse Progress Dialog */}
       <ParseProgressDialog
         parseStatus={parseStatus}
         parseStep={parseStep}
+        parseJob={parseJob}
         recipeName={pendingParseName}
         onDiscard={handleParseDiscard}
         onKeep={handleParseKeep}
@@ -0,0 +1,255 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ImportedRecipe } from "@/types";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FORMAT_LABELS,
+  RecipeImportError,
+  findImportDuplicates,
+  importRecipes,
+  loadExistingRecipes,
+  needsParse,
+  readImportFile,
+  type ImportDuplicate,
+} from "@/lib/recipeImport";
+
+interface RecipeImportDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an import so the caller can reload its recipes */
+  onImported: () => void;
+}
+
+interface PreviewRow {
+  recipe: ImportedRecipe;
+  duplicate: ImportDuplicate | null;
+  selected: boolean;
+}
+
+const DUPLICATE_LABELS: Record<ImportDuplicate, string> = {
+  existing: "Already in My Recipes",
+  file: "Duplicate in file",
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+function describeRecipe(recipe: ImportedRecipe): string {
+  if (needsParse(recipe)) return "Link only, will be parsed";
+  if (recipe.ingredients.length === 0 && recipe.instructions.length === 0) return "No ingredients or steps";
+  return `${plural(recipe.ingredients.length, "ingredient")} · ${plural(recipe.instructions.length, "step")}`;
+}
+
+const RecipeImportDialog = ({ userId, open, onOpenChange, onImported }: RecipeImportDialogProps) => {
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isImporting = progress !== null;
+  const selectedRecipes = rows.filter((row) => row.selected).map((row) => row.recipe);
+
+  const reset = () => {
+    setRows([]);
+    setFileErrors([]);
+    setProgress(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    const recipes: ImportedRecipe[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        recipes.push(...(await readImportFile(file)));
+      } catch (error) {
+        const message = error instanceof RecipeImportError ? error.message : "This file couldn't be read";
+        errors.push(`${file.name}: ${message}`);
+      }
+    }
+
+    const existing = recipes.length > 0 ? await loadExistingRecipes(userId) : [];
+    const duplicates = findImportDuplicates(recipes, existing);
+    setRows(recipes.map((recipe, index) => ({ recipe, duplicate: duplicates[index], selected: !duplicates[index] })));
+    setFileErrors(errors);
+    setIsReading(false);
+  };
+
+  const toggleRow = (index: number) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, selected: !row.selected } : row)));
+  };
+
+  const toggleAll = () => {
+    const selectAll = selectedRecipes.length < rows.length;
+    setRows((prev) => prev.map((row) => ({ ...row, selected: selectAll })));
+  };
+
+  const handleImport = async () => {
+    setProgress({ done: 0, total: selectedRecipes.length });
+    const result = await importRecipes(selectedRecipes, (done, total) => setProgress({ done, total }));
+
+    if (result.imported > 0) {
+      toast.success(`Imported ${plural(result.imported, "recipe")}`);
+      onImported();
+    }
+    if (result.failed.length > 0) {
+      toast.error(`Couldn't import ${result.failed.join(", ")}`);
+    }
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Import Recipes</DialogTitle>
+          <DialogDescription>
+            Bring in recipes exported from Paprika, Mela, Cooklang or MealMaster, or a JSON-LD file of schema.org recipes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading || isImporting}
+          >
+            {isReading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Reading files...
+              </>
+            ) : (
+              <>
+                <FileUp className="h-4 w-4 mr-2" />
+                {rows.length > 0 ? "Choose different files" : "Choose files"}
+              </>
+            )}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_FILE_EXTENSIONS.join(",")}
+            multiple
+            onChange={handleFiles}
+            className="hidden"
+            aria-label="Recipe files"
+          />
+
+          {fileErrors.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs sm:text-sm text-amber-800">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Some files couldn't be imported
+              </div>
+              <ul className="mt-1 ml-6 list-disc">
+                {fileErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+                  <tr>
+                    <th className="p-2 w-8">
+                      <input
+                        type="checkbox"
+                        checked={selectedRecipes.length === rows.length}
+                        onChange={toggleAll}
+                        disabled={isImporting}
+                        aria-label="Select all recipes"
+                      />
+                    </th>
+                    <th className="p-2 font-medium">Recipe</th>
+                    <th className="p-2 font-medium">Format</th>
+                    <th className="p-2 font-medium">Contents</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index} className="border-t">
+                      <td className="p-2 align-top">
+                        <input
+                          type="checkbox"
+                          checked={row.selected}
+                          onChange={() => toggleRow(index)}
+                          disabled={isImporting}
+                          aria-label={`Import ${row.recipe.name}`}
+                        />
+                      </td>
+                      <td className="p-2 align-top">
+                        <div className="font-medium">{row.recipe.name}</div>
+                        {row.duplicate && (
+                          <Badge variant="outline" className="mt-1 border-amber-300 text-amber-700">
+                            {DUPLICATE_LABELS[row.duplicate]}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-2 align-top text-muted-foreground">{IMPORT_FORMAT_LABELS[row.recipe.format]}</td>
+                      <td className="p-2 align-top text-muted-foreground">{describeRecipe(row.recipe)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <span className="text-xs text-muted-foreground">
+            {rows.length > 0 && `${selectedRecipes.length} of ${rows.length} selected`}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={selectedRecipes.length === 0 || isReading || isImporting}
+              className="bg-purple hover:bg-purple-dark"
+            >
+              {progress ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing {progress.done} of {progress.total}...
+                </>
+              ) : (
+                `Import ${plural(selectedRecipes.length, "recipe")}`
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeImportDialog;
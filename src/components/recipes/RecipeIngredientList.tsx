@@ -7,6 +7,7 @@ import { CATEGORY_ORDER, isPantryItem } from "@/lib/groceryList";
 import { DEFAULT_PANTRY_ITEMS } from "@/lib/pantry";
 import { deleteGroceryCache } from "@/lib/groceryCache";
 import { parseIngredientText } from "@/lib/parseIngredientText";
+import { isServingCount, parseServings, scaleIngredients } from "@/lib/servings";
 import GroceryCategoryGroup from "@/components/recipes/GroceryCategoryGroup";
 import AddIngredientInput from "@/components/recipes/AddIngredientInput";
 
@@ -17,8 +18,17 @@ interface RecipeIngredientListProps {
   onIngredientsChange?: () => void;
   cacheContext?: { type: "event" | "meal_plan"; id: string; userId: string };
   pantryItems?: string[];
+  /** Free-text servings from recipe_content, shown next to the scale control */
+  servings?: string;
 }
 
+const SCALE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.5, label: "½×" },
+  { value: 1, label: "1×" },
+  { value: 2, label: "2×" },
+  { value: 3, label: "3×" },
+];
+
 function toSmartItem(ing: RecipeIngredient): SmartGroceryItem {
   return {
     name: ing.name,
@@ -50,9 +60,11 @@ const RecipeIngredientList = ({
   onIngredientsChange,
   cacheContext,
   pantryItems,
+  servings,
 }: RecipeIngredientListProps) => {
   const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
   const [loading, setLoading] = useState(true);
+  const [scale, setScale] = useState(1);
 
   const loadIngredients = useCallback(async () => {
     const { data, error } = await supabase
@@ -168,10 +180,35 @@ const RecipeIngredientList = ({
   const displayedIngredients = ingredients.filter(
     (ing) => !isPantryItem(ing.name, allPantryItems, ing.unit)
   );
-  const grouped = groupByCategory(displayedIngredients);
+  const grouped = groupByCategory(scaleIngredients(displayedIngredients, scale));
+  // Only serving counts read as "Serves"; "1 loaf" just scales
+  const baseServings = isServingCount(servings) ? parseServings(servings) : undefined;
 
   return (
     <div>
+      {displayedIngredients.length > 0 && (
+        <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
+          <span className="mr-1">
+            {baseServings ? `Serves ${Math.round(baseServings * scale * 10) / 10}` : "Scale"}
+          </span>
+          {SCALE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={scale === option.value}
+              aria-label={`Scale ingredients ${option.value}x`}
+              onClick={() => setScale(option.value)}
+              className={`px-1.5 py-0.5 rounded border transition-colors ${
+                scale === option.value
+                  ? "bg-purple text-white border-purple"
+                  : "border-gray-200 hover:border-purple/50 hover:text-purple"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
       {displayedIngredients.length === 0 ? (
         <p className="text-sm text-muted-foreground py-2">No ingredients yet</p>
       ) : (
@@ -5,12 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { Loader2, Upload } from "lucide-react";
+import { AlertTriangle, ChevronDown, ChevronUp, FileText, Loader2, Upload, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { uploadRecipeFile, FileValidationError } from "@/lib/upload";
+import { uploadRecipeFiles, FileValidationError, MAX_RECIPE_FILES } from "@/lib/upload";
 import { parseFractionToDecimal } from "@/lib/groceryList";
 import IngredientFormRows from "./IngredientFormRows";
+import ThumbnailImage from "./ThumbnailImage";
 import { createBlankRow, type IngredientRow } from "./ingredientRowTypes";
+import { findMemberConflicts, getDietaryRestrictionLabel } from "@/lib/dietary";
+import type { MemberDietaryRestrictions } from "@/types";
 
 export type InputMode = "url" | "upload" | "manual";
 
@@ -18,6 +21,8 @@ export interface RecipeFormData {
   name: string;
   url: string;
   inputMode: InputMode;
+  /** Uploaded pages or photos in order; `url` is the first of them */
+  files: string[];
   ingredientRows: IngredientRow[];
   pasteText: string;
 }
@@ -32,6 +37,8 @@ interface RecipeInputFormProps {
   showManualMode?: boolean;
   /** When true, manual mode shows only a paste textarea instead of row-by-row entry */
   manualPasteOnly?: boolean;
+  /** Club members' dietary restrictions; entered ingredients are checked against them */
+  memberRestrictions?: MemberDietaryRestrictions[];
 }
 
 export function createInitialFormData(): RecipeFormData {
@@ -39,6 +46,7 @@ export function createInitialFormData(): RecipeFormData {
     name: "",
     url: "",
     inputMode: "url",
+    files: [],
     ingredientRows: [createBlankRow()],
     pasteText: "",
   };
@@ -70,6 +78,11 @@ export function buildIngredientPayload(rows: IngredientRow[]) {
     }));
 }
 
+/** The ordered files to store on the recipe, or null when it wasn't uploaded. */
+export function getRecipeSourceFiles(data: RecipeFormData): string[] | null {
+  return data.inputMode === "upload" && data.files.length > 0 ? data.files : null;
+}
+
 function isValidUrl(value: string) {
   return value.trim().startsWith("http://") || value.trim().startsWith("https://");
 }
@@ -83,11 +96,21 @@ const RecipeInputForm = ({
   namePlaceholder = "Enter recipe name",
   showManualMode = true,
   manualPasteOnly = false,
+  memberRestrictions = [],
 }: RecipeInputFormProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isUploadingFile = externalUploading ?? false;
   const uploadingFileNameRef = useRef("");
 
+  // Only manually entered ingredients can be checked before the recipe is parsed
+  const enteredIngredients =
+    formData.inputMode !== "manual"
+      ? []
+      : manualPasteOnly
+      ? formData.pasteText.split(/[\n,]/).map((name) => ({ name: name.trim() })).filter((i) => i.name)
+      : formData.ingredientRows.filter((r) => r.name.trim());
+  const memberConflicts = findMemberConflicts(enteredIngredients, memberRestrictions);
+
   const update = (partial: Partial<RecipeFormData>) => {
     onFormDataChange({ ...formData, ...partial });
   };
@@ -95,6 +118,8 @@ const RecipeInputForm = ({
   const handleModeChange = (mode: InputMode) => {
     const changes: Partial<RecipeFormData> = { inputMode: mode };
     if (mode !== "url" && mode !== "upload") changes.url = "";
+    if (mode === "upload") changes.url = formData.files[0] ?? "";
+    if (mode !== "upload") changes.files = [];
     if (mode !== "manual") {
       changes.ingredientRows = [createBlankRow()];
       changes.pasteText = "";
@@ -102,21 +127,38 @@ const RecipeInputForm = ({
     onFormDataChange({ ...formData, ...changes });
   };
 
+  const setFiles = (files: string[]) => {
+    update({ files, url: files[0] ?? "" });
+  };
+
+  const moveFile = (index: number, offset: number) => {
+    const files = [...formData.files];
+    [files[index], files[index + offset]] = [files[index + offset], files[index]];
+    setFiles(files);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const selected = Array.from(e.target.files ?? []);
+    if (selected.length === 0) return;
+
+    if (formData.files.length + selected.length > MAX_RECIPE_FILES) {
+      toast.error(`A recipe can have at most ${MAX_RECIPE_FILES} files`);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
 
     onUploadingChange?.(true);
-    uploadingFileNameRef.current = file.name;
+    uploadingFileNameRef.current = selected.length === 1 ? selected[0].name : `${selected.length} files`;
     try {
-      const publicUrl = await uploadRecipeFile(file);
-      const changes: Partial<RecipeFormData> = { url: publicUrl };
+      const uploadedUrls = await uploadRecipeFiles(selected);
+      const files = [...formData.files, ...uploadedUrls];
+      const changes: Partial<RecipeFormData> = { files, url: files[0] };
       if (!formData.name.trim()) {
-        const baseName = file.name.replace(/\.[^/.]+$/, "").replace(/[-_]/g, " ");
+        const baseName = selected[0].name.replace(/\.[^/.]+$/, "").replace(/[-_]/g, " ");
         changes.name = baseName;
       }
       onFormDataChange({ ...formData, ...changes });
-      toast.success("File uploaded!");
+      toast.success(uploadedUrls.length === 1 ? "File uploaded!" : `${uploadedUrls.length} files uploaded!`);
     } catch (error) {
       if (error instanceof FileValidationError) {
         toast.error(error.message);
@@ -204,44 +246,88 @@ const RecipeInputForm = ({
       {/* Upload mode */}
       {formData.inputMode === "upload" && (
         <div className="space-y-1.5 sm:space-y-2">
-          <Label className="text-sm">Upload Photo or PDF</Label>
-          <div className="flex gap-2">
-            <Input
-              type="url"
-              value={formData.url}
-              onChange={(e) => update({ url: e.target.value })}
-              placeholder="File URL will appear here..."
-              readOnly
-              className="flex-1"
-            />
+          <Label className="text-sm">Upload Photos or PDFs</Label>
+          <p className="text-xs text-muted-foreground">
+            Add every page or photo of the recipe, in order. They're read together.
+          </p>
+          {formData.files.length > 0 && (
+            <ol className="space-y-1.5">
+              {formData.files.map((file, index) => (
+                <li key={file} className="flex items-center gap-2 rounded-md border p-1.5">
+                  {file.toLowerCase().endsWith(".pdf") ? (
+                    <div className="h-10 w-10 shrink-0 flex items-center justify-center rounded bg-muted">
+                      <FileText className="h-5 w-5 text-red-500" />
+                    </div>
+                  ) : (
+                    <ThumbnailImage src={file} className="h-10 w-10 shrink-0 rounded object-cover" />
+                  )}
+                  <span className="flex-1 text-sm">Page {index + 1}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => moveFile(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move page ${index + 1} up`}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => moveFile(index, 1)}
+                    disabled={index === formData.files.length - 1}
+                    aria-label={`Move page ${index + 1} down`}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setFiles(formData.files.filter((_, i) => i !== index))}
+                    aria-label={`Remove page ${index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+          {formData.files.length < MAX_RECIPE_FILES && (
             <Button
               type="button"
               variant="outline"
               onClick={() => fileInputRef.current?.click()}
               disabled={isUploadingFile}
-              className="shrink-0"
+              className="w-full"
               aria-label="Upload photo or PDF"
             >
               {isUploadingFile ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin mr-1" />
-                  <span className="text-xs truncate max-w-[100px]">{uploadingFileNameRef.current}</span>
+                  <span className="text-xs truncate max-w-[160px]">{uploadingFileNameRef.current}</span>
                 </>
               ) : (
                 <>
                   <Upload className="h-4 w-4 mr-1" />
-                  Upload
+                  {formData.files.length > 0 ? "Add pages" : "Upload"}
                 </>
               )}
             </Button>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="image/*,.pdf,application/pdf"
-              onChange={handleFileUpload}
-              className="hidden"
-            />
-          </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,.heic,.heif,.pdf,application/pdf"
+            multiple
+            onChange={handleFileUpload}
+            className="hidden"
+          />
         </div>
       )}
 
@@ -267,6 +353,28 @@ const RecipeInputForm = ({
           />
         </div>
       )}
+
+      {memberRestrictions.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs sm:text-sm text-amber-800">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {memberConflicts.length > 0 ? "Conflicts with club dietary restrictions" : "Club dietary restrictions"}
+          </div>
+          <ul className="mt-1 ml-6 list-disc">
+            {memberConflicts.length > 0
+              ? memberConflicts.map((c) => (
+                  <li key={`${c.memberName}-${c.restriction}`}>
+                    {c.memberName} ({getDietaryRestrictionLabel(c.restriction).toLowerCase()}): {c.ingredients.join(", ")}
+                  </li>
+                ))
+              : memberRestrictions.map((m) => (
+                  <li key={m.userId}>
+                    {m.name}: {m.restrictions.map((r) => getDietaryRestrictionLabel(r).toLowerCase()).join(", ")}
+                  </li>
+                ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
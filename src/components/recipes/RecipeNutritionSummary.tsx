@@ -0,0 +1,73 @@
+import { AlertTriangle } from "lucide-react";
+import type { NutritionFacts, RecipeNutrition, UncountedIngredient } from "@/types";
+import { formatNutrient } from "@/lib/nutrition";
+
+interface RecipeNutritionSummaryProps {
+  nutrition: RecipeNutrition;
+}
+
+const NUTRIENTS: { key: keyof NutritionFacts; label: string }[] = [
+  { key: "calories", label: "Calories" },
+  { key: "protein", label: "Protein" },
+  { key: "carbs", label: "Carbs" },
+  { key: "fat", label: "Fat" },
+  { key: "fiber", label: "Fiber" },
+  { key: "sodium", label: "Sodium" },
+];
+
+const REASON_LABELS: Record<UncountedIngredient["reason"], string> = {
+  unknown: "no nutrition data",
+  no_amount: "no amount",
+  unit: "unit can't be weighed",
+};
+
+const RecipeNutritionSummary = ({ nutrition }: RecipeNutritionSummaryProps) => {
+  if (nutrition.countedCount === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Not enough recognized ingredients to estimate nutrition.
+      </p>
+    );
+  }
+
+  const shown = nutrition.perServing ?? nutrition.total;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Nutrition estimate
+        </h4>
+        <span className="text-xs text-muted-foreground">
+          {nutrition.perServing
+            ? `Per serving · serves ${nutrition.servings}`
+            : "Whole recipe · servings unknown"}
+        </span>
+      </div>
+      <dl className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+        {NUTRIENTS.map(({ key, label }) => (
+          <div key={key} className="rounded-md bg-white/60 border px-2 py-1 text-center">
+            <dt className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</dt>
+            <dd className="text-sm font-medium">{formatNutrient(key, shown[key])}</dd>
+          </div>
+        ))}
+      </dl>
+      {nutrition.perServing && (
+        <p className="text-xs text-muted-foreground">
+          Whole recipe: {formatNutrient("calories", nutrition.total.calories)} calories
+        </p>
+      )}
+      {nutrition.uncounted.length > 0 && (
+        <div className="flex items-start gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <p>
+            Not counted:{" "}
+            {nutrition.uncounted.map((item) => `${item.name} (${REASON_LABELS[item.reason]})`).join(", ")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeNutritionSummary;
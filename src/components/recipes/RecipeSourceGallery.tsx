@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, ExternalLink, FileText } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import ThumbnailImage from "./ThumbnailImage";
+
+interface RecipeSourceGalleryProps {
+  /** Uploaded pages or photos, in order */
+  files: string[];
+  recipeName: string;
+}
+
+const isPdf = (file: string) => file.toLowerCase().split("?")[0].endsWith(".pdf");
+
+const RecipeSourceGallery = ({ files, recipeName }: RecipeSourceGalleryProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (files.length === 0) return null;
+
+  const current = openIndex !== null ? files[openIndex] : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2">
+        {files.map((file, index) => (
+          <button
+            key={file}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="relative aspect-[3/4] overflow-hidden rounded-lg border bg-muted hover:ring-2 hover:ring-purple/40 transition"
+            aria-label={`View page ${index + 1} of ${files.length}`}
+          >
+            {isPdf(file) ? (
+              <span className="flex h-full w-full flex-col items-center justify-center">
+                <FileText className="h-8 w-8 text-red-500 mb-1" />
+                <span className="text-xs text-muted-foreground">PDF</span>
+              </span>
+            ) : (
+              <ThumbnailImage src={file} className="h-full w-full object-cover" />
+            )}
+            <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 text-[10px] font-medium text-white">
+              {index + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={current !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{recipeName}</DialogTitle>
+            <DialogDescription>
+              Page {(openIndex ?? 0) + 1} of {files.length}
+            </DialogDescription>
+          </DialogHeader>
+
+          {current && (
+            isPdf(current) ? (
+              <a
+                href={current}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex flex-col items-center justify-center gap-2 rounded-lg bg-muted py-12 text-sm hover:bg-muted/80"
+              >
+                <FileText className="h-12 w-12 text-red-500" />
+                <span className="inline-flex items-center gap-1">
+                  Open PDF <ExternalLink className="h-3 w-3" />
+                </span>
+              </a>
+            ) : (
+              <img
+                src={current}
+                alt={`${recipeName}, page ${(openIndex ?? 0) + 1}`}
+                className="max-h-[70vh] w-full rounded-lg object-contain"
+              />
+            )
+          )}
+
+          {files.length > 1 && (
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={openIndex === 0}
+                onClick={() => setOpenIndex((i) => (i ?? 0) - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={openIndex === files.length - 1}
+                onClick={() => setOpenIndex((i) => (i ?? 0) + 1)}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RecipeSourceGallery;
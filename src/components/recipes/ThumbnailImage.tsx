@@ -0,0 +1,29 @@
+import { useState, type ImgHTMLAttributes } from "react";
+import { getThumbnailUrl } from "@/lib/imageProcessing";
+
+interface ThumbnailImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src"> {
+  /** Full-size URL of the uploaded photo */
+  src: string;
+}
+
+/**
+ * Shows the small copy of an uploaded photo, falling back to the full-size
+ * file for uploads that predate thumbnails.
+ */
+const ThumbnailImage = ({ src, alt = "", ...props }: ThumbnailImageProps) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const thumbnailUrl = getThumbnailUrl(src);
+  const useFullSize = failedSrc === src || thumbnailUrl === src;
+
+  return (
+    <img
+      {...props}
+      src={useFullSize ? src : thumbnailUrl}
+      alt={alt}
+      loading="lazy"
+      onError={useFullSize ? props.onError : () => setFailedSrc(src)}
+    />
+  );
+};
+
+export default ThumbnailImage;
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { signOut } from "@/lib/auth";
-import type { User } from "@/types";
+import type { Club, User } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -12,7 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import PantryDialog from "@/components/pantry/PantryDialog";
-import { ArrowLeft, LogOut, Menu, Settings, Mail, UtensilsCrossed, Users } from "lucide-react";
+import { ArrowLeft, Check, LogOut, Menu, Settings, Mail, UtensilsCrossed, Users } from "lucide-react";
 
 interface AppHeaderProps {
   user: User | null;
@@ -25,6 +25,10 @@ interface AppHeaderProps {
   dropdownHeader?: React.ReactNode;
   /** Inline styles applied to the <header> element (e.g. custom border color) */
   style?: React.CSSProperties;
+  /** Clubs the user belongs to; a switcher is shown when there is more than one */
+  clubs?: Club[];
+  activeClubId?: string | null;
+  onClubChange?: (club: Club) => void;
 }
 
 const AppHeader = ({
@@ -35,6 +39,9 @@ const AppHeader = ({
   headerContent,
   dropdownHeader,
   style,
+  clubs = [],
+  activeClubId,
+  onClubChange,
 }: AppHeaderProps) => {
   const navigate = useNavigate();
   const [showPantryDialog, setShowPantryDialog] = useState(false);
@@ -76,6 +83,21 @@ const AppHeader = ({
                   <DropdownMenuSeparator className="md:hidden" />
                 </>
               )}
+              {clubs.length > 1 && onClubChange && (
+                <>
+                  {clubs.map((club) => (
+                    <DropdownMenuItem
+                      key={club.id}
+                      onClick={() => club.id !== activeClubId && onClubChange(club)}
+                      className="cursor-pointer"
+                    >
+                      <Check className={`h-4 w-4 mr-2 ${club.id === activeClubId ? "" : "invisible"}`} />
+                      <span className="truncate">{club.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                </>
+              )}
               {userIsMemberOrAdmin && (
                 <>
                   <DropdownMenuItem onClick={() => navigate("/users")} className="cursor-pointer">
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
@@ -11,14 +11,17 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { Ingredient, ScheduledEvent } from "@/types";
-import { MIN_INGREDIENTS_TO_SPIN, WHEEL_COLORS } from "@/lib/constants";
+import type { Ingredient, ScheduledEvent, SpinMode } from "@/types";
+import { MIN_INGREDIENTS_TO_SPIN, SPIN_COOLDOWN_EVENTS, WHEEL_COLORS } from "@/lib/constants";
+import { DEFAULT_SPIN_MODE, SPIN_MODES, getSpinOdds, pickSpinIndex } from "@/lib/wheel";
+import { cn } from "@/lib/utils";
 
 import confetti from "canvas-confetti";
 import { format, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { createCalendarEvent } from "@/lib/googleCalendar";
+import { getActiveClubId } from "@/lib/clubs";
 import { v4 as uuidv4 } from "uuid";
 
 interface IngredientWheelProps {
@@ -38,6 +41,10 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
   const [selectedTime, setSelectedTime] = useState("19:00");
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
   const [isLockingIn, setIsLockingIn] = useState(false);
+  const [spinMode, setSpinMode] = useState<SpinMode>(DEFAULT_SPIN_MODE);
+  const [pickedSpinMode, setPickedSpinMode] = useState<SpinMode>(DEFAULT_SPIN_MODE);
+  const [recentIngredientIds, setRecentIngredientIds] = useState<string[]>([]);
+  const [showOdds, setShowOdds] = useState(false);
   const wheelRef = useRef<HTMLDivElement>(null);
 
   // Only show ingredients that are in the bank
@@ -46,6 +53,38 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
   const hasEnoughIngredients = bankIngredients.length >= MIN_INGREDIENTS_TO_SPIN;
   const canSpin = hasEnoughIngredients && !disabled;
 
+  const spinOdds = getSpinOdds(bankIngredients, spinMode, {
+    recentIngredientIds,
+    excludeIndex: lastSelectedIndex,
+  });
+
+  // Cooldown mode needs the ingredients of the most recent club events
+  useEffect(() => {
+    if (spinMode !== "cooldown") return;
+    const loadRecentIngredients = async () => {
+      let query = supabase
+        .from("scheduled_events")
+        .select("ingredient_id")
+        .eq("type", "club")
+        .neq("status", "canceled");
+      const clubId = getActiveClubId();
+      if (clubId) query = query.eq("club_id", clubId);
+
+      const { data, error } = await query
+        .order("event_date", { ascending: false })
+        .limit(SPIN_COOLDOWN_EVENTS);
+
+      if (error) {
+        console.error("Error loading recent events:", error);
+        return;
+      }
+      setRecentIngredientIds(
+        (data || []).map((e) => e.ingredient_id).filter((id): id is string => !!id)
+      );
+    };
+    loadRecentIngredients();
+  }, [spinMode]);
+
   const formatTime = (time: string) => {
     const [hours, minutes] = time.split(":");
     const hour = parseInt(hours);
@@ -60,13 +99,11 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
     setIsSpinning(true);
     setSelectedIngredient(null);
 
-    // Pick a random ingredient (avoid same as last)
-    let randomIndex: number;
-    do {
-      randomIndex = Math.floor(Math.random() * bankIngredients.length);
-    } while (randomIndex === lastSelectedIndex && bankIngredients.length > 1);
+    // Pick according to the current mode's odds (which already avoid the last pick)
+    const randomIndex = pickSpinIndex(spinOdds);
 
     setLastSelectedIndex(randomIndex);
+    setPickedSpinMode(spinMode);
 
     // Calculate rotation to land on the selected ingredient
     const segmentAngle = 360 / bankIngredients.length;
@@ -118,12 +155,14 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
     try {
       const eventDateStr = format(selectedDate, "yyyy-MM-dd");
       const eventId = uuidv4();
+      const clubId = getActiveClubId();
 
       // Try to create Google Calendar event first
       const calendarResult = await createCalendarEvent({
         date: selectedDate,
         time: selectedTime,
         ingredientName: selectedIngredient.name,
+        clubId,
       });
 
       // Create the scheduled event with calendar_event_id if available
@@ -137,6 +176,8 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
           created_by: userId,
           status: "scheduled",
           calendar_event_id: calendarResult.eventId || null,
+          spin_mode: pickedSpinMode,
+          club_id: clubId,
         });
 
       if (eventError) throw eventError;
@@ -262,7 +303,7 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
                 textShadow,
                 fontSize: `${fontSize}px`,
                 whiteSpace: "nowrap",
-                opacity: ingredient.usedCount > 2 ? 0.85 : 1,
+                opacity: spinOdds[i] === 0 ? 0.4 : ingredient.usedCount > 2 ? 0.85 : 1,
               }}
             >
               {ingredient.name}
@@ -306,6 +347,52 @@ const IngredientWheel = ({ ingredients, onEventCreated, userId, disabled = false
             <div className="w-64 h-64 sm:w-72 sm:h-72 md:w-80 md:h-80 lg:w-96 lg:h-96 relative z-0">{renderWheel()}</div>
           </div>
 
+          {/* Spin mode + odds */}
+          {canSpin && !activeEvent && (
+            <div className="w-full space-y-2">
+              <div
+                role="group"
+                aria-label="Spin mode"
+                className="inline-flex h-9 items-center justify-center rounded-md bg-muted p-1 text-muted-foreground w-full"
+              >
+                {SPIN_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    title={mode.description}
+                    aria-pressed={spinMode === mode.value}
+                    disabled={isSpinning}
+                    className={cn(
+                      "inline-flex flex-1 items-center justify-center whitespace-nowrap rounded-sm px-2 py-1 text-xs sm:text-sm font-medium transition-all",
+                      spinMode === mode.value && "bg-background text-foreground shadow-sm"
+                    )}
+                    onClick={() => setSpinMode(mode.value)}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{SPIN_MODES.find((m) => m.value === spinMode)?.description}</span>
+                <button className="underline shrink-0 ml-2" onClick={() => setShowOdds(!showOdds)}>
+                  {showOdds ? "Hide odds" : "Show odds"}
+                </button>
+              </div>
+              {showOdds && (
+                <ul className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs" aria-label="Odds">
+                  {bankIngredients.map((ingredient, i) => (
+                    <li
+                      key={ingredient.id}
+                      className={cn("flex justify-between", spinOdds[i] === 0 && "text-muted-foreground line-through")}
+                    >
+                      <span className="truncate">{ingredient.name}</span>
+                      <span className="ml-2 tabular-nums">{(spinOdds[i] * 100).toFixed(1)}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Progress Message */}
           {activeEvent && (
             <div className="text-xs sm:text-sm text-muted-foreground text-center bg-gradient-to-r from-orange/10 to-orange/5 border border-orange/20 p-3 rounded-xl w-full">
@@ -12,13 +12,29 @@ import {
 import {
   loadGeneralItems,
   addGeneralItem,
-  removeGeneralItem,
-  updateGeneralItem,
   toRawIngredients,
 } from "@/lib/generalGrocery";
+import {
+  OFFLINE_ID_PREFIX,
+  applyGroceryOp,
+  enqueueGroceryOp,
+  getPendingGroceryOps,
+  isNavigatorOnline,
+  loadGrocerySnapshot,
+  replayGroceryQueue,
+  saveGrocerySnapshot,
+  type GroceryOp,
+} from "@/lib/groceryOffline";
+import {
+  loadHouseholdId,
+  loadGroceryChecks,
+  setGroceryCheck,
+  subscribeToGroceryChecks,
+} from "@/lib/household";
 import { getPantryItems, ensureDefaultPantryItems } from "@/lib/pantry";
 import { parseIngredientText } from "@/lib/parseIngredientText";
-import { loadUserPreferences, getCachedAiModel } from "@/lib/userPreferences";
+import { loadUserPreferences, getCachedAiOptions } from "@/lib/userPreferences";
+import { getYieldScale, scaleIngredients, type ServingsTarget } from "@/lib/servings";
 import type {
   Recipe,
   RecipeIngredient,
@@ -36,6 +52,8 @@ export interface UseGroceryListOptions {
   recipeIds: string[];
   enabled?: boolean;
   supportsGeneralItems?: boolean;
+  /** Servings and slots to shop for, keyed by recipe ID. Recipes without an entry are not scaled. */
+  servingsTargets?: Record<string, ServingsTarget>;
 }
 
 export interface UseGroceryListReturn {
@@ -49,10 +67,18 @@ export interface UseGroceryListReturn {
   isCombining: boolean;
   combineError: string | null;
   checkedItems: Set<string>;
+  /** Who checked each item on a shared household list, keyed by item name */
+  checkedBy: Record<string, string>;
+  /** Checks are shared live with the user's household */
+  isSharedList: boolean;
   generalItems: GeneralGroceryItem[];
   hasPendingChanges: boolean;
   isAddingGeneral: boolean;
   setIsAddingGeneral: (v: boolean) => void;
+  /** No connection: the list comes from the offline snapshot and changes are queued */
+  isOffline: boolean;
+  /** Queued changes for this list not yet written to the server */
+  pendingSyncCount: number;
 
   // Handlers
   handleToggleChecked: (itemName: string) => void;
@@ -93,6 +119,7 @@ export function useGroceryList(
     recipeIds,
     enabled = true,
     supportsGeneralItems = false,
+    servingsTargets,
   } = options;
 
   // --- State ---
@@ -110,10 +137,14 @@ export function useGroceryList(
   const [isCombining, setIsCombining] = useState(false);
   const [combineError, setCombineError] = useState<string | null>(null);
   const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
+  const [checkedBy, setCheckedBy] = useState<Record<string, string>>({});
+  const [householdId, setHouseholdId] = useState<string | null>(null);
   const [generalItems, setGeneralItems] = useState<GeneralGroceryItem[]>([]);
   const [hasPendingChanges, setHasPendingChanges] = useState(false);
   const [isAddingGeneral, setIsAddingGeneral] = useState(false);
   const [refreshCounter, setRefreshCounter] = useState(0);
+  const [isOffline, setIsOffline] = useState(() => !isNavigatorOnline());
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
 
   // --- Refs ---
   const lastCombinedRecipeIds = useRef<string[]>([]);
@@ -124,6 +155,11 @@ export function useGroceryList(
   const dirtyRef = useRef(true);
   const prevRecipeIdsRef = useRef<string | null>(null);
   const loadingGenRef = useRef(0);
+  const servingsTargetsRef = useRef(servingsTargets);
+  servingsTargetsRef.current = servingsTargets;
+  const prevServingsRef = useRef<Record<string, ServingsTarget> | null>(null);
+  const householdIdRef = useRef<string | null>(null);
+  householdIdRef.current = householdId;
 
   // localStorage key used to survive navigation when markIngredientChange fires
   // before the debounce timer completes.
@@ -137,11 +173,55 @@ export function useGroceryList(
     [recipeIds]
   );
 
+  // Serialized servings targets for change detection
+  const serializedServings = useMemo(
+    () =>
+      servingsTargets
+        ? Object.entries(servingsTargets)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([id, target]) => `${id}:${target.servings}x${target.batches}`)
+            .join(",")
+        : "",
+    [servingsTargets]
+  );
+
   // Load user preferences to populate the AI model cache
   useEffect(() => {
     if (userId) loadUserPreferences(userId);
   }, [userId]);
 
+  // Household members share one checklist
+  useEffect(() => {
+    if (userId) loadHouseholdId().then(setHouseholdId);
+  }, [userId]);
+
+  // --- Offline queue ---
+
+  const refreshPendingSyncCount = useCallback(async () => {
+    if (!contextId || !userId) return;
+    const pending = await getPendingGroceryOps({ contextType, contextId, userId });
+    setPendingSyncCount(pending.length);
+  }, [contextType, contextId, userId]);
+
+  const queueGroceryOp = useCallback(
+    async (op: GroceryOp) => {
+      await enqueueGroceryOp(op);
+      await refreshPendingSyncCount();
+    },
+    [refreshPendingSyncCount]
+  );
+
+  // Write a change straight through when online; queue it when offline or
+  // when the write fails. Resolves to true if it reached the server.
+  const writeOrQueue = useCallback(
+    async (op: Exclude<GroceryOp, { type: "check" }>): Promise<boolean> => {
+      if (isNavigatorOnline() && (await applyGroceryOp(op))) return true;
+      await queueGroceryOp(op);
+      return false;
+    },
+    [queueGroceryOp]
+  );
+
   // --- Core functions ---
 
   const loadGroceryData = useCallback(
@@ -281,11 +361,19 @@ export function useGroceryList(
         }
         const extraRaw =
           genItems.length > 0 ? toRawIngredients(genItems) : undefined;
+        // Scale each recipe from its stated yield to what's being shopped for
+        const targets = servingsTargetsRef.current ?? {};
+        const scaledIngredients = currentIngredients.flatMap((ing) =>
+          scaleIngredients(
+            [ing],
+            getYieldScale(currentContentMap[ing.recipeId]?.servings, targets[ing.recipeId])
+          )
+        );
         const result = await smartCombineIngredients(
-          currentIngredients,
+          scaledIngredients,
           recipeNameMap,
           extraRaw,
-          getCachedAiModel()
+          getCachedAiOptions()
         );
         setSmartGroceryItems(result.items);
         setPerRecipeItems(result.perRecipeItems);
@@ -293,12 +381,15 @@ export function useGroceryList(
         lastCombinedGeneralCount.current = genItems.length;
 
         // Preserve checked items that still exist in the new combined list
+        // (shared checks stay on the server: other members' lists may differ)
         const newItemNames = new Set(result.items.map((i) => i.name));
         setCheckedItems((prev) => {
           const kept = new Set(
             [...prev].filter((name) => newItemNames.has(name))
           );
-          saveCheckedItems(contextType, contextId, userId, kept);
+          if (!householdIdRef.current) {
+            saveCheckedItems(contextType, contextId, userId, kept);
+          }
           return kept;
         });
 
@@ -314,12 +405,7 @@ export function useGroceryList(
       } catch (err) {
         console.error("Smart combine error:", err);
         // Preserve existing display items on error so the user doesn't lose their list
-        const msg = err instanceof Error ? err.message : "Unknown error";
-        setCombineError(
-          msg.includes("skipped")
-            ? "AI grocery service is not configured. Please set the ANTHROPIC_API_KEY in your Supabase edge function secrets."
-            : msg
-        );
+        setCombineError(err instanceof Error ? err.message : "Unknown error");
       } finally {
         setIsCombining(false);
       }
@@ -339,12 +425,38 @@ export function useGroceryList(
           next.add(itemName);
         }
         if (contextId && userId) {
-          saveCheckedItems(contextType, contextId, userId, next);
+          const checked = next.has(itemName);
+          const op: GroceryOp = {
+            type: "check",
+            contextType,
+            contextId,
+            userId,
+            name: itemName,
+            checked,
+            householdId: householdId ?? undefined,
+          };
+          if (!isNavigatorOnline()) {
+            queueGroceryOp(op);
+          } else {
+            const save = householdId
+              ? setGroceryCheck(householdId, contextType, contextId, itemName, checked, userId)
+              : saveCheckedItems(contextType, contextId, userId, next);
+            save.then((saved) => {
+              if (!saved) queueGroceryOp(op);
+            });
+          }
         }
         return next;
       });
+      // The checker's name arrives with the next shared reload
+      setCheckedBy((prev) => {
+        if (!(itemName in prev)) return prev;
+        const next = { ...prev };
+        delete next[itemName];
+        return next;
+      });
     },
-    [contextType, contextId, userId]
+    [contextType, contextId, userId, householdId, queueGroceryOp]
   );
 
   const invalidateCacheAndResetRefs = useCallback(() => {
@@ -436,12 +548,15 @@ export function useGroceryList(
             ri.recipeId === sourceRecipeId &&
             ri.name.toLowerCase() === originalName.toLowerCase()
         );
-        if (match) {
-          supabase
-            .from("recipe_ingredients")
-            .update({ name: newText, quantity: null, unit: null })
-            .eq("id", match.id)
-            .then(() => {});
+        if (match && contextId && userId) {
+          writeOrQueue({
+            type: "edit_ingredient",
+            contextType,
+            contextId,
+            userId,
+            ingredientId: match.id,
+            name: newText,
+          });
         }
       } else if (supportsGeneralItems) {
         // Edit from combined/general tab — persist General items only
@@ -452,11 +567,14 @@ export function useGroceryList(
           const generalItem = generalItems.find(
             (gi) => gi.name.toLowerCase() === originalName.toLowerCase()
           );
-          if (generalItem) {
-            updateGeneralItem(generalItem.id, {
-              name: newText,
-              quantity: undefined,
-              unit: undefined,
+          if (generalItem && contextId && userId) {
+            writeOrQueue({
+              type: "update_general",
+              contextType,
+              contextId,
+              userId,
+              itemId: generalItem.id,
+              updates: { name: newText, quantity: undefined, unit: undefined },
             });
           }
         }
@@ -466,12 +584,16 @@ export function useGroceryList(
       setHasPendingChanges(true);
     },
     [
+      contextType,
+      contextId,
+      userId,
       smartGroceryItems,
       generalItems,
       recipeIngredients,
       supportsGeneralItems,
       ingredientDirtyKey,
       invalidateCacheAndResetRefs,
+      writeOrQueue,
     ]
   );
 
@@ -510,12 +632,14 @@ export function useGroceryList(
             ri.recipeId === sourceRecipeId &&
             ri.name.toLowerCase() === itemName.toLowerCase()
         );
-        if (match) {
-          supabase
-            .from("recipe_ingredients")
-            .delete()
-            .eq("id", match.id)
-            .then(() => {});
+        if (match && contextId && userId) {
+          writeOrQueue({
+            type: "remove_ingredient",
+            contextType,
+            contextId,
+            userId,
+            ingredientId: match.id,
+          });
           setRecipeIngredients((prev) =>
             prev.filter((ri) => ri.id !== match.id)
           );
@@ -529,8 +653,14 @@ export function useGroceryList(
           const generalItem = generalItems.find(
             (gi) => gi.name.toLowerCase() === itemName.toLowerCase()
           );
-          if (generalItem) {
-            removeGeneralItem(generalItem.id);
+          if (generalItem && contextId && userId) {
+            writeOrQueue({
+              type: "remove_general",
+              contextType,
+              contextId,
+              userId,
+              itemId: generalItem.id,
+            });
           }
         }
       }
@@ -539,21 +669,51 @@ export function useGroceryList(
       setHasPendingChanges(true);
     },
     [
+      contextType,
+      contextId,
+      userId,
       smartGroceryItems,
       generalItems,
       recipeIngredients,
       supportsGeneralItems,
       ingredientDirtyKey,
       invalidateCacheAndResetRefs,
+      writeOrQueue,
     ]
   );
 
   const handleAddGeneralItemDirect = useCallback(
     async (item: { name: string; quantity?: string; unit?: string; category?: string }) => {
       if (!supportsGeneralItems || !contextId || !userId) return;
-      await addGeneralItem(contextType, contextId, userId, item);
-      const updated = await loadGeneralItems(contextType, contextId, userId);
-      setGeneralItems(updated);
+      const saved =
+        isNavigatorOnline() && (await addGeneralItem(contextType, contextId, userId, item));
+      if (saved) {
+        const updated = await loadGeneralItems(contextType, contextId, userId);
+        setGeneralItems(updated);
+      } else {
+        // Keep the item locally under a temporary ID until the add replays
+        const tempId = `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`;
+        await queueGroceryOp({
+          type: "add_general",
+          contextType,
+          contextId,
+          userId,
+          tempId,
+          item: { name: item.name, quantity: item.quantity, unit: item.unit },
+        });
+        setGeneralItems((prev) => [
+          ...prev,
+          {
+            id: tempId,
+            userId,
+            contextType,
+            contextId,
+            name: item.name,
+            quantity: item.quantity,
+            unit: item.unit,
+          },
+        ]);
+      }
 
       // Append directly to display state — skip AI recombine, show Reprocess button
       const newSmartItem: SmartGroceryItem = {
@@ -582,15 +742,26 @@ export function useGroceryList(
       supportsGeneralItems,
       ingredientDirtyKey,
       invalidateCacheAndResetRefs,
+      queueGroceryOp,
     ]
   );
 
   const handleRemoveGeneralItem = useCallback(
     async (itemId: string) => {
       if (!supportsGeneralItems || !contextId || !userId) return;
-      await removeGeneralItem(itemId);
-      const updated = await loadGeneralItems(contextType, contextId, userId);
-      setGeneralItems(updated);
+      const saved = await writeOrQueue({
+        type: "remove_general",
+        contextType,
+        contextId,
+        userId,
+        itemId,
+      });
+      if (saved) {
+        const updated = await loadGeneralItems(contextType, contextId, userId);
+        setGeneralItems(updated);
+      } else {
+        setGeneralItems((prev) => prev.filter((gi) => gi.id !== itemId));
+      }
       invalidateCacheAndResetRefs();
       if (ingredientDirtyKey) localStorage.setItem(ingredientDirtyKey, "true");
       dirtyRef.current = true;
@@ -603,6 +774,7 @@ export function useGroceryList(
       supportsGeneralItems,
       ingredientDirtyKey,
       invalidateCacheAndResetRefs,
+      writeOrQueue,
     ]
   );
 
@@ -612,9 +784,31 @@ export function useGroceryList(
       updates: { name?: string; quantity?: string; unit?: string }
     ) => {
       if (!supportsGeneralItems || !contextId || !userId) return;
-      await updateGeneralItem(itemId, updates);
-      const updated = await loadGeneralItems(contextType, contextId, userId);
-      setGeneralItems(updated);
+      const saved = await writeOrQueue({
+        type: "update_general",
+        contextType,
+        contextId,
+        userId,
+        itemId,
+        updates,
+      });
+      if (saved) {
+        const updated = await loadGeneralItems(contextType, contextId, userId);
+        setGeneralItems(updated);
+      } else {
+        setGeneralItems((prev) =>
+          prev.map((gi) =>
+            gi.id === itemId
+              ? {
+                  ...gi,
+                  name: updates.name ?? gi.name,
+                  quantity: updates.quantity ?? gi.quantity,
+                  unit: updates.unit ?? gi.unit,
+                }
+              : gi
+          )
+        );
+      }
       invalidateCacheAndResetRefs();
       if (ingredientDirtyKey) localStorage.setItem(ingredientDirtyKey, "true");
       dirtyRef.current = true;
@@ -627,6 +821,7 @@ export function useGroceryList(
       supportsGeneralItems,
       ingredientDirtyKey,
       invalidateCacheAndResetRefs,
+      writeOrQueue,
     ]
   );
 
@@ -729,8 +924,28 @@ export function useGroceryList(
     setHasPendingChanges(true);
   }, [ingredientDirtyKey]);
 
+  const reloadSharedChecks = useCallback(async () => {
+    if (!householdId || !contextId) return;
+    const checks = await loadGroceryChecks(householdId, contextType, contextId);
+    setCheckedItems(new Set(checks.map((c) => c.itemName)));
+    setCheckedBy(
+      Object.fromEntries(
+        checks
+          .filter((c) => c.checkedByName)
+          .map((c) => [c.itemName, c.checkedByName as string])
+      )
+    );
+  }, [householdId, contextType, contextId]);
+
   // --- Effects ---
 
+  // Shared list: load the household's checks and follow other members' changes live
+  useEffect(() => {
+    if (!householdId || !contextId || !enabled) return;
+    reloadSharedChecks();
+    return subscribeToGroceryChecks(householdId, contextType, contextId, reloadSharedChecks);
+  }, [householdId, contextType, contextId, enabled, reloadSharedChecks]);
+
   // Unmount cleanup: clear pending recombine timer.
   // Don't fire triggerRecombine() here — it makes async Supabase calls that
   // can hold navigator.locks and block getSession() on the next page.
@@ -747,6 +962,70 @@ export function useGroceryList(
     };
   }, []);
 
+  // Replay queued changes; resolves to how many reached the server.
+  const syncPendingChanges = useCallback(async () => {
+    const { applied } = await replayGroceryQueue();
+    await refreshPendingSyncCount();
+    return applied;
+  }, [refreshPendingSyncCount]);
+
+  // Track connectivity; coming back online replays the queue.
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      // Reload even when nothing was queued: the list on screen came from the
+      // snapshot and may be missing changes made on other devices.
+      syncPendingChanges().then(() => refreshGroceries());
+    };
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncPendingChanges, refreshGroceries]);
+
+  // Changes queued in an earlier session are replayed on the next visit
+  useEffect(() => {
+    if (!contextId || !userId) return;
+    if (isNavigatorOnline()) {
+      syncPendingChanges().then((applied) => {
+        if (applied > 0) refreshGroceries();
+      });
+    } else refreshPendingSyncCount();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contextId, userId]);
+
+  // Keep the offline snapshot in step with what's on screen
+  useEffect(() => {
+    if (!contextId || !userId || isLoading || isCombining) return;
+    if (smartGroceryItems === null && generalItems.length === 0) return;
+    saveGrocerySnapshot(
+      { contextType, contextId, userId },
+      {
+        recipes: groceryRecipes,
+        recipeIngredients,
+        items: smartGroceryItems,
+        perRecipeItems,
+        checkedItems: [...checkedItems],
+        generalItems,
+      }
+    );
+  }, [
+    contextType,
+    contextId,
+    userId,
+    isLoading,
+    isCombining,
+    groceryRecipes,
+    recipeIngredients,
+    smartGroceryItems,
+    perRecipeItems,
+    checkedItems,
+    generalItems,
+  ]);
+
   // Detect recipeIds changes and mark dirty
   useEffect(() => {
     if (prevRecipeIdsRef.current === null) {
@@ -761,6 +1040,29 @@ export function useGroceryList(
     }
   }, [serializedRecipeIds]);
 
+  // A changed target for a recipe already on the list invalidates the combined
+  // quantities: skip the cache and recombine. Added/removed recipes are handled
+  // by the recipeIds change detection above.
+  useEffect(() => {
+    const current = servingsTargetsRef.current;
+    if (!current) return;
+    const previous = prevServingsRef.current;
+    prevServingsRef.current = current;
+    if (!previous) return;
+    const changed = Object.keys(current).some(
+      (id) =>
+        id in previous &&
+        (previous[id].servings !== current[id].servings || previous[id].batches !== current[id].batches)
+    );
+    if (changed) {
+      if (ingredientDirtyKey) localStorage.setItem(ingredientDirtyKey, "true");
+      lastCombinedRecipeIds.current = [];
+      lastCombinedGeneralCount.current = 0;
+      dirtyRef.current = true;
+      setRefreshCounter((c) => c + 1);
+    }
+  }, [serializedServings, ingredientDirtyKey]);
+
   // Main loading effect
   useEffect(() => {
     if (!enabled) return;
@@ -774,6 +1076,20 @@ export function useGroceryList(
     // cycle has already started (e.g. recipeIds populated after initial empty render).
     const gen = ++loadingGenRef.current;
 
+    // No connection: show the last list saved on this device
+    if (!isNavigatorOnline()) {
+      loadGrocerySnapshot({ contextType, contextId, userId }).then((snapshot) => {
+        if (gen !== loadingGenRef.current || !snapshot) return;
+        setGroceryRecipes(snapshot.recipes);
+        setRecipeIngredients(snapshot.recipeIngredients);
+        setSmartGroceryItems(snapshot.items);
+        setPerRecipeItems(snapshot.perRecipeItems);
+        setCheckedItems(new Set(snapshot.checkedItems));
+        setGeneralItems(snapshot.generalItems);
+      });
+      return;
+    }
+
     // Load general items alongside grocery data
     if (supportsGeneralItems) {
       loadGeneralItems(contextType, contextId, userId).then(setGeneralItems);
@@ -784,7 +1100,13 @@ export function useGroceryList(
       if (gen !== loadingGenRef.current) return;
 
       // Load checked items
-      loadCheckedItems(contextType, contextId, userId).then(setCheckedItems);
+      if (householdIdRef.current) {
+        reloadSharedChecks();
+      } else {
+        loadCheckedItems(contextType, contextId, userId).then((checked) => {
+          if (!householdIdRef.current) setCheckedItems(checked);
+        });
+      }
 
       // Load general items for combine pipeline
       let genItems: GeneralGroceryItem[] = [];
@@ -856,10 +1178,14 @@ export function useGroceryList(
     isCombining,
     combineError,
     checkedItems,
+    checkedBy,
+    isSharedList: householdId !== null,
     generalItems,
     hasPendingChanges,
     isAddingGeneral,
     setIsAddingGeneral,
+    isOffline,
+    pendingSyncCount,
 
     handleToggleChecked,
     handleEditItemText,
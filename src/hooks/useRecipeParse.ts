@@ -1,12 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { enqueueRecipeParse, subscribeToParseJob } from "@/lib/parseJobs";
+import type { ParseJob } from "@/types";
 
 export type ParseStatus = "idle" | "parsing" | "failed";
-export type ParseStep = "saving" | "parsing" | "loading" | "done";
+export type ParseStep = "saving" | "parsing" | "loading" | "notifying" | "done";
 
 interface UseRecipeParseOptions {
+  /** Awaited during the "loading" step once the parse succeeds (e.g. reload data) */
+  onLoad?: () => Promise<void> | void;
+  /** Awaited during a "notifying" step after loading; the step is skipped without it */
+  onNotify?: () => Promise<void> | void;
   /** Called after a successful parse (e.g. reload data) */
   onSuccess?: () => void;
   /** Called after user chooses "Keep as-is" (e.g. reload data) */
@@ -17,7 +22,14 @@ interface UseRecipeParseOptions {
   onDiscard?: () => void;
 }
 
+/**
+ * Parse a newly added recipe through the background job queue. Progress
+ * follows the job's row over Realtime (queued → "saving", running →
+ * "parsing"), so the parse carries on server-side if the user leaves.
+ */
 export function useRecipeParse({
+  onLoad,
+  onNotify,
   onSuccess,
   onKeep,
   onBeforeDiscard,
@@ -29,12 +41,16 @@ export function useRecipeParse({
   const [pendingParseName, setPendingParseName] = useState<string>("");
   const [pendingParseUrl, setPendingParseUrl] = useState<string>("");
   const [pendingParseText, setPendingParseText] = useState<string>("");
+  const [parseJob, setParseJob] = useState<ParseJob | null>(null);
+  // Set once the job finishes so late Realtime updates don't rewind progress
+  const finishedJobId = useRef<string | null>(null);
 
   const resetState = () => {
     setPendingParseRecipeId(null);
     setPendingParseName("");
     setPendingParseUrl("");
     setPendingParseText("");
+    setParseJob(null);
     setParseStep("saving");
   };
 
@@ -47,57 +63,86 @@ export function useRecipeParse({
     setPendingParseName(name);
     setPendingParseUrl(url ?? "");
     setPendingParseText(text ?? "");
+    setParseJob(null);
     setParseStep("saving");
     setParseStatus("parsing");
   };
 
+  // Queue a job whenever parsing starts (or restarts after a failure)
   useEffect(() => {
     if (parseStatus !== "parsing" || !pendingParseRecipeId) return;
 
-    const doParse = async () => {
-      try {
-        setParseStep("saving");
-        await new Promise((resolve) => setTimeout(resolve, 200));
+    let cancelled = false;
+    enqueueRecipeParse(pendingParseRecipeId, {
+      recipeName: pendingParseName,
+      recipeUrl: pendingParseUrl || undefined,
+      text: pendingParseText || undefined,
+    })
+      .then((job) => {
+        if (cancelled) return;
+        finishedJobId.current = null;
+        setParseJob(job);
+      })
+      .catch((error) => {
+        console.error("Error queueing recipe parse:", error);
+        if (!cancelled) setParseStatus("failed");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [parseStatus, pendingParseRecipeId]);
+
+  const finishParse = async () => {
+    try {
+      setParseStep("loading");
+      await onLoad?.();
+
+      if (onNotify) {
+        setParseStep("notifying");
+        await onNotify();
+      }
+
+      setParseStep("done");
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+    } catch (error) {
+      console.error("Error loading parsed recipe:", error);
+    }
+
+    setParseStatus("idle");
+    resetState();
+    toast.success("Recipe parsed successfully!");
+    onSuccess?.();
+  };
+
+  // Follow the queued job until it completes or runs out of attempts
+  const jobId = parseJob?.id;
+  useEffect(() => {
+    if (!jobId) return;
 
+    return subscribeToParseJob(jobId, (job) => {
+      if (finishedJobId.current === job.id) return;
+      setParseJob(job);
+
+      if (job.status === "running") {
         setParseStep("parsing");
-        const parseBody: Record<string, string> = {
-          recipeId: pendingParseRecipeId,
-          recipeName: pendingParseName,
-          model: getCachedAiModel(),
-        };
-        if (pendingParseText) {
-          parseBody.text = pendingParseText;
-        } else {
-          parseBody.recipeUrl = pendingParseUrl;
-        }
-
-        const { data: parseData, error } = await supabase.functions.invoke("parse-recipe", {
-          body: parseBody,
-        });
-        if (error) throw error;
-        if (!parseData?.success) throw new Error(parseData?.error ?? "Failed to parse recipe");
-
-        setParseStep("loading");
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        setParseStep("done");
-        await new Promise((resolve) => setTimeout(resolve, 2500));
-
-        setParseStatus("idle");
-        resetState();
-        toast.success("Recipe parsed successfully!");
-        onSuccess?.();
-      } catch (error) {
-        console.error("Error parsing recipe:", error);
+      } else if (job.status === "queued") {
+        setParseStep(job.attempts > 0 ? "parsing" : "saving");
+      } else if (job.status === "completed") {
+        finishedJobId.current = job.id;
+        finishParse();
+      } else {
+        finishedJobId.current = job.id;
+        console.error("Error parsing recipe:", job.lastError);
         setParseStatus("failed");
       }
-    };
-
-    doParse();
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [parseStatus, pendingParseRecipeId]);
+  }, [jobId]);
 
   const handleRetry = () => {
+    setParseJob(null);
     setParseStep("saving");
     setParseStatus("parsing");
   };
@@ -109,6 +154,12 @@ export function useRecipeParse({
     onKeep?.();
   };
 
+  /** Stop following the parse; the job carries on in the background */
+  const handleDismiss = () => {
+    setParseStatus("idle");
+    resetState();
+  };
+
   const handleDiscard = async () => {
     const recipeId = pendingParseRecipeId;
     if (recipeId) {
@@ -123,10 +174,12 @@ export function useRecipeParse({
   return {
     parseStatus,
     parseStep,
+    parseJob,
     pendingParseName,
     startParse,
     handleRetry,
     handleKeep,
+    handleDismiss,
     handleDiscard,
   };
 }
@@ -47,6 +47,67 @@ export type Database = {
           }
         ];
       };
+      clubs: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "clubs_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      club_members: {
+        Row: {
+          id: string;
+          club_id: string;
+          email: string;
+          role: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          club_id: string;
+          email: string;
+          role?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          club_id?: string;
+          email?: string;
+          role?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "club_members_club_id_fkey";
+            columns: ["club_id"];
+            isOneToOne: false;
+            referencedRelation: "clubs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       profiles: {
         Row: {
           id: string;
@@ -79,6 +140,7 @@ export type Database = {
           created_at: string;
           in_bank: boolean;
           color: string | null;
+          club_id: string;
         };
         Insert: {
           id?: string;
@@ -90,6 +152,7 @@ export type Database = {
           created_at?: string;
           in_bank?: boolean;
           color?: string | null;
+          club_id: string;
         };
         Update: {
           id?: string;
@@ -101,6 +164,7 @@ export type Database = {
           created_at?: string;
           in_bank?: boolean;
           color?: string | null;
+          club_id?: string;
         };
         Relationships: [
           {
@@ -124,27 +188,33 @@ export type Database = {
           id: string;
           name: string;
           url: string | null;
+          source_files: string[] | null;
           event_id: string | null;
           ingredient_id: string | null;
           created_by: string | null;
+          club_id: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           name: string;
           url?: string | null;
+          source_files?: string[] | null;
           event_id?: string | null;
           ingredient_id?: string | null;
           created_by?: string | null;
+          club_id?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           name?: string;
           url?: string | null;
+          source_files?: string[] | null;
           event_id?: string | null;
           ingredient_id?: string | null;
           created_by?: string | null;
+          club_id?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -279,6 +349,8 @@ export type Database = {
           parsed_at: string | null;
           status: string;
           error_message: string | null;
+          ai_provider: string | null;
+          ai_model: string | null;
           created_at: string;
         };
         Insert: {
@@ -294,6 +366,8 @@ export type Database = {
           parsed_at?: string | null;
           status?: string;
           error_message?: string | null;
+          ai_provider?: string | null;
+          ai_model?: string | null;
           created_at?: string;
         };
         Update: {
@@ -309,6 +383,8 @@ export type Database = {
           parsed_at?: string | null;
           status?: string;
           error_message?: string | null;
+          ai_provider?: string | null;
+          ai_model?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -494,6 +570,112 @@ export type Database = {
         };
         Relationships: [];
       };
+      households: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "households_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      household_members: {
+        Row: {
+          id: string;
+          household_id: string;
+          email: string;
+          role: string;
+          accepted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          household_id: string;
+          email: string;
+          role?: string;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          household_id?: string;
+          email?: string;
+          role?: string;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      grocery_checks: {
+        Row: {
+          household_id: string;
+          context_type: string;
+          context_id: string;
+          item_name: string;
+          checked_by: string | null;
+          checked_at: string;
+        };
+        Insert: {
+          household_id: string;
+          context_type: string;
+          context_id: string;
+          item_name: string;
+          checked_by?: string | null;
+          checked_at?: string;
+        };
+        Update: {
+          household_id?: string;
+          context_type?: string;
+          context_id?: string;
+          item_name?: string;
+          checked_by?: string | null;
+          checked_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "grocery_checks_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "grocery_checks_checked_by_fkey";
+            columns: ["checked_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       scheduled_events: {
         Row: {
           id: string;
@@ -503,6 +685,8 @@ export type Database = {
           created_by: string | null;
           status: string;
           calendar_event_id: string | null;
+          spin_mode: string | null;
+          club_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -513,6 +697,8 @@ export type Database = {
           created_by?: string | null;
           status?: string;
           calendar_event_id?: string | null;
+          spin_mode?: string | null;
+          club_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -523,6 +709,8 @@ export type Database = {
           created_by?: string | null;
           status?: string;
           calendar_event_id?: string | null;
+          spin_mode?: string | null;
+          club_id?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -542,6 +730,373 @@ export type Database = {
           }
         ];
       };
+      api_tokens: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          token_hash: string;
+          token_prefix: string;
+          scope: string;
+          last_used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          token_hash: string;
+          token_prefix: string;
+          scope?: string;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          token_hash?: string;
+          token_prefix?: string;
+          scope?: string;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "api_tokens_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_usage: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          function_name: string;
+          provider: string;
+          model: string;
+          input_tokens: number;
+          output_tokens: number;
+          estimated_cost_usd: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          function_name: string;
+          provider: string;
+          model: string;
+          input_tokens?: number;
+          output_tokens?: number;
+          estimated_cost_usd?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          function_name?: string;
+          provider?: string;
+          model?: string;
+          input_tokens?: number;
+          output_tokens?: number;
+          estimated_cost_usd?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_budgets: {
+        Row: {
+          user_id: string;
+          soft_limit_usd: number | null;
+          hard_limit_usd: number | null;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          soft_limit_usd?: number | null;
+          hard_limit_usd?: number | null;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          soft_limit_usd?: number | null;
+          hard_limit_usd?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_budgets_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_parse_jobs: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          requested_by: string | null;
+          request: Json;
+          status: string;
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string;
+          last_error: string | null;
+          started_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          requested_by?: string | null;
+          request: Json;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_error?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          requested_by?: string | null;
+          request?: Json;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_error?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_parse_jobs_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_parse_jobs_requested_by_fkey";
+            columns: ["requested_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_parse_job_events: {
+        Row: {
+          id: string;
+          job_id: string;
+          status: string;
+          attempt: number;
+          error: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          job_id: string;
+          status: string;
+          attempt: number;
+          error?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          job_id?: string;
+          status?: string;
+          attempt?: number;
+          error?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_parse_job_events_job_id_fkey";
+            columns: ["job_id"];
+            isOneToOne: false;
+            referencedRelation: "recipe_parse_jobs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_revisions: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          changed_by: string | null;
+          source: string;
+          ingredients: Json;
+          content: Json | null;
+          reverted_from: string | null;
+          txid: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          changed_by?: string | null;
+          source?: string;
+          ingredients?: Json;
+          content?: Json | null;
+          reverted_from?: string | null;
+          txid?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          changed_by?: string | null;
+          source?: string;
+          ingredients?: Json;
+          content?: Json | null;
+          reverted_from?: string | null;
+          txid?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_revisions_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_revisions_changed_by_fkey";
+            columns: ["changed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_revisions_reverted_from_fkey";
+            columns: ["reverted_from"];
+            isOneToOne: false;
+            referencedRelation: "recipe_revisions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      rate_limit_buckets: {
+        Row: {
+          function_name: string;
+          caller_type: string;
+          caller: string;
+          user_id: string | null;
+          tokens: number;
+          refilled_at: string;
+          throttled_count: number;
+          last_throttled_at: string | null;
+        };
+        Insert: {
+          function_name: string;
+          caller_type: string;
+          caller: string;
+          user_id?: string | null;
+          tokens: number;
+          refilled_at?: string;
+          throttled_count?: number;
+          last_throttled_at?: string | null;
+        };
+        Update: {
+          function_name?: string;
+          caller_type?: string;
+          caller?: string;
+          user_id?: string | null;
+          tokens?: number;
+          refilled_at?: string;
+          throttled_count?: number;
+          last_throttled_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "rate_limit_buckets_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      storage_cleanup_runs: {
+        Row: {
+          id: string;
+          triggered_by: string | null;
+          dry_run: boolean;
+          status: string;
+          scanned_count: number;
+          orphaned_count: number;
+          orphaned_bytes: number;
+          deleted_count: number;
+          reclaimed_bytes: number;
+          orphans: Json;
+          error: string | null;
+          started_at: string;
+          completed_at: string;
+        };
+        Insert: {
+          id?: string;
+          triggered_by?: string | null;
+          dry_run: boolean;
+          status: string;
+          scanned_count?: number;
+          orphaned_count?: number;
+          orphaned_bytes?: number;
+          deleted_count?: number;
+          reclaimed_bytes?: number;
+          orphans?: Json;
+          error?: string | null;
+          started_at: string;
+          completed_at?: string;
+        };
+        Update: {
+          id?: string;
+          triggered_by?: string | null;
+          dry_run?: boolean;
+          status?: string;
+          scanned_count?: number;
+          orphaned_count?: number;
+          orphaned_bytes?: number;
+          deleted_count?: number;
+          reclaimed_bytes?: number;
+          orphans?: Json;
+          error?: string | null;
+          started_at?: string;
+          completed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "storage_cleanup_runs_triggered_by_fkey";
+            columns: ["triggered_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       user_tokens: {
         Row: {
           id: string;
@@ -569,6 +1124,41 @@ export type Database = {
     };
     Views: {};
     Functions: {
+      club_role: {
+        Args: {
+          p_club_id: string;
+        };
+        Returns: string | null;
+      };
+      get_club_member_emails: {
+        Args: {
+          p_club_id: string;
+        };
+        Returns: string[];
+      };
+      household_role: {
+        Args: {
+          p_household_id: string;
+        };
+        Returns: string | null;
+      };
+      my_household_id: {
+        Args: Record<string, never>;
+        Returns: string | null;
+      };
+      my_household_invites: {
+        Args: Record<string, never>;
+        Returns: {
+          household_id: string;
+          household_name: string;
+        }[];
+      };
+      accept_household_invite: {
+        Args: {
+          p_household_id: string;
+        };
+        Returns: undefined;
+      };
       increment_ingredient_used_count: {
         Args: {
           p_ingredient_id: string;
@@ -583,12 +1173,93 @@ export type Database = {
         };
         Returns: undefined;
       };
+      can_write_recipe: {
+        Args: {
+          p_recipe_id: string;
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      save_recipe_parse: {
+        Args: {
+          p_recipe_id: string;
+          p_ingredients: unknown;
+          p_content: unknown;
+          p_changed_by?: string | null;
+        };
+        Returns: undefined;
+      };
+      revert_recipe_revision: {
+        Args: {
+          p_revision_id: string;
+        };
+        Returns: undefined;
+      };
+      import_recipe: {
+        Args: {
+          p_name: string;
+          p_url: string | null;
+          p_ingredients: unknown;
+          p_content: unknown;
+        };
+        Returns: string;
+      };
       detach_meal_plan_recipes: {
         Args: {
           p_event_id: string;
         };
         Returns: undefined;
       };
+      get_ai_budget_status: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: {
+          spent_usd: number;
+          soft_limit_usd: number | null;
+          hard_limit_usd: number | null;
+        }[];
+      };
+      get_ai_usage_summary: {
+        Args: {
+          p_month: string;
+        };
+        Returns: {
+          user_id: string;
+          email: string;
+          name: string | null;
+          call_count: number;
+          input_tokens: number;
+          output_tokens: number;
+          estimated_cost_usd: number;
+          soft_limit_usd: number | null;
+          hard_limit_usd: number | null;
+        }[];
+      };
+      consume_rate_limit: {
+        Args: {
+          p_function_name: string;
+          p_caller_type: string;
+          p_caller: string;
+          p_capacity: number;
+          p_refill_per_minute: number;
+        };
+        Returns: number;
+      };
+      get_throttled_callers: {
+        Args: {
+          p_since: string;
+        };
+        Returns: {
+          function_name: string;
+          caller_type: string;
+          caller: string;
+          email: string | null;
+          name: string | null;
+          throttled_count: number;
+          last_throttled_at: string;
+        }[];
+      };
     };
     Enums: {};
     CompositeTypes: {};
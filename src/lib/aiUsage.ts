@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { AiUsageSummary } from "@/types";
+
+// numeric columns come back from PostgREST as strings
+const toNumberOrNull = (value: number | string | null) => (value == null ? null : Number(value));
+
+/** First day of the month as YYYY-MM-DD, in local time. */
+export function toMonthParam(month: Date): string {
+  return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, "0")}-01`;
+}
+
+/** Per-user AI usage totals for the month containing `month`. Admins only. */
+export async function loadAiUsageSummary(month: Date): Promise<AiUsageSummary[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_ai_usage_summary", {
+      p_month: toMonthParam(month),
+    });
+
+    if (error) throw error;
+    if (!data) return [];
+
+    return data.map((row) => ({
+      userId: row.user_id,
+      email: row.email,
+      name: row.name ?? undefined,
+      callCount: Number(row.call_count),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      estimatedCostUsd: Number(row.estimated_cost_usd),
+      softLimitUsd: toNumberOrNull(row.soft_limit_usd),
+      hardLimitUsd: toNumberOrNull(row.hard_limit_usd),
+    }));
+  } catch (error) {
+    console.error("Error loading AI usage:", error);
+    return [];
+  }
+}
+
+/**
+ * Set a user's monthly limits in USD. Clearing both removes the budget, which
+ * leaves the user unlimited.
+ */
+export async function saveAiBudget(
+  userId: string,
+  softLimitUsd: number | null,
+  hardLimitUsd: number | null
+): Promise<void> {
+  if (softLimitUsd == null && hardLimitUsd == null) {
+    const { error } = await supabase.from("ai_budgets").delete().eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("ai_budgets").upsert(
+    {
+      user_id: userId,
+      soft_limit_usd: softLimitUsd,
+      hard_limit_usd: hardLimitUsd,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+}
@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ApiToken, ApiTokenScope } from "@/types";
+
+const TOKEN_PREFIX = "rcg_";
+// Enough of the token to tell tokens apart in Settings without revealing it
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** SHA-256 hex digest of a token. Must match hashApiToken in grocery-api. */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+export async function loadApiTokens(userId: string): Promise<ApiToken[]> {
+  try {
+    const { data, error } = await supabase
+      .from("api_tokens")
+      .select("id, name, token_prefix, scope, last_used_at, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    if (!data) return [];
+
+    return data.map((row) => ({
+      id: row.id,
+      name: row.name,
+      tokenPrefix: row.token_prefix,
+      scope: row.scope as ApiTokenScope,
+      lastUsedAt: row.last_used_at ?? undefined,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error("Error loading API tokens:", error);
+    return [];
+  }
+}
+
+/**
+ * Mint a new token. Only its hash is stored, so the plaintext returned here
+ * is the one chance to show it to the user.
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scope: ApiTokenScope
+): Promise<string> {
+  const token = TOKEN_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+  const { error } = await supabase.from("api_tokens").insert({
+    user_id: userId,
+    name: name.trim(),
+    scope,
+    token_hash: await hashApiToken(token),
+    token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  });
+  if (error) throw error;
+
+  return token;
+}
+
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  const { error } = await supabase.from("api_tokens").delete().eq("id", tokenId);
+  if (error) throw error;
+}
@@ -1,6 +1,7 @@
 import { supabase } from "../integrations/supabase/client";
 import type { User } from "../types";
 import { toast } from "sonner";
+import { getActiveClubId } from "./clubs";
 
 export interface AllowedUser {
   id: string;
@@ -32,6 +33,10 @@ export const isAuthenticated = async (): Promise<boolean> => {
   return result?.data?.session !== null;
 };
 
+/**
+ * Look up the allow-list entry for an email. When a club is active, role and
+ * is_club_member reflect membership of that club; site admins stay admins.
+ */
 export const getAllowedUser = async (email: string): Promise<AllowedUser | null> => {
   const { data, error } = await supabase
     .from("allowed_users")
@@ -43,29 +48,43 @@ export const getAllowedUser = async (email: string): Promise<AllowedUser | null>
     return null;
   }
 
+  let role = data.role as "admin" | "member" | "viewer";
+  let isClubMember = data.is_club_member;
+
+  const clubId = getActiveClubId();
+  if (clubId) {
+    const { data: membership } = await supabase
+      .from("club_members")
+      .select("role")
+      .eq("club_id", clubId)
+      .eq("email", email.toLowerCase())
+      .maybeSingle();
+
+    isClubMember = !!membership;
+    if (role !== "admin") {
+      role = (membership?.role as "admin" | "member" | "viewer" | undefined) ?? "viewer";
+    }
+  }
+
   return {
     id: data.id,
     email: data.email,
-    role: data.role as "admin" | "member" | "viewer",
-    is_club_member: data.is_club_member,
+    role,
+    is_club_member: isClubMember,
     access_type: "club",
   };
 };
 
-export const getClubMemberEmails = async (): Promise<string[]> => {
-  const { data, error } = await supabase
-    .from("allowed_users")
-    .select("email")
-    .eq("is_club_member", true);
+export const getClubMemberEmails = async (clubId: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc("get_club_member_emails", { p_club_id: clubId });
 
   if (error || !data) {
     return [];
   }
 
-  return data.map((u) => u.email);
+  return data;
 };
 
-
 export const getCurrentUser = async (): Promise<User | null> => {
   const result = await getSessionWithRetry();
   const session = result?.data?.session;
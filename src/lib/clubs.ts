@@ -0,0 +1,61 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Club, ClubRole } from "@/types";
+
+const ACTIVE_CLUB_KEY = "activeClubId";
+
+// Module-level cache of the resolved club so queries can scope synchronously.
+// Seeded from localStorage so a reload keeps the user's last choice.
+let _activeClubId: string | null = null;
+
+export function getActiveClubId(): string | null {
+  if (_activeClubId) return _activeClubId;
+  try {
+    _activeClubId = localStorage.getItem(ACTIVE_CLUB_KEY);
+  } catch {
+    _activeClubId = null;
+  }
+  return _activeClubId;
+}
+
+export function setActiveClubId(clubId: string | null): void {
+  _activeClubId = clubId;
+  try {
+    if (clubId) localStorage.setItem(ACTIVE_CLUB_KEY, clubId);
+    else localStorage.removeItem(ACTIVE_CLUB_KEY);
+  } catch {
+    // Private browsing — the in-memory value still applies for this page load
+  }
+}
+
+/** Clubs the user belongs to, with their role in each, sorted by name. */
+export async function loadUserClubs(email: string): Promise<Club[]> {
+  const { data, error } = await supabase
+    .from("club_members")
+    .select("role, clubs (id, name)")
+    .eq("email", email.toLowerCase());
+
+  if (error || !data) return [];
+
+  return data
+    .filter((m) => m.clubs)
+    .map((m) => {
+      const club = m.clubs as unknown as { id: string; name: string };
+      return { id: club.id, name: club.name, role: m.role as ClubRole };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Pick the stored club when the user still belongs to it, else their first
+ * club, and remember the choice. Returns null for users with no clubs.
+ */
+export function resolveActiveClub(clubs: Club[]): Club | null {
+  const storedId = getActiveClubId();
+  const active = clubs.find((c) => c.id === storedId) ?? clubs[0] ?? null;
+  setActiveClubId(active?.id ?? null);
+  return active;
+}
+
+export async function loadActiveClub(email: string): Promise<Club | null> {
+  return resolveActiveClub(await loadUserClubs(email));
+}
@@ -15,6 +15,9 @@ export const DEFAULT_INGREDIENTS = [
 
 export const MIN_INGREDIENTS_TO_SPIN = 10;
 
+// Cooldown spin mode skips ingredients picked in this many most recent club events
+export const SPIN_COOLDOWN_EVENTS = 3;
+
 export const RECOMBINE_DELAY_MS = 15 * 60_000;
 
 export const WHEEL_COLORS = [
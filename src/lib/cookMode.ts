@@ -0,0 +1,232 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { GroceryCategory, RecipeIngredient } from "@/types";
+
+// Cook mode: one instruction step at a time with timers for the durations
+// mentioned in each step. Progress (current step and timers) is kept in
+// localStorage per recipe so a refresh or a locked phone doesn't lose it.
+// Running timers store when they end rather than how long is left, so they
+// keep counting while the page is closed.
+
+const PROGRESS_KEY_PREFIX = "cookProgress:";
+
+export interface CookModeRecipe {
+  id: string;
+  name: string;
+  instructions: string[];
+  ingredients: RecipeIngredient[];
+}
+
+/** A duration found in step text, e.g. "20 minutes" in "simmer for 20 minutes". */
+export interface StepDuration {
+  label: string;
+  seconds: number;
+}
+
+export interface CookTimer {
+  id: string;
+  label: string;
+  stepIndex: number;
+  durationSeconds: number;
+  /** Epoch ms when a running timer goes off; null while paused or done */
+  endsAt: number | null;
+  /** Seconds left when paused; 0 once done */
+  remainingSeconds: number;
+}
+
+export interface CookProgress {
+  stepIndex: number;
+  timers: CookTimer[];
+}
+
+const UNIT_SECONDS: Record<string, number> = {
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+};
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?|an?|one|half an?)`;
+const DURATION_PATTERN = new RegExp(
+  String.raw`\b${NUMBER}(?:\s*(?:-|–|to|or)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b`,
+  "gi"
+);
+
+function parseAmount(text: string): number {
+  const lower = text.toLowerCase();
+  if (lower.startsWith("half")) return 0.5;
+  if (lower === "a" || lower === "an" || lower === "one") return 1;
+  return parseFloat(lower);
+}
+
+/**
+ * Durations mentioned in a step ("simmer 20 minutes", "bake 1 hour 15 min",
+ * "rest 5-10 mins"). Ranges use the lower bound so the timer goes off when
+ * it's time to start checking. Adjacent amounts such as "1 hour 15 minutes"
+ * become a single timer.
+ */
+export function findStepDurations(step: string): StepDuration[] {
+  const durations: (StepDuration & { end: number })[] = [];
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    const [text, amount, , unit] = match;
+    const seconds = Math.round(parseAmount(amount) * UNIT_SECONDS[unit.toLowerCase()]);
+    if (seconds <= 0) continue;
+
+    const start = match.index;
+    const previous = durations[durations.length - 1];
+    const gap = previous ? step.slice(previous.end, start) : "";
+    if (previous && /^\s*(?:and\s*)?$/i.test(gap)) {
+      previous.seconds += seconds;
+      previous.label = step.slice(previous.end - previous.label.length, start + text.length);
+      previous.end = start + text.length;
+    } else {
+      durations.push({ label: text, seconds, end: start + text.length });
+    }
+  }
+  return durations.map(({ label, seconds }) => ({ label, seconds }));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Ingredients a step uses, in recipe order. An ingredient matches when its
+ * name, or the last word of a multi-word name ("onion" for "yellow onion"),
+ * appears in the step, singular or plural.
+ */
+export function findStepIngredients(step: string, ingredients: RecipeIngredient[]): RecipeIngredient[] {
+  const text = step.toLowerCase();
+  return ingredients.filter((ingredient) => {
+    const name = ingredient.name.toLowerCase().trim();
+    if (!name) return false;
+    const words = name.split(/\s+/);
+    const lastWord = words[words.length - 1];
+    const candidates = words.length > 1 && lastWord.length > 2 ? [name, lastWord] : [name];
+    return candidates.some((candidate) =>
+      new RegExp(String.raw`\b${escapeRegExp(candidate)}(?:e?s)?\b`).test(text)
+    );
+  });
+}
+
+/** A running timer for a duration found in step `stepIndex`. */
+export function createCookTimer(duration: StepDuration, stepIndex: number, now = Date.now()): CookTimer {
+  return {
+    id: crypto.randomUUID(),
+    label: duration.label,
+    stepIndex,
+    durationSeconds: duration.seconds,
+    endsAt: now + duration.seconds * 1000,
+    remainingSeconds: duration.seconds,
+  };
+}
+
+/** Pause a running timer, or resume a paused one. Resuming a finished timer starts it over. */
+export function toggleCookTimer(timer: CookTimer, now = Date.now()): CookTimer {
+  if (timer.endsAt !== null) {
+    return { ...timer, endsAt: null, remainingSeconds: getTimerRemaining(timer, now) };
+  }
+  const seconds = timer.remainingSeconds > 0 ? timer.remainingSeconds : timer.durationSeconds;
+  return { ...timer, endsAt: now + seconds * 1000, remainingSeconds: seconds };
+}
+
+/** Seconds left on a timer at `now` (epoch ms), between 0 and its full duration. */
+export function getTimerRemaining(timer: CookTimer, now: number): number {
+  if (timer.endsAt === null) return timer.remainingSeconds;
+  return Math.min(timer.durationSeconds, Math.max(0, Math.ceil((timer.endsAt - now) / 1000)));
+}
+
+/** "4:05" under an hour, "1:04:05" above. */
+export function formatTimer(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
+
+function isCookTimer(value: unknown): value is CookTimer {
+  if (!value || typeof value !== "object") return false;
+  const timer = value as Record<string, unknown>;
+  return typeof timer.id === "string"
+    && typeof timer.label === "string"
+    && typeof timer.stepIndex === "number"
+    && typeof timer.durationSeconds === "number"
+    && (timer.endsAt === null || typeof timer.endsAt === "number")
+    && typeof timer.remainingSeconds === "number";
+}
+
+/** Saved progress for a recipe, or null when there is none or it can't be read. */
+export function loadCookProgress(recipeId: string): CookProgress | null {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY_PREFIX + recipeId);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<CookProgress>;
+    if (typeof parsed.stepIndex !== "number" || !Array.isArray(parsed.timers)) return null;
+    return { stepIndex: parsed.stepIndex, timers: parsed.timers.filter(isCookTimer) };
+  } catch {
+    return null;
+  }
+}
+
+export function saveCookProgress(recipeId: string, progress: CookProgress): void {
+  try {
+    localStorage.setItem(PROGRESS_KEY_PREFIX + recipeId, JSON.stringify(progress));
+  } catch {
+    // Private browsing or a full quota — progress just won't survive a reload
+  }
+}
+
+export function clearCookProgress(recipeId: string): void {
+  try {
+    localStorage.removeItem(PROGRESS_KEY_PREFIX + recipeId);
+  } catch {
+    // Nothing was saved in the first place
+  }
+}
+
+/** The recipe's name, parsed steps and ingredients, or null when the recipe doesn't exist. */
+export async function loadCookModeRecipe(recipeId: string): Promise<CookModeRecipe | null> {
+  try {
+    const [recipeResult, contentResult, ingredientsResult] = await Promise.all([
+      supabase.from("recipes").select("id, name").eq("id", recipeId).maybeSingle(),
+      supabase.from("recipe_content").select("instructions").eq("recipe_id", recipeId).maybeSingle(),
+      supabase.from("recipe_ingredients").select("*").eq("recipe_id", recipeId).order("sort_order"),
+    ]);
+
+    if (recipeResult.error) throw recipeResult.error;
+    if (contentResult.error) throw contentResult.error;
+    if (ingredientsResult.error) throw ingredientsResult.error;
+    if (!recipeResult.data) return null;
+
+    const instructions = contentResult.data?.instructions;
+    return {
+      id: recipeResult.data.id,
+      name: recipeResult.data.name,
+      instructions: Array.isArray(instructions)
+        ? (instructions as unknown[]).filter((step): step is string => typeof step === "string" && step.trim() !== "")
+        : [],
+      ingredients: (ingredientsResult.data ?? []).map((row) => ({
+        id: row.id,
+        recipeId: row.recipe_id,
+        name: row.name,
+        quantity: row.quantity ?? undefined,
+        unit: row.unit ?? undefined,
+        category: row.category as GroceryCategory,
+        rawText: row.raw_text ?? undefined,
+        sortOrder: row.sort_order ?? undefined,
+        createdAt: row.created_at ?? undefined,
+      })),
+    };
+  } catch (error) {
+    console.error("Error loading recipe for cook mode:", error);
+    return null;
+  }
+}
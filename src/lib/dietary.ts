@@ -0,0 +1,218 @@
+export type DietaryRestriction =
+  | "vegetarian"
+  | "vegan"
+  | "pescatarian"
+  | "gluten_free"
+  | "dairy_free"
+  | "nut_free"
+  | "shellfish_free"
+  | "egg_free"
+  | "soy_free";
+
+export const DIETARY_RESTRICTIONS: Record<DietaryRestriction, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  pescatarian: "Pescatarian",
+  gluten_free: "Gluten-free",
+  dairy_free: "Dairy-free",
+  nut_free: "Nut-free",
+  shellfish_free: "Shellfish-free",
+  egg_free: "Egg-free",
+  soy_free: "Soy-free",
+};
+
+export const COOKING_SKILL_OPTIONS = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+] as const;
+
+/** Display label for a stored restriction, falling back to the raw value for unknown ones. */
+export function getDietaryRestrictionLabel(value: string): string {
+  return isDietaryRestriction(value) ? DIETARY_RESTRICTIONS[value] : value;
+}
+
+interface KeywordRule {
+  keywords: string[];
+  // Ingredient names containing any of these are allowed despite a keyword match
+  except?: string[];
+}
+
+const MEAT_KEYWORDS = [
+  "chicken", "beef", "pork", "lamb", "bacon", "ham", "sausage", "turkey", "duck",
+  "veal", "venison", "prosciutto", "pancetta", "chorizo", "salami", "pepperoni",
+  "steak", "mince", "gelatin", "lard", "meat",
+];
+
+const SHELLFISH_KEYWORDS = [
+  "shrimp", "prawn", "crab", "lobster", "scallop", "clam", "mussel", "oyster",
+  "crawfish", "crayfish", "langoustine",
+];
+
+const FISH_KEYWORDS = [
+  "fish", "salmon", "tuna", "cod", "tilapia", "halibut", "trout", "anchovy",
+  "anchovies", "sardine", "mackerel", "squid", "octopus", "calamari",
+  ...SHELLFISH_KEYWORDS,
+];
+
+const DAIRY_RULE: KeywordRule = {
+  keywords: [
+    "milk", "butter", "cheese", "cream", "yogurt", "yoghurt", "ghee", "parmesan",
+    "mozzarella", "ricotta", "feta", "cheddar", "gruyere", "pecorino", "mascarpone",
+    "buttermilk", "whey", "creme fraiche",
+  ],
+  except: [
+    "coconut milk", "almond milk", "oat milk", "soy milk", "rice milk", "cashew milk",
+    "coconut cream", "cream of tartar", "peanut butter", "almond butter",
+    "cashew butter", "cocoa butter", "apple butter", "vegan",
+  ],
+};
+
+const EGG_RULE: KeywordRule = { keywords: ["egg", "mayonnaise", "mayo"], except: ["vegan"] };
+
+const NUT_RULE: KeywordRule = {
+  keywords: [
+    "almond", "walnut", "pecan", "cashew", "pistachio", "hazelnut", "macadamia",
+    "pine nut", "peanut", "nut", "praline", "marzipan",
+  ],
+};
+
+const RESTRICTION_RULES: Record<DietaryRestriction, KeywordRule[]> = {
+  vegetarian: [{ keywords: [...MEAT_KEYWORDS, ...FISH_KEYWORDS], except: ["vegetable broth", "vegetable stock"] }],
+  pescatarian: [{ keywords: MEAT_KEYWORDS }],
+  vegan: [
+    { keywords: [...MEAT_KEYWORDS, ...FISH_KEYWORDS, "honey"] },
+    DAIRY_RULE,
+    EGG_RULE,
+  ],
+  gluten_free: [
+    {
+      keywords: [
+        "flour", "wheat", "bread", "breadcrumb", "panko", "pasta", "spaghetti",
+        "linguine", "fettuccine", "penne", "macaroni", "noodle", "couscous", "barley",
+        "rye", "farro", "bulgur", "semolina", "seitan", "soy sauce", "cracker", "beer",
+        "orzo", "tortilla", "pita", "baguette", "croissant",
+      ],
+      except: [
+        "gluten-free", "gluten free", "almond flour", "rice flour", "coconut flour",
+        "corn tortilla", "chickpea flour", "rice noodle", "tamari", "buckwheat",
+      ],
+    },
+  ],
+  dairy_free: [DAIRY_RULE],
+  nut_free: [NUT_RULE],
+  shellfish_free: [{ keywords: SHELLFISH_KEYWORDS }],
+  egg_free: [EGG_RULE],
+  soy_free: [{ keywords: ["soy", "tofu", "tempeh", "edamame", "miso", "tamari"] }],
+};
+
+export interface DietaryConflict {
+  restriction: DietaryRestriction;
+  ingredient: string;
+}
+
+/** Whole-word match that also accepts simple plurals ("egg" matches "eggs" but not "eggplant"). */
+function containsTerm(name: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}(e?s)?\\b`, "i").test(name);
+}
+
+function violatesRule(name: string, rule: KeywordRule): boolean {
+  const lower = name.toLowerCase();
+  if (rule.except?.some((e) => lower.includes(e))) return false;
+  return rule.keywords.some((k) => containsTerm(lower, k));
+}
+
+export function isDietaryRestriction(value: string): value is DietaryRestriction {
+  return value in RESTRICTION_RULES;
+}
+
+/**
+ * List every ingredient that breaks one of the given restrictions. Unknown
+ * restriction strings (free text saved by older clients) are ignored.
+ */
+export function findDietaryConflicts(
+  ingredients: { name: string }[],
+  restrictions: string[]
+): DietaryConflict[] {
+  const conflicts: DietaryConflict[] = [];
+  for (const restriction of restrictions.filter(isDietaryRestriction)) {
+    for (const ingredient of ingredients) {
+      if (RESTRICTION_RULES[restriction].some((rule) => violatesRule(ingredient.name, rule))) {
+        conflicts.push({ restriction, ingredient: ingredient.name });
+      }
+    }
+  }
+  return conflicts;
+}
+
+export interface MemberConflict {
+  memberName: string;
+  restriction: DietaryRestriction;
+  ingredients: string[];
+}
+
+/** Per-member view of findDietaryConflicts: who each ingredient list affects and why. */
+export function findMemberConflicts(
+  ingredients: { name: string }[],
+  members: { name: string; restrictions: string[] }[]
+): MemberConflict[] {
+  const result: MemberConflict[] = [];
+  for (const member of members) {
+    const byRestriction = new Map<DietaryRestriction, string[]>();
+    for (const conflict of findDietaryConflicts(ingredients, member.restrictions)) {
+      const list = byRestriction.get(conflict.restriction) ?? [];
+      list.push(conflict.ingredient);
+      byRestriction.set(conflict.restriction, list);
+    }
+    for (const [restriction, names] of byRestriction) {
+      result.push({ memberName: member.name, restriction, ingredients: names });
+    }
+  }
+  return result;
+}
+
+/** Disliked terms found in the ingredient list, in the order the user listed them. */
+export function findDislikedIngredients(
+  ingredients: { name: string }[],
+  disliked: string[]
+): string[] {
+  return disliked
+    .map((d) => d.trim())
+    .filter((d) => d && ingredients.some((ing) => containsTerm(ing.name, d)));
+}
+
+/**
+ * Parse a free-text or ISO-8601 duration ("1 hr 30 mins", "45 minutes",
+ * "PT1H15M") into minutes. Returns undefined when nothing is recognized.
+ */
+export function parseDurationMinutes(text?: string | null): number | undefined {
+  if (!text) return undefined;
+  const iso = text.trim().match(/^P(?:\d+D)?T?(?:(\d+)H)?(?:(\d+)M)?/i);
+  if (iso && (iso[1] || iso[2])) {
+    return parseInt(iso[1] ?? "0") * 60 + parseInt(iso[2] ?? "0");
+  }
+  const lower = text.toLowerCase();
+  const hours = lower.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = lower.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  if (!hours && !minutes) {
+    const bare = lower.match(/^\s*(\d+)\s*$/);
+    return bare ? parseInt(bare[1]) : undefined;
+  }
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0));
+}
+
+/** Total time for a recipe: the stated total, else prep + cook, else whichever is known. */
+export function getRecipeTotalMinutes(content?: {
+  totalTime?: string;
+  prepTime?: string;
+  cookTime?: string;
+}): number | undefined {
+  if (!content) return undefined;
+  const total = parseDurationMinutes(content.totalTime);
+  if (total != null) return total;
+  const prep = parseDurationMinutes(content.prepTime);
+  const cook = parseDurationMinutes(content.cookTime);
+  if (prep == null && cook == null) return undefined;
+  return (prep ?? 0) + (cook ?? 0);
+}
@@ -4,6 +4,8 @@ import { supabase } from "@/integrations/supabase/client";
 export interface RawIngredientInput {
   name: string;
   quantity: string | null;
+  /** Exact numeric quantity when known; `quantity` is its display form. Local merges sum this. */
+  amount?: number;
   unit: string | null;
   category: string;
   recipeName: string;
@@ -51,7 +53,7 @@ export async function addGeneralItem(
   contextId: string,
   userId: string,
   item: { name: string; quantity?: string; unit?: string }
-): Promise<void> {
+): Promise<boolean> {
   try {
     const { error } = await db
       .from("general_grocery_items")
@@ -65,12 +67,14 @@ export async function addGeneralItem(
       });
 
     if (error) throw error;
+    return true;
   } catch (error) {
     console.error("Error adding general grocery item:", error);
+    return false;
   }
 }
 
-export async function removeGeneralItem(itemId: string): Promise<void> {
+export async function removeGeneralItem(itemId: string): Promise<boolean> {
   try {
     const { error } = await db
       .from("general_grocery_items")
@@ -78,15 +82,17 @@ export async function removeGeneralItem(itemId: string): Promise<void> {
       .eq("id", itemId);
 
     if (error) throw error;
+    return true;
   } catch (error) {
     console.error("Error removing general grocery item:", error);
+    return false;
   }
 }
 
 export async function updateGeneralItem(
   itemId: string,
   updates: { name?: string; quantity?: string; unit?: string }
-): Promise<void> {
+): Promise<boolean> {
   try {
     const payload: Record<string, string | null> = {};
     if (updates.name !== undefined) payload.name = updates.name;
@@ -99,8 +105,10 @@ export async function updateGeneralItem(
       .eq("id", itemId);
 
     if (error) throw error;
+    return true;
   } catch (error) {
     console.error("Error updating general grocery item:", error);
+    return false;
   }
 }
 
@@ -6,19 +6,21 @@ interface CalendarEventParams {
   date: Date;
   time?: string; // Format: "HH:mm" e.g., "19:00" - defaults to "19:00"
   ingredientName: string;
+  clubId?: string | null; // members of this club are invited
 }
 
 export const createCalendarEvent = async ({
   date,
   time,
   ingredientName,
+  clubId,
 }: CalendarEventParams): Promise<{ success: boolean; eventId?: string; error?: string }> => {
   if (isDevMode()) {
     console.log("[DEV MODE] Skipping Google Calendar create");
     return { success: true, eventId: "dev-mode-event-id" };
   }
   try {
-    const clubMemberEmails = await getClubMemberEmails();
+    const clubMemberEmails = clubId ? await getClubMemberEmails(clubId) : [];
 
     const { data, error } = await supabase.functions.invoke("google-calendar", {
       body: {
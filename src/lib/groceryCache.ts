@@ -132,7 +132,7 @@ export async function saveCheckedItems(
   contextId: string,
   userId: string,
   checkedItems: Set<string>
-): Promise<void> {
+): Promise<boolean> {
   try {
     // checked_items column added by migration; cast to bypass generated types
     const { error } = await supabase
@@ -145,7 +145,9 @@ export async function saveCheckedItems(
       .eq("user_id", userId);
 
     if (error) throw error;
+    return true;
   } catch (error) {
     console.error("Error saving checked items:", error);
+    return false;
   }
 }
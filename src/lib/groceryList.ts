@@ -1,5 +1,8 @@
-import type { RecipeIngredient, GroceryCategory, SmartGroceryItem } from "@/types";
+import type { AiRequestOptions, RecipeIngredient, GroceryCategory, SmartGroceryItem } from "@/types";
 import { supabase } from "@/integrations/supabase/client";
+import type { RawIngredientInput } from "@/lib/generalGrocery";
+import { sumMeasures } from "@/lib/units";
+import { CATEGORY_OVERRIDES, categorizeIngredient } from "@/lib/ingredientParser";
 
 export interface SmartCombineResult {
   items: SmartGroceryItem[];
@@ -45,29 +48,7 @@ const FRACTION_MAP: [number, string][] = [
   [0.875, "7/8"],
 ];
 
-// Override categories that the AI parser frequently gets wrong
-export const CATEGORY_OVERRIDES: Record<string, GroceryCategory> = {
-  "olive oil": "pantry",
-  "vegetable oil": "pantry",
-  "canola oil": "pantry",
-  "coconut oil": "pantry",
-  "sesame oil": "pantry",
-  "avocado oil": "pantry",
-  "tofu": "meat_seafood",
-  "tempeh": "meat_seafood",
-  "seitan": "meat_seafood",
-  "egg": "pantry",
-  "egg yolk": "pantry",
-  "egg white": "pantry",
-  "ghee": "pantry",
-  "tomato paste": "pantry",
-  "sesame seed": "pantry",
-  "water": "other",
-  "chicken stock": "pantry",
-  "low sodium chicken stock": "pantry",
-  "beef stock": "pantry",
-  "vegetable stock": "pantry",
-};
+export { CATEGORY_OVERRIDES };
 
 export function decimalToFraction(value: number): string {
   if (Number.isInteger(value)) return value.toString();
@@ -228,17 +209,149 @@ export function filterSmartPantryItems(
   return items.filter((item) => !isPantryItem(item.name, pantryItems, item.unit));
 }
 
+/**
+ * Grouping key for exact merges: lowercased, whitespace-collapsed, with the
+ * last word singularized so "onion" and "onions" land together.
+ */
+export function canonicalIngredientName(name: string): string {
+  const words = name.toLowerCase().trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "";
+  const last = words[words.length - 1];
+  let singular = last;
+  if (/[^aeiou]ies$/.test(last)) singular = last.slice(0, -3) + "y";
+  else if (/(ches|shes|xes|oes)$/.test(last)) singular = last.slice(0, -2);
+  else singular = depluralize(last);
+  words[words.length - 1] = singular;
+  return words.join(" ");
+}
+
+function mostSpecificCategory(name: string, categories: string[]): GroceryCategory {
+  const override = CATEGORY_OVERRIDES[name];
+  if (override) return override;
+  const specific = categories.find((c) => c && c !== "other" && c in GROCERY_CATEGORIES);
+  return (specific as GroceryCategory | undefined) ?? "other";
+}
+
+/**
+ * Merge ingredients whose names match exactly (ignoring case and simple
+ * plurals), summing quantities with real unit conversion. Incompatible units
+ * stay as separate line items so nothing is dropped.
+ */
+export function combineIngredientsLocally(rawIngredients: RawIngredientInput[]): SmartGroceryItem[] {
+  const groups = new Map<string, RawIngredientInput[]>();
+  for (const raw of rawIngredients) {
+    const key = canonicalIngredientName(raw.name);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (group) group.push(raw);
+    else groups.set(key, [raw]);
+  }
+
+  const items: SmartGroceryItem[] = [];
+  for (const entries of groups.values()) {
+    const name = entries[0].name.toLowerCase().trim().replace(/\s+/g, " ");
+    const category = mostSpecificCategory(name, entries.map((e) => e.category));
+    const sourceRecipes = [...new Set(entries.map((e) => e.recipeName))];
+    const pluralVariant = entries
+      .map((e) => e.name.toLowerCase().trim())
+      .find((n) => n !== canonicalIngredientName(n));
+    const measures = sumMeasures(
+      entries.map((e) => ({
+        quantity: e.amount ?? (e.quantity != null ? parseFractionToDecimal(e.quantity) : undefined),
+        unit: e.unit ?? undefined,
+      }))
+    );
+    for (const measure of measures) {
+      const usePlural = pluralVariant && measure.unit == null && (measure.quantity ?? 0) > 1;
+      items.push({
+        name,
+        displayName: usePlural ? pluralVariant : name,
+        totalQuantity: measure.quantity,
+        unit: measure.unit,
+        category,
+        sourceRecipes,
+      });
+    }
+  }
+  return items;
+}
+
+/**
+ * Names that might be the same grocery item under a different label — one
+ * name contains the other at a word boundary ("salt" / "kosher salt",
+ * "broccoli" / "broccoli floret"). Only these need the AI to decide.
+ */
+export function findAmbiguousNames(names: string[]): Set<string> {
+  const canonical = [...new Set(names.map(canonicalIngredientName).filter(Boolean))];
+  const ambiguous = new Set<string>();
+  for (const a of canonical) {
+    for (const b of canonical) {
+      if (a === b) continue;
+      if (` ${b} `.includes(` ${a} `)) {
+        ambiguous.add(a);
+        ambiguous.add(b);
+      }
+    }
+  }
+  return ambiguous;
+}
+
+function combinePerRecipe(rawIngredients: RawIngredientInput[]): Record<string, SmartGroceryItem[]> {
+  const byRecipe: Record<string, RawIngredientInput[]> = {};
+  for (const raw of rawIngredients) {
+    (byRecipe[raw.recipeName] ??= []).push(raw);
+  }
+  const perRecipe: Record<string, SmartGroceryItem[]> = {};
+  for (const [recipeName, entries] of Object.entries(byRecipe)) {
+    perRecipe[recipeName] = combineIngredientsLocally(entries);
+  }
+  return perRecipe;
+}
+
+async function combineAmbiguousWithAI(
+  rawIngredients: RawIngredientInput[],
+  ai?: AiRequestOptions
+): Promise<{ items: SmartGroceryItem[]; perRecipeItems: Record<string, SmartGroceryItem[]> }> {
+  // The edge function takes the display quantities only
+  const { data, error } = await supabase.functions.invoke("process-grocery-list", {
+    body: {
+      rawIngredients: rawIngredients.map(({ name, quantity, unit, category, recipeName }) => ({
+        name, quantity, unit, category, recipeName,
+      })),
+      ...ai,
+    },
+  });
+
+  if (error) throw error;
+
+  if (data?.skipped || !data?.items) {
+    throw new Error("AI returned skipped or no items");
+  }
+
+  return {
+    items: data.items as SmartGroceryItem[],
+    perRecipeItems: (data.perRecipeItems as Record<string, SmartGroceryItem[]>) || {},
+  };
+}
+
+/**
+ * Build the combined grocery list. Exact-name merges and unit arithmetic are
+ * done locally; only ingredients with a possible semantic duplicate are sent
+ * to the process-grocery-list edge function. If the AI is unavailable or
+ * fails, those ingredients are combined locally too, so a list is always
+ * returned.
+ */
 export async function smartCombineIngredients(
   ingredients: RecipeIngredient[],
   recipeNameMap: Record<string, string>,
-  extraRawIngredients?: Array<{ name: string; quantity: string | null; unit: string | null; category: string; recipeName: string }>,
-  model?: string
+  extraRawIngredients?: RawIngredientInput[],
+  ai?: AiRequestOptions
 ): Promise<SmartCombineResult> {
-  // Map raw ingredients for the AI edge function
-  const rawIngredients = [
+  const rawIngredients: RawIngredientInput[] = [
     ...ingredients.map((ing) => ({
       name: ing.name,
       quantity: ing.quantity != null ? decimalToFraction(ing.quantity) : null,
+      amount: ing.quantity,
       unit: ing.unit ?? null,
       category: ing.category,
       recipeName: recipeNameMap[ing.recipeId] ?? "Unknown Recipe",
@@ -246,37 +359,42 @@ export async function smartCombineIngredients(
     ...(extraRawIngredients ?? []),
   ];
 
-  try {
-    const { data, error } = await supabase.functions.invoke("process-grocery-list", {
-      body: { rawIngredients, ...(model ? { model } : {}) },
-    });
-
-    if (error) throw error;
+  const ambiguous = findAmbiguousNames(rawIngredients.map((r) => r.name));
+  const aiRaw = rawIngredients.filter((r) => ambiguous.has(canonicalIngredientName(r.name)));
+  const localRaw = rawIngredients.filter((r) => !ambiguous.has(canonicalIngredientName(r.name)));
 
-    if (data?.skipped || !data?.items) {
-      throw new Error("AI returned skipped or no items");
-    }
-
-    // Remap perRecipeItems from recipe-name keys to recipe-ID keys
-    const nameToId: Record<string, string> = {};
-    for (const [id, name] of Object.entries(recipeNameMap)) {
-      nameToId[name.toLowerCase()] = id;
-    }
-    const rawPerRecipe = (data.perRecipeItems as Record<string, SmartGroceryItem[]>) || {};
-    const perRecipeItems: Record<string, SmartGroceryItem[]> = {};
-    for (const [name, items] of Object.entries(rawPerRecipe)) {
-      const id = nameToId[name.toLowerCase()];
-      perRecipeItems[id ?? name] = items;
+  let items: SmartGroceryItem[];
+  let perRecipeByName: Record<string, SmartGroceryItem[]>;
+  if (aiRaw.length === 0) {
+    items = combineIngredientsLocally(rawIngredients);
+    perRecipeByName = combinePerRecipe(rawIngredients);
+  } else {
+    try {
+      const aiResult = await combineAmbiguousWithAI(aiRaw, ai);
+      items = [...combineIngredientsLocally(localRaw), ...aiResult.items];
+      perRecipeByName = combinePerRecipe(localRaw);
+      for (const [name, recipeItems] of Object.entries(aiResult.perRecipeItems)) {
+        perRecipeByName[name] = [...(perRecipeByName[name] ?? []), ...recipeItems];
+      }
+    } catch (error) {
+      console.warn("AI combine unavailable, using local merge:", error);
+      items = combineIngredientsLocally(rawIngredients);
+      perRecipeByName = combinePerRecipe(rawIngredients);
     }
+  }
 
-    return {
-      items: data.items as SmartGroceryItem[],
-      perRecipeItems,
-    };
-  } catch (error) {
-    console.error("Smart combine failed:", error);
-    throw error;
+  // Remap perRecipeItems from recipe-name keys to recipe-ID keys
+  const nameToId: Record<string, string> = {};
+  for (const [id, name] of Object.entries(recipeNameMap)) {
+    nameToId[name.toLowerCase()] = id;
   }
+  const perRecipeItems: Record<string, SmartGroceryItem[]> = {};
+  for (const [name, recipeItems] of Object.entries(perRecipeByName)) {
+    const id = nameToId[name.toLowerCase()];
+    perRecipeItems[id ?? name] = recipeItems;
+  }
+
+  return { items, perRecipeItems };
 }
 
 export function generatePlainText(
@@ -306,8 +424,7 @@ export function downloadCSV(csvContent: string, filename: string): void {
 }
 
 export function detectCategory(name: string): GroceryCategory {
-  const normalized = name.toLowerCase().trim();
-  return CATEGORY_OVERRIDES[normalized] ?? "other";
+  return categorizeIngredient(name);
 }
 
 export function parseFractionToDecimal(value: string): number | undefined {
@@ -0,0 +1,377 @@
+import type {
+  GeneralGroceryItem,
+  Recipe,
+  RecipeIngredient,
+  SmartGroceryItem,
+} from "@/types";
+import { supabase } from "@/integrations/supabase/client";
+import { saveCheckedItems, type GroceryCacheContextType } from "@/lib/groceryCache";
+import { addGeneralItem, removeGeneralItem, updateGeneralItem } from "@/lib/generalGrocery";
+import { setGroceryCheck } from "@/lib/household";
+
+// Offline-first grocery shopping: the last loaded list for an event or week is
+// kept in IndexedDB, and changes made without a connection are queued there and
+// replayed when it returns. Falls back to memory when IndexedDB is unavailable
+// (private browsing, tests) so the list still works for the current page load.
+
+const DB_NAME = "recipe-club-grocery";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "snapshots";
+const QUEUE_STORE = "queue";
+
+export const OFFLINE_ID_PREFIX = "offline-";
+
+export interface GroceryContext {
+  contextType: GroceryCacheContextType;
+  contextId: string;
+  userId: string;
+}
+
+export interface GrocerySnapshot {
+  recipes: Recipe[];
+  recipeIngredients: RecipeIngredient[];
+  items: SmartGroceryItem[] | null;
+  perRecipeItems?: Record<string, SmartGroceryItem[]>;
+  checkedItems: string[];
+  generalItems: GeneralGroceryItem[];
+  savedAt: string;
+}
+
+export type GroceryOp = GroceryContext &
+  (
+    // householdId is set for checks on a household's shared list
+    | { type: "check"; name: string; checked: boolean; householdId?: string }
+    | { type: "add_general"; tempId: string; item: { name: string; quantity?: string; unit?: string } }
+    | { type: "update_general"; itemId: string; updates: { name?: string; quantity?: string; unit?: string } }
+    | { type: "remove_general"; itemId: string }
+    | { type: "edit_ingredient"; ingredientId: string; name: string }
+    | { type: "remove_ingredient"; ingredientId: string }
+  );
+
+interface QueuedOp {
+  seq: number;
+  op: GroceryOp;
+}
+
+export function groceryContextKey({ contextType, contextId, userId }: GroceryContext): string {
+  return `${contextType}:${contextId}:${userId}`;
+}
+
+export function isOfflineId(id: string): boolean {
+  return id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+export function isNavigatorOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+// --- Storage ---
+
+const memorySnapshots = new Map<string, GrocerySnapshot>();
+let memoryQueue: QueuedOp[] = [];
+let memorySeq = 0;
+
+let _dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (_dbPromise) return _dbPromise;
+  _dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Error opening offline grocery store:", request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error("Error opening offline grocery store:", error);
+      resolve(null);
+    }
+  });
+  return _dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  if (!db) throw new Error("IndexedDB unavailable");
+  return requestToPromise(fn(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+async function hasIndexedDb(): Promise<boolean> {
+  return (await openDb()) !== null;
+}
+
+export async function saveGrocerySnapshot(
+  context: GroceryContext,
+  snapshot: Omit<GrocerySnapshot, "savedAt">
+): Promise<void> {
+  const record: GrocerySnapshot = { ...snapshot, savedAt: new Date().toISOString() };
+  const key = groceryContextKey(context);
+  try {
+    if (!(await hasIndexedDb())) {
+      memorySnapshots.set(key, record);
+      return;
+    }
+    await withStore(SNAPSHOT_STORE, "readwrite", (store) => store.put(record, key));
+  } catch (error) {
+    console.error("Error saving offline grocery snapshot:", error);
+  }
+}
+
+export async function loadGrocerySnapshot(context: GroceryContext): Promise<GrocerySnapshot | null> {
+  const key = groceryContextKey(context);
+  try {
+    if (!(await hasIndexedDb())) return memorySnapshots.get(key) ?? null;
+    const record = await withStore<GrocerySnapshot | undefined>(SNAPSHOT_STORE, "readonly", (store) =>
+      store.get(key)
+    );
+    return record ?? null;
+  } catch (error) {
+    console.error("Error loading offline grocery snapshot:", error);
+    return null;
+  }
+}
+
+async function readQueue(): Promise<QueuedOp[]> {
+  if (!(await hasIndexedDb())) return [...memoryQueue];
+  const all = await withStore<QueuedOp[]>(QUEUE_STORE, "readonly", (store) => store.getAll());
+  return all.sort((a, b) => a.seq - b.seq);
+}
+
+async function putQueued(entry: Omit<QueuedOp, "seq"> & { seq?: number }): Promise<void> {
+  if (!(await hasIndexedDb())) {
+    const seq = entry.seq ?? ++memorySeq;
+    memoryQueue = [...memoryQueue.filter((q) => q.seq !== seq), { seq, op: entry.op }].sort(
+      (a, b) => a.seq - b.seq
+    );
+    return;
+  }
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.put(entry));
+}
+
+async function deleteQueued(seq: number): Promise<void> {
+  if (!(await hasIndexedDb())) {
+    memoryQueue = memoryQueue.filter((q) => q.seq !== seq);
+    return;
+  }
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.delete(seq));
+}
+
+// --- Queue ---
+
+/**
+ * Queue a change for replay. Changes to a general item added while offline are
+ * folded into its pending add, so replay never sees an offline-only ID.
+ */
+export async function enqueueGroceryOp(op: GroceryOp): Promise<void> {
+  try {
+    if (op.type === "update_general" || op.type === "remove_general") {
+      if (isOfflineId(op.itemId)) {
+        const queued = await readQueue();
+        const pendingAdd = queued.find(
+          (q) => q.op.type === "add_general" && q.op.tempId === op.itemId
+        );
+        if (pendingAdd && pendingAdd.op.type === "add_general") {
+          if (op.type === "remove_general") {
+            await deleteQueued(pendingAdd.seq);
+          } else {
+            const item = { ...pendingAdd.op.item };
+            if (op.updates.name !== undefined) item.name = op.updates.name;
+            if (op.updates.quantity !== undefined) item.quantity = op.updates.quantity;
+            if (op.updates.unit !== undefined) item.unit = op.updates.unit;
+            await putQueued({ seq: pendingAdd.seq, op: { ...pendingAdd.op, item } });
+          }
+        }
+        return;
+      }
+    }
+    await putQueued({ op });
+  } catch (error) {
+    console.error("Error queueing offline grocery change:", error);
+  }
+}
+
+export async function getPendingGroceryOps(context?: GroceryContext): Promise<GroceryOp[]> {
+  try {
+    const ops = (await readQueue()).map((q) => q.op);
+    if (!context) return ops;
+    const key = groceryContextKey(context);
+    return ops.filter((op) => groceryContextKey(op) === key);
+  } catch (error) {
+    console.error("Error reading offline grocery queue:", error);
+    return [];
+  }
+}
+
+/**
+ * Merge checks made offline into the server's checked items: the result is the
+ * union of both, except that an item the user unchecked offline stays
+ * unchecked. For each item the latest queued change wins.
+ */
+export function mergeCheckedItems(
+  serverChecked: Iterable<string>,
+  ops: GroceryOp[]
+): Set<string> {
+  const merged = new Set(serverChecked);
+  for (const op of ops) {
+    if (op.type !== "check") continue;
+    if (op.checked) merged.add(op.name);
+    else merged.delete(op.name);
+  }
+  return merged;
+}
+
+async function fetchServerCheckedItems(context: GroceryContext): Promise<Set<string> | null> {
+  try {
+    const { data, error } = await supabase
+      .from("combined_grocery_items")
+      .select("checked_items")
+      .eq("context_type", context.contextType)
+      .eq("context_id", context.contextId)
+      .eq("user_id", context.userId)
+      .maybeSingle();
+    if (error) throw error;
+    const row = data as unknown as { checked_items?: string[] | null } | null;
+    return new Set(row?.checked_items ?? []);
+  } catch (error) {
+    console.error("Error loading checked items for replay:", error);
+    return null;
+  }
+}
+
+/** Write a single queued change (other than a check) to Supabase; false on failure. */
+export async function applyGroceryOp(op: Exclude<GroceryOp, { type: "check" }>): Promise<boolean> {
+  switch (op.type) {
+    case "add_general":
+      return addGeneralItem(op.contextType, op.contextId, op.userId, op.item);
+    case "update_general":
+      return updateGeneralItem(op.itemId, op.updates);
+    case "remove_general":
+      return removeGeneralItem(op.itemId);
+    case "edit_ingredient": {
+      const { error } = await supabase
+        .from("recipe_ingredients")
+        .update({ name: op.name, quantity: null, unit: null })
+        .eq("id", op.ingredientId);
+      return !error;
+    }
+    case "remove_ingredient": {
+      const { error } = await supabase.from("recipe_ingredients").delete().eq("id", op.ingredientId);
+      return !error;
+    }
+  }
+}
+
+// Shared lists store one row per check, so each item's latest queued change
+// is written on its own and other members' checks are left alone.
+async function replaySharedChecks(householdId: string, entries: QueuedOp[]): Promise<number> {
+  const latest = new Map<string, QueuedOp[]>();
+  for (const entry of entries) {
+    if (entry.op.type !== "check") continue;
+    latest.set(entry.op.name, [...(latest.get(entry.op.name) ?? []), entry]);
+  }
+
+  let applied = 0;
+  for (const itemEntries of latest.values()) {
+    const { op } = itemEntries[itemEntries.length - 1];
+    if (op.type !== "check") continue;
+    const saved = await setGroceryCheck(
+      householdId,
+      op.contextType,
+      op.contextId,
+      op.name,
+      op.checked,
+      op.userId
+    );
+    if (!saved) continue;
+    try {
+      for (const entry of itemEntries) await deleteQueued(entry.seq);
+      applied += itemEntries.length;
+    } catch (error) {
+      console.error("Error clearing replayed grocery checks:", error);
+    }
+  }
+  return applied;
+}
+
+export interface ReplayResult {
+  applied: number;
+  remaining: number;
+}
+
+/**
+ * Replay queued changes in order. Stops at the first change that fails so
+ * later ones are not applied out of order; whatever is left stays queued for
+ * the next attempt. Checks are merged per list with `mergeCheckedItems`.
+ */
+export async function replayGroceryQueue(): Promise<ReplayResult> {
+  let queued: QueuedOp[];
+  try {
+    queued = await readQueue();
+  } catch (error) {
+    console.error("Error reading offline grocery queue:", error);
+    return { applied: 0, remaining: 0 };
+  }
+
+  let applied = 0;
+  const checksByContext = new Map<string, QueuedOp[]>();
+  for (const entry of queued) {
+    if (entry.op.type === "check") {
+      const key = `${groceryContextKey(entry.op)}:${entry.op.householdId ?? ""}`;
+      checksByContext.set(key, [...(checksByContext.get(key) ?? []), entry]);
+      continue;
+    }
+    try {
+      if (!(await applyGroceryOp(entry.op))) break;
+      await deleteQueued(entry.seq);
+      applied++;
+    } catch (error) {
+      console.error("Error replaying offline grocery change:", error);
+      break;
+    }
+  }
+
+  for (const entries of checksByContext.values()) {
+    const context = entries[0].op;
+    if (context.type === "check" && context.householdId) {
+      applied += await replaySharedChecks(context.householdId, entries);
+      continue;
+    }
+    const serverChecked = await fetchServerCheckedItems(context);
+    if (!serverChecked) continue;
+    const merged = mergeCheckedItems(serverChecked, entries.map((e) => e.op));
+    if (!(await saveCheckedItems(context.contextType, context.contextId, context.userId, merged))) {
+      continue;
+    }
+    try {
+      for (const entry of entries) await deleteQueued(entry.seq);
+      applied += entries.length;
+    } catch (error) {
+      console.error("Error clearing replayed grocery checks:", error);
+    }
+  }
+
+  return { applied, remaining: queued.length - applied };
+}
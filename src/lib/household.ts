@@ -0,0 +1,212 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { GroceryCheck, Household, HouseholdInvite, HouseholdRole } from "@/types";
+import type { GroceryCacheContextType } from "@/lib/groceryCache";
+import { sharedCheckContextId } from "@/lib/groceryChecks";
+
+/** The current user's household ID, or null when they aren't in one. */
+export async function loadHouseholdId(): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc("my_household_id");
+    if (error) throw error;
+    return (data as string | null) ?? null;
+  } catch (error) {
+    console.error("Error loading household:", error);
+    return null;
+  }
+}
+
+export async function loadHousehold(): Promise<Household | null> {
+  const householdId = await loadHouseholdId();
+  if (!householdId) return null;
+
+  const { data, error } = await supabase
+    .from("households")
+    .select("id, name, household_members (email, role, accepted_at)")
+    .eq("id", householdId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  return {
+    id: data.id,
+    name: data.name,
+    members: (data.household_members ?? [])
+      .map((m) => ({ email: m.email, role: m.role as HouseholdRole, pending: !m.accepted_at }))
+      // Owner first, then members alphabetically
+      .sort((a, b) =>
+        a.role === b.role ? a.email.localeCompare(b.email) : a.role === "owner" ? -1 : 1
+      ),
+  };
+}
+
+/** Create a household with the current user as its owner. Resolves to the new ID. */
+export async function createHousehold(name: string, userId: string, email: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("households")
+    .insert({ name, created_by: userId })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  const { error: memberError } = await supabase
+    .from("household_members")
+    .insert({
+      household_id: data.id,
+      email: email.toLowerCase(),
+      role: "owner",
+      accepted_at: new Date().toISOString(),
+    });
+  if (memberError) throw memberError;
+
+  return data.id;
+}
+
+export async function deleteHousehold(householdId: string): Promise<void> {
+  const { error } = await supabase.from("households").delete().eq("id", householdId);
+  if (error) throw error;
+}
+
+/** Invite someone by email. They join once they accept; until then the invite grants nothing. */
+export async function inviteHouseholdMember(householdId: string, email: string): Promise<void> {
+  const { error } = await supabase
+    .from("household_members")
+    .insert({ household_id: householdId, email: email.trim().toLowerCase(), role: "member" });
+  if (error) throw error;
+}
+
+/**
+ * Remove someone from a household or cancel their invite; members pass their
+ * own email to leave or to decline an invite.
+ */
+export async function removeHouseholdMember(householdId: string, email: string): Promise<void> {
+  const { error } = await supabase
+    .from("household_members")
+    .delete()
+    .eq("household_id", householdId)
+    .eq("email", email.toLowerCase());
+  if (error) throw error;
+}
+
+/** Households that have invited the current user and are waiting for an answer. */
+export async function loadHouseholdInvites(): Promise<HouseholdInvite[]> {
+  try {
+    const { data, error } = await supabase.rpc("my_household_invites");
+    if (error) throw error;
+    return (data ?? []).map((row) => ({ householdId: row.household_id, householdName: row.household_name }));
+  } catch (error) {
+    console.error("Error loading household invites:", error);
+    return [];
+  }
+}
+
+/** Join a household the current user was invited to. Fails when they're already in one. */
+export async function acceptHouseholdInvite(householdId: string): Promise<void> {
+  const { error } = await supabase.rpc("accept_household_invite", { p_household_id: householdId });
+  if (error) throw error;
+}
+
+// --- Shared checklist ---
+
+export async function loadGroceryChecks(
+  householdId: string,
+  contextType: GroceryCacheContextType,
+  contextId: string
+): Promise<GroceryCheck[]> {
+  try {
+    const { data, error } = await supabase
+      .from("grocery_checks")
+      .select("item_name, checked_by, checked_at, profiles (name)")
+      .eq("household_id", householdId)
+      .eq("context_type", contextType)
+      .eq("context_id", sharedCheckContextId(contextType, contextId));
+
+    if (error) throw error;
+    if (!data) return [];
+
+    return data.map((row) => ({
+      itemName: row.item_name,
+      checkedBy: row.checked_by ?? undefined,
+      checkedAt: row.checked_at ?? undefined,
+      checkedByName: (row.profiles as { name: string | null } | null)?.name ?? undefined,
+    }));
+  } catch (error) {
+    console.error("Error loading shared grocery checks:", error);
+    return [];
+  }
+}
+
+/** Check or uncheck an item on the shared list. Resolves to false on failure. */
+export async function setGroceryCheck(
+  householdId: string,
+  contextType: GroceryCacheContextType,
+  contextId: string,
+  itemName: string,
+  checked: boolean,
+  userId: string
+): Promise<boolean> {
+  const checkContextId = sharedCheckContextId(contextType, contextId);
+  try {
+    const { error } = checked
+      ? await supabase.from("grocery_checks").upsert(
+          {
+            household_id: householdId,
+            context_type: contextType,
+            context_id: checkContextId,
+            item_name: itemName,
+            checked_by: userId,
+            checked_at: new Date().toISOString(),
+          },
+          { onConflict: "household_id,context_type,context_id,item_name" }
+        )
+      : await supabase
+          .from("grocery_checks")
+          .delete()
+          .eq("household_id", householdId)
+          .eq("context_type", contextType)
+          .eq("context_id", checkContextId)
+          .eq("item_name", itemName);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error saving shared grocery check:", error);
+    return false;
+  }
+}
+
+/**
+ * Listen for checks on a shared list by anyone in the household. Calls
+ * `onChange` for each check or uncheck in this event or week. Returns an
+ * unsubscribe function.
+ */
+export function subscribeToGroceryChecks(
+  householdId: string,
+  contextType: GroceryCacheContextType,
+  contextId: string,
+  onChange: () => void
+): () => void {
+  const checkContextId = sharedCheckContextId(contextType, contextId);
+  const channel = supabase
+    .channel(`grocery_checks:${householdId}:${contextType}:${checkContextId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "grocery_checks",
+        filter: `household_id=eq.${householdId}`,
+      },
+      (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as {
+          context_type?: string;
+          context_id?: string;
+        };
+        if (row.context_type === contextType && row.context_id === checkContextId) onChange();
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
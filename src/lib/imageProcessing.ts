@@ -0,0 +1,95 @@
+// Browser-side normalization of photos before upload. Every image is decoded
+// and redrawn on a canvas, which applies its EXIF orientation and drops all
+// metadata (including GPS location), then re-encoded as WebP, or JPEG where
+// the browser can't encode WebP. HEIC photos from phones are converted first.
+
+/** Longest side of an uploaded photo. */
+export const MAX_IMAGE_DIMENSION = 2048;
+/** Longest side of a thumbnail. */
+export const THUMBNAIL_DIMENSION = 400;
+
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.75;
+
+/** Folder thumbnails are stored in, next to the full-size file. */
+const THUMBNAIL_FOLDER = "thumbs";
+
+export function isHeicFile(file: File): boolean {
+  return /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+}
+
+/** PDFs and animated formats are uploaded as they are. */
+function isProcessableImage(file: File): boolean {
+  if (isHeicFile(file)) return true;
+  return file.type.startsWith("image/") && file.type !== "image/gif" && file.type !== "image/svg+xml";
+}
+
+/** A blob the browser can decode: HEIC is converted to JPEG first. */
+async function toDecodableBlob(file: File): Promise<Blob> {
+  if (!isHeicFile(file)) return file;
+  // Loaded only when needed: the converter bundles a HEIF decoder
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+  return Array.isArray(converted) ? converted[0] : converted;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/** Redraw an image at most `maxDimension` on its longest side and re-encode it. */
+async function renderImage(file: File, maxDimension: number, quality: number): Promise<File> {
+  const blob = await toDecodableBlob(file);
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Browsers that can't encode WebP silently return PNG instead
+  let encoded = await canvasToBlob(canvas, "image/webp", quality);
+  if (encoded?.type !== "image/webp") {
+    encoded = await canvasToBlob(canvas, "image/jpeg", quality);
+  }
+  if (!encoded) throw new Error(`Could not process ${file.name}`);
+
+  const extension = encoded.type === "image/webp" ? "webp" : "jpg";
+  const baseName = file.name.replace(/\.[^/.]+$/, "");
+  return new File([encoded], `${baseName}.${extension}`, { type: encoded.type });
+}
+
+/**
+ * Convert, orient, downscale and strip metadata from a photo. PDFs and GIFs
+ * are returned unchanged.
+ */
+export async function normalizeImage(file: File): Promise<File> {
+  if (!isProcessableImage(file)) return file;
+  return renderImage(file, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+}
+
+/** A small copy of an already-normalized photo for lists, or null for PDFs and GIFs. */
+export async function createThumbnail(file: File): Promise<File | null> {
+  if (!isProcessableImage(file)) return null;
+  return renderImage(file, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+}
+
+/** Storage path of the thumbnail for an uploaded file's path. */
+export function getThumbnailPath(filePath: string): string {
+  const slash = filePath.lastIndexOf("/");
+  return `${filePath.slice(0, slash + 1)}${THUMBNAIL_FOLDER}/${filePath.slice(slash + 1)}`;
+}
+
+/**
+ * Public URL of an uploaded photo's thumbnail. Anything that isn't a storage
+ * image (PDFs, links elsewhere) maps to itself.
+ */
+export function getThumbnailUrl(url: string): string {
+  const match = url.match(/^([^?#]*\/storage\/v1\/object\/public\/[^?#]+)(\?.*)?$/);
+  if (!match || /\.(pdf|gif|svg)$/i.test(match[1])) return url;
+  return getThumbnailPath(match[1]) + (match[2] ?? "");
+}
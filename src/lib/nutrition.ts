@@ -0,0 +1,220 @@
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  GroceryCategory,
+  MealPlanItem,
+  NutritionFacts,
+  RecipeIngredient,
+  RecipeNutrition,
+  UncountedIngredient,
+} from "@/types";
+import { canonicalIngredientName } from "@/lib/groceryList";
+import { NUTRIENT_TABLE, type NutrientEntry } from "@/lib/nutritionData";
+import { parseServings } from "@/lib/servings";
+import { convertQuantity, getUnitDefinition, normalizeUnit } from "@/lib/units";
+
+// Nutrition estimates from parsed recipe_ingredients and the bundled nutrient
+// table. Each ingredient is matched to a table entry by name, its amount
+// converted to grams, and the entry's per-100 g values scaled to that weight.
+// Ingredients that can't be matched or weighed are reported rather than
+// counted as zero, so a total is only as complete as it says it is.
+
+export const EMPTY_NUTRITION: NutritionFacts = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 };
+
+// Size words a parser may leave in the unit field: "1 large onion"
+const SIZE_WORDS = new Set(["small", "medium", "large", "extra large", "whole"]);
+
+// Weights for tiny count units that don't depend much on the ingredient
+const GENERIC_UNIT_GRAMS: Record<string, number> = { pinch: 0.36, dash: 0.6, handful: 30 };
+
+/** Lowercased words with punctuation dropped and each word singularized. */
+function matchKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\u00e0-\u00ff\s-]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => canonicalIngredientName(word))
+    .join(" ");
+}
+
+/** Every name in the table (entry names and aliases), longest first so "olive oil" beats "oil". */
+const TABLE_NAMES: { key: string; entry: NutrientEntry }[] = NUTRIENT_TABLE
+  .flatMap((entry) => [entry.name, ...(entry.aliases ?? [])].map((name) => ({ key: matchKey(name), entry })))
+  .sort((a, b) => b.key.length - a.key.length);
+
+/**
+ * The table entry for an ingredient name. Exact names (ignoring case,
+ * punctuation and plurals) win; otherwise the longest table name that
+ * appears in the ingredient as whole words, so "boneless skinless chicken
+ * breasts" finds "chicken breast".
+ */
+export function findNutrientEntry(name: string): NutrientEntry | undefined {
+  const key = matchKey(name);
+  if (!key) return undefined;
+  const exact = TABLE_NAMES.find((candidate) => candidate.key === key);
+  if (exact) return exact.entry;
+  const padded = ` ${key} `;
+  return TABLE_NAMES.find((candidate) => padded.includes(` ${candidate.key} `))?.entry;
+}
+
+/** Weight of an ingredient amount in grams, or undefined when the unit can't be weighed for this entry. */
+export function ingredientGrams(quantity: number, unit: string | undefined, entry: NutrientEntry): number | undefined {
+  const normalized = normalizeUnit(unit);
+  if (!normalized || SIZE_WORDS.has(normalized)) {
+    const each = entry.unitGrams?.each;
+    return each != null ? quantity * each : undefined;
+  }
+
+  const definition = getUnitDefinition(normalized);
+  if (definition?.dimension === "mass") return convertQuantity(quantity, normalized, "g");
+  if (definition?.dimension === "volume") {
+    const ml = convertQuantity(quantity, normalized, "ml")!;
+    return entry.gramsPerMl != null ? ml * entry.gramsPerMl : undefined;
+  }
+
+  const perUnit = entry.unitGrams?.[normalized]
+    ?? (normalized === "piece" ? entry.unitGrams?.each : undefined)
+    ?? GENERIC_UNIT_GRAMS[normalized];
+  return perUnit != null ? quantity * perUnit : undefined;
+}
+
+export function addNutrition(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+    fiber: a.fiber + b.fiber,
+    sodium: a.sodium + b.sodium,
+  };
+}
+
+export function scaleNutrition(facts: NutritionFacts, factor: number): NutritionFacts {
+  return {
+    calories: facts.calories * factor,
+    protein: facts.protein * factor,
+    carbs: facts.carbs * factor,
+    fat: facts.fat * factor,
+    fiber: facts.fiber * factor,
+    sodium: facts.sodium * factor,
+  };
+}
+
+/**
+ * Estimate a recipe's nutrition from its ingredients. `servings` is the free
+ * text from recipe_content ("Serves 4-6"); per-serving values are only given
+ * when it contains a number.
+ */
+export function estimateRecipeNutrition(ingredients: RecipeIngredient[], servings?: string | null): RecipeNutrition {
+  let total = EMPTY_NUTRITION;
+  let countedCount = 0;
+  const uncounted: UncountedIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const entry = findNutrientEntry(ingredient.name);
+    if (!entry) {
+      uncounted.push({ name: ingredient.name, reason: "unknown" });
+      continue;
+    }
+    if (ingredient.quantity == null || !(ingredient.quantity > 0)) {
+      uncounted.push({ name: ingredient.name, reason: "no_amount" });
+      continue;
+    }
+    const grams = ingredientGrams(ingredient.quantity, ingredient.unit, entry);
+    if (grams == null) {
+      uncounted.push({ name: ingredient.name, reason: "unit" });
+      continue;
+    }
+    total = addNutrition(total, scaleNutrition(entry.per100g, grams / 100));
+    countedCount++;
+  }
+
+  const servingCount = parseServings(servings);
+  return {
+    total,
+    perServing: servingCount ? scaleNutrition(total, 1 / servingCount) : undefined,
+    servings: servingCount,
+    countedCount,
+    uncounted,
+  };
+}
+
+export interface DayNutrition {
+  /** Sum of one serving of every estimated meal that day */
+  perPerson: NutritionFacts;
+  estimatedMeals: number;
+  /** Meals left out: custom meals, unparsed recipes and recipes without a serving count */
+  unestimatedMeals: string[];
+  /** Ingredients left out of the estimated meals */
+  uncountedIngredients: number;
+}
+
+/**
+ * Roll meal plan items up into per-person totals for each day of the week
+ * (keyed by dayOfWeek). Each planned meal counts as one serving.
+ */
+export function estimateDayNutrition(
+  items: MealPlanItem[],
+  nutritionByRecipe: Record<string, RecipeNutrition>
+): Record<number, DayNutrition> {
+  const days: Record<number, DayNutrition> = {};
+  for (const item of items) {
+    const day = days[item.dayOfWeek] ??= {
+      perPerson: EMPTY_NUTRITION,
+      estimatedMeals: 0,
+      unestimatedMeals: [],
+      uncountedIngredients: 0,
+    };
+    const nutrition = item.recipeId ? nutritionByRecipe[item.recipeId] : undefined;
+    if (!nutrition?.perServing || nutrition.countedCount === 0) {
+      day.unestimatedMeals.push(item.recipeName || item.customName || "Meal");
+      continue;
+    }
+    day.perPerson = addNutrition(day.perPerson, nutrition.perServing);
+    day.estimatedMeals++;
+    day.uncountedIngredients += nutrition.uncounted.length;
+  }
+  return days;
+}
+
+/** Nutrition estimates for each recipe, from its parsed ingredients and servings. */
+export async function loadRecipeNutrition(recipeIds: string[]): Promise<Record<string, RecipeNutrition>> {
+  if (recipeIds.length === 0) return {};
+  try {
+    const [ingredientsResult, contentResult] = await Promise.all([
+      supabase.from("recipe_ingredients").select("*").in("recipe_id", recipeIds),
+      supabase.from("recipe_content").select("recipe_id, servings").in("recipe_id", recipeIds),
+    ]);
+    if (ingredientsResult.error) throw ingredientsResult.error;
+    if (contentResult.error) throw contentResult.error;
+
+    const ingredientsByRecipe: Record<string, RecipeIngredient[]> = {};
+    for (const row of ingredientsResult.data ?? []) {
+      (ingredientsByRecipe[row.recipe_id] ??= []).push({
+        id: row.id,
+        recipeId: row.recipe_id,
+        name: row.name,
+        quantity: row.quantity ?? undefined,
+        unit: row.unit ?? undefined,
+        category: row.category as GroceryCategory,
+      });
+    }
+    const servingsByRecipe = new Map((contentResult.data ?? []).map((row) => [row.recipe_id, row.servings]));
+
+    const nutrition: Record<string, RecipeNutrition> = {};
+    for (const [recipeId, ingredients] of Object.entries(ingredientsByRecipe)) {
+      nutrition[recipeId] = estimateRecipeNutrition(ingredients, servingsByRecipe.get(recipeId));
+    }
+    return nutrition;
+  } catch (error) {
+    console.error("Error loading recipe nutrition:", error);
+    return {};
+  }
+}
+
+/** "1,234" for calories, "12 g" for macros, "850 mg" for sodium. */
+export function formatNutrient(key: keyof NutritionFacts, value: number): string {
+  const rounded = Math.round(value).toLocaleString("en-US");
+  if (key === "calories") return rounded;
+  return key === "sodium" ? `${rounded} mg` : `${rounded} g`;
+}
@@ -0,0 +1,163 @@
+import type { NutritionFacts } from "@/types";
+
+// Bundled nutrient table for common recipe ingredients, per 100 g as
+// purchased (raw meat, dry pasta and rice, canned goods drained where noted).
+// Values are rounded from USDA FoodData Central and are meant for estimates,
+// not labels. Sodium is in mg, calories in kcal, everything else in g.
+
+export interface NutrientEntry {
+  name: string;
+  /** Other names that should match this entry */
+  aliases?: string[];
+  per100g: NutritionFacts;
+  /** Density for volume measures (cups, tbsp, ml) */
+  gramsPerMl?: number;
+  /**
+   * Weight of one count or package unit, keyed by canonical unit name.
+   * "each" is used for bare counts ("2 eggs") and size words ("1 large onion").
+   */
+  unitGrams?: Record<string, number>;
+}
+
+const facts = (
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  fiber: number,
+  sodium: number
+): NutritionFacts => ({ calories, protein, carbs, fat, fiber, sodium });
+
+export const NUTRIENT_TABLE: NutrientEntry[] = [
+  // Produce
+  { name: "onion", aliases: ["yellow onion", "white onion", "red onion"], per100g: facts(40, 1.1, 9.3, 0.1, 1.7, 4), gramsPerMl: 0.68, unitGrams: { each: 110 } },
+  { name: "garlic", per100g: facts(149, 6.4, 33.1, 0.5, 2.1, 17), gramsPerMl: 0.57, unitGrams: { clove: 3, head: 40 } },
+  { name: "shallot", per100g: facts(72, 2.5, 16.8, 0.1, 3.2, 12), gramsPerMl: 0.68, unitGrams: { each: 44 } },
+  { name: "green onion", aliases: ["scallion", "spring onion"], per100g: facts(32, 1.8, 7.3, 0.2, 2.6, 16), gramsPerMl: 0.42, unitGrams: { each: 15, bunch: 100 } },
+  { name: "tomato", aliases: ["roma tomato", "cherry tomato"], per100g: facts(18, 0.9, 3.9, 0.2, 1.2, 5), gramsPerMl: 0.76, unitGrams: { each: 123 } },
+  { name: "canned tomatoes", aliases: ["diced tomatoes", "crushed tomatoes", "whole peeled tomatoes"], per100g: facts(32, 1.6, 7.3, 0.3, 1.9, 186), gramsPerMl: 1.03, unitGrams: { can: 411 } },
+  { name: "tomato paste", per100g: facts(82, 4.3, 18.9, 0.5, 4.1, 59), gramsPerMl: 1.1, unitGrams: { can: 170 } },
+  { name: "tomato sauce", per100g: facts(24, 1.2, 5.3, 0.3, 1.5, 474), gramsPerMl: 1.03, unitGrams: { can: 227 } },
+  { name: "potato", aliases: ["russet potato", "yukon gold potato"], per100g: facts(77, 2, 17.5, 0.1, 2.2, 6), gramsPerMl: 0.64, unitGrams: { each: 213 } },
+  { name: "sweet potato", per100g: facts(86, 1.6, 20.1, 0.1, 3, 55), gramsPerMl: 0.56, unitGrams: { each: 130 } },
+  { name: "carrot", per100g: facts(41, 0.9, 9.6, 0.2, 2.8, 69), gramsPerMl: 0.54, unitGrams: { each: 61 } },
+  { name: "celery", per100g: facts(14, 0.7, 3, 0.2, 1.6, 80), gramsPerMl: 0.51, unitGrams: { stalk: 40, rib: 40, each: 40 } },
+  { name: "bell pepper", aliases: ["red bell pepper", "green bell pepper"], per100g: facts(26, 1, 6, 0.3, 2.1, 4), gramsPerMl: 0.63, unitGrams: { each: 120 } },
+  { name: "jalapeno", aliases: ["jalapeño"], per100g: facts(29, 0.9, 6.5, 0.4, 2.8, 3), gramsPerMl: 0.38, unitGrams: { each: 14 } },
+  { name: "spinach", aliases: ["baby spinach"], per100g: facts(23, 2.9, 3.6, 0.4, 2.2, 79), gramsPerMl: 0.13, unitGrams: { bunch: 340 } },
+  { name: "kale", per100g: facts(35, 2.9, 4.4, 1.5, 4.1, 53), gramsPerMl: 0.09, unitGrams: { bunch: 200 } },
+  { name: "lettuce", aliases: ["romaine"], per100g: facts(15, 1.4, 2.9, 0.2, 1.3, 28), gramsPerMl: 0.2, unitGrams: { head: 600, each: 600 } },
+  { name: "cabbage", per100g: facts(25, 1.3, 5.8, 0.1, 2.5, 18), gramsPerMl: 0.38, unitGrams: { head: 900, each: 900 } },
+  { name: "broccoli", per100g: facts(34, 2.8, 6.6, 0.4, 2.6, 33), gramsPerMl: 0.38, unitGrams: { head: 608, each: 608 } },
+  { name: "cauliflower", per100g: facts(25, 1.9, 5, 0.3, 2, 30), gramsPerMl: 0.45, unitGrams: { head: 588, each: 588 } },
+  { name: "zucchini", per100g: facts(17, 1.2, 3.1, 0.3, 1, 8), gramsPerMl: 0.53, unitGrams: { each: 196 } },
+  { name: "cucumber", per100g: facts(15, 0.7, 3.6, 0.1, 0.5, 2), gramsPerMl: 0.55, unitGrams: { each: 301 } },
+  { name: "mushroom", aliases: ["cremini mushroom", "button mushroom"], per100g: facts(22, 3.1, 3.3, 0.3, 1, 5), gramsPerMl: 0.3, unitGrams: { each: 18 } },
+  { name: "green beans", per100g: facts(31, 1.8, 7, 0.2, 2.7, 6), gramsPerMl: 0.46 },
+  { name: "peas", aliases: ["frozen peas", "green peas"], per100g: facts(81, 5.4, 14.5, 0.4, 5.7, 5), gramsPerMl: 0.61 },
+  { name: "corn", aliases: ["corn kernels", "sweet corn"], per100g: facts(86, 3.3, 19, 1.4, 2, 15), gramsPerMl: 0.61, unitGrams: { ear: 90 } },
+  { name: "avocado", per100g: facts(160, 2, 8.5, 14.7, 6.7, 7), gramsPerMl: 0.95, unitGrams: { each: 150 } },
+  { name: "ginger", per100g: facts(80, 1.8, 17.8, 0.8, 2, 13), gramsPerMl: 0.41, unitGrams: { piece: 10 } },
+  { name: "lemon", per100g: facts(29, 1.1, 9.3, 0.3, 2.8, 2), unitGrams: { each: 84 } },
+  { name: "lemon juice", per100g: facts(22, 0.4, 6.9, 0.2, 0.3, 1), gramsPerMl: 1.03 },
+  { name: "lime", per100g: facts(30, 0.7, 10.5, 0.2, 2.8, 2), unitGrams: { each: 67 } },
+  { name: "lime juice", per100g: facts(25, 0.4, 8.4, 0.1, 0.4, 2), gramsPerMl: 1.03 },
+  { name: "apple", per100g: facts(52, 0.3, 13.8, 0.2, 2.4, 1), gramsPerMl: 0.53, unitGrams: { each: 182 } },
+  { name: "banana", per100g: facts(89, 1.1, 22.8, 0.3, 2.6, 1), gramsPerMl: 0.95, unitGrams: { each: 118 } },
+  { name: "strawberries", per100g: facts(32, 0.7, 7.7, 0.3, 2, 1), gramsPerMl: 0.6 },
+  { name: "blueberries", per100g: facts(57, 0.7, 14.5, 0.3, 2.4, 1), gramsPerMl: 0.62 },
+  { name: "parsley", per100g: facts(36, 3, 6.3, 0.8, 3.3, 56), gramsPerMl: 0.25, unitGrams: { sprig: 1, bunch: 60 } },
+  { name: "cilantro", aliases: ["coriander leaves"], per100g: facts(23, 2.1, 3.7, 0.5, 2.8, 46), gramsPerMl: 0.07, unitGrams: { sprig: 1, bunch: 50 } },
+  { name: "basil", per100g: facts(23, 3.2, 2.6, 0.6, 1.6, 4), gramsPerMl: 0.09, unitGrams: { leaf: 0.5, sprig: 2, bunch: 50 } },
+  { name: "thyme", per100g: facts(101, 5.6, 24.5, 1.7, 14, 9), gramsPerMl: 0.16, unitGrams: { sprig: 0.8 } },
+
+  // Meat, fish, eggs and tofu
+  { name: "chicken breast", per100g: facts(120, 22.5, 0, 2.6, 0, 45), unitGrams: { each: 200 } },
+  { name: "chicken thigh", per100g: facts(121, 19.7, 0, 4.1, 0, 95), unitGrams: { each: 110 } },
+  { name: "chicken", aliases: ["whole chicken"], per100g: facts(215, 18.6, 0, 15.1, 0, 70), unitGrams: { each: 1500 } },
+  { name: "ground beef", aliases: ["beef mince", "minced beef"], per100g: facts(250, 17.2, 0, 20, 0, 66) },
+  { name: "beef", aliases: ["steak", "sirloin", "chuck roast", "stew meat"], per100g: facts(180, 20, 0, 11, 0, 55) },
+  { name: "pork", aliases: ["pork chop", "pork loin", "pork tenderloin", "pork shoulder"], per100g: facts(143, 21, 0, 6, 0, 52), unitGrams: { each: 170 } },
+  { name: "ground pork", per100g: facts(263, 16.9, 0, 21.2, 0, 56) },
+  { name: "ground turkey", per100g: facts(148, 17.4, 0, 8.3, 0, 69) },
+  { name: "bacon", per100g: facts(417, 13, 1.4, 40, 0, 662), unitGrams: { slice: 28, strip: 28, each: 28 } },
+  { name: "sausage", aliases: ["italian sausage"], per100g: facts(300, 14, 1, 26, 0, 750), unitGrams: { each: 75, piece: 75 } },
+  { name: "salmon", aliases: ["salmon fillet"], per100g: facts(208, 20, 0, 13, 0, 59), unitGrams: { each: 170 } },
+  { name: "white fish", aliases: ["cod", "tilapia", "halibut"], per100g: facts(82, 17.8, 0, 0.7, 0, 54), unitGrams: { each: 170 } },
+  { name: "shrimp", aliases: ["prawns"], per100g: facts(85, 20.1, 0, 0.5, 0, 119), unitGrams: { each: 12 } },
+  { name: "tuna", aliases: ["canned tuna"], per100g: facts(116, 25.5, 0, 0.8, 0, 338), unitGrams: { can: 142 } },
+  { name: "egg", aliases: ["large egg"], per100g: facts(143, 12.6, 0.7, 9.5, 0, 142), gramsPerMl: 1.03, unitGrams: { each: 50 } },
+  { name: "tofu", aliases: ["firm tofu", "extra firm tofu"], per100g: facts(144, 17.3, 2.8, 8.7, 2.3, 14), unitGrams: { package: 397, block: 397 } },
+
+  // Dairy
+  { name: "butter", aliases: ["unsalted butter", "salted butter"], per100g: facts(717, 0.9, 0.1, 81.1, 0, 11), gramsPerMl: 0.96, unitGrams: { stick: 113 } },
+  { name: "milk", aliases: ["whole milk"], per100g: facts(61, 3.2, 4.8, 3.3, 0, 43), gramsPerMl: 1.03 },
+  { name: "heavy cream", aliases: ["heavy whipping cream", "whipping cream", "double cream"], per100g: facts(340, 2.8, 2.7, 36.1, 0, 27), gramsPerMl: 0.99 },
+  { name: "sour cream", per100g: facts(198, 2.4, 4.6, 19.4, 0, 31), gramsPerMl: 0.97 },
+  { name: "yogurt", aliases: ["plain yogurt"], per100g: facts(61, 3.5, 4.7, 3.3, 0, 46), gramsPerMl: 1.03 },
+  { name: "greek yogurt", per100g: facts(59, 10.2, 3.6, 0.4, 0, 36), gramsPerMl: 1.03 },
+  { name: "cream cheese", per100g: facts(350, 6.2, 5.5, 34.4, 0, 314), gramsPerMl: 0.98, unitGrams: { package: 227 } },
+  { name: "cheddar", aliases: ["cheddar cheese", "sharp cheddar"], per100g: facts(403, 24.9, 1.3, 33.1, 0, 621), gramsPerMl: 0.47, unitGrams: { slice: 28 } },
+  { name: "mozzarella", aliases: ["mozzarella cheese"], per100g: facts(300, 22.2, 2.2, 22.4, 0, 627), gramsPerMl: 0.47, unitGrams: { slice: 28 } },
+  { name: "parmesan", aliases: ["parmesan cheese", "parmigiano reggiano"], per100g: facts(392, 35.8, 3.2, 25.8, 0, 1602), gramsPerMl: 0.42 },
+  { name: "feta", aliases: ["feta cheese"], per100g: facts(264, 14.2, 4.1, 21.3, 0, 917), gramsPerMl: 0.63 },
+
+  // Grains, baking and pantry
+  { name: "all-purpose flour", aliases: ["flour", "all purpose flour", "plain flour"], per100g: facts(364, 10.3, 76.3, 1, 2.7, 2), gramsPerMl: 0.53 },
+  { name: "whole wheat flour", per100g: facts(340, 13.2, 72, 2.5, 10.7, 2), gramsPerMl: 0.51 },
+  { name: "sugar", aliases: ["granulated sugar", "white sugar", "caster sugar"], per100g: facts(387, 0, 100, 0, 0, 1), gramsPerMl: 0.85 },
+  { name: "brown sugar", aliases: ["light brown sugar", "dark brown sugar"], per100g: facts(380, 0.1, 98.1, 0, 0, 28), gramsPerMl: 0.93 },
+  { name: "powdered sugar", aliases: ["confectioners sugar", "icing sugar"], per100g: facts(389, 0, 99.8, 0, 0, 2), gramsPerMl: 0.51 },
+  { name: "honey", per100g: facts(304, 0.3, 82.4, 0, 0.2, 4), gramsPerMl: 1.42 },
+  { name: "maple syrup", per100g: facts(260, 0, 67, 0.1, 0, 12), gramsPerMl: 1.32 },
+  { name: "cornstarch", aliases: ["corn starch", "cornflour"], per100g: facts(381, 0.3, 91.3, 0.1, 0.9, 9), gramsPerMl: 0.54 },
+  { name: "baking powder", per100g: facts(53, 0, 27.7, 0, 0.2, 10600), gramsPerMl: 0.93 },
+  { name: "baking soda", aliases: ["bicarbonate of soda"], per100g: facts(0, 0, 0, 0, 0, 27360), gramsPerMl: 0.93 },
+  { name: "yeast", aliases: ["active dry yeast", "instant yeast"], per100g: facts(325, 40.4, 41.2, 7.6, 26.9, 51), gramsPerMl: 0.57, unitGrams: { package: 7 } },
+  { name: "vanilla extract", aliases: ["vanilla"], per100g: facts(288, 0.1, 12.7, 0.1, 0, 9), gramsPerMl: 0.88 },
+  { name: "cocoa powder", aliases: ["unsweetened cocoa powder", "cocoa"], per100g: facts(228, 19.6, 57.9, 13.7, 37, 21), gramsPerMl: 0.36 },
+  { name: "chocolate chips", aliases: ["semisweet chocolate chips", "dark chocolate"], per100g: facts(480, 4.2, 63.1, 30, 5.9, 11), gramsPerMl: 0.72 },
+  { name: "rice", aliases: ["white rice", "long grain rice", "jasmine rice", "basmati rice"], per100g: facts(365, 7.1, 80, 0.7, 1.3, 5), gramsPerMl: 0.78 },
+  { name: "brown rice", per100g: facts(367, 7.5, 76.2, 3.2, 3.6, 7), gramsPerMl: 0.8 },
+  { name: "cooked rice", aliases: ["cooked white rice"], per100g: facts(130, 2.7, 28, 0.3, 0.4, 1), gramsPerMl: 0.66 },
+  { name: "pasta", aliases: ["spaghetti", "penne", "fettuccine", "linguine", "macaroni", "rigatoni", "noodles", "egg noodles"], per100g: facts(371, 13, 74.7, 1.5, 3.2, 6), gramsPerMl: 0.42, unitGrams: { package: 454, box: 454 } },
+  { name: "oats", aliases: ["rolled oats", "old-fashioned oats", "oatmeal"], per100g: facts(379, 13.2, 67.7, 6.5, 10.1, 6), gramsPerMl: 0.34 },
+  { name: "bread", aliases: ["white bread", "sandwich bread"], per100g: facts(266, 8.9, 49.4, 3.3, 2.7, 491), unitGrams: { slice: 30 } },
+  { name: "breadcrumbs", aliases: ["bread crumbs", "panko"], per100g: facts(395, 13.4, 71.9, 5.3, 4.5, 732), gramsPerMl: 0.46 },
+  { name: "tortilla", aliases: ["flour tortilla"], per100g: facts(306, 8.2, 50.6, 8, 3.5, 600), unitGrams: { each: 45 } },
+  { name: "beans", aliases: ["black beans", "kidney beans", "pinto beans", "cannellini beans", "white beans"], per100g: facts(90, 6, 16, 0.4, 6, 240), gramsPerMl: 0.72, unitGrams: { can: 240 } },
+  { name: "chickpeas", aliases: ["garbanzo beans"], per100g: facts(139, 7, 22.5, 2.6, 6.4, 246), gramsPerMl: 0.7, unitGrams: { can: 240 } },
+  { name: "lentils", per100g: facts(352, 24.6, 63.4, 1.1, 10.7, 6), gramsPerMl: 0.81 },
+  { name: "almonds", per100g: facts(579, 21.2, 21.6, 49.9, 12.5, 1), gramsPerMl: 0.6 },
+  { name: "walnuts", per100g: facts(654, 15.2, 13.7, 65.2, 6.7, 2), gramsPerMl: 0.5 },
+  { name: "pecans", per100g: facts(691, 9.2, 13.9, 72, 9.6, 0), gramsPerMl: 0.46 },
+  { name: "peanut butter", per100g: facts(588, 25, 20, 50, 6, 430), gramsPerMl: 1.08 },
+
+  // Oils, sauces and liquids
+  { name: "olive oil", aliases: ["extra virgin olive oil", "extra-virgin olive oil"], per100g: facts(884, 0, 0, 100, 0, 2), gramsPerMl: 0.91 },
+  { name: "vegetable oil", aliases: ["oil", "canola oil", "neutral oil", "sunflower oil"], per100g: facts(884, 0, 0, 100, 0, 0), gramsPerMl: 0.92 },
+  { name: "sesame oil", aliases: ["toasted sesame oil"], per100g: facts(884, 0, 0, 100, 0, 0), gramsPerMl: 0.92 },
+  { name: "coconut oil", per100g: facts(892, 0, 0, 99.1, 0, 0), gramsPerMl: 0.92 },
+  { name: "coconut milk", per100g: facts(197, 2, 2.8, 21.3, 0, 13), gramsPerMl: 1.01, unitGrams: { can: 400 } },
+  { name: "broth", aliases: ["stock", "chicken broth", "chicken stock", "beef broth", "beef stock", "vegetable broth", "vegetable stock"], per100g: facts(6, 0.6, 0.4, 0.2, 0, 343), gramsPerMl: 1.01, unitGrams: { can: 411, carton: 946 } },
+  { name: "soy sauce", aliases: ["tamari"], per100g: facts(53, 8.1, 4.9, 0.6, 0.8, 5493), gramsPerMl: 1.08 },
+  { name: "fish sauce", per100g: facts(35, 5.1, 3.6, 0, 0, 7851), gramsPerMl: 1.2 },
+  { name: "vinegar", aliases: ["white vinegar", "apple cider vinegar", "red wine vinegar", "rice vinegar"], per100g: facts(18, 0, 0.1, 0, 0, 2), gramsPerMl: 1.01 },
+  { name: "balsamic vinegar", per100g: facts(88, 0.5, 17, 0, 0, 23), gramsPerMl: 1.06 },
+  { name: "mustard", aliases: ["dijon mustard"], per100g: facts(66, 4.4, 5.8, 3.3, 3.3, 1135), gramsPerMl: 1.05 },
+  { name: "mayonnaise", aliases: ["mayo"], per100g: facts(680, 1, 0.6, 75, 0, 635), gramsPerMl: 0.93 },
+  { name: "ketchup", per100g: facts(101, 1, 27, 0.1, 0.3, 907), gramsPerMl: 1.13 },
+  { name: "salsa", per100g: facts(36, 1.5, 6.6, 0.2, 1.9, 430), gramsPerMl: 1.05 },
+  { name: "wine", aliases: ["white wine", "red wine", "dry white wine"], per100g: facts(84, 0.1, 2.6, 0, 0, 5), gramsPerMl: 0.99 },
+  { name: "water", aliases: ["ice"], per100g: facts(0, 0, 0, 0, 0, 0), gramsPerMl: 1 },
+
+  // Salt and spices
+  { name: "salt", aliases: ["table salt", "sea salt", "fine salt"], per100g: facts(0, 0, 0, 0, 0, 38758), gramsPerMl: 1.22 },
+  { name: "kosher salt", per100g: facts(0, 0, 0, 0, 0, 38758), gramsPerMl: 0.8 },
+  { name: "black pepper", aliases: ["pepper", "ground black pepper"], per100g: facts(251, 10.4, 64, 3.3, 25.3, 20), gramsPerMl: 0.46 },
+  { name: "cinnamon", aliases: ["ground cinnamon"], per100g: facts(247, 4, 80.6, 1.2, 53.1, 10), gramsPerMl: 0.53 },
+  { name: "cumin", aliases: ["ground cumin"], per100g: facts(375, 17.8, 44.2, 22.3, 10.5, 168), gramsPerMl: 0.43 },
+  { name: "paprika", aliases: ["smoked paprika"], per100g: facts(282, 14.1, 54, 12.9, 34.9, 68), gramsPerMl: 0.47 },
+  { name: "chili powder", per100g: facts(282, 13.5, 49.7, 14.3, 34.8, 1640), gramsPerMl: 0.55 },
+  { name: "oregano", aliases: ["dried oregano"], per100g: facts(265, 9, 68.9, 4.3, 42.5, 25), gramsPerMl: 0.2 },
+];
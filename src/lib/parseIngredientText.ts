@@ -1,13 +1,15 @@
 import { supabase } from "@/integrations/supabase/client";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { getCachedAiOptions } from "@/lib/userPreferences";
+import { parseIngredientLines } from "@/lib/ingredientParser";
 import type { ParsedGroceryItem } from "@/components/recipes/GroceryListSection";
 
 function fallbackParse(text: string): ParsedGroceryItem[] {
-  return text
-    .split(/\n|,/)
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((name) => ({ name, quantity: null, unit: null, category: "other" }));
+  return parseIngredientLines(text).map(({ name, quantity, unit, category }) => ({
+    name,
+    quantity,
+    unit,
+    category,
+  }));
 }
 
 export async function parseIngredientText(
@@ -17,7 +19,7 @@ export async function parseIngredientText(
   if (!userId) throw new Error("Not authenticated");
 
   const { data, error } = await supabase.functions.invoke("parse-recipe", {
-    body: { recipeName: "General Items", text, model: getCachedAiModel() },
+    body: { recipeName: "General Items", text, ...getCachedAiOptions() },
   });
 
   // If AI parsing fails or returns nothing, fall back to treating each line as a
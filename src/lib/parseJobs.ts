@@ -0,0 +1,110 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getCachedAiOptions } from "@/lib/userPreferences";
+import type { ParseJob, ParseJobStatus } from "@/types";
+
+type ParseJobRow = Tables<"recipe_parse_jobs">;
+
+export interface ParseJobRequest {
+  recipeName: string;
+  /** Page, image or PDF to parse; ignored when `text` is given. */
+  recipeUrl?: string;
+  /** Pasted recipe text. */
+  text?: string;
+  /** Bypass the shared parse cache. */
+  reparse?: boolean;
+}
+
+function toParseJob(row: ParseJobRow): ParseJob {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    status: row.status as ParseJobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: row.next_attempt_at,
+  };
+}
+
+/**
+ * Ask parse-recipe-worker to drain the queue now rather than on its next
+ * scheduled run. Fire-and-forget: the job's row reports the outcome.
+ */
+export function kickParseWorker(jobId?: string): void {
+  supabase.functions
+    .invoke("parse-recipe-worker", { body: jobId ? { jobId } : {} })
+    .then(({ error }) => {
+      if (error) console.error("Error starting parse worker:", error);
+    })
+    .catch((error) => console.error("Error starting parse worker:", error));
+}
+
+/** Queue a background parse of a recipe with the user's AI settings and start the worker. */
+export async function enqueueRecipeParse(recipeId: string, request: ParseJobRequest): Promise<ParseJob> {
+  const body = request.text
+    ? { recipeName: request.recipeName, text: request.text }
+    : { recipeName: request.recipeName, recipeUrl: request.recipeUrl };
+
+  const { data, error } = await supabase
+    .from("recipe_parse_jobs")
+    .insert({
+      recipe_id: recipeId,
+      request: { ...body, ...(request.reparse ? { reparse: true } : {}), ...getCachedAiOptions() },
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  kickParseWorker(data.id);
+  return toParseJob(data);
+}
+
+export async function getParseJob(jobId: string): Promise<ParseJob | null> {
+  const { data, error } = await supabase
+    .from("recipe_parse_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading parse job:", error);
+    return null;
+  }
+  return data ? toParseJob(data) : null;
+}
+
+/**
+ * Listen for progress on a parse job. Calls `onChange` with the job on every
+ * update, starting with its current state so a change made before the
+ * subscription opened isn't missed. Returns an unsubscribe function.
+ */
+export function subscribeToParseJob(jobId: string, onChange: (job: ParseJob) => void): () => void {
+  let closed = false;
+
+  const channel = supabase
+    .channel(`recipe_parse_jobs:${jobId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "recipe_parse_jobs",
+        filter: `id=eq.${jobId}`,
+      },
+      (payload) => {
+        if (!closed) onChange(toParseJob(payload.new as ParseJobRow));
+      }
+    )
+    .subscribe();
+
+  getParseJob(jobId).then((job) => {
+    if (job && !closed) onChange(job);
+  });
+
+  return () => {
+    closed = true;
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ThrottledCaller } from "@/types";
+
+/** Users and IP addresses throttled in the last `days` days, most recent first. Admins only. */
+export async function loadThrottledCallers(days = 7): Promise<ThrottledCaller[]> {
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase.rpc("get_throttled_callers", {
+      p_since: since.toISOString(),
+    });
+
+    if (error) throw error;
+    if (!data) return [];
+
+    return data.map((row) => ({
+      functionName: row.function_name,
+      callerType: row.caller_type as ThrottledCaller["callerType"],
+      caller: row.caller,
+      email: row.email ?? undefined,
+      name: row.name ?? undefined,
+      throttledCount: row.throttled_count,
+      lastThrottledAt: row.last_throttled_at,
+    }));
+  } catch (error) {
+    console.error("Error loading throttled callers:", error);
+    return [];
+  }
+}
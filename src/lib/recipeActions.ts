@@ -1,12 +1,12 @@
 import { supabase } from "@/integrations/supabase/client";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { enqueueRecipeParse } from "@/lib/parseJobs";
 
 export type SaveRecipeEditResult =
   | { success: true; urlChanged: boolean }
   | { success: false; error: string };
 
 /**
- * Save edits to a recipe's name and URL. Triggers re-parse if URL changed.
+ * Save edits to a recipe's name and URL. Queues a re-parse if URL changed.
  * Callers handle UI concerns (toast, notifications, callbacks).
  */
 export async function saveRecipeEdit(
@@ -37,17 +37,11 @@ export async function saveRecipeEdit(
 
     if (error) throw error;
 
-    // Trigger re-parse in background if URL changed and new URL is non-empty
+    // Queue a re-parse in the background if URL changed and new URL is non-empty
     if (urlChanged && trimmedUrl) {
-      supabase.functions
-        .invoke("parse-recipe", {
-          body: { recipeId, recipeUrl: trimmedUrl, recipeName: trimmedName, model: getCachedAiModel() },
-        })
-        .then(({ data: parseData, error: parseError }) => {
-          if (parseError || !parseData?.success) {
-            console.error("Error re-parsing recipe:", parseError ?? parseData?.error);
-          }
-        });
+      enqueueRecipeParse(recipeId, { recipeName: trimmedName, recipeUrl: trimmedUrl }).catch((parseError) => {
+        console.error("Error queueing recipe re-parse:", parseError);
+      });
     }
 
     return { success: true, urlChanged };
@@ -0,0 +1,678 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ImportedRecipe, RecipeImportFormat } from "@/types";
+import { categorizeIngredient, parseIngredientLine, parseNumber } from "@/lib/ingredientParser";
+import { enqueueRecipeParse } from "@/lib/parseJobs";
+import { findJsonLdRecipes, formatDuration, formatYield, fromJsonLd } from "@/lib/schemaOrg";
+import { normalizeUnit } from "@/lib/units";
+
+// Bulk import from other recipe managers' exports. Every supported format
+// already separates ingredients, steps and times, so recipes are read in the
+// browser and saved straight to recipes, recipe_ingredients and
+// recipe_content without calling the AI. Ingredient lines go through the
+// same rule-based parser as manual entry. Only recipes that arrive as a bare
+// link are queued for a normal parse.
+
+type ImportedIngredient = ImportedRecipe["ingredients"][number];
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipeImportError";
+  }
+}
+
+export const IMPORT_FORMAT_LABELS: Record<RecipeImportFormat, string> = {
+  paprika: "Paprika",
+  mela: "Mela",
+  cooklang: "Cooklang",
+  mealmaster: "MealMaster",
+  jsonld: "JSON-LD",
+};
+
+/** File types accepted by the importer, for the file picker. */
+export const IMPORT_FILE_EXTENSIONS = [
+  ".paprikarecipes", ".paprikarecipe", ".melarecipes", ".melarecipe", ".cook", ".mmf", ".mm", ".txt", ".json", ".jsonld",
+];
+
+const UNTITLED = "Untitled recipe";
+
+// ---------------------------------------------------------------------------
+// Shared field cleanup
+// ---------------------------------------------------------------------------
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return undefined;
+  return value.trim() || undefined;
+}
+
+function httpUrl(value: unknown): string | undefined {
+  const url = text(value);
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+function hostname(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+function duration(value: unknown): string | undefined {
+  return formatDuration(text(value) ?? null) ?? undefined;
+}
+
+function servings(value: unknown): string | undefined {
+  return formatYield(text(value) ?? null) ?? undefined;
+}
+
+function ingredientFromLine(line: string): ImportedIngredient | null {
+  const parsed = parseIngredientLine(line);
+  if (!parsed) return null;
+  return {
+    name: parsed.name,
+    quantity: parsed.quantity != null ? Math.round(parsed.quantity * 100) / 100 : undefined,
+    unit: parsed.unit ?? undefined,
+    category: parsed.category,
+    rawText: line.trim(),
+  };
+}
+
+// Group titles: "# For the sauce" (Mela) or "For the sauce:" (Paprika)
+const isGroupTitle = (line: string) => line.startsWith("#") || line.endsWith(":");
+
+/** One ingredient per line, skipping blank lines and group titles. */
+function ingredientsFromText(value: unknown): ImportedIngredient[] {
+  return (text(value) ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !isGroupTitle(line))
+    .map(ingredientFromLine)
+    .filter((ingredient): ingredient is ImportedIngredient => ingredient !== null);
+}
+
+/** Drop "1.", "2)" or "Step 3:" numbering; steps are numbered when shown. */
+const stripStepNumber = (step: string) => step.replace(/^(?:step\s+)?\d+\s*[.):]\s*/i, "").trim();
+
+/** One step per non-blank line, skipping group titles. */
+function stepsFromText(value: unknown): string[] {
+  return (text(value) ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map(stripStepNumber)
+    .filter(Boolean);
+}
+
+/** Steps separated by blank lines, with the lines of each step joined. */
+function stepsFromParagraphs(lines: string[]): string[] {
+  const steps: string[] = [];
+  let current: string[] = [];
+  for (const line of [...lines, ""]) {
+    if (line.trim()) {
+      current.push(line.trim());
+    } else if (current.length > 0) {
+      steps.push(stripStepNumber(current.join(" ")));
+      current = [];
+    }
+  }
+  return steps.filter(Boolean);
+}
+
+function parseJson(source: string, what: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch {
+    throw new RecipeImportError(`This isn't a valid ${what} file`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Paprika and Mela (JSON per recipe)
+// ---------------------------------------------------------------------------
+
+/** One recipe from a Paprika export (the JSON inside each .paprikarecipe). */
+export function parsePaprikaRecipe(data: Record<string, unknown>): ImportedRecipe {
+  const url = httpUrl(data.source_url);
+  return {
+    name: text(data.name) ?? UNTITLED,
+    format: "paprika",
+    url,
+    description: text(data.description),
+    servings: servings(data.servings),
+    prepTime: duration(data.prep_time),
+    cookTime: duration(data.cook_time),
+    totalTime: duration(data.total_time),
+    instructions: stepsFromText(data.directions),
+    ingredients: ingredientsFromText(data.ingredients),
+    sourceTitle: text(data.source) ?? hostname(url),
+  };
+}
+
+/** One recipe from a Mela export (a .melarecipe file). */
+export function parseMelaRecipe(data: Record<string, unknown>): ImportedRecipe {
+  const url = httpUrl(data.link);
+  return {
+    name: text(data.title) ?? UNTITLED,
+    format: "mela",
+    url,
+    description: text(data.text),
+    servings: servings(data.yield),
+    prepTime: duration(data.prepTime),
+    cookTime: duration(data.cookTime),
+    totalTime: duration(data.totalTime),
+    instructions: stepsFromText(data.instructions),
+    ingredients: ingredientsFromText(data.ingredients),
+    // Mela keeps non-URL sources ("Grandma's notebook") in the link field too
+    sourceTitle: url ? hostname(url) : text(data.link),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+/** Every schema.org Recipe in a JSON-LD document: one recipe, an array, or a @graph. */
+export function parseJsonLdRecipes(source: string): ImportedRecipe[] {
+  return findJsonLdRecipes(parseJson(source, "JSON-LD")).map((node) => {
+    const recipe = fromJsonLd(node);
+    const url = httpUrl(node.url) ?? httpUrl(node.mainEntityOfPage?.["@id"] ?? node.mainEntityOfPage);
+    return {
+      name: recipe.name ?? UNTITLED,
+      format: "jsonld",
+      url,
+      description: recipe.description ?? undefined,
+      servings: servings(recipe.recipeYield),
+      prepTime: duration(recipe.prepTime),
+      cookTime: duration(recipe.cookTime),
+      totalTime: duration(recipe.totalTime),
+      instructions: recipe.instructions.map(stripStepNumber).filter(Boolean),
+      ingredients: recipe.ingredients
+        .map(ingredientFromLine)
+        .filter((ingredient): ingredient is ImportedIngredient => ingredient !== null),
+      sourceTitle: recipe.publisher ?? hostname(url),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Cooklang
+// ---------------------------------------------------------------------------
+
+// @name, or @multi word name{amount} with an optional (note)
+const COOKLANG_INGREDIENT = /@(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_-]+))(?:\(([^)]*)\))?/gu;
+// #pan, or #multi word pan{}
+const COOKLANG_COOKWARE = /#(?:([^@#~{}\n]+?)\{[^}]*\}|([\p{L}\p{N}_-]+))/gu;
+// ~{25%minutes}, or ~name{25%minutes}
+const COOKLANG_TIMER = /~[^@#~{}\n]*?\{([^}]*)\}/g;
+
+const COOKLANG_METADATA: Record<string, "name" | "servings" | "prepTime" | "cookTime" | "totalTime" | "description" | "source"> = {
+  title: "name",
+  servings: "servings",
+  serves: "servings",
+  yield: "servings",
+  "prep time": "prepTime",
+  "time.prep": "prepTime",
+  "cook time": "cookTime",
+  "time.cook": "cookTime",
+  time: "totalTime",
+  duration: "totalTime",
+  "total time": "totalTime",
+  description: "description",
+  introduction: "description",
+  source: "source",
+  "source.url": "source",
+};
+
+/** "2%cups" → { quantity: "2", unit: "cups" }; "*" marks amounts that don't scale. */
+function cooklangAmount(amount: string): { quantity: string; unit: string } {
+  const [quantity = "", unit = ""] = amount.split("%");
+  return { quantity: quantity.replace(/\*$/, "").trim(), unit: unit.trim() };
+}
+
+/**
+ * A Cooklang recipe (.cook). Steps are paragraphs; ingredients are marked up
+ * inline ("Add @olive oil{2%tbsp}") and metadata comes from ">> key: value"
+ * lines or YAML front matter. `fallbackName` names recipes without a title,
+ * since Cooklang usually takes the title from the file name.
+ */
+export function parseCooklang(source: string, fallbackName: string): ImportedRecipe {
+  let body = source.replace(/\r\n/g, "\n").replace(/\[-[\s\S]*?-\]/g, "");
+  const metadata: Record<string, string> = {};
+  const addMetadata = (line: string) => {
+    const match = line.match(/^([^:]+):\s*(.*)$/);
+    const field = match && COOKLANG_METADATA[match[1].trim().toLowerCase()];
+    if (field && match[2].trim()) metadata[field] = match[2].trim().replace(/^["']|["']$/g, "");
+  };
+
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    frontMatter[1].split("\n").forEach(addMetadata);
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const ingredients: ImportedIngredient[] = [];
+  const stepLines: string[] = [];
+  for (const rawLine of body.split("\n")) {
+    const line = rawLine.replace(/--.*$/, "").trim();
+    if (line.startsWith(">>")) {
+      addMetadata(line.slice(2).trim());
+    } else if (line.startsWith(">") || line.startsWith("=")) {
+      // Notes and section titles aren't steps
+      stepLines.push("");
+    } else {
+      stepLines.push(line);
+    }
+  }
+
+  const steps = stepsFromParagraphs(stepLines).map((step) =>
+    step
+      .replace(COOKLANG_INGREDIENT, (_, multiWord: string | undefined, amount: string | undefined, singleWord: string | undefined, note: string | undefined) => {
+        const name = (multiWord ?? singleWord!).trim();
+        const { quantity, unit } = cooklangAmount(amount ?? "");
+        const rawText = [quantity, unit, name].filter(Boolean).join(" ") + (note ? `, ${note}` : "");
+        ingredients.push({
+          name,
+          quantity: parseNumber(quantity) ?? undefined,
+          unit: normalizeUnit(unit),
+          category: categorizeIngredient(name),
+          rawText,
+        });
+        return name;
+      })
+      .replace(COOKLANG_COOKWARE, (_, multiWord: string | undefined, singleWord: string | undefined) => (multiWord ?? singleWord!).trim())
+      .replace(COOKLANG_TIMER, (_, amount: string) => {
+        const { quantity, unit } = cooklangAmount(amount);
+        return [quantity, unit].filter(Boolean).join(" ");
+      })
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+
+  const url = httpUrl(metadata.source);
+  return {
+    name: metadata.name ?? (fallbackName.trim() || UNTITLED),
+    format: "cooklang",
+    url,
+    description: metadata.description,
+    servings: servings(metadata.servings),
+    prepTime: duration(metadata.prepTime),
+    cookTime: duration(metadata.cookTime),
+    totalTime: duration(metadata.totalTime),
+    instructions: steps.filter(Boolean),
+    ingredients,
+    sourceTitle: url ? hostname(url) : metadata.source,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MealMaster
+// ---------------------------------------------------------------------------
+
+const MEALMASTER_START = /^(?:MMMMM|-----).*meal-master/i;
+const MEALMASTER_END = /^(?:MMMMM|-----)\s*$/;
+// "MMMMM-----------FROSTING-----------"
+const MEALMASTER_SECTION = /^(?:MMMMM|-----)/;
+const MEALMASTER_HEADER = /^\s*(title|categories|yield|servings)\s*:\s*(.*)$/i;
+// Fixed columns: 7-character amount, 2-character unit code, then the ingredient
+const MEALMASTER_INGREDIENT = /^([ \d./]{7}) ([A-Za-z ]{2}) (.*)$/;
+// Ingredients are sometimes laid out in two columns, the second at this offset
+const MEALMASTER_SECOND_COLUMN = 41;
+
+// MealMaster unit codes; "t" and "T" differ only in case
+const MEALMASTER_UNITS: Record<string, string> = {
+  t: "tsp", ts: "tsp", T: "tbsp", tb: "tbsp", fl: "fl oz", c: "cup", pt: "pint", qt: "quart", ga: "gallon",
+  oz: "oz", lb: "lb", ml: "ml", cb: "ml", l: "liter", mg: "mg", g: "g", kg: "kg",
+  cn: "can", pk: "package", pn: "pinch", ds: "dash", ct: "carton", bn: "bunch", sl: "slice", dr: "drop",
+  sm: "small", md: "medium", lg: "large", x: "", ea: "",
+};
+
+function mealMasterColumns(line: string): { amount: string; unit: string; text: string }[] | null {
+  const secondColumn = line.slice(MEALMASTER_SECOND_COLUMN);
+  const parts = MEALMASTER_INGREDIENT.test(secondColumn)
+    ? [line.slice(0, MEALMASTER_SECOND_COLUMN), secondColumn]
+    : [line];
+  const columns = parts.map((part) => part.padEnd(11).match(MEALMASTER_INGREDIENT));
+  if (columns.some((match) => !match)) return null;
+  return columns.map((match) => ({ amount: match![1].trim(), unit: match![2].trim(), text: match![3].trim() }));
+}
+
+function parseMealMasterRecipe(lines: string[]): ImportedRecipe {
+  let name: string | undefined;
+  let yieldText: string | undefined;
+  const entries: { amount: string; unit: string; text: string }[] = [];
+  const directions: string[] = [];
+  let phase: "header" | "ingredients" | "directions" = "header";
+
+  for (const line of lines) {
+    if (phase === "header") {
+      const header = line.match(MEALMASTER_HEADER);
+      if (header) {
+        const key = header[1].toLowerCase();
+        if (key === "title") name = text(header[2]);
+        if (key === "yield" || key === "servings") yieldText = text(header[2]);
+        continue;
+      }
+      if (!line.trim()) continue;
+      phase = "ingredients";
+    }
+    if (phase === "ingredients") {
+      if (!line.trim() || MEALMASTER_SECTION.test(line)) continue;
+      const columns = mealMasterColumns(line);
+      if (columns) {
+        for (const column of columns) {
+          const previous = entries[entries.length - 1];
+          // "-" in the text column continues the previous ingredient
+          if (!column.amount && !column.unit && column.text.startsWith("-") && previous) {
+            previous.text += ` ${column.text.replace(/^-+\s*/, "")}`;
+          } else if (column.text) {
+            entries.push(column);
+          }
+        }
+        continue;
+      }
+      phase = "directions";
+    }
+    directions.push(MEALMASTER_SECTION.test(line) ? "" : line);
+  }
+
+  const ingredients = entries
+    .map(({ amount, unit, text: ingredientText }) => {
+      const unitWord = MEALMASTER_UNITS[unit] ?? MEALMASTER_UNITS[unit.toLowerCase()] ?? unit;
+      return ingredientFromLine([amount, unitWord, ingredientText].filter(Boolean).join(" "));
+    })
+    .filter((ingredient): ingredient is ImportedIngredient => ingredient !== null);
+
+  return {
+    name: name ?? UNTITLED,
+    format: "mealmaster",
+    servings: servings(yieldText),
+    instructions: stepsFromParagraphs(directions),
+    ingredients,
+  };
+}
+
+/** Every recipe in a MealMaster file; one file often holds a whole collection. */
+export function parseMealMaster(source: string): ImportedRecipe[] {
+  const recipes: ImportedRecipe[] = [];
+  let current: string[] | null = null;
+  for (const line of source.split(/\r?\n/)) {
+    if (MEALMASTER_START.test(line)) {
+      current = [];
+    } else if (current && MEALMASTER_END.test(line)) {
+      recipes.push(parseMealMasterRecipe(current));
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  // A missing end marker still ends the last recipe
+  if (current) recipes.push(parseMealMasterRecipe(current));
+  return recipes;
+}
+
+export function isMealMaster(source: string): boolean {
+  return source.split(/\r?\n/).some((line) => MEALMASTER_START.test(line));
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+// FileReader rather than Blob.arrayBuffer(), which jsdom doesn't implement
+function readFileBytes(file: File): Promise<Bytes> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+async function decompress(bytes: Bytes, format: CompressionFormat): Promise<Bytes> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream(format));
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/** Paprika gzips each recipe; pass anything else through. */
+const gunzipIfNeeded = (bytes: Bytes) =>
+  bytes[0] === 0x1f && bytes[1] === 0x8b ? decompress(bytes, "gzip") : Promise.resolve(bytes);
+
+const decodeText = (bytes: Bytes) => new TextDecoder().decode(bytes);
+
+/**
+ * The files in a zip archive (Paprika and Mela collections). Only stored and
+ * deflated entries are supported, which is all either app writes.
+ */
+async function readZipEntries(bytes: Bytes): Promise<{ name: string; data: Bytes }[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record sits in the last 22 bytes plus any comment
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new RecipeImportError("This archive couldn't be opened");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: { name: string; data: Bytes }[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new RecipeImportError("This archive couldn't be opened");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decodeText(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders and macOS resource forks
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (method !== 0 && method !== 8) throw new RecipeImportError("This archive uses an unsupported compression method");
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    entries.push({ name, data: method === 8 ? await decompress(data, "deflate-raw") : data });
+  }
+  return entries;
+}
+
+function parseRecipeJson(bytes: Bytes, what: string): Record<string, unknown> {
+  const data = parseJson(decodeText(bytes), what);
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new RecipeImportError(`This isn't a valid ${what} file`);
+  }
+  return data as Record<string, unknown>;
+}
+
+async function readFile(file: File): Promise<ImportedRecipe[]> {
+  const fileName = file.name.toLowerCase();
+  const bytes = await readFileBytes(file);
+
+  if (fileName.endsWith(".paprikarecipes")) {
+    const entries = (await readZipEntries(bytes)).filter((entry) => entry.name.toLowerCase().endsWith(".paprikarecipe"));
+    return Promise.all(entries.map(async (entry) => parsePaprikaRecipe(parseRecipeJson(await gunzipIfNeeded(entry.data), "Paprika"))));
+  }
+  if (fileName.endsWith(".paprikarecipe")) {
+    return [parsePaprikaRecipe(parseRecipeJson(await gunzipIfNeeded(bytes), "Paprika"))];
+  }
+  if (fileName.endsWith(".melarecipes")) {
+    const entries = (await readZipEntries(bytes)).filter((entry) => entry.name.toLowerCase().endsWith(".melarecipe"));
+    return entries.map((entry) => parseMelaRecipe(parseRecipeJson(entry.data, "Mela")));
+  }
+  if (fileName.endsWith(".melarecipe")) {
+    return [parseMelaRecipe(parseRecipeJson(bytes, "Mela"))];
+  }
+  if (fileName.endsWith(".cook")) {
+    return [parseCooklang(decodeText(bytes), file.name.replace(/\.cook$/i, ""))];
+  }
+  if (fileName.endsWith(".json") || fileName.endsWith(".jsonld")) {
+    return parseJsonLdRecipes(decodeText(bytes));
+  }
+  if (/\.(mmf|mm|txt)$/.test(fileName)) {
+    const source = decodeText(bytes);
+    if (!isMealMaster(source)) throw new RecipeImportError("No MealMaster recipes found");
+    return parseMealMaster(source);
+  }
+  throw new RecipeImportError("Unsupported file type");
+}
+
+/**
+ * Read every recipe in an exported file, choosing the format by extension.
+ * Throws RecipeImportError with a message to show when the file can't be read.
+ */
+export async function readImportFile(file: File): Promise<ImportedRecipe[]> {
+  let recipes: ImportedRecipe[];
+  try {
+    recipes = await readFile(file);
+  } catch (error) {
+    if (error instanceof RecipeImportError) throw error;
+    console.error("Error reading import file:", error);
+    throw new RecipeImportError("This file couldn't be read");
+  }
+  if (recipes.length === 0) throw new RecipeImportError("No recipes found");
+  return recipes;
+}
+
+// ---------------------------------------------------------------------------
+// Duplicates
+// ---------------------------------------------------------------------------
+
+/** Already in the collection, or earlier in the same import. */
+export type ImportDuplicate = "existing" | "file";
+
+const nameKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+const urlKey = (url: string) =>
+  url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/[?#].*$/, "").replace(/\/+$/, "");
+
+/**
+ * Flag recipes that match an existing recipe, or one earlier in the import,
+ * by link or by name. Returns one entry per recipe, null when it's new.
+ */
+export function findImportDuplicates(
+  recipes: ImportedRecipe[],
+  existing: { name: string; url?: string | null }[]
+): (ImportDuplicate | null)[] {
+  const existingNames = new Set(existing.map((recipe) => nameKey(recipe.name)));
+  const existingUrls = new Set(existing.flatMap((recipe) => (recipe.url ? [urlKey(recipe.url)] : [])));
+  const seenNames = new Set<string>();
+  const seenUrls = new Set<string>();
+
+  return recipes.map((recipe) => {
+    const name = nameKey(recipe.name);
+    const url = recipe.url ? urlKey(recipe.url) : undefined;
+    const duplicate: ImportDuplicate | null =
+      existingNames.has(name) || (url && existingUrls.has(url)) ? "existing"
+        : seenNames.has(name) || (url && seenUrls.has(url)) ? "file"
+          : null;
+    seenNames.add(name);
+    if (url) seenUrls.add(url);
+    return duplicate;
+  });
+}
+
+/** Names and links of the user's recipes, to check an import against. */
+export async function loadExistingRecipes(userId: string): Promise<{ name: string; url: string | null }[]> {
+  try {
+    const { data, error } = await supabase.from("recipes").select("name, url").eq("created_by", userId);
+    if (error) throw error;
+    return data ?? [];
+  } catch (error) {
+    console.error("Error loading recipes for import:", error);
+    return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+/** Nothing structured came with the recipe, only a link to parse. */
+export function needsParse(recipe: ImportedRecipe): boolean {
+  return recipe.ingredients.length === 0 && recipe.instructions.length === 0 && !!recipe.url;
+}
+
+export interface RecipeImportResult {
+  imported: number;
+  /** Names of recipes that couldn't be saved */
+  failed: string[];
+}
+
+/**
+ * Save recipes as the current user's personal recipes, one at a time.
+ * Each recipe is written in a single transaction by the import_recipe RPC;
+ * link-only recipes are then queued for a parse.
+ */
+export async function importRecipes(
+  recipes: ImportedRecipe[],
+  onProgress?: (done: number, total: number) => void
+): Promise<RecipeImportResult> {
+  const result: RecipeImportResult = { imported: 0, failed: [] };
+
+  for (const [index, recipe] of recipes.entries()) {
+    try {
+      const parseLater = needsParse(recipe);
+      const { data: recipeId, error } = await supabase.rpc("import_recipe", {
+        p_name: recipe.name,
+        p_url: recipe.url ?? null,
+        p_ingredients: recipe.ingredients.map((ingredient, sortOrder) => ({
+          name: ingredient.name,
+          quantity: ingredient.quantity ?? null,
+          unit: ingredient.unit ?? null,
+          category: ingredient.category,
+          raw_text: ingredient.rawText ?? null,
+          sort_order: sortOrder,
+        })),
+        p_content: parseLater
+          ? null
+          : {
+              description: recipe.description ?? null,
+              servings: recipe.servings ?? null,
+              prep_time: recipe.prepTime ?? null,
+              cook_time: recipe.cookTime ?? null,
+              total_time: recipe.totalTime ?? null,
+              instructions: recipe.instructions,
+              source_title: recipe.sourceTitle ?? null,
+            },
+      });
+      if (error) throw error;
+      result.imported++;
+
+      if (parseLater) {
+        // The recipe is saved either way; a failed queue just leaves it unparsed
+        await enqueueRecipeParse(recipeId, { recipeName: recipe.name, recipeUrl: recipe.url }).catch((parseError) =>
+          console.error("Error queueing imported recipe parse:", parseError)
+        );
+      }
+    } catch (error) {
+      console.error("Error importing recipe:", error);
+      result.failed.push(recipe.name);
+    }
+    onProgress?.(index + 1, recipes.length);
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  GroceryCategory,
+  IngredientChange,
+  RecipeRevision,
+  RecipeRevisionSource,
+  RevisionContent,
+  RevisionIngredient,
+} from "@/types";
+
+interface IngredientSnapshot {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+  raw_text: string | null;
+}
+
+interface ContentSnapshot {
+  description?: string;
+  servings?: string;
+  prep_time?: string;
+  cook_time?: string;
+  total_time?: string;
+  instructions?: unknown;
+  source_title?: string;
+}
+
+const CONTENT_FIELD_LABELS: Record<keyof RevisionContent, string> = {
+  description: "description",
+  servings: "servings",
+  prepTime: "prep time",
+  cookTime: "cook time",
+  totalTime: "total time",
+  instructions: "instructions",
+  sourceTitle: "source title",
+};
+
+function toRevisionIngredient(row: IngredientSnapshot): RevisionIngredient {
+  return {
+    name: row.name,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit ?? undefined,
+    category: (row.category as GroceryCategory) ?? "other",
+    rawText: row.raw_text ?? undefined,
+  };
+}
+
+function toRevisionContent(snapshot: ContentSnapshot | null): RevisionContent | null {
+  if (!snapshot) return null;
+  return {
+    description: snapshot.description,
+    servings: snapshot.servings,
+    prepTime: snapshot.prep_time,
+    cookTime: snapshot.cook_time,
+    totalTime: snapshot.total_time,
+    instructions: Array.isArray(snapshot.instructions) ? (snapshot.instructions as string[]) : undefined,
+    sourceTitle: snapshot.source_title,
+  };
+}
+
+/** A recipe's revisions, newest first. */
+export async function loadRecipeRevisions(recipeId: string): Promise<RecipeRevision[]> {
+  try {
+    const { data, error } = await supabase
+      .from("recipe_revisions")
+      .select("id, recipe_id, source, ingredients, content, reverted_from, created_at, profiles (name)")
+      .eq("recipe_id", recipeId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    if (!data) return [];
+
+    return data.map((row) => ({
+      id: row.id,
+      recipeId: row.recipe_id,
+      source: row.source as RecipeRevisionSource,
+      changedByName: (row.profiles as { name: string | null } | null)?.name ?? undefined,
+      ingredients: ((row.ingredients as unknown as IngredientSnapshot[] | null) ?? []).map(toRevisionIngredient),
+      content: toRevisionContent(row.content as unknown as ContentSnapshot | null),
+      revertedFrom: row.reverted_from ?? undefined,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error("Error loading recipe revisions:", error);
+    return [];
+  }
+}
+
+/** Restore a revision's ingredients and content. The restore is itself recorded as a revision. */
+export async function revertRecipeRevision(revisionId: string): Promise<void> {
+  const { error } = await supabase.rpc("revert_recipe_revision", { p_revision_id: revisionId });
+  if (error) throw error;
+}
+
+const ingredientKey = (ingredient: RevisionIngredient) => ingredient.name.trim().toLowerCase();
+
+/**
+ * Ingredient-level differences from `before` to `after`, matched by name.
+ * Quantity, unit or category changes on the same name count as "changed";
+ * the order follows `after`, with removals last.
+ */
+export function diffRevisionIngredients(
+  before: RevisionIngredient[],
+  after: RevisionIngredient[]
+): IngredientChange[] {
+  const remaining = new Map<string, RevisionIngredient[]>();
+  for (const ingredient of before) {
+    const key = ingredientKey(ingredient);
+    remaining.set(key, [...(remaining.get(key) ?? []), ingredient]);
+  }
+
+  const changes: IngredientChange[] = [];
+  for (const ingredient of after) {
+    const matches = remaining.get(ingredientKey(ingredient));
+    const previous = matches?.shift();
+    if (!previous) {
+      changes.push({ type: "added", after: ingredient });
+    } else if (
+      previous.quantity !== ingredient.quantity ||
+      (previous.unit ?? "") !== (ingredient.unit ?? "") ||
+      previous.category !== ingredient.category
+    ) {
+      changes.push({ type: "changed", before: previous, after: ingredient });
+    }
+  }
+
+  for (const unmatched of remaining.values()) {
+    for (const ingredient of unmatched) {
+      changes.push({ type: "removed", before: ingredient });
+    }
+  }
+  return changes;
+}
+
+/** Labels of the parsed content fields that differ between two revisions. */
+export function diffRevisionContent(
+  before: RevisionContent | null,
+  after: RevisionContent | null
+): string[] {
+  return (Object.keys(CONTENT_FIELD_LABELS) as (keyof RevisionContent)[])
+    .filter((field) => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+    .map((field) => CONTENT_FIELD_LABELS[field]);
+}
+
+/** "2 cup flour" style text for an ingredient in a diff. */
+export function formatRevisionIngredient(ingredient: RevisionIngredient): string {
+  return [ingredient.quantity, ingredient.unit, ingredient.name].filter((part) => part !== undefined && part !== "").join(" ");
+}
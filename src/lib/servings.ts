@@ -0,0 +1,72 @@
+import type { RecipeIngredient } from "@/types";
+
+/**
+ * Pull a serving count out of the free-text servings field stored on
+ * recipe_content ("4", "Serves 4-6", "Makes 12 cookies"). Ranges use the
+ * lower bound. Returns undefined when no positive number is present.
+ */
+export function parseServings(servings?: string | null): number | undefined {
+  if (!servings) return undefined;
+  const match = servings.match(/(\d+(?:\.\d+)?)/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return value > 0 ? value : undefined;
+}
+
+/** Words that can surround a count of people fed, as opposed to things made. */
+const SERVING_WORDS = new Set([
+  "serves", "serve", "serving", "servings", "size", "people", "person", "persons", "portion", "portions",
+  "yield", "yields", "makes", "feeds", "about", "approx", "approximately", "for", "to", "or",
+]);
+
+/**
+ * Whether a servings field counts servings ("4", "Serves 4-6", "6 portions")
+ * rather than things made ("1 loaf", "Makes 24 cookies").
+ */
+export function isServingCount(servings?: string | null): boolean {
+  if (!servings || parseServings(servings) === undefined) return false;
+  const words = servings.toLowerCase().match(/[a-z]+/g) ?? [];
+  return words.every((word) => SERVING_WORDS.has(word));
+}
+
+/** What a meal plan shops for of one recipe. */
+export interface ServingsTarget {
+  /** Servings across every slot the recipe is planned in. */
+  servings: number;
+  /** Slots the recipe is planned in. */
+  batches: number;
+}
+
+/**
+ * Multiplier for shopping a recipe for a meal plan target. Recipes that state
+ * a serving count scale to the target servings; other yields ("1 loaf",
+ * "Makes 24 cookies") or none are made once per slot, since servings say
+ * nothing about how many loaves a household needs. 1 without a target.
+ */
+export function getYieldScale(servings: string | null | undefined, target: ServingsTarget | undefined): number {
+  if (!target) return 1;
+  if (isServingCount(servings)) return getServingsScale(parseServings(servings), target.servings);
+  return target.batches;
+}
+
+/** Multiplier that turns a recipe's stated servings into the target; 1 when either is unknown. */
+export function getServingsScale(
+  baseServings: number | undefined,
+  targetServings: number | undefined
+): number {
+  if (!baseServings || !targetServings) return 1;
+  return targetServings / baseServings;
+}
+
+/** Scale ingredient quantities by a multiplier, leaving unquantified ingredients as-is. */
+export function scaleIngredients(
+  ingredients: RecipeIngredient[],
+  factor: number
+): RecipeIngredient[] {
+  if (factor === 1) return ingredients;
+  return ingredients.map((ing) =>
+    ing.quantity != null
+      ? { ...ing, quantity: Math.round(ing.quantity * factor * 1000) / 1000 }
+      : ing
+  );
+}
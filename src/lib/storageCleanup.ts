@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { StorageCleanupRun, StorageOrphan } from "@/types";
+
+type StorageCleanupRunRow = Tables<"storage_cleanup_runs">;
+
+// bigint columns may come back from PostgREST as strings
+function toStorageCleanupRun(row: StorageCleanupRunRow): StorageCleanupRun {
+  const orphans = (Array.isArray(row.orphans) ? row.orphans : []) as unknown as {
+    bucket: string;
+    path: string;
+    size: number | string;
+    created_at: string | null;
+  }[];
+
+  return {
+    id: row.id,
+    dryRun: row.dry_run,
+    status: row.status as StorageCleanupRun["status"],
+    scheduled: row.triggered_by === null,
+    scannedCount: row.scanned_count,
+    orphanedCount: row.orphaned_count,
+    orphanedBytes: Number(row.orphaned_bytes),
+    deletedCount: row.deleted_count,
+    reclaimedBytes: Number(row.reclaimed_bytes),
+    orphans: orphans.map(
+      (orphan): StorageOrphan => ({
+        bucket: orphan.bucket,
+        path: orphan.path,
+        size: Number(orphan.size),
+        createdAt: orphan.created_at,
+      })
+    ),
+    error: row.error ?? undefined,
+    startedAt: row.started_at,
+  };
+}
+
+/** The most recent storage cleanup runs, newest first. Admins only. */
+export async function loadStorageCleanupRuns(limit = 10): Promise<StorageCleanupRun[]> {
+  try {
+    const { data, error } = await supabase
+      .from("storage_cleanup_runs")
+      .select("*")
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data ?? []).map(toStorageCleanupRun);
+  } catch (error) {
+    console.error("Error loading storage cleanup runs:", error);
+    return [];
+  }
+}
+
+/**
+ * Reconcile the upload buckets now. A dry run only reports unreferenced
+ * files; otherwise they're deleted. The run is recorded either way.
+ */
+export async function runStorageCleanup(dryRun: boolean): Promise<void> {
+  const { data, error } = await supabase.functions.invoke("cleanup-storage", {
+    body: { dryRun },
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error ?? "Storage cleanup failed");
+}
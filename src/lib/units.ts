@@ -0,0 +1,2 @@
+// Shared with the edge functions; the implementation lives in supabase/functions/_shared
+export * from "../../supabase/functions/_shared/units.ts";
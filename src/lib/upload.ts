@@ -1,8 +1,13 @@
 import { supabase } from "@/integrations/supabase/client";
 import { v4 as uuidv4 } from "uuid";
+import { createThumbnail, getThumbnailPath, isHeicFile, normalizeImage } from "@/lib/imageProcessing";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const BUCKET_NAME = "recipe-images";
+const NOTE_PHOTOS_BUCKET = "recipe-photos";
+
+/** Most pages or photos one recipe can be parsed from. */
+export const MAX_RECIPE_FILES = 6;
 
 export class FileValidationError extends Error {
   constructor(message: string) {
@@ -11,32 +16,106 @@ export class FileValidationError extends Error {
   }
 }
 
-export function validateRecipeFile(file: File): void {
-  const isImage = file.type.startsWith("image/");
+// Phones often hand over HEIC photos without a MIME type
+function validateFileType(file: File): void {
+  const isImage = file.type.startsWith("image/") || isHeicFile(file);
   const isPdf = file.type === "application/pdf";
   if (!isImage && !isPdf) {
     throw new FileValidationError("Please select an image or PDF file");
   }
+}
+
+export function validateRecipeFile(file: File): void {
+  validateFileType(file);
   if (file.size > MAX_FILE_SIZE) {
     throw new FileValidationError("File is too large (max 5MB)");
   }
 }
 
-export async function uploadRecipeFile(file: File): Promise<string> {
-  validateRecipeFile(file);
+/** Normalize a photo in the browser, then check the result is small enough to upload. */
+async function prepareFile(file: File): Promise<File> {
+  validateFileType(file);
+  const prepared = await normalizeImage(file);
+  validateRecipeFile(prepared);
+  return prepared;
+}
 
+/**
+ * Upload a prepared file under `folder` with a thumbnail next to it, returning
+ * the file's public URL. A failed thumbnail isn't fatal: lists fall back to
+ * the full-size file.
+ */
+async function uploadWithThumbnail(bucket: string, folder: string, file: File): Promise<string> {
   const fileExt = file.name.split(".").pop();
-  const fileName = `${uuidv4()}.${fileExt}`;
+  const filePath = `${folder}${uuidv4()}.${fileExt}`;
 
   const { error: uploadError } = await supabase.storage
-    .from(BUCKET_NAME)
-    .upload(fileName, file);
+    .from(bucket)
+    .upload(filePath, file, { contentType: file.type || undefined });
 
   if (uploadError) throw uploadError;
 
+  try {
+    const thumbnail = await createThumbnail(file);
+    if (thumbnail) {
+      const { error: thumbnailError } = await supabase.storage
+        .from(bucket)
+        .upload(getThumbnailPath(filePath), thumbnail, { contentType: thumbnail.type });
+      if (thumbnailError) throw thumbnailError;
+    }
+  } catch (error) {
+    console.error("Error uploading thumbnail:", error);
+  }
+
   const {
     data: { publicUrl },
-  } = supabase.storage.from(BUCKET_NAME).getPublicUrl(fileName);
+  } = supabase.storage.from(bucket).getPublicUrl(filePath);
 
   return publicUrl;
 }
+
+/**
+ * Upload several pages or photos of one recipe, returning their URLs in the
+ * order given. Every file is checked and normalized before any upload starts.
+ */
+export async function uploadRecipeFiles(files: File[]): Promise<string[]> {
+  if (files.length > MAX_RECIPE_FILES) {
+    throw new FileValidationError(`A recipe can have at most ${MAX_RECIPE_FILES} files`);
+  }
+  files.forEach(validateFileType);
+
+  // One at a time: decoding several full-size photos at once is heavy on phones
+  const prepared: File[] = [];
+  for (const file of files) {
+    prepared.push(await prepareFile(file));
+  }
+  return Promise.all(prepared.map((file) => uploadWithThumbnail(BUCKET_NAME, "", file)));
+}
+
+/** Upload a photo or PDF attached to a recipe note. */
+export async function uploadNotePhoto(file: File): Promise<string> {
+  return uploadWithThumbnail(NOTE_PHOTOS_BUCKET, `${NOTE_PHOTOS_BUCKET}/`, await prepareFile(file));
+}
+
+/** Path within `bucket` of a file from its public URL, or null for files stored elsewhere. */
+function storagePath(bucket: string, url: string): string | null {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const start = url.indexOf(marker);
+  if (start === -1) return null;
+  return decodeURIComponent(url.slice(start + marker.length).split(/[?#]/)[0]);
+}
+
+/**
+ * Delete a note photo uploaded by uploadNotePhoto, along with its thumbnail.
+ * A failed delete is only logged: storage cleanup reclaims the file later.
+ */
+export async function removeNotePhoto(url: string): Promise<void> {
+  const filePath = storagePath(NOTE_PHOTOS_BUCKET, url);
+  if (!filePath) return;
+
+  const { error } = await supabase.storage
+    .from(NOTE_PHOTOS_BUCKET)
+    .remove([filePath, getThumbnailPath(filePath)]);
+  if (error) console.error("Error deleting from storage:", error);
+}
+
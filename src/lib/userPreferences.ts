@@ -1,4 +1,4 @@
-import type { UserPreferences } from "@/types";
+import type { AiProviderName, AiRequestOptions, MemberDietaryRestrictions, UserPreferences } from "@/types";
 import { supabase } from "@/integrations/supabase/client";
 import { isDevMode } from "@/lib/devMode";
 
@@ -8,28 +8,44 @@ const db = supabase as any;
 
 const DEFAULT_AI_MODEL = isDevMode() ? "claude-haiku-4-5-20251001" : "claude-sonnet-4-6";
 
+const AI_PROVIDERS: AiProviderName[] = ["anthropic", "openai", "stub"];
+
 const DEFAULT_PREFERENCES: UserPreferences = {
   mealTypes: ["breakfast", "lunch", "dinner"],
   weekStartDay: 0,
   householdSize: 2,
+  aiProvider: "anthropic",
   aiModel: DEFAULT_AI_MODEL,
+  dietaryRestrictions: [],
+  cuisinePreferences: [],
+  dislikedIngredients: [],
+  cookingSkill: "intermediate",
+  maxCookTimeMinutes: 60,
 };
 
 // Module-level cache so any call site can get the loaded model synchronously.
 // Falls back to the env-aware default until preferences are loaded.
 let _aiModelCache: string = DEFAULT_AI_MODEL;
+let _aiProviderCache: AiProviderName = DEFAULT_PREFERENCES.aiProvider;
 
 export function getCachedAiModel(): string {
   return _aiModelCache;
 }
 
+/** Provider and model to send with AI edge function calls. */
+export function getCachedAiOptions(): AiRequestOptions {
+  return { provider: _aiProviderCache, model: _aiModelCache };
+}
+
 export async function loadUserPreferences(
   userId: string
 ): Promise<UserPreferences> {
   try {
     const { data, error } = await db
       .from("user_preferences")
-      .select("meal_types, week_start_day, household_size, ai_model_parse")
+      .select(
+        "meal_types, week_start_day, household_size, ai_provider, ai_model_parse, dietary_restrictions, cuisine_preferences, disliked_ingredients, cooking_skill, max_cook_time_minutes"
+      )
       .eq("user_id", userId)
       .maybeSingle();
 
@@ -47,12 +63,32 @@ export async function loadUserPreferences(
         typeof row.household_size === "number"
           ? row.household_size
           : DEFAULT_PREFERENCES.householdSize,
+      // A saved stub choice falls back to the default outside dev mode
+      aiProvider: AI_PROVIDERS.includes(row.ai_provider as AiProviderName) &&
+        (row.ai_provider !== "stub" || isDevMode())
+        ? (row.ai_provider as AiProviderName)
+        : DEFAULT_PREFERENCES.aiProvider,
       aiModel:
         typeof row.ai_model_parse === "string"
           ? row.ai_model_parse
           : DEFAULT_PREFERENCES.aiModel,
+      dietaryRestrictions:
+        (row.dietary_restrictions as string[]) ?? DEFAULT_PREFERENCES.dietaryRestrictions,
+      cuisinePreferences:
+        (row.cuisine_preferences as string[]) ?? DEFAULT_PREFERENCES.cuisinePreferences,
+      dislikedIngredients:
+        (row.disliked_ingredients as string[]) ?? DEFAULT_PREFERENCES.dislikedIngredients,
+      cookingSkill:
+        typeof row.cooking_skill === "string"
+          ? row.cooking_skill
+          : DEFAULT_PREFERENCES.cookingSkill,
+      maxCookTimeMinutes:
+        typeof row.max_cook_time_minutes === "number"
+          ? row.max_cook_time_minutes
+          : DEFAULT_PREFERENCES.maxCookTimeMinutes,
     };
     _aiModelCache = prefs.aiModel;
+    _aiProviderCache = prefs.aiProvider;
     return prefs;
   } catch (error) {
     console.error("Error loading user preferences:", error);
@@ -71,8 +107,14 @@ export async function saveUserPreferences(
         meal_types: preferences.mealTypes,
         week_start_day: preferences.weekStartDay,
         household_size: preferences.householdSize,
+        ai_provider: preferences.aiProvider,
         ai_model_parse: preferences.aiModel,
         ai_model_combine: preferences.aiModel,
+        dietary_restrictions: preferences.dietaryRestrictions,
+        cuisine_preferences: preferences.cuisinePreferences,
+        disliked_ingredients: preferences.dislikedIngredients,
+        cooking_skill: preferences.cookingSkill,
+        max_cook_time_minutes: preferences.maxCookTimeMinutes,
         updated_at: new Date().toISOString(),
       },
       { onConflict: "user_id" }
@@ -80,8 +122,31 @@ export async function saveUserPreferences(
 
     if (error) throw error;
     _aiModelCache = preferences.aiModel;
+    _aiProviderCache = preferences.aiProvider;
   } catch (error) {
     console.error("Error saving user preferences:", error);
     throw error;
   }
 }
+
+/** Dietary restrictions of every member of a club who has set any, for event-time checks. */
+export async function loadClubDietaryRestrictions(clubId: string): Promise<MemberDietaryRestrictions[]> {
+  try {
+    const { data, error } = await db.rpc("get_club_dietary_restrictions", { p_club_id: clubId });
+    if (error) throw error;
+
+    const rows = (data ?? []) as Array<{
+      user_id: string;
+      name: string;
+      dietary_restrictions: string[] | null;
+    }>;
+    return rows.map((row) => ({
+      userId: row.user_id,
+      name: row.name,
+      restrictions: row.dietary_restrictions ?? [],
+    }));
+  } catch (error) {
+    console.error("Error loading club dietary restrictions:", error);
+    return [];
+  }
+}
@@ -0,0 +1,56 @@
+import type { Ingredient, SpinMode } from "@/types";
+
+export const SPIN_MODES: { value: SpinMode; label: string; description: string }[] = [
+  { value: "uniform", label: "Uniform", description: "Every ingredient has the same chance." },
+  { value: "weighted", label: "Weighted", description: "Rarely used ingredients are more likely." },
+  { value: "cooldown", label: "Cooldown", description: "Skips ingredients from recent events." },
+];
+
+export const DEFAULT_SPIN_MODE: SpinMode = "uniform";
+
+interface SpinOddsOptions {
+  /** Ingredient IDs picked in recent events, excluded in cooldown mode */
+  recentIngredientIds?: string[];
+  /** Index of the previous pick this session, avoided when anything else is possible */
+  excludeIndex?: number | null;
+}
+
+/**
+ * Probability of landing on each ingredient (same order as the input) for a
+ * spin mode. Weighted mode scales by 1 / (1 + usedCount). Cooldown mode falls
+ * back to uniform odds when every ingredient is cooling down.
+ */
+export function getSpinOdds(
+  ingredients: Ingredient[],
+  mode: SpinMode,
+  { recentIngredientIds = [], excludeIndex = null }: SpinOddsOptions = {}
+): number[] {
+  let weights = ingredients.map((ingredient) => {
+    if (mode === "weighted") return 1 / (1 + Math.max(0, ingredient.usedCount));
+    if (mode === "cooldown" && recentIngredientIds.includes(ingredient.id)) return 0;
+    return 1;
+  });
+  if (weights.every((w) => w === 0)) weights = ingredients.map(() => 1);
+
+  if (excludeIndex != null && weights.some((w, i) => w > 0 && i !== excludeIndex)) {
+    weights = weights.map((w, i) => (i === excludeIndex ? 0 : w));
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? weights.map((w) => w / total) : weights;
+}
+
+/** Pick an index according to the given odds. `random` must return a value in [0, 1). */
+export function pickSpinIndex(odds: number[], random: () => number = Math.random): number {
+  const target = random();
+  let cumulative = 0;
+  for (let i = 0; i < odds.length; i++) {
+    cumulative += odds[i];
+    if (target < cumulative && odds[i] > 0) return i;
+  }
+  // Floating-point leftovers land on the last possible ingredient
+  for (let i = odds.length - 1; i >= 0; i--) {
+    if (odds[i] > 0) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,308 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { BookOpen, ChefHat, ChevronLeft, ChevronRight, Loader2, Pause, Play, Timer, X } from "lucide-react";
+import { toast } from "sonner";
+import type { RecipeIngredient } from "@/types";
+import { decimalToFraction } from "@/lib/groceryList";
+import {
+  clearCookProgress,
+  createCookTimer,
+  findStepDurations,
+  findStepIngredients,
+  formatTimer,
+  getTimerRemaining,
+  loadCookModeRecipe,
+  loadCookProgress,
+  saveCookProgress,
+  toggleCookTimer,
+  type CookModeRecipe,
+  type CookTimer,
+  type StepDuration,
+} from "@/lib/cookMode";
+
+const formatIngredient = (ingredient: RecipeIngredient) => {
+  if (ingredient.rawText) return ingredient.rawText;
+  const quantity = ingredient.quantity != null ? decimalToFraction(ingredient.quantity) : "";
+  return [quantity, ingredient.unit, ingredient.name].filter(Boolean).join(" ");
+};
+
+/** Keep the screen on while cooking; browsers drop the lock when the tab is hidden, so take it again on return. */
+const useScreenWakeLock = () => {
+  useEffect(() => {
+    if (!("wakeLock" in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+
+    const acquire = async () => {
+      try {
+        const sentinel = await navigator.wakeLock.request("screen");
+        if (released) {
+          sentinel.release();
+        } else {
+          lock = sentinel;
+        }
+      } catch {
+        // Denied (battery saver, unsupported context) — cooking still works
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") acquire();
+    };
+
+    acquire();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      lock?.release();
+    };
+  }, []);
+};
+
+const CookModePage = () => {
+  const { recipeId } = useParams<{ recipeId: string }>();
+  const navigate = useNavigate();
+  const [recipe, setRecipe] = useState<CookModeRecipe | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useScreenWakeLock();
+
+  useEffect(() => {
+    if (!recipeId) return;
+    let cancelled = false;
+    loadCookModeRecipe(recipeId).then((loaded) => {
+      if (cancelled) return;
+      const saved = loadCookProgress(recipeId);
+      if (loaded && saved) {
+        setStepIndex(Math.min(Math.max(saved.stepIndex, 0), Math.max(loaded.instructions.length - 1, 0)));
+        setTimers(saved.timers);
+      }
+      setRecipe(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeId]);
+
+  useEffect(() => {
+    if (!recipe) return;
+    saveCookProgress(recipe.id, { stepIndex, timers });
+  }, [recipe, stepIndex, timers]);
+
+  const hasRunningTimer = timers.some((timer) => timer.endsAt !== null);
+
+  const timersRef = useRef(timers);
+  useEffect(() => {
+    timersRef.current = timers;
+  }, [timers]);
+
+  // Tick once a second while anything is running. Timers that reach zero
+  // ring and stay on screen as done until dismissed.
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      const finished = timersRef.current.filter((timer) => timer.endsAt !== null && timer.endsAt <= current);
+      if (finished.length === 0) return;
+      for (const timer of finished) {
+        toast.success(`Timer done: ${timer.label} (step ${timer.stepIndex + 1})`, { duration: 10000 });
+      }
+      navigator.vibrate?.([300, 150, 300]);
+      const finishedIds = new Set(finished.map((timer) => timer.id));
+      setTimers((previous) => previous.map((timer) =>
+        finishedIds.has(timer.id) ? { ...timer, endsAt: null, remainingSeconds: 0 } : timer
+      ));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  const stepCount = recipe?.instructions.length ?? 0;
+
+  const goToStep = useCallback((index: number) => {
+    setStepIndex(Math.min(Math.max(index, 0), Math.max(stepCount - 1, 0)));
+  }, [stepCount]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowRight") goToStep(stepIndex + 1);
+      if (event.key === "ArrowLeft") goToStep(stepIndex - 1);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goToStep, stepIndex]);
+
+  const startTimer = (duration: StepDuration) => {
+    setTimers((previous) => [...previous, createCookTimer(duration, stepIndex)]);
+  };
+
+  const toggleTimer = (id: string) => {
+    setTimers((previous) => previous.map((timer) => (timer.id === id ? toggleCookTimer(timer) : timer)));
+  };
+
+  const dismissTimer = (id: string) => {
+    setTimers((previous) => previous.filter((timer) => timer.id !== id));
+  };
+
+  const handleFinish = () => {
+    if (!recipe) return;
+    clearCookProgress(recipe.id);
+    navigate(`/recipes/${recipe.id}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-purple" />
+      </div>
+    );
+  }
+
+  if (!recipe || stepCount === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4">
+        <BookOpen className="h-12 w-12 text-muted-foreground" />
+        <h1 className="text-xl font-semibold">{recipe ? "No steps to cook from" : "Recipe not found"}</h1>
+        <p className="text-muted-foreground text-center">
+          {recipe
+            ? "This recipe hasn't been parsed into steps yet."
+            : "This recipe link may be invalid or the recipe has been removed."}
+        </p>
+        <Link to={recipe ? `/recipes/${recipe.id}` : "/"}>
+          <Button variant="outline">{recipe ? "Back to recipe" : "Go to Recipe Club"}</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const step = recipe.instructions[stepIndex];
+  const durations = findStepDurations(step);
+  const stepIngredients = findStepIngredients(step, recipe.ingredients);
+  const isLastStep = stepIndex === stepCount - 1;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#f5f5f3]">
+      <header className="px-4 sm:px-6 py-3 flex items-center gap-3 border-b bg-white">
+        <ChefHat className="h-5 w-5 text-purple shrink-0" />
+        <h1 className="font-display font-semibold truncate flex-1">{recipe.name}</h1>
+        <Link
+          to={`/recipes/${recipe.id}`}
+          className="inline-flex items-center justify-center h-9 w-9 rounded-lg hover:bg-black/5 shrink-0"
+          aria-label="Exit cook mode"
+        >
+          <X className="h-5 w-5" />
+        </Link>
+      </header>
+
+      <div className="h-1.5 bg-purple/10">
+        <div
+          className="h-full bg-purple transition-all"
+          style={{ width: `${((stepIndex + 1) / stepCount) * 100}%` }}
+        />
+      </div>
+
+      <main className="flex-1 w-full max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-10 flex flex-col gap-6">
+        <p className="text-sm font-semibold uppercase tracking-widest text-purple">
+          Step {stepIndex + 1} of {stepCount}
+        </p>
+        <p className="text-2xl sm:text-4xl leading-snug font-medium">{step}</p>
+
+        {durations.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {durations.map((duration, index) => (
+              <Button
+                key={`${index}-${duration.label}`}
+                variant="outline"
+                size="lg"
+                className="border-purple text-purple"
+                onClick={() => startTimer(duration)}
+              >
+                <Timer className="h-5 w-5 mr-2" />
+                Start {duration.label} timer
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {stepIngredients.length > 0 && (
+          <section>
+            <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground mb-2">
+              Uses
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {stepIngredients.map((ingredient) => (
+                <li key={ingredient.id} className="text-base sm:text-lg bg-white border rounded-full px-3 py-1">
+                  {formatIngredient(ingredient)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+
+      {timers.length > 0 && (
+        <section aria-label="Timers" className="w-full max-w-3xl mx-auto px-4 sm:px-6 pb-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {timers.map((timer) => {
+            const remaining = getTimerRemaining(timer, now);
+            const isDone = timer.endsAt === null && timer.remainingSeconds === 0;
+            return (
+              <div
+                key={timer.id}
+                className={`flex items-center gap-3 rounded-xl border px-4 py-3 ${isDone ? "bg-green-50 border-green-300" : "bg-white"}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-muted-foreground truncate">
+                    Step {timer.stepIndex + 1} · {timer.label}
+                  </p>
+                  <p className="text-2xl font-mono tabular-nums">{isDone ? "Done" : formatTimer(remaining)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0"
+                  aria-label={`${timer.endsAt !== null ? "Pause" : isDone ? "Restart" : "Resume"} ${timer.label} timer`}
+                  onClick={() => toggleTimer(timer.id)}
+                >
+                  {timer.endsAt !== null ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0"
+                  aria-label={`Dismiss ${timer.label} timer`}
+                  onClick={() => dismissTimer(timer.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </section>
+      )}
+
+      <footer className="px-4 sm:px-6 py-4 border-t bg-white flex items-center justify-between gap-3">
+        <Button variant="outline" size="lg" onClick={() => goToStep(stepIndex - 1)} disabled={stepIndex === 0}>
+          <ChevronLeft className="h-5 w-5 mr-1" />
+          Previous
+        </Button>
+        {isLastStep ? (
+          <Button size="lg" className="bg-purple hover:bg-purple-dark" onClick={handleFinish}>
+            Finish
+          </Button>
+        ) : (
+          <Button size="lg" className="bg-purple hover:bg-purple-dark" onClick={() => goToStep(stepIndex + 1)}>
+            Next
+            <ChevronRight className="h-5 w-5 ml-1" />
+          </Button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default CookModePage;
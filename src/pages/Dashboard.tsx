@@ -1,8 +1,9 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { getCurrentUser, signOut, getAllowedUser, isAdmin, isMemberOrAdmin } from "@/lib/auth";
-import type { User, Ingredient, ScheduledEvent } from "@/types";
+import type { User, Ingredient, ScheduledEvent, Club } from "@/types";
 import { supabase } from "@/integrations/supabase/client";
+import { getActiveClubId, loadUserClubs, resolveActiveClub, setActiveClubId } from "@/lib/clubs";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -35,15 +36,21 @@ const Dashboard = () => {
   const [isEventLoading, setIsEventLoading] = useState(false);
   const [completedEventsCount, setCompletedEventsCount] = useState(0);
   const [userRecipesCount, setUserRecipesCount] = useState(0);
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [activeClub, setActiveClub] = useState<Club | null>(null);
   const activeTab: TabValue = VALID_TABS.includes(tab as TabValue) ? (tab as TabValue) : "home";
 
   const loadActiveEvent = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("scheduled_events")
         .select("*, ingredients (name)")
         .eq("type", "club")
-        .eq("status", "scheduled")
+        .eq("status", "scheduled");
+      const clubId = getActiveClubId();
+      if (clubId) query = query.eq("club_id", clubId);
+
+      const { data, error } = await query
         .order("event_date", { ascending: true })
         .limit(1)
         .maybeSingle();
@@ -70,42 +77,59 @@ const Dashboard = () => {
     }
   };
 
+  const loadAccess = async (currentUser: User) => {
+    // Check if user is in allowed_users table (role and membership follow the active club)
+    const allowed = await getAllowedUser(currentUser.email);
+    setIsAllowed(allowed !== null);
+    setUserIsAdmin(isAdmin(allowed));
+    setUserIsMemberOrAdmin(isMemberOrAdmin(allowed));
+    setUserIsClubMember(allowed?.is_club_member ?? false);
+    if (allowed && currentUser.id) {
+      loadStats(currentUser.id, allowed?.is_club_member ?? false);
+    }
+  };
+
   useEffect(() => {
     const loadUser = async () => {
       const currentUser = await getCurrentUser();
       setUser(currentUser);
 
       if (currentUser?.email) {
-        // Check if user is in allowed_users table
-        const allowed = await getAllowedUser(currentUser.email);
-        setIsAllowed(allowed !== null);
-        setUserIsAdmin(isAdmin(allowed));
-        setUserIsMemberOrAdmin(isMemberOrAdmin(allowed));
-        setUserIsClubMember(allowed?.is_club_member ?? false);
-        if (allowed && currentUser.id) {
-          loadStats(currentUser.id, allowed?.is_club_member ?? false);
-        }
+        // Resolve the active club first — access checks and club queries are scoped to it
+        const userClubs = await loadUserClubs(currentUser.email);
+        setClubs(userClubs);
+        setActiveClub(resolveActiveClub(userClubs));
+        await loadAccess(currentUser);
       } else {
         setIsAllowed(false);
       }
 
       setIsLoading(false);
+      loadActiveEvent();
     };
 
     loadUser();
-    loadActiveEvent();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const handleClubChange = async (club: Club) => {
+    setActiveClubId(club.id);
+    setActiveClub(club);
+    if (user?.email) await loadAccess(user);
+    loadActiveEvent();
+  };
+
   const handleSignOut = async () => {
     await signOut();
   };
 
   const loadIngredients = async () => {
     try {
-      const { data, error } = await supabase
-        .from("ingredients")
-        .select("*")
-        .order("created_at", { ascending: true });
+      let query = supabase.from("ingredients").select("*");
+      const clubId = getActiveClubId();
+      if (clubId) query = query.eq("club_id", clubId);
+
+      const { data, error } = await query.order("created_at", { ascending: true });
 
       if (error) throw error;
 
@@ -130,16 +154,24 @@ const Dashboard = () => {
   const loadStats = async (userId: string, isClubMember = true) => {
     try {
       if (isClubMember) {
+        const clubId = getActiveClubId();
+        let eventsQuery = supabase
+          .from("scheduled_events")
+          .select("*", { count: "exact", head: true })
+          .eq("type", "club")
+          .in("status", ["scheduled", "completed"]);
+        let clubRecipesQuery = supabase
+          .from("recipes")
+          .select("id, scheduled_events!event_id (type)")
+          .not("event_id", "is", null);
+        if (clubId) {
+          eventsQuery = eventsQuery.eq("club_id", clubId);
+          clubRecipesQuery = clubRecipesQuery.eq("club_id", clubId);
+        }
+
         const [eventsResult, clubRecipesResult, personalRecipesResult] = await Promise.all([
-          supabase
-            .from("scheduled_events")
-            .select("*", { count: "exact", head: true })
-            .eq("type", "club")
-            .in("status", ["scheduled", "completed"]),
-          supabase
-            .from("recipes")
-            .select("id, scheduled_events!event_id (type)")
-            .not("event_id", "is", null),
+          eventsQuery,
+          clubRecipesQuery,
           supabase
             .from("recipes")
             .select("id, event_id, scheduled_events!event_id (type)")
@@ -228,10 +260,18 @@ const Dashboard = () => {
       <AppHeader
         user={user}
         userIsMemberOrAdmin={userIsMemberOrAdmin}
+        clubs={clubs}
+        activeClubId={activeClub?.id}
+        onClubChange={handleClubChange}
         title={
-          <h1 className="font-display text-lg sm:text-2xl font-bold text-gray-900">
-            Recipe Club Hub
-          </h1>
+          <div className="min-w-0">
+            <h1 className="font-display text-lg sm:text-2xl font-bold text-gray-900">
+              Recipe Club Hub
+            </h1>
+            {clubs.length > 1 && activeClub && (
+              <p className="text-xs text-muted-foreground truncate">{activeClub.name}</p>
+            )}
+          </div>
         }
         headerContent={
           <div className="hidden md:flex items-center gap-4 text-sm">
@@ -273,7 +313,8 @@ const Dashboard = () => {
       />
 
       {/* Main Content */}
-      <main className="container mx-auto px-3 sm:px-4 py-3 sm:py-4 md:py-8">
+      {/* Keyed by club so every section reloads its club-scoped data on switch */}
+      <main key={activeClub?.id ?? "no-club"} className="container mx-auto px-3 sm:px-4 py-3 sm:py-4 md:py-8">
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
           <TabsList className="grid w-full max-w-lg mx-auto mb-4 md:mb-8 grid-cols-4 bg-white/80 border border-purple/10 shadow-sm p-1.5 rounded-xl !h-auto">
               <TabsTrigger value="home" className="py-2 sm:py-2.5 flex flex-col sm:flex-row items-center justify-center gap-0.5 sm:gap-2 data-[state=active]:bg-purple data-[state=active]:text-white data-[state=active]:shadow-none rounded-md">
@@ -1,11 +1,12 @@
 import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { getCurrentUser, getAllowedUser, isAdmin, isMemberOrAdmin } from "@/lib/auth";
-import type { User, Recipe, RecipeRatingsSummary } from "@/types";
+import type { User, Recipe, RecipeRatingsSummary, MemberDietaryRestrictions } from "@/types";
 import { useRecipeNotes } from "@/hooks/useRecipeNotes";
 import { useGroceryList } from "@/hooks/useGroceryList";
+import { useRecipeParse } from "@/hooks/useRecipeParse";
 import { supabase } from "@/integrations/supabase/client";
-import { getCachedAiModel } from "@/lib/userPreferences";
+import { loadClubDietaryRestrictions } from "@/lib/userPreferences";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -51,13 +52,19 @@ import { saveRecipeEdit } from "@/lib/recipeActions";
 import { isDevMode } from "@/lib/devMode";
 import EventRatingDialog from "@/components/events/EventRatingDialog";
 import EventRecipesTab from "@/components/events/EventRecipesTab";
+import EventAllergenSummary from "@/components/events/EventAllergenSummary";
 import type { EventRecipeWithRatings } from "@/components/events/EventRecipesTab";
 import { getIngredientColor, getLightBackgroundColor, getBorderColor, getDarkerTextColor } from "@/lib/ingredientColors";
 import GroceryListSection from "@/components/recipes/GroceryListSection";
 import PantryDialog from "@/components/pantry/PantryDialog";
 import PantrySection from "@/components/pantry/PantrySection";
 import RecipeParseProgress from "@/components/recipes/RecipeParseProgress";
-import RecipeInputForm, { createInitialFormData, canSubmitRecipeForm, type RecipeFormData } from "@/components/recipes/RecipeInputForm";
+import RecipeInputForm, {
+  createInitialFormData,
+  canSubmitRecipeForm,
+  getRecipeSourceFiles,
+  type RecipeFormData,
+} from "@/components/recipes/RecipeInputForm";
 
 interface EventData {
   eventId: string;
@@ -68,6 +75,7 @@ interface EventData {
   ingredientName?: string;
   ingredientColor?: string;
   createdBy?: string;
+  clubId?: string;
   recipesWithNotes: EventRecipeWithRatings[];
   participantCount: number;
 }
@@ -83,6 +91,7 @@ const EventDetailPage = () => {
   const [userIsAdmin, setUserIsAdmin] = useState(false);
   const [userIsMemberOrAdmin, setUserIsMemberOrAdmin] = useState(false);
   const [userIsMember, setUserIsMember] = useState(false);
+  const [memberRestrictions, setMemberRestrictions] = useState<MemberDietaryRestrictions[]>([]);
 
   // Add Recipe form state
   const [showAddForm, setShowAddForm] = useState(false);
@@ -138,10 +147,44 @@ const EventDetailPage = () => {
   const [ratingDialogMode, setRatingDialogMode] = useState<"completing" | "rating">("completing");
   const [ratingRecipes, setRatingRecipes] = useState<EventRecipeWithRatings[] | null>(null);
 
-  // Parse-on-add state
-  const [parseStatus, setParseStatus] = useState<"idle" | "parsing" | "failed">("idle");
-  const [pendingRecipeId, setPendingRecipeId] = useState<string | null>(null);
-  const [parseStep, setParseStep] = useState<"saving" | "parsing" | "loading" | "notifying" | "done">("saving");
+  // Parse-on-add (shared hook; the parse runs as a background job)
+  const closeAddForm = () => {
+    setRecipeFormData(createInitialFormData());
+    setShowAddForm(false);
+  };
+  const {
+    parseStatus,
+    parseStep,
+    parseJob,
+    startParse,
+    handleRetry: handleRetryParse,
+    handleKeep: handleKeepRecipeAnyway,
+    handleDismiss: handleDismissParse,
+    handleDiscard: handleDiscardRecipe,
+  } = useRecipeParse({
+    onLoad: async () => {
+      // grocery hook auto-detects recipe changes
+      await loadEventData();
+      grocery.refreshGroceries();
+    },
+    onNotify: () =>
+      sendRecipeNotification(
+        "added",
+        recipeFormData.name.trim(),
+        recipeFormData.inputMode === "manual" ? "" : recipeFormData.url.trim()
+      ),
+    onSuccess: closeAddForm,
+    onKeep: () => {
+      closeAddForm();
+      loadEventData();
+      grocery.refreshGroceries();
+    },
+    onDiscard: () => {
+      closeAddForm();
+      loadEventData();
+      toast.success("Recipe discarded");
+    },
+  });
 
   // Pantry dialog state
   const [showPantryDialog, setShowPantryDialog] = useState(false);
@@ -191,7 +234,8 @@ const EventDetailPage = () => {
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
-  const loadEventData = async () => {
+  /** Loads the event and its recipes; resolves to the event's club ID. */
+  const loadEventData = async (): Promise<string | undefined> => {
     if (!eventId) return;
 
     try {
@@ -348,9 +392,11 @@ const EventDetailPage = () => {
         ingredientName: ingredientName || undefined,
         ingredientColor,
         createdBy: eventData.created_by || undefined,
+        clubId: eventData.club_id || undefined,
         recipesWithNotes,
         participantCount: uniqueUsers.size,
       });
+      return eventData.club_id || undefined;
     } catch (error) {
       console.error("Error loading event:", error);
       setNotFound(true);
@@ -370,7 +416,8 @@ const EventDetailPage = () => {
         setUserIsMemberOrAdmin(isMemberOrAdmin(allowed));
       }
 
-      await loadEventData();
+      const clubId = await loadEventData();
+      if (clubId) loadClubDietaryRestrictions(clubId).then(setMemberRestrictions);
       setIsLoading(false);
     };
 
@@ -401,6 +448,7 @@ const EventDetailPage = () => {
           ingredientName: event?.ingredientName,
           eventDate: event?.eventDate,
           excludeUserId: user?.id,
+          clubId: event?.clubId,
         },
       });
 
@@ -419,10 +467,7 @@ const EventDetailPage = () => {
       return;
     }
 
-    setParseStep("saving");
-    setParseStatus("parsing");
     setIsSubmitting(true);
-    let insertedRecipeId: string | null = null;
     try {
       // Create new recipe with event_id and ingredient_id, returning the new ID
       const { data: insertedRecipe, error: recipeError } = await supabase
@@ -430,158 +475,35 @@ const EventDetailPage = () => {
         .insert({
           name: recipeFormData.name.trim(),
           url: recipeFormData.inputMode === "manual" ? null : (recipeFormData.url.trim() || null),
+          source_files: getRecipeSourceFiles(recipeFormData),
           event_id: event.eventId,
           ingredient_id: event.ingredientId,
           created_by: user.id,
+          club_id: event.clubId ?? null,
         })
         .select()
         .single();
 
       if (recipeError) throw recipeError;
 
-      const newRecipeId = insertedRecipe.id;
-      insertedRecipeId = newRecipeId;
-      setPendingRecipeId(newRecipeId);
-
       setIsSubmitting(false);
 
-      const savedRecipeName = recipeFormData.name.trim();
-      const savedRecipeUrl = recipeFormData.inputMode === "manual" ? "" : recipeFormData.url.trim();
-
-      if (recipeFormData.inputMode === "manual") {
-        // Manual mode: parse pasted text via unified parse-recipe (saves to DB automatically)
-        setParseStep("parsing");
-        const { data: parseData, error: parseError } = await supabase.functions.invoke("parse-recipe", {
-          body: { recipeId: newRecipeId, recipeName: savedRecipeName, text: recipeFormData.pasteText, model: getCachedAiModel() },
-        });
-        if (parseError) throw parseError;
-        if (!parseData?.success) throw new Error(parseData?.error ?? "Failed to parse ingredients");
-
-        // Loading step: reload event data (grocery hook auto-detects recipe changes)
-        setParseStep("loading");
-        await loadEventData();
-        grocery.refreshGroceries();
-
-        setParseStep("notifying");
-        await sendRecipeNotification("added", savedRecipeName, savedRecipeUrl);
-        await new Promise(resolve => setTimeout(resolve, 200));
-
-        setParseStep("done");
-        await new Promise(resolve => setTimeout(resolve, 2500));
-
-        setParseStatus("idle");
-
-        setPendingRecipeId(null);
-        setRecipeFormData(createInitialFormData());
-        setShowAddForm(false);
-        setParseStep("saving");
-      } else {
-        // URL/Upload mode: parse via edge function
-        setParseStep("parsing");
-
-        try {
-          const { data: parseData, error: parseError } = await supabase.functions.invoke("parse-recipe", {
-            body: { recipeId: newRecipeId, recipeUrl: savedRecipeUrl, recipeName: savedRecipeName, model: getCachedAiModel() },
-          });
-
-          if (parseError) throw parseError;
-          if (!parseData?.success) throw new Error(parseData?.error ?? "Failed to parse recipe");
-
-          // Loading step: reload event data (grocery hook auto-detects recipe changes)
-          setParseStep("loading");
-          await loadEventData();
-          grocery.refreshGroceries();
-
-          // Notifying step: send email notification to club members
-          setParseStep("notifying");
-          await sendRecipeNotification("added", savedRecipeName, savedRecipeUrl);
-          await new Promise(resolve => setTimeout(resolve, 200));
-
-          // Show "done" state with all checkmarks for 1.5s before closing
-          setParseStep("done");
-          await new Promise(resolve => setTimeout(resolve, 2500));
-
-          // Success: close dialog, reset state
-          setParseStatus("idle");
-  
-          setPendingRecipeId(null);
-          setRecipeFormData(createInitialFormData());
-          setShowAddForm(false);
-          setParseStep("saving");
-        } catch (error) {
-          console.error("Error parsing recipe:", error);
-          setParseStatus("failed");
-        }
-      }
+      // Manual mode parses the pasted text; URL/upload mode fetches the source
+      startParse(
+        insertedRecipe.id,
+        recipeFormData.name.trim(),
+        recipeFormData.inputMode === "manual"
+          ? { text: recipeFormData.pasteText }
+          : { url: recipeFormData.url.trim() }
+      );
     } catch (error: unknown) {
       console.error("Error saving recipe:", error);
-      if (insertedRecipeId) {
-        await supabase.from("recipes").delete().eq("id", insertedRecipeId);
-      }
       const errorMessage = error instanceof Error ? error.message : "Failed to save recipe";
       toast.error(errorMessage);
       setIsSubmitting(false);
     }
   };
 
-  const handleKeepRecipeAnyway = () => {
-    setParseStatus("idle");
-
-    setPendingRecipeId(null);
-    setParseStep("saving");
-    setRecipeFormData(createInitialFormData());
-    setShowAddForm(false);
-    toast.success("Recipe added (parsing skipped)");
-    loadEventData();
-    grocery.refreshGroceries();
-  };
-
-  const handleDiscardRecipe = async () => {
-    if (pendingRecipeId) {
-      await supabase.from("recipes").delete().eq("id", pendingRecipeId);
-      loadEventData();
-    }
-    setParseStatus("idle");
-
-    setPendingRecipeId(null);
-    setParseStep("saving");
-    setRecipeFormData(createInitialFormData());
-    setShowAddForm(false);
-    toast.success("Recipe discarded");
-  };
-
-  const handleRetryParse = async () => {
-    const retryRecipeId = pendingRecipeId!;
-    setParseStatus("parsing");
-
-    setParseStep("parsing");
-
-    try {
-      const { data: retryData, error: retryError } = await supabase.functions.invoke("parse-recipe", {
-        body: { recipeId: retryRecipeId, recipeUrl: recipeFormData.url.trim(), recipeName: recipeFormData.name.trim(), model: getCachedAiModel() },
-      });
-      if (retryError) throw retryError;
-      if (!retryData?.success) {
-        setParseStatus("failed");
-        return;
-      }
-
-      // Success: close dialog and refresh
-      setParseStatus("idle");
-  
-      setPendingRecipeId(null);
-      setParseStep("saving");
-      setRecipeFormData(createInitialFormData());
-      setShowAddForm(false);
-      toast.success("Recipe parsed successfully!");
-      loadEventData();
-      grocery.refreshGroceries();
-    } catch (error) {
-      console.error("Error retrying parse:", error);
-      setParseStatus("failed");
-    }
-  };
-
   const handleEditRecipeClick = (recipe: Recipe) => {
     setRecipeToEdit(recipe);
     setEditRecipeName(recipe.name);
@@ -895,6 +817,14 @@ const EventDetailPage = () => {
           </CardContent>
         </Card>
 
+        {event && (
+          <EventAllergenSummary
+            recipes={event.recipesWithNotes.map((r) => r.recipe)}
+            recipeIngredients={grocery.recipeIngredients}
+            members={memberRestrictions}
+          />
+        )}
+
         {/* Tabbed Content */}
         <RecipeDetailTabs
           recipesContent={
@@ -932,11 +862,14 @@ const EventDetailPage = () => {
                 combineError={grocery.combineError}
                 perRecipeItems={grocery.perRecipeItems}
                 checkedItems={grocery.checkedItems}
+                checkedBy={grocery.checkedBy}
                 onToggleChecked={grocery.handleToggleChecked}
                 onEditItemText={grocery.handleEditItemText}
                 onRemoveItem={grocery.handleRemoveItem}
                 onAddItemsToRecipe={grocery.handleAddItemsToRecipe}
                 hasPendingChanges={grocery.hasPendingChanges}
+                isOffline={grocery.isOffline}
+                pendingSyncCount={grocery.pendingSyncCount}
                 onRecombine={grocery.triggerRecombine}
                 generalItems={grocery.generalItems}
                 onAddGeneralItemDirect={grocery.handleAddGeneralItemDirect}
@@ -964,25 +897,14 @@ const EventDetailPage = () => {
         open={showAddForm}
         onOpenChange={() => {
           if (parseStatus === "parsing") {
-            if (window.confirm("Parsing is in progress. The recipe has been saved. Close anyway?")) {
-              setShowAddForm(false);
-              setRecipeFormData(createInitialFormData());
-              setParseStatus("idle");
-      
-              setPendingRecipeId(null);
-              setParseStep("saving");
-              loadEventData();
-            }
+            // The recipe is saved and the parse job keeps running
+            handleDismissParse();
+            closeAddForm();
+            toast("Still parsing — the recipe will update when it's done");
+          } else if (parseStatus === "failed") {
+            handleDiscardRecipe();
           } else {
-            if (parseStatus === "failed" && pendingRecipeId) {
-              supabase.from("recipes").delete().eq("id", pendingRecipeId);
-            }
-            setShowAddForm(false);
-            setRecipeFormData(createInitialFormData());
-            setParseStatus("idle");
-    
-            setPendingRecipeId(null);
-            setParseStep("saving");
+            closeAddForm();
           }
         }}
       >
@@ -997,7 +919,14 @@ const EventDetailPage = () => {
           </DialogHeader>
 
           {parseStatus === "parsing" && (
-            <RecipeParseProgress steps={parseSteps} currentStep={parseStep} />
+            <>
+              <RecipeParseProgress steps={parseSteps} currentStep={parseStep} />
+              {parseJob && parseJob.attempts > 0 && parseJob.status === "queued" && (
+                <p className="text-sm text-muted-foreground">
+                  Retrying (attempt {parseJob.attempts + 1} of {parseJob.maxAttempts})...
+                </p>
+              )}
+            </>
           )}
 
           {parseStatus === "failed" && (
@@ -1033,6 +962,7 @@ const EventDetailPage = () => {
                   isUploading={isUploadingRecipeImage}
                   onUploadingChange={setIsUploadingRecipeImage}
                   manualPasteOnly
+                  memberRestrictions={memberRestrictions}
                 />
               </div>
 
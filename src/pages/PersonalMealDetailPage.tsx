@@ -3,9 +3,9 @@ import { useNavigate, useParams } from "react-router-dom";
 import { getCurrentUser } from "@/lib/auth";
 import type { User, Recipe, RecipeRatingsSummary } from "@/types";
 import { useRecipeNotes } from "@/hooks/useRecipeNotes";
+import { useRecipeParse } from "@/hooks/useRecipeParse";
 import { useGroceryList } from "@/hooks/useGroceryList";
 import { supabase } from "@/integrations/supabase/client";
-import { getCachedAiModel } from "@/lib/userPreferences";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -72,12 +72,29 @@ const PersonalMealDetailPage = () => {
   // Add Meal dialog state
   const [showAddMealDialog, setShowAddMealDialog] = useState(false);
 
-  // Parse progress state
-  const [parseStatus, setParseStatus] = useState<"idle" | "parsing" | "failed">("idle");
-  const [pendingParseRecipeId, setPendingParseRecipeId] = useState<string | null>(null);
-  const [pendingParseName, setPendingParseName] = useState<string>("");
-  const [pendingParseUrl, setPendingParseUrl] = useState<string>("");
-  const [parseStep, setParseStep] = useState<"saving" | "parsing" | "loading" | "done">("saving");
+  // Parse progress (shared hook; the parse runs as a background job)
+  const {
+    parseStatus,
+    parseStep,
+    parseJob,
+    pendingParseName,
+    startParse,
+    handleRetry: handleParseRetry,
+    handleKeep: handleParseKeep,
+    handleDiscard: handleParseDiscard,
+  } = useRecipeParse({
+    onLoad: () => {
+      loadEventData();
+      grocery.refreshGroceries();
+    },
+    onBeforeDiscard: async (recipeId) => {
+      await supabase.from("meal_plan_items").delete().eq("recipe_id", recipeId);
+    },
+    onDiscard: () => {
+      loadEventData();
+      toast.success("Recipe discarded");
+    },
+  });
 
   // Edit Recipe state
   const [recipeToEdit, setRecipeToEdit] = useState<Recipe | null>(null);
@@ -350,7 +367,7 @@ const PersonalMealDetailPage = () => {
   const slotMealType = mealItems.length > 0 ? mealItems[0].meal_type : "dinner";
   const slotPlanId = mealItems.length > 0 ? mealItems[0].plan_id : null;
 
-  const handleAddCustomMeal = async (name: string, url?: string, shouldParse?: boolean) => {
+  const handleAddCustomMeal = async (name: string, url?: string, shouldParse?: boolean, sourceFiles?: string[] | null) => {
     if (!user?.id || !event) return;
 
     try {
@@ -360,6 +377,7 @@ const PersonalMealDetailPage = () => {
         .insert({
           name,
           url: url || null,
+          source_files: sourceFiles ?? null,
           event_id: event.eventId,
           created_by: user.id,
         })
@@ -392,10 +410,7 @@ const PersonalMealDetailPage = () => {
       }
 
       if (shouldParse && url) {
-        setPendingParseRecipeId(insertedRecipe.id);
-        setPendingParseName(name);
-        setPendingParseUrl(url);
-        setParseStatus("parsing");
+        startParse(insertedRecipe.id, name, { url });
       } else {
         toast.success("Recipe added!");
       }
@@ -494,16 +509,12 @@ const PersonalMealDetailPage = () => {
         }
       }
 
-      // Parse ingredients via unified parse-recipe (handles DB saves internally)
       if (text.trim()) {
-        const { data, error } = await supabase.functions.invoke("parse-recipe", {
-          body: { recipeId: insertedRecipe.id, recipeName: name, text, model: getCachedAiModel() },
-        });
-        if (error) throw error;
-        if (!data?.success) throw new Error(data?.error ?? "Failed to parse ingredients");
+        startParse(insertedRecipe.id, name, { text });
+      } else {
+        toast.success("Recipe added!");
       }
 
-      toast.success("Recipe added!");
       loadEventData();
       grocery.refreshGroceries();
     } catch (error) {
@@ -516,78 +527,6 @@ const PersonalMealDetailPage = () => {
     }
   };
 
-  // Execute parse when parseStatus transitions to "parsing"
-  useEffect(() => {
-    if (parseStatus !== "parsing" || !pendingParseRecipeId) return;
-
-    const doParse = async () => {
-      try {
-        setParseStep("saving");
-        await new Promise(resolve => setTimeout(resolve, 200));
-
-        setParseStep("parsing");
-        const { data: parseData, error } = await supabase.functions.invoke("parse-recipe", {
-          body: {
-            recipeId: pendingParseRecipeId,
-            recipeUrl: pendingParseUrl,
-            recipeName: pendingParseName,
-            model: getCachedAiModel(),
-          },
-        });
-        if (error) throw error;
-        if (!parseData?.success) throw new Error(parseData?.error ?? "Failed to parse recipe");
-
-        setParseStep("loading");
-        loadEventData();
-        grocery.refreshGroceries();
-
-        setParseStep("done");
-        await new Promise(resolve => setTimeout(resolve, 2500));
-
-        setParseStatus("idle");
-        setPendingParseRecipeId(null);
-        setPendingParseName("");
-        setPendingParseUrl("");
-        setParseStep("saving");
-        toast.success("Recipe parsed successfully!");
-      } catch (error) {
-        console.error("Error parsing recipe:", error);
-        setParseStatus("failed");
-      }
-    };
-
-    doParse();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [parseStatus, pendingParseRecipeId]);
-
-  const handleParseRetry = () => {
-    setParseStep("saving");
-    setParseStatus("parsing");
-  };
-
-  const handleParseKeep = () => {
-    setParseStatus("idle");
-    setPendingParseRecipeId(null);
-    setPendingParseName("");
-    setPendingParseUrl("");
-    setParseStep("saving");
-    toast.success("Recipe saved without parsing");
-  };
-
-  const handleParseDiscard = async () => {
-    if (pendingParseRecipeId) {
-      await supabase.from("meal_plan_items").delete().eq("recipe_id", pendingParseRecipeId);
-      await supabase.from("recipes").delete().eq("id", pendingParseRecipeId);
-      loadEventData();
-    }
-    setParseStatus("idle");
-    setPendingParseRecipeId(null);
-    setPendingParseName("");
-    setPendingParseUrl("");
-    setParseStep("saving");
-    toast.success("Recipe discarded");
-  };
-
   const handleEditRecipeClick = (recipe: Recipe) => {
     setRecipeToEdit(recipe);
     setEditRecipeName(recipe.name);
@@ -836,11 +775,14 @@ const PersonalMealDetailPage = () => {
                 combineError={grocery.combineError}
                 perRecipeItems={grocery.perRecipeItems}
                 checkedItems={grocery.checkedItems}
+                checkedBy={grocery.checkedBy}
                 onToggleChecked={grocery.handleToggleChecked}
                 onEditItemText={grocery.handleEditItemText}
                 onRemoveItem={grocery.handleRemoveItem}
                 onAddItemsToRecipe={grocery.handleAddItemsToRecipe}
                 hasPendingChanges={grocery.hasPendingChanges}
+                isOffline={grocery.isOffline}
+                pendingSyncCount={grocery.pendingSyncCount}
                 onRecombine={grocery.triggerRecombine}
                 generalItems={grocery.generalItems}
                 onAddGeneralItemDirect={grocery.handleAddGeneralItemDirect}
@@ -878,6 +820,7 @@ const PersonalMealDetailPage = () => {
       <ParseProgressDialog
         parseStatus={parseStatus}
         parseStep={parseStep}
+        parseJob={parseJob}
         recipeName={pendingParseName}
         onDiscard={handleParseDiscard}
         onKeep={handleParseKeep}
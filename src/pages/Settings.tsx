@@ -1,8 +1,27 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { getCurrentUser, getAllowedUser, isAdmin, isMemberOrAdmin } from "@/lib/auth";
-import { loadUserPreferences, saveUserPreferences, getCachedAiModel } from "@/lib/userPreferences";
-import type { User, UserPreferences } from "@/types";
+import { loadUserPreferences, saveUserPreferences, getCachedAiOptions } from "@/lib/userPreferences";
+import {
+  loadHousehold,
+  loadHouseholdInvites,
+  createHousehold,
+  deleteHousehold,
+  inviteHouseholdMember,
+  removeHouseholdMember,
+  acceptHouseholdInvite,
+} from "@/lib/household";
+import { loadApiTokens, createApiToken, revokeApiToken } from "@/lib/apiTokens";
+import { isDevMode } from "@/lib/devMode";
+import type {
+  AiProviderName,
+  ApiToken,
+  ApiTokenScope,
+  Household,
+  HouseholdInvite,
+  User,
+  UserPreferences,
+} from "@/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -17,8 +36,9 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { Copy, Loader2, X } from "lucide-react";
 import AppHeader from "@/components/shared/AppHeader";
+import { COOKING_SKILL_OPTIONS, DIETARY_RESTRICTIONS, type DietaryRestriction } from "@/lib/dietary";
 
 const MEAL_TYPE_OPTIONS = [
   { value: "breakfast", label: "Breakfast" },
@@ -32,6 +52,35 @@ const AI_MODEL_OPTIONS = [
   { value: "claude-opus-4-6", label: "Opus 4.6 — most intelligent" },
 ] as const;
 
+// The stub is only offered in dev mode; deployed functions refuse it anyway
+// unless AI_ALLOW_STUB is set
+const AI_PROVIDER_OPTIONS: { value: AiProviderName; label: string }[] = [
+  { value: "anthropic", label: "Anthropic (Claude)" },
+  { value: "openai", label: "OpenAI-compatible (e.g. Ollama)" },
+  ...(isDevMode()
+    ? [{ value: "stub" as const, label: "Offline stub — fixtures, no network" }]
+    : []),
+];
+
+// Model to switch to when the provider changes; an empty OpenAI model means
+// the server's OPENAI_MODEL
+const DEFAULT_MODEL_FOR_PROVIDER: Record<AiProviderName, string> = {
+  anthropic: "claude-sonnet-4-6",
+  openai: "",
+  stub: "stub-fixtures",
+};
+
+const API_TOKEN_SCOPE_OPTIONS: { value: ApiTokenScope; label: string }[] = [
+  { value: "read_write", label: "Read & write" },
+  { value: "read", label: "Read only" },
+];
+
+const formatTokenDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const splitList = (text: string): string[] =>
+  text.split(",").map((s) => s.trim()).filter(Boolean);
+
 const Settings = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
@@ -43,8 +92,29 @@ const Settings = () => {
     mealTypes: ["breakfast", "lunch", "dinner"],
     weekStartDay: 0,
     householdSize: 2,
-    aiModel: getCachedAiModel(),
+    aiProvider: getCachedAiOptions().provider,
+    aiModel: getCachedAiOptions().model,
+    dietaryRestrictions: [],
+    cuisinePreferences: [],
+    dislikedIngredients: [],
+    cookingSkill: "intermediate",
+    maxCookTimeMinutes: 60,
   });
+  // Free-text lists are edited as comma-separated strings and split on save
+  const [dislikedText, setDislikedText] = useState("");
+  const [cuisineText, setCuisineText] = useState("");
+  // Shared grocery list — changes save immediately rather than with Save Settings
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [householdInvites, setHouseholdInvites] = useState<HouseholdInvite[]>([]);
+  const [householdName, setHouseholdName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isUpdatingHousehold, setIsUpdatingHousehold] = useState(false);
+  // Grocery API tokens — the plaintext of a new token is only held until dismissed
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [tokenName, setTokenName] = useState("");
+  const [tokenScope, setTokenScope] = useState<ApiTokenScope>("read_write");
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isUpdatingTokens, setIsUpdatingTokens] = useState(false);
 
   useEffect(() => {
     const loadData = async () => {
@@ -54,6 +124,11 @@ const Settings = () => {
       if (currentUser?.id) {
         const prefs = await loadUserPreferences(currentUser.id);
         setPreferences(prefs);
+        setDislikedText(prefs.dislikedIngredients.join(", "));
+        setCuisineText(prefs.cuisinePreferences.join(", "));
+        setHousehold(await loadHousehold());
+        setHouseholdInvites(await loadHouseholdInvites());
+        setApiTokens(await loadApiTokens(currentUser.id));
       }
 
       if (currentUser?.email) {
@@ -92,12 +167,149 @@ const Settings = () => {
     setPreferences((prev) => ({ ...prev, householdSize: value }));
   };
 
+  const handleRestrictionToggle = (restriction: DietaryRestriction, enabled: boolean) => {
+    setPreferences((prev) => ({
+      ...prev,
+      dietaryRestrictions: enabled
+        ? [...prev.dietaryRestrictions, restriction]
+        : prev.dietaryRestrictions.filter((r) => r !== restriction),
+    }));
+  };
+
+  const handleMaxCookTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.max(1, parseInt(e.target.value) || 1);
+    setPreferences((prev) => ({ ...prev, maxCookTimeMinutes: value }));
+  };
+
+  const isHouseholdOwner =
+    !!household &&
+    household.members.some(
+      (m) => m.role === "owner" && m.email === user?.email?.toLowerCase()
+    );
+
+  const updateHousehold = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsUpdatingHousehold(true);
+    try {
+      await action();
+      setHousehold(await loadHousehold());
+      setHouseholdInvites(await loadHouseholdInvites());
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast.error(errorMessage);
+    } finally {
+      setIsUpdatingHousehold(false);
+    }
+  };
+
+  const handleCreateHousehold = () => {
+    const name = householdName.trim();
+    if (!user?.id || !user.email || !name) return;
+    updateHousehold(async () => {
+      await createHousehold(name, user.id, user.email);
+      setHouseholdName("");
+    }, "Failed to create household");
+  };
+
+  const handleInviteMember = () => {
+    const email = inviteEmail.trim();
+    if (!household || !email) return;
+    if (household.members.some((m) => m.email === email.toLowerCase())) {
+      toast("They're already in your household");
+      return;
+    }
+    updateHousehold(async () => {
+      await inviteHouseholdMember(household.id, email);
+      setInviteEmail("");
+      toast.success(`Invited ${email}`);
+    }, "Failed to invite member");
+  };
+
+  const handleAcceptInvite = (invite: HouseholdInvite) => {
+    updateHousehold(async () => {
+      await acceptHouseholdInvite(invite.householdId);
+      toast.success(`Joined ${invite.householdName}`);
+    }, "Failed to join household");
+  };
+
+  const handleDeclineInvite = (invite: HouseholdInvite) => {
+    if (!user?.email) return;
+    updateHousehold(
+      () => removeHouseholdMember(invite.householdId, user.email),
+      "Failed to decline invite"
+    );
+  };
+
+  const handleRemoveMember = (email: string) => {
+    if (!household) return;
+    updateHousehold(
+      () => removeHouseholdMember(household.id, email),
+      "Failed to remove member"
+    );
+  };
+
+  const handleLeaveHousehold = () => {
+    if (!household || !user?.email) return;
+    updateHousehold(
+      () =>
+        isHouseholdOwner
+          ? deleteHousehold(household.id)
+          : removeHouseholdMember(household.id, user.email),
+      isHouseholdOwner ? "Failed to delete household" : "Failed to leave household"
+    );
+  };
+
+  const handleCreateToken = async () => {
+    const name = tokenName.trim();
+    if (!user?.id || !name) return;
+    setIsUpdatingTokens(true);
+    try {
+      setNewToken(await createApiToken(user.id, name, tokenScope));
+      setTokenName("");
+      setApiTokens(await loadApiTokens(user.id));
+    } catch (error) {
+      console.error("Failed to create API token", error);
+      toast.error("Failed to create API token");
+    } finally {
+      setIsUpdatingTokens(false);
+    }
+  };
+
+  const handleRevokeToken = async (tokenId: string) => {
+    if (!user?.id) return;
+    setIsUpdatingTokens(true);
+    try {
+      await revokeApiToken(tokenId);
+      setApiTokens(await loadApiTokens(user.id));
+    } catch (error) {
+      console.error("Failed to revoke API token", error);
+      toast.error("Failed to revoke API token");
+    } finally {
+      setIsUpdatingTokens(false);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
   const handleSave = async () => {
     if (!user?.id) return;
 
     setIsSaving(true);
     try {
-      await saveUserPreferences(user.id, preferences);
+      const toSave: UserPreferences = {
+        ...preferences,
+        dislikedIngredients: splitList(dislikedText),
+        cuisinePreferences: splitList(cuisineText),
+      };
+      await saveUserPreferences(user.id, toSave);
+      setPreferences(toSave);
       toast.success("Settings saved successfully");
     } catch {
       toast.error("Failed to save settings");
@@ -199,6 +411,7 @@ const Settings = () => {
               <Input
                 type="number"
                 min={1}
+                aria-label="Household size"
                 value={preferences.householdSize}
                 onChange={handleHouseholdSizeChange}
                 className="w-32"
@@ -206,6 +419,292 @@ const Settings = () => {
             </CardContent>
           </Card>
 
+          <Separator />
+
+          {/* Shared Grocery List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Shared Grocery List</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Everyone in your household sees the same checked items while shopping, updated live.
+              </p>
+              {household ? (
+                <>
+                  <p className="text-sm font-medium">{household.name}</p>
+                  <ul className="space-y-1">
+                    {household.members.map((member) => (
+                      <li key={member.email} className="flex items-center justify-between text-sm">
+                        <span className="truncate">
+                          {member.email}
+                          {member.role === "owner" && (
+                            <span className="text-xs text-muted-foreground ml-1">(owner)</span>
+                          )}
+                          {member.pending && (
+                            <span className="text-xs text-muted-foreground ml-1">(invited)</span>
+                          )}
+                        </span>
+                        {isHouseholdOwner && member.role !== "owner" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveMember(member.email)}
+                            disabled={isUpdatingHousehold}
+                            aria-label={`Remove ${member.email}`}
+                            className="h-6 w-6 p-0"
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {isHouseholdOwner && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="email"
+                        aria-label="Invite by email"
+                        placeholder="name@example.com"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleInviteMember()}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleInviteMember}
+                        disabled={isUpdatingHousehold || !inviteEmail.trim()}
+                      >
+                        Invite
+                      </Button>
+                    </div>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleLeaveHousehold}
+                    disabled={isUpdatingHousehold}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    {isHouseholdOwner ? "Delete household" : "Leave household"}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {householdInvites.length > 0 && (
+                    <ul className="space-y-2">
+                      {householdInvites.map((invite) => (
+                        <li key={invite.householdId} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">
+                            You're invited to <span className="font-medium">{invite.householdName}</span>
+                          </span>
+                          <div className="flex gap-2 shrink-0">
+                            <Button
+                              size="sm"
+                              onClick={() => handleAcceptInvite(invite)}
+                              disabled={isUpdatingHousehold}
+                              aria-label={`Join ${invite.householdName}`}
+                            >
+                              Join
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeclineInvite(invite)}
+                              disabled={isUpdatingHousehold}
+                              aria-label={`Decline ${invite.householdName}`}
+                            >
+                              Decline
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      aria-label="Household name"
+                      placeholder="e.g. The Smiths"
+                      value={householdName}
+                      onChange={(e) => setHouseholdName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleCreateHousehold()}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleCreateHousehold}
+                      disabled={isUpdatingHousehold || !householdName.trim()}
+                    >
+                      Create household
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Grocery API Tokens */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Grocery API Tokens</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Let a voice assistant or shortcut read and add to your grocery list. Send the token in the x-api-key header.
+              </p>
+              {newToken && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-2">
+                  <p className="text-sm font-medium">Copy your new token now. You won't be able to see it again.</p>
+                  <div className="flex gap-2">
+                    <Input readOnly aria-label="New API token" value={newToken} className="font-mono text-xs" />
+                    <Button variant="outline" size="sm" onClick={handleCopyToken} title="Copy to clipboard">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+                    Done
+                  </Button>
+                </div>
+              )}
+              {apiTokens.length > 0 && (
+                <ul className="space-y-2">
+                  {apiTokens.map((token) => (
+                    <li key={token.id} className="flex items-center justify-between text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate">
+                          {token.name}
+                          <span className="text-xs text-muted-foreground ml-1">
+                            ({token.scope === "read" ? "read only" : "read & write"})
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          <span className="font-mono">{token.tokenPrefix}…</span>
+                          {" · "}
+                          {token.lastUsedAt ? `Last used ${formatTokenDate(token.lastUsedAt)}` : "Never used"}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevokeToken(token.id)}
+                        disabled={isUpdatingTokens}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Revoke
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  aria-label="Token name"
+                  placeholder="e.g. Kitchen speaker"
+                  value={tokenName}
+                  onChange={(e) => setTokenName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreateToken()}
+                />
+                <Select value={tokenScope} onValueChange={(value) => setTokenScope(value as ApiTokenScope)}>
+                  <SelectTrigger aria-label="Token access" className="w-40 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {API_TOKEN_SCOPE_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={handleCreateToken}
+                  disabled={isUpdatingTokens || !tokenName.trim()}
+                >
+                  Create token
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Dietary Preferences */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Dietary Preferences</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Used to filter recipes and warn you when planning meals that don't fit.
+              </p>
+              {(Object.entries(DIETARY_RESTRICTIONS) as [DietaryRestriction, string][]).map(
+                ([value, label]) => (
+                  <div key={value} className="flex items-center justify-between">
+                    <Label htmlFor={`diet-${value}`}>{label}</Label>
+                    <Switch
+                      id={`diet-${value}`}
+                      checked={preferences.dietaryRestrictions.includes(value)}
+                      onCheckedChange={(checked) => handleRestrictionToggle(value, checked)}
+                    />
+                  </div>
+                )
+              )}
+              <div>
+                <Label htmlFor="disliked-ingredients" className="text-sm">Disliked ingredients</Label>
+                <Input
+                  id="disliked-ingredients"
+                  value={dislikedText}
+                  onChange={(e) => setDislikedText(e.target.value)}
+                  placeholder="e.g. cilantro, olives"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="cuisine-preferences" className="text-sm">Favorite cuisines</Label>
+                <Input
+                  id="cuisine-preferences"
+                  value={cuisineText}
+                  onChange={(e) => setCuisineText(e.target.value)}
+                  placeholder="e.g. Italian, Thai"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="cooking-skill" className="text-sm">Cooking skill</Label>
+                <Select
+                  value={preferences.cookingSkill}
+                  onValueChange={(value) =>
+                    setPreferences((prev) => ({ ...prev, cookingSkill: value }))
+                  }
+                >
+                  <SelectTrigger id="cooking-skill" className="w-full mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COOKING_SKILL_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="max-cook-time" className="text-sm">Max cook time (minutes)</Label>
+                <Input
+                  id="max-cook-time"
+                  type="number"
+                  min={1}
+                  value={preferences.maxCookTimeMinutes}
+                  onChange={handleMaxCookTimeChange}
+                  className="w-32 mt-1"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* AI Models — admin only */}
           {userIsAdmin && (
             <>
@@ -216,21 +715,25 @@ const Settings = () => {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-sm text-muted-foreground">
-                    Choose which AI model powers recipe parsing and grocery processing. Faster models are cheaper but may be less accurate.
+                    Choose which AI provider and model power recipe parsing and grocery processing. Faster models are cheaper but may be less accurate.
                   </p>
                   <div>
-                    <Label htmlFor="ai-model" className="text-sm">AI Model</Label>
+                    <Label htmlFor="ai-provider" className="text-sm">AI Provider</Label>
                     <Select
-                      value={preferences.aiModel}
+                      value={preferences.aiProvider}
                       onValueChange={(value) =>
-                        setPreferences((prev) => ({ ...prev, aiModel: value }))
+                        setPreferences((prev) => ({
+                          ...prev,
+                          aiProvider: value as AiProviderName,
+                          aiModel: DEFAULT_MODEL_FOR_PROVIDER[value as AiProviderName],
+                        }))
                       }
                     >
-                      <SelectTrigger id="ai-model" className="w-full mt-1">
+                      <SelectTrigger id="ai-provider" className="w-full mt-1">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {AI_MODEL_OPTIONS.map((opt) => (
+                        {AI_PROVIDER_OPTIONS.map((opt) => (
                           <SelectItem key={opt.value} value={opt.value}>
                             {opt.label}
                           </SelectItem>
@@ -238,6 +741,47 @@ const Settings = () => {
                       </SelectContent>
                     </Select>
                   </div>
+                  {preferences.aiProvider === "anthropic" && (
+                    <div>
+                      <Label htmlFor="ai-model" className="text-sm">AI Model</Label>
+                      <Select
+                        value={preferences.aiModel}
+                        onValueChange={(value) =>
+                          setPreferences((prev) => ({ ...prev, aiModel: value }))
+                        }
+                      >
+                        <SelectTrigger id="ai-model" className="w-full mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AI_MODEL_OPTIONS.map((opt) => (
+                            <SelectItem key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {preferences.aiProvider === "openai" && (
+                    <div>
+                      <Label htmlFor="ai-model" className="text-sm">AI Model</Label>
+                      <Input
+                        id="ai-model"
+                        className="mt-1"
+                        placeholder="Server default"
+                        value={preferences.aiModel}
+                        onChange={(e) =>
+                          setPreferences((prev) => ({ ...prev, aiModel: e.target.value.trim() }))
+                        }
+                      />
+                    </div>
+                  )}
+                  {preferences.aiProvider === "stub" && (
+                    <p className="text-sm text-muted-foreground">
+                      The stub returns canned results built from your input and never calls a model.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </>
@@ -17,8 +17,10 @@ import { ExternalLink, BookOpen, Loader2, ChefHat, CheckCircle2 } from "lucide-r
 import { toast } from "sonner";
 import { signInWithGoogle } from "@/lib/auth";
 import { isDevMode } from "@/lib/devMode";
+import { getCachedAiOptions } from "@/lib/userPreferences";
 import type { GroceryCategory } from "@/types";
 import RecipeIngredientList from "@/components/recipes/RecipeIngredientList";
+import RecipeSourceGallery from "@/components/recipes/RecipeSourceGallery";
 import {
   getLightBackgroundColor,
   getBorderColor,
@@ -30,6 +32,7 @@ interface SharedRecipe {
   id: string;
   name: string;
   url?: string;
+  sourceFiles: string[];
   createdBy?: string;
   createdByName?: string;
   createdByAvatar?: string;
@@ -48,6 +51,7 @@ const SharedRecipePage = () => {
   const [isAdding, setIsAdding] = useState(false);
   const [alreadyInCollection, setAlreadyInCollection] = useState(false);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
+  const [hasSteps, setHasSteps] = useState(false);
 
   useEffect(() => {
     // Initial check
@@ -71,7 +75,7 @@ const SharedRecipePage = () => {
       const { data, error } = await supabase
         .from("recipes")
         .select(`
-          id, name, url, created_by,
+          id, name, url, source_files, created_by,
           profiles:created_by (name, avatar_url),
           ingredients (name, color)
         `)
@@ -90,6 +94,7 @@ const SharedRecipePage = () => {
           id: data.id,
           name: data.name,
           url: data.url || undefined,
+          sourceFiles: data.source_files ?? [],
           createdBy: data.created_by || undefined,
           createdByName: creator?.name || undefined,
           createdByAvatar: creator?.avatar_url || undefined,
@@ -101,6 +106,15 @@ const SharedRecipePage = () => {
     };
 
     loadRecipe();
+
+    supabase
+      .from("recipe_content")
+      .select("instructions")
+      .eq("recipe_id", recipeId)
+      .maybeSingle()
+      .then(({ data }) => {
+        setHasSteps(Array.isArray(data?.instructions) && data.instructions.length > 0);
+      });
   }, [recipeId]);
 
   useEffect(() => {
@@ -145,13 +159,30 @@ const SharedRecipePage = () => {
     try {
       const { data: newRecipe, error: recipeError } = await supabase
         .from("recipes")
-        .insert({ name: recipe.name, url: recipe.url || null, created_by: currentUserId })
+        .insert({
+          name: recipe.name,
+          url: recipe.url || null,
+          source_files: recipe.sourceFiles.length > 0 ? recipe.sourceFiles : null,
+          created_by: currentUserId,
+        })
         .select("id")
         .single();
 
       if (recipeError) throw recipeError;
 
-      // Copy parsed ingredients to the new recipe
+      // A URL someone already parsed can reuse that shared parse; anything
+      // else (or a cache miss) copies the sharer's own ingredients and content
+      if (recipe.url) {
+        const { data, error } = await supabase.functions.invoke("parse-recipe", {
+          body: { recipeId: newRecipe.id, recipeUrl: recipe.url, recipeName: recipe.name, cacheOnly: true, ...getCachedAiOptions() },
+        });
+        if (!error && data?.success && !data?.skipped && data?.cached) {
+          setAlreadyInCollection(true);
+          toast.success("Recipe added to your collection!");
+          return;
+        }
+      }
+
       const { data: ingredients } = await supabase
         .from("recipe_ingredients")
         .select("*")
@@ -166,11 +197,23 @@ const SharedRecipePage = () => {
             quantity: ing.quantity,
             unit: ing.unit,
             category: ing.category as GroceryCategory,
+            raw_text: ing.raw_text,
             sort_order: idx,
           }))
         );
       }
 
+      const { data: content } = await supabase
+        .from("recipe_content")
+        .select("description, servings, prep_time, cook_time, total_time, instructions, source_title, parsed_at")
+        .eq("recipe_id", recipe.id)
+        .eq("status", "completed")
+        .maybeSingle();
+
+      if (content) {
+        await supabase.from("recipe_content").insert({ ...content, recipe_id: newRecipe.id, status: "completed" });
+      }
+
       setAlreadyInCollection(true);
       toast.success("Recipe added to your collection!");
     } catch (error) {
@@ -259,6 +302,14 @@ const SharedRecipePage = () => {
               )}
             </div>
 
+            {hasSteps && (
+              <Link to={`/recipes/${recipe.id}/cook`} className="inline-block mt-4">
+                <Button variant="outline" className="bg-white" style={{ borderColor: themeColor, color: themeColor }}>
+                  <ChefHat className="h-4 w-4 mr-2" />
+                  Start cooking
+                </Button>
+              </Link>
+            )}
           </div>
 
           {/* CTA section */}
@@ -310,6 +361,22 @@ const SharedRecipePage = () => {
             )}
           </div>
 
+          {/* Uploaded source pages */}
+          {recipe.sourceFiles.length > 0 && (
+            <div
+              className="px-6 py-5 border-b"
+              style={{ borderColor: borderColor || "rgba(155,135,245,0.15)", backgroundColor: "white" }}
+            >
+              <h2
+                className="text-[11px] font-semibold uppercase tracking-widest mb-4"
+                style={{ color: themeColor }}
+              >
+                {recipe.sourceFiles.length > 1 ? "Source pages" : "Source"}
+              </h2>
+              <RecipeSourceGallery files={recipe.sourceFiles} recipeName={recipe.name} />
+            </div>
+          )}
+
           {/* Ingredients section */}
           <div className="px-6 py-5" style={{ backgroundColor: bgColor || "white" }}>
             <h2
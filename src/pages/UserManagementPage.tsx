@@ -1,15 +1,19 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { getCurrentUser, getAllowedUser, isMemberOrAdmin } from "@/lib/auth";
+import { getCurrentUser, getAllowedUser, isAdmin, isMemberOrAdmin } from "@/lib/auth";
 import type { User } from "@/types";
 import AppHeader from "@/components/shared/AppHeader";
 import UserManagement from "@/components/admin/UserManagement";
+import AiUsage from "@/components/admin/AiUsage";
+import StorageCleanup from "@/components/admin/StorageCleanup";
+import ThrottledCallers from "@/components/admin/ThrottledCallers";
 
 const UserManagementPage = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userCanManage, setUserCanManage] = useState(false);
+  const [userIsAdmin, setUserIsAdmin] = useState(false);
 
   useEffect(() => {
     const loadUser = async () => {
@@ -19,6 +23,7 @@ const UserManagementPage = () => {
       if (currentUser?.email) {
         const allowed = await getAllowedUser(currentUser.email);
         setUserCanManage(isMemberOrAdmin(allowed));
+        setUserIsAdmin(isAdmin(allowed));
 
         // Redirect viewers back to dashboard
         if (!isMemberOrAdmin(allowed)) {
@@ -60,8 +65,12 @@ const UserManagementPage = () => {
       />
 
       {/* Main Content */}
-      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-4xl">
+      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-4xl space-y-6">
         <UserManagement currentUserEmail={user?.email || ""} />
+        {/* AI usage, budgets, storage and rate limits — admin only */}
+        {userIsAdmin && <AiUsage />}
+        {userIsAdmin && <StorageCleanup />}
+        {userIsAdmin && <ThrottledCallers />}
       </main>
     </div>
   );
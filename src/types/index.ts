@@ -5,6 +5,44 @@ export interface User {
   avatar_url?: string;
 }
 
+export type ClubRole = "admin" | "member" | "viewer";
+
+export interface Club {
+  id: string;
+  name: string;
+  role: ClubRole; // current user's role in this club
+}
+
+export type HouseholdRole = "owner" | "member";
+
+export interface HouseholdMember {
+  email: string;
+  role: HouseholdRole;
+  pending: boolean; // invited but hasn't accepted yet
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  members: HouseholdMember[];
+}
+
+export interface HouseholdInvite {
+  householdId: string;
+  householdName: string;
+}
+
+export type ApiTokenScope = "read" | "read_write";
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scope: ApiTokenScope;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
 export interface Ingredient {
   id: string;
   name: string;
@@ -115,6 +153,32 @@ export interface RecipeIngredient {
   createdAt?: string;
 }
 
+/** Calories (kcal), macros and fiber (g) and sodium (mg). */
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+/** A recipe ingredient left out of a nutrition estimate, and why. */
+export interface UncountedIngredient {
+  name: string;
+  /** unknown: not in the nutrient table; no_amount: no quantity; unit: unit can't be weighed */
+  reason: "unknown" | "no_amount" | "unit";
+}
+
+export interface RecipeNutrition {
+  total: NutritionFacts;
+  /** Only when the recipe states how many it serves */
+  perServing?: NutritionFacts;
+  servings?: number;
+  countedCount: number;
+  uncounted: UncountedIngredient[];
+}
+
 export interface PantryItem {
   id: string;
   userId: string;
@@ -151,16 +215,152 @@ export interface MealPlanItem {
   sortOrder: number;
   eventId?: string;
   cookedAt?: string;
+  servings?: number; // per-slot override; defaults to household size
   // Joined data
   recipeName?: string;
   recipeUrl?: string;
 }
 
+export type AiProviderName = "anthropic" | "openai" | "stub";
+
+/** Provider and model sent to the AI edge functions. */
+export interface AiRequestOptions {
+  provider: AiProviderName;
+  model: string;
+}
+
+/** One user's AI usage for a month alongside their budget, for admins. */
+export interface AiUsageSummary {
+  userId: string;
+  email: string;
+  name?: string;
+  callCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  softLimitUsd: number | null;
+  hardLimitUsd: number | null;
+}
+
+/** A user or IP address an edge function's rate limit has turned away. */
+export interface ThrottledCaller {
+  functionName: string;
+  callerType: "user" | "ip";
+  /** User id or IP address */
+  caller: string;
+  email?: string;
+  name?: string;
+  throttledCount: number;
+  lastThrottledAt: string;
+}
+
+/** An unreferenced upload found by a storage cleanup run. */
+export interface StorageOrphan {
+  bucket: string;
+  path: string;
+  size: number;
+  createdAt: string | null;
+}
+
+/** One run of the cleanup-storage function, scheduled or started by an admin. */
+export interface StorageCleanupRun {
+  id: string;
+  dryRun: boolean;
+  status: "completed" | "failed";
+  scheduled: boolean;
+  scannedCount: number;
+  orphanedCount: number;
+  orphanedBytes: number;
+  deletedCount: number;
+  reclaimedBytes: number;
+  /** Capped sample of the orphans; the counts cover all of them */
+  orphans: StorageOrphan[];
+  error?: string;
+  startedAt: string;
+}
+
+export type ParseJobStatus = "queued" | "running" | "completed" | "failed";
+
+/** A queued background parse of one recipe (see parse-recipe-worker). */
+export interface ParseJob {
+  id: string;
+  recipeId: string;
+  status: ParseJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+}
+
+export type RecipeRevisionSource = "parse" | "edit" | "revert" | "backfill" | "import";
+
+/** An ingredient as captured in a recipe revision. */
+export interface RevisionIngredient {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  category: GroceryCategory;
+  rawText?: string;
+}
+
+export type RevisionContent = Pick<
+  RecipeContent,
+  "description" | "servings" | "prepTime" | "cookTime" | "totalTime" | "instructions" | "sourceTitle"
+>;
+
+/** A snapshot of a recipe's ingredients and parsed content after one change. */
+export interface RecipeRevision {
+  id: string;
+  recipeId: string;
+  source: RecipeRevisionSource;
+  changedByName?: string;
+  ingredients: RevisionIngredient[];
+  content: RevisionContent | null;
+  revertedFrom?: string;
+  createdAt: string;
+}
+
+export type RecipeImportFormat = "paprika" | "mela" | "cooklang" | "mealmaster" | "jsonld";
+
+/** A recipe read from another recipe manager's export, before it's saved. */
+export interface ImportedRecipe {
+  name: string;
+  format: RecipeImportFormat;
+  url?: string;
+  description?: string;
+  servings?: string;
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  instructions: string[];
+  ingredients: Pick<RecipeIngredient, "name" | "quantity" | "unit" | "category" | "rawText">[];
+  /** Site or book the recipe came from */
+  sourceTitle?: string;
+}
+
+/** One ingredient-level difference between two revisions. */
+export type IngredientChange =
+  | { type: "added"; after: RevisionIngredient }
+  | { type: "removed"; before: RevisionIngredient }
+  | { type: "changed"; before: RevisionIngredient; after: RevisionIngredient };
+
 export interface UserPreferences {
   mealTypes: string[];
   weekStartDay: number;
   householdSize: number;
+  aiProvider: AiProviderName;
   aiModel: string;
+  dietaryRestrictions: string[];
+  cuisinePreferences: string[];
+  dislikedIngredients: string[];
+  cookingSkill: string;
+  maxCookTimeMinutes: number;
+}
+
+export interface MemberDietaryRestrictions {
+  userId: string;
+  name: string;
+  restrictions: string[];
 }
 
 export interface GeneralGroceryItem {
@@ -174,6 +374,16 @@ export interface GeneralGroceryItem {
   createdAt?: string;
 }
 
+export interface GroceryCheck {
+  itemName: string;
+  checkedBy?: string;
+  checkedAt?: string;
+  // Joined data
+  checkedByName?: string;
+}
+
+export type SpinMode = "uniform" | "weighted" | "cooldown";
+
 export interface ScheduledEvent {
   id: string;
   ingredientId?: string;
@@ -184,4 +394,5 @@ export interface ScheduledEvent {
   type?: "club" | "personal";
   ingredientName?: string;
   ingredientColor?: string;
+  spinMode?: SpinMode;
 }
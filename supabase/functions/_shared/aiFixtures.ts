@@ -0,0 +1,124 @@
+// Deterministic responses for the stub AI provider, built from each task's
+// input the way the real model would shape them. Good enough to exercise the
+// app offline; not a substitute for the model's judgement.
+
+import { parseIngredientLines } from "./ingredientParser.ts";
+
+export type AiTask = "parse-recipe" | "process-grocery-list";
+
+export interface ParseRecipeFixtureInput {
+  recipeName: string;
+  /** Absent for image and PDF uploads. */
+  text?: string;
+}
+
+interface RawIngredientFixtureInput {
+  name: string;
+  quantity: string | null;
+  unit: string | null;
+  category: string;
+  recipeName: string;
+}
+
+const INSTRUCTIONS_HEADING = /^(instructions|directions|method|steps|preparation)\b:?/i;
+const INGREDIENTS_HEADING = /^ingredients\b:?/i;
+
+function parseRecipeFixture(input: unknown) {
+  const { recipeName, text } = (input ?? {}) as ParseRecipeFixtureInput;
+  if (!text) {
+    return {
+      description: `Stub parse of ${recipeName}`,
+      servings: "4 servings",
+      prep_time: "10 minutes",
+      cook_time: "20 minutes",
+      total_time: "30 minutes",
+      instructions: ["Prepare the ingredients.", "Cook and serve."],
+      source_title: null,
+      ingredients: [
+        { name: "onion", quantity: 1, unit: null, category: "produce", raw_text: "1 onion" },
+        { name: "olive oil", quantity: 2, unit: "tbsp", category: "pantry", raw_text: "2 tbsp olive oil" },
+      ],
+    };
+  }
+
+  // Ingredients run from an "Ingredients" heading (or the start) to an
+  // "Instructions" heading (or the end); steps follow the latter
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  const ingredientsStart = lines.findIndex((line) => INGREDIENTS_HEADING.test(line));
+  const instructionsStart = lines.findIndex((line) => INSTRUCTIONS_HEADING.test(line));
+  const ingredientLines = lines.slice(
+    ingredientsStart + 1,
+    instructionsStart > ingredientsStart ? instructionsStart : lines.length
+  );
+  const stepLines = instructionsStart > ingredientsStart ? lines.slice(instructionsStart + 1) : [];
+
+  return {
+    description: null,
+    servings: null,
+    prep_time: null,
+    cook_time: null,
+    total_time: null,
+    instructions: stepLines.map((line) => line.replace(/^[-*\d.)\s]+/, "")).filter(Boolean),
+    source_title: null,
+    ingredients: parseIngredientLines(ingredientLines.join("\n")).map((ing) => ({
+      name: ing.name,
+      quantity: ing.quantity,
+      unit: ing.unit,
+      category: ing.category,
+      raw_text: [ing.quantity, ing.unit, ing.name].filter((part) => part != null).join(" "),
+    })),
+  };
+}
+
+/** Merge exact name and unit matches, summing numeric quantities. */
+function combineFixtureItems(rawIngredients: RawIngredientFixtureInput[]) {
+  const merged = new Map<string, {
+    name: string;
+    displayName: string;
+    totalQuantity: number | null;
+    unit: string | null;
+    category: string;
+    sourceRecipes: string[];
+  }>();
+  for (const raw of rawIngredients) {
+    const name = raw.name.trim().toLowerCase();
+    const key = `${name}|${raw.unit ?? ""}`;
+    const quantity = raw.quantity != null && raw.quantity !== "" ? Number(raw.quantity) : null;
+    const existing = merged.get(key);
+    if (existing) {
+      if (quantity != null && !Number.isNaN(quantity)) {
+        existing.totalQuantity = (existing.totalQuantity ?? 0) + quantity;
+      }
+      if (!existing.sourceRecipes.includes(raw.recipeName)) existing.sourceRecipes.push(raw.recipeName);
+    } else {
+      merged.set(key, {
+        name,
+        displayName: name,
+        totalQuantity: quantity != null && !Number.isNaN(quantity) ? quantity : null,
+        unit: raw.unit,
+        category: raw.category,
+        sourceRecipes: [raw.recipeName],
+      });
+    }
+  }
+  return [...merged.values()];
+}
+
+function processGroceryListFixture(input: unknown) {
+  const rawIngredients = (input ?? []) as RawIngredientFixtureInput[];
+  const byRecipe: Record<string, RawIngredientFixtureInput[]> = {};
+  for (const raw of rawIngredients) {
+    (byRecipe[raw.recipeName] ??= []).push(raw);
+  }
+  return {
+    items: combineFixtureItems(rawIngredients),
+    perRecipeItems: Object.fromEntries(
+      Object.entries(byRecipe).map(([recipeName, entries]) => [recipeName, combineFixtureItems(entries)])
+    ),
+  };
+}
+
+export const AI_FIXTURES: Record<AiTask, (input: unknown) => unknown> = {
+  "parse-recipe": parseRecipeFixture,
+  "process-grocery-list": processGroceryListFixture,
+};
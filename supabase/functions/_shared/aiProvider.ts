@@ -0,0 +1,236 @@
+// Pluggable AI provider layer for the edge functions that call a model
+// (parse-recipe, process-grocery-list). Providers: Anthropic, any
+// OpenAI-compatible chat completions endpoint (OpenAI, a local Ollama, ...)
+// and a deterministic fixture-backed stub for local development and tests.
+//
+// Configuration (edge function env):
+//   AI_PROVIDER        default provider when the request doesn't pick one
+//   AI_ALLOW_STUB      "true" lets requests pick "stub"; AI_PROVIDER=stub
+//                      allows it too. Off in production
+//   ANTHROPIC_API_KEY  required for "anthropic"
+//   OPENAI_BASE_URL    "openai" endpoint, e.g. http://host.docker.internal:11434/v1
+//   OPENAI_API_KEY     "openai" key; optional for local endpoints
+//   OPENAI_MODEL       "openai" model when the request's model is a Claude ID
+
+import { AI_FIXTURES, type AiTask } from "./aiFixtures.ts";
+
+export type { AiTask };
+
+export type AiProviderName = "anthropic" | "openai" | "stub";
+
+export const AI_PROVIDER_NAMES: AiProviderName[] = ["anthropic", "openai", "stub"];
+
+export type AiContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image" | "document"; mediaType: string; data: string };
+
+export interface AiRequest {
+  task: AiTask;
+  model: string;
+  system: string;
+  content: string | AiContentBlock[];
+  maxTokens: number;
+  /** Structured input the stub builds its fixture response from. */
+  fixtureInput?: unknown;
+}
+
+export interface AiResponse {
+  text: string;
+  provider: AiProviderName;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  /**
+   * Pick the model to call: the requested one when this provider serves it,
+   * otherwise the provider's default. `anthropicDefault` is the caller's
+   * Claude model for this kind of request.
+   */
+  resolveModel(requested: string | undefined, anthropicDefault: string): string;
+  complete(request: AiRequest): Promise<AiResponse>;
+}
+
+const isClaudeModel = (model: string | undefined) => !!model && model.startsWith("claude-");
+
+/** A non-ok reply from the model's API, with its HTTP status. */
+export class AiApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, detail: string) {
+    super(`AI API error: ${status} - ${detail}`);
+    this.name = "AiApiError";
+    this.status = status;
+  }
+}
+
+async function readError(response: Response): Promise<never> {
+  const errorText = await response.text();
+  throw new AiApiError(response.status, errorText);
+}
+
+function createAnthropicProvider(apiKey: string): AiProvider {
+  return {
+    name: "anthropic",
+    resolveModel: (requested, anthropicDefault) => (isClaudeModel(requested) ? requested! : anthropicDefault),
+    async complete(request) {
+      const content = typeof request.content === "string"
+        ? request.content
+        : request.content.map((block) =>
+            block.type === "text"
+              ? block
+              : { type: block.type, source: { type: "base64", media_type: block.mediaType, data: block.data } }
+          );
+
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          messages: [{ role: "user", content }],
+        }),
+      });
+      if (!response.ok) return readError(response);
+
+      const result = await response.json();
+      return {
+        text: result.content?.[0]?.text || "",
+        provider: "anthropic",
+        model: request.model,
+        usage: {
+          inputTokens: result.usage?.input_tokens ?? 0,
+          outputTokens: result.usage?.output_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
+
+function createOpenAiProvider(baseUrl: string, apiKey: string | undefined, defaultModel: string): AiProvider {
+  return {
+    name: "openai",
+    resolveModel: (requested) => (requested && !isClaudeModel(requested) ? requested : defaultModel),
+    async complete(request) {
+      const content = typeof request.content === "string"
+        ? request.content
+        : request.content.map((block) => {
+            if (block.type === "text") return block;
+            if (block.type === "document") {
+              throw new Error("PDF parsing is not supported by OpenAI-compatible providers. Upload an image instead.");
+            }
+            return { type: "image_url", image_url: { url: `data:${block.mediaType};base64,${block.data}` } };
+          });
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content },
+          ],
+        }),
+      });
+      if (!response.ok) return readError(response);
+
+      const result = await response.json();
+      return {
+        text: result.choices?.[0]?.message?.content || "",
+        provider: "openai",
+        model: result.model ?? request.model,
+        usage: {
+          inputTokens: result.usage?.prompt_tokens ?? 0,
+          outputTokens: result.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
+
+const STUB_MODEL = "stub-fixtures";
+
+const stubProvider: AiProvider = {
+  name: "stub",
+  resolveModel: () => STUB_MODEL,
+  complete(request) {
+    return Promise.resolve({
+      text: JSON.stringify(AI_FIXTURES[request.task](request.fixtureInput)),
+      provider: "stub",
+      model: STUB_MODEL,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    });
+  },
+};
+
+/** Whether this deployment serves the stub, which returns canned results. */
+function isStubAllowed(): boolean {
+  return Deno.env.get("AI_PROVIDER") === "stub" || Deno.env.get("AI_ALLOW_STUB") === "true";
+}
+
+/**
+ * The request's provider if it names one, else AI_PROVIDER, else Anthropic.
+ * Requests for the stub are ignored unless the deployment allows it.
+ */
+export function resolveProviderName(requested: unknown): AiProviderName {
+  const candidates = [requested, Deno.env.get("AI_PROVIDER")];
+  const match = candidates.find(
+    (c): c is AiProviderName =>
+      AI_PROVIDER_NAMES.includes(c as AiProviderName) && (c !== "stub" || isStubAllowed())
+  );
+  return match ?? "anthropic";
+}
+
+/** Build the named provider, or null when it isn't configured. */
+export function getAiProvider(name: AiProviderName): AiProvider | null {
+  switch (name) {
+    case "stub":
+      return isStubAllowed() ? stubProvider : null;
+    case "openai": {
+      const baseUrl = Deno.env.get("OPENAI_BASE_URL");
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!baseUrl && !apiKey) return null;
+      return createOpenAiProvider(
+        baseUrl || "https://api.openai.com/v1",
+        apiKey,
+        Deno.env.get("OPENAI_MODEL") || "gpt-4o-mini"
+      );
+    }
+    case "anthropic": {
+      const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
+      return apiKey ? createAnthropicProvider(apiKey) : null;
+    }
+  }
+}
+
+/**
+ * Parse a model's JSON reply, accepting a markdown code fence around it.
+ * Throws with the start of the reply when it isn't JSON.
+ */
+export function parseAiJson<T>(aiText: string): T {
+  try {
+    const jsonMatch = aiText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[1].trim());
+      } catch {
+        // Regex extracted invalid JSON, fall back to full response text
+        return JSON.parse(aiText.trim());
+      }
+    }
+    return JSON.parse(aiText.trim());
+  } catch {
+    throw new Error(`Failed to parse AI response as JSON: ${aiText.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,119 @@
+// AI usage metering and monthly budgets. Every model call made through a
+// metered provider is logged to ai_usage with its token counts and estimated
+// cost; get_ai_budget_status compares this month's spend with the caller's
+// soft and hard limits (see the ai_usage migration).
+
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AiProvider, AiResponse, AiTask } from "./aiProvider.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** USD per million tokens. Models not listed (local, stub) count as free. */
+export const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: "claude-haiku-4-5", input: 1, output: 5 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-opus-4", input: 5, output: 25 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+];
+
+/** Model used instead of the requested one once a user passes their soft limit. */
+export const SOFT_LIMIT_MODEL = "claude-haiku-4-5-20251001";
+
+export const AI_BUDGET_EXCEEDED_MESSAGE =
+  "Monthly AI budget reached. AI features are paused until next month or until an admin raises your limit.";
+
+export type AiBudgetStatus = "ok" | "soft" | "hard";
+
+export function estimateCostUsd(model: string, usage: AiResponse["usage"]): number {
+  const pricing = MODEL_PRICING.find((p) => model.startsWith(p.prefix));
+  if (!pricing) return 0;
+  const cost = (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * The signed-in user behind the request's JWT, or null for anon/missing
+ * tokens. Service-role callers (the parse worker) act for `onBehalfOf`.
+ */
+export async function getRequestUserId(
+  supabase: SupabaseClient,
+  req: Request,
+  onBehalfOf?: string | null
+): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return onBehalfOf ?? null;
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    return error || !data.user ? null : data.user.id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where the user stands against this month's limits. Unidentified callers,
+ * users without a budget and lookup failures all count as "ok" so metering
+ * never blocks a request on its own.
+ */
+export async function checkAiBudget(supabase: SupabaseClient, userId: string | null): Promise<AiBudgetStatus> {
+  if (!userId) return "ok";
+  const { data, error } = await supabase.rpc("get_ai_budget_status", { p_user_id: userId });
+  if (error) {
+    console.error("Error checking AI budget:", error.message);
+    return "ok";
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { spent_usd: number | string; soft_limit_usd: number | string | null; hard_limit_usd: number | string | null }
+    | null
+    | undefined;
+  if (!row) return "ok";
+
+  // numeric columns come back as strings
+  const spent = Number(row.spent_usd);
+  if (row.hard_limit_usd != null && spent >= Number(row.hard_limit_usd)) return "hard";
+  if (row.soft_limit_usd != null && spent >= Number(row.soft_limit_usd)) return "soft";
+  return "ok";
+}
+
+/**
+ * Wrap a provider so every completed call is logged to ai_usage. Logging
+ * failures are reported but never fail the call.
+ */
+export function withUsageMetering(
+  provider: AiProvider,
+  supabase: SupabaseClient,
+  userId: string | null
+): AiProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const response = await provider.complete(request);
+      await recordAiUsage(supabase, userId, request.task, response);
+      return response;
+    },
+  };
+}
+
+async function recordAiUsage(
+  supabase: SupabaseClient,
+  userId: string | null,
+  task: AiTask,
+  response: AiResponse
+): Promise<void> {
+  try {
+    const { error } = await supabase.from("ai_usage").insert({
+      user_id: userId,
+      function_name: task,
+      provider: response.provider,
+      model: response.model,
+      input_tokens: response.usage.inputTokens,
+      output_tokens: response.usage.outputTokens,
+      estimated_cost_usd: estimateCostUsd(response.model, response.usage),
+    });
+    if (error) console.error("Error recording AI usage:", error.message);
+  } catch (error) {
+    console.error("Error recording AI usage:", error);
+  }
+}
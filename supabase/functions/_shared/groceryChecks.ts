@@ -0,0 +1,21 @@
+// Keys for the household's shared checklist (grocery_checks), shared by the
+// web app (via src/lib/groceryChecks.ts) and edge functions. Keep this file
+// free of imports outside _shared.
+
+/**
+ * The grocery_checks.context_id for a list. Meal plan weeks are keyed by
+ * the dates they cover rather than by the member's own week start, so a
+ * Sunday-start and a Monday-start member share one checklist: a week maps
+ * to the Monday of the Monday–Sunday week holding most of its days. Event
+ * lists keep their event ID.
+ */
+export function sharedCheckContextId(contextType: string, contextId: string): string {
+  if (contextType !== "meal_plan") return contextId;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(contextId);
+  if (!match) return contextId;
+
+  const midweek = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 3));
+  const sinceMonday = (midweek.getUTCDay() + 6) % 7;
+  midweek.setUTCDate(midweek.getUTCDate() - sinceMonday);
+  return midweek.toISOString().split("T")[0];
+}
@@ -0,0 +1,317 @@
+// Rule-based ingredient-line parser and keyword categorizer. Used when AI
+// parsing is skipped or fails, and to pre-fill manual ingredient rows.
+// Shared by the web app (via src/lib/ingredientParser.ts) and edge functions,
+// so keep it free of imports outside _shared.
+
+import { getUnitDefinition } from "./units.ts";
+
+// Mirrors GroceryCategory in src/types
+export type IngredientCategory =
+  | "produce"
+  | "meat_seafood"
+  | "dairy"
+  | "pantry"
+  | "spices"
+  | "frozen"
+  | "bakery"
+  | "beverages"
+  | "condiments"
+  | "other";
+
+export interface ParsedIngredientLine {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: IngredientCategory;
+  /** Prep, size and other notes pulled out of the line ("diced", "14 oz"). */
+  notes?: string;
+}
+
+// Override categories that the AI parser frequently gets wrong
+export const CATEGORY_OVERRIDES: Record<string, IngredientCategory> = {
+  "olive oil": "pantry",
+  "vegetable oil": "pantry",
+  "canola oil": "pantry",
+  "coconut oil": "pantry",
+  "sesame oil": "pantry",
+  "avocado oil": "pantry",
+  "tofu": "meat_seafood",
+  "tempeh": "meat_seafood",
+  "seitan": "meat_seafood",
+  "egg": "pantry",
+  "egg yolk": "pantry",
+  "egg white": "pantry",
+  "ghee": "pantry",
+  "tomato paste": "pantry",
+  "sesame seed": "pantry",
+  "water": "other",
+  "chicken stock": "pantry",
+  "low sodium chicken stock": "pantry",
+  "beef stock": "pantry",
+  "vegetable stock": "pantry",
+};
+
+const KEYWORDS_BY_CATEGORY: Partial<Record<IngredientCategory, string[]>> = {
+  produce: [
+    "apple", "arugula", "asparagus", "avocado", "banana", "basil", "bean sprout", "beet",
+    "bell pepper", "berry", "blueberry", "bok choy", "broccoli", "brussels sprout", "cabbage",
+    "cantaloupe", "carrot", "cauliflower", "celery", "chard", "cherry", "chile", "chili pepper",
+    "chive", "cilantro", "corn", "cucumber", "dill", "eggplant", "fennel", "fig", "garlic",
+    "garlic clove", "ginger", "grape", "green bean", "green onion", "green pepper", "herb",
+    "jalapeno", "jalapeño", "jalapeno pepper", "kale", "kiwi", "leek", "lemon", "lemon juice",
+    "lemongrass", "lettuce", "lime", "lime juice", "mango", "melon", "mint", "mushroom", "okra",
+    "onion", "orange", "parsley", "parsnip", "pea", "peach", "pear", "pineapple", "plum",
+    "poblano", "potato", "pumpkin", "radish", "raspberry", "red pepper", "rhubarb", "romaine",
+    "rosemary", "sage", "scallion", "serrano", "shallot", "spinach", "squash", "strawberry",
+    "thyme", "tomato", "turnip", "watermelon", "yam", "yellow pepper", "zucchini",
+  ],
+  meat_seafood: [
+    "anchovy", "bacon", "beef", "breast", "brisket", "chicken", "chop", "chorizo", "clam", "cod",
+    "crab", "drumstick", "duck", "fish", "halibut", "ham", "hot dog", "lamb", "lobster",
+    "meatball", "mussel", "oyster", "pancetta", "pepperoni", "pork", "prawn", "prosciutto",
+    "salami", "salmon", "sardine", "sausage", "scallop", "short rib", "shrimp", "steak",
+    "tenderloin", "thigh", "tilapia", "trout", "tuna", "turkey", "veal", "wing",
+  ],
+  dairy: [
+    "almond milk", "brie", "butter", "buttermilk", "cheddar", "cheese", "cottage cheese",
+    "cream", "cream cheese", "creme fraiche", "feta", "gruyere", "half and half", "heavy cream",
+    "mascarpone", "milk", "mozzarella", "oat milk", "parmesan", "pecorino", "provolone",
+    "ricotta", "sour cream", "soy milk", "yogurt",
+  ],
+  pantry: [
+    "almond", "baking powder", "baking soda", "barley", "bean", "bouillon", "breadcrumb",
+    "broth", "canned tuna", "cashew", "cereal", "chickpea", "chip", "chocolate", "cocoa",
+    "coconut", "coconut milk", "cornmeal", "cornstarch", "couscous", "cracker", "crushed tomato",
+    "diced tomato", "extract", "flaxseed", "flour", "gelatin", "granola", "honey", "jam",
+    "jelly", "lasagna", "lentil", "macaroni", "maple syrup", "molasses", "noodle", "nut", "oat",
+    "oatmeal", "oil", "panko", "pasta", "pasta sauce", "peanut", "peanut butter", "pecan",
+    "penne", "pine nut", "pistachio", "quinoa", "raisin", "rice", "seed", "soup", "spaghetti",
+    "stock", "sugar", "syrup", "tahini", "tomato sauce", "vanilla", "vinegar", "walnut", "yeast",
+  ],
+  spices: [
+    "allspice", "bay leaf", "bay leave", "black pepper", "cardamom", "cayenne", "cayenne pepper",
+    "chili powder", "cinnamon", "clove", "coriander", "cumin", "curry powder", "dried basil",
+    "dried dill", "dried oregano", "dried parsley", "dried rosemary", "dried sage", "dried thyme",
+    "garam masala", "garlic powder", "ground ginger", "italian seasoning", "nutmeg",
+    "onion powder", "oregano", "paprika", "pepper", "peppercorn", "red pepper flake", "salt",
+    "seasoning", "smoked paprika", "turmeric", "white pepper",
+  ],
+  frozen: ["ice", "ice cream"],
+  bakery: [
+    "bagel", "baguette", "bread", "brioche", "bun", "ciabatta", "croissant", "english muffin",
+    "muffin", "naan", "pita", "roll", "sourdough", "tortilla",
+  ],
+  beverages: ["beer", "coffee", "juice", "kombucha", "lemonade", "seltzer", "soda", "tea", "wine"],
+  condiments: [
+    "aioli", "barbecue sauce", "bbq sauce", "chutney", "dressing", "fish sauce", "gochujang",
+    "harissa", "hoisin", "horseradish", "hot sauce", "ketchup", "mayo", "mayonnaise", "miso",
+    "mustard", "oyster sauce", "pesto", "relish", "salsa", "sauce", "soy sauce", "sriracha",
+    "tamari", "teriyaki", "worcestershire",
+  ],
+};
+
+/**
+ * Keyword dictionary for categorizing ingredient names, matched against
+ * singular whole words. Extends CATEGORY_OVERRIDES, which win on conflicts.
+ */
+export const CATEGORY_KEYWORDS: Record<string, IngredientCategory> = {
+  ...Object.fromEntries(
+    Object.entries(KEYWORDS_BY_CATEGORY).flatMap(([category, keywords]) =>
+      keywords!.map((keyword) => [keyword, category as IngredientCategory])
+    )
+  ),
+  ...CATEGORY_OVERRIDES,
+};
+
+function singularize(word: string): string {
+  if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(ches|shes|xes|oes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us)$/.test(word) && word.length > 2) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Pick a grocery category for an ingredient name. Phrases ending at the last
+ * word are tried first, longest first, since the noun usually comes last
+ * ("cheddar cheese" → dairy, "hot dog bun" → bakery). Frozen items go to
+ * frozen whatever they are.
+ */
+export function categorizeIngredient(name: string): IngredientCategory {
+  const normalized = name.toLowerCase().replace(/[^a-z0-9ñé\s-]/g, " ").replace(/\s+/g, " ").trim();
+  if (!normalized) return "other";
+  if (CATEGORY_OVERRIDES[normalized]) return CATEGORY_OVERRIDES[normalized];
+
+  const words = normalized.split(" ").map(singularize);
+  if (words[0] === "frozen") return "frozen";
+
+  for (let end = words.length; end > 0; end--) {
+    for (let start = 0; start < end; start++) {
+      const category = CATEGORY_KEYWORDS[words.slice(start, end).join(" ")];
+      if (category) return category;
+    }
+  }
+  return "other";
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2", "⅓": "1/3", "⅔": "2/3", "¼": "1/4", "¾": "3/4", "⅕": "1/5", "⅖": "2/5",
+  "⅗": "3/5", "⅘": "4/5", "⅙": "1/6", "⅚": "5/6", "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8",
+};
+
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?`;
+const QUANTITY_PATTERN = new RegExp(String.raw`^(${NUMBER})(?:\s*(?:-|to)\s*(${NUMBER}))?(?=\s|$|[a-zA-Z(])\s*`);
+
+// Words describing how an ingredient is prepared, rather than what to buy
+const PREP_WORDS = new Set([
+  "chopped", "minced", "diced", "sliced", "grated", "shredded", "crushed", "cubed", "halved",
+  "quartered", "peeled", "melted", "softened", "beaten", "packed", "finely", "roughly",
+  "coarsely", "thinly", "freshly",
+]);
+const SIZE_WORDS = new Set(["fresh", "large", "medium", "small", "extra-large"]);
+
+// A comma-separated segment starting with one of these is a note on the
+// previous item ("1 onion, diced"), not a new item
+const NOTE_WORDS = new Set([
+  ...PREP_WORDS, "to", "for", "divided", "optional", "at", "plus", "or", "cut", "seeded",
+  "drained", "rinsed", "trimmed", "room", "about", "cored", "deveined", "stemmed", "torn",
+  "julienned", "toasted", "warmed", "cooled", "chilled", "separated", "lightly", "if",
+  "such", "preferably",
+]);
+
+const TRAILING_NOTES = /\s+(to taste|for (?:garnish|serving|topping|frying|greasing)|divided|optional|or more|as needed)$/i;
+
+/** "2", "1.5", "1/2" or "1 1/2" as a number; null when it isn't one. */
+export function parseNumber(value: string): number | null {
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) === 0 ? null : Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  const n = parseFloat(value);
+  return Number.isNaN(n) ? null : n;
+}
+
+function normalizeLine(line: string): string {
+  return line
+    // "1½" → "1 1/2", "½" → "1/2"
+    .replace(/(\d)?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, frac: string) =>
+      `${whole ? `${whole} ` : ""}${UNICODE_FRACTIONS[frac]}`
+    )
+    .replace(/⁄/g, "/")
+    .replace(/[–—]/g, "-")
+    // List bullets and checkboxes
+    .replace(/^\s*[-*•·▢□☐]\s*/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Match a known unit at the start of `words`, trying two-word units first. */
+function matchUnit(words: string[]): { unit: string; length: number } | null {
+  for (const length of [2, 1]) {
+    if (words.length <= length) continue; // leave at least one word for the name
+    const candidate = words.slice(0, length).join(" ").replace(/[.,]$/, "");
+    const def = getUnitDefinition(candidate);
+    if (def) return { unit: def.name, length };
+  }
+  return null;
+}
+
+/** Parse one ingredient line, e.g. "1 (14 oz) can diced tomatoes, drained". */
+export function parseIngredientLine(line: string): ParsedIngredientLine | null {
+  let rest = normalizeLine(line);
+  if (!rest) return null;
+  const notes: string[] = [];
+
+  // Parenthetical sizes and asides: "(14 oz)", "(optional)"
+  rest = rest
+    .replace(/\(([^)]*)\)/g, (_, inner: string) => {
+      if (inner.trim()) notes.push(inner.trim());
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  let quantity: number | null = null;
+  const quantityMatch = rest.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    // For ranges ("2-3"), shop for the upper end
+    quantity = parseNumber(quantityMatch[2] ?? quantityMatch[1]);
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  let unit: string | null = null;
+  const words = rest.split(" ");
+  // "a pinch of salt", "an 8 oz package" — only when a unit follows
+  const article = quantity == null && /^an?$/i.test(words[0]) ? 1 : 0;
+  if (quantity != null || article) {
+    const unitMatch = matchUnit(words.slice(article));
+    if (unitMatch) {
+      unit = unitMatch.unit;
+      if (article) quantity = 1;
+      rest = words.slice(article + unitMatch.length).join(" ");
+    }
+  }
+  rest = rest.replace(/^of\s+/i, "");
+
+  // "onion, diced" — everything after the first comma is a note
+  const commaIndex = rest.indexOf(",");
+  if (commaIndex >= 0) {
+    const tail = rest.slice(commaIndex + 1).trim();
+    if (tail) notes.push(tail);
+    rest = rest.slice(0, commaIndex);
+  }
+  const trailing = rest.match(TRAILING_NOTES);
+  if (trailing) {
+    notes.push(trailing[1]);
+    rest = rest.slice(0, trailing.index);
+  }
+
+  // Leading prep and size words ("finely chopped onion"), except for packaged
+  // goods where they name the product ("1 can diced tomatoes")
+  const nameWords = rest.trim().split(" ").filter(Boolean);
+  if (getUnitDefinition(unit)?.dimension !== "package") {
+    const prep: string[] = [];
+    const isLeadingNote = (word: string) =>
+      PREP_WORDS.has(word) || SIZE_WORDS.has(word) || (word === "and" && prep.length > 0);
+    while (nameWords.length > 1 && isLeadingNote(nameWords[0].toLowerCase())) {
+      prep.push(nameWords.shift()!);
+    }
+    if (prep.length > 0 && prep[prep.length - 1].toLowerCase() === "and") prep.pop();
+    if (prep.length > 0) notes.unshift(prep.join(" "));
+  }
+
+  const name = nameWords.join(" ").replace(/[.,;:]+$/, "").trim();
+  if (!name) return null;
+
+  return {
+    name,
+    quantity,
+    unit,
+    category: categorizeIngredient(name),
+    ...(notes.length > 0 ? { notes: notes.join(", ") } : {}),
+  };
+}
+
+function isNoteSegment(segment: string): boolean {
+  return NOTE_WORDS.has(segment.trim().split(" ")[0].toLowerCase());
+}
+
+/**
+ * Parse free text into ingredients, one per line or comma-separated item.
+ * Comma segments that read as notes ("1 onion, diced") stay with their item.
+ */
+export function parseIngredientLines(text: string): ParsedIngredientLine[] {
+  const entries: string[] = [];
+  for (const line of text.split(/\n/)) {
+    const segments = line.split(",").filter((segment) => segment.trim());
+    segments.forEach((segment, i) => {
+      if (i > 0 && isNoteSegment(segment)) {
+        entries[entries.length - 1] += `,${segment}`;
+      } else {
+        entries.push(segment);
+      }
+    });
+  }
+  return entries
+    .map(parseIngredientLine)
+    .filter((item): item is ParsedIngredientLine => item !== null);
+}
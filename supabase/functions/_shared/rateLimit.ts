@@ -0,0 +1,128 @@
+// Request throttling for edge functions that send email or spend AI and
+// partner API quota. Each function has a token bucket per signed-in user and
+// per client IP, stored in rate_limit_buckets (see the rate_limits
+// migration) so limits hold across function instances.
+
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type RateLimitedFunction =
+  | "send-contact-email"
+  | "parse-recipe"
+  | "parse-recipe-worker"
+  | "process-grocery-list"
+  | "instacart-recipe"
+  | "grocery-api";
+
+/** A bucket holds up to `capacity` requests and regains `refillPerMinute` a minute. */
+export interface BucketLimit {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/**
+ * Limits per function. IP buckets are roomier than user buckets since a
+ * household or office can share one address.
+ */
+export const RATE_LIMITS: Record<RateLimitedFunction, { user: BucketLimit; ip: BucketLimit }> = {
+  "send-contact-email": {
+    user: { capacity: 5, refillPerMinute: 5 / 60 },
+    ip: { capacity: 10, refillPerMinute: 10 / 60 },
+  },
+  "parse-recipe": {
+    user: { capacity: 30, refillPerMinute: 0.5 },
+    ip: { capacity: 60, refillPerMinute: 1 },
+  },
+  // Kicks only start a drain sooner; throttled ones wait for the scheduled run
+  "parse-recipe-worker": {
+    user: { capacity: 30, refillPerMinute: 2 },
+    ip: { capacity: 60, refillPerMinute: 4 },
+  },
+  "process-grocery-list": {
+    user: { capacity: 30, refillPerMinute: 1 },
+    ip: { capacity: 60, refillPerMinute: 2 },
+  },
+  "instacart-recipe": {
+    user: { capacity: 20, refillPerMinute: 20 / 60 },
+    ip: { capacity: 40, refillPerMinute: 40 / 60 },
+  },
+  "grocery-api": {
+    user: { capacity: 120, refillPerMinute: 60 },
+    ip: { capacity: 240, refillPerMinute: 120 },
+  },
+};
+
+export const RATE_LIMITED_MESSAGE = "Too many requests. Please wait a moment and try again.";
+
+/**
+ * The client's address as reported by the edge gateway, or null when it isn't.
+ * Clients can send their own x-forwarded-for, so only the last hop, which the
+ * gateway appends, is trusted.
+ */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || req.headers.get("x-real-ip") || null;
+}
+
+/**
+ * Take a request from the caller's buckets for `functionName`. Returns the
+ * seconds to wait when either bucket is empty, or null to go ahead.
+ * Service-role callers (other functions, the parse worker, cron) acting for a
+ * user are charged to that user's bucket only, since the IP is the calling
+ * function's; service-role calls for no one aren't limited. Lookup failures
+ * let the request through so throttling never takes a function down on its own.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  req: Request,
+  functionName: RateLimitedFunction,
+  userId: string | null
+): Promise<number | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  const isServiceRole = !!token && token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (isServiceRole && !userId) return null;
+
+  const limits = RATE_LIMITS[functionName];
+  const ip = isServiceRole ? null : getClientIp(req);
+  const buckets = [
+    ...(userId ? [{ type: "user", caller: userId, limit: limits.user }] : []),
+    ...(ip ? [{ type: "ip", caller: ip, limit: limits.ip }] : []),
+  ];
+
+  const waits = await Promise.all(buckets.map(async ({ type, caller, limit }) => {
+    const { data, error } = await supabase.rpc("consume_rate_limit", {
+      p_function_name: functionName,
+      p_caller_type: type,
+      p_caller: caller,
+      p_capacity: limit.capacity,
+      p_refill_per_minute: limit.refillPerMinute,
+    });
+    if (error) {
+      console.error("Error checking rate limit:", error.message);
+      return 0;
+    }
+    return typeof data === "number" ? data : 0;
+  }));
+
+  const retryAfter = Math.max(0, ...waits);
+  if (retryAfter === 0) return null;
+  console.log(`Throttled ${functionName} for ${userId ?? ip}: retry in ${retryAfter}s`);
+  return retryAfter;
+}
+
+/** 429 response telling the client when to retry. */
+export function rateLimitedResponse(retryAfter: number, corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: RATE_LIMITED_MESSAGE, retryAfter }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfter),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
+}
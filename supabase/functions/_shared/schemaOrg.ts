@@ -0,0 +1,333 @@
+// Schema.org Recipe extraction from JSON-LD, microdata (itemprop) and
+// microformats h-recipe markup. Pages with complete structured data are
+// mapped straight to a parsed recipe without calling the AI.
+// Shared by parse-recipe and the web app's recipe importer (via
+// src/lib/schemaOrg.ts), so keep it free of imports.
+
+export type StructuredDataSource = "json-ld" | "microdata" | "h-recipe";
+
+/** Recipe fields as published by the page, before any normalization. */
+export interface StructuredRecipe {
+  source: StructuredDataSource;
+  name: string | null;
+  description: string | null;
+  recipeYield: string | null;
+  prepTime: string | null;
+  cookTime: string | null;
+  totalTime: string | null;
+  ingredients: string[];
+  instructions: string[];
+  publisher: string | null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", frac12: "½", frac14: "¼", frac34: "¾",
+  deg: "°", ndash: "–", mdash: "—", rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“", hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) ? entity : String.fromCodePoint(n);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/** Strip tags and entities; JSON-LD fields often carry HTML too. */
+function cleanText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .replace(/ ([.,;:!?])/g, "$1")
+    .trim();
+}
+
+function textOrNull(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  return cleanText(value) || null;
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+// deno-lint-ignore no-explicit-any
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type JsonLdNode = Record<string, any>;
+
+function isRecipeNode(node: JsonLdNode | null | undefined): boolean {
+  const type = node?.["@type"];
+  return type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+}
+
+/** Every Recipe node in parsed JSON-LD: a single node, an array of nodes, or nodes under @graph. */
+export function findJsonLdRecipes(data: unknown): JsonLdNode[] {
+  const items = Array.isArray(data) ? data : [data];
+  const recipes: JsonLdNode[] = [];
+  for (const item of items) {
+    // Direct Recipe type
+    if (isRecipeNode(item)) recipes.push(item);
+    // Check @graph array (common in WordPress sites)
+    else if (Array.isArray(item?.["@graph"])) {
+      recipes.push(...item["@graph"].filter(isRecipeNode));
+    }
+  }
+  return recipes;
+}
+
+// Extract Schema.org/Recipe from JSON-LD script tags
+export function extractJsonLdRecipe(html: string): JsonLdNode | null {
+  const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match;
+  while ((match = scriptRegex.exec(html)) !== null) {
+    try {
+      const [recipe] = findJsonLdRecipes(JSON.parse(match[1]));
+      if (recipe) return recipe;
+    } catch {
+      // Invalid JSON in this script tag, try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Flatten recipeInstructions: a string, HowToStep objects, or HowToSection
+ * objects whose itemListElement holds further steps (nested to any depth).
+ */
+function flattenInstructions(value: unknown): string[] {
+  if (typeof value === "string") {
+    // A single block of text, sometimes with one step per line or <li>
+    return value.includes("<li") ? htmlToSteps(value) : value.split(/\n+/).map(cleanText).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(flattenInstructions);
+  if (value && typeof value === "object") {
+    const node = value as JsonLdNode;
+    if (node.itemListElement) return flattenInstructions(node.itemListElement);
+    const text = textOrNull(node.text) ?? textOrNull(node.name);
+    return text ? [text] : [];
+  }
+  return [];
+}
+
+function yieldText(value: unknown): string | null {
+  // Sites often publish both ["4", "4 servings"]; prefer the descriptive one
+  if (Array.isArray(value)) {
+    const texts = value.map(textOrNull).filter((v): v is string => !!v);
+    return texts.find((v) => /\D/.test(v)) ?? texts[0] ?? null;
+  }
+  return textOrNull(value);
+}
+
+export function fromJsonLd(node: JsonLdNode): StructuredRecipe {
+  const ingredients = Array.isArray(node.recipeIngredient)
+    ? node.recipeIngredient
+    : Array.isArray(node.ingredients) ? node.ingredients : [];
+  const publisher = Array.isArray(node.publisher) ? node.publisher[0] : node.publisher;
+  return {
+    source: "json-ld",
+    name: textOrNull(node.name),
+    description: textOrNull(node.description),
+    recipeYield: yieldText(node.recipeYield),
+    prepTime: textOrNull(node.prepTime),
+    cookTime: textOrNull(node.cookTime),
+    totalTime: textOrNull(node.totalTime),
+    ingredients: ingredients.map(textOrNull).filter((v: string | null): v is string => !!v),
+    instructions: flattenInstructions(node.recipeInstructions),
+    publisher: textOrNull(publisher?.name ?? publisher),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTML markup (microdata and h-recipe)
+// ---------------------------------------------------------------------------
+
+const VOID_TAGS = new Set(["meta", "link", "img", "br", "hr", "input", "source"]);
+
+interface HtmlElement {
+  attrs: string;
+  inner: string;
+}
+
+function getAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)')`, "i"));
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/**
+ * Find elements whose `attr` (itemprop or class) contains `token` as a whole
+ * word, returning each element's attributes and inner HTML. Nested elements
+ * with the same tag name are balanced.
+ */
+function findElements(html: string, attr: "itemprop" | "itemtype" | "class", token: string): HtmlElement[] {
+  const escaped = token.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  const openRegex = new RegExp(
+    `<([a-z][a-z0-9]*)\\b([^>]*\\b${attr}=["'](?:[^"']*\\s)?${escaped}(?=[\\s"'])[^>]*)>`,
+    "gi"
+  );
+  const elements: HtmlElement[] = [];
+  let match;
+  while ((match = openRegex.exec(html)) !== null) {
+    const tag = match[1].toLowerCase();
+    const attrs = match[2];
+    const contentStart = match.index + match[0].length;
+    if (VOID_TAGS.has(tag) || attrs.trim().endsWith("/")) {
+      elements.push({ attrs, inner: "" });
+      continue;
+    }
+
+    const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+    tagRegex.lastIndex = contentStart;
+    let depth = 1;
+    let end = html.length;
+    let tagMatch;
+    while ((tagMatch = tagRegex.exec(html)) !== null) {
+      depth += tagMatch[1] ? -1 : 1;
+      if (depth === 0) {
+        end = tagMatch.index;
+        break;
+      }
+    }
+    elements.push({ attrs, inner: html.slice(contentStart, end) });
+  }
+  return elements;
+}
+
+function elementValue(element: HtmlElement): string | null {
+  const value = getAttr(element.attrs, "content") ?? getAttr(element.attrs, "datetime");
+  return value != null ? cleanText(value) || null : cleanText(element.inner) || null;
+}
+
+/** Split an instructions block into steps by list item, paragraph or line break. */
+function htmlToSteps(html: string): string[] {
+  for (const tag of ["li", "p"]) {
+    const items = [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "gi"))]
+      .map((m) => cleanText(m[1]))
+      .filter(Boolean);
+    if (items.length > 0) return items;
+  }
+  return html.split(/<br\s*\/?>|\n+/i).map(cleanText).filter(Boolean);
+}
+
+function firstValue(scope: string, attr: "itemprop" | "class", tokens: string[]): string | null {
+  for (const token of tokens) {
+    const element = findElements(scope, attr, token)[0];
+    const value = element ? elementValue(element) : null;
+    if (value) return value;
+  }
+  return null;
+}
+
+function allValues(scope: string, attr: "itemprop" | "class", tokens: string[]): string[] {
+  for (const token of tokens) {
+    const values = findElements(scope, attr, token)
+      .map(elementValue)
+      .filter((v): v is string => !!v);
+    if (values.length > 0) return values;
+  }
+  return [];
+}
+
+function stepsFrom(elements: HtmlElement[]): string[] {
+  return elements.flatMap((element) => {
+    // HowToStep microdata nests the step text in itemprop="text"
+    const nested = findElements(element.inner, "itemprop", "text");
+    if (nested.length > 0) return nested.map(elementValue).filter((v): v is string => !!v);
+    return htmlToSteps(element.inner);
+  });
+}
+
+export function extractMicrodataRecipe(html: string): StructuredRecipe | null {
+  const root = findElements(html, "itemtype", "https://schema.org/Recipe")[0] ??
+    findElements(html, "itemtype", "http://schema.org/Recipe")[0];
+  if (!root) return null;
+  const scope = root.inner;
+
+  return {
+    source: "microdata",
+    name: firstValue(scope, "itemprop", ["name"]),
+    description: firstValue(scope, "itemprop", ["description"]),
+    recipeYield: firstValue(scope, "itemprop", ["recipeYield"]),
+    prepTime: firstValue(scope, "itemprop", ["prepTime"]),
+    cookTime: firstValue(scope, "itemprop", ["cookTime"]),
+    totalTime: firstValue(scope, "itemprop", ["totalTime"]),
+    ingredients: allValues(scope, "itemprop", ["recipeIngredient", "ingredients"]),
+    instructions: stepsFrom(findElements(scope, "itemprop", "recipeInstructions")),
+    publisher: null,
+  };
+}
+
+export function extractHRecipe(html: string): StructuredRecipe | null {
+  const root = findElements(html, "class", "h-recipe")[0];
+  if (!root) return null;
+  const scope = root.inner;
+
+  return {
+    source: "h-recipe",
+    name: firstValue(scope, "class", ["p-name"]),
+    description: firstValue(scope, "class", ["p-summary", "e-summary"]),
+    recipeYield: firstValue(scope, "class", ["p-yield"]),
+    prepTime: null,
+    cookTime: null,
+    // h-recipe has a single duration for the whole recipe
+    totalTime: firstValue(scope, "class", ["dt-duration"]),
+    ingredients: allValues(scope, "class", ["p-ingredient"]),
+    instructions: stepsFrom(findElements(scope, "class", "e-instructions")),
+    publisher: null,
+  };
+}
+
+/**
+ * Find the page's recipe markup, preferring JSON-LD, then microdata, then
+ * h-recipe. The publisher falls back to the page's og:site_name.
+ */
+export function extractStructuredRecipe(html: string): StructuredRecipe | null {
+  const jsonLd = extractJsonLdRecipe(html);
+  const recipe = jsonLd ? fromJsonLd(jsonLd) : extractMicrodataRecipe(html) ?? extractHRecipe(html);
+  if (recipe && !recipe.publisher) {
+    const siteName = html.match(/<meta[^>]*property=["']og:site_name["'][^>]*>/i);
+    recipe.publisher = siteName ? textOrNull(getAttr(siteName[0], "content")) : null;
+  }
+  return recipe;
+}
+
+/** Enough data to build the recipe without the AI. */
+export function isCompleteRecipe(recipe: StructuredRecipe): boolean {
+  return recipe.ingredients.length > 0 && recipe.instructions.length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Field normalization
+// ---------------------------------------------------------------------------
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/**
+ * Turn an ISO-8601 duration ("PT1H30M") into "1 hour 30 minutes". Values
+ * that aren't ISO durations are returned as published; zero durations are
+ * treated as missing.
+ */
+export function formatDuration(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return value.trim() || null;
+
+  const days = Number(match[1] ?? 0);
+  const totalMinutes = Math.round(Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0) + Number(match[4] ?? 0) / 60);
+  const hours = days * 24 + Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(plural(hours, "hour"));
+  if (minutes > 0) parts.push(plural(minutes, "minute"));
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/** "4" → "4 servings"; anything descriptive is kept as published. */
+export function formatYield(value: string | null): string | null {
+  if (!value) return null;
+  return /^\d+$/.test(value) ? plural(Number(value), "serving") : value;
+}
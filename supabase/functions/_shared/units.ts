@@ -0,0 +1,224 @@
+// Unit definitions and arithmetic, shared by the web app (via src/lib/units.ts)
+// and edge functions. Keep this file free of imports outside _shared.
+
+export type UnitDimension = "volume" | "mass" | "count" | "package";
+export type UnitSystem = "us" | "metric";
+
+export interface UnitDefinition {
+  /** Canonical unit name, as stored on recipe_ingredients.unit */
+  name: string;
+  dimension: UnitDimension;
+  /** Size in the dimension's base unit (ml for volume, g for mass, 1 otherwise) */
+  factor: number;
+  system?: UnitSystem;
+}
+
+export interface Measure {
+  quantity?: number;
+  unit?: string;
+}
+
+// US customary units are defined from exact multiples so tbsp → tsp is exactly 3
+const TSP_ML = 4.92892159375;
+const OZ_G = 28.349523125;
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Volume (base: ml)
+  { name: "tsp", dimension: "volume", factor: TSP_ML, system: "us" },
+  { name: "tbsp", dimension: "volume", factor: TSP_ML * 3, system: "us" },
+  { name: "fl oz", dimension: "volume", factor: TSP_ML * 6, system: "us" },
+  { name: "cup", dimension: "volume", factor: TSP_ML * 48, system: "us" },
+  { name: "pint", dimension: "volume", factor: TSP_ML * 96, system: "us" },
+  { name: "quart", dimension: "volume", factor: TSP_ML * 192, system: "us" },
+  { name: "gallon", dimension: "volume", factor: TSP_ML * 768, system: "us" },
+  { name: "ml", dimension: "volume", factor: 1, system: "metric" },
+  { name: "liter", dimension: "volume", factor: 1000, system: "metric" },
+  // Mass (base: g)
+  { name: "oz", dimension: "mass", factor: OZ_G, system: "us" },
+  { name: "lb", dimension: "mass", factor: OZ_G * 16, system: "us" },
+  { name: "mg", dimension: "mass", factor: 0.001, system: "metric" },
+  { name: "g", dimension: "mass", factor: 1, system: "metric" },
+  { name: "kg", dimension: "mass", factor: 1000, system: "metric" },
+  // Count — only combine with the same unit
+  { name: "clove", dimension: "count", factor: 1 },
+  { name: "stalk", dimension: "count", factor: 1 },
+  { name: "strip", dimension: "count", factor: 1 },
+  { name: "ear", dimension: "count", factor: 1 },
+  { name: "head", dimension: "count", factor: 1 },
+  { name: "bunch", dimension: "count", factor: 1 },
+  { name: "sprig", dimension: "count", factor: 1 },
+  { name: "piece", dimension: "count", factor: 1 },
+  { name: "slice", dimension: "count", factor: 1 },
+  { name: "rib", dimension: "count", factor: 1 },
+  { name: "leaf", dimension: "count", factor: 1 },
+  { name: "pinch", dimension: "count", factor: 1 },
+  { name: "dash", dimension: "count", factor: 1 },
+  { name: "handful", dimension: "count", factor: 1 },
+  // Package — sizes vary by product, so only combine with the same unit
+  { name: "can", dimension: "package", factor: 1 },
+  { name: "jar", dimension: "package", factor: 1 },
+  { name: "bottle", dimension: "package", factor: 1 },
+  { name: "package", dimension: "package", factor: 1 },
+  { name: "box", dimension: "package", factor: 1 },
+  { name: "bag", dimension: "package", factor: 1 },
+  { name: "container", dimension: "package", factor: 1 },
+  { name: "carton", dimension: "package", factor: 1 },
+  { name: "stick", dimension: "package", factor: 1 },
+];
+
+const UNITS_BY_NAME = new Map(UNIT_DEFINITIONS.map((u) => [u.name, u]));
+
+// Spellings seen in recipes and AI output, mapped to canonical names.
+// Case-sensitive aliases ("T" vs "t") are handled in normalizeUnit.
+const UNIT_ALIASES: Record<string, string> = {
+  teaspoon: "tsp", teaspoons: "tsp", tsps: "tsp", ts: "tsp",
+  tablespoon: "tbsp", tablespoons: "tbsp", tbsps: "tbsp", tbs: "tbsp", tbl: "tbsp",
+  "fluid ounce": "fl oz", "fluid ounces": "fl oz", "fl. oz": "fl oz", floz: "fl oz",
+  cups: "cup", c: "cup",
+  pints: "pint", pt: "pint",
+  quarts: "quart", qt: "quart", qts: "quart",
+  gallons: "gallon", gal: "gallon",
+  milliliter: "ml", milliliters: "ml", millilitre: "ml", millilitres: "ml", mls: "ml",
+  l: "liter", liters: "liter", litre: "liter", litres: "liter", ltr: "liter",
+  ounce: "oz", ounces: "oz",
+  pound: "lb", pounds: "lb", lbs: "lb",
+  milligram: "mg", milligrams: "mg",
+  gram: "g", grams: "g", gr: "g", grs: "g",
+  kilogram: "kg", kilograms: "kg", kgs: "kg", kilo: "kg", kilos: "kg",
+  cloves: "clove", stalks: "stalk", strips: "strip", ears: "ear", heads: "head",
+  bunches: "bunch", sprigs: "sprig", pieces: "piece", pc: "piece", pcs: "piece",
+  slices: "slice", ribs: "rib", leaves: "leaf", pinches: "pinch", dashes: "dash",
+  handfuls: "handful",
+  cans: "can", jars: "jar", bottles: "bottle",
+  packages: "package", pkg: "package", pkgs: "package", packet: "package", packets: "package",
+  boxes: "box", bags: "bag", containers: "container", cartons: "carton", sticks: "stick",
+};
+
+// Units offered when re-expressing a mixed-unit total, smallest first
+const DISPLAY_LADDERS: Record<UnitSystem, Partial<Record<UnitDimension, string[]>>> = {
+  us: { volume: ["tsp", "tbsp", "cup"], mass: ["oz", "lb"] },
+  metric: { volume: ["ml", "liter"], mass: ["g", "kg"] },
+};
+
+/**
+ * Normalize a free-text unit to its canonical name ("Tablespoons" → "tbsp").
+ * Unknown units are returned lowercased and trimmed so they still compare
+ * equal to themselves; empty input returns undefined.
+ */
+export function normalizeUnit(unit: string | null | undefined): string | undefined {
+  if (unit == null) return undefined;
+  const trimmed = unit.trim().replace(/\.$/, "");
+  if (!trimmed) return undefined;
+  // Cookbook shorthand: capital T is a tablespoon, lowercase t a teaspoon
+  if (trimmed === "T") return "tbsp";
+  if (trimmed === "t") return "tsp";
+  const lower = trimmed.toLowerCase().replace(/\s+/g, " ");
+  if (UNITS_BY_NAME.has(lower)) return lower;
+  return UNIT_ALIASES[lower] ?? lower;
+}
+
+export function getUnitDefinition(unit: string | null | undefined): UnitDefinition | undefined {
+  const normalized = normalizeUnit(unit);
+  return normalized ? UNITS_BY_NAME.get(normalized) : undefined;
+}
+
+/**
+ * Two units can be summed when they are the same unit, or both volume or
+ * both mass. Count and package units never convert to anything else.
+ */
+export function areUnitsCompatible(a: string | null | undefined, b: string | null | undefined): boolean {
+  const na = normalizeUnit(a);
+  const nb = normalizeUnit(b);
+  if (na === nb) return true;
+  const da = na ? UNITS_BY_NAME.get(na) : undefined;
+  const db = nb ? UNITS_BY_NAME.get(nb) : undefined;
+  if (!da || !db) return false;
+  return da.dimension === db.dimension && (da.dimension === "volume" || da.dimension === "mass");
+}
+
+/** Convert a quantity between compatible units, or undefined when they are not. */
+export function convertQuantity(
+  quantity: number,
+  from: string | null | undefined,
+  to: string | null | undefined
+): number | undefined {
+  if (!areUnitsCompatible(from, to)) return undefined;
+  const fromDef = getUnitDefinition(from);
+  const toDef = getUnitDefinition(to);
+  if (!fromDef || !toDef) return quantity;
+  return roundQuantity((quantity * fromDef.factor) / toDef.factor);
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** A quantity reads cleanly if it lands on eighths or thirds (US) or tenths (metric). */
+function isCleanQuantity(value: number, system: UnitSystem): boolean {
+  const steps = system === "metric" ? [10] : [8, 3];
+  return steps.some((step) => Math.abs(value * step - Math.round(value * step)) < 0.02);
+}
+
+/**
+ * Pick the unit to show a summed amount in. Keeps the input unit when every
+ * measure used the same one; otherwise uses the largest unit on the system's
+ * ladder that yields a clean amount of at least 1, falling back to the
+ * smallest unit among the inputs.
+ */
+function chooseDisplayUnit(baseAmount: number, units: UnitDefinition[]): UnitDefinition {
+  const distinct = [...new Set(units.map((u) => u.name))].map((n) => UNITS_BY_NAME.get(n)!);
+  if (distinct.length === 1) return distinct[0];
+
+  const system = units[0].system ?? "us";
+  const dimension = units[0].dimension;
+  const ladder = DISPLAY_LADDERS[system][dimension] ?? [];
+  for (const name of [...ladder].reverse()) {
+    const def = UNITS_BY_NAME.get(name)!;
+    const amount = baseAmount / def.factor;
+    if (amount >= 1 && isCleanQuantity(amount, system)) return def;
+  }
+  const sameSystem = distinct.filter((u) => (u.system ?? "us") === system);
+  return sameSystem.reduce((smallest, u) => (u.factor < smallest.factor ? u : smallest));
+}
+
+/**
+ * Sum a list of measures of the same ingredient. Compatible units are
+ * converted and added; incompatible ones come back as separate measures so
+ * nothing is dropped. Measures without a quantity are absorbed when any
+ * quantified measure exists, otherwise a single unquantified measure remains.
+ */
+export function sumMeasures(measures: Measure[]): Measure[] {
+  const groups: { unit?: string; defs: UnitDefinition[]; base: number }[] = [];
+  let unquantifiedUnit: string | undefined;
+  let sawUnquantified = false;
+
+  for (const measure of measures) {
+    const unit = normalizeUnit(measure.unit);
+    if (measure.quantity == null || Number.isNaN(measure.quantity)) {
+      if (!sawUnquantified) unquantifiedUnit = unit;
+      sawUnquantified = true;
+      continue;
+    }
+    const def = unit ? UNITS_BY_NAME.get(unit) : undefined;
+    const group = groups.find((g) => areUnitsCompatible(g.unit, unit));
+    const base = measure.quantity * (def?.factor ?? 1);
+    if (group) {
+      group.base += base;
+      if (def) group.defs.push(def);
+    } else {
+      groups.push({ unit, defs: def ? [def] : [], base });
+    }
+  }
+
+  if (groups.length === 0) {
+    return sawUnquantified ? [{ quantity: undefined, unit: unquantifiedUnit }] : [];
+  }
+
+  return groups.map((group) => {
+    if (group.defs.length === 0) {
+      return { quantity: roundQuantity(group.base), unit: group.unit };
+    }
+    const display = chooseDisplayUnit(group.base, group.defs);
+    return { quantity: roundQuantity(group.base / display.factor), unit: display.name };
+  });
+}
@@ -0,0 +1,270 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Deletes uploads nothing references any more. Lists the upload buckets,
+// collects every storage URL held by recipes, recipe notes and meal plans,
+// and removes the files left over once past a grace period. Dry runs (the
+// default) only report what would go. Every run is recorded in
+// storage_cleanup_runs. Runs daily on pg_cron with {"dryRun": false}; admins
+// can start either kind of run from the app.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/** Buckets holding uploads. Each photo's thumbnail sits in a thumbs/ folder next to it. */
+const BUCKETS = ["recipe-images", "recipe-photos"];
+
+/**
+ * Files younger than this are kept even when unreferenced: uploads happen
+ * before the recipe or note pointing at them is saved.
+ */
+const GRACE_PERIOD_HOURS = 24;
+
+const LIST_PAGE_SIZE = 1000;
+const SELECT_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+/** Orphans listed in a run's report. Counts and sizes always cover all of them. */
+const MAX_REPORTED_ORPHANS = 500;
+
+interface CleanupRequest {
+  /** Report without deleting. Defaults to true. */
+  dryRun?: boolean;
+}
+
+interface StoredFile {
+  bucket: string;
+  path: string;
+  size: number;
+  created_at: string | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** "bucket/path" of a public storage URL, or null for links elsewhere. */
+function storageKey(url: string): string | null {
+  const match = url.match(/\/storage\/v1\/object\/public\/([^?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** The file a thumbnail belongs to; other paths map to themselves. */
+function originalPath(path: string): string {
+  return path.replace(/(^|\/)thumbs\/([^/]+)$/, "$1$2");
+}
+
+/** Every file in a bucket, descending into folders. */
+async function listBucket(supabase: SupabaseClient, bucket: string, prefix = ""): Promise<StoredFile[]> {
+  const files: StoredFile[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+    if (error) throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`);
+
+    for (const entry of data ?? []) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.id === null) {
+        // Folders have no id
+        files.push(...await listBucket(supabase, bucket, path));
+      } else if (entry.name !== ".emptyFolderPlaceholder") {
+        files.push({
+          bucket,
+          path,
+          size: Number(entry.metadata?.size ?? 0),
+          created_at: entry.created_at ?? null,
+        });
+      }
+    }
+
+    if (!data || data.length < LIST_PAGE_SIZE) break;
+  }
+  return files;
+}
+
+async function selectAll<T>(supabase: SupabaseClient, table: string, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order("id")
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < SELECT_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Storage keys of every upload still in use. */
+async function loadReferencedKeys(supabase: SupabaseClient): Promise<Set<string>> {
+  const [recipes, notes, mealPlanItems] = await Promise.all([
+    selectAll<{ url: string | null; source_files: string[] | null }>(supabase, "recipes", "id, url, source_files"),
+    selectAll<{ photos: string[] | null }>(supabase, "recipe_notes", "id, photos"),
+    selectAll<{ custom_url: string | null }>(supabase, "meal_plan_items", "id, custom_url"),
+  ]);
+
+  const urls = [
+    ...recipes.flatMap((recipe) => [recipe.url, ...(recipe.source_files ?? [])]),
+    ...notes.flatMap((note) => note.photos ?? []),
+    ...mealPlanItems.map((item) => item.custom_url),
+  ];
+
+  const keys = new Set<string>();
+  for (const url of urls) {
+    const key = url ? storageKey(url) : null;
+    if (key) keys.add(key);
+  }
+  return keys;
+}
+
+/**
+ * Remove files bucket by bucket. Returns what was deleted and the errors of
+ * any batches that failed, which are left for the next run.
+ */
+async function removeFiles(
+  supabase: SupabaseClient,
+  files: StoredFile[]
+): Promise<{ deletedCount: number; reclaimedBytes: number; errors: string[] }> {
+  let deletedCount = 0;
+  let reclaimedBytes = 0;
+  const errors: string[] = [];
+
+  for (const bucket of BUCKETS) {
+    const bucketFiles = files.filter((file) => file.bucket === bucket);
+    for (let i = 0; i < bucketFiles.length; i += REMOVE_BATCH_SIZE) {
+      const batch = bucketFiles.slice(i, i + REMOVE_BATCH_SIZE);
+      const { error } = await supabase.storage.from(bucket).remove(batch.map((file) => file.path));
+      if (error) {
+        errors.push(`${bucket}: ${error.message}`);
+        continue;
+      }
+      deletedCount += batch.length;
+      reclaimedBytes += batch.reduce((sum, file) => sum + file.size, 0);
+    }
+  }
+
+  return { deletedCount, reclaimedBytes, errors };
+}
+
+/**
+ * Who may run a cleanup: pg_cron with the service role key, or a signed-in
+ * admin. Returns the admin's user id (null for the schedule), or an error
+ * response.
+ */
+async function authorize(
+  req: Request,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<{ userId: string | null } | { response: Response }> {
+  const deny = (error: string, status: number) => ({
+    response: new Response(
+      JSON.stringify({ success: false, error }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status }
+    ),
+  });
+
+  const authHeader = req.headers.get("Authorization");
+  const token = authHeader?.replace(/^Bearer\s+/i, "");
+  if (!authHeader || !token) return deny("Missing Authorization header", 401);
+  if (token === supabaseServiceKey) return { userId: null };
+
+  // The caller's own client, so current_user_is_admin sees their auth.uid()
+  const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error: userError } = await supabaseUser.auth.getUser(token);
+  if (userError || !user) return deny("Invalid or expired token", 401);
+
+  const { data: isAdmin, error: adminError } = await supabaseUser.rpc("current_user_is_admin");
+  if (adminError || !isAdmin) return deny("Only admins can clean up storage", 403);
+
+  return { userId: user.id };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const startedAt = new Date();
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const auth = await authorize(req, supabaseUrl, supabaseServiceKey);
+  if ("response" in auth) return auth.response;
+
+  // pg_cron posts only what the schedule sets
+  const body: CleanupRequest = await req.json().catch(() => ({}));
+  const dryRun = body.dryRun !== false;
+
+  const recordRun = async (run: Record<string, unknown>) => {
+    const { data, error } = await supabase
+      .from("storage_cleanup_runs")
+      .insert({
+        triggered_by: auth.userId,
+        dry_run: dryRun,
+        started_at: startedAt.toISOString(),
+        completed_at: new Date().toISOString(),
+        ...run,
+      })
+      .select("id")
+      .single();
+    if (error) console.error("Error recording storage cleanup run:", error.message);
+    return (data as { id: string } | null)?.id ?? null;
+  };
+
+  try {
+    const files = (await Promise.all(BUCKETS.map((bucket) => listBucket(supabase, bucket)))).flat();
+    // Loaded after listing, so a file uploaded and saved in between still counts as referenced
+    const referenced = await loadReferencedKeys(supabase);
+
+    const cutoff = startedAt.getTime() - GRACE_PERIOD_HOURS * 60 * 60 * 1000;
+    const orphans = files.filter((file) =>
+      !referenced.has(`${file.bucket}/${originalPath(file.path)}`) &&
+      file.created_at !== null &&
+      new Date(file.created_at).getTime() < cutoff
+    );
+    const orphanedBytes = orphans.reduce((sum, file) => sum + file.size, 0);
+
+    const { deletedCount, reclaimedBytes, errors } = dryRun
+      ? { deletedCount: 0, reclaimedBytes: 0, errors: [] }
+      : await removeFiles(supabase, orphans);
+
+    const summary = {
+      scanned_count: files.length,
+      orphaned_count: orphans.length,
+      orphaned_bytes: orphanedBytes,
+      deleted_count: deletedCount,
+      reclaimed_bytes: reclaimedBytes,
+      orphans: orphans.slice(0, MAX_REPORTED_ORPHANS),
+    };
+    const runId = await recordRun({
+      ...summary,
+      status: errors.length > 0 ? "failed" : "completed",
+      error: errors.length > 0 ? errors.join("; ") : null,
+    });
+
+    console.log(
+      `Storage cleanup${dryRun ? " (dry run)" : ""}: ${files.length} files, ${orphans.length} orphaned, ${deletedCount} deleted`
+    );
+
+    return new Response(
+      JSON.stringify({ success: errors.length === 0, runId, dryRun, ...summary, errors }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in cleanup-storage:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await recordRun({ status: "failed", error: message });
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
@@ -1,14 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseIngredientLines } from "../_shared/ingredientParser.ts";
+import { sharedCheckContextId } from "../_shared/groceryChecks.ts";
+import { checkRateLimit, rateLimitedResponse } from "../_shared/rateLimit.ts";
+import { openApiSpec } from "./openapi.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-api-key",
 };
 
-function getCurrentWeekStart(): string {
+function getCurrentWeekStart(weekStartDay = 0): string {
   const now = new Date();
-  const diff = now.getDay(); // days since Sunday
+  const diff = (now.getDay() - weekStartDay + 7) % 7; // days since the week started
   const weekStart = new Date(now);
   weekStart.setDate(now.getDate() - diff);
   weekStart.setHours(0, 0, 0, 0);
@@ -16,11 +20,12 @@ function getCurrentWeekStart(): string {
 }
 
 function fallbackParseGroceryText(text: string): Array<{ name: string; quantity: string | null; unit: string | null; category: string }> {
-  return text
-    .split(/\n|,/)
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((name) => ({ name, quantity: null, unit: null, category: "other" }));
+  return parseIngredientLines(text).map((item) => ({
+    name: item.name,
+    quantity: item.quantity != null ? String(item.quantity) : null,
+    unit: item.unit,
+    category: item.category,
+  }));
 }
 
 // Mirrors formatGroceryItem from src/lib/groceryList.ts
@@ -80,6 +85,12 @@ function formatItemText(item: { name: string; quantity?: string | null; unit?: s
   });
 }
 
+// Mirrors hashApiToken from src/lib/apiTokens.ts
+async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 function jsonResponse(body: unknown, status = 200) {
   return new Response(JSON.stringify(body), {
     status,
@@ -87,29 +98,318 @@ function jsonResponse(body: unknown, status = 200) {
   });
 }
 
+/** Path after the function name: "/grocery-api/pantry" → "pantry", "/grocery-api" → "". */
+function getRoute(url: URL): string {
+  const [, rest = ""] = url.pathname.split("/grocery-api");
+  return rest.replace(/^\/+|\/+$/g, "");
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface ApiContext {
+  supabase: ReturnType<typeof createClient>;
+  userId: string;
+  url: URL;
+  week: string;
+  view: string | null;
+}
+
+async function readJsonBody<T>(req: Request): Promise<T | null> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+// Clear the saved combined list (keeping checked_items) so the website
+// re-combines it on next load
+async function invalidateCombinedList(ctx: ApiContext, contextId: string) {
+  await ctx.supabase
+    .from("combined_grocery_items")
+    .update({
+      items: [],
+      recipe_ids: [],
+      per_recipe_items: {},
+      updated_at: new Date(0).toISOString(),
+    })
+    .eq("context_type", "meal_plan")
+    .eq("context_id", contextId)
+    .eq("user_id", ctx.userId);
+}
+
+// Household members share one checklist in grocery_checks (see
+// useGroceryList); everyone else, including people with only a pending
+// invite, uses combined_grocery_items.checked_items
+async function findHouseholdId(ctx: ApiContext): Promise<string | null> {
+  const { data: userData } = await ctx.supabase.auth.admin.getUserById(ctx.userId);
+  const email = userData?.user?.email?.toLowerCase();
+  if (!email) return null;
+
+  const { data } = await ctx.supabase
+    .from("household_members")
+    .select("household_id")
+    .eq("email", email)
+    .not("accepted_at", "is", null)
+    .maybeSingle();
+  return (data?.household_id as string | undefined) ?? null;
+}
+
+// POST /check, POST /uncheck — body: { name, week? }
+async function handleCheck(req: Request, ctx: ApiContext, checked: boolean) {
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405);
+
+  const body = await readJsonBody<{ name?: string; week?: string }>(req);
+  if (!body) return jsonResponse({ error: "Invalid JSON body" }, 400);
+  const name = body.name?.trim().toLowerCase();
+  if (!name) return jsonResponse({ error: "name is required" }, 400);
+  const contextId = body.week ?? ctx.week;
+
+  const { data: combinedRow } = await ctx.supabase
+    .from("combined_grocery_items")
+    .select("items, checked_items")
+    .eq("user_id", ctx.userId)
+    .eq("context_type", "meal_plan")
+    .eq("context_id", contextId)
+    .maybeSingle();
+
+  // Match the stored name or what the list displays ("2 onions" → "onion")
+  const items = (combinedRow?.items ?? []) as Array<{ name: string; displayName?: string }>;
+  const item = items.find(
+    (i) => i.name.toLowerCase() === name || i.displayName?.toLowerCase() === name
+  );
+  if (!item) {
+    return jsonResponse({ error: `"${body.name!.trim()}" is not on the grocery list` }, 404);
+  }
+
+  const householdId = await findHouseholdId(ctx);
+  if (householdId) {
+    const checkContextId = sharedCheckContextId("meal_plan", contextId);
+    const { error } = checked
+      ? await ctx.supabase.from("grocery_checks").upsert(
+          {
+            household_id: householdId,
+            context_type: "meal_plan",
+            context_id: checkContextId,
+            item_name: item.name,
+            checked_by: ctx.userId,
+            checked_at: new Date().toISOString(),
+          },
+          { onConflict: "household_id,context_type,context_id,item_name" }
+        )
+      : await ctx.supabase
+          .from("grocery_checks")
+          .delete()
+          .eq("household_id", householdId)
+          .eq("context_type", "meal_plan")
+          .eq("context_id", checkContextId)
+          .eq("item_name", item.name);
+    if (error) return jsonResponse({ error: error.message }, 500);
+  } else {
+    const current = new Set((combinedRow?.checked_items ?? []) as string[]);
+    if (checked) current.add(item.name);
+    else current.delete(item.name);
+
+    const { error } = await ctx.supabase
+      .from("combined_grocery_items")
+      .update({ checked_items: [...current] })
+      .eq("user_id", ctx.userId)
+      .eq("context_type", "meal_plan")
+      .eq("context_id", contextId);
+    if (error) return jsonResponse({ error: error.message }, 500);
+  }
+
+  return jsonResponse({ success: true, week: contextId, name: item.name, checked });
+}
+
+// GET /pantry, POST /pantry { name }, DELETE /pantry?id= or ?name=
+async function handlePantry(req: Request, ctx: ApiContext) {
+  if (req.method === "GET") {
+    const { data, error } = await ctx.supabase
+      .from("user_pantry_items")
+      .select("id, name")
+      .eq("user_id", ctx.userId)
+      .order("name");
+    if (error) return jsonResponse({ error: error.message }, 500);
+
+    const items = (data ?? []) as Array<{ id: string; name: string }>;
+    return jsonResponse(ctx.view === "simple" ? { items: items.map((i) => i.name) } : { items });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody<{ name?: string }>(req);
+    if (!body) return jsonResponse({ error: "Invalid JSON body" }, 400);
+    // Stored lowercase, matching addPantryItem in src/lib/pantry.ts
+    const name = body.name?.trim().toLowerCase();
+    if (!name) return jsonResponse({ error: "name is required" }, 400);
+
+    const { error } = await ctx.supabase
+      .from("user_pantry_items")
+      .upsert({ user_id: ctx.userId, name }, { onConflict: "user_id,name", ignoreDuplicates: true });
+    if (error) return jsonResponse({ error: error.message }, 500);
+
+    return jsonResponse({ success: true, name });
+  }
+
+  if (req.method === "DELETE") {
+    const id = ctx.url.searchParams.get("id");
+    const name = ctx.url.searchParams.get("name")?.trim().toLowerCase();
+    if (!id && !name) return jsonResponse({ error: "id or name query param is required" }, 400);
+
+    const query = ctx.supabase.from("user_pantry_items").delete().eq("user_id", ctx.userId);
+    const { error } = id ? await query.eq("id", id) : await query.eq("name", name!);
+    if (error) return jsonResponse({ error: error.message }, 500);
+
+    return jsonResponse({ success: true });
+  }
+
+  return jsonResponse({ error: "Method not allowed" }, 405);
+}
+
+// GET /meal-plan?week= — the week's planned meals in day and meal order
+async function handleMealPlan(req: Request, ctx: ApiContext) {
+  if (req.method !== "GET") return jsonResponse({ error: "Method not allowed" }, 405);
+
+  const { data: plans } = await ctx.supabase
+    .from("meal_plans")
+    .select("id")
+    .eq("user_id", ctx.userId)
+    .eq("week_start", ctx.week)
+    .order("created_at")
+    .limit(1);
+  const plan = (plans as Array<{ id: string }> | null)?.[0];
+
+  let meals: Array<{
+    id: string;
+    day: string;
+    dayOfWeek: number;
+    mealType: string;
+    name: string;
+    url: string | null;
+    recipeId: string | null;
+    cooked: boolean;
+  }> = [];
+
+  if (plan) {
+    const { data, error } = await ctx.supabase
+      .from("meal_plan_items")
+      .select("id, recipe_id, day_of_week, meal_type, custom_name, custom_url, cooked_at, sort_order, recipes (name, url)")
+      .eq("plan_id", plan.id)
+      .order("sort_order");
+    if (error) return jsonResponse({ error: error.message }, 500);
+
+    meals = ((data ?? []) as Array<Record<string, unknown>>).map((item) => {
+      const recipe = item.recipes as { name: string; url: string | null } | null;
+      const dayOfWeek = item.day_of_week as number;
+      return {
+        id: item.id as string,
+        day: DAY_NAMES[dayOfWeek],
+        dayOfWeek,
+        mealType: item.meal_type as string,
+        name: recipe?.name ?? (item.custom_name as string | null) ?? "Untitled meal",
+        url: recipe?.url ?? (item.custom_url as string | null) ?? null,
+        recipeId: (item.recipe_id as string | null) ?? null,
+        cooked: item.cooked_at != null,
+      };
+    });
+  }
+
+  // Order by day from the week's start date, then breakfast → lunch → dinner
+  const startDay = new Date(`${ctx.week}T00:00:00Z`).getUTCDay();
+  const mealOrder = ["breakfast", "lunch", "dinner"];
+  meals.sort(
+    (a, b) =>
+      (a.dayOfWeek - startDay + 7) % 7 - (b.dayOfWeek - startDay + 7) % 7 ||
+      mealOrder.indexOf(a.mealType) - mealOrder.indexOf(b.mealType)
+  );
+
+  if (ctx.view === "simple") {
+    return jsonResponse({ items: meals.map((m) => `${m.day} ${m.mealType}: ${m.name}`) });
+  }
+  return jsonResponse({ week: ctx.week, meals });
+}
+
+// POST /recombine { week? } — recipes are scaled and combined in the app, so
+// this clears the saved list and the app rebuilds it on next load
+async function handleRecombine(req: Request, ctx: ApiContext) {
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405);
+
+  const body = (await readJsonBody<{ week?: string }>(req)) ?? {};
+  const contextId = body.week ?? ctx.week;
+  await invalidateCombinedList(ctx, contextId);
+
+  return jsonResponse({ success: true, week: contextId });
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
-  // Authenticate with custom API key
+  const url = new URL(req.url);
+  const route = getRoute(url);
+
+  // The API description is public so tools can discover the endpoints
+  if (route === "openapi.json") {
+    return jsonResponse(openApiSpec);
+  }
+
   const apiKey = req.headers.get("x-api-key");
-  const expectedKey = Deno.env.get("GROCERY_API_KEY");
-  if (!apiKey || apiKey !== expectedKey) {
+  if (!apiKey) {
     return jsonResponse({ error: "Unauthorized" }, 401);
   }
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const userId = Deno.env.get("GROCERY_API_USER_ID")!;
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  const url = new URL(req.url);
-  const week = url.searchParams.get("week") ?? getCurrentWeekStart();
+  // Resolve the personal API token (minted in Settings) to its owner
+  const { data: token } = await supabase
+    .from("api_tokens")
+    .select("id, user_id, scope")
+    .eq("token_hash", await hashApiToken(apiKey))
+    .maybeSingle();
+
+  // Unknown keys are throttled by IP, so they can't be guessed at full speed
+  const retryAfter = await checkRateLimit(supabase, req, "grocery-api", (token?.user_id as string | undefined) ?? null);
+  if (retryAfter !== null) return rateLimitedResponse(retryAfter, corsHeaders);
+
+  if (!token) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const userId = token.user_id as string;
+  if (req.method !== "GET" && token.scope !== "read_write") {
+    return jsonResponse({ error: "This token is read-only" }, 403);
+  }
+
+  await supabase
+    .from("api_tokens")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", token.id);
+
+  // Default to the current week as the user's meal plan counts it
+  let week = url.searchParams.get("week");
+  if (!week) {
+    const { data: prefs } = await supabase
+      .from("user_preferences")
+      .select("week_start_day")
+      .eq("user_id", userId)
+      .maybeSingle();
+    week = getCurrentWeekStart((prefs?.week_start_day as number | undefined) ?? 0);
+  }
   const view = url.searchParams.get("view");
   const contextType = "meal_plan";
   const contextId = week;
 
+  const ctx: ApiContext = { supabase, userId, url, week, view };
+  if (route === "check") return handleCheck(req, ctx, true);
+  if (route === "uncheck") return handleCheck(req, ctx, false);
+  if (route === "pantry") return handlePantry(req, ctx);
+  if (route === "meal-plan") return handleMealPlan(req, ctx);
+  if (route === "recombine") return handleRecombine(req, ctx);
+  if (route !== "") return jsonResponse({ error: "Not found" }, 404);
+
   // GET — return general items and combined list
   if (req.method === "GET") {
     const [generalResult, combinedResult] = await Promise.all([
@@ -171,11 +471,13 @@ serve(async (req) => {
     const targetWeek = body.week ?? week;
     const targetContextId = targetWeek;
 
-    // Delegate to parse-recipe in parse-only mode (no recipeId = no DB writes)
+    // Delegate to parse-recipe in parse-only mode (no recipeId = no DB writes),
+    // on behalf of the token's owner so their AI budget and parse-recipe rate
+    // limit apply. Past either, the text is parsed locally instead
     let parsedItems: Array<{ name: string; quantity: string | null; unit: string | null; category: string }>;
 
     const { data: parseResult, error: parseError } = await supabase.functions.invoke("parse-recipe", {
-      body: { recipeName: "Grocery Items", text },
+      body: { recipeName: "Grocery Items", text, onBehalfOf: userId },
     });
 
     if (parseError || !parseResult?.success || parseResult.skipped) {
@@ -216,17 +518,7 @@ serve(async (req) => {
     if (error) return jsonResponse({ error: error.message }, 500);
 
     // Invalidate combined list cache so website re-combines on next load
-    await supabase
-      .from("combined_grocery_items")
-      .update({
-        items: [],
-        recipe_ids: [],
-        per_recipe_items: {},
-        updated_at: new Date(0).toISOString(),
-      })
-      .eq("context_type", contextType)
-      .eq("context_id", targetContextId)
-      .eq("user_id", userId);
+    await invalidateCombinedList(ctx, targetContextId);
 
     if (view === "simple") {
       const items = (data ?? []) as Array<{ name: string; quantity?: string | null; unit?: string | null }>;
@@ -0,0 +1,221 @@
+// OpenAPI description served at GET /grocery-api/openapi.json. Keep in sync
+// with the routes in index.ts.
+
+const weekParam = {
+  name: "week",
+  in: "query",
+  required: false,
+  description: "Week start date (YYYY-MM-DD). Defaults to the current week, using the user's week start day.",
+  schema: { type: "string", format: "date" },
+};
+
+const viewParam = {
+  name: "view",
+  in: "query",
+  required: false,
+  description: "Pass `simple` for a flat list of display strings, handy for voice assistants.",
+  schema: { type: "string", enum: ["simple"] },
+};
+
+const error = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const ok = (description: string, schema: Record<string, unknown> = { $ref: "#/components/schemas/Success" }) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const jsonBody = (properties: Record<string, unknown>, required: string[] = []) => ({
+  required: true,
+  content: { "application/json": { schema: { type: "object", properties, required } } },
+});
+
+const authErrors = {
+  "401": error("Missing, unknown or revoked API token"),
+  "403": error("Read-only token used for a write"),
+};
+
+const checkOperation = (summary: string) => ({
+  summary,
+  description:
+    "Matches the item's name or display name on the combined list, ignoring case. Household members update the shared checklist.",
+  requestBody: jsonBody(
+    { name: { type: "string" }, week: { type: "string", format: "date" } },
+    ["name"]
+  ),
+  responses: {
+    "200": ok("Item updated", {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        week: { type: "string" },
+        name: { type: "string" },
+        checked: { type: "boolean" },
+      },
+    }),
+    "400": error("Missing name"),
+    "404": error("Item is not on the combined list"),
+    ...authErrors,
+  },
+});
+
+export const openApiSpec = {
+  openapi: "3.1.0",
+  info: {
+    title: "Recipe Club Grocery API",
+    version: "1.0.0",
+    description:
+      "Read and update your meal-plan grocery list, pantry and meal plan. Create a token under Settings → Grocery API Tokens and send it in the x-api-key header. Read-only tokens can only make GET requests.",
+  },
+  servers: [{ url: "/functions/v1/grocery-api" }],
+  security: [{ apiKey: [] }],
+  components: {
+    securitySchemes: {
+      apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+    },
+    schemas: {
+      Error: { type: "object", properties: { error: { type: "string" } } },
+      Success: { type: "object", properties: { success: { type: "boolean" } } },
+      SimpleList: { type: "object", properties: { items: { type: "array", items: { type: "string" } } } },
+      GeneralItem: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          quantity: { type: ["string", "null"] },
+          unit: { type: ["string", "null"] },
+          created_at: { type: "string" },
+        },
+      },
+      PantryItem: {
+        type: "object",
+        properties: { id: { type: "string" }, name: { type: "string" } },
+      },
+      Meal: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          day: { type: "string" },
+          dayOfWeek: { type: "integer", description: "0 = Sunday" },
+          mealType: { type: "string" },
+          name: { type: "string" },
+          url: { type: ["string", "null"] },
+          recipeId: { type: ["string", "null"] },
+          cooked: { type: "boolean" },
+        },
+      },
+    },
+  },
+  paths: {
+    "/": {
+      get: {
+        summary: "Get the grocery list",
+        parameters: [weekParam, viewParam],
+        responses: {
+          "200": ok("General items and the combined list (null until the app has combined it)", {
+            oneOf: [
+              {
+                type: "object",
+                properties: {
+                  week: { type: "string" },
+                  generalItems: { type: "array", items: { $ref: "#/components/schemas/GeneralItem" } },
+                  combinedList: { type: ["array", "null"], items: { type: "object" } },
+                  combinedLastUpdated: { type: ["string", "null"] },
+                },
+              },
+              { $ref: "#/components/schemas/SimpleList" },
+            ],
+          }),
+          ...authErrors,
+        },
+      },
+      post: {
+        summary: "Add items from free text",
+        parameters: [weekParam, viewParam],
+        requestBody: jsonBody(
+          { text: { type: "string", description: "e.g. \"2 lbs chicken, milk\"" }, week: { type: "string", format: "date" } },
+          ["text"]
+        ),
+        responses: {
+          "200": ok("Items added"),
+          "400": error("Missing text or nothing could be parsed"),
+          ...authErrors,
+        },
+      },
+      delete: {
+        summary: "Remove a general item",
+        parameters: [{ name: "id", in: "query", required: true, schema: { type: "string" } }],
+        responses: { "200": ok("Item removed"), "400": error("Missing id"), ...authErrors },
+      },
+    },
+    "/check": { post: checkOperation("Check off an item") },
+    "/uncheck": { post: checkOperation("Uncheck an item") },
+    "/pantry": {
+      get: {
+        summary: "List pantry items",
+        parameters: [viewParam],
+        responses: {
+          "200": ok("Pantry items", {
+            oneOf: [
+              { type: "object", properties: { items: { type: "array", items: { $ref: "#/components/schemas/PantryItem" } } } },
+              { $ref: "#/components/schemas/SimpleList" },
+            ],
+          }),
+          ...authErrors,
+        },
+      },
+      post: {
+        summary: "Add a pantry item",
+        requestBody: jsonBody({ name: { type: "string" } }, ["name"]),
+        responses: { "200": ok("Item added"), "400": error("Missing name"), ...authErrors },
+      },
+      delete: {
+        summary: "Remove a pantry item by id or name",
+        parameters: [
+          { name: "id", in: "query", required: false, schema: { type: "string" } },
+          { name: "name", in: "query", required: false, schema: { type: "string" } },
+        ],
+        responses: { "200": ok("Item removed"), "400": error("Missing id and name"), ...authErrors },
+      },
+    },
+    "/meal-plan": {
+      get: {
+        summary: "Get the week's meal plan",
+        parameters: [weekParam, viewParam],
+        responses: {
+          "200": ok("Meals in day and meal order", {
+            oneOf: [
+              {
+                type: "object",
+                properties: {
+                  week: { type: "string" },
+                  meals: { type: "array", items: { $ref: "#/components/schemas/Meal" } },
+                },
+              },
+              { $ref: "#/components/schemas/SimpleList" },
+            ],
+          }),
+          ...authErrors,
+        },
+      },
+    },
+    "/recombine": {
+      post: {
+        summary: "Rebuild the combined list",
+        description:
+          "Clears the saved combined list so the app combines it again on next load. Checked items are kept.",
+        requestBody: { ...jsonBody({ week: { type: "string", format: "date" } }), required: false },
+        responses: { "200": ok("Combined list cleared"), ...authErrors },
+      },
+    },
+    "/openapi.json": {
+      get: {
+        summary: "This description",
+        security: [],
+        responses: { "200": ok("OpenAPI document", { type: "object" }) },
+      },
+    },
+  },
+};
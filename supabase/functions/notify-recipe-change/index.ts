@@ -21,6 +21,7 @@ interface NotifyRequest {
   ingredientName?: string;
   eventDate?: string;
   excludeUserId?: string;
+  clubId?: string;
 }
 
 serve(async (req) => {
@@ -45,17 +46,17 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const body: NotifyRequest = await req.json();
-    const { type, recipeName, recipeUrl, ingredientName, eventDate, excludeUserId } = body;
+    const { type, recipeName, recipeUrl, ingredientName, eventDate, excludeUserId, clubId } = body;
 
     if (!recipeName) {
       throw new Error("recipeName is required");
     }
 
-    // Get all club members from allowed_users
-    const { data: clubMembers, error: membersError } = await supabase
-      .from("allowed_users")
-      .select("email")
-      .eq("is_club_member", true);
+    // Members of the event's club; older clients without a clubId fall back to
+    // the legacy allowed_users flag
+    const { data: clubMembers, error: membersError } = clubId
+      ? await supabase.from("club_members").select("email").eq("club_id", clubId)
+      : await supabase.from("allowed_users").select("email").eq("is_club_member", true);
 
     if (membersError) {
       throw new Error(`Failed to fetch club members: ${membersError.message}`);
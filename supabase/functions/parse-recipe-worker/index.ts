@@ -0,0 +1,162 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRequestUserId } from "../_shared/aiUsage.ts";
+import { checkRateLimit, rateLimitedResponse } from "../_shared/rateLimit.ts";
+
+// Drains the recipe_parse_jobs queue: claims due jobs, runs each through
+// parse-recipe and records the outcome. Transient failures are re-queued
+// with exponential backoff until max_attempts; others fail the job at once.
+// Kicked by the app right after it queues a job, and by pg_cron every minute
+// to pick up retries. Kicks are rate limited; parse-recipe charges each job to
+// the rate limit of the member who queued it.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/** Jobs claimed per invocation. */
+const BATCH_SIZE = 5;
+
+/** Backoff before retry n is 30s, 60s, 120s, ... capped at 30 minutes. */
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 30 * 60;
+
+interface WorkerRequest {
+  /** Claim only this job (the kick after an insert). */
+  jobId?: string;
+}
+
+interface ParseJob {
+  id: string;
+  recipe_id: string;
+  requested_by: string | null;
+  request: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+type JobOutcome = "completed" | "retrying" | "failed";
+
+function retryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Run one claimed job through parse-recipe. Returns the error, if any, whether
+ * retrying could help and, when the requester was rate limited, the seconds
+ * until they can parse again.
+ */
+async function runParse(
+  job: ParseJob,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<{ error: string | null; retryable: boolean; throttledFor?: number }> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/parse-recipe`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${supabaseServiceKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...job.request, recipeId: job.recipe_id, onBehalfOf: job.requested_by }),
+    });
+    const result = await response.json().catch(() => null) as
+      | {
+          success?: boolean;
+          skipped?: boolean;
+          message?: string;
+          error?: string;
+          dbWarnings?: string[];
+          retryable?: boolean;
+          retryAfter?: number;
+        }
+      | null;
+
+    // A skipped parse (no AI provider configured, nothing cached for a
+    // cache-only job) left the recipe unparsed, so the job fails with why
+    if (response.ok && result?.success && result.skipped) {
+      return { error: `Parse skipped: ${result.message ?? "no reason given"}`, retryable: false };
+    }
+    if (response.ok && result?.success) return { error: null, retryable: false };
+
+    const error = result?.error ?? result?.dbWarnings?.join("; ") ?? `parse-recipe responded ${response.status}`;
+    // Only server errors, rate limits and failures parse-recipe marks as
+    // transient (a site, storage or the model's API being down) are worth
+    // another attempt; a parse that ran and failed (no ingredients, bad
+    // request, exhausted budget) would fail the same way and spend more AI calls
+    const retryable = response.status >= 500 || response.status === 429 || result?.retryable === true;
+    return { error, retryable, throttledFor: result?.retryAfter };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Unknown error", retryable: true };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const userId = await getRequestUserId(supabase, req);
+    const retryAfter = await checkRateLimit(supabase, req, "parse-recipe-worker", userId);
+    if (retryAfter !== null) return rateLimitedResponse(retryAfter, corsHeaders);
+
+    // pg_cron posts an empty body
+    const body: WorkerRequest = await req.json().catch(() => ({}));
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_recipe_parse_jobs", {
+      p_limit: body.jobId ? 1 : BATCH_SIZE,
+      p_job_id: body.jobId ?? null,
+    });
+    if (claimError) throw new Error(`Failed to claim parse jobs: ${claimError.message}`);
+
+    const jobs = (claimed ?? []) as ParseJob[];
+    const outcomes: Record<JobOutcome, number> = { completed: 0, retrying: 0, failed: 0 };
+
+    // One at a time: parses are slow and each one already runs in its own function
+    for (const job of jobs) {
+      const { error, retryable, throttledFor } = await runParse(job, supabaseUrl, supabaseServiceKey);
+      const now = new Date();
+
+      let outcome: JobOutcome;
+      let update: Record<string, unknown>;
+      if (!error) {
+        outcome = "completed";
+        update = { status: "completed", last_error: null, completed_at: now.toISOString() };
+      } else if (retryable && job.attempts < job.max_attempts) {
+        outcome = "retrying";
+        const delaySeconds = Math.max(retryDelaySeconds(job.attempts), throttledFor ?? 0);
+        const nextAttemptAt = new Date(now.getTime() + delaySeconds * 1000);
+        update = { status: "queued", last_error: error, next_attempt_at: nextAttemptAt.toISOString() };
+      } else {
+        outcome = "failed";
+        update = { status: "failed", last_error: error, completed_at: now.toISOString() };
+      }
+
+      const { error: updateError } = await supabase
+        .from("recipe_parse_jobs")
+        .update({ ...update, updated_at: now.toISOString() })
+        .eq("id", job.id);
+      if (updateError) console.error(`Error updating parse job ${job.id}:`, updateError.message);
+
+      console.log(`Parse job ${job.id} (attempt ${job.attempts}/${job.max_attempts}): ${outcome}${error ? ` — ${error}` : ""}`);
+      outcomes[outcome]++;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: jobs.length, ...outcomes }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in parse-recipe-worker:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Unknown error" }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
@@ -1,5 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  AiApiError,
+  getAiProvider,
+  parseAiJson,
+  resolveProviderName,
+  type AiContentBlock,
+  type AiProviderName,
+} from "../_shared/aiProvider.ts";
+import {
+  AI_BUDGET_EXCEEDED_MESSAGE,
+  SOFT_LIMIT_MODEL,
+  checkAiBudget,
+  getRequestUserId,
+  withUsageMetering,
+} from "../_shared/aiUsage.ts";
+import { CATEGORY_OVERRIDES, parseIngredientLine } from "../_shared/ingredientParser.ts";
+import { checkRateLimit, rateLimitedResponse } from "../_shared/rateLimit.ts";
+import {
+  extractStructuredRecipe,
+  formatDuration,
+  formatYield,
+  isCompleteRecipe,
+  type StructuredRecipe,
+} from "../_shared/schemaOrg.ts";
+import {
+  canonicalizeRecipeUrl,
+  findCachedParse,
+  hashContent,
+  storeCachedParse,
+  type CachedParse,
+} from "./parseCache.ts";
+import { UnsafeUrlError, readBodyWithLimit, safeFetch } from "./safeFetch.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +44,13 @@ interface ParseRequest {
   recipeName: string;
   text?: string;
   model?: string;
+  provider?: string;
+  /** Bypass the shared parse cache and refresh it with a fresh parse. */
+  reparse?: boolean;
+  /** Only apply an existing cached parse; skip without fetching or parsing when there isn't one. */
+  cacheOnly?: boolean;
+  /** User the call is for, when parse-recipe-worker or grocery-api calls with the service role key. */
+  onBehalfOf?: string | null;
 }
 
 interface ParsedIngredient {
@@ -35,8 +74,27 @@ interface ParsedRecipe {
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-// BUG-001: Detect media type from URL extension or Content-Type header
-function detectMediaType(url: string, contentType?: string | null): string {
+/** Media type from a file's leading bytes, or null when they aren't recognised. */
+function sniffMediaType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  const startsWith = (signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(4, 8) === "ftyp" && ["heic", "heix", "mif1"].includes(ascii(8, 12))) return "image/heic";
+  return null;
+}
+
+// BUG-001: Detect media type from the file's bytes, falling back to its URL
+// extension or Content-Type header. Renamed or re-encoded uploads mean the
+// extension can't be trusted on its own.
+function detectMediaType(url: string, contentType?: string | null, bytes?: Uint8Array): string {
+  const sniffed = bytes ? sniffMediaType(bytes) : null;
+  if (sniffed) return sniffed;
+
   const extMap: Record<string, string> = {
     ".pdf": "application/pdf",
     ".png": "image/png",
@@ -63,35 +121,215 @@ function detectMediaType(url: string, contentType?: string | null): string {
   return "image/jpeg";
 }
 
-// Extract Schema.org/Recipe from JSON-LD script tags
-// deno-lint-ignore no-explicit-any
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractJsonLdRecipe(html: string): Record<string, any> | null {
-  const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
-  let match;
-  while ((match = scriptRegex.exec(html)) !== null) {
+/** Buckets the app uploads recipe files to; the only ones read through the storage client. */
+const UPLOAD_BUCKETS = ["recipe-images", "recipe-photos"];
+
+/** Where the app's local dev stack serves storage (see [api] in config.toml). */
+const LOCAL_STORAGE_ORIGINS = ["http://127.0.0.1:54321", "http://localhost:54321"];
+
+/**
+ * The bucket and path of one of this project's uploads, or null for any other
+ * link. Only URLs on SUPABASE_URL (or, in local dev, the address the app
+ * builds public URLs from) count, so a link can't use the service role to
+ * read another bucket or reach a host that safeFetch would refuse.
+ */
+function uploadedFile(url: string): { bucket: string; path: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const supabaseUrl = new URL(Deno.env.get("SUPABASE_URL")!);
+  // BUG-009: Local dev functions reach the API through the Docker gateway
+  // (kong) while the app's public URLs point at localhost
+  const isLocal = ["kong", "127.0.0.1", "localhost", "host.docker.internal"].includes(supabaseUrl.hostname);
+  const origins = [supabaseUrl.origin, ...(isLocal ? LOCAL_STORAGE_ORIGINS : [])];
+  if (!origins.includes(parsed.origin)) return null;
+
+  const match = parsed.pathname.match(/^\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+  if (!match || !UPLOAD_BUCKETS.includes(match[1])) return null;
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+}
+
+class FileTooLargeError extends Error {
+  constructor(what = "File") {
+    super(`${what} exceeds 10MB size limit`);
+    this.name = "FileTooLargeError";
+  }
+}
+
+/**
+ * A failure of something the parse depends on (a site, storage, the model's
+ * API) that may clear up if the parse is tried again.
+ */
+class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransientError";
+  }
+}
+
+const isTransientStatus = (status: number) => status === 429 || status >= 500;
+
+/** Whether a failed parse may succeed on a retry; anything else fails the same way every time. */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AiApiError) return isTransientStatus(error.status);
+  return error instanceof TransientError;
+}
+
+/** safeFetch, with network failures marked as worth retrying. */
+async function fetchSource(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await safeFetch(url, init);
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) throw error;
+    throw new TransientError(error instanceof Error ? error.message : "Network error");
+  }
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** Download an uploaded or linked recipe file. Throws FileTooLargeError past MAX_FILE_SIZE. */
+async function downloadRecipeFile(
+  supabase: SupabaseClient,
+  fileUrl: string
+): Promise<{ arrayBuffer: ArrayBuffer; contentType: string | null }> {
+  let arrayBuffer: ArrayBuffer;
+  let contentType: string | null;
+
+  const upload = uploadedFile(fileUrl);
+  if (upload) {
+    // BUG-009: Use Supabase storage client instead of raw fetch for storage URLs.
+    // The public URL points to localhost which is unreachable from inside Docker.
+    // The Supabase client uses SUPABASE_URL which resolves correctly via kong gateway.
+    const { data, error: downloadError } = await supabase.storage.from(upload.bucket).download(upload.path);
+    if (downloadError || !data) {
+      throw new TransientError(`Failed to download from storage: ${downloadError?.message ?? "No data returned"}`);
+    }
+
+    if (data.size > MAX_FILE_SIZE) throw new FileTooLargeError();
+    arrayBuffer = await data.arrayBuffer();
+    contentType = data.type || null;
+  } else {
+    // Non-storage file URL (e.g. direct link to a .jpg on the web)
+    const response = await fetchSource(fileUrl);
+    if (!response.ok) {
+      const message = `Failed to fetch recipe file: ${response.status}`;
+      throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
+    }
+
+    // BUG-010: File size validation, enforced while the body streams in
+    const body = await readBodyWithLimit(response, MAX_FILE_SIZE);
+    if (!body) throw new FileTooLargeError();
+
+    arrayBuffer = body;
+    contentType = response.headers.get("content-type");
+  }
+
+  // BUG-010: Also check actual buffer size (Content-Length may be absent)
+  if (arrayBuffer.byteLength > MAX_FILE_SIZE) {
+    throw new FileTooLargeError();
+  }
+  return { arrayBuffer, contentType };
+}
+
+/** Turn away a caller who isn't signed in or can't edit the recipe, leaving the recipe untouched. */
+function rejectCaller(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: message }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" }, status }
+  );
+}
+
+// More memory-efficient base64 encoding using chunking
+function toBase64(arrayBuffer: ArrayBuffer): string {
+  const uint8Array = new Uint8Array(arrayBuffer);
+  const CHUNK_SIZE = 0x8000;
+  let binary = "";
+  for (let i = 0; i < uint8Array.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...uint8Array.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+const TEXT_MODEL = "claude-haiku-4-5-20251001";
+
+const STRUCTURED_SOURCE_LABELS: Record<StructuredRecipe["source"], string> = {
+  "json-ld": "JSON-LD",
+  microdata: "microdata",
+  "h-recipe": "h-recipe",
+};
+
+// Flatten partial structured data into text for the AI
+function structuredRecipeText(recipe: StructuredRecipe, recipeName: string): string {
+  let text = `STRUCTURED RECIPE DATA (from ${STRUCTURED_SOURCE_LABELS[recipe.source]} Schema.org/Recipe):\n`;
+  text += `Name: ${recipe.name ?? recipeName}\n`;
+  if (recipe.recipeYield) text += `Yield: ${recipe.recipeYield}\n`;
+  if (recipe.prepTime) text += `Prep time: ${recipe.prepTime}\n`;
+  if (recipe.cookTime) text += `Cook time: ${recipe.cookTime}\n`;
+  if (recipe.totalTime) text += `Total time: ${recipe.totalTime}\n`;
+  if (recipe.description) text += `Description: ${recipe.description}\n`;
+  text += `\nIngredients:\n`;
+  for (const ing of recipe.ingredients) {
+    text += `- ${ing}\n`;
+  }
+  if (recipe.instructions.length > 0) {
+    text += `\nInstructions:\n`;
+    for (const step of recipe.instructions) {
+      text += `- ${step}\n`;
+    }
+  }
+  return text;
+}
+
+/**
+ * Map complete structured data straight to a parsed recipe. Ingredient lines
+ * go through the rule-based parser; the indexes of lines it couldn't parse or
+ * categorize are returned so only those are sent to the AI.
+ */
+function mapStructuredRecipe(
+  recipe: StructuredRecipe,
+  recipeUrl: string
+): { parsed: ParsedRecipe; unresolved: number[] } {
+  const unresolved: number[] = [];
+  const ingredients = recipe.ingredients.map((line, index) => {
+    const ing = parseIngredientLine(line);
+    if (!ing || (ing.category === "other" && !(ing.name.toLowerCase() in CATEGORY_OVERRIDES))) {
+      unresolved.push(index);
+    }
+    return {
+      name: ing?.name ?? line,
+      quantity: ing?.quantity != null ? Math.round(ing.quantity * 100) / 100 : null,
+      unit: ing?.unit ?? null,
+      category: ing?.category ?? "other",
+      raw_text: line,
+    };
+  });
+
+  let sourceTitle = recipe.publisher;
+  if (!sourceTitle) {
     try {
-      const data = JSON.parse(match[1]);
-      const items = Array.isArray(data) ? data : [data];
-      for (const item of items) {
-        // Direct Recipe type
-        if (item["@type"] === "Recipe" || (Array.isArray(item["@type"]) && item["@type"].includes("Recipe"))) {
-          return item;
-        }
-        // Check @graph array (common in WordPress sites)
-        if (item["@graph"]) {
-          for (const node of item["@graph"]) {
-            if (node["@type"] === "Recipe" || (Array.isArray(node["@type"]) && node["@type"].includes("Recipe"))) {
-              return node;
-            }
-          }
-        }
-      }
+      sourceTitle = new URL(recipeUrl).hostname.replace(/^www\./, "");
     } catch {
-      // Invalid JSON in this script tag, try the next one
+      sourceTitle = null;
     }
   }
-  return null;
+
+  return {
+    parsed: {
+      description: recipe.description,
+      servings: formatYield(recipe.recipeYield),
+      prep_time: formatDuration(recipe.prepTime),
+      cook_time: formatDuration(recipe.cookTime),
+      total_time: formatDuration(recipe.totalTime),
+      instructions: recipe.instructions,
+      source_title: sourceTitle,
+      ingredients,
+    },
+    unresolved,
+  };
 }
 
 serve(async (req) => {
@@ -101,20 +339,12 @@ serve(async (req) => {
 
   // BUG-015: Extract recipeId before main try block so error status can always be updated
   let recipeId: string | undefined;
+  // Set once the caller may write to recipeId; until then a failure mustn't touch it
+  let authorized = false;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const aiApiKey = Deno.env.get("ANTHROPIC_API_KEY");
-
-    if (!aiApiKey) {
-      console.log("ANTHROPIC_API_KEY not configured — skipping recipe parsing");
-      return new Response(
-        JSON.stringify({ success: true, skipped: true, message: "AI_API_KEY not configured" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // BUG-015: Catch malformed JSON request body early with separate try-catch
@@ -128,6 +358,16 @@ serve(async (req) => {
       );
     }
 
+    const providerName = resolveProviderName(body.provider);
+    const provider = getAiProvider(providerName);
+    if (!provider) {
+      console.log(`${providerName} AI provider not configured — skipping recipe parsing`);
+      return new Response(
+        JSON.stringify({ success: true, skipped: true, message: `${providerName} AI provider not configured` }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     recipeId = body.recipeId;
     const { recipeUrl, recipeName } = body;
     const parseOnly = !recipeId;
@@ -153,10 +393,73 @@ serve(async (req) => {
       );
     }
 
+    // Callers must be signed in, or be the worker (service role) acting for
+    // the member who queued the job, and may only parse recipes that the
+    // recipes UPDATE policy lets them edit
+    const isServiceRole = req.headers.get("Authorization") === `Bearer ${supabaseServiceKey}`;
+    const userId = await getRequestUserId(supabase, req, body.onBehalfOf);
+    const retryAfter = await checkRateLimit(supabase, req, "parse-recipe", userId);
+    if (retryAfter !== null) return rateLimitedResponse(retryAfter, corsHeaders);
+    if (!userId && !isServiceRole) {
+      return rejectCaller("Sign in to parse recipes", 401);
+    }
+    if (recipeId && userId) {
+      const { data: canWrite, error: accessError } = await supabase.rpc("can_write_recipe", {
+        p_recipe_id: recipeId,
+        p_user_id: userId,
+      });
+      if (accessError) throw new Error(`Failed to check recipe access: ${accessError.message}`);
+      if (!canWrite) {
+        return rejectCaller("You don't have permission to parse this recipe", 403);
+      }
+    }
+    authorized = true;
+
+    // Past the hard limit, parse-only callers fall back to their rule-based
+    // parser; recipe parses still map complete structured data without the AI
+    const budget = await checkAiBudget(supabase, userId);
+    if (budget === "hard" && parseOnly) {
+      return new Response(
+        JSON.stringify({ success: true, skipped: true, message: AI_BUDGET_EXCEEDED_MESSAGE }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const ai = withUsageMetering(provider, supabase, userId);
+    const requestedModel = budget === "soft" ? SOFT_LIMIT_MODEL : body.model;
+
     // Model selection: text-only defaults to Haiku (fast/cheap), URL/image defaults to Sonnet
     const isTextOnly = !!body.text && !recipeUrl;
-    const defaultModel = isTextOnly ? "claude-haiku-4-5-20251001" : "claude-sonnet-4-6";
-    const model = body.model || defaultModel;
+    const defaultModel = isTextOnly ? TEXT_MODEL : "claude-sonnet-4-6";
+    const model = ai.resolveModel(requestedModel, defaultModel);
+
+    // Uploaded recipes may span several ordered files, the first of which is
+    // the recipe's url; anything else (e.g. a URL edited since) is parsed alone
+    let sourceFiles = recipeUrl ? [recipeUrl] : [];
+    if (!parseOnly && !isTextOnly && recipeUrl) {
+      const { data: recipeRow } = await supabase
+        .from("recipes")
+        .select("source_files")
+        .eq("id", recipeId)
+        .maybeSingle();
+      const files = (recipeRow?.source_files as string[] | null) ?? [];
+      if (files.length > 1 && files[0] === recipeUrl) sourceFiles = files;
+    }
+
+    // Recipes added from a URL someone already parsed reuse that parse
+    // (multi-file uploads aren't shared, so they skip the cache)
+    const canonicalUrl = !parseOnly && !isTextOnly && recipeUrl && sourceFiles.length === 1
+      ? canonicalizeRecipeUrl(recipeUrl)
+      : null;
+    let cachedParse: CachedParse<ParsedRecipe> | null = null;
+    if (canonicalUrl && !body.reparse) {
+      cachedParse = await findCachedParse<ParsedRecipe>(supabase, { canonicalUrl });
+    }
+    if (body.cacheOnly && !cachedParse) {
+      return new Response(
+        JSON.stringify({ success: true, skipped: true, message: "No cached parse for this recipe" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // Upsert recipe_content with status 'parsing' (skip in parse-only mode)
     if (!parseOnly) {
@@ -169,11 +472,12 @@ serve(async (req) => {
         }, { onConflict: "recipe_id" });
     }
 
+    let contentHash: string | null = null;
+
     // Fetch recipe content
     let recipeText = "";
-    let isImage = false;
-    let base64Content = "";
-    let detectedMediaType = "image/jpeg";
+    const fileBlocks: AiContentBlock[] = [];
+    let structuredResult: { source: StructuredRecipe["source"]; parsed: ParsedRecipe; unresolved: number[] } | null = null;
 
     if (isTextOnly) {
       // Text input path — skip all URL fetching
@@ -181,96 +485,32 @@ serve(async (req) => {
     } else if (!recipeUrl) {
       // Should not reach here due to validation above, but satisfy TS
       throw new Error("recipeUrl is required when text is not provided");
+    } else if (cachedParse) {
+      console.log(`Using cached parse of ${canonicalUrl} for ${recipeName}`);
     } else {
 
-    // BUG-009: Detect storage URLs including local dev (localhost/127.0.0.1) which
-    // don't contain "supabase" in the hostname but still use the storage path pattern
-    const isStorageUrl = (recipeUrl.includes("supabase") && recipeUrl.includes("storage")) ||
-      /\/storage\/v1\/object\/public\//.test(recipeUrl);
-    const isPdfOrImage = /\.(pdf|jpg|jpeg|png|webp|heic)(\?|$)/i.test(recipeUrl);
-
-    if (isStorageUrl || isPdfOrImage) {
-      // Download file and send as base64
-      let arrayBuffer: ArrayBuffer;
-      let responseContentType: string | null = null;
-
-      if (isStorageUrl) {
-        // BUG-009: Use Supabase storage client instead of raw fetch for storage URLs.
-        // The public URL points to localhost which is unreachable from inside Docker.
-        // The Supabase client uses SUPABASE_URL which resolves correctly via kong gateway.
-        const url = new URL(recipeUrl);
-        const pathMatch = url.pathname.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)/);
-        if (!pathMatch) {
-          throw new Error(`Invalid storage URL format: ${recipeUrl}`);
-        }
-        const bucket = pathMatch[1];
-        const filePath = decodeURIComponent(pathMatch[2]);
-
-        const { data, error: downloadError } = await supabase.storage.from(bucket).download(filePath);
-        if (downloadError || !data) {
-          throw new Error(`Failed to download from storage: ${downloadError?.message ?? "No data returned"}`);
-        }
-
-        arrayBuffer = await data.arrayBuffer();
-        responseContentType = data.type || null;
-      } else {
-        // Non-storage file URL (e.g. direct link to a .jpg on the web)
-        const response = await fetch(recipeUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch recipe file: ${response.status}`);
-        }
-
-        // BUG-010: File size validation via Content-Length header
-        const contentLength = response.headers.get("content-length");
-        if (contentLength && parseInt(contentLength, 10) > MAX_FILE_SIZE) {
-          await supabase.from("recipe_content").upsert({
-            recipe_id: recipeId,
-            status: "failed",
-            error_message: "File exceeds 10MB size limit",
-          }, { onConflict: "recipe_id" });
-          return new Response(
-            JSON.stringify({ success: false, error: "File exceeds 10MB size limit" }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 413 }
-          );
-        }
-
-        arrayBuffer = await response.arrayBuffer();
-        responseContentType = response.headers.get("content-type");
+    const isPdfOrImage = uploadedFile(recipeUrl) !== null || /\.(pdf|jpg|jpeg|png|webp|heic)(\?|$)/i.test(recipeUrl);
+
+    if (isPdfOrImage) {
+      // Download every file and send them, in order, as base64 blocks
+      for (const fileUrl of sourceFiles) {
+        const file = await downloadRecipeFile(supabase, fileUrl);
+        const mediaType = detectMediaType(fileUrl, file.contentType, new Uint8Array(file.arrayBuffer.slice(0, 12)));
+        fileBlocks.push({
+          type: mediaType === "application/pdf" ? "document" : "image",
+          mediaType,
+          data: toBase64(file.arrayBuffer),
+        });
+        if (sourceFiles.length === 1) contentHash = await hashContent(file.arrayBuffer);
       }
-
-      // BUG-010: Also check actual buffer size (Content-Length may be absent)
-      if (arrayBuffer.byteLength > MAX_FILE_SIZE) {
-        await supabase.from("recipe_content").upsert({
-          recipe_id: recipeId,
-          status: "failed",
-          error_message: "File exceeds 10MB size limit",
-        }, { onConflict: "recipe_id" });
-        return new Response(
-          JSON.stringify({ success: false, error: "File exceeds 10MB size limit" }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 413 }
-        );
-      }
-
-      // BUG-001: Detect media type from URL extension or Content-Type header
-      detectedMediaType = detectMediaType(recipeUrl, responseContentType);
-
-      // More memory-efficient base64 encoding using chunking
-      const uint8Array = new Uint8Array(arrayBuffer);
-      const CHUNK_SIZE = 0x8000;
-      let binary = "";
-      for (let i = 0; i < uint8Array.length; i += CHUNK_SIZE) {
-        binary += String.fromCharCode(...uint8Array.subarray(i, i + CHUNK_SIZE));
-      }
-      base64Content = btoa(binary);
-      isImage = true;
     } else {
       // Fetch web page HTML
-      const response = await fetch(recipeUrl, {
+      const response = await fetchSource(recipeUrl, {
         headers: {
           "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
           "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
           "Accept-Language": "en-US,en;q=0.9",
-          "Accept-Encoding": "gzip, deflate, br",
+          "Accept-Encoding": "gzip, deflate",
           "Referer": "https://www.google.com/",
           "Upgrade-Insecure-Requests": "1",
           "Sec-Fetch-Dest": "document",
@@ -284,39 +524,26 @@ serve(async (req) => {
         if (response.status === 403) {
           throw new Error(`This website is blocking automated access. Try uploading a screenshot of the recipe instead.`);
         }
-        throw new Error(`Failed to fetch recipe page: ${response.status}`);
+        const message = `Failed to fetch recipe page: ${response.status}`;
+        throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
       }
-      const html = await response.text();
-
-      // Try to extract JSON-LD Recipe schema first — this is the most reliable
-      // source since it's the structured data sites provide to Google/search engines
-      const jsonLdRecipe = extractJsonLdRecipe(html);
-      if (jsonLdRecipe) {
-        console.log(`Found JSON-LD Recipe data for ${recipeName}`);
-        recipeText = `STRUCTURED RECIPE DATA (from JSON-LD Schema.org/Recipe):\n`;
-        recipeText += `Name: ${jsonLdRecipe.name ?? recipeName}\n`;
-        if (jsonLdRecipe.recipeYield) recipeText += `Yield: ${jsonLdRecipe.recipeYield}\n`;
-        if (jsonLdRecipe.prepTime) recipeText += `Prep time: ${jsonLdRecipe.prepTime}\n`;
-        if (jsonLdRecipe.cookTime) recipeText += `Cook time: ${jsonLdRecipe.cookTime}\n`;
-        if (jsonLdRecipe.totalTime) recipeText += `Total time: ${jsonLdRecipe.totalTime}\n`;
-        if (jsonLdRecipe.description) recipeText += `Description: ${jsonLdRecipe.description}\n`;
-        recipeText += `\nIngredients:\n`;
-        for (const ing of jsonLdRecipe.recipeIngredient ?? []) {
-          recipeText += `- ${ing}\n`;
-        }
-        if (jsonLdRecipe.recipeInstructions) {
-          recipeText += `\nInstructions:\n`;
-          for (const step of jsonLdRecipe.recipeInstructions) {
-            if (typeof step === "string") {
-              recipeText += `- ${step}\n`;
-            } else if (step?.text) {
-              recipeText += `- ${step.text}\n`;
-            }
-          }
-        }
+      const page = await readBodyWithLimit(response, MAX_FILE_SIZE);
+      if (!page) throw new FileTooLargeError("Page");
+      const html = new TextDecoder().decode(page);
+      contentHash = await hashContent(html);
+
+      // Try structured Schema.org data first — this is the most reliable
+      // source since it's what sites provide to Google/search engines
+      const structured = extractStructuredRecipe(html);
+      if (structured && isCompleteRecipe(structured)) {
+        console.log(`Found complete ${structured.source} Recipe data for ${recipeName}, skipping AI parse`);
+        structuredResult = { source: structured.source, ...mapStructuredRecipe(structured, recipeUrl) };
+      } else if (structured) {
+        console.log(`Found partial ${structured.source} Recipe data for ${recipeName}`);
+        recipeText = structuredRecipeText(structured, recipeName);
       } else {
         // Fallback: strip HTML tags to get text content
-        console.log(`No JSON-LD found for ${recipeName}, falling back to text extraction`);
+        console.log(`No structured recipe data found for ${recipeName}, falling back to text extraction`);
         recipeText = html
           .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
           .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
@@ -329,6 +556,11 @@ serve(async (req) => {
 
     } // end: URL/image/PDF fetch block
 
+    // The same page or file may already be cached under another URL
+    if (!cachedParse && contentHash && !body.reparse) {
+      cachedParse = await findCachedParse<ParsedRecipe>(supabase, { contentHash });
+    }
+
     // Build AI prompt
     const systemPrompt = `You are a recipe parser. Extract structured data from recipe content. Return ONLY valid JSON with no markdown formatting.
 
@@ -394,69 +626,76 @@ For ingredient names:
 - "fresh mozzarella" is a DISTINCT product from regular mozzarella — keep the qualifier "fresh mozzarella"
 - "dry oregano" / "dried oregano" are distinct from fresh oregano — keep as "dried oregano"`;
 
-    // Call Anthropic API
-    // BUG-001: Use detected media type and correct content block type for PDFs
-    const contentBlockType = detectedMediaType === "application/pdf" ? "document" : "image";
-
-    const aiResponse = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": aiApiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: 4096,
+    // Which provider and model produced the result, recorded with it
+    let aiUsed = null as { provider: AiProviderName; model: string } | null;
+    const callAi = async (
+      aiModel: string,
+      content: string | AiContentBlock[],
+      text?: string
+    ): Promise<ParsedRecipe> => {
+      if (budget === "hard") throw new Error(AI_BUDGET_EXCEEDED_MESSAGE);
+      const response = await ai.complete({
+        task: "parse-recipe",
+        model: aiModel,
         system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: isImage
-              ? [
-                  {
-                    type: "text",
-                    text: `Parse this recipe "${recipeName}" and extract all structured data including ingredients, instructions, times, and servings.`,
-                  },
-                  {
-                    type: contentBlockType,
-                    source: {
-                      type: "base64",
-                      media_type: detectedMediaType,
-                      data: base64Content,
-                    },
-                  },
-                ]
-              : `Parse this recipe "${recipeName}" from the following text and extract all structured data:\n\n${recipeText}`,
-          },
-        ],
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      throw new Error(`AI API error: ${aiResponse.status} - ${errorText}`);
-    }
-
-    const aiResult = await aiResponse.json();
-    const aiText = aiResult.content?.[0]?.text || "";
+        content,
+        maxTokens: 4096,
+        fixtureInput: { recipeName, text },
+      }).catch((error) => {
+        // fetch rejects with a TypeError when the model's API can't be reached
+        throw error instanceof TypeError ? new TransientError(error.message) : error;
+      });
+      aiUsed = { provider: response.provider, model: response.model };
+      return parseAiJson<ParsedRecipe>(response.text);
+    };
 
-    // BUG-020: Parse JSON with validation — try regex extraction first, validate, fallback to full text
     let parsed: ParsedRecipe;
-    try {
-      const jsonMatch = aiText.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
+    if (cachedParse) {
+      parsed = cachedParse.parsed;
+      aiUsed = cachedParse.ai;
+    } else if (structuredResult) {
+      parsed = structuredResult.parsed;
+      const { unresolved } = structuredResult;
+      // Only the ingredient lines the rule-based parser couldn't handle go to
+      // the AI; if that fails, keep the rule-based results
+      if (unresolved.length > 0) {
         try {
-          parsed = JSON.parse(jsonMatch[1].trim());
-        } catch {
-          // Regex extracted invalid JSON, fall back to full response text
-          parsed = JSON.parse(aiText.trim());
+          const lines = unresolved.map((i) => `- ${parsed.ingredients[i].raw_text}`).join("\n");
+          const resolved = await callAi(
+            ai.resolveModel(requestedModel, TEXT_MODEL),
+            `Parse these ingredients from the recipe "${recipeName}" and return the JSON with only the ingredients filled in, one per line, in order:\n\n${lines}`,
+            lines
+          );
+          if (resolved.ingredients?.length === unresolved.length) {
+            unresolved.forEach((ingredientIndex, i) => {
+              parsed.ingredients[ingredientIndex] = {
+                ...resolved.ingredients[i],
+                raw_text: parsed.ingredients[ingredientIndex].raw_text,
+              };
+            });
+          }
+        } catch (error) {
+          console.error("Error resolving ingredients with AI:", error);
         }
-      } else {
-        parsed = JSON.parse(aiText.trim());
       }
-    } catch {
-      throw new Error(`Failed to parse AI response as JSON: ${aiText.slice(0, 200)}`);
+    } else {
+      const isFiles = fileBlocks.length > 0;
+      const pages = fileBlocks.length > 1
+        ? ` It spans ${fileBlocks.length} pages or photos, given in order; read them as one recipe.`
+        : "";
+      parsed = await callAi(
+        model,
+        isFiles
+          ? [
+              {
+                type: "text",
+                text: `Parse this recipe "${recipeName}" and extract all structured data including ingredients, instructions, times, and servings.${pages}`,
+              },
+              ...fileBlocks,
+            ]
+          : `Parse this recipe "${recipeName}" from the following text and extract all structured data:\n\n${recipeText}`,
+        isFiles ? undefined : recipeText
+      );
     }
 
     // If the AI returned no ingredients, the page content was unusable
@@ -470,7 +709,8 @@ For ingredient names:
     const dbWarnings: string[] = [];
 
     if (!parseOnly) {
-      // BUG-014: Use RPC for transactional ingredient replacement
+      // BUG-014: Replace ingredients and content in one transaction, which
+      // also records it as a single revision attributed to the requester
       // (empty ingredients are rejected above, so this always has items)
       const ingredientRows = parsed.ingredients.map((ing, index) => ({
         name: ing.name,
@@ -481,30 +721,36 @@ For ingredient names:
         sort_order: index,
       }));
 
-      const { error: rpcError } = await supabase.rpc("replace_recipe_ingredients", {
+      const { error: saveError } = await supabase.rpc("save_recipe_parse", {
         p_recipe_id: recipeId,
         p_ingredients: ingredientRows,
-      });
-      if (rpcError) dbWarnings.push(`Replace ingredients: ${rpcError.message}`);
-
-      // Upsert recipe_content with parsed data
-      const { error: contentError } = await supabase
-        .from("recipe_content")
-        .upsert({
-          recipe_id: recipeId,
+        p_content: {
           description: parsed.description,
           servings: parsed.servings,
           prep_time: parsed.prep_time,
           cook_time: parsed.cook_time,
           total_time: parsed.total_time,
-          instructions: parsed.instructions ? JSON.stringify(parsed.instructions) : null,
+          instructions: parsed.instructions ?? null,
           source_title: parsed.source_title,
+          ai_provider: aiUsed?.provider ?? null,
+          ai_model: aiUsed?.model ?? null,
           parsed_at: new Date().toISOString(),
           status: "completed",
-          error_message: null,
-        }, { onConflict: "recipe_id" });
-
-      if (contentError) dbWarnings.push(`Upsert content: ${contentError.message}`);
+        },
+        p_changed_by: userId,
+      });
+      if (saveError) dbWarnings.push(`Save parse: ${saveError.message}`);
+
+      // Share the parse with later adds of this URL (a hit by content hash
+      // also records the new URL). Only parses from structured data or the
+      // server's default provider are shared; a re-parse or a provider the
+      // caller picked stays with this recipe and never replaces an entry
+      const sharedProvider = resolveProviderName(undefined);
+      const trustedParse = cachedParse !== null ||
+        (!body.reparse && (!aiUsed || (aiUsed.provider === sharedProvider && sharedProvider !== "stub")));
+      if (canonicalUrl && trustedParse && cachedParse?.canonicalUrl !== canonicalUrl) {
+        await storeCachedParse(supabase, { canonicalUrl, contentHash, parsed, ai: aiUsed });
+      }
     }
 
     console.log(`Parsed recipe ${recipeId ?? "parse-only"}: ${parsed.ingredients?.length || 0} ingredients, ${dbWarnings.length} db warnings`);
@@ -514,7 +760,11 @@ For ingredient names:
         success: dbWarnings.length === 0,
         ingredientCount: parsed.ingredients?.length || 0,
         parsed,
-        ...(dbWarnings.length > 0 ? { dbWarnings } : {}),
+        provider: aiUsed?.provider ?? null,
+        model: aiUsed?.model ?? null,
+        ...(cachedParse ? { cached: true } : {}),
+        ...(structuredResult && !cachedParse ? { structuredData: structuredResult.source } : {}),
+        ...(dbWarnings.length > 0 ? { dbWarnings, retryable: true } : {}),
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -523,7 +773,7 @@ For ingredient names:
 
     // BUG-015: Use early-extracted recipeId directly instead of re-parsing the body
     try {
-      if (recipeId) {
+      if (recipeId && authorized) {
         const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
         const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -539,14 +789,18 @@ For ingredient names:
       // Ignore cleanup errors
     }
 
+    // Oversized files and blocked URLs are the caller's to fix. Other
+    // failures say whether a retry could help (see parse-recipe-worker)
+    const status = error instanceof FileTooLargeError ? 413 : error instanceof UnsafeUrlError ? 400 : 200;
     return new Response(
       JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        ...(isRetryable(error) ? { retryable: true } : {}),
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
+        status,
       }
     );
   }
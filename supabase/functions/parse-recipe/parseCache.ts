@@ -0,0 +1,120 @@
+// Shared cache of parsed recipes, so the same recipe added by several people
+// is only fetched and parsed once. Entries are keyed by canonical URL and
+// also found by a hash of the fetched content (catches URL variants the
+// canonicalizer misses and identical photo uploads). See the
+// recipe_parse_cache migration.
+
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AiProviderName } from "../_shared/aiProvider.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** Query parameters that only track where a click came from. */
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "msclkid", "yclid", "twclid", "igshid", "mc_cid", "mc_eid",
+  "_ga", "_gl", "ref", "ref_src", "ref_url", "cmpid", "share", "si",
+]);
+
+/** Query parameters that select an AMP or print rendering of the same page. */
+const VARIANT_PARAMS = new Set(["amp", "print", "printview", "output"]);
+
+/** Trailing path segments that select an AMP or print rendering. */
+const VARIANT_SEGMENTS = new Set(["amp", "print", "printable", "print-view"]);
+
+/**
+ * Normalize a recipe URL for cache lookups: https, lowercase host without
+ * www./m./amp. prefixes, no fragment, no tracking or AMP/print parameters,
+ * no AMP/print path suffix, no trailing slash and sorted query parameters.
+ * Returns null for anything that isn't an http(s) URL.
+ */
+export function canonicalizeRecipeUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|amp)\./, "");
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  while (segments.length > 0 && VARIANT_SEGMENTS.has(segments[segments.length - 1].toLowerCase())) {
+    segments.pop();
+  }
+  const path = segments.length > 0 ? `/${segments.join("/")}` : "/";
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => {
+      const name = key.toLowerCase();
+      return !name.startsWith("utm_") && !TRACKING_PARAMS.has(name) && !VARIANT_PARAMS.has(name);
+    })
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  const port = url.port && url.port !== "80" && url.port !== "443" ? `:${url.port}` : "";
+  return `https://${host}${port}${path}${query}`;
+}
+
+/** SHA-256 hex digest of fetched page text or file bytes. */
+export async function hashContent(content: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof content === "string" ? new TextEncoder().encode(content) : new Uint8Array(content);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface CachedParse<T> {
+  canonicalUrl: string;
+  parsed: T;
+  ai: { provider: AiProviderName; model: string } | null;
+}
+
+/** Look up a cached parse by canonical URL or content hash. Misses and errors return null. */
+export async function findCachedParse<T>(
+  supabase: SupabaseClient,
+  key: { canonicalUrl: string } | { contentHash: string }
+): Promise<CachedParse<T> | null> {
+  const [column, value] = "canonicalUrl" in key
+    ? ["canonical_url", key.canonicalUrl]
+    : ["content_hash", key.contentHash];
+
+  const { data, error } = await supabase
+    .from("recipe_parse_cache")
+    .select("canonical_url, parsed, ai_provider, ai_model")
+    .eq(column, value)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading parse cache:", error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  const row = data as { canonical_url: string; parsed: T; ai_provider: string | null; ai_model: string | null };
+  return {
+    canonicalUrl: row.canonical_url,
+    parsed: row.parsed,
+    ai: row.ai_provider && row.ai_model
+      ? { provider: row.ai_provider as AiProviderName, model: row.ai_model }
+      : null,
+  };
+}
+
+/** Store (or refresh) the parse for a canonical URL. Failures are logged only. */
+export async function storeCachedParse<T>(
+  supabase: SupabaseClient,
+  entry: { canonicalUrl: string; contentHash: string | null; parsed: T; ai: CachedParse<T>["ai"] }
+): Promise<void> {
+  const { error } = await supabase.from("recipe_parse_cache").upsert({
+    canonical_url: entry.canonicalUrl,
+    content_hash: entry.contentHash,
+    parsed: entry.parsed,
+    ai_provider: entry.ai?.provider ?? null,
+    ai_model: entry.ai?.model ?? null,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "canonical_url" });
+
+  if (error) console.error("Error writing parse cache:", error.message);
+}
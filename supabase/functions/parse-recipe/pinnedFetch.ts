@@ -0,0 +1,222 @@
+// A bare HTTP/1.1 client that connects to an address the caller has already
+// checked. fetch() resolves the hostname again on its own, so a DNS answer
+// that changes between the check and the connection (DNS rebinding) could
+// still send it to a private network. TLS verifies the certificate against,
+// and sends SNI for, the URL's hostname as usual. It only covers what
+// safeFetch needs: bodiless requests, one request per connection, no
+// redirects, and plain, gzip or deflate response bodies.
+
+const CRLF = new Uint8Array([13, 10]);
+const MAX_LINE_BYTES = 64 * 1024;
+
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+/** Reads a connection with lookahead, so the head and body can be split at any byte. */
+class ConnectionReader {
+  private buffer = new Uint8Array(0);
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  /** Pull another chunk into the buffer. False at end of stream. */
+  private async fill(): Promise<boolean> {
+    const { done, value } = await this.reader.read();
+    if (done) return false;
+    const merged = new Uint8Array(this.buffer.byteLength + value.byteLength);
+    merged.set(this.buffer);
+    merged.set(value, this.buffer.byteLength);
+    this.buffer = merged;
+    return true;
+  }
+
+  private take(length: number): Uint8Array {
+    const bytes = this.buffer.slice(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  /** The next CRLF-terminated line, without the CRLF. */
+  async readLine(): Promise<string> {
+    for (let searchFrom = 0; ; ) {
+      for (let i = searchFrom; i < this.buffer.byteLength - 1; i++) {
+        if (this.buffer[i] === CRLF[0] && this.buffer[i + 1] === CRLF[1]) {
+          const line = new TextDecoder("latin1").decode(this.take(i));
+          this.take(2);
+          return line;
+        }
+      }
+      if (this.buffer.byteLength > MAX_LINE_BYTES) throw new Error("Response header line is too long");
+      searchFrom = Math.max(0, this.buffer.byteLength - 1);
+      if (!(await this.fill())) throw new Error("Connection closed before the response finished");
+    }
+  }
+
+  /** Up to `max` bytes, or null at end of stream. */
+  async read(max = Infinity): Promise<Uint8Array | null> {
+    if (this.buffer.byteLength === 0 && !(await this.fill())) return null;
+    return this.take(Math.min(max, this.buffer.byteLength));
+  }
+
+  /** Exactly `length` bytes. */
+  async readExactly(length: number): Promise<Uint8Array> {
+    while (this.buffer.byteLength < length) {
+      if (!(await this.fill())) throw new Error("Connection closed before the response finished");
+    }
+    return this.take(length);
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => {});
+  }
+}
+
+function requestHead(method: string, url: URL, init: HeadersInit | undefined): Uint8Array {
+  const headers = new Headers(init);
+  headers.set("Host", url.host);
+  headers.set("Connection", "close");
+  // Decoded below; brotli and the like aren't
+  headers.set("Accept-Encoding", "gzip, deflate");
+
+  const lines = [`${method} ${url.pathname}${url.search} HTTP/1.1`];
+  headers.forEach((value, name) => lines.push(`${name}: ${value}`));
+  return new TextEncoder().encode(lines.join("\r\n") + "\r\n\r\n");
+}
+
+async function readHead(reader: ConnectionReader): Promise<{ status: number; statusText: string; headers: Headers }> {
+  // Skip interim responses such as 100 Continue
+  for (;;) {
+    const statusLine = await reader.readLine();
+    const match = statusLine.match(/^HTTP\/1\.[01] (\d{3})(?: (.*))?$/);
+    if (!match) throw new Error(`Malformed response status line: ${statusLine.slice(0, 100)}`);
+
+    const headers = new Headers();
+    for (let line = await reader.readLine(); line !== ""; line = await reader.readLine()) {
+      const colon = line.indexOf(":");
+      if (colon <= 0) throw new Error("Malformed response header");
+      headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+
+    const status = Number(match[1]);
+    if (status >= 200) return { status, statusText: match[2] ?? "", headers };
+  }
+}
+
+async function* chunkedBody(reader: ConnectionReader): AsyncGenerator<Uint8Array> {
+  for (;;) {
+    const size = parseInt((await reader.readLine()).split(";")[0], 16);
+    if (Number.isNaN(size)) throw new Error("Malformed chunked response body");
+    if (size === 0) {
+      // Skip any trailers, up to the blank line that ends the body
+      for (let line = await reader.readLine(); line !== ""; line = await reader.readLine()) {
+        // Trailers aren't used
+      }
+      return;
+    }
+    yield await reader.readExactly(size);
+    await reader.readLine();
+  }
+}
+
+async function* lengthBody(reader: ConnectionReader, length: number): AsyncGenerator<Uint8Array> {
+  for (let remaining = length; remaining > 0; ) {
+    const chunk = await reader.read(remaining);
+    if (!chunk) throw new Error("Connection closed before the response finished");
+    remaining -= chunk.byteLength;
+    yield chunk;
+  }
+}
+
+async function* untilClosedBody(reader: ConnectionReader): AsyncGenerator<Uint8Array> {
+  for (let chunk = await reader.read(); chunk; chunk = await reader.read()) yield chunk;
+}
+
+/**
+ * fetch() to `url` over a connection to `address`, which must already have
+ * been checked. Redirects are returned rather than followed.
+ */
+export async function fetchPinned(url: URL, address: string, init: RequestInit = {}): Promise<Response> {
+  if (init.body != null) throw new TypeError("fetchPinned can't send a request body");
+  const method = (init.method ?? "GET").toUpperCase();
+  const signal = init.signal ?? undefined;
+  signal?.throwIfAborted();
+
+  const secure = url.protocol === "https:";
+  const tcp = await Deno.connect({ hostname: address, port: Number(url.port) || (secure ? 443 : 80) });
+  let conn: Deno.Conn = tcp;
+  const close = () => {
+    signal?.removeEventListener("abort", close);
+    try {
+      conn.close();
+    } catch {
+      // Already closed
+    }
+  };
+  signal?.addEventListener("abort", close);
+
+  let reader: ConnectionReader;
+  let head: Awaited<ReturnType<typeof readHead>>;
+  try {
+    if (secure) conn = await Deno.startTls(tcp, { hostname: url.hostname.replace(/^\[(.*)\]$/, "$1") });
+    const writer = conn.writable.getWriter();
+    await writer.write(requestHead(method, url, init.headers));
+    writer.releaseLock();
+
+    reader = new ConnectionReader(conn.readable);
+    head = await readHead(reader);
+  } catch (error) {
+    close();
+    signal?.throwIfAborted();
+    throw error;
+  }
+
+  const { status, statusText, headers } = head;
+  if (method === "HEAD" || NULL_BODY_STATUSES.has(status)) {
+    close();
+    return new Response(null, { status, statusText, headers });
+  }
+
+  const contentLength = headers.get("content-length");
+  if (contentLength !== null && !/^\d+$/.test(contentLength)) {
+    close();
+    throw new Error("Malformed response Content-Length");
+  }
+  const chunks = headers.get("transfer-encoding")?.toLowerCase().includes("chunked")
+    ? chunkedBody(reader)
+    : contentLength !== null
+      ? lengthBody(reader, Number(contentLength))
+      : untilClosedBody(reader);
+
+  let body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+          close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+        close();
+      }
+    },
+    async cancel() {
+      await reader.cancel();
+      close();
+    },
+  });
+
+  const encoding = headers.get("content-encoding")?.toLowerCase();
+  if (encoding === "gzip" || encoding === "deflate") {
+    body = body.pipeThrough(new DecompressionStream(encoding));
+    // The body handed back is decoded, so the encoded length no longer applies
+    headers.delete("content-encoding");
+    headers.delete("content-length");
+  }
+
+  return new Response(body, { status, statusText, headers });
+}
@@ -0,0 +1,192 @@
+// Fetching member-supplied URLs from inside the edge function. Recipe links
+// come straight from members, so parse-recipe must not follow them to the
+// database, the cloud metadata service or anything else on a private
+// network. Hostnames are resolved and every address checked before each
+// request, and the request then goes to one of those checked addresses
+// rather than resolving the name again. Redirects are followed by hand so
+// each hop is checked too, and bodies are read with a size cap instead of
+// buffered whole.
+
+import { fetchPinned } from "./pinnedFetch.ts";
+
+export const MAX_REDIRECTS = 5;
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+  }
+}
+
+// [network, prefix length] pairs that aren't reachable on the public internet
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+];
+
+/** Dotted-quad IPv4 address as a 32-bit number, or null if it isn't one. */
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+function isBlockedIPv4(value: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(parseIPv4(network)! / size);
+  });
+}
+
+/** IPv6 address as its eight 16-bit groups, or null if it isn't one. */
+function parseIPv6(address: string): number[] | null {
+  // A trailing dotted quad (::ffff:10.0.0.1) stands for the last two groups
+  let head = address;
+  let tail: number[] = [];
+  const embedded = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIPv4(embedded[2]);
+    if (ipv4 === null) return null;
+    head = embedded[1].endsWith("::") ? embedded[1] : embedded[1].slice(0, -1);
+    tail = [Math.floor(ipv4 / 0x10000), ipv4 % 0x10000];
+  }
+
+  const halves = head.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) =>
+    part === "" ? [] : part.split(":").map((group) => (/^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN));
+  const left = toGroups(halves[0]);
+
+  let groups: number[];
+  if (halves.length === 2) {
+    const right = [...toGroups(halves[1]), ...tail];
+    const missing = 8 - left.length - right.length;
+    if (missing < 1) return null;
+    groups = [...left, ...new Array(missing).fill(0), ...right];
+  } else {
+    groups = [...left, ...tail];
+  }
+  return groups.length === 8 && !groups.some(Number.isNaN) ? groups : null;
+}
+
+function isBlockedIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = groups[6] * 0x10000 + groups[7];
+  const zeroUntil = (end: number) => groups.slice(0, end).every((group) => group === 0);
+
+  // ::, ::1 and IPv4-compatible addresses
+  if (zeroUntil(6)) return isBlockedIPv4(embeddedIPv4);
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses
+  if (zeroUntil(5) && groups[5] === 0xffff) return isBlockedIPv4(embeddedIPv4);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isBlockedIPv4(embeddedIPv4);
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00 // unique local
+    || (groups[0] & 0xffc0) === 0xfe80 // link-local
+    || (groups[0] & 0xff00) === 0xff00; // multicast
+}
+
+/** True for any address that isn't a public unicast IP (unparseable ones included). */
+export function isBlockedAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return isBlockedIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 === null || isBlockedIPv6(ipv6);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+}
+
+/**
+ * The address to connect to for a URL. Throws UnsafeUrlError unless the URL
+ * is http(s) and every address its host resolves to is public.
+ */
+export async function resolvePublicAddress(url: URL): Promise<string> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UnsafeUrlError(`Only http and https links can be parsed, not ${url.protocol.replace(/:$/, "")}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  const blocked = new UnsafeUrlError(`${hostname} is a private or local network address and can't be fetched`);
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) throw blocked;
+
+  const isLiteral = parseIPv4(hostname) !== null || hostname.includes(":");
+  const addresses = isLiteral ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0) throw new Error(`Could not resolve ${hostname}`);
+  if (addresses.some(isBlockedAddress)) throw blocked;
+  return addresses[0];
+}
+
+/**
+ * fetch() for member-supplied URLs. Each hop of a redirect chain is checked
+ * with resolvePublicAddress and fetched from the address it returned, and
+ * chains longer than MAX_REDIRECTS are refused.
+ */
+export async function safeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolvePublicAddress(current);
+    const response = await fetchPinned(current, address, init);
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    if (redirects === MAX_REDIRECTS) {
+      throw new UnsafeUrlError(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+}
+
+/**
+ * Read a response body, giving up as soon as it passes maxBytes rather than
+ * buffering whatever the server sends. Returns null when it's too large.
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<ArrayBuffer | null> {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return new ArrayBuffer(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
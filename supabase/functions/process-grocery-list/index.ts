@@ -1,4 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAiProvider, parseAiJson, resolveProviderName } from "../_shared/aiProvider.ts";
+import {
+  AI_BUDGET_EXCEEDED_MESSAGE,
+  SOFT_LIMIT_MODEL,
+  checkAiBudget,
+  getRequestUserId,
+  withUsageMetering,
+} from "../_shared/aiUsage.ts";
+import { checkRateLimit, rateLimitedResponse } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,17 +38,36 @@ serve(async (req) => {
   }
 
   try {
-    const aiApiKey = Deno.env.get("ANTHROPIC_API_KEY");
-
-    if (!aiApiKey) {
+    const { rawIngredients, model: requestedModel, provider: requestedProvider }: {
+      rawIngredients: RawIngredientInput[];
+      model?: string;
+      provider?: string;
+    } = await req.json();
+
+    const providerName = resolveProviderName(requestedProvider);
+    const provider = getAiProvider(providerName);
+    if (!provider) {
       return new Response(
-        JSON.stringify({ success: true, skipped: true, message: "ANTHROPIC_API_KEY not configured" }),
+        JSON.stringify({ success: true, skipped: true, message: `${providerName} AI provider not configured` }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const { rawIngredients, model: requestedModel }: { rawIngredients: RawIngredientInput[]; model?: string } = await req.json();
-    const model = requestedModel || "claude-sonnet-4-6";
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const userId = await getRequestUserId(supabase, req);
+    const retryAfter = await checkRateLimit(supabase, req, "process-grocery-list", userId);
+    if (retryAfter !== null) return rateLimitedResponse(retryAfter, corsHeaders);
+
+    // Past the hard limit the client combines the list locally instead
+    const budget = await checkAiBudget(supabase, userId);
+    if (budget === "hard") {
+      return new Response(
+        JSON.stringify({ success: true, skipped: true, message: AI_BUDGET_EXCEEDED_MESSAGE }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const ai = withUsageMetering(provider, supabase, userId);
+    const model = ai.resolveModel(budget === "soft" ? SOFT_LIMIT_MODEL : requestedModel, "claude-sonnet-4-6");
 
     if (!rawIngredients || rawIngredients.length === 0) {
       return new Response(
@@ -146,41 +175,18 @@ totalQuantity must be a number or null. unit must be a string or null.`;
 
     const userContent = `Combine these raw ingredients from multiple recipes. Each ingredient has a recipeName field.\n\nProduce TWO outputs:\n1. "items" — all ingredients combined across all recipes into one grocery list\n2. "perRecipeItems" — ingredients combined within each recipe, keyed by recipe name\n\nRaw ingredients:\n${JSON.stringify(rawIngredients, null, 2)}`;
 
-    const aiResponse = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": aiApiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: 8192,
-        system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: userContent,
-          },
-        ],
-      }),
+    const aiResponse = await ai.complete({
+      task: "process-grocery-list",
+      model,
+      system: systemPrompt,
+      content: userContent,
+      maxTokens: 8192,
+      fixtureInput: rawIngredients,
     });
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      throw new Error(`AI API error: ${aiResponse.status} - ${errorText}`);
-    }
-
-    const aiResult = await aiResponse.json();
-    const aiText = aiResult.content?.[0]?.text || "";
-
-    let parsed: { items: SmartGroceryItem[]; perRecipeItems?: Record<string, SmartGroceryItem[]> };
-    try {
-      const jsonMatch = aiText.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, aiText];
-      parsed = JSON.parse(jsonMatch[1].trim());
-    } catch {
-      throw new Error(`Failed to parse AI response as JSON: ${aiText.slice(0, 200)}`);
-    }
+    const parsed = parseAiJson<{ items: SmartGroceryItem[]; perRecipeItems?: Record<string, SmartGroceryItem[]> }>(
+      aiResponse.text
+    );
 
     const items = parsed.items;
     const perRecipeItems = parsed.perRecipeItems || {};
@@ -220,7 +226,13 @@ totalQuantity must be a number or null. unit must be a string or null.`;
     }
 
     return new Response(
-      JSON.stringify({ success: true, items, perRecipeItems }),
+      JSON.stringify({
+        success: true,
+        items,
+        perRecipeItems,
+        provider: aiResponse.provider,
+        model: aiResponse.model,
+      }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRequestUserId } from "../_shared/aiUsage.ts";
+import { checkRateLimit, rateLimitedResponse } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,6 +24,11 @@ serve(async (req) => {
       );
     }
 
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const userId = await getRequestUserId(supabase, req);
+    const retryAfter = await checkRateLimit(supabase, req, "send-contact-email", userId);
+    if (retryAfter !== null) return rateLimitedResponse(retryAfter, corsHeaders);
+
     const { name, email, type, message } = await req.json();
 
     if (!message?.trim()) {
@@ -0,0 +1,3 @@
+-- Per-slot serving override for meal plan items. NULL means "use household size".
+ALTER TABLE meal_plan_items
+  ADD COLUMN servings INTEGER CHECK (servings IS NULL OR servings > 0);
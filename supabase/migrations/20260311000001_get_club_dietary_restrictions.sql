@@ -0,0 +1,25 @@
+-- Returns dietary restrictions of every club member who has set any, so event
+-- pages can check brought recipes against them. user_preferences RLS only
+-- exposes a user's own row, hence security definer. Callers must be on the
+-- allowed_users list.
+create or replace function get_club_dietary_restrictions()
+returns table (user_id uuid, name text, dietary_restrictions text[])
+language sql
+security definer
+stable
+as $$
+  select u.id, coalesce(nullif(p.name, ''), split_part(u.email, '@', 1)), up.dietary_restrictions
+  from allowed_users au
+  join auth.users u on u.email = au.email
+  left join profiles p on p.id = u.id
+  join user_preferences up on up.user_id = u.id
+  where au.is_club_member = true
+    and coalesce(array_length(up.dietary_restrictions, 1), 0) > 0
+    and exists (
+      select 1 from allowed_users me
+      where me.email = (select email from auth.users where id = auth.uid())
+    )
+  order by 2;
+$$;
+
+grant execute on function get_club_dietary_restrictions() to authenticated;
@@ -0,0 +1,4 @@
+-- Record which wheel mode picked each event's ingredient so picks can be audited.
+-- NULL for personal events and events created before spin modes existed.
+ALTER TABLE scheduled_events
+  ADD COLUMN spin_mode TEXT CHECK (spin_mode IS NULL OR spin_mode IN ('uniform', 'weighted', 'cooldown'));
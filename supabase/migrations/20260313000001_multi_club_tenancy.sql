@@ -0,0 +1,311 @@
+-- Multi-club tenancy: one deployment can host several clubs (office, family,
+-- neighborhood). allowed_users stays the sign-in allow-list and site role;
+-- club membership and the per-club role live in club_members, keyed by email
+-- like allowed_users so people can be added before they first sign in.
+-- Ingredients, club events and club recipes belong to a club.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS clubs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS club_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES clubs(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT club_members_club_id_email_key UNIQUE(club_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_club_members_email ON club_members(email);
+
+-- ============================================================
+-- 2. Backfill the existing global club
+-- ============================================================
+
+INSERT INTO clubs (name)
+SELECT 'Recipe Club'
+WHERE NOT EXISTS (SELECT 1 FROM clubs);
+
+INSERT INTO club_members (club_id, email, role)
+SELECT (SELECT id FROM clubs ORDER BY created_at LIMIT 1), lower(au.email), au.role
+FROM allowed_users au
+WHERE au.is_club_member = true
+ON CONFLICT (club_id, email) DO NOTHING;
+
+-- ============================================================
+-- 3. Club-scoped content
+-- ============================================================
+
+ALTER TABLE ingredients ADD COLUMN IF NOT EXISTS club_id UUID REFERENCES clubs(id) ON DELETE CASCADE;
+UPDATE ingredients SET club_id = (SELECT id FROM clubs ORDER BY created_at LIMIT 1) WHERE club_id IS NULL;
+ALTER TABLE ingredients ALTER COLUMN club_id SET NOT NULL;
+
+-- Ingredient names are unique per club rather than globally
+ALTER TABLE ingredients DROP CONSTRAINT IF EXISTS ingredients_name_key;
+ALTER TABLE ingredients ADD CONSTRAINT ingredients_club_id_name_key UNIQUE(club_id, name);
+
+-- Only club events carry a club; personal events stay owner-scoped
+ALTER TABLE scheduled_events ADD COLUMN IF NOT EXISTS club_id UUID REFERENCES clubs(id) ON DELETE CASCADE;
+UPDATE scheduled_events SET club_id = (SELECT id FROM clubs ORDER BY created_at LIMIT 1)
+WHERE type = 'club' AND club_id IS NULL;
+
+-- Recipes brought to a club event belong to that club; personal recipes have no club
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS club_id UUID REFERENCES clubs(id) ON DELETE SET NULL;
+UPDATE recipes r SET club_id = se.club_id
+FROM scheduled_events se
+WHERE se.id = r.event_id AND se.type = 'club' AND r.club_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ingredients_club ON ingredients(club_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_events_club ON scheduled_events(club_id);
+CREATE INDEX IF NOT EXISTS idx_recipes_club ON recipes(club_id);
+
+-- ============================================================
+-- 4. Helper functions
+-- ============================================================
+
+-- Role of the current user in a club, or NULL when not a member
+CREATE OR REPLACE FUNCTION club_role(p_club_id UUID)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role FROM public.club_members
+  WHERE club_id = p_club_id
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION is_club_member(p_club_id UUID)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT club_role(p_club_id) IS NOT NULL;
+$$;
+
+-- Site admins (allowed_users.role = 'admin') can manage every club
+CREATE OR REPLACE FUNCTION is_club_member_or_admin(p_club_id UUID)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(club_role(p_club_id) IN ('admin', 'member'), false) OR current_user_is_admin();
+$$;
+
+CREATE OR REPLACE FUNCTION is_club_admin(p_club_id UUID)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(club_role(p_club_id) = 'admin', false) OR current_user_is_admin();
+$$;
+
+GRANT EXECUTE ON FUNCTION club_role(UUID) TO authenticated;
+
+-- Emails of a club's members, for calendar invites. Callable by members of
+-- the club and by edge functions running with the service role.
+CREATE OR REPLACE FUNCTION get_club_member_emails(p_club_id UUID)
+RETURNS text[]
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(cm.email ORDER BY cm.email), '{}'::text[])
+  FROM club_members cm
+  WHERE cm.club_id = p_club_id
+    AND (auth.role() = 'service_role' OR is_club_member(p_club_id));
+$$;
+
+GRANT EXECUTE ON FUNCTION get_club_member_emails(UUID) TO authenticated, service_role;
+
+-- Member names and dietary restrictions are now per club
+DROP FUNCTION IF EXISTS get_club_member_names();
+CREATE OR REPLACE FUNCTION get_club_member_names(p_club_id UUID)
+RETURNS text[]
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    array_agg(split_part(p.name, ' ', 1) ORDER BY split_part(p.name, ' ', 1)),
+    '{}'::text[]
+  )
+  FROM club_members cm
+  JOIN auth.users u ON lower(u.email) = cm.email
+  JOIN profiles p ON p.id = u.id
+  WHERE cm.club_id = p_club_id
+    AND p.name IS NOT NULL
+    AND p.name <> ''
+    AND is_club_member(p_club_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_club_member_names(UUID) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_club_dietary_restrictions();
+CREATE OR REPLACE FUNCTION get_club_dietary_restrictions(p_club_id UUID)
+RETURNS TABLE (user_id uuid, name text, dietary_restrictions text[])
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT u.id, coalesce(nullif(p.name, ''), split_part(u.email, '@', 1)), up.dietary_restrictions
+  FROM club_members cm
+  JOIN auth.users u ON lower(u.email) = cm.email
+  LEFT JOIN profiles p ON p.id = u.id
+  JOIN user_preferences up ON up.user_id = u.id
+  WHERE cm.club_id = p_club_id
+    AND coalesce(array_length(up.dietary_restrictions, 1), 0) > 0
+    AND is_club_member(p_club_id)
+  ORDER BY 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_club_dietary_restrictions(UUID) TO authenticated;
+
+-- ============================================================
+-- 5. RLS: clubs and club_members
+-- ============================================================
+
+ALTER TABLE clubs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE club_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their clubs"
+  ON clubs FOR SELECT
+  USING (is_club_member(id) OR current_user_is_admin());
+
+CREATE POLICY "Site admins can create clubs"
+  ON clubs FOR INSERT
+  WITH CHECK (current_user_is_admin());
+
+CREATE POLICY "Club admins can update their club"
+  ON clubs FOR UPDATE
+  USING (is_club_admin(id));
+
+CREATE POLICY "Site admins can delete clubs"
+  ON clubs FOR DELETE
+  USING (current_user_is_admin());
+
+CREATE POLICY "Members can view club memberships"
+  ON club_members FOR SELECT
+  USING (is_club_member(club_id) OR current_user_is_admin());
+
+-- Mirrors allowed_users: editors manage membership of their own clubs
+CREATE POLICY "Club members and admins can add members"
+  ON club_members FOR INSERT
+  WITH CHECK (is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can update members"
+  ON club_members FOR UPDATE
+  USING (is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can remove members"
+  ON club_members FOR DELETE
+  USING (is_club_member_or_admin(club_id));
+
+-- ============================================================
+-- 6. RLS: ingredients
+-- ============================================================
+
+DROP POLICY IF EXISTS "Anyone can view ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Admins can manage ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Members and admins can insert ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Members and admins can update ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Members and admins can delete ingredients" ON ingredients;
+
+CREATE POLICY "Club members can view club ingredients"
+  ON ingredients FOR SELECT
+  USING (is_club_member(club_id) OR current_user_is_admin());
+
+CREATE POLICY "Club members and admins can insert ingredients"
+  ON ingredients FOR INSERT
+  WITH CHECK (is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can update ingredients"
+  ON ingredients FOR UPDATE
+  USING (is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can delete ingredients"
+  ON ingredients FOR DELETE
+  USING (is_club_member_or_admin(club_id));
+
+-- ============================================================
+-- 7. RLS: club events (personal event policies are unchanged)
+-- ============================================================
+
+DROP POLICY IF EXISTS "Anyone can view club events" ON scheduled_events;
+DROP POLICY IF EXISTS "Admins can insert club events" ON scheduled_events;
+DROP POLICY IF EXISTS "Admins can update club events" ON scheduled_events;
+DROP POLICY IF EXISTS "Admins can delete club events" ON scheduled_events;
+DROP POLICY IF EXISTS "Members and admins can insert scheduled_events" ON scheduled_events;
+DROP POLICY IF EXISTS "Members and admins can update scheduled_events" ON scheduled_events;
+DROP POLICY IF EXISTS "Members and admins can delete scheduled_events" ON scheduled_events;
+
+CREATE POLICY "Club members can view club events"
+  ON scheduled_events FOR SELECT
+  USING (type = 'club' AND (is_club_member(club_id) OR current_user_is_admin()));
+
+CREATE POLICY "Club members and admins can insert club events"
+  ON scheduled_events FOR INSERT
+  WITH CHECK (type = 'club' AND is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can update club events"
+  ON scheduled_events FOR UPDATE
+  USING (type = 'club' AND is_club_member_or_admin(club_id));
+
+CREATE POLICY "Club members and admins can delete club events"
+  ON scheduled_events FOR DELETE
+  USING (type = 'club' AND is_club_member_or_admin(club_id));
+
+-- ============================================================
+-- 8. RLS: recipes
+-- Personal recipes (no club) keep their previous rules. Club recipes are
+-- visible to the club; the creator or a club admin may edit or delete them.
+-- is_club_admin(NULL) falls through to the site-admin check.
+-- ============================================================
+
+DROP POLICY IF EXISTS "Anyone can view recipes" ON recipes;
+DROP POLICY IF EXISTS "Authenticated users can insert recipes" ON recipes;
+DROP POLICY IF EXISTS "Users can update their own recipes or admins can update any" ON recipes;
+DROP POLICY IF EXISTS "Users can delete their own recipes or admins can delete any" ON recipes;
+
+CREATE POLICY "Users can view personal and club recipes"
+  ON recipes FOR SELECT
+  USING (club_id IS NULL OR is_club_member(club_id) OR current_user_is_admin());
+
+CREATE POLICY "Users can insert personal and club recipes"
+  ON recipes FOR INSERT
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (club_id IS NULL OR is_club_member(club_id))
+  );
+
+CREATE POLICY "Users can update their own recipes or club admins can update any"
+  ON recipes FOR UPDATE
+  USING (
+    created_by = auth.uid()
+    OR is_club_admin(club_id)
+  );
+
+CREATE POLICY "Users can delete their own recipes or club admins can delete any"
+  ON recipes FOR DELETE
+  USING (
+    created_by = auth.uid()
+    OR is_club_admin(club_id)
+  );
@@ -0,0 +1,152 @@
+-- Shared grocery lists: people in a household tick off one checklist for an
+-- event or meal-plan week. The owner invites others by email (like
+-- club_members, so they can be added before they first sign in). Each check
+-- is its own row rather than an entry in combined_grocery_items.checked_items,
+-- so two phones checking at once don't overwrite each other and we know who
+-- checked what. Personal lists keep using combined_grocery_items.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- One household per person, so the shared checklist is unambiguous
+  CONSTRAINT household_members_email_key UNIQUE(email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_household ON household_members(household_id);
+
+CREATE TABLE IF NOT EXISTS grocery_checks (
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  context_type TEXT NOT NULL CHECK (context_type IN ('event', 'meal_plan')),
+  context_id TEXT NOT NULL,
+  item_name TEXT NOT NULL,
+  checked_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  checked_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (household_id, context_type, context_id, item_name)
+);
+
+-- ============================================================
+-- 2. Helper functions
+-- ============================================================
+
+-- Role of the current user in a household, or NULL when not a member
+CREATE OR REPLACE FUNCTION household_role(p_household_id UUID)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role FROM public.household_members
+  WHERE household_id = p_household_id
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION is_household_member(p_household_id UUID)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT household_role(p_household_id) IS NOT NULL;
+$$;
+
+-- The current user's household, or NULL
+CREATE OR REPLACE FUNCTION my_household_id()
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT household_id FROM public.household_members
+  WHERE email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION household_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION my_household_id() TO authenticated;
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grocery_checks ENABLE ROW LEVEL SECURITY;
+
+-- The creator can read the row back before adding themselves as owner
+CREATE POLICY "Members can view their household"
+  ON households FOR SELECT
+  USING (is_household_member(id) OR created_by = auth.uid());
+
+CREATE POLICY "Users can create a household"
+  ON households FOR INSERT
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update their household"
+  ON households FOR UPDATE
+  USING (household_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their household"
+  ON households FOR DELETE
+  USING (household_role(id) = 'owner');
+
+CREATE POLICY "Members can view household members"
+  ON household_members FOR SELECT
+  USING (is_household_member(household_id));
+
+CREATE POLICY "Owners can invite members"
+  ON household_members FOR INSERT
+  WITH CHECK (
+    household_role(household_id) = 'owner'
+    OR EXISTS (
+      SELECT 1 FROM households h
+      WHERE h.id = household_id AND h.created_by = auth.uid()
+    )
+  );
+
+-- Owners remove anyone; members can remove themselves to leave
+CREATE POLICY "Owners and the member themselves can remove members"
+  ON household_members FOR DELETE
+  USING (
+    household_role(household_id) = 'owner'
+    OR email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Members can view household checks"
+  ON grocery_checks FOR SELECT
+  USING (is_household_member(household_id));
+
+CREATE POLICY "Members can check items"
+  ON grocery_checks FOR INSERT
+  WITH CHECK (is_household_member(household_id) AND checked_by = auth.uid());
+
+CREATE POLICY "Members can update checks"
+  ON grocery_checks FOR UPDATE
+  USING (is_household_member(household_id));
+
+CREATE POLICY "Members can uncheck items"
+  ON grocery_checks FOR DELETE
+  USING (is_household_member(household_id));
+
+-- ============================================================
+-- 4. Realtime
+-- ============================================================
+
+-- Full row images so unchecks (deletes) carry the item name to subscribers
+ALTER TABLE grocery_checks REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE grocery_checks;
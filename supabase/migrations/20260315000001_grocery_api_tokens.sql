@@ -0,0 +1,44 @@
+-- Personal API tokens for the grocery-api function (voice assistants,
+-- shortcuts). Replaces the single GROCERY_API_KEY / GROCERY_API_USER_ID pair
+-- so each person gets their own tokens acting as themselves. Only a SHA-256
+-- hash of the token is stored; the plaintext is shown once when minted.
+-- The function looks tokens up with the service role and stamps last_used_at.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL,
+  -- First few characters, so people can tell their tokens apart
+  token_prefix TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'read_write' CHECK (scope IN ('read', 'read_write')),
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT api_tokens_token_hash_key UNIQUE(token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API tokens"
+  ON api_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own API tokens"
+  ON api_tokens FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Revoking deletes the row; there is no update policy, so a token's hash and
+-- scope can't be changed after it's minted
+CREATE POLICY "Users can revoke their own API tokens"
+  ON api_tokens FOR DELETE
+  USING (user_id = auth.uid());
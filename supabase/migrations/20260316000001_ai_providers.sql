@@ -0,0 +1,21 @@
+-- AI provider selection. parse-recipe and process-grocery-list can run on
+-- Anthropic, any OpenAI-compatible endpoint (e.g. a local Ollama) or an
+-- offline fixture-backed stub. The provider is chosen per user alongside the
+-- model, and parsed recipes record which provider and model produced them.
+
+-- ============================================================
+-- 1. Provider preference
+-- ============================================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS ai_provider TEXT NOT NULL DEFAULT 'anthropic'
+    CHECK (ai_provider IN ('anthropic', 'openai', 'stub'));
+
+-- ============================================================
+-- 2. Parse provenance
+-- ============================================================
+
+-- Both NULL when the recipe was mapped from structured data without the AI
+ALTER TABLE recipe_content
+  ADD COLUMN IF NOT EXISTS ai_provider TEXT,
+  ADD COLUMN IF NOT EXISTS ai_model TEXT;
@@ -0,0 +1,133 @@
+-- AI usage metering and per-user monthly budgets. parse-recipe and
+-- process-grocery-list log every model call (tokens and estimated cost) to
+-- ai_usage with the service role. Admins set soft and hard monthly limits per
+-- user in ai_budgets: past the soft limit the functions fall back to Haiku,
+-- past the hard limit they skip the AI and the app uses its non-AI path.
+-- Users without a budget row are unlimited.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when the caller couldn't be identified (e.g. anon key only)
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  soft_limit_usd NUMERIC(10, 2) CHECK (soft_limit_usd >= 0),
+  hard_limit_usd NUMERIC(10, 2) CHECK (hard_limit_usd >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT ai_budgets_soft_below_hard
+    CHECK (soft_limit_usd IS NULL OR hard_limit_usd IS NULL OR soft_limit_usd <= hard_limit_usd)
+);
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_budgets ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: only the edge functions (service role) write usage
+CREATE POLICY "Users can view their own AI usage or admins can view all"
+  ON ai_usage FOR SELECT
+  USING (user_id = auth.uid() OR current_user_is_admin());
+
+CREATE POLICY "Users can view their own AI budget"
+  ON ai_budgets FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage AI budgets"
+  ON ai_budgets FOR ALL
+  USING (current_user_is_admin())
+  WITH CHECK (current_user_is_admin());
+
+-- ============================================================
+-- 3. Functions
+-- ============================================================
+
+-- This calendar month's spend and limits for one user. Security invoker: the
+-- edge functions call it with the service role, users can only see their own.
+CREATE OR REPLACE FUNCTION get_ai_budget_status(p_user_id UUID)
+RETURNS TABLE (spent_usd NUMERIC, soft_limit_usd NUMERIC, hard_limit_usd NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(u.estimated_cost_usd) FROM public.ai_usage u
+      WHERE u.user_id = p_user_id
+        AND u.created_at >= date_trunc('month', NOW())
+    ), 0),
+    b.soft_limit_usd,
+    b.hard_limit_usd
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.ai_budgets b ON b.user_id = p_user_id;
+$$;
+
+-- Per-user totals for the month containing p_month, for the admin usage page.
+-- Lists every signed-up user so budgets can be set before any usage.
+-- Returns nothing for non-admins.
+CREATE OR REPLACE FUNCTION get_ai_usage_summary(p_month DATE)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  name TEXT,
+  call_count BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  estimated_cost_usd NUMERIC,
+  soft_limit_usd NUMERIC,
+  hard_limit_usd NUMERIC
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH month_usage AS (
+    SELECT
+      u.user_id,
+      COUNT(*) AS call_count,
+      SUM(u.input_tokens) AS input_tokens,
+      SUM(u.output_tokens) AS output_tokens,
+      SUM(u.estimated_cost_usd) AS estimated_cost_usd
+    FROM public.ai_usage u
+    WHERE u.user_id IS NOT NULL
+      AND u.created_at >= date_trunc('month', p_month::timestamptz)
+      AND u.created_at < date_trunc('month', p_month::timestamptz) + INTERVAL '1 month'
+    GROUP BY u.user_id
+  )
+  SELECT
+    p.id,
+    au.email::text,
+    p.name,
+    COALESCE(mu.call_count, 0),
+    COALESCE(mu.input_tokens, 0),
+    COALESCE(mu.output_tokens, 0),
+    COALESCE(mu.estimated_cost_usd, 0),
+    b.soft_limit_usd,
+    b.hard_limit_usd
+  FROM public.profiles p
+  JOIN auth.users au ON au.id = p.id
+  LEFT JOIN month_usage mu ON mu.user_id = p.id
+  LEFT JOIN public.ai_budgets b ON b.user_id = p.id
+  WHERE current_user_is_admin()
+  ORDER BY COALESCE(mu.estimated_cost_usd, 0) DESC, au.email;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_ai_budget_status(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_ai_usage_summary(DATE) TO authenticated;
@@ -0,0 +1,34 @@
+-- Shared cache of parse-recipe results. When several people add the same
+-- recipe URL, only the first add fetches and parses the page; later recipe
+-- rows get their recipe_content and recipe_ingredients straight from here.
+-- Entries are keyed by canonical URL (tracking params, AMP and print variants
+-- stripped) and also matched by a SHA-256 hash of the fetched page or file.
+-- parse-recipe reads and writes with the service role; an explicit re-parse
+-- bypasses the cache and refreshes the entry.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS recipe_parse_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_url TEXT NOT NULL,
+  -- NULL when the entry was stored without fetching (nothing to hash)
+  content_hash TEXT,
+  parsed JSONB NOT NULL,
+  ai_provider TEXT,
+  ai_model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT recipe_parse_cache_canonical_url_key UNIQUE(canonical_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_parse_cache_content_hash
+  ON recipe_parse_cache(content_hash);
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+-- No policies: only parse-recipe (service role) touches the cache
+ALTER TABLE recipe_parse_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,136 @@
+-- Background queue for recipe parsing. Instead of waiting on a parse-recipe
+-- request, the app inserts a job and listens for its row over Realtime, so
+-- people can leave the page while a slow PDF parses. parse-recipe-worker
+-- claims due jobs, runs parse-recipe and records the outcome; failures are
+-- retried with exponential backoff up to max_attempts. Every status change
+-- is kept in recipe_parse_job_events. The worker is kicked by the app after
+-- each insert and runs on a pg_cron schedule to pick up retries.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS recipe_parse_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  -- parse-recipe request body minus recipeId (recipeName, recipeUrl or text, model, provider, reparse)
+  request JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_parse_jobs_due
+  ON recipe_parse_jobs(next_attempt_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_recipe_parse_jobs_recipe ON recipe_parse_jobs(recipe_id);
+
+CREATE TABLE IF NOT EXISTS recipe_parse_job_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES recipe_parse_jobs(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_parse_job_events_job ON recipe_parse_job_events(job_id, created_at);
+
+-- ============================================================
+-- 2. Status history
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION record_recipe_parse_job_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.recipe_parse_job_events (job_id, status, attempt, error)
+    VALUES (NEW.id, NEW.status, NEW.attempts, NEW.last_error);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recipe_parse_jobs_status_history
+  AFTER INSERT OR UPDATE OF status ON recipe_parse_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_recipe_parse_job_event();
+
+-- ============================================================
+-- 3. Worker claim
+-- ============================================================
+
+-- Mark up to p_limit due jobs as running and return them. Jobs left running
+-- past p_stale_after (worker timed out or crashed) are claimed again.
+-- p_job_id restricts the claim to one job, for the kick after an insert.
+CREATE OR REPLACE FUNCTION claim_recipe_parse_jobs(
+  p_limit INTEGER DEFAULT 5,
+  p_job_id UUID DEFAULT NULL,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF recipe_parse_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.recipe_parse_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = NOW(),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.recipe_parse_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (
+        (status = 'queued' AND next_attempt_at <= NOW())
+        OR (status = 'running' AND started_at < NOW() - p_stale_after)
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+-- Only the worker (service role) claims jobs
+REVOKE EXECUTE ON FUNCTION claim_recipe_parse_jobs(INTEGER, UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 4. RLS
+-- ============================================================
+
+ALTER TABLE recipe_parse_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_parse_job_events ENABLE ROW LEVEL SECURITY;
+
+-- No update policy: only the worker (service role) moves jobs along
+CREATE POLICY "Users can view their own parse jobs or admins can view all"
+  ON recipe_parse_jobs FOR SELECT
+  USING (requested_by = auth.uid() OR current_user_is_admin());
+
+CREATE POLICY "Users can queue parse jobs"
+  ON recipe_parse_jobs FOR INSERT
+  WITH CHECK (requested_by = auth.uid() AND status = 'queued' AND attempts = 0);
+
+CREATE POLICY "Users can view history of their own parse jobs or admins can view all"
+  ON recipe_parse_job_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM recipe_parse_jobs j
+    WHERE j.id = recipe_parse_job_events.job_id
+      AND (j.requested_by = auth.uid() OR current_user_is_admin())
+  ));
+
+-- ============================================================
+-- 5. Realtime
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE recipe_parse_jobs;
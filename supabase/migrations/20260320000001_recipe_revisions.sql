@@ -0,0 +1,307 @@
+-- Revision history for parsed recipe content. Re-parses and edits used to
+-- overwrite recipe_ingredients and recipe_content in place, so a bad re-parse
+-- could wipe out a member's hand-corrected ingredients. Now every committed
+-- write to either table snapshots the recipe's ingredients and content into
+-- recipe_revisions: one revision per transaction, skipped when nothing
+-- changed. parse-recipe saves its ingredients and content together through
+-- save_recipe_parse, and revert_recipe_revision restores any snapshot (as a
+-- new revision, so reverts can be undone too).
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS recipe_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'edit'
+    CHECK (source IN ('parse', 'edit', 'revert', 'backfill')),
+  -- [{name, quantity, unit, category, raw_text, sort_order}] in display order
+  ingredients JSONB NOT NULL DEFAULT '[]',
+  -- {description, servings, prep_time, cook_time, total_time, instructions, source_title}
+  -- without null fields; NULL when the recipe has no parsed content
+  content JSONB,
+  reverted_from UUID REFERENCES recipe_revisions(id) ON DELETE SET NULL,
+  txid BIGINT NOT NULL DEFAULT txid_current(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (recipe_id, txid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_revisions_recipe ON recipe_revisions(recipe_id, created_at DESC);
+
+-- ============================================================
+-- 2. Snapshots
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION recipe_ingredients_snapshot(p_recipe_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'name', name,
+        'quantity', quantity,
+        'unit', unit,
+        'category', category,
+        'raw_text', raw_text,
+        'sort_order', sort_order
+      )
+      ORDER BY sort_order NULLS LAST, created_at, id
+    ),
+    '[]'::jsonb
+  )
+  FROM public.recipe_ingredients
+  WHERE recipe_id = p_recipe_id;
+$$;
+
+CREATE OR REPLACE FUNCTION recipe_content_snapshot(p_recipe_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(
+    jsonb_strip_nulls(jsonb_build_object(
+      'description', description,
+      'servings', servings,
+      'prep_time', prep_time,
+      'cook_time', cook_time,
+      'total_time', total_time,
+      'instructions', instructions,
+      'source_title', source_title
+    )),
+    '{}'::jsonb
+  )
+  FROM public.recipe_content
+  WHERE recipe_id = p_recipe_id;
+$$;
+
+-- Runs at commit (deferred), so it sees the transaction's final state and
+-- only the first row change per recipe takes the snapshot. Who and why come
+-- from transaction-local settings set by the RPCs below; plain client edits
+-- are recorded as 'edit' by the signed-in user.
+CREATE OR REPLACE FUNCTION record_recipe_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipe_id UUID;
+  v_ingredients JSONB;
+  v_content JSONB;
+  v_latest recipe_revisions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_recipe_id := OLD.recipe_id;
+  ELSE
+    v_recipe_id := NEW.recipe_id;
+  END IF;
+
+  -- Already recorded in this transaction, or the recipe itself was deleted
+  IF EXISTS (SELECT 1 FROM recipe_revisions WHERE recipe_id = v_recipe_id AND txid = txid_current())
+    OR NOT EXISTS (SELECT 1 FROM recipes WHERE id = v_recipe_id) THEN
+    RETURN NULL;
+  END IF;
+
+  v_ingredients := recipe_ingredients_snapshot(v_recipe_id);
+  v_content := recipe_content_snapshot(v_recipe_id);
+
+  SELECT * INTO v_latest FROM recipe_revisions
+  WHERE recipe_id = v_recipe_id
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- Status-only updates (parsing, failed) don't change the snapshot
+    IF v_latest.ingredients = v_ingredients AND v_latest.content IS NOT DISTINCT FROM v_content THEN
+      RETURN NULL;
+    END IF;
+  ELSIF v_ingredients = '[]'::jsonb AND v_content IS NULL THEN
+    -- Nothing worth keeping yet (e.g. the pending row for a new recipe)
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO recipe_revisions (recipe_id, changed_by, source, ingredients, content, reverted_from)
+  VALUES (
+    v_recipe_id,
+    COALESCE(NULLIF(current_setting('recipe_revision.changed_by', true), '')::uuid, auth.uid()),
+    COALESCE(NULLIF(current_setting('recipe_revision.source', true), ''), 'edit'),
+    v_ingredients,
+    v_content,
+    NULLIF(current_setting('recipe_revision.reverted_from', true), '')::uuid
+  )
+  ON CONFLICT (recipe_id, txid) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER recipe_ingredients_revision
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_ingredients
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_recipe_revision();
+
+CREATE CONSTRAINT TRIGGER recipe_content_revision
+  AFTER INSERT OR UPDATE ON recipe_content
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_recipe_revision();
+
+-- Existing recipes start their history from what they have today
+INSERT INTO recipe_revisions (recipe_id, changed_by, source, ingredients, content, created_at)
+SELECT
+  r.id,
+  NULL,
+  'backfill',
+  recipe_ingredients_snapshot(r.id),
+  recipe_content_snapshot(r.id),
+  COALESCE(rc.parsed_at, r.created_at, NOW())
+FROM recipes r
+LEFT JOIN recipe_content rc ON rc.recipe_id = r.id
+WHERE EXISTS (SELECT 1 FROM recipe_ingredients ri WHERE ri.recipe_id = r.id)
+   OR recipe_content_snapshot(r.id) IS NOT NULL;
+
+-- ============================================================
+-- 3. Parse writes
+-- ============================================================
+
+-- Replace a recipe's ingredients and parsed content in one transaction so a
+-- parse is a single revision attributed to the member who asked for it.
+-- p_content holds the recipe_content columns to write (including status,
+-- parsed_at and the AI provider and model).
+CREATE OR REPLACE FUNCTION save_recipe_parse(
+  p_recipe_id UUID,
+  p_ingredients JSONB,
+  p_content JSONB,
+  p_changed_by UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('recipe_revision.source', 'parse', true);
+  PERFORM set_config('recipe_revision.changed_by', COALESCE(p_changed_by::text, ''), true);
+
+  PERFORM replace_recipe_ingredients(p_recipe_id, p_ingredients);
+
+  INSERT INTO recipe_content (
+    recipe_id, description, servings, prep_time, cook_time, total_time, instructions,
+    source_title, ai_provider, ai_model, parsed_at, status, error_message
+  )
+  VALUES (
+    p_recipe_id,
+    p_content->>'description',
+    p_content->>'servings',
+    p_content->>'prep_time',
+    p_content->>'cook_time',
+    p_content->>'total_time',
+    p_content->'instructions',
+    p_content->>'source_title',
+    p_content->>'ai_provider',
+    p_content->>'ai_model',
+    COALESCE((p_content->>'parsed_at')::timestamptz, NOW()),
+    COALESCE(p_content->>'status', 'completed'),
+    p_content->>'error_message'
+  )
+  ON CONFLICT (recipe_id) DO UPDATE SET
+    description = EXCLUDED.description,
+    servings = EXCLUDED.servings,
+    prep_time = EXCLUDED.prep_time,
+    cook_time = EXCLUDED.cook_time,
+    total_time = EXCLUDED.total_time,
+    instructions = EXCLUDED.instructions,
+    source_title = EXCLUDED.source_title,
+    ai_provider = EXCLUDED.ai_provider,
+    ai_model = EXCLUDED.ai_model,
+    parsed_at = EXCLUDED.parsed_at,
+    status = EXCLUDED.status,
+    error_message = EXCLUDED.error_message;
+END;
+$$;
+
+-- Only parse-recipe (service role) saves parses
+REVOKE EXECUTE ON FUNCTION save_recipe_parse(UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 4. Revert
+-- ============================================================
+
+-- Restore a revision's ingredients and content. Open to any signed-in
+-- member, like ingredient edits themselves.
+CREATE OR REPLACE FUNCTION revert_recipe_revision(p_revision_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision recipe_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_revision FROM recipe_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('recipe_revision.source', 'revert', true);
+  PERFORM set_config('recipe_revision.reverted_from', p_revision_id::text, true);
+
+  PERFORM replace_recipe_ingredients(v_revision.recipe_id, v_revision.ingredients);
+
+  IF v_revision.content IS NOT NULL
+    OR EXISTS (SELECT 1 FROM recipe_content WHERE recipe_id = v_revision.recipe_id) THEN
+    INSERT INTO recipe_content (
+      recipe_id, description, servings, prep_time, cook_time, total_time, instructions,
+      source_title, status, error_message
+    )
+    VALUES (
+      v_revision.recipe_id,
+      v_revision.content->>'description',
+      v_revision.content->>'servings',
+      v_revision.content->>'prep_time',
+      v_revision.content->>'cook_time',
+      v_revision.content->>'total_time',
+      v_revision.content->'instructions',
+      v_revision.content->>'source_title',
+      'completed',
+      NULL
+    )
+    ON CONFLICT (recipe_id) DO UPDATE SET
+      description = EXCLUDED.description,
+      servings = EXCLUDED.servings,
+      prep_time = EXCLUDED.prep_time,
+      cook_time = EXCLUDED.cook_time,
+      total_time = EXCLUDED.total_time,
+      instructions = EXCLUDED.instructions,
+      source_title = EXCLUDED.source_title,
+      status = 'completed',
+      error_message = NULL;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revert_recipe_revision(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revert_recipe_revision(UUID) TO authenticated;
+
+-- ============================================================
+-- 5. RLS
+-- ============================================================
+
+ALTER TABLE recipe_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger (SECURITY DEFINER)
+CREATE POLICY "Authenticated users can view recipe revisions"
+  ON recipe_revisions FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,7 @@
+-- Ordered source files (photos and PDFs) uploaded for a recipe, so a cookbook
+-- recipe spanning two pages or separate ingredient and method photos are
+-- parsed together. recipes.url stays the first file for existing readers;
+-- parse-recipe sends every file, in order, as one multi-image request.
+ALTER TABLE recipes
+  ADD COLUMN IF NOT EXISTS source_files TEXT[]
+    CHECK (source_files IS NULL OR array_length(source_files, 1) <= 6);
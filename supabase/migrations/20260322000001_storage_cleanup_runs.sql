@@ -0,0 +1,43 @@
+-- Orphaned upload cleanup. Uploads get a random file name and nothing removes
+-- them when their recipe is deleted, a note photo is removed or a parse is
+-- discarded. The cleanup-storage edge function reconciles the recipe-images
+-- and recipe-photos buckets against recipes.url, recipes.source_files,
+-- recipe_notes.photos and meal_plan_items.custom_url, and deletes unreferenced
+-- files older than a grace period. Every run, including dry runs, is recorded
+-- here for the admin page. Runs on a pg_cron schedule; admins can also
+-- trigger dry runs and cleanups from the app.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS storage_cleanup_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL for scheduled runs
+  triggered_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  dry_run BOOLEAN NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  scanned_count INTEGER NOT NULL DEFAULT 0,
+  orphaned_count INTEGER NOT NULL DEFAULT 0,
+  orphaned_bytes BIGINT NOT NULL DEFAULT 0,
+  deleted_count INTEGER NOT NULL DEFAULT 0,
+  reclaimed_bytes BIGINT NOT NULL DEFAULT 0,
+  -- [{bucket, path, size, created_at}] for the report, capped per run
+  orphans JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_cleanup_runs_started ON storage_cleanup_runs(started_at DESC);
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+ALTER TABLE storage_cleanup_runs ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: only cleanup-storage (service role) records runs
+CREATE POLICY "Admins can view storage cleanup runs"
+  ON storage_cleanup_runs FOR SELECT
+  USING (current_user_is_admin());
@@ -0,0 +1,39 @@
+-- parse-recipe writes with the service role key, so RLS doesn't stop it
+-- saving a parse to a recipe its caller can't edit. can_write_recipe tells
+-- it whether a given member passes the recipes UPDATE policy. The policy's
+-- condition is evaluated with auth.uid() standing in for that member, so
+-- the club and site admin rules stay in their existing helper functions.
+
+-- ============================================================
+-- 1. Function
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION can_write_recipe(p_recipe_id UUID, p_user_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claims text := current_setting('request.jwt.claims', true);
+  v_claim_sub text := current_setting('request.jwt.claim.sub', true);
+  v_allowed boolean;
+BEGIN
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+
+  -- Same condition as "Users can update their own recipes or club admins can update any"
+  SELECT created_by = auth.uid() OR is_club_admin(club_id)
+  INTO v_allowed
+  FROM recipes
+  WHERE id = p_recipe_id;
+
+  PERFORM set_config('request.jwt.claims', COALESCE(v_claims, ''), true);
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(v_claim_sub, ''), true);
+
+  RETURN COALESCE(v_allowed, false);
+END;
+$$;
+
+-- Only parse-recipe (service role) checks on a member's behalf
+REVOKE EXECUTE ON FUNCTION can_write_recipe(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,135 @@
+-- Request throttling for the edge functions that send email or call paid
+-- APIs. Each function has a token bucket per signed-in user and per client
+-- IP (limits are configured in supabase/functions/_shared/rateLimit.ts).
+-- consume_rate_limit refills and takes from a bucket atomically and counts
+-- the requests it turns away, so admins can see who is being throttled.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  function_name TEXT NOT NULL,
+  caller_type TEXT NOT NULL CHECK (caller_type IN ('user', 'ip')),
+  -- User id or IP address
+  caller TEXT NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  tokens DOUBLE PRECISION NOT NULL,
+  refilled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  throttled_count INTEGER NOT NULL DEFAULT 0,
+  last_throttled_at TIMESTAMPTZ,
+  PRIMARY KEY (function_name, caller_type, caller)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_throttled
+  ON rate_limit_buckets(last_throttled_at) WHERE last_throttled_at IS NOT NULL;
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- No write policies: only the edge functions (service role) take tokens
+CREATE POLICY "Admins can view rate limit buckets"
+  ON rate_limit_buckets FOR SELECT
+  USING (current_user_is_admin());
+
+-- ============================================================
+-- 3. Functions
+-- ============================================================
+
+-- Take one token from a caller's bucket, refilling it first for the time
+-- since it was last used. Returns 0 when a token was taken, otherwise the
+-- number of seconds until one will be available.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_function_name TEXT,
+  p_caller_type TEXT,
+  p_caller TEXT,
+  p_capacity INTEGER,
+  p_refill_per_minute DOUBLE PRECISION
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bucket rate_limit_buckets%ROWTYPE;
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limit_buckets (function_name, caller_type, caller, user_id, tokens)
+  VALUES (
+    p_function_name,
+    p_caller_type,
+    p_caller,
+    CASE WHEN p_caller_type = 'user' THEN p_caller::uuid END,
+    p_capacity
+  )
+  ON CONFLICT (function_name, caller_type, caller) DO NOTHING;
+
+  SELECT * INTO v_bucket
+  FROM rate_limit_buckets
+  WHERE function_name = p_function_name AND caller_type = p_caller_type AND caller = p_caller
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity,
+    v_bucket.tokens + EXTRACT(EPOCH FROM NOW() - v_bucket.refilled_at) / 60 * p_refill_per_minute
+  );
+
+  IF v_tokens >= 1 THEN
+    UPDATE rate_limit_buckets
+    SET tokens = v_tokens - 1, refilled_at = NOW()
+    WHERE function_name = p_function_name AND caller_type = p_caller_type AND caller = p_caller;
+    RETURN 0;
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET tokens = v_tokens,
+      refilled_at = NOW(),
+      throttled_count = throttled_count + 1,
+      last_throttled_at = NOW()
+  WHERE function_name = p_function_name AND caller_type = p_caller_type AND caller = p_caller;
+  RETURN CEIL((1 - v_tokens) / p_refill_per_minute * 60)::INTEGER;
+END;
+$$;
+
+-- Only the edge functions (service role) take tokens
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(TEXT, TEXT, TEXT, INTEGER, DOUBLE PRECISION)
+  FROM PUBLIC, anon, authenticated;
+
+-- Callers throttled since p_since, most recent first, for the admin page.
+-- Returns nothing for non-admins.
+CREATE OR REPLACE FUNCTION get_throttled_callers(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  function_name TEXT,
+  caller_type TEXT,
+  caller TEXT,
+  email TEXT,
+  name TEXT,
+  throttled_count INTEGER,
+  last_throttled_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    b.function_name,
+    b.caller_type,
+    b.caller,
+    au.email::text,
+    p.name,
+    b.throttled_count,
+    b.last_throttled_at
+  FROM public.rate_limit_buckets b
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  LEFT JOIN auth.users au ON au.id = b.user_id
+  WHERE current_user_is_admin()
+    AND b.last_throttled_at >= p_since
+  ORDER BY b.last_throttled_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_throttled_callers(TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,83 @@
+-- Bulk import from other recipe managers. The web app reads Paprika, Mela,
+-- Cooklang, MealMaster and JSON-LD files itself and saves each recipe
+-- through import_recipe: the recipe row, its ingredients and its content in
+-- one transaction, so a failed import never leaves a half-created recipe.
+-- The first revision of an imported recipe is recorded as 'import'.
+
+-- ============================================================
+-- 1. Revision source
+-- ============================================================
+
+ALTER TABLE recipe_revisions DROP CONSTRAINT IF EXISTS recipe_revisions_source_check;
+ALTER TABLE recipe_revisions ADD CONSTRAINT recipe_revisions_source_check
+  CHECK (source IN ('parse', 'edit', 'revert', 'backfill', 'import'));
+
+-- ============================================================
+-- 2. Import
+-- ============================================================
+
+-- Create a personal recipe for the caller. p_ingredients has the same shape
+-- as replace_recipe_ingredients; p_content holds the recipe_content columns
+-- (description, servings, times, instructions, source_title) and is NULL
+-- when the source had nothing structured, leaving the recipe to be parsed.
+-- Runs as the caller, so the usual RLS policies apply to every insert.
+CREATE OR REPLACE FUNCTION import_recipe(
+  p_name TEXT,
+  p_url TEXT,
+  p_ingredients JSONB,
+  p_content JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipe_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM set_config('recipe_revision.source', 'import', true);
+
+  INSERT INTO recipes (name, url, created_by)
+  VALUES (p_name, NULLIF(p_url, ''), auth.uid())
+  RETURNING id INTO v_recipe_id;
+
+  INSERT INTO recipe_ingredients (recipe_id, name, quantity, unit, category, raw_text, sort_order)
+  SELECT
+    v_recipe_id,
+    ing->>'name',
+    (ing->>'quantity')::decimal,
+    ing->>'unit',
+    COALESCE(ing->>'category', 'other'),
+    ing->>'raw_text',
+    (ing->>'sort_order')::int
+  FROM jsonb_array_elements(COALESCE(p_ingredients, '[]'::jsonb)) AS ing;
+
+  IF p_content IS NOT NULL THEN
+    INSERT INTO recipe_content (
+      recipe_id, description, servings, prep_time, cook_time, total_time, instructions,
+      source_title, parsed_at, status
+    )
+    VALUES (
+      v_recipe_id,
+      p_content->>'description',
+      p_content->>'servings',
+      p_content->>'prep_time',
+      p_content->>'cook_time',
+      p_content->>'total_time',
+      p_content->'instructions',
+      p_content->>'source_title',
+      NOW(),
+      'completed'
+    );
+  END IF;
+
+  RETURN v_recipe_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_recipe(TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_recipe(TEXT, TEXT, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,119 @@
+-- Household invites wait for the invitee to accept. Until then an invite
+-- grants no access and doesn't count toward the one-household-per-person
+-- rule, so an owner can't pull someone into their household, or lock them
+-- out of every other one, just by knowing their email.
+
+-- ============================================================
+-- 1. Pending invites
+-- ============================================================
+
+ALTER TABLE household_members ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ;
+
+-- Owners joined by creating the household. Everyone else was added without
+-- being asked, so they get an invite to accept instead.
+UPDATE household_members SET accepted_at = created_at WHERE role = 'owner' AND accepted_at IS NULL;
+
+-- One household per person counts accepted memberships only; invites from
+-- several households can wait side by side
+ALTER TABLE household_members DROP CONSTRAINT IF EXISTS household_members_email_key;
+CREATE UNIQUE INDEX IF NOT EXISTS household_members_accepted_email_key
+  ON household_members(email) WHERE accepted_at IS NOT NULL;
+ALTER TABLE household_members
+  ADD CONSTRAINT household_members_household_email_key UNIQUE(household_id, email);
+
+-- ============================================================
+-- 2. Helper functions: only accepted members belong
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION household_role(p_household_id UUID)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role FROM public.household_members
+  WHERE household_id = p_household_id
+    AND accepted_at IS NOT NULL
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION my_household_id()
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT household_id FROM public.household_members
+  WHERE accepted_at IS NOT NULL
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+$$;
+
+-- Invites waiting for the current user, oldest first
+CREATE OR REPLACE FUNCTION my_household_invites()
+RETURNS TABLE (household_id uuid, household_name text)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.household_id, h.name
+  FROM public.household_members m
+  JOIN public.households h ON h.id = m.household_id
+  WHERE m.accepted_at IS NULL
+    AND m.email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+  ORDER BY m.created_at;
+$$;
+
+-- Accept an invite. Raises when there's no invite, or (through the unique
+-- index) when the user already belongs to a household.
+CREATE OR REPLACE FUNCTION accept_household_invite(p_household_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.household_members
+  SET accepted_at = NOW()
+  WHERE household_id = p_household_id
+    AND accepted_at IS NULL
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending invite to this household';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION my_household_invites() TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_household_invite(UUID) TO authenticated;
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+
+-- Owners can only add pending members; the creator adds themselves as the
+-- accepted owner. Declining is the existing self-removal DELETE policy.
+DROP POLICY IF EXISTS "Owners can invite members" ON household_members;
+CREATE POLICY "Owners can invite members"
+  ON household_members FOR INSERT
+  WITH CHECK (
+    (household_role(household_id) = 'owner' AND role = 'member' AND accepted_at IS NULL)
+    OR (
+      role = 'owner'
+      AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+      AND EXISTS (
+        SELECT 1 FROM households h
+        WHERE h.id = household_id AND h.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Re-checking an item makes it yours; nobody can attribute a check to someone else
+DROP POLICY IF EXISTS "Members can update checks" ON grocery_checks;
+CREATE POLICY "Members can update checks"
+  ON grocery_checks FOR UPDATE
+  USING (is_household_member(household_id))
+  WITH CHECK (is_household_member(household_id) AND checked_by = auth.uid());
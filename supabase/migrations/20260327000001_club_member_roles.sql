@@ -0,0 +1,97 @@
+-- Club roles mean what they say. Only club admins (and site admins) change
+-- roles or remove people; members can still add people, but only as members
+-- or viewers. Viewers are read-only for club recipes and their ingredients,
+-- and a recipe's parsed content and ingredients are only visible to people
+-- who can see the recipe itself.
+
+-- ============================================================
+-- 1. RLS: club_members
+-- ============================================================
+
+DROP POLICY IF EXISTS "Club members and admins can add members" ON club_members;
+DROP POLICY IF EXISTS "Club members and admins can update members" ON club_members;
+DROP POLICY IF EXISTS "Club members and admins can remove members" ON club_members;
+
+CREATE POLICY "Club admins can add anyone and members can add members or viewers"
+  ON club_members FOR INSERT
+  WITH CHECK (
+    is_club_admin(club_id)
+    OR (is_club_member_or_admin(club_id) AND role IN ('member', 'viewer'))
+  );
+
+CREATE POLICY "Club admins can update members"
+  ON club_members FOR UPDATE
+  USING (is_club_admin(club_id))
+  WITH CHECK (is_club_admin(club_id));
+
+CREATE POLICY "Club admins can remove members"
+  ON club_members FOR DELETE
+  USING (is_club_admin(club_id));
+
+-- ============================================================
+-- 2. RLS: recipes
+-- ============================================================
+
+DROP POLICY IF EXISTS "Users can insert personal and club recipes" ON recipes;
+CREATE POLICY "Users can insert personal and club recipes"
+  ON recipes FOR INSERT
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (club_id IS NULL OR is_club_member_or_admin(club_id))
+  );
+
+-- ============================================================
+-- 3. RLS: recipe content and ingredients
+-- The subqueries on recipes run under its SELECT policy, so they only find
+-- recipes the caller can see. The anon policies for the public share page
+-- are unchanged.
+-- ============================================================
+
+DROP POLICY IF EXISTS "Authenticated users can view recipe content" ON recipe_content;
+CREATE POLICY "Authenticated users can view recipe content"
+  ON recipe_content FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_content.recipe_id));
+
+DROP POLICY IF EXISTS "Authenticated users can view recipe ingredients" ON recipe_ingredients;
+CREATE POLICY "Authenticated users can view recipe ingredients"
+  ON recipe_ingredients FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_ingredients.recipe_id));
+
+-- Ingredient edits stay open to anyone who can see a personal recipe; club
+-- recipes need a member or admin of the club
+DROP POLICY IF EXISTS "Authenticated users can insert recipe ingredients" ON recipe_ingredients;
+CREATE POLICY "Authenticated users can insert recipe ingredients"
+  ON recipe_ingredients FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id
+      AND (r.club_id IS NULL OR is_club_member_or_admin(r.club_id))
+  ));
+
+DROP POLICY IF EXISTS "Authenticated users can update recipe ingredients" ON recipe_ingredients;
+CREATE POLICY "Authenticated users can update recipe ingredients"
+  ON recipe_ingredients FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id
+      AND (r.club_id IS NULL OR is_club_member_or_admin(r.club_id))
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id
+      AND (r.club_id IS NULL OR is_club_member_or_admin(r.club_id))
+  ));
+
+DROP POLICY IF EXISTS "Authenticated users can delete recipe ingredients" ON recipe_ingredients;
+CREATE POLICY "Authenticated users can delete recipe ingredients"
+  ON recipe_ingredients FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id
+      AND (r.club_id IS NULL OR is_club_member_or_admin(r.club_id))
+  ));
@@ -0,0 +1,31 @@
+-- Shared meal plan checks are keyed by the dates a week covers instead of
+-- each member's week start (see sharedCheckContextId in
+-- supabase/functions/_shared/groceryChecks.ts): the Monday of the
+-- Monday–Sunday week holding most of its days. Move existing checks onto
+-- that key so nothing already checked drops off the list.
+
+-- ============================================================
+-- 1. Drop checks the new key already has
+-- ============================================================
+
+DELETE FROM grocery_checks gc
+WHERE gc.context_type = 'meal_plan'
+  AND gc.context_id ~ '^\d{4}-\d{2}-\d{2}$'
+  AND gc.context_id <> to_char(date_trunc('week', (gc.context_id::date + 3)::timestamp), 'YYYY-MM-DD')
+  AND EXISTS (
+    SELECT 1 FROM grocery_checks other
+    WHERE other.household_id = gc.household_id
+      AND other.context_type = 'meal_plan'
+      AND other.context_id = to_char(date_trunc('week', (gc.context_id::date + 3)::timestamp), 'YYYY-MM-DD')
+      AND other.item_name = gc.item_name
+  );
+
+-- ============================================================
+-- 2. Rekey the rest
+-- ============================================================
+
+UPDATE grocery_checks
+SET context_id = to_char(date_trunc('week', (context_id::date + 3)::timestamp), 'YYYY-MM-DD')
+WHERE context_type = 'meal_plan'
+  AND context_id ~ '^\d{4}-\d{2}-\d{2}$'
+  AND context_id <> to_char(date_trunc('week', (context_id::date + 3)::timestamp), 'YYYY-MM-DD');
@@ -0,0 +1,65 @@
+-- Parse jobs stop at max_attempts. A job still running past p_stale_after on
+-- its last attempt is failed rather than claimed again, and people queueing
+-- jobs can't raise their own attempt limit or schedule them in the past.
+
+-- ============================================================
+-- 1. Worker claim
+-- ============================================================
+
+-- Mark up to p_limit due jobs as running and return them. Jobs left running
+-- past p_stale_after (worker timed out or crashed) are claimed again while
+-- they have attempts left, and failed once they don't.
+-- p_job_id restricts the claim to one job, for the kick after an insert.
+CREATE OR REPLACE FUNCTION claim_recipe_parse_jobs(
+  p_limit INTEGER DEFAULT 5,
+  p_job_id UUID DEFAULT NULL,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF recipe_parse_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.recipe_parse_jobs
+  SET status = 'failed',
+      last_error = 'Timed out on the last attempt',
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE (p_job_id IS NULL OR id = p_job_id)
+    AND status = 'running'
+    AND started_at < NOW() - p_stale_after
+    AND attempts >= max_attempts;
+
+  UPDATE public.recipe_parse_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = NOW(),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.recipe_parse_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND attempts < max_attempts
+      AND (
+        (status = 'queued' AND next_attempt_at <= NOW())
+        OR (status = 'running' AND started_at < NOW() - p_stale_after)
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+
+DROP POLICY IF EXISTS "Users can queue parse jobs" ON recipe_parse_jobs;
+CREATE POLICY "Users can queue parse jobs"
+  ON recipe_parse_jobs FOR INSERT
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'queued'
+    AND attempts = 0
+    AND max_attempts = 3
+    AND next_attempt_at <= NOW()
+  );
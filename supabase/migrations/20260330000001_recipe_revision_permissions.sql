@@ -0,0 +1,80 @@
+-- Reverting a recipe to an earlier revision is an edit of the recipe, so it
+-- needs the same rights as editing it: the owner, a club admin or a site
+-- admin. Revisions are only visible to people who can see the recipe.
+
+-- ============================================================
+-- 1. Revert
+-- ============================================================
+
+-- Restore a revision's ingredients and content. Only people who can edit
+-- the recipe (see can_write_recipe) can revert it.
+CREATE OR REPLACE FUNCTION revert_recipe_revision(p_revision_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision recipe_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_revision FROM recipe_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  IF NOT can_write_recipe(v_revision.recipe_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to edit this recipe' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('recipe_revision.source', 'revert', true);
+  PERFORM set_config('recipe_revision.reverted_from', p_revision_id::text, true);
+
+  PERFORM replace_recipe_ingredients(v_revision.recipe_id, v_revision.ingredients);
+
+  IF v_revision.content IS NOT NULL
+    OR EXISTS (SELECT 1 FROM recipe_content WHERE recipe_id = v_revision.recipe_id) THEN
+    INSERT INTO recipe_content (
+      recipe_id, description, servings, prep_time, cook_time, total_time, instructions,
+      source_title, status, error_message
+    )
+    VALUES (
+      v_revision.recipe_id,
+      v_revision.content->>'description',
+      v_revision.content->>'servings',
+      v_revision.content->>'prep_time',
+      v_revision.content->>'cook_time',
+      v_revision.content->>'total_time',
+      v_revision.content->'instructions',
+      v_revision.content->>'source_title',
+      'completed',
+      NULL
+    )
+    ON CONFLICT (recipe_id) DO UPDATE SET
+      description = EXCLUDED.description,
+      servings = EXCLUDED.servings,
+      prep_time = EXCLUDED.prep_time,
+      cook_time = EXCLUDED.cook_time,
+      total_time = EXCLUDED.total_time,
+      instructions = EXCLUDED.instructions,
+      source_title = EXCLUDED.source_title,
+      status = 'completed',
+      error_message = NULL;
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- 2. RLS
+-- The subquery on recipes runs under its SELECT policy, so it only finds
+-- recipes the caller can see.
+-- ============================================================
+
+DROP POLICY IF EXISTS "Authenticated users can view recipe revisions" ON recipe_revisions;
+CREATE POLICY "Authenticated users can view recipe revisions"
+  ON recipe_revisions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_revisions.recipe_id));
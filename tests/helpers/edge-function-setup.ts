@@ -70,6 +70,7 @@ export function createMockQueryBuilder<T = unknown>(
     "upsert",
     "eq",
     "neq",
+    "not",
     "gt",
     "gte",
     "lt",
@@ -113,6 +114,7 @@ export interface MockSupabaseClient {
     from: ReturnType<typeof vi.fn>;
   };
   auth: {
+    getUser: ReturnType<typeof vi.fn>;
     admin: {
       getUserById: ReturnType<typeof vi.fn>;
       listUsers: ReturnType<typeof vi.fn>;
@@ -152,6 +154,7 @@ export function createMockSupabaseClient(): MockSupabaseClient {
       from: vi.fn().mockReturnValue(defaultBucket),
     },
     auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: null }),
       admin: {
         getUserById: vi.fn().mockResolvedValue({ data: { user: null }, error: null }),
         listUsers: vi.fn().mockResolvedValue({ data: { users: [] }, error: null }),
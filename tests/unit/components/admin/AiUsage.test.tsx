@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@tests/utils";
+import AiUsage from "@/components/admin/AiUsage";
+
+const mockLoadAiUsageSummary = vi.fn();
+const mockSaveAiBudget = vi.fn();
+vi.mock("@/lib/aiUsage", () => ({
+  loadAiUsageSummary: (...args: unknown[]) => mockLoadAiUsageSummary(...args),
+  saveAiBudget: (...args: unknown[]) => mockSaveAiBudget(...args),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import { toast } from "sonner";
+
+const summary = [
+  {
+    userId: "user-1",
+    email: "alex@test.com",
+    name: "Alex",
+    callCount: 40,
+    inputTokens: 120000,
+    outputTokens: 30000,
+    estimatedCostUsd: 6.5,
+    softLimitUsd: 5,
+    hardLimitUsd: 10,
+  },
+  {
+    userId: "user-2",
+    email: "sam@test.com",
+    callCount: 1,
+    inputTokens: 1000,
+    outputTokens: 200,
+    estimatedCostUsd: 0.01,
+    softLimitUsd: null,
+    hardLimitUsd: null,
+  },
+];
+
+describe("AiUsage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoadAiUsageSummary.mockResolvedValue(summary.map((row) => ({ ...row })));
+    mockSaveAiBudget.mockResolvedValue(undefined);
+  });
+
+  it("shows per-user totals for the current month", async () => {
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Alex")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("$6.51 estimated · 41 calls")).toBeInTheDocument();
+    expect(screen.getByText("alex@test.com")).toBeInTheDocument();
+    expect(screen.getByText("sam@test.com")).toBeInTheDocument();
+    expect(screen.getByText(/\$6\.50 · 40 calls · 120,000 in \/ 30,000 out tokens/)).toBeInTheDocument();
+    expect(screen.getByText("Over soft limit")).toBeInTheDocument();
+    expect(screen.getByLabelText("Soft limit", { selector: "#soft-user-1" })).toHaveValue(5);
+  });
+
+  it("loads the previous month and disables going past the current one", async () => {
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Alex")).toBeInTheDocument();
+    });
+    expect(screen.getByRole("button", { name: "Next month" })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Previous month" }));
+
+    await waitFor(() => {
+      expect(mockLoadAiUsageSummary).toHaveBeenCalledTimes(2);
+    });
+    const [first, second] = mockLoadAiUsageSummary.mock.calls.map((call) => call[0] as Date);
+    expect((first.getMonth() - second.getMonth() + 12) % 12).toBe(1);
+    expect(screen.getByRole("button", { name: "Next month" })).not.toBeDisabled();
+  });
+
+  it("saves edited limits", async () => {
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("sam@test.com")).toBeInTheDocument();
+    });
+
+    fireEvent.change(document.getElementById("soft-user-2")!, { target: { value: "2" } });
+    fireEvent.change(document.getElementById("hard-user-2")!, { target: { value: "4.5" } });
+    fireEvent.click(screen.getAllByRole("button", { name: "Save" })[1]);
+
+    await waitFor(() => {
+      expect(mockSaveAiBudget).toHaveBeenCalledWith("user-2", 2, 4.5);
+    });
+    expect(toast.success).toHaveBeenCalledWith("Saved AI budget for sam@test.com");
+  });
+
+  it("clears limits when the fields are emptied", async () => {
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Alex")).toBeInTheDocument();
+    });
+
+    fireEvent.change(document.getElementById("soft-user-1")!, { target: { value: "" } });
+    fireEvent.change(document.getElementById("hard-user-1")!, { target: { value: "" } });
+    fireEvent.click(screen.getAllByRole("button", { name: "Save" })[0]);
+
+    await waitFor(() => {
+      expect(mockSaveAiBudget).toHaveBeenCalledWith("user-1", null, null);
+    });
+  });
+
+  it("rejects a soft limit above the hard limit", async () => {
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Alex")).toBeInTheDocument();
+    });
+
+    fireEvent.change(document.getElementById("soft-user-1")!, { target: { value: "20" } });
+    fireEvent.click(screen.getAllByRole("button", { name: "Save" })[0]);
+
+    expect(toast.error).toHaveBeenCalledWith("The soft limit can't be higher than the hard limit");
+    expect(mockSaveAiBudget).not.toHaveBeenCalled();
+  });
+
+  it("shows an error when saving fails", async () => {
+    mockSaveAiBudget.mockRejectedValue(new Error("DB error"));
+    render(<AiUsage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("sam@test.com")).toBeInTheDocument();
+    });
+
+    fireEvent.change(document.getElementById("hard-user-2")!, { target: { value: "3" } });
+    fireEvent.click(screen.getAllByRole("button", { name: "Save" })[1]);
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Failed to save AI budget");
+    });
+  });
+});
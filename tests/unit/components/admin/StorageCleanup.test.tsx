@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@tests/utils";
+import StorageCleanup from "@/components/admin/StorageCleanup";
+
+const mockLoadStorageCleanupRuns = vi.fn();
+const mockRunStorageCleanup = vi.fn();
+vi.mock("@/lib/storageCleanup", () => ({
+  loadStorageCleanupRuns: (...args: unknown[]) => mockLoadStorageCleanupRuns(...args),
+  runStorageCleanup: (...args: unknown[]) => mockRunStorageCleanup(...args),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import { toast } from "sonner";
+
+const scheduledRun = {
+  id: "run-1",
+  dryRun: false,
+  status: "completed",
+  scheduled: true,
+  scannedCount: 120,
+  orphanedCount: 3,
+  orphanedBytes: 3 * 1024 * 1024,
+  deletedCount: 3,
+  reclaimedBytes: 3 * 1024 * 1024,
+  orphans: [{ bucket: "recipe-images", path: "old.jpg", size: 3 * 1024 * 1024, createdAt: "2026-03-01T00:00:00Z" }],
+  startedAt: "2026-03-22T03:00:00Z",
+};
+
+const dryRun = {
+  id: "run-2",
+  dryRun: true,
+  status: "completed",
+  scheduled: false,
+  scannedCount: 118,
+  orphanedCount: 2,
+  orphanedBytes: 2048,
+  deletedCount: 0,
+  reclaimedBytes: 0,
+  orphans: [
+    { bucket: "recipe-photos", path: "recipe-photos/a.webp", size: 1024, createdAt: "2026-03-20T00:00:00Z" },
+    { bucket: "recipe-photos", path: "recipe-photos/thumbs/a.webp", size: 1024, createdAt: "2026-03-20T00:00:00Z" },
+  ],
+  startedAt: "2026-03-23T10:00:00Z",
+};
+
+describe("StorageCleanup", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoadStorageCleanupRuns.mockResolvedValue([scheduledRun]);
+    mockRunStorageCleanup.mockResolvedValue(undefined);
+  });
+
+  it("shows recent runs and the space reclaimed", async () => {
+    render(<StorageCleanup />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Scheduled")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("3.0 MB reclaimed in the last 1 run")).toBeInTheDocument();
+    expect(screen.getByText(/120 files scanned · 3 unused \(3\.0 MB\) · 3 deleted, 3\.0 MB reclaimed/)).toBeInTheDocument();
+  });
+
+  it("shows an empty state without runs", async () => {
+    mockLoadStorageCleanupRuns.mockResolvedValue([]);
+
+    render(<StorageCleanup />);
+
+    await waitFor(() => {
+      expect(screen.getByText("No cleanup runs yet.")).toBeInTheDocument();
+    });
+  });
+
+  it("runs a dry run and opens its report", async () => {
+    render(<StorageCleanup />);
+    await waitFor(() => expect(screen.getByText("Scheduled")).toBeInTheDocument());
+    mockLoadStorageCleanupRuns.mockResolvedValue([dryRun, scheduledRun]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Dry run" }));
+
+    await waitFor(() => {
+      expect(mockRunStorageCleanup).toHaveBeenCalledWith(true);
+      expect(toast.success).toHaveBeenCalledWith("Dry run complete");
+    });
+    expect(screen.getByText("recipe-photos/recipe-photos/thumbs/a.webp")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Hide files" })).toBeInTheDocument();
+    expect(screen.queryByText(/0 deleted/)).not.toBeInTheDocument();
+  });
+
+  it("toggles a run's file list", async () => {
+    render(<StorageCleanup />);
+    await waitFor(() => expect(screen.getByText("Scheduled")).toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole("button", { name: "Show files" }));
+    expect(screen.getByText("recipe-images/old.jpg")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Hide files" }));
+    expect(screen.queryByText("recipe-images/old.jpg")).not.toBeInTheDocument();
+  });
+
+  it("asks for confirmation before deleting", async () => {
+    render(<StorageCleanup />);
+    await waitFor(() => expect(screen.getByText("Scheduled")).toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole("button", { name: "Clean up now" }));
+    expect(mockRunStorageCleanup).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    await waitFor(() => {
+      expect(mockRunStorageCleanup).toHaveBeenCalledWith(false);
+      expect(toast.success).toHaveBeenCalledWith("Storage cleaned up");
+    });
+  });
+
+  it("shows an error when the run fails", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockRunStorageCleanup.mockRejectedValue(new Error("Forbidden"));
+
+    render(<StorageCleanup />);
+    await waitFor(() => expect(screen.getByText("Scheduled")).toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole("button", { name: "Dry run" }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Failed to run storage cleanup");
+    });
+    consoleSpy.mockRestore();
+  });
+});
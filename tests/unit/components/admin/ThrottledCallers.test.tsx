@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@tests/utils";
+import ThrottledCallers from "@/components/admin/ThrottledCallers";
+
+const mockLoadThrottledCallers = vi.fn();
+vi.mock("@/lib/rateLimits", () => ({
+  loadThrottledCallers: (...args: unknown[]) => mockLoadThrottledCallers(...args),
+}));
+
+describe("ThrottledCallers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists throttled users and IP addresses", async () => {
+    mockLoadThrottledCallers.mockResolvedValue([
+      {
+        functionName: "parse-recipe",
+        callerType: "user",
+        caller: "user-1",
+        email: "sam@example.com",
+        name: "Sam",
+        throttledCount: 42,
+        lastThrottledAt: "2026-03-24T11:00:00Z",
+      },
+      {
+        functionName: "send-contact-email",
+        callerType: "ip",
+        caller: "203.0.113.7",
+        throttledCount: 1,
+        lastThrottledAt: "2026-03-23T09:00:00Z",
+      },
+    ]);
+
+    render(<ThrottledCallers />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Sam")).toBeInTheDocument();
+    });
+    expect(screen.getByText("sam@example.com")).toBeInTheDocument();
+    expect(screen.getByText("parse-recipe")).toBeInTheDocument();
+    expect(screen.getByText(/42 requests turned away/)).toBeInTheDocument();
+    expect(screen.getByText("203.0.113.7")).toBeInTheDocument();
+    expect(screen.getByText("IP address")).toBeInTheDocument();
+    expect(screen.getByText(/1 request turned away/)).toBeInTheDocument();
+  });
+
+  it("falls back to the email or id for users without a name", async () => {
+    mockLoadThrottledCallers.mockResolvedValue([
+      {
+        functionName: "grocery-api",
+        callerType: "user",
+        caller: "user-2",
+        email: "jo@example.com",
+        throttledCount: 2,
+        lastThrottledAt: "2026-03-24T11:00:00Z",
+      },
+      {
+        functionName: "grocery-api",
+        callerType: "user",
+        caller: "user-3",
+        throttledCount: 2,
+        lastThrottledAt: "2026-03-24T10:00:00Z",
+      },
+    ]);
+
+    render(<ThrottledCallers />);
+
+    await waitFor(() => {
+      expect(screen.getByText("jo@example.com")).toBeInTheDocument();
+    });
+    expect(screen.getByText("user-3")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when no one was throttled", async () => {
+    mockLoadThrottledCallers.mockResolvedValue([]);
+
+    render(<ThrottledCallers />);
+
+    await waitFor(() => {
+      expect(screen.getByText("No one has been throttled.")).toBeInTheDocument();
+    });
+  });
+});
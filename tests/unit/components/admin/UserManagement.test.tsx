@@ -25,6 +25,11 @@ vi.mock("@/integrations/supabase/client", () => ({
   },
 }));
 
+const mockGetActiveClubId = vi.fn<() => string | null>(() => null);
+vi.mock("@/lib/clubs", () => ({
+  getActiveClubId: () => mockGetActiveClubId(),
+}));
+
 vi.mock("sonner", () => ({
   toast: { success: vi.fn(), error: vi.fn() },
 }));
@@ -59,6 +64,7 @@ const mockUsers = [
 describe("UserManagement", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockGetActiveClubId.mockReturnValue(null);
     mockChain = createMockChain();
     // Default: order returns user data
     mockChain.order.mockResolvedValue({ data: mockUsers, error: null });
@@ -829,3 +835,67 @@ describe("UserManagement", () => {
     });
   });
 });
+
+describe("UserManagement - active club", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetActiveClubId.mockReturnValue("club-1");
+    mockChain = createMockChain();
+    mockChain.order.mockResolvedValue({ data: mockUsers, error: null });
+    // Membership of club-1 overrides the legacy is_club_member flag
+    mockChain.eq.mockResolvedValueOnce({ data: [{ email: "viewer@test.com" }], error: null });
+  });
+
+  it("shows club membership of the active club", async () => {
+    render(<UserManagement currentUserEmail="admin@test.com" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/1 club member\b/)).toBeInTheDocument();
+    });
+    expect(mockChain.eq).toHaveBeenCalledWith("club_id", "club-1");
+  });
+
+  it("adds a user to the active club on save", async () => {
+    mockChain.eq.mockResolvedValue({ error: null });
+
+    render(<UserManagement currentUserEmail="admin@test.com" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("member@test.com")).toBeInTheDocument();
+    });
+
+    const memberRow = screen.getByText("member@test.com").closest(".rounded-lg");
+    fireEvent.click(memberRow!.querySelector("button[role='switch']") as HTMLButtonElement);
+    fireEvent.click(await screen.findByText("Save Changes"));
+
+    await waitFor(() => {
+      expect(toast.success).toHaveBeenCalledWith("Saved 1 change");
+    });
+    expect(mockChain.insert).toHaveBeenCalledWith({
+      club_id: "club-1",
+      email: "member@test.com",
+      role: "member",
+    });
+  });
+
+  it("removes a user from the active club on save", async () => {
+    mockChain.eq.mockReturnValue(mockChain);
+
+    render(<UserManagement currentUserEmail="admin@test.com" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("viewer@test.com")).toBeInTheDocument();
+    });
+
+    const viewerRow = screen.getByText("viewer@test.com").closest(".rounded-lg");
+    fireEvent.click(viewerRow!.querySelector("button[role='switch']") as HTMLButtonElement);
+    fireEvent.click(await screen.findByText("Save Changes"));
+
+    await waitFor(() => {
+      expect(toast.success).toHaveBeenCalledWith("Saved 1 change");
+    });
+    expect(mockChain.delete).toHaveBeenCalled();
+    expect(mockChain.eq).toHaveBeenCalledWith("email", "viewer@test.com");
+    expect(mockChain.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@tests/utils";
+import { createMockRecipe, createMockRecipeIngredient } from "@tests/utils";
+import EventAllergenSummary from "@/components/events/EventAllergenSummary";
+
+describe("EventAllergenSummary", () => {
+  const members = [
+    { userId: "u-1", name: "Alex", restrictions: ["vegetarian"] },
+    { userId: "u-2", name: "Sam", restrictions: ["shellfish_free"] },
+  ];
+
+  const recipes = [
+    createMockRecipe({ id: "r-1", name: "Shrimp Scampi" }),
+    createMockRecipe({ id: "r-2", name: "Caprese Salad" }),
+    createMockRecipe({ id: "r-3", name: "Mystery Dish" }),
+  ];
+
+  const recipeIngredients = [
+    createMockRecipeIngredient({ id: "i-1", recipeId: "r-1", name: "shrimp" }),
+    createMockRecipeIngredient({ id: "i-2", recipeId: "r-1", name: "linguine" }),
+    createMockRecipeIngredient({ id: "i-3", recipeId: "r-2", name: "tomatoes" }),
+  ];
+
+  it("lists which members each recipe affects", () => {
+    render(<EventAllergenSummary recipes={recipes} recipeIngredients={recipeIngredients} members={members} />);
+
+    expect(screen.getByText("Allergen summary")).toBeInTheDocument();
+    expect(screen.getByText("Alex (vegetarian: shrimp); Sam (shellfish-free: shrimp)")).toBeInTheDocument();
+    expect(screen.getByText("no conflicts")).toBeInTheDocument();
+    expect(screen.getByText("not checked — no parsed ingredients")).toBeInTheDocument();
+  });
+
+  it("summarizes member restrictions", () => {
+    render(<EventAllergenSummary recipes={recipes} recipeIngredients={recipeIngredients} members={members} />);
+
+    expect(screen.getByText("Alex (vegetarian) · Sam (shellfish-free)")).toBeInTheDocument();
+  });
+
+  it("renders nothing when no member has restrictions", () => {
+    const { container } = render(
+      <EventAllergenSummary recipes={recipes} recipeIngredients={recipeIngredients} members={[]} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders nothing when the event has no recipes", () => {
+    const { container } = render(
+      <EventAllergenSummary recipes={[]} recipeIngredients={[]} members={members} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
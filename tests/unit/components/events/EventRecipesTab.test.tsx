@@ -13,6 +13,25 @@ vi.mock("@/components/recipes/RecipeIngredientList", () => ({
   ),
 }));
 
+vi.mock("@/components/recipes/RecipeHistoryDialog", () => ({
+  default: ({ recipeName, onOpenChange, onReverted }: {
+    recipeName: string;
+    onOpenChange: (open: boolean) => void;
+    onReverted?: () => void;
+  }) => (
+    <div data-testid="recipe-history-dialog">
+      History of {recipeName}
+      <button onClick={onReverted}>Simulate revert</button>
+      <button onClick={() => onOpenChange(false)}>Close history</button>
+    </div>
+  ),
+}));
+
+const mockDeleteGroceryCache = vi.fn();
+vi.mock("@/lib/groceryCache", () => ({
+  deleteGroceryCache: (...args: unknown[]) => mockDeleteGroceryCache(...args),
+}));
+
 describe("EventRecipesTab", () => {
   const user = createMockUser();
 
@@ -943,4 +962,47 @@ describe("EventRecipesTab - Inline Ingredient Toggle", () => {
 
     expect(onIngredientsChange).toHaveBeenCalledWith(recipe.id);
   });
+
+  it("opens and closes the history dialog for a recipe", () => {
+    const recipe = createMockRecipe({ name: "My Recipe" });
+
+    render(<EventRecipesTab {...defaultProps} recipesWithNotes={[{ recipe, notes: [] }]} userId={user.id} />);
+
+    fireEvent.click(screen.getByLabelText("View history for My Recipe"));
+    expect(screen.getByTestId("recipe-history-dialog")).toHaveTextContent("History of My Recipe");
+
+    fireEvent.click(screen.getByText("Close history"));
+    expect(screen.queryByTestId("recipe-history-dialog")).not.toBeInTheDocument();
+  });
+
+  it("hides the history button when signed out", () => {
+    const recipe = createMockRecipe({ name: "My Recipe" });
+
+    render(<EventRecipesTab {...defaultProps} recipesWithNotes={[{ recipe, notes: [] }]} />);
+
+    expect(screen.queryByLabelText("View history for My Recipe")).not.toBeInTheDocument();
+  });
+
+  it("clears the grocery cache and reports the change after a revert", async () => {
+    const onIngredientsChange = vi.fn();
+    const recipe = createMockRecipe({ name: "My Recipe" });
+
+    render(
+      <EventRecipesTab
+        {...defaultProps}
+        recipesWithNotes={[{ recipe, notes: [] }]}
+        userId={user.id}
+        onIngredientsChange={onIngredientsChange}
+        cacheContext={{ type: "event", id: "event-1", userId: user.id }}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText("View history for My Recipe"));
+    fireEvent.click(screen.getByText("Simulate revert"));
+
+    await vi.waitFor(() => {
+      expect(onIngredientsChange).toHaveBeenCalledWith(recipe.id);
+    });
+    expect(mockDeleteGroceryCache).toHaveBeenCalledWith("event", "event-1", user.id);
+  });
 });
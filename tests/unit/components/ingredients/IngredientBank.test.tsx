@@ -12,6 +12,16 @@ vi.mock("@/integrations/supabase/client", () => ({
   },
 }));
 
+// Mock active club (ingredients are club-scoped)
+const mockGetActiveClubId = vi.fn<() => string | null>(() => "club-1");
+vi.mock("@/lib/clubs", () => ({
+  getActiveClubId: () => mockGetActiveClubId(),
+}));
+
+beforeEach(() => {
+  mockGetActiveClubId.mockReturnValue("club-1");
+});
+
 // Mock sonner toast
 vi.mock("sonner", () => ({
   toast: {
@@ -347,6 +357,7 @@ describe("IngredientBank - Add Ingredient", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
@@ -383,6 +394,91 @@ describe("IngredientBank - Add Ingredient", () => {
     });
   });
 
+  it("loads and adds ingredients in the active club", async () => {
+    const mockInsert = vi.fn().mockResolvedValue({ error: null });
+    const mockEq = vi.fn().mockReturnThis();
+
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "ingredients") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: mockEq,
+          insert: mockInsert,
+          order: vi.fn().mockResolvedValue({
+            data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
+            error: null,
+          }),
+        };
+      }
+      return createMockQueryBuilder([]);
+    });
+
+    render(
+      <IngredientBank
+        ingredients={[createMockIngredient({ id: "1", name: "Chicken", inBank: true })]}
+        setIngredients={mockSetIngredients}
+        userId={mockUserId}
+        isAdmin={true}
+      />
+    );
+
+    await waitFor(() => {
+      expect(mockEq).toHaveBeenCalledWith("club_id", "club-1");
+    });
+
+    const input = screen.getByPlaceholderText(/add a new ingredient/i);
+    fireEvent.change(input, { target: { value: "Leeks" } });
+    fireEvent.keyPress(input, { key: "Enter", code: "Enter", charCode: 13 });
+
+    await waitFor(() => {
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Leeks", club_id: "club-1" })
+      );
+    });
+  });
+
+  it("asks the user to join a club before adding ingredients", async () => {
+    mockGetActiveClubId.mockReturnValue(null);
+    const { toast } = await import("sonner");
+    const mockInsert = vi.fn().mockResolvedValue({ error: null });
+
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "ingredients") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          insert: mockInsert,
+          order: vi.fn().mockResolvedValue({
+            data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
+            error: null,
+          }),
+        };
+      }
+      return createMockQueryBuilder([]);
+    });
+
+    render(
+      <IngredientBank
+        ingredients={[createMockIngredient({ id: "1", name: "Chicken", inBank: true })]}
+        setIngredients={mockSetIngredients}
+        userId={mockUserId}
+        isAdmin={true}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText(/add a new ingredient/i)).toBeInTheDocument();
+    });
+
+    const input = screen.getByPlaceholderText(/add a new ingredient/i);
+    fireEvent.change(input, { target: { value: "Leeks" } });
+    fireEvent.keyPress(input, { key: "Enter", code: "Enter", charCode: 13 });
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Join a club to add ingredients.");
+    });
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
   it("adds new ingredient when plus button is clicked and updates state", async () => {
     const mockInsert = vi.fn().mockResolvedValue({ error: null });
     // Create a mock that actually invokes the callback to get coverage
@@ -485,6 +581,7 @@ describe("IngredientBank - Add Ingredient", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
@@ -668,6 +765,7 @@ describe("IngredientBank - Suggestions", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
         };
@@ -883,8 +981,9 @@ describe("IngredientBank - Loading and Error States", () => {
 
     mockSupabaseFrom.mockImplementation((table: string) => {
       if (table === "ingredients") {
-        // Create a chainable mock where select() returns an object with order()
+        // Create a chainable mock where select() returns an object with eq() and order()
         const queryBuilder = {
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
         };
         return {
@@ -957,6 +1056,7 @@ describe("IngredientBank - Suggestion Errors", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
         };
@@ -1171,6 +1271,8 @@ describe("IngredientBank - Autocomplete Edge Cases", () => {
   });
 
   it("adds ingredient from autocomplete when clicked", async () => {
+    // eq() resolves the update below, so load this bank unscoped
+    mockGetActiveClubId.mockReturnValue(null);
     const mockUpdate = vi.fn().mockReturnThis();
     const mockEq = vi.fn().mockResolvedValue({ error: null });
 
@@ -1231,6 +1333,7 @@ describe("IngredientBank - Autocomplete Edge Cases", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
         };
@@ -1271,6 +1374,8 @@ describe("IngredientBank - Autocomplete Edge Cases", () => {
   });
 
   it("handles error when re-adding ingredient to bank fails", async () => {
+    // eq() resolves the update below, so load this bank unscoped
+    mockGetActiveClubId.mockReturnValue(null);
     const mockUpdate = vi.fn().mockReturnThis();
     const mockEq = vi.fn().mockResolvedValue({ error: { message: "Update failed" } });
 
@@ -1371,6 +1476,8 @@ describe("IngredientBank - Autocomplete Edge Cases", () => {
   });
 
   it("handles adding ingredient when existing ingredient with same name is not in bank", async () => {
+    // eq() resolves the update below, so load this bank unscoped
+    mockGetActiveClubId.mockReturnValue(null);
     // This test verifies the flow when a user clicks an autocomplete option
     const mockUpdate = vi.fn().mockReturnThis();
     const mockEq = vi.fn().mockResolvedValue({ error: null });
@@ -1472,6 +1579,7 @@ describe("IngredientBank - KeyDown Handler", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
         };
@@ -1515,6 +1623,7 @@ describe("IngredientBank - KeyDown Handler", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
@@ -1565,6 +1674,7 @@ describe("IngredientBank - Autocomplete Display Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
       }
@@ -1614,6 +1724,7 @@ describe("IngredientBank - Autocomplete Display Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
       }
@@ -1706,6 +1817,8 @@ describe("IngredientBank - Edge Case Branches", () => {
   });
 
   it("updates correct ingredient in map when re-adding from autocomplete with multiple ingredients", async () => {
+    // eq() resolves the update below, so load this bank unscoped
+    mockGetActiveClubId.mockReturnValue(null);
     // Tests line 173: both branches of the ternary in the map function
     const mockUpdate = vi.fn().mockReturnThis();
     const mockEq = vi.fn().mockResolvedValue({ error: null });
@@ -1848,6 +1961,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
       }
@@ -1898,6 +2012,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: existingData, error: null }),
         };
       }
@@ -1935,6 +2050,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({
             data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
@@ -1983,6 +2099,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({
             data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
@@ -2025,6 +2142,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           insert: mockInsert,
           order: vi.fn().mockResolvedValue({
             data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
@@ -2077,6 +2195,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: mockOrder,
         };
       }
@@ -2105,6 +2224,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({
             data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
             error: null
@@ -2140,6 +2260,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({
             data: [
               { id: "1", name: "Chicken", in_bank: true, used_count: 0 },
@@ -2191,6 +2312,7 @@ describe("IngredientBank - Edge Case Branches", () => {
       if (table === "ingredients") {
         return {
           select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({
             data: [{ id: "1", name: "Chicken", in_bank: true, used_count: 0 }],
             error: null
@@ -33,8 +33,9 @@ const { FileValidationError, mockUploadRecipeFile } = vi.hoisted(() => {
 });
 
 vi.mock("@/lib/upload", () => ({
-  uploadRecipeFile: (...args: unknown[]) => mockUploadRecipeFile(...args),
+  uploadRecipeFiles: (files: File[]) => Promise.all(files.map((file) => mockUploadRecipeFile(file))),
   FileValidationError,
+  MAX_RECIPE_FILES: 6,
 }));
 
 const createMockQueryBuilder = (overrides: Record<string, unknown> = {}) => ({
@@ -133,7 +134,7 @@ describe("AddMealDialog", () => {
     });
     fireEvent.click(screen.getByText("Add to Meal"));
 
-    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true);
+    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true, null);
     expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false);
   });
 
@@ -148,7 +149,7 @@ describe("AddMealDialog", () => {
     });
     fireEvent.click(screen.getByText("Add to Meal"));
 
-    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true);
+    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true, null);
     expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false);
   });
 
@@ -224,7 +225,7 @@ describe("AddMealDialog", () => {
 
     // Dialog closes
     expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false);
-    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true);
+    expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith("Tacos", "https://example.com/tacos", true, null);
   });
 
   it("searches recipes with debounce", async () => {
@@ -721,9 +722,8 @@ describe("AddMealDialog", () => {
         expect(toast.success).toHaveBeenCalledWith("File uploaded!");
       });
 
-      // URL field should be filled (read-only input in upload mode)
-      const urlInput = screen.getByDisplayValue("https://storage.example.com/recipe-images/mock-uuid-123.jpg") as HTMLInputElement;
-      expect(urlInput).toBeInTheDocument();
+      // The uploaded file is listed as the first page
+      expect(screen.getByText("Page 1")).toBeInTheDocument();
     });
 
     it("auto-fills meal name from file name when name is empty", async () => {
@@ -737,10 +737,8 @@ describe("AddMealDialog", () => {
 
       await waitFor(() => {
         expect(mockUploadRecipeFile).toHaveBeenCalled();
+        expect(screen.getByLabelText("Meal Name *")).toHaveValue("chicken tikka");
       });
-
-      const nameInput = screen.getByLabelText("Meal Name *") as HTMLInputElement;
-      expect(nameInput.value).toBe("chicken tikka");
     });
 
     it("does not overwrite existing meal name on upload", async () => {
@@ -784,7 +782,8 @@ describe("AddMealDialog", () => {
       expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith(
         "recipe",
         "https://storage.example.com/recipe-images/mock-uuid-123.jpg",
-        true
+        true,
+        ["https://storage.example.com/recipe-images/mock-uuid-123.jpg"]
       );
     });
 
@@ -805,7 +804,8 @@ describe("AddMealDialog", () => {
       expect(defaultProps.onAddCustomMeal).toHaveBeenCalledWith(
         "recipe",
         "https://example.com/other",
-        true
+        true,
+        null
       );
     });
 
@@ -911,4 +911,81 @@ describe("AddMealDialog", () => {
       expect(mockUploadRecipeFile).toHaveBeenCalledWith(file);
     });
   });
+
+  describe("dietary warnings", () => {
+    const mockRecipes = [
+      { id: "r-1", name: "Chicken Tikka", url: null, event_id: null },
+      { id: "r-2", name: "Veggie Curry", url: null, event_id: null },
+    ];
+    const mockIngredients = [
+      { recipe_id: "r-1", name: "chicken thighs" },
+      { recipe_id: "r-1", name: "cilantro" },
+      { recipe_id: "r-2", name: "chickpeas" },
+    ];
+
+    beforeEach(() => {
+      mockSupabaseFrom.mockImplementation((table: string) =>
+        table === "recipe_ingredients"
+          ? createMockQueryBuilder({
+              in: vi.fn().mockResolvedValue({ data: mockIngredients, error: null }),
+            })
+          : createMockQueryBuilder({
+              limit: vi.fn().mockResolvedValue({ data: mockRecipes, error: null }),
+            })
+      );
+    });
+
+    const selectRecipe = async (name: string) => {
+      fireEvent.change(screen.getByPlaceholderText("Search recipes..."), {
+        target: { value: "c" },
+      });
+      await waitFor(() => {
+        expect(screen.getByText(name)).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText(name));
+    };
+
+    it("warns about restriction conflicts and disliked ingredients", async () => {
+      render(
+        <AddMealDialog
+          {...defaultProps}
+          dietaryRestrictions={["vegetarian"]}
+          dislikedIngredients={["cilantro"]}
+        />
+      );
+      fireEvent.click(screen.getByText("From Recipes"));
+      await selectRecipe("Chicken Tikka");
+
+      await waitFor(() => {
+        expect(screen.getByText("Doesn't match your dietary preferences")).toBeInTheDocument();
+      });
+      expect(screen.getByText("Chicken Tikka: not vegetarian, contains cilantro")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Add Anyway"));
+      expect(defaultProps.onAddRecipeMeal).toHaveBeenCalledWith([
+        { id: "r-1", name: "Chicken Tikka", url: undefined },
+      ]);
+    });
+
+    it("shows no warning when selected recipes fit", async () => {
+      render(<AddMealDialog {...defaultProps} dietaryRestrictions={["vegetarian"]} />);
+      fireEvent.click(screen.getByText("From Recipes"));
+      await selectRecipe("Veggie Curry");
+
+      await waitFor(() => {
+        expect(mockSupabaseFrom).toHaveBeenCalledWith("recipe_ingredients");
+      });
+      expect(screen.queryByText("Doesn't match your dietary preferences")).not.toBeInTheDocument();
+      expect(screen.getByText("Add 1 to Meal")).toBeInTheDocument();
+    });
+
+    it("does not load ingredients without dietary preferences", async () => {
+      render(<AddMealDialog {...defaultProps} />);
+      fireEvent.click(screen.getByText("From Recipes"));
+      await selectRecipe("Chicken Tikka");
+
+      expect(screen.getByText("Add 1 to Meal")).toBeInTheDocument();
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith("recipe_ingredients");
+    });
+  });
 });
@@ -1,7 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, fireEvent } from "@tests/utils";
+import type { MealPlanItem, RecipeNutrition } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {},
+}));
+
 import MealPlanGrid from "@/components/mealplan/MealPlanGrid";
-import type { MealPlanItem } from "@/types";
 
 describe("MealPlanGrid", () => {
   const defaultProps = {
@@ -310,4 +315,93 @@ describe("MealPlanGrid", () => {
     });
   });
 
+  describe("nutritionByRecipe prop", () => {
+    const facts = (calories: number) => ({ calories, protein: 30, carbs: 60, fat: 20, fiber: 6, sodium: 900 });
+    const nutrition = (overrides: Partial<RecipeNutrition> = {}): RecipeNutrition => ({
+      total: facts(2000),
+      perServing: facts(500),
+      servings: 4,
+      countedCount: 6,
+      uncounted: [],
+      ...overrides,
+    });
+    const item = (overrides: Partial<MealPlanItem>): MealPlanItem => ({
+      id: "item-1",
+      planId: "plan-1",
+      dayOfWeek: 1,
+      mealType: "dinner",
+      sortOrder: 0,
+      ...overrides,
+    });
+
+    it("doesn't show nutrition without estimates", () => {
+      render(<MealPlanGrid {...defaultProps} items={[item({ recipeId: "r1", recipeName: "Chili" })]} />);
+
+      expect(screen.queryByText("Per person")).not.toBeInTheDocument();
+      expect(screen.queryByTestId("day-nutrition-1")).not.toBeInTheDocument();
+    });
+
+    it("doesn't show nutrition when no meal could be estimated", () => {
+      render(
+        <MealPlanGrid
+          {...defaultProps}
+          items={[item({ recipeId: "r1", recipeName: "Chili" })]}
+          nutritionByRecipe={{ r1: nutrition({ perServing: undefined, servings: undefined }) }}
+        />
+      );
+
+      expect(screen.queryByText("Per person")).not.toBeInTheDocument();
+    });
+
+    it("shows per-person totals for each day in both layouts", () => {
+      render(
+        <MealPlanGrid
+          {...defaultProps}
+          items={[
+            item({ id: "1", recipeId: "r1", recipeName: "Chili" }),
+            item({ id: "2", recipeId: "r2", recipeName: "Oats", mealType: "breakfast" }),
+            item({ id: "3", recipeId: "r1", recipeName: "Chili", dayOfWeek: 4 }),
+          ]}
+          nutritionByRecipe={{ r1: nutrition(), r2: nutrition({ perServing: facts(350) }) }}
+        />
+      );
+
+      expect(screen.getByText("Per person")).toBeInTheDocument();
+      const monday = screen.getAllByTestId("day-nutrition-1");
+      expect(monday).toHaveLength(2);
+      expect(monday[0]).toHaveTextContent("~850 kcal");
+      expect(monday[1]).toHaveTextContent("P 60 · C 120 · F 40");
+      expect(monday[1]).toHaveAttribute("title", expect.stringContaining("Sodium 1,800 mg"));
+      expect(screen.getAllByTestId("day-nutrition-4")[0]).toHaveTextContent("~500 kcal");
+      expect(screen.queryByTestId("day-nutrition-2")).not.toBeInTheDocument();
+      expect(screen.queryByLabelText("Estimate incomplete")).not.toBeInTheDocument();
+    });
+
+    it("flags days with meals or ingredients left out of the estimate", () => {
+      render(
+        <MealPlanGrid
+          {...defaultProps}
+          items={[
+            item({ id: "1", recipeId: "r1", recipeName: "Chili" }),
+            item({ id: "2", customName: "Takeout", mealType: "lunch" }),
+            item({ id: "3", recipeId: "r2", recipeName: "Paella", dayOfWeek: 2 }),
+          ]}
+          nutritionByRecipe={{
+            r1: nutrition(),
+            r2: nutrition({ uncounted: [{ name: "saffron", reason: "unknown" }] }),
+          }}
+        />
+      );
+
+      expect(screen.getAllByLabelText("Estimate incomplete")).toHaveLength(4);
+      expect(screen.getAllByTestId("day-nutrition-1")[0]).toHaveAttribute(
+        "title",
+        expect.stringContaining("Not estimated: Takeout")
+      );
+      expect(screen.getAllByTestId("day-nutrition-2")[0]).toHaveAttribute(
+        "title",
+        expect.stringContaining("1 ingredient not counted")
+      );
+    });
+  });
 });
@@ -58,10 +58,43 @@ vi.mock("@/integrations/supabase/client", () => ({
   },
 }));
 
+// Mock the parse job queue; jobs complete as soon as they're followed
+const mockEnqueueRecipeParse = vi.fn();
+const mockSubscribeToParseJob = vi.fn();
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+  subscribeToParseJob: (...args: unknown[]) => mockSubscribeToParseJob(...args),
+}));
+
+const createParseJob = (overrides: Record<string, unknown> = {}) => ({
+  id: "job-1",
+  recipeId: "recipe-default",
+  status: "queued",
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: "2025-01-01T00:00:00Z",
+  ...overrides,
+});
+
+/** Make the next followed parse job fail after its last attempt. */
+const failNextParseJob = (lastError = "Parse failed") => {
+  mockSubscribeToParseJob.mockImplementationOnce((_jobId: string, onChange: (job: unknown) => void) => {
+    onChange(createParseJob({ status: "failed", attempts: 3, lastError }));
+    return vi.fn();
+  });
+};
+
 vi.mock("uuid", () => ({
   v4: () => "mock-uuid-456",
 }));
 
+// jsdom can't decode images, so processing passes files through untouched
+vi.mock("@/lib/imageProcessing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/imageProcessing")>()),
+  normalizeImage: async (file: File) => file,
+  createThumbnail: async () => null,
+}));
+
 // Mock pantry module
 const mockGetPantryItems = vi.fn();
 const mockEnsureDefaultPantryItems = vi.fn();
@@ -97,9 +130,9 @@ vi.mock("@/lib/groceryCache", () => ({
 
 // Mock general grocery module
 const mockLoadGeneralItems = vi.fn().mockResolvedValue([]);
-const mockAddGeneralItem = vi.fn().mockResolvedValue(undefined);
-const mockRemoveGeneralItem = vi.fn().mockResolvedValue(undefined);
-const mockUpdateGeneralItem = vi.fn().mockResolvedValue(undefined);
+const mockAddGeneralItem = vi.fn().mockResolvedValue(true);
+const mockRemoveGeneralItem = vi.fn().mockResolvedValue(true);
+const mockUpdateGeneralItem = vi.fn().mockResolvedValue(true);
 const mockToRawIngredients = vi.fn().mockReturnValue([]);
 vi.mock("@/lib/generalGrocery", () => ({
   loadGeneralItems: (...args: unknown[]) => mockLoadGeneralItems(...args),
@@ -115,10 +148,10 @@ const mockLoadUserPreferences = vi.fn().mockResolvedValue({
   weekStartDay: 0,
   householdSize: 2,
 });
-const mockGetCachedAiModel = vi.fn().mockReturnValue("claude-sonnet-4-6");
+const mockGetCachedAiOptions = vi.fn().mockReturnValue({ provider: "anthropic", model: "claude-sonnet-4-6" });
 vi.mock("@/lib/userPreferences", () => ({
   loadUserPreferences: (...args: unknown[]) => mockLoadUserPreferences(...args),
-  getCachedAiModel: (...args: unknown[]) => mockGetCachedAiModel(...args),
+  getCachedAiOptions: (...args: unknown[]) => mockGetCachedAiOptions(...args),
 }));
 
 // Mock sonner toast
@@ -163,6 +196,13 @@ const createPlanMock = (planId: string | null) => {
   return builder;
 };
 
+// Mock nutrition loading; day totals are still worked out by the real module
+const mockLoadRecipeNutrition = vi.fn();
+vi.mock("@/lib/nutrition", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/nutrition")>()),
+  loadRecipeNutrition: (...args: unknown[]) => mockLoadRecipeNutrition(...args),
+}));
+
 describe("MealPlanPage", () => {
   const defaultProps = {
     userId: "user-123",
@@ -179,7 +219,13 @@ describe("MealPlanPage", () => {
     mockGetPantryItems.mockResolvedValue([]);
     mockEnsureDefaultPantryItems.mockResolvedValue(undefined);
     mockInvoke.mockResolvedValue({ data: { success: true }, error: null });
+    mockEnqueueRecipeParse.mockImplementation(async (recipeId: string) => createParseJob({ recipeId }));
+    mockSubscribeToParseJob.mockImplementation((_jobId: string, onChange: (job: unknown) => void) => {
+      onChange(createParseJob({ status: "completed", attempts: 1 }));
+      return vi.fn();
+    });
     mockSmartCombineIngredients.mockResolvedValue(null);
+    mockLoadRecipeNutrition.mockResolvedValue({});
     mockLoadGroceryCache.mockResolvedValue(null);
     mockSaveGroceryCache.mockResolvedValue(undefined);
     mockStorageUpload.mockResolvedValue({ error: null });
@@ -666,6 +712,161 @@ describe("MealPlanPage", () => {
     });
   });
 
+  it("shows per-person nutrition for the plan's recipes", async () => {
+    const perServing = { calories: 620, protein: 45, carbs: 30, fat: 28, fiber: 4, sodium: 700 };
+    mockLoadRecipeNutrition.mockResolvedValue({
+      "recipe-1": { total: perServing, perServing, servings: 1, countedCount: 5, uncounted: [] },
+    });
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "meal_plans") {
+        return createPlanMock("plan-existing");
+      }
+      if (table === "meal_plan_items") {
+        return createMockQueryBuilder({
+          order: vi.fn().mockResolvedValue({
+            data: [
+              {
+                id: "item-1",
+                plan_id: "plan-existing",
+                recipe_id: "recipe-1",
+                day_of_week: 1,
+                meal_type: "dinner",
+                custom_name: null,
+                custom_url: null,
+                sort_order: 0,
+                recipes: { name: "Grilled Chicken", url: null },
+              },
+            ],
+            error: null,
+          }),
+        });
+      }
+      return createMockQueryBuilder();
+    });
+
+    render(<MealPlanPage {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Per person")).toBeInTheDocument();
+    });
+    expect(mockLoadRecipeNutrition).toHaveBeenCalledWith(["recipe-1"]);
+    expect(screen.getAllByTestId("day-nutrition-1")[0]).toHaveTextContent("~620 kcal");
+  });
+
+  it("saves a per-slot servings override", async () => {
+    const itemsBuilder = createMockQueryBuilder({
+      order: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "item-1",
+            plan_id: "plan-existing",
+            recipe_id: "recipe-1",
+            day_of_week: 1,
+            meal_type: "dinner",
+            custom_name: null,
+            custom_url: null,
+            sort_order: 0,
+            servings: null,
+            recipes: { name: "Grilled Chicken", url: null },
+          },
+        ],
+        error: null,
+      }),
+    });
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "meal_plans") {
+        return createPlanMock("plan-existing");
+      }
+      if (table === "meal_plan_items") {
+        return itemsBuilder;
+      }
+      return createMockQueryBuilder();
+    });
+
+    render(<MealPlanPage {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByLabelText("Servings for Grilled Chicken")[0]).toHaveValue("2");
+    });
+
+    fireEvent.change(screen.getAllByLabelText("Servings for Grilled Chicken")[0], {
+      target: { value: "4" },
+    });
+
+    await waitFor(() => {
+      expect(itemsBuilder.update).toHaveBeenCalledWith({ servings: 4 });
+    });
+    expect(itemsBuilder.eq).toHaveBeenCalledWith("id", "item-1");
+    expect(screen.getAllByLabelText("Servings for Grilled Chicken")[0]).toHaveValue("4");
+  });
+
+  it("shops for every slot a recipe is planned in", async () => {
+    mockSmartCombineIngredients.mockResolvedValue({ items: [], perRecipeItems: {} });
+    mockLoadGeneralItems.mockResolvedValue([]);
+    const slot = (id: string, dayOfWeek: number, servings: number | null) => ({
+      id, plan_id: "plan-1", recipe_id: "recipe-1",
+      day_of_week: dayOfWeek, meal_type: "dinner", custom_name: null,
+      custom_url: null, sort_order: 0, servings,
+      recipes: { name: "Stir Fry", url: null },
+    });
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "meal_plans") {
+        return createPlanMock("plan-1");
+      }
+      if (table === "meal_plan_items") {
+        return createMockQueryBuilder({
+          order: vi.fn().mockResolvedValue({ data: [slot("item-1", 1, 4), slot("item-2", 3, null)], error: null }),
+        });
+      }
+      if (table === "recipe_ingredients") {
+        return createMockQueryBuilder({
+          in: vi.fn().mockResolvedValue({
+            data: [
+              { id: "ing-1", recipe_id: "recipe-1", name: "rice", quantity: 2, unit: "cups", category: "pantry", raw_text: "2 cups rice", sort_order: 0, created_at: "2026-01-01" },
+            ],
+            error: null,
+          }),
+        });
+      }
+      if (table === "recipe_content") {
+        return createMockQueryBuilder({
+          in: vi.fn().mockResolvedValue({
+            data: [
+              { id: "c1", recipe_id: "recipe-1", description: null, servings: "2", prep_time: null, cook_time: null, total_time: null, instructions: null, source_title: null, parsed_at: "2026-01-01", status: "completed", error_message: null, created_at: "2026-01-01" },
+            ],
+            error: null,
+          }),
+        });
+      }
+      if (table === "recipes") {
+        return createMockQueryBuilder({
+          in: vi.fn().mockResolvedValue({
+            data: [{ id: "recipe-1", name: "Stir Fry", url: null }],
+            error: null,
+          }),
+        });
+      }
+      return createMockQueryBuilder();
+    });
+
+    render(<MealPlanPage {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByText("Stir Fry")[0]).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText("Groceries"));
+
+    // 4 servings on Monday plus the household's 2 on Wednesday, from a recipe that serves 2
+    await waitFor(() => {
+      expect(mockSmartCombineIngredients).toHaveBeenCalledWith(
+        [expect.objectContaining({ name: "rice", quantity: 6, unit: "cups" })],
+        expect.anything(),
+        undefined,
+        expect.anything()
+      );
+    });
+  });
+
   it("renders week navigation", async () => {
     render(<MealPlanPage {...defaultProps} />);
 
@@ -2649,7 +2850,7 @@ describe("MealPlanPage", () => {
   });
 
   describe("File Upload and Parse", () => {
-    it("invokes parse-recipe after adding custom meal with uploaded file", async () => {
+    it("queues a parse after adding custom meal with uploaded file", async () => {
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
           return createPlanMock(null);
@@ -2712,18 +2913,15 @@ describe("MealPlanPage", () => {
       fireEvent.click(screen.getByText("Add to Meal"));
 
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
-          body: {
-            model: "claude-sonnet-4-6",
-            recipeId: "recipe-upload-1",
-            recipeUrl: "https://storage.example.com/recipe-images/mock-uuid-456.jpg",
-            recipeName: "recipe",
-          },
+        expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-upload-1", {
+          recipeName: "recipe",
+          recipeUrl: "https://storage.example.com/recipe-images/mock-uuid-456.jpg",
+          text: undefined,
         });
       });
     });
 
-    it("invokes parse-recipe when URL is typed manually", async () => {
+    it("queues a parse when URL is typed manually", async () => {
       render(<MealPlanPage {...defaultProps} />);
 
       await waitFor(() => {
@@ -2743,16 +2941,19 @@ describe("MealPlanPage", () => {
       });
       fireEvent.click(screen.getByText("Add to Meal"));
 
-      // parse-recipe should be called since any URL now triggers parsing
+      // A parse should be queued since any URL now triggers parsing
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+        expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ recipeName: "Tacos", recipeUrl: "https://example.com/tacos" })
+        );
       });
     });
 
 
 
-    it("handles parse-recipe error gracefully", async () => {
-      mockInvoke.mockResolvedValueOnce({ data: null, error: new Error("Parse failed") });
+    it("handles parse job failure gracefully", async () => {
+      failNextParseJob();
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -2825,9 +3026,8 @@ describe("MealPlanPage", () => {
       });
     });
 
-    it("shows parse failure dialog when parse returns success:false without error field", async () => {
-      mockInvoke.mockReset();
-      mockInvoke.mockResolvedValueOnce({ data: { success: false }, error: null });
+    it("shows parse failure dialog when the parse job fails without an error", async () => {
+      failNextParseJob();
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -2890,8 +3090,7 @@ describe("MealPlanPage", () => {
 
     it("dismisses parse failure dialog via overlay close (calls handleParseKeep)", async () => {
       // Reset invoke mock to clear any stale once-queue entries from prior tests
-      mockInvoke.mockReset();
-      mockInvoke.mockResolvedValueOnce({ data: null, error: new Error("Parse failed") });
+      failNextParseJob();
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -2960,11 +3159,12 @@ describe("MealPlanPage", () => {
     });
 
     it("does not dismiss parse dialog via overlay close while still parsing", async () => {
-      // Use a delayed parse mock so dialog stays open in "parsing" state
-      let resolveInvoke: (value: { data: unknown; error: null }) => void;
-      mockInvoke.mockImplementationOnce(() => new Promise((resolve) => {
-        resolveInvoke = resolve;
-      }));
+      // Hold the parse job open so dialog stays open in "parsing" state
+      let completeParseJob: () => void;
+      mockSubscribeToParseJob.mockImplementationOnce((_jobId: string, onChange: (job: unknown) => void) => {
+        completeParseJob = () => onChange(createParseJob({ status: "completed", attempts: 1 }));
+        return vi.fn();
+      });
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -3024,9 +3224,9 @@ describe("MealPlanPage", () => {
         expect(screen.getByText("Adding Recipe")).toBeInTheDocument();
       });
 
-      // Wait for invoke to actually be called (there's a 200ms delay for the saving step)
+      // Wait for the queued job to be followed
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalled();
+        expect(mockSubscribeToParseJob).toHaveBeenCalled();
       });
 
       // Pressing Escape fires onOpenChange, but since parseStatus is "parsing" (not "failed"),
@@ -3037,8 +3237,8 @@ describe("MealPlanPage", () => {
       expect(screen.getByText("Adding Recipe")).toBeInTheDocument();
       expect(toast.success).not.toHaveBeenCalledWith("Recipe saved without parsing");
 
-      // Clean up: resolve the invoke to avoid dangling promise
-      resolveInvoke!({ data: { success: true }, error: null });
+      // Clean up: finish the job
+      completeParseJob!();
       // (2500ms delay for "done" step animation before toast fires)
       await waitFor(() => {
         expect(toast.success).toHaveBeenCalledWith("Recipe parsed successfully!");
@@ -3046,11 +3246,12 @@ describe("MealPlanPage", () => {
     });
 
     it("handles loadGroceryData returning null after parse succeeds", async () => {
-      // Use a delayed parse mock so we can switch tabs while parse is in flight
-      let resolveInvoke: (value: { data: unknown; error: null }) => void;
-      mockInvoke.mockImplementationOnce(() => new Promise((resolve) => {
-        resolveInvoke = resolve;
-      }));
+      // Hold the parse job open so we can switch tabs while parse is in flight
+      let completeParseJob: () => void;
+      mockSubscribeToParseJob.mockImplementationOnce((_jobId: string, onChange: (job: unknown) => void) => {
+        completeParseJob = () => onChange(createParseJob({ status: "completed", attempts: 1 }));
+        return vi.fn();
+      });
 
       let parseResolved = false;
 
@@ -3134,17 +3335,17 @@ describe("MealPlanPage", () => {
         expect(screen.getByText("Adding Recipe")).toBeInTheDocument();
       });
 
-      // Wait for invoke to actually be called (there's a 200ms delay for the saving step)
+      // Wait for the queued job to be followed
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalled();
+        expect(mockSubscribeToParseJob).toHaveBeenCalled();
       });
 
       // Mark that parse is about to resolve so loadGroceryData will fail
       parseResolved = true;
 
-      // Resolve parse — loadGroceryData will return null because recipe_ingredients throws
+      // Finish the job — loadGroceryData will return null because recipe_ingredients throws
       // shouldCombine is true (2 recipes with URLs) but groceryData is null
-      resolveInvoke!({ data: { success: true }, error: null });
+      completeParseJob!();
 
       // Parse succeeds but smartCombine should NOT be called since groceryData is null
       // (2500ms delay for "done" step animation before toast fires)
@@ -3154,11 +3355,12 @@ describe("MealPlanPage", () => {
     });
 
     it("runs combine step during parse when 2+ recipes with URLs on groceries tab", async () => {
-      // Use a delayed parse mock so we can switch tabs while parse is in flight
-      let resolveInvoke: (value: { data: unknown; error: null }) => void;
-      mockInvoke.mockImplementationOnce(() => new Promise((resolve) => {
-        resolveInvoke = resolve;
-      }));
+      // Hold the parse job open so we can switch tabs while parse is in flight
+      let completeParseJob: () => void;
+      mockSubscribeToParseJob.mockImplementationOnce((_jobId: string, onChange: (job: unknown) => void) => {
+        completeParseJob = () => onChange(createParseJob({ status: "completed", attempts: 1 }));
+        return vi.fn();
+      });
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -3254,9 +3456,9 @@ describe("MealPlanPage", () => {
         expect(screen.getByText("Adding Recipe")).toBeInTheDocument();
       });
 
-      // Wait for invoke to actually be called
+      // Wait for the queued job to be followed
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalled();
+        expect(mockSubscribeToParseJob).toHaveBeenCalled();
       });
 
       // Switch to Groceries tab while parse is in flight
@@ -3265,8 +3467,8 @@ describe("MealPlanPage", () => {
       await waitFor(() => {
       });
 
-      // Resolve parse — groceryData will be non-null and shouldCombine is true
-      resolveInvoke!({ data: { success: true }, error: null });
+      // Finish the job — groceryData will be non-null and shouldCombine is true
+      completeParseJob!();
 
       // Parse succeeds and smart combine should run
       await waitFor(() => {
@@ -3275,11 +3477,12 @@ describe("MealPlanPage", () => {
     });
 
     it("runs combine step during parse for a single URL recipe on groceries tab", async () => {
-      // Use a delayed parse mock so we can switch tabs while parse is in flight
-      let resolveInvoke: (value: { data: unknown; error: null }) => void;
-      mockInvoke.mockImplementationOnce(() => new Promise((resolve) => {
-        resolveInvoke = resolve;
-      }));
+      // Hold the parse job open so we can switch tabs while parse is in flight
+      let completeParseJob: () => void;
+      mockSubscribeToParseJob.mockImplementationOnce((_jobId: string, onChange: (job: unknown) => void) => {
+        completeParseJob = () => onChange(createParseJob({ status: "completed", attempts: 1 }));
+        return vi.fn();
+      });
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -3355,9 +3558,9 @@ describe("MealPlanPage", () => {
         expect(screen.getByText("Adding Recipe")).toBeInTheDocument();
       });
 
-      // Wait for invoke to actually be called
+      // Wait for the queued job to be followed
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalled();
+        expect(mockSubscribeToParseJob).toHaveBeenCalled();
       });
 
       // Switch to Groceries tab while parse is in flight
@@ -3366,8 +3569,8 @@ describe("MealPlanPage", () => {
       await waitFor(() => {
       });
 
-      // Resolve parse — shouldCombine is true (1 recipe with URL), showCombineStep is false (< 2)
-      resolveInvoke!({ data: { success: true }, error: null });
+      // Finish the job — shouldCombine is true (1 recipe with URL), showCombineStep is false (< 2)
+      completeParseJob!();
 
       // Parse succeeds and smart combine should run even for single recipe
       await waitFor(() => {
@@ -3379,20 +3582,6 @@ describe("MealPlanPage", () => {
 
   describe("manual meal entry", () => {
     it("adds manual meal with pasted ingredients via AI parse", async () => {
-      // Mock the parse-recipe response (parse-recipe handles DB saves internally)
-      mockInvoke.mockResolvedValueOnce({
-        data: {
-          success: true,
-          ingredientCount: 1,
-          parsed: {
-            ingredients: [
-              { name: "spaghetti", quantity: 1, unit: "lb", category: "pantry" },
-            ],
-          },
-        },
-        error: null,
-      });
-
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
           return createPlanMock(null);
@@ -3467,22 +3656,20 @@ describe("MealPlanPage", () => {
       // Submit
       fireEvent.click(screen.getByText("Add to Meal"));
 
-      // Should call parse-recipe which handles DB saves internally
+      // Should queue a text parse (parse-recipe handles DB saves internally)
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
-          body: { model: "claude-sonnet-4-6", recipeId: "recipe-manual-1", recipeName: "Manual Pasta", text: "1 lb spaghetti" },
+        expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-manual-1", {
+          recipeName: "Manual Pasta",
+          recipeUrl: undefined,
+          text: "1 lb spaghetti",
         });
       });
     });
 
-    it("handles parse-recipe error when saving manual meal ingredients", async () => {
+    it("handles parse job failure when saving manual meal ingredients", async () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
-      // Mock the parse-recipe response to return success: false
-      mockInvoke.mockResolvedValueOnce({
-        data: { success: false, error: "Parse failed internally" },
-        error: null,
-      });
+      failNextParseJob("Parse failed internally");
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -3558,7 +3745,7 @@ describe("MealPlanPage", () => {
       // Submit
       fireEvent.click(screen.getByText("Add to Meal"));
 
-      // Parse fails → shows "Parsing Failed" dialog (no toast — setParseStatus("failed"))
+      // Parse fails → shows "Parsing Failed" dialog (no toast)
       await waitFor(() => {
         expect(screen.getByText("Parsing Failed")).toBeInTheDocument();
       });
@@ -3569,11 +3756,7 @@ describe("MealPlanPage", () => {
     it("shows error when AI parse fails for manual meal", async () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
-      // Mock the parse-recipe invoke to fail
-      mockInvoke.mockResolvedValueOnce({
-        data: null,
-        error: new Error("Parse failed"),
-      });
+      failNextParseJob();
 
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === "meal_plans") {
@@ -3649,7 +3832,7 @@ describe("MealPlanPage", () => {
       // Submit
       fireEvent.click(screen.getByText("Add to Meal"));
 
-      // parse-recipe fails → shows "Parsing Failed" dialog (no toast — setParseStatus("failed"))
+      // Parse job fails → shows "Parsing Failed" dialog (no toast)
       await waitFor(() => {
         expect(screen.getByText("Parsing Failed")).toBeInTheDocument();
       });
@@ -3944,7 +4127,7 @@ describe("MealPlanPage", () => {
       // Should call parse-recipe with the text
       await waitFor(() => {
         expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
-          body: { model: "claude-sonnet-4-6", recipeName: "General Items", text: "2 lbs potatoes" },
+          body: { provider: "anthropic", model: "claude-sonnet-4-6", recipeName: "General Items", text: "2 lbs potatoes" },
         });
       });
 
@@ -4165,7 +4348,7 @@ describe("MealPlanPage", () => {
 
       await waitFor(() => {
         expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
-          body: { model: "claude-sonnet-4-6", recipeName: "General Items", text: "3 tomatoes\n1 bunch basil" },
+          body: { provider: "anthropic", model: "claude-sonnet-4-6", recipeName: "General Items", text: "3 tomatoes\n1 bunch basil" },
         });
       });
 
@@ -4230,7 +4413,7 @@ describe("MealPlanPage", () => {
 
       await waitFor(() => {
         expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
-          body: { model: "claude-sonnet-4-6", recipeName: "General Items", text: "nothing useful" },
+          body: { provider: "anthropic", model: "claude-sonnet-4-6", recipeName: "General Items", text: "nothing useful" },
         });
       });
 
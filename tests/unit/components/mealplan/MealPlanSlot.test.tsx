@@ -519,4 +519,58 @@ describe("MealPlanSlot", () => {
       expect(screen.queryByTestId("cooked-check")).not.toBeInTheDocument();
     });
   });
+
+  describe("servings", () => {
+    const recipeItem: MealPlanItem = {
+      id: "item-1",
+      planId: "plan-1",
+      recipeId: "recipe-1",
+      dayOfWeek: 1,
+      mealType: "dinner",
+      sortOrder: 0,
+      recipeName: "Salmon",
+    };
+
+    it("does not show a servings control without onChangeServings", () => {
+      render(<MealPlanSlot {...defaultProps} items={[recipeItem]} />);
+
+      expect(screen.queryByLabelText("Servings for Salmon")).not.toBeInTheDocument();
+    });
+
+    it("defaults to the household size and reports changes", () => {
+      const onChangeServings = vi.fn();
+      const onViewMealEvent = vi.fn();
+      render(
+        <MealPlanSlot
+          {...defaultProps}
+          items={[recipeItem]}
+          defaultServings={3}
+          onChangeServings={onChangeServings}
+          onViewMealEvent={onViewMealEvent}
+        />
+      );
+
+      const select = screen.getByLabelText("Servings for Salmon") as HTMLSelectElement;
+      expect(select.value).toBe("3");
+
+      fireEvent.change(select, { target: { value: "6" } });
+      fireEvent.click(select);
+
+      expect(onChangeServings).toHaveBeenCalledWith("item-1", 6);
+      expect(onViewMealEvent).not.toHaveBeenCalled();
+    });
+
+    it("shows the slot override when set", () => {
+      render(
+        <MealPlanSlot
+          {...defaultProps}
+          items={[{ ...recipeItem, servings: 5 }]}
+          defaultServings={2}
+          onChangeServings={vi.fn()}
+        />
+      );
+
+      expect((screen.getByLabelText("Servings for Salmon") as HTMLSelectElement).value).toBe("5");
+    });
+  });
 });
@@ -1199,6 +1199,52 @@ describe("GroceryListSection", () => {
     expect(screen.queryByText("Recombine")).not.toBeInTheDocument();
   });
 
+  it("shows who checked each item on a shared list", () => {
+    const sharedItems: SmartGroceryItem[] = [
+      { name: "tomato", displayName: "tomatoes", totalQuantity: 4, category: "produce", sourceRecipes: ["Tomato Soup"] },
+    ];
+
+    render(
+      <GroceryListSection
+        recipes={recipes}
+        recipeIngredients={ingredients}
+        recipeContentMap={contentMap}
+
+        eventName="Test Event"
+        smartGroceryItems={sharedItems}
+        checkedItems={new Set(["tomato"])}
+        onToggleChecked={vi.fn()}
+        checkedBy={{ tomato: "Alex" }}
+      />
+    );
+
+    expect(screen.getByText("· Alex")).toBeInTheDocument();
+  });
+
+  it("hides Recombine and shows the offline banner when offline", () => {
+    const recombineSmartItems: SmartGroceryItem[] = [
+      { name: "tomato", displayName: "tomatoes", totalQuantity: 4, category: "produce", sourceRecipes: ["Tomato Soup"] },
+    ];
+
+    render(
+      <GroceryListSection
+        recipes={recipes}
+        recipeIngredients={ingredients}
+        recipeContentMap={contentMap}
+
+        eventName="Test Event"
+        smartGroceryItems={recombineSmartItems}
+        hasPendingChanges
+        onRecombine={vi.fn()}
+        isOffline
+        pendingSyncCount={2}
+      />
+    );
+
+    expect(screen.queryByText("Recombine")).not.toBeInTheDocument();
+    expect(screen.getByText(/You're offline\. 2 changes will sync/)).toBeInTheDocument();
+  });
+
   it("does not show Recombine button when isCombining is true", () => {
     const recombineSmartItems: SmartGroceryItem[] = [
       { name: "tomato", displayName: "tomatoes", totalQuantity: 4, category: "produce", sourceRecipes: ["Tomato Soup"] },
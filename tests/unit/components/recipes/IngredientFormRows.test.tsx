@@ -399,7 +399,7 @@ describe("Paste ingredients", () => {
     });
   });
 
-  it("shows toast error on parse failure", async () => {
+  it("falls back to the rule-based parser on parse failure", async () => {
     mockInvoke.mockResolvedValueOnce({
       data: null,
       error: new Error("Network error"),
@@ -409,16 +409,20 @@ describe("Paste ingredients", () => {
 
     fireEvent.click(screen.getByRole("button", { name: "Add ingredients" }));
     fireEvent.change(screen.getByLabelText("Paste ingredients text"), {
-      target: { value: "flour, sugar" },
+      target: { value: "2 cups flour, sugar" },
     });
     fireEvent.click(screen.getByRole("button", { name: "Add" }));
 
     await vi.waitFor(() => {
-      expect(onRowsChange).not.toHaveBeenCalled();
+      expect(onRowsChange).toHaveBeenCalledWith([
+        expect.objectContaining({ name: "flour", quantity: "2", unit: "cup", category: "pantry" }),
+        expect.objectContaining({ name: "sugar", quantity: "", unit: "", category: "pantry" }),
+      ]);
     });
+    expect(vi.mocked(toast.error)).not.toHaveBeenCalled();
   });
 
-  it("shows toast error when success is false", async () => {
+  it("falls back to the rule-based parser when success is false", async () => {
     mockInvoke.mockResolvedValueOnce({
       data: { success: false, error: "Parse failed" },
       error: null,
@@ -433,10 +437,34 @@ describe("Paste ingredients", () => {
     fireEvent.click(screen.getByRole("button", { name: "Add" }));
 
     await vi.waitFor(() => {
-      expect(onRowsChange).not.toHaveBeenCalled();
+      expect(onRowsChange).toHaveBeenCalledWith([
+        expect.objectContaining({ name: "flour", category: "pantry" }),
+      ]);
     });
   });
 
+  it("shows toast error when nothing can be parsed", async () => {
+    mockInvoke.mockResolvedValueOnce({
+      data: null,
+      error: new Error("Network error"),
+    });
+
+    render(<IngredientFormRows rows={[]} onRowsChange={onRowsChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add ingredients" }));
+    fireEvent.change(screen.getByLabelText("Paste ingredients text"), {
+      target: { value: " , " },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    await vi.waitFor(() => {
+      expect(vi.mocked(toast.error)).toHaveBeenCalledWith(
+        "Failed to parse ingredients. Please try again."
+      );
+    });
+    expect(onRowsChange).not.toHaveBeenCalled();
+  });
+
   it("closes textarea when Cancel is clicked", () => {
     render(<IngredientFormRows rows={[]} onRowsChange={onRowsChange} />);
 
@@ -499,24 +527,26 @@ describe("Paste ingredients", () => {
     });
   });
 
-  it("shows dev mode error toast when data.skipped is true", async () => {
+  it("pre-fills rows with the rule-based parser when data.skipped is true", async () => {
     mockInvoke.mockResolvedValue({ data: { success: true, skipped: true }, error: null });
 
     render(<IngredientFormRows rows={[]} onRowsChange={onRowsChange} />);
 
     fireEvent.click(screen.getByRole("button", { name: "Add ingredients" }));
     fireEvent.change(screen.getByLabelText("Paste ingredients text"), {
-      target: { value: "some ingredient" },
+      target: { value: "1 (14 oz) can diced tomatoes\n3 cloves garlic, minced" },
     });
     fireEvent.click(screen.getByRole("button", { name: "Add" }));
 
     await vi.waitFor(() => {
-      expect(vi.mocked(toast.error)).toHaveBeenCalledWith(
-        "Ingredient parsing is not available in dev mode."
-      );
+      expect(onRowsChange).toHaveBeenCalledWith([
+        expect.objectContaining({ name: "diced tomatoes", quantity: "1", unit: "can", category: "pantry" }),
+        expect.objectContaining({ name: "garlic", quantity: "3", unit: "clove", category: "produce" }),
+      ]);
     });
-    expect(onRowsChange).not.toHaveBeenCalled();
+    expect(vi.mocked(toast.error)).not.toHaveBeenCalled();
   });
+
 });
 
 describe("createBlankRow", () => {
@@ -33,6 +33,13 @@ vi.mock("uuid", () => ({
   v4: () => "mock-uuid-123",
 }));
 
+// jsdom can't decode images, so processing passes files through untouched
+vi.mock("@/lib/imageProcessing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/imageProcessing")>()),
+  normalizeImage: async (file: File) => file,
+  createThumbnail: async () => null,
+}));
+
 describe("PhotoUpload", () => {
   const mockOnPhotosChange = vi.fn();
 
@@ -188,6 +195,26 @@ describe("PhotoUpload", () => {
     });
   });
 
+  it("accepts HEIC photos without a MIME type", async () => {
+    render(
+      <PhotoUpload photos={[]} onPhotosChange={mockOnPhotosChange} />
+    );
+
+    const file = new File(["test"], "IMG_0001.HEIC", { type: "" });
+    const input = document.querySelector('input[type="file"]') as HTMLInputElement;
+
+    Object.defineProperty(input, "files", {
+      value: [file],
+    });
+
+    fireEvent.change(input);
+
+    await waitFor(() => {
+      expect(mockUpload).toHaveBeenCalled();
+      expect(toast.success).toHaveBeenCalledWith("Uploaded 1 file(s)");
+    });
+  });
+
   it("rejects files larger than 5MB", async () => {
     render(
       <PhotoUpload photos={[]} onPhotosChange={mockOnPhotosChange} />
@@ -273,7 +300,7 @@ describe("PhotoUpload", () => {
   });
 
   it("handles photo removal", async () => {
-    const photos = ["https://example.com/storage/recipe-photos/photo1.jpg"];
+    const photos = ["https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/photo1.jpg"];
 
     render(
       <PhotoUpload photos={photos} onPhotosChange={mockOnPhotosChange} />
@@ -294,10 +321,53 @@ describe("PhotoUpload", () => {
     });
   });
 
+  it("removes the photo's thumbnail with it", async () => {
+    const photos = ["https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/photo1.jpg"];
+
+    render(
+      <PhotoUpload photos={photos} onPhotosChange={mockOnPhotosChange} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove photo 1" }));
+
+    await waitFor(() => {
+      expect(mockRemove).toHaveBeenCalledWith([
+        "recipe-photos/photo1.jpg",
+        "recipe-photos/thumbs/photo1.jpg",
+      ]);
+    });
+  });
+
+  it("leaves files stored elsewhere alone", async () => {
+    render(
+      <PhotoUpload photos={["https://example.com/photo1.jpg"]} onPhotosChange={mockOnPhotosChange} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove photo 1" }));
+
+    await waitFor(() => {
+      expect(mockOnPhotosChange).toHaveBeenCalledWith([]);
+    });
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+
+  it("shows thumbnails for uploaded photos", () => {
+    const photo = "https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/photo1.jpg";
+
+    render(
+      <PhotoUpload photos={[photo]} onPhotosChange={mockOnPhotosChange} />
+    );
+
+    expect(screen.getByRole("img")).toHaveAttribute(
+      "src",
+      "https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/thumbs/photo1.jpg"
+    );
+  });
+
   it("handles photo removal error gracefully", async () => {
     mockRemove.mockResolvedValue({ error: { message: "Delete failed" } });
 
-    const photos = ["https://example.com/storage/recipe-photos/photo1.jpg"];
+    const photos = ["https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/photo1.jpg"];
 
     render(
       <PhotoUpload photos={photos} onPhotosChange={mockOnPhotosChange} />
@@ -455,7 +525,8 @@ describe("PhotoUpload - File Extension Handling", () => {
     await waitFor(() => {
       expect(mockUpload).toHaveBeenCalledWith(
         expect.stringMatching(/^recipe-photos\/mock-uuid-123\.png$/),
-        expect.any(File)
+        expect.any(File),
+        { contentType: "image/png" }
       );
     });
   });
@@ -477,7 +548,7 @@ describe("PhotoUpload - Error Handling", () => {
     // Make remove throw an exception instead of returning an error object
     mockRemove.mockRejectedValueOnce(new Error("Network failure"));
 
-    const photos = ["https://example.com/storage/recipe-photos/photo1.jpg"];
+    const photos = ["https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/photo1.jpg"];
 
     render(
       <PhotoUpload photos={photos} onPhotosChange={mockOnPhotosChange} />
@@ -18,6 +18,17 @@ vi.mock("@/components/recipes/RecipeIngredientList", () => ({
   ),
 }));
 
+// Mock RecipeHistoryDialog — shows a marker while open and lets tests trigger a revert
+vi.mock("@/components/recipes/RecipeHistoryDialog", () => ({
+  default: ({ open, recipeName, onReverted }: { open: boolean; recipeName: string; onReverted?: () => void }) =>
+    open ? (
+      <div data-testid="recipe-history-dialog">
+        History of {recipeName}
+        <button onClick={onReverted}>Simulate revert</button>
+      </div>
+    ) : null,
+}));
+
 // Mock sonner toast
 vi.mock("sonner", () => ({
   toast: {
@@ -757,6 +768,22 @@ describe("RecipeCard - Ingredients Section", () => {
     expect(screen.getByTestId(`recipe-ingredient-list-${recipe.id}`)).toBeInTheDocument();
   });
 
+  it("shows a nutrition estimate with the expanded ingredients", () => {
+    const recipe = createMockRecipe();
+    const ingredients = [
+      createMockIngredient({ id: "ing-1", name: "Salmon", quantity: 2, unit: "lb", category: "meat_seafood" }),
+      createMockIngredient({ id: "ing-2", name: "Saffron", quantity: 1, unit: "pinch", category: "spices" }),
+    ];
+
+    render(<RecipeCard recipe={recipe} ingredients={ingredients} servings="4" />);
+
+    fireEvent.click(screen.getByLabelText(/Expand ingredients/));
+
+    expect(screen.getByText("Nutrition estimate")).toBeInTheDocument();
+    expect(screen.getByText("Per serving · serves 4")).toBeInTheDocument();
+    expect(screen.getByText("Not counted: Saffron (no nutrition data)")).toBeInTheDocument();
+  });
+
   it("collapses ingredients when clicked again", () => {
     const recipe = createMockRecipe();
     const ingredients = [createMockIngredient()];
@@ -831,6 +858,70 @@ describe("RecipeCard - Ingredients Section", () => {
     expect(onParseRecipe).toHaveBeenCalledWith("recipe-1");
   });
 
+  it("shows a re-parse button for completed URL recipes that re-parses past the cache", () => {
+    const onParseRecipe = vi.fn();
+    const recipe = createMockRecipe({ url: "https://example.com/recipe" });
+
+    render(<RecipeCard recipe={recipe} contentStatus="completed" onParseRecipe={onParseRecipe} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Re-parse recipe Grilled Salmon" }));
+    expect(onParseRecipe).toHaveBeenCalledWith("recipe-1", true);
+  });
+
+  it("links parsed recipes to cook mode", () => {
+    const recipe = createMockRecipe();
+
+    const { rerender } = render(<RecipeCard recipe={recipe} contentStatus="completed" />);
+    expect(screen.getByRole("link", { name: "Cook Grilled Salmon step by step" })).toHaveAttribute(
+      "href",
+      "/recipes/recipe-1/cook"
+    );
+
+    rerender(<RecipeCard recipe={recipe} contentStatus="parsing" />);
+    expect(screen.queryByRole("link", { name: /step by step/i })).not.toBeInTheDocument();
+  });
+
+  it("opens the history dialog from the history button", () => {
+    const recipe = createMockRecipe();
+
+    render(<RecipeCard recipe={recipe} contentStatus="completed" userId="user-123" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "View history for Grilled Salmon" }));
+    expect(screen.getByTestId("recipe-history-dialog")).toHaveTextContent("History of Grilled Salmon");
+  });
+
+  it("reports an ingredient change after a revert", () => {
+    const onIngredientsChange = vi.fn();
+    const recipe = createMockRecipe();
+
+    render(
+      <RecipeCard recipe={recipe} contentStatus="completed" userId="user-123" onIngredientsChange={onIngredientsChange} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "View history for Grilled Salmon" }));
+    fireEvent.click(screen.getByText("Simulate revert"));
+    expect(onIngredientsChange).toHaveBeenCalled();
+  });
+
+  it("does not show a history button when signed out or before anything was parsed", () => {
+    const recipe = createMockRecipe();
+
+    const { rerender } = render(<RecipeCard recipe={recipe} contentStatus="completed" />);
+    expect(screen.queryByRole("button", { name: /view history/i })).not.toBeInTheDocument();
+
+    rerender(<RecipeCard recipe={recipe} contentStatus="pending" userId="user-123" />);
+    expect(screen.queryByRole("button", { name: /view history/i })).not.toBeInTheDocument();
+  });
+
+  it("does not show a re-parse button before the recipe has been parsed", () => {
+    const onParseRecipe = vi.fn();
+    const recipe = createMockRecipe({ url: "https://example.com/recipe" });
+
+    render(<RecipeCard recipe={recipe} contentStatus="failed" onParseRecipe={onParseRecipe} />);
+
+    expect(screen.queryByRole("button", { name: /re-parse recipe/i })).not.toBeInTheDocument();
+  });
+
   it("does not show Parse Ingredients button when contentStatus is completed", () => {
     const onParseRecipe = vi.fn();
     const recipe = createMockRecipe({ url: "https://example.com/recipe" });
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@tests/utils";
+import type { RecipeRevision } from "@/types";
+import { toast } from "sonner";
+
+const mockLoadRecipeRevisions = vi.fn();
+const mockRevertRecipeRevision = vi.fn();
+vi.mock("@/lib/recipeRevisions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/recipeRevisions")>()),
+  loadRecipeRevisions: (...args: unknown[]) => mockLoadRecipeRevisions(...args),
+  revertRecipeRevision: (...args: unknown[]) => mockRevertRecipeRevision(...args),
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {},
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import RecipeHistoryDialog from "@/components/recipes/RecipeHistoryDialog";
+
+const revision = (overrides: Partial<RecipeRevision>): RecipeRevision => ({
+  id: "rev-1",
+  recipeId: "recipe-1",
+  source: "edit",
+  ingredients: [],
+  content: null,
+  createdAt: "2026-03-20T12:00:00Z",
+  ...overrides,
+});
+
+const revisions: RecipeRevision[] = [
+  revision({
+    id: "rev-3",
+    source: "parse",
+    changedByName: "Alex",
+    createdAt: "2026-03-22T12:00:00Z",
+    ingredients: [
+      { name: "flour", quantity: 3, unit: "cup", category: "pantry" },
+      { name: "butter", quantity: 1, unit: "tbsp", category: "dairy" },
+    ],
+    content: { description: "Re-parsed" },
+  }),
+  revision({
+    id: "rev-2",
+    source: "edit",
+    changedByName: "Sam",
+    createdAt: "2026-03-21T12:00:00Z",
+    ingredients: [
+      { name: "flour", quantity: 2, unit: "cup", category: "pantry" },
+      { name: "sugar", quantity: 1, unit: "cup", category: "pantry" },
+    ],
+  }),
+  revision({
+    id: "rev-1",
+    source: "backfill",
+    createdAt: "2026-03-20T12:00:00Z",
+    ingredients: [{ name: "flour", quantity: 2, unit: "cup", category: "pantry" }],
+  }),
+];
+
+const renderDialog = (props: Partial<Parameters<typeof RecipeHistoryDialog>[0]> = {}) =>
+  render(
+    <RecipeHistoryDialog
+      recipeId="recipe-1"
+      recipeName="Pancakes"
+      open
+      onOpenChange={vi.fn()}
+      {...props}
+    />
+  );
+
+describe("RecipeHistoryDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoadRecipeRevisions.mockResolvedValue(revisions);
+    mockRevertRecipeRevision.mockResolvedValue(undefined);
+  });
+
+  it("shows a timeline of who changed the recipe", async () => {
+    renderDialog();
+
+    expect(await screen.findByText("Parsed by Alex")).toBeInTheDocument();
+    expect(screen.getByText("Edited by Sam")).toBeInTheDocument();
+    expect(screen.getByText("Saved")).toBeInTheDocument();
+    expect(screen.getByText("Current")).toBeInTheDocument();
+    expect(mockLoadRecipeRevisions).toHaveBeenCalledWith("recipe-1");
+  });
+
+  it("shows ingredient-level diffs against the previous revision", async () => {
+    renderDialog();
+
+    await screen.findByText("Parsed by Alex");
+    // rev-3 vs rev-2: flour changed, butter added, sugar removed, description changed
+    expect(screen.getByText("2 cup flour")).toBeInTheDocument();
+    expect(screen.getByText("3 cup flour")).toBeInTheDocument();
+    expect(screen.getByText("1 tbsp butter")).toBeInTheDocument();
+    expect(screen.getByText("Also changed description")).toBeInTheDocument();
+    // Sugar is removed in rev-3 and was added in rev-2
+    const sugar = screen.getAllByText("1 cup sugar");
+    expect(sugar).toHaveLength(2);
+    expect(sugar[0]).toHaveClass("line-through");
+    expect(sugar[1]).not.toHaveClass("line-through");
+    // Oldest revision shows a count
+    expect(screen.getByText(/1 ingredient \(before history was kept\)/)).toBeInTheDocument();
+  });
+
+  it("does not offer to revert to the current revision", async () => {
+    renderDialog();
+
+    await screen.findByText("Parsed by Alex");
+    expect(screen.getAllByRole("button", { name: /revert to version/i })).toHaveLength(2);
+  });
+
+  it("reverts to an older revision and reloads the timeline", async () => {
+    const onReverted = vi.fn();
+    renderDialog({ onReverted });
+
+    await screen.findByText("Edited by Sam");
+    fireEvent.click(screen.getAllByRole("button", { name: /revert to version/i })[0]);
+
+    await waitFor(() => {
+      expect(onReverted).toHaveBeenCalled();
+    });
+    expect(mockRevertRecipeRevision).toHaveBeenCalledWith("rev-2");
+    expect(mockLoadRecipeRevisions).toHaveBeenCalledTimes(2);
+    expect(toast.success).toHaveBeenCalledWith(expect.stringMatching(/^Reverted to the version from /));
+  });
+
+  it("shows an error when the revert fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockRevertRecipeRevision.mockRejectedValue(new Error("Revision not found"));
+    const onReverted = vi.fn();
+    renderDialog({ onReverted });
+
+    await screen.findByText("Edited by Sam");
+    fireEvent.click(screen.getAllByRole("button", { name: /revert to version/i })[0]);
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Failed to revert recipe");
+    });
+    expect(onReverted).not.toHaveBeenCalled();
+  });
+
+  it("shows an empty state when there is no history", async () => {
+    mockLoadRecipeRevisions.mockResolvedValue([]);
+    renderDialog();
+
+    expect(await screen.findByText("No changes recorded yet")).toBeInTheDocument();
+  });
+
+  it("doesn't load while closed", () => {
+    renderDialog({ open: false });
+
+    expect(mockLoadRecipeRevisions).not.toHaveBeenCalled();
+  });
+});
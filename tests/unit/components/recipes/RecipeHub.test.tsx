@@ -21,6 +21,30 @@ vi.mock("sonner", () => {
   return { toast: fn };
 });
 
+// Mock the parse job queue; queued jobs are followed but never finish
+const mockEnqueueRecipeParse = vi.fn((...args: unknown[]) => Promise.resolve({
+  id: "job-1",
+  recipeId: args[0],
+  status: "queued",
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: "2026-01-01T00:00:00Z",
+}));
+const mockSubscribeToParseJob = vi.fn<(...args: unknown[]) => () => void>(() => () => {});
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+  subscribeToParseJob: (...args: unknown[]) => mockSubscribeToParseJob(...args),
+}));
+
+// Have the next job subscription report the job finishing
+const finishNextParseJob = (status: "completed" | "failed", lastError?: string) => {
+  mockSubscribeToParseJob.mockImplementationOnce((...args: unknown[]) => {
+    const onChange = args[1] as (job: { id: string; status: string; lastError?: string }) => void;
+    Promise.resolve().then(() => onChange({ id: args[0] as string, status, lastError }));
+    return () => {};
+  });
+};
+
 // Mock PhotoUpload to allow testing photo addition
 vi.mock("@/components/recipes/PhotoUpload", () => ({
   default: ({ photos, onPhotosChange }: { photos: string[]; onPhotosChange: (p: string[]) => void }) => (
@@ -4062,8 +4086,9 @@ describe("RecipeHub - Parse Recipe", () => {
     mockFunctionsInvoke.mockResolvedValue({ data: null, error: null });
   });
 
-  it("triggers parse-recipe when Parse Ingredients button is clicked", async () => {
+  it("queues a parse when Parse Ingredients button is clicked", async () => {
     const { toast } = await import("sonner");
+    finishNextParseJob("completed");
 
     mockSupabaseFrom.mockImplementation((table: string) => {
       if (table === "recipes") return createMockQueryBuilder(clubRecipesData);
@@ -4083,20 +4108,42 @@ describe("RecipeHub - Parse Recipe", () => {
     fireEvent.click(screen.getByRole("button", { name: /parse ingredients/i }));
 
     await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", {
-        body: expect.objectContaining({
-          recipeId: "recipe-1",
-          recipeUrl: "https://example.com/salmon",
-          recipeName: "Grilled Salmon",
-        }),
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-1", {
+        recipeName: "Grilled Salmon",
+        recipeUrl: "https://example.com/salmon",
+        reparse: false,
       });
+      expect(mockSubscribeToParseJob).toHaveBeenCalledWith("job-1", expect.any(Function));
       expect(toast.success).toHaveBeenCalledWith("Recipe parsed!");
     });
   });
 
-  it("shows error toast when parse-recipe fails", async () => {
+  it("queues a parse that bypasses the parse cache when re-parsing", async () => {
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "recipes") return createMockQueryBuilder(clubRecipesData);
+      if (table === "recipe_content") {
+        return createMockQueryBuilder([{ id: "rc-1", recipe_id: "recipe-1", status: "completed" }]);
+      }
+      return createMockQueryBuilder([]);
+    });
+
+    render(<RecipeHub userId="user-123" isAdmin={true} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Re-parse recipe Grilled Salmon" })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Re-parse recipe Grilled Salmon" }));
+
+    await waitFor(() => {
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-1", expect.objectContaining({ reparse: true }));
+    });
+  });
+
+  it("shows error toast when the parse job fails", async () => {
     const { toast } = await import("sonner");
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "Parse failed" } });
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    finishNextParseJob("failed", "Could not extract any ingredients");
 
     mockSupabaseFrom.mockImplementation((table: string) => {
       if (table === "recipes") return createMockQueryBuilder(clubRecipesData);
@@ -4118,9 +4165,37 @@ describe("RecipeHub - Parse Recipe", () => {
     await waitFor(() => {
       expect(toast.error).toHaveBeenCalledWith("Failed to parse recipe");
     });
+    expect(consoleSpy).toHaveBeenCalledWith("Error parsing recipe:", "Could not extract any ingredients");
+    consoleSpy.mockRestore();
+  });
+
+  it("shows error toast when the parse can't be queued", async () => {
+    const { toast } = await import("sonner");
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockEnqueueRecipeParse.mockRejectedValueOnce(new Error("Insert failed"));
+
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "recipes") return createMockQueryBuilder(clubRecipesData);
+      return createMockQueryBuilder([]);
+    });
+
+    render(<RecipeHub userId="user-123" isAdmin={true} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: /parse ingredients/i })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: /parse ingredients/i }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Failed to parse recipe");
+    });
+    expect(consoleSpy).toHaveBeenCalledWith("Error queueing recipe parse:", expect.any(Error));
+    expect(mockSubscribeToParseJob).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
   });
 
-  it("does not call parse-recipe when recipe has no URL", async () => {
+  it("does not queue a parse when recipe has no URL", async () => {
     const noUrlRecipes = [
       { ...clubRecipesData[0], url: null },
     ];
@@ -4142,7 +4217,7 @@ describe("RecipeHub - Parse Recipe", () => {
 
     // No parse button should appear for recipe without URL
     expect(screen.queryByRole("button", { name: /parse ingredients/i })).not.toBeInTheDocument();
-    expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+    expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
   });
 
   it("shows inline ingredient list with Add form for personal recipe owner", async () => {
@@ -4397,7 +4472,30 @@ describe("RecipeHub - Add Recipe", () => {
     });
   });
 
-  it("inserts recipe and calls parse-recipe when URL is submitted", async () => {
+  it("opens the Import Recipes dialog from My Recipes", async () => {
+    render(<RecipeHub userId="user-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Grilled Salmon")).toBeInTheDocument();
+    });
+
+    expect(screen.queryByRole("button", { name: /^Import/ })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: /My Recipes/ }));
+
+    await waitFor(() => {
+      expect(screen.getAllByRole("button", { name: /^Import/ })).toHaveLength(2);
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Import Recipes" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("dialog")).toBeInTheDocument();
+      expect(screen.getByLabelText("Recipe files")).toBeInTheDocument();
+    });
+  });
+
+  it("inserts recipe and queues a parse job when URL is submitted", async () => {
     const newRecipeId = "new-recipe-abc";
     mockSupabaseFrom.mockImplementation((table: string) => {
       if (table === "recipes") {
@@ -4445,16 +4543,120 @@ describe("RecipeHub - Add Recipe", () => {
     fireEvent.click(submitBtn);
 
     await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith(
-        "parse-recipe",
-        expect.objectContaining({
-          body: expect.objectContaining({
-            recipeId: newRecipeId,
-            recipeName: "My New Recipe",
-            recipeUrl: "https://example.com/recipe",
-          }),
-        })
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(
+        newRecipeId,
+        expect.objectContaining({ recipeName: "My New Recipe", recipeUrl: "https://example.com/recipe" })
       );
     }, { timeout: 5000 });
   });
 });
+
+describe("RecipeHub - Dietary Preferences", () => {
+  const makeRecipe = (id: string, name: string) => ({
+    id,
+    name,
+    url: null,
+    event_id: "event-1",
+    ingredient_id: "ing-1",
+    created_by: "user-123",
+    created_at: "2025-01-15T10:00:00Z",
+    ingredients: { name: "Lemon" },
+    profiles: { name: "Test User", avatar_url: null },
+    scheduled_events: { type: "club" },
+  });
+
+  const clubRecipesData = [
+    makeRecipe("recipe-1", "Lemon Chicken"),
+    makeRecipe("recipe-2", "Lemon Pasta"),
+    makeRecipe("recipe-3", "Lemon Bars"),
+  ];
+
+  const makeIngredient = (recipeId: string, name: string) => ({
+    id: `${recipeId}-${name}`,
+    recipe_id: recipeId,
+    name,
+    quantity: null,
+    unit: null,
+    category: "other",
+    raw_text: null,
+    sort_order: 0,
+    created_at: null,
+  });
+
+  const ingredientsData = [
+    makeIngredient("recipe-1", "chicken thighs"),
+    makeIngredient("recipe-1", "cilantro"),
+    makeIngredient("recipe-2", "spaghetti"),
+    makeIngredient("recipe-2", "lemon"),
+  ];
+
+  const contentData = [
+    { id: "rc-1", recipe_id: "recipe-1", status: "completed", total_time: "1 hr 30 mins" },
+    { id: "rc-2", recipe_id: "recipe-2", status: "completed", prep_time: "10 min", cook_time: "15 min" },
+  ];
+
+  const setupMocks = (prefs: Record<string, unknown>) => {
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      if (table === "recipes") return createMockQueryBuilder(clubRecipesData);
+      if (table === "recipe_ingredients") return createMockQueryBuilder(ingredientsData);
+      if (table === "recipe_content") return createMockQueryBuilder(contentData);
+      if (table === "user_preferences") return createMockQueryBuilder([prefs]);
+      return createMockQueryBuilder([]);
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("filters to recipes that fit the user's diet", async () => {
+    setupMocks({ dietary_restrictions: ["vegetarian"] });
+    render(<RecipeHub userId="user-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Fits my diet" })).toBeInTheDocument();
+    });
+    expect(screen.getByText("Lemon Chicken")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Fits my diet" }));
+
+    expect(screen.queryByText("Lemon Chicken")).not.toBeInTheDocument();
+    // No parsed ingredients, so it can't be verified
+    expect(screen.queryByText("Lemon Bars")).not.toBeInTheDocument();
+    expect(screen.getByText("Lemon Pasta")).toBeInTheDocument();
+  });
+
+  it("hides the diet filter when no restrictions are set", async () => {
+    setupMocks({});
+    render(<RecipeHub userId="user-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Under 60 min" })).toBeInTheDocument();
+    });
+    expect(screen.queryByRole("button", { name: "Fits my diet" })).not.toBeInTheDocument();
+  });
+
+  it("filters to recipes under the max cook time", async () => {
+    setupMocks({ max_cook_time_minutes: 30 });
+    render(<RecipeHub userId="user-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Under 30 min" })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Under 30 min" }));
+
+    expect(screen.queryByText("Lemon Chicken")).not.toBeInTheDocument();
+    expect(screen.queryByText("Lemon Bars")).not.toBeInTheDocument();
+    expect(screen.getByText("Lemon Pasta")).toBeInTheDocument();
+  });
+
+  it("shows a badge for disliked ingredients", async () => {
+    setupMocks({ disliked_ingredients: ["cilantro"] });
+    render(<RecipeHub userId="user-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Contains cilantro")).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@tests/utils";
+import type { ImportedRecipe } from "@/types";
+import { toast } from "sonner";
+
+const mockReadImportFile = vi.fn();
+const mockLoadExistingRecipes = vi.fn();
+const mockImportRecipes = vi.fn();
+vi.mock("@/lib/recipeImport", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/recipeImport")>()),
+  readImportFile: (...args: unknown[]) => mockReadImportFile(...args),
+  loadExistingRecipes: (...args: unknown[]) => mockLoadExistingRecipes(...args),
+  importRecipes: (...args: unknown[]) => mockImportRecipes(...args),
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {},
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+import RecipeImportDialog from "@/components/recipes/RecipeImportDialog";
+import { RecipeImportError } from "@/lib/recipeImport";
+
+const recipe = (overrides: Partial<ImportedRecipe>): ImportedRecipe => ({
+  name: "Tacos",
+  format: "paprika",
+  instructions: ["Warm the tortillas.", "Fill them."],
+  ingredients: [
+    { name: "tortillas", quantity: 8, category: "bakery" },
+    { name: "beans", quantity: 1, unit: "can", category: "pantry" },
+  ],
+  ...overrides,
+});
+
+const chili = recipe({ name: "Chili", instructions: ["Simmer."], ingredients: [{ name: "beef", category: "meat_seafood" }] });
+const tacos = recipe({});
+const linked = recipe({ name: "Linked Soup", format: "jsonld", url: "https://example.com/soup", instructions: [], ingredients: [] });
+const empty = recipe({ name: "Blank", format: "cooklang", instructions: [], ingredients: [] });
+
+const renderDialog = (props: Partial<Parameters<typeof RecipeImportDialog>[0]> = {}) =>
+  render(
+    <RecipeImportDialog userId="user-1" open onOpenChange={vi.fn()} onImported={vi.fn()} {...props} />
+  );
+
+const chooseFiles = (...names: string[]) => {
+  fireEvent.change(screen.getByLabelText("Recipe files"), {
+    target: { files: names.map((name) => new File(["x"], name)) },
+  });
+};
+
+describe("RecipeImportDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadImportFile.mockResolvedValue([chili, tacos]);
+    mockLoadExistingRecipes.mockResolvedValue([]);
+    mockImportRecipes.mockResolvedValue({ imported: 2, failed: [] });
+  });
+
+  it("accepts the supported file types", () => {
+    renderDialog();
+
+    const input = screen.getByLabelText("Recipe files");
+    expect(input).toHaveAttribute("accept", expect.stringContaining(".paprikarecipes"));
+    expect(input).toHaveAttribute("accept", expect.stringContaining(".cook"));
+    expect(screen.getByRole("button", { name: "Import 0 recipes" })).toBeDisabled();
+  });
+
+  it("opens the file picker", () => {
+    renderDialog();
+    const clickSpy = vi.spyOn(screen.getByLabelText("Recipe files"), "click");
+
+    fireEvent.click(screen.getByRole("button", { name: /Choose files/ }));
+
+    expect(clickSpy).toHaveBeenCalled();
+  });
+
+  it("previews the recipes in the chosen files", async () => {
+    mockReadImportFile.mockResolvedValueOnce([chili, tacos]).mockResolvedValueOnce([linked, empty]);
+    renderDialog();
+
+    chooseFiles("export.paprikarecipes", "more.json");
+
+    expect(await screen.findByText("Linked Soup")).toBeInTheDocument();
+    expect(screen.getByText("1 ingredient · 1 step")).toBeInTheDocument();
+    expect(screen.getByText("2 ingredients · 2 steps")).toBeInTheDocument();
+    expect(screen.getByText("Link only, will be parsed")).toBeInTheDocument();
+    expect(screen.getByText("No ingredients or steps")).toBeInTheDocument();
+    expect(screen.getAllByText("Paprika")).toHaveLength(2);
+    expect(screen.getByText("Cooklang")).toBeInTheDocument();
+    expect(screen.getByText("4 of 4 selected")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Choose different files/ })).toBeInTheDocument();
+    expect(mockLoadExistingRecipes).toHaveBeenCalledWith("user-1");
+  });
+
+  it("flags duplicates and leaves them unselected", async () => {
+    mockLoadExistingRecipes.mockResolvedValue([{ name: "chili", url: null }]);
+    mockReadImportFile.mockResolvedValue([chili, tacos, recipe({ name: "TACOS" })]);
+    renderDialog();
+
+    chooseFiles("export.paprikarecipes");
+
+    expect(await screen.findByText("Already in My Recipes")).toBeInTheDocument();
+    expect(screen.getByText("Duplicate in file")).toBeInTheDocument();
+    expect(screen.getByLabelText("Import Chili")).not.toBeChecked();
+    expect(screen.getByLabelText("Import Tacos")).toBeChecked();
+    expect(screen.getByLabelText("Import TACOS")).not.toBeChecked();
+    expect(screen.getByText("1 of 3 selected")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Import 1 recipe" })).toBeEnabled();
+  });
+
+  it("lists files that couldn't be read", async () => {
+    mockReadImportFile
+      .mockRejectedValueOnce(new RecipeImportError("Unsupported file type"))
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce([tacos]);
+    renderDialog();
+
+    chooseFiles("notes.pdf", "weird.json", "tacos.cook");
+
+    expect(await screen.findByText("Some files couldn't be imported")).toBeInTheDocument();
+    expect(screen.getByText("notes.pdf: Unsupported file type")).toBeInTheDocument();
+    expect(screen.getByText("weird.json: This file couldn't be read")).toBeInTheDocument();
+    expect(screen.getByText("Tacos")).toBeInTheDocument();
+  });
+
+  it("skips the duplicate check when nothing was read", async () => {
+    mockReadImportFile.mockRejectedValue(new RecipeImportError("No recipes found"));
+    renderDialog();
+
+    chooseFiles("empty.json");
+
+    expect(await screen.findByText("empty.json: No recipes found")).toBeInTheDocument();
+    expect(mockLoadExistingRecipes).not.toHaveBeenCalled();
+  });
+
+  it("ignores an empty selection", () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText("Recipe files"), { target: { files: [] } });
+
+    expect(mockReadImportFile).not.toHaveBeenCalled();
+  });
+
+  it("toggles single rows and all rows", async () => {
+    renderDialog();
+    chooseFiles("export.paprikarecipes");
+    await screen.findByText("Chili");
+
+    fireEvent.click(screen.getByLabelText("Import Chili"));
+    expect(screen.getByText("1 of 2 selected")).toBeInTheDocument();
+    expect(screen.getByLabelText("Select all recipes")).not.toBeChecked();
+
+    fireEvent.click(screen.getByLabelText("Select all recipes"));
+    expect(screen.getByText("2 of 2 selected")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Select all recipes"));
+    expect(screen.getByText("0 of 2 selected")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Import 0 recipes" })).toBeDisabled();
+  });
+
+  it("imports the selected recipes", async () => {
+    const onOpenChange = vi.fn();
+    const onImported = vi.fn();
+    let finish: (result: { imported: number; failed: string[] }) => void = () => {};
+    mockImportRecipes.mockImplementation((_recipes, onProgress: (done: number, total: number) => void) => {
+      onProgress(1, 1);
+      return new Promise((resolve) => {
+        finish = resolve;
+      });
+    });
+    renderDialog({ onOpenChange, onImported });
+    chooseFiles("export.paprikarecipes");
+    await screen.findByText("Chili");
+    fireEvent.click(screen.getByLabelText("Import Chili"));
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 recipe" }));
+
+    expect(await screen.findByText("Importing 1 of 1...")).toBeInTheDocument();
+    expect(mockImportRecipes).toHaveBeenCalledWith([tacos], expect.any(Function));
+    expect(screen.getByRole("button", { name: "Cancel" })).toBeDisabled();
+
+    finish({ imported: 1, failed: [] });
+
+    await waitFor(() => {
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+    });
+    expect(toast.success).toHaveBeenCalledWith("Imported 1 recipe");
+    expect(toast.error).not.toHaveBeenCalled();
+    expect(onImported).toHaveBeenCalled();
+  });
+
+  it("reports recipes that failed to import", async () => {
+    mockImportRecipes.mockResolvedValue({ imported: 0, failed: ["Chili", "Tacos"] });
+    const onImported = vi.fn();
+    renderDialog({ onImported });
+    chooseFiles("export.paprikarecipes");
+    await screen.findByText("Chili");
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 2 recipes" }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith("Couldn't import Chili, Tacos");
+    });
+    expect(toast.success).not.toHaveBeenCalled();
+    expect(onImported).not.toHaveBeenCalled();
+  });
+
+  it("clears the preview when cancelled", async () => {
+    const onOpenChange = vi.fn();
+    const { rerender } = renderDialog({ onOpenChange });
+    chooseFiles("export.paprikarecipes");
+    await screen.findByText("Chili");
+
+    fireEvent.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+    rerender(<RecipeImportDialog userId="user-1" open onOpenChange={onOpenChange} onImported={vi.fn()} />);
+    expect(screen.queryByText("Chili")).not.toBeInTheDocument();
+  });
+
+  it("can't be closed mid-import", async () => {
+    const onOpenChange = vi.fn();
+    mockImportRecipes.mockReturnValue(new Promise(() => {}));
+    renderDialog({ onOpenChange });
+    chooseFiles("export.paprikarecipes");
+    await screen.findByText("Chili");
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 2 recipes" }));
+    await screen.findByText("Importing 0 of 2...");
+    fireEvent.keyDown(document.activeElement ?? document.body, { key: "Escape" });
+
+    expect(onOpenChange).not.toHaveBeenCalled();
+  });
+});
@@ -323,4 +323,29 @@ describe("RecipeIngredientList", () => {
       expect(mockDeleteGroceryCache).toHaveBeenCalledWith("event", "event-1", "user-1");
     });
   });
+
+  it("scales displayed quantities with the multiplier", async () => {
+    render(<RecipeIngredientList recipeId="recipe-1" userId="user-1" servings="Serves 4" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("2 cups flour")).toBeInTheDocument();
+    });
+    expect(screen.getByText("Serves 4")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Scale ingredients 0.5x"));
+
+    expect(screen.getByText("1 cups flour")).toBeInTheDocument();
+    expect(screen.getByText("Serves 2")).toBeInTheDocument();
+    expect(screen.getByLabelText("Scale ingredients 0.5x")).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("shows a generic scale label when servings are unknown", async () => {
+    render(<RecipeIngredientList recipeId="recipe-1" userId="user-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Scale")).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByLabelText("Scale ingredients 3x"));
+    expect(screen.getByText("9 eggs")).toBeInTheDocument();
+  });
 });
@@ -4,6 +4,7 @@ import RecipeInputForm, {
   createInitialFormData,
   canSubmitRecipeForm,
   buildIngredientPayload,
+  getRecipeSourceFiles,
   type RecipeFormData,
 } from "@/components/recipes/RecipeInputForm";
 import { createBlankRow, type IngredientRow } from "@/components/recipes/ingredientRowTypes";
@@ -35,7 +36,7 @@ vi.mock("uuid", () => ({
 }));
 
 // Mock upload utility
-const { FileValidationError, mockUploadRecipeFile } = vi.hoisted(() => {
+const { FileValidationError, mockUploadRecipeFiles } = vi.hoisted(() => {
   class FileValidationError extends Error {
     constructor(message: string) {
       super(message);
@@ -44,13 +45,14 @@ const { FileValidationError, mockUploadRecipeFile } = vi.hoisted(() => {
   }
   return {
     FileValidationError,
-    mockUploadRecipeFile: vi.fn(),
+    mockUploadRecipeFiles: vi.fn(),
   };
 });
 
 vi.mock("@/lib/upload", () => ({
-  uploadRecipeFile: (...args: unknown[]) => mockUploadRecipeFile(...args),
+  uploadRecipeFiles: (...args: unknown[]) => mockUploadRecipeFiles(...args),
   FileValidationError,
+  MAX_RECIPE_FILES: 3,
 }));
 
 describe("RecipeInputForm", () => {
@@ -184,6 +186,29 @@ describe("RecipeInputForm - Mode Switching", () => {
     );
   });
 
+  it("clears uploaded files and the typed URL when switching modes", () => {
+    const data: RecipeFormData = { ...createInitialFormData(), url: "https://example.com" };
+    const { rerender } = render(
+      <RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />
+    );
+
+    fireEvent.click(screen.getByText("Upload"));
+    expect(onFormDataChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ inputMode: "upload", url: "" })
+    );
+
+    rerender(
+      <RecipeInputForm
+        formData={{ ...data, inputMode: "upload", files: ["https://s.example.com/1.jpg"], url: "https://s.example.com/1.jpg" }}
+        onFormDataChange={onFormDataChange}
+      />
+    );
+    fireEvent.click(screen.getByText("URL"));
+    expect(onFormDataChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ inputMode: "url", files: [] })
+    );
+  });
+
   it("switches to manual mode and clears URL", () => {
     const data: RecipeFormData = { ...createInitialFormData(), url: "https://example.com" };
     render(
@@ -265,7 +290,7 @@ describe("RecipeInputForm - File Upload", () => {
   });
 
   it("uploads a file and updates URL and auto-fills name", async () => {
-    mockUploadRecipeFile.mockResolvedValue("https://storage.example.com/recipe.jpg");
+    mockUploadRecipeFiles.mockResolvedValue(["https://storage.example.com/recipe.jpg"]);
     const data: RecipeFormData = { ...createInitialFormData(), inputMode: "upload" };
 
     render(
@@ -282,7 +307,7 @@ describe("RecipeInputForm - File Upload", () => {
     fireEvent.change(fileInput, { target: { files: [file] } });
 
     await waitFor(() => {
-      expect(mockUploadRecipeFile).toHaveBeenCalledWith(file);
+      expect(mockUploadRecipeFiles).toHaveBeenCalledWith([file]);
       expect(toast.success).toHaveBeenCalledWith("File uploaded!");
     });
 
@@ -290,6 +315,7 @@ describe("RecipeInputForm - File Upload", () => {
     expect(onFormDataChange).toHaveBeenCalledWith(
       expect.objectContaining({
         url: "https://storage.example.com/recipe.jpg",
+        files: ["https://storage.example.com/recipe.jpg"],
         name: "my pasta recipe",
       })
     );
@@ -297,7 +323,7 @@ describe("RecipeInputForm - File Upload", () => {
   });
 
   it("does not auto-fill name when name already exists", async () => {
-    mockUploadRecipeFile.mockResolvedValue("https://storage.example.com/recipe.jpg");
+    mockUploadRecipeFiles.mockResolvedValue(["https://storage.example.com/recipe.jpg"]);
     const data: RecipeFormData = { ...createInitialFormData(), inputMode: "upload", name: "Existing" };
 
     render(
@@ -323,7 +349,7 @@ describe("RecipeInputForm - File Upload", () => {
   });
 
   it("shows error toast on FileValidationError", async () => {
-    mockUploadRecipeFile.mockRejectedValue(new FileValidationError("File too large"));
+    mockUploadRecipeFiles.mockRejectedValue(new FileValidationError("File too large"));
     const data: RecipeFormData = { ...createInitialFormData(), inputMode: "upload" };
 
     render(
@@ -345,7 +371,7 @@ describe("RecipeInputForm - File Upload", () => {
   });
 
   it("shows generic error toast on unknown upload error", async () => {
-    mockUploadRecipeFile.mockRejectedValue(new Error("Network error"));
+    mockUploadRecipeFiles.mockRejectedValue(new Error("Network error"));
     const data: RecipeFormData = { ...createInitialFormData(), inputMode: "upload" };
 
     render(
@@ -379,24 +405,113 @@ describe("RecipeInputForm - File Upload", () => {
     const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
     fireEvent.change(fileInput, { target: { files: [] } });
 
-    expect(mockUploadRecipeFile).not.toHaveBeenCalled();
+    expect(mockUploadRecipeFiles).not.toHaveBeenCalled();
   });
 
-  it("renders read-only URL input in upload mode", () => {
-    const data: RecipeFormData = { ...createInitialFormData(), inputMode: "upload" };
+  it("appends pages in order and names the recipe after the first", async () => {
+    mockUploadRecipeFiles.mockResolvedValue(["https://storage.example.com/2.jpg", "https://storage.example.com/3.jpg"]);
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "upload",
+      files: ["https://storage.example.com/1.jpg"],
+      url: "https://storage.example.com/1.jpg",
+    };
 
-    render(
-      <RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />
+    render(<RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />);
+
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    expect(fileInput).toHaveAttribute("multiple");
+    const files = [
+      new File(["a"], "page_two.jpg", { type: "image/jpeg" }),
+      new File(["b"], "page-three.jpg", { type: "image/jpeg" }),
+    ];
+    fireEvent.change(fileInput, { target: { files } });
+
+    await waitFor(() => {
+      expect(toast.success).toHaveBeenCalledWith("2 files uploaded!");
+    });
+    expect(mockUploadRecipeFiles).toHaveBeenCalledWith(files);
+    expect(onFormDataChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://storage.example.com/1.jpg",
+        files: ["https://storage.example.com/1.jpg", "https://storage.example.com/2.jpg", "https://storage.example.com/3.jpg"],
+        name: "page two",
+      })
+    );
+  });
+
+  it("rejects selections past the file limit without uploading", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "upload",
+      files: ["https://storage.example.com/1.jpg", "https://storage.example.com/2.jpg"],
+    };
+
+    render(<RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />);
+
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(fileInput, {
+      target: { files: [new File(["a"], "a.jpg", { type: "image/jpeg" }), new File(["b"], "b.jpg", { type: "image/jpeg" })] },
+    });
+
+    expect(toast.error).toHaveBeenCalledWith("A recipe can have at most 3 files");
+    expect(mockUploadRecipeFiles).not.toHaveBeenCalled();
+  });
+
+  it("lists uploaded pages and reorders them", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "upload",
+      files: ["https://storage.example.com/1.jpg", "https://storage.example.com/2.pdf"],
+      url: "https://storage.example.com/1.jpg",
+    };
+
+    render(<RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />);
+
+    expect(screen.getByText("Page 1")).toBeInTheDocument();
+    expect(screen.getByText("Page 2")).toBeInTheDocument();
+    expect(screen.getByLabelText("Move page 1 up")).toBeDisabled();
+    expect(screen.getByLabelText("Move page 2 down")).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Upload photo or PDF" })).toHaveTextContent("Add pages");
+
+    fireEvent.click(screen.getByLabelText("Move page 2 up"));
+    expect(onFormDataChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        files: ["https://storage.example.com/2.pdf", "https://storage.example.com/1.jpg"],
+        url: "https://storage.example.com/2.pdf",
+      })
+    );
+
+    fireEvent.click(screen.getByLabelText("Move page 1 down"));
+    expect(onFormDataChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ files: ["https://storage.example.com/2.pdf", "https://storage.example.com/1.jpg"] })
     );
+  });
+
+  it("removes a page", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "upload",
+      files: ["https://storage.example.com/1.jpg"],
+      url: "https://storage.example.com/1.jpg",
+    };
 
-    const urlInput = document.querySelector('input[type="url"]') as HTMLInputElement;
-    expect(urlInput).toHaveAttribute("readonly");
+    render(<RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />);
+    fireEvent.click(screen.getByLabelText("Remove page 1"));
+
+    expect(onFormDataChange).toHaveBeenCalledWith(expect.objectContaining({ files: [], url: "" }));
+  });
+
+  it("hides the upload button at the file limit", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "upload",
+      files: ["https://s.example.com/1.jpg", "https://s.example.com/2.jpg", "https://s.example.com/3.jpg"],
+    };
 
-    // Cover the onChange handler on the read-only URL input
-    fireEvent.change(urlInput, { target: { value: "test" } });
+    render(<RecipeInputForm formData={data} onFormDataChange={onFormDataChange} />);
 
-    // Click upload button to trigger fileInputRef
-    fireEvent.click(screen.getByLabelText("Upload photo or PDF"));
+    expect(screen.queryByLabelText("Upload photo or PDF")).not.toBeInTheDocument();
   });
 
   it("shows uploading state when isUploading is true", () => {
@@ -415,6 +530,67 @@ describe("RecipeInputForm - File Upload", () => {
   });
 });
 
+describe("RecipeInputForm - Club Dietary Restrictions", () => {
+  const onFormDataChange = vi.fn();
+  const members = [
+    { userId: "u-1", name: "Alex", restrictions: ["vegetarian"] },
+    { userId: "u-2", name: "Sam", restrictions: ["nut_free", "dairy_free"] },
+  ];
+
+  it("lists member restrictions when nothing can be checked yet", () => {
+    render(
+      <RecipeInputForm
+        formData={createInitialFormData()}
+        onFormDataChange={onFormDataChange}
+        memberRestrictions={members}
+      />
+    );
+
+    expect(screen.getByText("Club dietary restrictions")).toBeInTheDocument();
+    expect(screen.getByText("Alex: vegetarian")).toBeInTheDocument();
+    expect(screen.getByText("Sam: nut-free, dairy-free")).toBeInTheDocument();
+  });
+
+  it("flags pasted ingredients that conflict", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "manual",
+      pasteText: "2 chicken breasts\n1/4 cup toasted pecans, 1 lemon",
+    };
+    render(
+      <RecipeInputForm
+        formData={data}
+        onFormDataChange={onFormDataChange}
+        manualPasteOnly
+        memberRestrictions={members}
+      />
+    );
+
+    expect(screen.getByText("Conflicts with club dietary restrictions")).toBeInTheDocument();
+    expect(screen.getByText("Alex (vegetarian): 2 chicken breasts")).toBeInTheDocument();
+    expect(screen.getByText("Sam (nut-free): 1/4 cup toasted pecans")).toBeInTheDocument();
+  });
+
+  it("checks manually entered ingredient rows", () => {
+    const data: RecipeFormData = {
+      ...createInitialFormData(),
+      inputMode: "manual",
+      ingredientRows: [{ ...createBlankRow(), name: "heavy cream" }],
+    };
+    render(
+      <RecipeInputForm formData={data} onFormDataChange={onFormDataChange} memberRestrictions={members} />
+    );
+
+    expect(screen.getByText("Sam (dairy-free): heavy cream")).toBeInTheDocument();
+  });
+
+  it("renders nothing without member restrictions", () => {
+    render(<RecipeInputForm formData={createInitialFormData()} onFormDataChange={onFormDataChange} />);
+
+    expect(screen.queryByText("Club dietary restrictions")).not.toBeInTheDocument();
+  });
+});
+
 describe("createInitialFormData", () => {
   it("returns default form data", () => {
     const data = createInitialFormData();
@@ -583,3 +759,15 @@ describe("buildIngredientPayload", () => {
     expect(payload[0].unit).toBe("lb");
   });
 });
+
+describe("getRecipeSourceFiles", () => {
+  it("returns the uploaded files in upload mode", () => {
+    const files = ["https://s.example.com/1.jpg", "https://s.example.com/2.jpg"];
+    expect(getRecipeSourceFiles({ ...createInitialFormData(), inputMode: "upload", files })).toEqual(files);
+  });
+
+  it("returns null without uploads", () => {
+    expect(getRecipeSourceFiles({ ...createInitialFormData(), inputMode: "upload" })).toBeNull();
+    expect(getRecipeSourceFiles({ ...createInitialFormData(), files: ["https://s.example.com/1.jpg"] })).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@tests/utils";
+import type { RecipeNutrition } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {},
+}));
+
+import RecipeNutritionSummary from "@/components/recipes/RecipeNutritionSummary";
+
+describe("RecipeNutritionSummary", () => {
+  const nutrition = (overrides: Partial<RecipeNutrition> = {}): RecipeNutrition => ({
+    total: { calories: 2400, protein: 120, carbs: 280, fat: 90, fiber: 24, sodium: 3600 },
+    perServing: { calories: 600, protein: 30, carbs: 70, fat: 22.5, fiber: 6, sodium: 900 },
+    servings: 4,
+    countedCount: 8,
+    uncounted: [],
+    ...overrides,
+  });
+
+  it("shows per-serving values and the whole-recipe calories", () => {
+    render(<RecipeNutritionSummary nutrition={nutrition()} />);
+
+    expect(screen.getByText("Nutrition estimate")).toBeInTheDocument();
+    expect(screen.getByText("Per serving · serves 4")).toBeInTheDocument();
+    expect(screen.getByText("Calories").nextSibling).toHaveTextContent("600");
+    expect(screen.getByText("Protein").nextSibling).toHaveTextContent("30 g");
+    expect(screen.getByText("Fat").nextSibling).toHaveTextContent("23 g");
+    expect(screen.getByText("Sodium").nextSibling).toHaveTextContent("900 mg");
+    expect(screen.getByText("Whole recipe: 2,400 calories")).toBeInTheDocument();
+    expect(screen.queryByText(/Not counted/)).not.toBeInTheDocument();
+  });
+
+  it("shows whole-recipe values when servings are unknown", () => {
+    render(<RecipeNutritionSummary nutrition={nutrition({ perServing: undefined, servings: undefined })} />);
+
+    expect(screen.getByText("Whole recipe · servings unknown")).toBeInTheDocument();
+    expect(screen.getByText("Calories").nextSibling).toHaveTextContent("2,400");
+    expect(screen.queryByText(/Whole recipe:/)).not.toBeInTheDocument();
+  });
+
+  it("lists ingredients left out of the estimate with the reason", () => {
+    render(
+      <RecipeNutritionSummary
+        nutrition={nutrition({
+          uncounted: [
+            { name: "saffron", reason: "unknown" },
+            { name: "salt", reason: "no_amount" },
+            { name: "olive oil", reason: "unit" },
+          ],
+        })}
+      />
+    );
+
+    expect(
+      screen.getByText(
+        "Not counted: saffron (no nutrition data), salt (no amount), olive oil (unit can't be weighed)"
+      )
+    ).toBeInTheDocument();
+  });
+
+  it("says there's nothing to estimate when no ingredients were recognized", () => {
+    render(
+      <RecipeNutritionSummary
+        nutrition={nutrition({ countedCount: 0, uncounted: [{ name: "saffron", reason: "unknown" }] })}
+      />
+    );
+
+    expect(screen.getByText("Not enough recognized ingredients to estimate nutrition.")).toBeInTheDocument();
+    expect(screen.queryByText("Nutrition estimate")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@tests/utils";
+import RecipeSourceGallery from "@/components/recipes/RecipeSourceGallery";
+
+const files = [
+  "https://storage.example.com/recipe-images/page-1.jpg",
+  "https://storage.example.com/recipe-images/page-2.jpg",
+  "https://storage.example.com/recipe-images/method.pdf",
+];
+
+describe("RecipeSourceGallery", () => {
+  it("renders nothing without files", () => {
+    const { container } = render(<RecipeSourceGallery files={[]} recipeName="Pancakes" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows a numbered thumbnail per page in order", () => {
+    render(<RecipeSourceGallery files={files} recipeName="Pancakes" />);
+
+    const thumbnails = screen.getAllByRole("button", { name: /view page/i });
+    expect(thumbnails.map((t) => t.getAttribute("aria-label"))).toEqual([
+      "View page 1 of 3",
+      "View page 2 of 3",
+      "View page 3 of 3",
+    ]);
+    expect(thumbnails[0].querySelector("img")).toHaveAttribute("src", files[0]);
+    expect(thumbnails[2]).toHaveTextContent("PDF");
+  });
+
+  it("opens a page and steps through the rest", () => {
+    render(<RecipeSourceGallery files={files} recipeName="Pancakes" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "View page 1 of 3" }));
+
+    expect(screen.getByText("Page 1 of 3")).toBeInTheDocument();
+    expect(screen.getByAltText("Pancakes, page 1")).toHaveAttribute("src", files[0]);
+    expect(screen.getByRole("button", { name: /previous/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: /next/i }));
+    expect(screen.getByAltText("Pancakes, page 2")).toHaveAttribute("src", files[1]);
+
+    fireEvent.click(screen.getByRole("button", { name: /next/i }));
+    expect(screen.getByText("Page 3 of 3")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: /open pdf/i })).toHaveAttribute("href", files[2]);
+    expect(screen.getByRole("button", { name: /next/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: /previous/i }));
+    expect(screen.getByText("Page 2 of 3")).toBeInTheDocument();
+  });
+
+  it("hides paging for a single file and closes", () => {
+    render(<RecipeSourceGallery files={[files[0]]} recipeName="Pancakes" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "View page 1 of 1" }));
+    expect(screen.queryByRole("button", { name: /next/i })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: /close/i }));
+    expect(screen.queryByText("Page 1 of 1")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@tests/utils";
+import ThumbnailImage from "@/components/recipes/ThumbnailImage";
+
+const photo = "https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/dish.webp";
+const thumbnail = "https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/thumbs/dish.webp";
+
+describe("ThumbnailImage", () => {
+  it("loads the thumbnail of an uploaded photo lazily", () => {
+    render(<ThumbnailImage src={photo} alt="Dish" />);
+
+    const image = screen.getByAltText("Dish");
+    expect(image).toHaveAttribute("src", thumbnail);
+    expect(image).toHaveAttribute("loading", "lazy");
+  });
+
+  it("falls back to the full photo when there is no thumbnail", () => {
+    render(<ThumbnailImage src={photo} alt="Dish" />);
+
+    fireEvent.error(screen.getByAltText("Dish"));
+
+    expect(screen.getByAltText("Dish")).toHaveAttribute("src", photo);
+  });
+
+  it("shows images hosted elsewhere as they are", () => {
+    render(<ThumbnailImage src="https://example.com/dish.jpg" alt="Dish" />);
+
+    expect(screen.getByAltText("Dish")).toHaveAttribute("src", "https://example.com/dish.jpg");
+  });
+});
@@ -1,17 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, fireEvent } from "@tests/utils";
+import { render, screen, fireEvent, waitFor, within } from "@tests/utils";
 import { createMockIngredient, createMockEvent } from "@tests/utils";
 import IngredientWheel from "@/components/wheel/IngredientWheel";
 import type { Ingredient } from "@/types";
-import { MIN_INGREDIENTS_TO_SPIN } from "@/lib/constants";
+import { MIN_INGREDIENTS_TO_SPIN, SPIN_COOLDOWN_EVENTS } from "@/lib/constants";
 
 // Mock Supabase
+const mockRecentEventsLimit = vi.fn();
 vi.mock("@/integrations/supabase/client", () => ({
   supabase: {
     from: () => ({
       insert: vi.fn().mockResolvedValue({ error: null }),
       update: vi.fn().mockReturnThis(),
       eq: vi.fn().mockResolvedValue({ error: null }),
+      // Recent events query used by cooldown mode
+      select: () => ({
+        eq: () => ({
+          neq: () => ({
+            order: () => ({ limit: (...args: unknown[]) => mockRecentEventsLimit(...args) }),
+          }),
+        }),
+      }),
     }),
   },
 }));
@@ -500,6 +509,97 @@ describe("IngredientWheel - Event Creation", () => {
     expect(screen.getByText("In Bank")).toBeInTheDocument();
     expect(screen.queryByText("Out of Bank")).not.toBeInTheDocument();
   });
+
+});
+
+describe("IngredientWheel - Spin Modes", () => {
+  const mockOnEventCreated = vi.fn();
+  const mockUserId = "user-123";
+
+  const createIngredientsForWheel = (count: number): Ingredient[] =>
+    Array.from({ length: count }, (_, i) =>
+      createMockIngredient({ id: `ingredient-${i}`, name: `Ingredient ${i}`, inBank: true, usedCount: 0 })
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderWheel = (ingredients = createIngredientsForWheel(10)) =>
+    render(
+      <IngredientWheel
+        ingredients={ingredients}
+        onEventCreated={mockOnEventCreated}
+        userId={mockUserId}
+      />
+    );
+
+  it("defaults to uniform mode with equal odds", () => {
+    renderWheel();
+
+    expect(screen.getByRole("button", { name: "Uniform" })).toHaveAttribute("aria-pressed", "true");
+    fireEvent.click(screen.getByText("Show odds"));
+
+    const odds = within(screen.getByRole("list", { name: "Odds" })).getAllByText("10.0%");
+    expect(odds).toHaveLength(10);
+  });
+
+  it("favors rarely used ingredients in weighted mode", () => {
+    const ingredients = [
+      createMockIngredient({ id: "a", name: "Never Used", inBank: true, usedCount: 0 }),
+      createMockIngredient({ id: "b", name: "Used Thrice", inBank: true, usedCount: 3 }),
+      ...Array.from({ length: 8 }, (_, i) =>
+        createMockIngredient({ id: `x-${i}`, name: `Other ${i}`, inBank: true, usedCount: 1 })
+      ),
+    ];
+    renderWheel(ingredients);
+
+    fireEvent.click(screen.getByRole("button", { name: "Weighted" }));
+    fireEvent.click(screen.getByText("Show odds"));
+
+    // Weights: 1 + 0.25 + 8 * 0.5 = 5.25
+    const odds = within(screen.getByRole("list", { name: "Odds" }));
+    expect(odds.getByText("Never Used").nextSibling).toHaveTextContent("19.0%");
+    expect(odds.getByText("Used Thrice").nextSibling).toHaveTextContent("4.8%");
+  });
+
+  it("excludes ingredients from recent events in cooldown mode", async () => {
+    mockRecentEventsLimit.mockResolvedValue({
+      data: [{ ingredient_id: "ingredient-0" }, { ingredient_id: "ingredient-1" }],
+      error: null,
+    });
+    renderWheel();
+
+    fireEvent.click(screen.getByRole("button", { name: "Cooldown" }));
+    fireEvent.click(screen.getByText("Show odds"));
+
+    await waitFor(() => {
+      expect(within(screen.getByRole("list", { name: "Odds" })).getAllByText("0.0%")).toHaveLength(2);
+    });
+    expect(mockRecentEventsLimit).toHaveBeenCalledWith(SPIN_COOLDOWN_EVENTS);
+    expect(within(screen.getByRole("list", { name: "Odds" })).getAllByText("12.5%")).toHaveLength(8);
+  });
+
+  it("does not load recent events outside cooldown mode", () => {
+    renderWheel();
+
+    fireEvent.click(screen.getByRole("button", { name: "Weighted" }));
+
+    expect(mockRecentEventsLimit).not.toHaveBeenCalled();
+  });
+
+  it("hides mode controls when spinning is not allowed", () => {
+    render(
+      <IngredientWheel
+        ingredients={createIngredientsForWheel(10)}
+        onEventCreated={mockOnEventCreated}
+        userId={mockUserId}
+        disabled
+      />
+    );
+
+    expect(screen.queryByRole("group", { name: "Spin mode" })).not.toBeInTheDocument();
+  });
 });
 
 // Note: Dialog interaction tests are challenging with fake timers and Radix Dialog.
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createMockEnvGet,
+  createMockSupabaseClient,
+  createEdgeRequest,
+  parseResponse,
+} from "@tests/helpers/edge-function-setup";
+
+// ---------------------------------------------------------------------------
+// Set up Deno globals and mocks
+// ---------------------------------------------------------------------------
+const mockEnvGet = createMockEnvGet({ SUPABASE_ANON_KEY: "test-anon-key" });
+const mockServe = vi.fn();
+const mockSupabase = createMockSupabaseClient();
+
+vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (globalThis as any).Deno = { env: { get: vi.fn() } };
+});
+
+vi.mock("https://deno.land/std@0.168.0/http/server.ts", () => ({
+  serve: (fn: (req: Request) => Promise<Response>) => {
+    mockServe(fn);
+  },
+}));
+
+vi.mock("https://esm.sh/@supabase/supabase-js@2", () => ({
+  createClient: () => mockSupabase,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+let handler: (req: Request) => Promise<Response>;
+
+async function loadHandler() {
+  vi.resetModules();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (globalThis as any).Deno = { env: { get: mockEnvGet } };
+  mockServe.mockImplementation((fn: (req: Request) => Promise<Response>) => {
+    handler = fn;
+  });
+  await import("@edge/cleanup-storage/index.ts");
+}
+
+const SERVICE_KEY = "test-service-role-key";
+const STORAGE_BASE = "https://test.supabase.co/storage/v1/object/public";
+const OLD = "2026-01-01T00:00:00Z";
+
+function cleanupRequest(body: unknown, token: string | null = SERVICE_KEY): Request {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return new Request("http://localhost", { method: "POST", headers, body: JSON.stringify(body) });
+}
+
+function file(name: string, size = 1000, createdAt = OLD) {
+  return { id: `id-${name}`, name, created_at: createdAt, metadata: { size } };
+}
+
+function folder(name: string) {
+  return { id: null, name, created_at: null, metadata: null };
+}
+
+/** Bucket listings keyed by bucket, then folder prefix. */
+let listings: Record<string, Record<string, unknown[]>>;
+/** Rows returned for each referencing table. */
+let tableRows: Record<string, unknown[]>;
+
+const mockRemove = vi.fn();
+const mockRunInsert = vi.fn();
+
+/** The run recorded in storage_cleanup_runs. */
+function recordedRun() {
+  return mockRunInsert.mock.calls[0][0] as Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("cleanup-storage edge function", () => {
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    mockEnvGet.mockImplementation(createMockEnvGet({ SUPABASE_ANON_KEY: "test-anon-key" }).getMockImplementation()!);
+
+    listings = {
+      "recipe-images": {
+        "": [file("kept.webp", 5000), file("orphan.webp", 4000), folder("thumbs")],
+        thumbs: [file("kept.webp", 500), file("orphan.webp", 400)],
+      },
+      "recipe-photos": {
+        "": [folder("recipe-photos")],
+        "recipe-photos": [file("note.jpg", 3000), file("removed.jpg", 2000)],
+      },
+    };
+    tableRows = {
+      recipes: [{ id: "r1", url: `${STORAGE_BASE}/recipe-images/kept.webp`, source_files: null }],
+      recipe_notes: [{ id: "n1", photos: [`${STORAGE_BASE}/recipe-photos/recipe-photos/note.jpg`] }],
+      meal_plan_items: [{ id: "m1", custom_url: "https://example.com/recipe" }],
+    };
+
+    mockSupabase.storage.from.mockReset().mockImplementation((bucket: string) => ({
+      list: vi.fn((prefix: string) => Promise.resolve({ data: listings[bucket]?.[prefix] ?? [], error: null })),
+      remove: mockRemove,
+    }));
+    mockRemove.mockReset().mockResolvedValue({ data: [], error: null });
+
+    mockRunInsert.mockReset().mockReturnValue({
+      select: () => ({ single: () => Promise.resolve({ data: { id: "run-1" }, error: null }) }),
+    });
+    mockSupabase.from.mockReset().mockImplementation((table: string) => {
+      if (table === "storage_cleanup_runs") return { insert: mockRunInsert };
+      return {
+        select: () => ({
+          order: () => ({
+            range: () => Promise.resolve({ data: tableRows[table] ?? [], error: null }),
+          }),
+        }),
+      };
+    });
+
+    mockSupabase.auth.getUser.mockReset().mockResolvedValue({ data: { user: null }, error: null });
+    mockSupabase.rpc.mockReset().mockResolvedValue({ data: false, error: null });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await loadHandler();
+  });
+
+  it("returns 'ok' with CORS headers for OPTIONS preflight", async () => {
+    const res = await handler(createEdgeRequest(null, "OPTIONS"));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  });
+
+  it("reports unreferenced files without deleting by default", async () => {
+    const { status, data } = await parseResponse<Record<string, unknown>>(await handler(cleanupRequest({})));
+
+    expect(status).toBe(200);
+    expect(data).toMatchObject({
+      success: true,
+      runId: "run-1",
+      dryRun: true,
+      scanned_count: 6,
+      orphaned_count: 3,
+      orphaned_bytes: 6400,
+      deleted_count: 0,
+    });
+    expect((data.orphans as { path: string }[]).map((o) => o.path)).toEqual([
+      "orphan.webp",
+      "thumbs/orphan.webp",
+      "recipe-photos/removed.jpg",
+    ]);
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(recordedRun()).toMatchObject({ dry_run: true, triggered_by: null, status: "completed", orphaned_count: 3 });
+  });
+
+  it("deletes orphans bucket by bucket when not a dry run", async () => {
+    const { data } = await parseResponse<Record<string, unknown>>(
+      await handler(cleanupRequest({ dryRun: false }))
+    );
+
+    expect(mockRemove).toHaveBeenCalledWith(["orphan.webp", "thumbs/orphan.webp"]);
+    expect(mockRemove).toHaveBeenCalledWith(["recipe-photos/removed.jpg"]);
+    expect(data).toMatchObject({ dryRun: false, deleted_count: 3, reclaimed_bytes: 6400 });
+    expect(recordedRun()).toMatchObject({ dry_run: false, deleted_count: 3, reclaimed_bytes: 6400 });
+  });
+
+  it("keeps files referenced as recipe pages and meal plan links", async () => {
+    tableRows.recipes.push({
+      id: "r2",
+      url: `${STORAGE_BASE}/recipe-images/other.webp`,
+      source_files: [`${STORAGE_BASE}/recipe-images/other.webp`, `${STORAGE_BASE}/recipe-images/orphan.webp`],
+    });
+    tableRows.meal_plan_items.push({ id: "m2", custom_url: `${STORAGE_BASE}/recipe-photos/recipe-photos/removed.jpg` });
+
+    const { data } = await parseResponse<Record<string, unknown>>(await handler(cleanupRequest({})));
+
+    expect(data).toMatchObject({ orphaned_count: 0 });
+  });
+
+  it("skips files inside the grace period", async () => {
+    listings["recipe-images"][""] = [file("fresh.webp", 1000, new Date().toISOString())];
+
+    const { data } = await parseResponse<Record<string, unknown>>(
+      await handler(cleanupRequest({ dryRun: false }))
+    );
+
+    expect(data).toMatchObject({ orphaned_count: 1 });
+    expect((data.orphans as { path: string }[])[0].path).toBe("recipe-photos/removed.jpg");
+  });
+
+  it("records failed delete batches and leaves them for the next run", async () => {
+    mockRemove
+      .mockResolvedValueOnce({ data: null, error: { message: "Storage unavailable" } })
+      .mockResolvedValueOnce({ data: [], error: null });
+
+    const { status, data } = await parseResponse<Record<string, unknown>>(
+      await handler(cleanupRequest({ dryRun: false }))
+    );
+
+    expect(status).toBe(200);
+    expect(data).toMatchObject({ success: false, deleted_count: 1, reclaimed_bytes: 2000 });
+    expect(recordedRun()).toMatchObject({ status: "failed", error: "recipe-images: Storage unavailable" });
+  });
+
+  it("deletes nothing when references can't be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockSupabase.from.mockImplementation((table: string) => {
+      if (table === "storage_cleanup_runs") return { insert: mockRunInsert };
+      return {
+        select: () => ({
+          order: () => ({
+            range: () => Promise.resolve({ data: null, error: { message: "timeout" } }),
+          }),
+        }),
+      };
+    });
+
+    const { status, data } = await parseResponse(await handler(cleanupRequest({ dryRun: false })));
+
+    expect(status).toBe(500);
+    expect(data).toMatchObject({ success: false, error: "Failed to load recipes: timeout" });
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(recordedRun()).toMatchObject({ status: "failed", error: "Failed to load recipes: timeout" });
+  });
+
+  it("rejects requests without a token", async () => {
+    const { status } = await parseResponse(await handler(cleanupRequest({}, null)));
+
+    expect(status).toBe(401);
+    expect(mockSupabase.storage.from).not.toHaveBeenCalled();
+  });
+
+  it("rejects signed-in users who aren't admins", async () => {
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+
+    const { status, data } = await parseResponse(await handler(cleanupRequest({}, "user-jwt")));
+
+    expect(status).toBe(403);
+    expect(data).toMatchObject({ error: "Only admins can clean up storage" });
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("current_user_is_admin");
+  });
+
+  it("lets admins run a cleanup and records who started it", async () => {
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: "admin-1" } }, error: null });
+    mockSupabase.rpc.mockResolvedValue({ data: true, error: null });
+
+    const { status } = await parseResponse(await handler(cleanupRequest({ dryRun: true }, "admin-jwt")));
+
+    expect(status).toBe(200);
+    expect(recordedRun()).toMatchObject({ triggered_by: "admin-1", dry_run: true });
+  });
+});
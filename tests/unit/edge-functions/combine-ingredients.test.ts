@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   createMockEnvGet,
+  createMockSupabaseClient,
   createAnthropicResponse,
   createEdgeRequest,
   parseResponse,
@@ -12,6 +13,7 @@ import {
 const mockEnvGet = createMockEnvGet();
 
 const mockServe = vi.fn();
+const mockSupabase = createMockSupabaseClient();
 
 vi.hoisted(() => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -26,6 +28,10 @@ vi.mock("https://deno.land/std@0.168.0/http/server.ts", () => ({
   },
 }));
 
+vi.mock("https://esm.sh/@supabase/supabase-js@2", () => ({
+  createClient: () => mockSupabase,
+}));
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -45,6 +51,9 @@ async function loadHandler() {
   await import("@edge/process-grocery-list/index.ts");
 }
 
+// Provider and model recorded on responses when the request doesn't pick any
+const anthropicDefault = { provider: "anthropic", model: "claude-sonnet-4-6" };
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -141,7 +150,7 @@ describe("process-grocery-list edge function", () => {
 
     const { data } = await parseResponse(await handler(req));
 
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems, ...anthropicDefault });
     expect(mockFetch).toHaveBeenCalledWith(
       "https://api.anthropic.com/v1/messages",
       expect.objectContaining({ method: "POST" }),
@@ -163,7 +172,7 @@ describe("process-grocery-list edge function", () => {
     });
 
     const { data } = await parseResponse(await handler(req));
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems, ...anthropicDefault });
   });
 
   it("returns 500 when AI API responds with non-ok status", async () => {
@@ -238,7 +247,7 @@ describe("process-grocery-list edge function", () => {
     const { data, status } = await parseResponse(await handler(req));
 
     expect(status).toBe(200);
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: {} });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: {}, ...anthropicDefault });
     expect(consoleSpy).toHaveBeenCalledWith(
       expect.stringContaining("onion"),
     );
@@ -267,7 +276,7 @@ describe("process-grocery-list edge function", () => {
     });
 
     const { data } = await parseResponse(await handler(req));
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems, ...anthropicDefault });
   });
 
   it("handles duplicate ingredient names across recipes (uses unique names for validation)", async () => {
@@ -292,7 +301,7 @@ describe("process-grocery-list edge function", () => {
     });
 
     const { data } = await parseResponse(await handler(req));
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: aiPerRecipeItems, ...anthropicDefault });
   });
 
   it("defaults perRecipeItems to empty object when AI omits it", async () => {
@@ -309,7 +318,7 @@ describe("process-grocery-list edge function", () => {
     });
 
     const { data } = await parseResponse(await handler(req));
-    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: {} });
+    expect(data).toEqual({ success: true, items: aiItems, perRecipeItems: {}, ...anthropicDefault });
   });
 
   it("adds displayName fallback to items and perRecipeItems when AI omits it", async () => {
@@ -364,4 +373,330 @@ describe("process-grocery-list edge function", () => {
     expect(data).toMatchObject({ success: false });
     expect((data as { error: string }).error).toContain("AI response items is not an array");
   });
+
+  describe("AI providers", () => {
+    const rawIngredients = [
+      { name: "Onion", quantity: "1", unit: null, category: "produce", recipeName: "R1" },
+      { name: "onion", quantity: "2", unit: null, category: "produce", recipeName: "R2" },
+      { name: "flour", quantity: "1", unit: "cup", category: "pantry", recipeName: "R1" },
+    ];
+
+    it("combines with fixtures and no network call using the stub provider", async () => {
+      mockEnvGet.mockImplementation(
+        createMockEnvGet({ AI_ALLOW_STUB: "true" }).getMockImplementation()!,
+      );
+      await loadHandler();
+      const mockFetch = vi.fn();
+      globalThis.fetch = mockFetch;
+
+      const req = createEdgeRequest({ rawIngredients, provider: "stub", model: "claude-sonnet-4-6" });
+      const { data } = await parseResponse(await handler(req));
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(data).toMatchObject({
+        success: true,
+        provider: "stub",
+        model: "stub-fixtures",
+        items: [
+          { name: "onion", totalQuantity: 3, unit: null, sourceRecipes: ["R1", "R2"] },
+          { name: "flour", totalQuantity: 1, unit: "cup", sourceRecipes: ["R1"] },
+        ],
+        perRecipeItems: {
+          R1: [{ name: "onion", totalQuantity: 1 }, { name: "flour", totalQuantity: 1 }],
+          R2: [{ name: "onion", totalQuantity: 2 }],
+        },
+      });
+    });
+
+    it("ignores a request for the stub unless the deployment allows it", async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(
+        createAnthropicResponse(JSON.stringify({ items: [], perRecipeItems: {} })),
+      );
+
+      const req = createEdgeRequest({ rawIngredients, provider: "stub" });
+      const { data } = await parseResponse(await handler(req));
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "https://api.anthropic.com/v1/messages",
+        expect.anything(),
+      );
+      expect(data).toMatchObject({ provider: "anthropic" });
+    });
+
+    it("uses AI_PROVIDER when the request doesn't pick a provider", async () => {
+      mockEnvGet.mockImplementation(
+        createMockEnvGet({ AI_PROVIDER: "stub", ANTHROPIC_API_KEY: undefined }).getMockImplementation()!,
+      );
+      await loadHandler();
+
+      const { data } = await parseResponse(await handler(createEdgeRequest({ rawIngredients })));
+
+      expect(data).toMatchObject({ success: true, provider: "stub" });
+    });
+
+    it("calls an OpenAI-compatible endpoint with its default model for Claude model IDs", async () => {
+      mockEnvGet.mockImplementation(
+        createMockEnvGet({
+          OPENAI_BASE_URL: "http://localhost:11434/v1/",
+          OPENAI_MODEL: "llama3.1",
+        }).getMockImplementation()!,
+      );
+      await loadHandler();
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            model: "llama3.1",
+            choices: [{ message: { content: JSON.stringify({ items: [{ name: "onion" }] }) } }],
+          }),
+          { status: 200 },
+        ),
+      );
+      globalThis.fetch = mockFetch;
+
+      const req = createEdgeRequest({ rawIngredients, provider: "openai", model: "claude-sonnet-4-6" });
+      const { data } = await parseResponse(await handler(req));
+
+      expect(mockFetch).toHaveBeenCalledWith("http://localhost:11434/v1/chat/completions", expect.anything());
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.model).toBe("llama3.1");
+      expect(body.messages[0]).toMatchObject({ role: "system" });
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+      expect(data).toMatchObject({ success: true, provider: "openai", model: "llama3.1" });
+    });
+
+    it("skips when the OpenAI-compatible provider isn't configured", async () => {
+      const req = createEdgeRequest({ rawIngredients, provider: "openai" });
+      const { data } = await parseResponse(await handler(req));
+
+      expect(data).toMatchObject({
+        success: true,
+        skipped: true,
+        message: "openai AI provider not configured",
+      });
+    });
+  });
+
+  describe("usage metering and budgets", () => {
+    const rawIngredients = [
+      { name: "onion", quantity: "1", unit: null, category: "produce", recipeName: "R1" },
+    ];
+
+    function signedInRequest(body: unknown) {
+      return new Request("http://localhost", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer user-jwt" },
+        body: JSON.stringify(body),
+      });
+    }
+
+    function anthropicResponseWithUsage(text: string) {
+      return new Response(
+        JSON.stringify({
+          content: [{ type: "text", text }],
+          usage: { input_tokens: 1000, output_tokens: 200 },
+        }),
+        { status: 200 },
+      );
+    }
+
+    beforeEach(() => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ spent_usd: "0", soft_limit_usd: null, hard_limit_usd: null }],
+        error: null,
+      });
+      mockSupabase.setTableData("ai_usage", null);
+    });
+
+    it("logs the call's tokens and estimated cost for the signed-in user", async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(
+        anthropicResponseWithUsage(JSON.stringify({ items: [{ name: "onion" }] })),
+      );
+
+      await handler(signedInRequest({ rawIngredients }));
+
+      expect(mockSupabase.auth.getUser).toHaveBeenCalledWith("user-jwt");
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_budget_status", { p_user_id: "user-1" });
+      expect(mockSupabase.from("ai_usage").insert).toHaveBeenCalledWith({
+        user_id: "user-1",
+        function_name: "process-grocery-list",
+        provider: "anthropic",
+        model: "claude-sonnet-4-6",
+        input_tokens: 1000,
+        output_tokens: 200,
+        estimated_cost_usd: 0.006,
+      });
+    });
+
+    it("logs anonymous calls without a user and skips the budget check", async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(
+        anthropicResponseWithUsage(JSON.stringify({ items: [{ name: "onion" }] })),
+      );
+
+      await handler(createEdgeRequest({ rawIngredients }));
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(mockSupabase.from("ai_usage").insert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: null }),
+      );
+    });
+
+    it("switches to Haiku past the soft limit", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ spent_usd: "5.20", soft_limit_usd: "5.00", hard_limit_usd: "10.00" }],
+        error: null,
+      });
+      const mockFetch = vi.fn().mockResolvedValue(
+        anthropicResponseWithUsage(JSON.stringify({ items: [{ name: "onion" }] })),
+      );
+      globalThis.fetch = mockFetch;
+
+      const { data } = await parseResponse(
+        await handler(signedInRequest({ rawIngredients, model: "claude-opus-4-6" })),
+      );
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe("claude-haiku-4-5-20251001");
+      expect(data).toMatchObject({ success: true, model: "claude-haiku-4-5-20251001" });
+    });
+
+    it("skips the AI past the hard limit so the client combines locally", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ spent_usd: "10.00", soft_limit_usd: "5.00", hard_limit_usd: "10.00" }],
+        error: null,
+      });
+      const mockFetch = vi.fn();
+      globalThis.fetch = mockFetch;
+
+      const { data } = await parseResponse(await handler(signedInRequest({ rawIngredients })));
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(data).toMatchObject({ success: true, skipped: true });
+      expect((data as { message: string }).message).toContain("Monthly AI budget reached");
+    });
+
+    it("still calls the AI when the budget lookup fails", async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: "rpc failed" } });
+      const mockFetch = vi.fn().mockResolvedValue(
+        anthropicResponseWithUsage(JSON.stringify({ items: [{ name: "onion" }] })),
+      );
+      globalThis.fetch = mockFetch;
+
+      const { data } = await parseResponse(await handler(signedInRequest({ rawIngredients })));
+
+      expect(mockFetch).toHaveBeenCalled();
+      expect(data).toMatchObject({ success: true });
+    });
+  });
+
+  describe("rate limiting", () => {
+    const rawIngredients = [
+      { name: "onion", quantity: "1", unit: null, category: "produce", recipeName: "R1" },
+    ];
+
+    function request(token: string, ip = "203.0.113.7") {
+      return new Request("http://localhost", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+          "x-forwarded-for": `10.0.0.1, ${ip}`,
+        },
+        body: JSON.stringify({ rawIngredients }),
+      });
+    }
+
+    /** Seconds to wait per bucket type; 0 takes a token. */
+    function setBuckets(waits: { user?: number; ip?: number }) {
+      mockSupabase.rpc.mockImplementation((fn: string, args: { p_caller_type: string }) =>
+        Promise.resolve(
+          fn === "consume_rate_limit"
+            ? { data: waits[args.p_caller_type as "user" | "ip"] ?? 0, error: null }
+            : { data: [{ spent_usd: "0", soft_limit_usd: null, hard_limit_usd: null }], error: null }
+        )
+      );
+    }
+
+    beforeEach(() => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+      globalThis.fetch = vi.fn().mockResolvedValue(createAnthropicResponse(JSON.stringify({ items: [] })));
+    });
+
+    it("takes a token from the caller's user and IP buckets", async () => {
+      setBuckets({});
+
+      const { status } = await parseResponse(await handler(request("user-jwt")));
+
+      expect(status).toBe(200);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("consume_rate_limit", {
+        p_function_name: "process-grocery-list",
+        p_caller_type: "user",
+        p_caller: "user-1",
+        p_capacity: 30,
+        p_refill_per_minute: 1,
+      });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("consume_rate_limit", expect.objectContaining({
+        p_caller_type: "ip",
+        p_caller: "203.0.113.7",
+        p_capacity: 60,
+      }));
+    });
+
+    it("buckets by the gateway's hop, not a client-supplied one", async () => {
+      setBuckets({});
+      const req = request("user-jwt");
+      req.headers.set("x-forwarded-for", "198.51.100.1, 10.0.0.1, 203.0.113.7");
+
+      await handler(req);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("consume_rate_limit", expect.objectContaining({
+        p_caller_type: "ip",
+        p_caller: "203.0.113.7",
+      }));
+    });
+
+    it("responds 429 with Retry-After when a bucket is empty", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      setBuckets({ user: 12, ip: 40 });
+
+      const res = await handler(request("user-jwt"));
+      const { status, data } = await parseResponse(res);
+
+      expect(status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("40");
+      expect(res.headers.get("Access-Control-Expose-Headers")).toBe("Retry-After");
+      expect(data).toMatchObject({ success: false, retryAfter: 40 });
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith("get_ai_budget_status", expect.anything());
+    });
+
+    it("throttles anonymous callers by IP", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: { message: "invalid JWT" } });
+      setBuckets({ ip: 5 });
+
+      const { status } = await parseResponse(await handler(request("anon-key")));
+
+      expect(status).toBe(429);
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't limit service-role callers", async () => {
+      setBuckets({ user: 30, ip: 30 });
+
+      const { status } = await parseResponse(await handler(request("test-service-role-key")));
+
+      expect(status).toBe(200);
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith("consume_rate_limit", expect.anything());
+    });
+
+    it("lets requests through when the bucket lookup fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: "rpc failed" } });
+
+      const { status } = await parseResponse(await handler(request("user-jwt")));
+
+      expect(status).toBe(200);
+      expect(globalThis.fetch).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,391 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createMockEnvGet,
+  createMockSupabaseClient,
+  parseResponse,
+} from "@tests/helpers/edge-function-setup";
+
+// ---------------------------------------------------------------------------
+// Set up Deno globals and mocks
+// ---------------------------------------------------------------------------
+const mockEnvGet = createMockEnvGet();
+const mockServe = vi.fn();
+const mockSupabase = createMockSupabaseClient();
+const mockInvoke = vi.fn();
+
+vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (globalThis as any).Deno = { env: { get: vi.fn() } };
+});
+
+vi.mock("https://deno.land/std@0.168.0/http/server.ts", () => ({
+  serve: (fn: (req: Request) => Promise<Response>) => {
+    mockServe(fn);
+  },
+}));
+
+vi.mock("https://esm.sh/@supabase/supabase-js@2", () => ({
+  createClient: () => ({ ...mockSupabase, functions: { invoke: mockInvoke } }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+let handler: (req: Request) => Promise<Response>;
+
+async function loadHandler() {
+  vi.resetModules();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (globalThis as any).Deno = { env: { get: mockEnvGet } };
+  mockServe.mockImplementation((fn: (req: Request) => Promise<Response>) => {
+    handler = fn;
+  });
+  await import("@edge/grocery-api/index.ts");
+}
+
+function createApiRequest(method: string, apiKey: string | null, body?: unknown, query = "", route = "") {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["x-api-key"] = apiKey;
+  return new Request(`https://test.supabase.co/functions/v1/grocery-api${route}${query}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const tokenRow = { id: "token-1", user_id: "user-1", scope: "read_write" };
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("grocery-api edge function", () => {
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    mockSupabase.setTableData("api_tokens", tokenRow);
+    mockSupabase.setTableData("general_grocery_items", [{ id: "item-1", name: "milk" }]);
+    mockSupabase.setTableData("combined_grocery_items", null);
+    mockSupabase.setTableData("household_members", null);
+    mockSupabase.setTableData("user_preferences", null);
+    mockSupabase.auth.admin.getUserById.mockResolvedValue({ data: { user: null }, error: null });
+    mockInvoke.mockResolvedValue({ data: null, error: { message: "unavailable" } });
+    await loadHandler();
+  });
+
+  it("returns 401 without an API key", async () => {
+    const res = await handler(createApiRequest("GET", null));
+
+    expect(res.status).toBe(401);
+    expect(mockSupabase.from).not.toHaveBeenCalledWith("api_tokens");
+  });
+
+  it("returns 401 for an unknown or revoked token", async () => {
+    mockSupabase.setTableData("api_tokens", null);
+
+    const res = await handler(createApiRequest("GET", "rcg_unknown"));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("throttles unknown tokens by IP", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockSupabase.setTableData("api_tokens", null);
+    mockSupabase.rpc.mockResolvedValueOnce({ data: 30, error: null });
+    const req = createApiRequest("GET", "rcg_guess");
+    req.headers.set("x-forwarded-for", "203.0.113.7");
+
+    const res = await handler(req);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("consume_rate_limit", expect.objectContaining({
+      p_function_name: "grocery-api",
+      p_caller_type: "ip",
+      p_caller: "203.0.113.7",
+    }));
+  });
+
+  it("takes a token from the owner's bucket", async () => {
+    await handler(createApiRequest("GET", "rcg_secret"));
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("consume_rate_limit", {
+      p_function_name: "grocery-api",
+      p_caller_type: "user",
+      p_caller: "user-1",
+      p_capacity: 120,
+      p_refill_per_minute: 60,
+    });
+  });
+
+  it("looks the token up by its hash and acts as its owner", async () => {
+    const res = await handler(createApiRequest("GET", "rcg_secret"));
+    const { status, data } = await parseResponse(res);
+
+    expect(status).toBe(200);
+    expect(data).toEqual(expect.objectContaining({ generalItems: [{ id: "item-1", name: "milk" }] }));
+
+    const tokens = mockSupabase.from("api_tokens");
+    expect(tokens.eq).toHaveBeenCalledWith("token_hash", await sha256Hex("rcg_secret"));
+    expect(tokens.update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+    expect(mockSupabase.from("general_grocery_items").eq).toHaveBeenCalledWith("user_id", "user-1");
+  });
+
+  it("lets read-only tokens read the list", async () => {
+    mockSupabase.setTableData("api_tokens", { ...tokenRow, scope: "read" });
+
+    const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "?view=simple"));
+    const { status, data } = await parseResponse(res);
+
+    expect(status).toBe(200);
+    expect(data).toEqual({ items: ["milk"] });
+  });
+
+  it.each(["POST", "DELETE"])("rejects %s with a read-only token", async (method) => {
+    mockSupabase.setTableData("api_tokens", { ...tokenRow, scope: "read" });
+
+    const res = await handler(createApiRequest(method, "rcg_secret", method === "POST" ? { text: "milk" } : undefined, "?id=item-1"));
+    const { status, data } = await parseResponse(res);
+
+    expect(status).toBe(403);
+    expect(data).toEqual({ error: "This token is read-only" });
+    expect(mockSupabase.from("general_grocery_items").upsert).not.toHaveBeenCalled();
+    expect(mockSupabase.from("general_grocery_items").delete).not.toHaveBeenCalled();
+  });
+
+  it("adds items for the token's owner with a read-write token", async () => {
+    const res = await handler(createApiRequest("POST", "rcg_secret", { text: "milk, eggs", week: "2026-03-01" }));
+
+    expect(res.status).toBe(200);
+    expect(mockSupabase.from("general_grocery_items").upsert).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ user_id: "user-1", context_id: "2026-03-01", name: "milk" }),
+        expect.objectContaining({ user_id: "user-1", context_id: "2026-03-01", name: "eggs" }),
+      ],
+      expect.anything()
+    );
+    // Parsed on behalf of the token's owner, so their AI budget and rate limit apply
+    expect(mockInvoke).toHaveBeenCalledWith("parse-recipe", {
+      body: { recipeName: "Grocery Items", text: "milk, eggs", onBehalfOf: "user-1" },
+    });
+  });
+
+  it("parses quantities locally when AI parsing fails", async () => {
+    await handler(createApiRequest("POST", "rcg_secret", { text: "2 lbs chicken thighs", week: "2026-03-01" }));
+
+    expect(mockSupabase.from("general_grocery_items").upsert).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ name: "chicken thighs", quantity: "2", unit: "lb" }),
+      ],
+      expect.anything()
+    );
+  });
+
+  it("serves the OpenAPI description without a token", async () => {
+    const res = await handler(createApiRequest("GET", null, undefined, "", "/openapi.json"));
+    const { status, data } = await parseResponse<{ openapi: string; paths: Record<string, unknown> }>(res);
+
+    expect(status).toBe(200);
+    expect(data.openapi).toBe("3.1.0");
+    expect(Object.keys(data.paths)).toEqual(
+      expect.arrayContaining(["/", "/check", "/uncheck", "/pantry", "/meal-plan", "/recombine"])
+    );
+  });
+
+  it("returns 404 for an unknown route", async () => {
+    const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "", "/nope"));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("defaults to the current week using the user's week start day", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2026, 2, 4, 12)); // Wednesday
+    mockSupabase.setTableData("user_preferences", { week_start_day: 1 });
+
+    const res = await handler(createApiRequest("GET", "rcg_secret"));
+    const { data } = await parseResponse<{ week: string }>(res);
+    vi.useRealTimers();
+
+    expect(data.week).toBe(new Date(2026, 2, 2).toISOString().split("T")[0]);
+  });
+
+  describe("check and uncheck", () => {
+    beforeEach(() => {
+      mockSupabase.setTableData("combined_grocery_items", {
+        items: [
+          { name: "onion", displayName: "onions" },
+          { name: "milk" },
+        ],
+        checked_items: ["milk"],
+      });
+    });
+
+    it("checks an item by its display name", async () => {
+      const res = await handler(createApiRequest("POST", "rcg_secret", { name: "Onions", week: "2026-03-01" }, "", "/check"));
+      const { status, data } = await parseResponse(res);
+
+      expect(status).toBe(200);
+      expect(data).toEqual({ success: true, week: "2026-03-01", name: "onion", checked: true });
+      const combined = mockSupabase.from("combined_grocery_items");
+      expect(combined.update).toHaveBeenCalledWith({ checked_items: ["milk", "onion"] });
+      expect(combined.eq).toHaveBeenCalledWith("user_id", "user-1");
+    });
+
+    it("unchecks an item", async () => {
+      const res = await handler(createApiRequest("POST", "rcg_secret", { name: "milk" }, "", "/uncheck"));
+
+      expect(res.status).toBe(200);
+      expect(mockSupabase.from("combined_grocery_items").update).toHaveBeenCalledWith({ checked_items: [] });
+    });
+
+    it("returns 404 for an item that isn't on the list", async () => {
+      const res = await handler(createApiRequest("POST", "rcg_secret", { name: "bread" }, "", "/check"));
+      const { status, data } = await parseResponse(res);
+
+      expect(status).toBe(404);
+      expect(data).toEqual({ error: '"bread" is not on the grocery list' });
+      expect(mockSupabase.from("combined_grocery_items").update).not.toHaveBeenCalled();
+    });
+
+    it("checks the shared list for household members", async () => {
+      mockSupabase.auth.admin.getUserById.mockResolvedValue({
+        data: { user: { email: "Sam@Example.com" } },
+        error: null,
+      });
+      mockSupabase.setTableData("household_members", { household_id: "house-1" });
+      mockSupabase.setTableData("grocery_checks", null);
+
+      const res = await handler(createApiRequest("POST", "rcg_secret", { name: "onion", week: "2026-03-01" }, "", "/check"));
+
+      expect(res.status).toBe(200);
+      expect(mockSupabase.from("household_members").eq).toHaveBeenCalledWith("email", "sam@example.com");
+      expect(mockSupabase.from("household_members").not).toHaveBeenCalledWith("accepted_at", "is", null);
+      expect(mockSupabase.from("grocery_checks").upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          household_id: "house-1",
+          context_type: "meal_plan",
+          // Keyed like the web app, by the Monday of the days the week covers
+          context_id: "2026-03-02",
+          item_name: "onion",
+          checked_by: "user-1",
+        }),
+        { onConflict: "household_id,context_type,context_id,item_name" }
+      );
+      expect(mockSupabase.from("combined_grocery_items").update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pantry", () => {
+    beforeEach(() => {
+      mockSupabase.setTableData("user_pantry_items", [
+        { id: "p-1", name: "olive oil" },
+        { id: "p-2", name: "salt" },
+      ]);
+    });
+
+    it("lists pantry items", async () => {
+      const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "?view=simple", "/pantry"));
+      const { data } = await parseResponse(res);
+
+      expect(data).toEqual({ items: ["olive oil", "salt"] });
+      expect(mockSupabase.from("user_pantry_items").eq).toHaveBeenCalledWith("user_id", "user-1");
+    });
+
+    it("adds a lowercased pantry item", async () => {
+      const res = await handler(createApiRequest("POST", "rcg_secret", { name: " Rice " }, "", "/pantry"));
+
+      expect(res.status).toBe(200);
+      expect(mockSupabase.from("user_pantry_items").upsert).toHaveBeenCalledWith(
+        { user_id: "user-1", name: "rice" },
+        { onConflict: "user_id,name", ignoreDuplicates: true }
+      );
+    });
+
+    it("removes a pantry item by name", async () => {
+      const res = await handler(createApiRequest("DELETE", "rcg_secret", undefined, "?name=Salt", "/pantry"));
+
+      expect(res.status).toBe(200);
+      const pantry = mockSupabase.from("user_pantry_items");
+      expect(pantry.delete).toHaveBeenCalled();
+      expect(pantry.eq).toHaveBeenCalledWith("user_id", "user-1");
+      expect(pantry.eq).toHaveBeenCalledWith("name", "salt");
+    });
+
+    it("needs an id or name to remove", async () => {
+      const res = await handler(createApiRequest("DELETE", "rcg_secret", undefined, "", "/pantry"));
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("meal plan", () => {
+    beforeEach(() => {
+      mockSupabase.setTableData("meal_plans", [{ id: "plan-1" }]);
+      mockSupabase.setTableData("meal_plan_items", [
+        { id: "m-1", recipe_id: null, day_of_week: 0, meal_type: "dinner", custom_name: "Leftovers", custom_url: null, cooked_at: null, recipes: null },
+        { id: "m-2", recipe_id: "r-1", day_of_week: 1, meal_type: "dinner", custom_name: null, custom_url: null, cooked_at: "2026-03-02T19:00:00Z", recipes: { name: "Tacos", url: "https://example.com/tacos" } },
+        { id: "m-3", recipe_id: null, day_of_week: 1, meal_type: "breakfast", custom_name: "Oatmeal", custom_url: null, cooked_at: null, recipes: null },
+      ]);
+    });
+
+    it("returns the week's meals in order from the week's start day", async () => {
+      const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "?week=2026-03-02", "/meal-plan"));
+      const { data } = await parseResponse<{ week: string; meals: Array<Record<string, unknown>> }>(res);
+
+      expect(mockSupabase.from("meal_plans").eq).toHaveBeenCalledWith("week_start", "2026-03-02");
+      expect(mockSupabase.from("meal_plan_items").eq).toHaveBeenCalledWith("plan_id", "plan-1");
+      expect(data.meals.map((m) => m.id)).toEqual(["m-3", "m-2", "m-1"]);
+      expect(data.meals[1]).toEqual({
+        id: "m-2",
+        day: "Monday",
+        dayOfWeek: 1,
+        mealType: "dinner",
+        name: "Tacos",
+        url: "https://example.com/tacos",
+        recipeId: "r-1",
+        cooked: true,
+      });
+    });
+
+    it("returns display strings in the simple view", async () => {
+      const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "?week=2026-03-01&view=simple", "/meal-plan"));
+      const { data } = await parseResponse(res);
+
+      expect(data).toEqual({
+        items: ["Sunday dinner: Leftovers", "Monday breakfast: Oatmeal", "Monday dinner: Tacos"],
+      });
+    });
+
+    it("returns no meals when there is no plan for the week", async () => {
+      mockSupabase.setTableData("meal_plans", []);
+
+      const res = await handler(createApiRequest("GET", "rcg_secret", undefined, "?week=2026-03-01", "/meal-plan"));
+      const { data } = await parseResponse(res);
+
+      expect(data).toEqual({ week: "2026-03-01", meals: [] });
+    });
+  });
+
+  it("clears the combined list on recombine", async () => {
+    const res = await handler(createApiRequest("POST", "rcg_secret", { week: "2026-03-01" }, "", "/recombine"));
+    const { data } = await parseResponse(res);
+
+    expect(data).toEqual({ success: true, week: "2026-03-01" });
+    const combined = mockSupabase.from("combined_grocery_items");
+    expect(combined.update).toHaveBeenCalledWith(expect.objectContaining({ items: [], recipe_ids: [] }));
+    expect(combined.eq).toHaveBeenCalledWith("context_id", "2026-03-01");
+  });
+
+  it("rejects writes to the pantry with a read-only token", async () => {
+    mockSupabase.setTableData("api_tokens", { ...tokenRow, scope: "read" });
+
+    const res = await handler(createApiRequest("POST", "rcg_secret", { name: "rice" }, "", "/pantry"));
+
+    expect(res.status).toBe(403);
+  });
+});
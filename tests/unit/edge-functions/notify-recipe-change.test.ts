@@ -165,6 +165,21 @@ describe("notify-recipe-change edge function", () => {
     expect((data as { message: string }).message).not.toMatch(/notifications$/);
   });
 
+  it("notifies members of the given club", async () => {
+    const builder = createMembersBuilder([{ email: "member@example.com" }]);
+    mockSupabase.from.mockReturnValue(builder);
+
+    globalThis.fetch = vi.fn().mockResolvedValue(createResendResponse(true));
+
+    const req = createEdgeRequest({ ...baseBody, clubId: "club-1" });
+    const { data, status } = await parseResponse(await handler(req));
+
+    expect(status).toBe(200);
+    expect(mockSupabase.from).toHaveBeenCalledWith("club_members");
+    expect(builder.eq).toHaveBeenCalledWith("club_id", "club-1");
+    expect(data).toMatchObject({ success: true, message: "Sent 1 notification" });
+  });
+
   it("sends emails for 'updated' type with eventDate formatting", async () => {
     mockSupabase.from.mockReturnValue(
       createMembersBuilder([
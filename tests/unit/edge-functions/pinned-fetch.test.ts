@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchPinned } from "@edge/parse-recipe/pinnedFetch.ts";
+
+// ---------------------------------------------------------------------------
+// Fake connections: the server's reply arrives in the given chunks, and
+// whatever the client writes is collected as the request
+// ---------------------------------------------------------------------------
+interface FakeConn {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+  close: ReturnType<typeof vi.fn>;
+  request: () => string;
+}
+
+function createConn(reply: (string | Uint8Array)[]): FakeConn {
+  const written: Uint8Array[] = [];
+  const chunks = reply.map((chunk) => (typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk));
+  return {
+    readable: new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) controller.enqueue(chunk);
+        else controller.close();
+      },
+    }),
+    writable: new WritableStream<Uint8Array>({
+      write(chunk) {
+        written.push(chunk);
+      },
+    }),
+    close: vi.fn(),
+    request: () => written.map((chunk) => new TextDecoder().decode(chunk)).join(""),
+  };
+}
+
+const mockConnect = vi.fn();
+const mockStartTls = vi.fn();
+
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Response(text).body!.pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("fetchPinned", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (globalThis as any).Deno = { connect: mockConnect, startTls: mockStartTls };
+  });
+
+  it("sends the request for the URL's host to the given address", async () => {
+    const conn = createConn(["HTTP/1.1 200 OK\r\nContent-Type: text/html\r\nContent-Length: 5\r\n\r\nhello"]);
+    mockConnect.mockResolvedValue(conn);
+
+    const response = await fetchPinned(new URL("http://example.com:8080/recipes/soup?print=1"), "93.184.216.34", {
+      headers: { "User-Agent": "test-agent", "Accept-Encoding": "br" },
+    });
+
+    expect(mockConnect).toHaveBeenCalledWith({ hostname: "93.184.216.34", port: 8080 });
+    expect(mockStartTls).not.toHaveBeenCalled();
+    const request = conn.request();
+    expect(request.startsWith("GET /recipes/soup?print=1 HTTP/1.1\r\n")).toBe(true);
+    expect(request).toContain("host: example.com:8080\r\n");
+    expect(request).toContain("user-agent: test-agent\r\n");
+    expect(request).toContain("accept-encoding: gzip, deflate\r\n");
+    expect(request.endsWith("\r\n\r\n")).toBe(true);
+    expect(response.status).toBe(200);
+    expect(response.statusText).toBe("OK");
+    expect(response.headers.get("content-type")).toBe("text/html");
+    expect(await response.text()).toBe("hello");
+    expect(conn.close).toHaveBeenCalled();
+  });
+
+  it("verifies TLS against the hostname, not the address", async () => {
+    const tcp = createConn([]);
+    const tls = createConn(["HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok"]);
+    mockConnect.mockResolvedValue(tcp);
+    mockStartTls.mockResolvedValue(tls);
+
+    const response = await fetchPinned(new URL("https://example.com/recipe"), "2606:2800:220:1::1");
+
+    expect(mockConnect).toHaveBeenCalledWith({ hostname: "2606:2800:220:1::1", port: 443 });
+    expect(mockStartTls).toHaveBeenCalledWith(tcp, { hostname: "example.com" });
+    expect(tls.request()).toContain("host: example.com\r\n");
+    expect(await response.text()).toBe("ok");
+  });
+
+  it("reads chunked bodies split across reads", async () => {
+    mockConnect.mockResolvedValue(createConn([
+      "HTTP/1.1 200 OK\r\nTransfer-Encoding: chunked\r\n",
+      "\r\n5\r\nhel",
+      "lo\r\n7;ext=1\r\n, world\r\n0\r\nX-Trailer: 1\r\n\r\n",
+    ]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    expect(await response.text()).toBe("hello, world");
+  });
+
+  it("reads until the connection closes when there's no length", async () => {
+    mockConnect.mockResolvedValue(createConn(["HTTP/1.0 200 OK\r\n\r\nfirst ", "second"]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    expect(await response.text()).toBe("first second");
+  });
+
+  it("decodes gzip bodies", async () => {
+    const body = await gzip("<html>Soup</html>");
+    mockConnect.mockResolvedValue(createConn([
+      `HTTP/1.1 200 OK\r\nContent-Encoding: gzip\r\nContent-Length: ${body.byteLength}\r\n\r\n`,
+      body,
+    ]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    expect(response.headers.get("content-encoding")).toBeNull();
+    expect(response.headers.get("content-length")).toBeNull();
+    expect(await response.text()).toBe("<html>Soup</html>");
+  });
+
+  it("returns redirects without following them", async () => {
+    mockConnect.mockResolvedValue(createConn([
+      "HTTP/1.1 302 Found\r\nLocation: http://169.254.169.254/\r\nContent-Length: 0\r\n\r\n",
+    ]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("http://169.254.169.254/");
+    expect(mockConnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips interim responses", async () => {
+    mockConnect.mockResolvedValue(createConn([
+      "HTTP/1.1 100 Continue\r\n\r\nHTTP/1.1 204 No Content\r\n\r\n",
+    ]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    expect(response.status).toBe(204);
+    expect(response.body).toBeNull();
+  });
+
+  it("closes the connection when the body is cancelled", async () => {
+    const conn = createConn(["HTTP/1.1 200 OK\r\nContent-Length: 100\r\n\r\n", "partial"]);
+    mockConnect.mockResolvedValue(conn);
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+    await response.body!.cancel();
+
+    expect(conn.close).toHaveBeenCalled();
+  });
+
+  it("fails when the connection closes early", async () => {
+    mockConnect.mockResolvedValue(createConn(["HTTP/1.1 200 OK\r\nContent-Length: 100\r\n\r\npartial"]));
+
+    const response = await fetchPinned(new URL("http://example.com/"), "93.184.216.34");
+
+    await expect(response.text()).rejects.toThrow("Connection closed before the response finished");
+  });
+
+  it.each([
+    ["a malformed status line", "SSH-2.0-OpenSSH\r\n\r\n", "Malformed response status line"],
+    ["a malformed length", "HTTP/1.1 200 OK\r\nContent-Length: -1\r\n\r\n", "Malformed response Content-Length"],
+    ["a missing head", "HTTP/1.1 200 OK\r\n", "Connection closed before the response finished"],
+  ])("rejects %s and closes the connection", async (_case, reply, message) => {
+    const conn = createConn([reply]);
+    mockConnect.mockResolvedValue(conn);
+
+    await expect(fetchPinned(new URL("http://example.com/"), "93.184.216.34")).rejects.toThrow(message);
+    expect(conn.close).toHaveBeenCalled();
+  });
+
+  it("refuses request bodies", async () => {
+    await expect(
+      fetchPinned(new URL("http://example.com/"), "93.184.216.34", { method: "POST", body: "x" })
+    ).rejects.toThrow("fetchPinned can't send a request body");
+    expect(mockConnect).not.toHaveBeenCalled();
+  });
+
+  it("closes the connection when aborted", async () => {
+    const conn = createConn([]);
+    // The server never answers
+    conn.readable = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => {}) });
+    mockConnect.mockResolvedValue(conn);
+    const controller = new AbortController();
+
+    const pending = fetchPinned(new URL("http://example.com/"), "93.184.216.34", { signal: controller.signal });
+    await vi.waitFor(() => expect(mockConnect).toHaveBeenCalled());
+    controller.abort();
+
+    expect(conn.close).toHaveBeenCalled();
+    pending.catch(() => {});
+  });
+});
@@ -6,6 +6,8 @@ const mockInsertSelect = vi.fn();
 const mockInsert = vi.fn(() => ({ select: mockInsertSelect }));
 const mockInQuery = vi.fn().mockResolvedValue({ data: [], error: null });
 const mockSelect = vi.fn(() => ({ in: mockInQuery }));
+const mockContentIn = vi.fn().mockResolvedValue({ data: [], error: null });
+const mockRecipesIn = vi.fn().mockResolvedValue({ data: [], error: null });
 
 vi.mock("@/integrations/supabase/client", () => ({
   supabase: {
@@ -14,10 +16,10 @@ vi.mock("@/integrations/supabase/client", () => ({
         return { select: mockSelect, insert: mockInsert };
       }
       if (table === "recipe_content") {
-        return { select: vi.fn(() => ({ in: vi.fn().mockResolvedValue({ data: [], error: null }) })) };
+        return { select: vi.fn(() => ({ in: mockContentIn })) };
       }
       if (table === "recipes") {
-        return { select: vi.fn(() => ({ in: vi.fn().mockResolvedValue({ data: [], error: null }) })) };
+        return { select: vi.fn(() => ({ in: mockRecipesIn })) };
       }
       return { select: vi.fn(() => ({ in: vi.fn().mockResolvedValue({ data: [], error: null }), eq: vi.fn(() => ({ eq: vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ data: null, error: null }) })) })) })) };
     }),
@@ -33,17 +35,35 @@ vi.mock("@/lib/groceryCache", () => ({
   saveGroceryCache: vi.fn().mockResolvedValue(undefined),
   deleteGroceryCache: vi.fn().mockResolvedValue(undefined),
   loadCheckedItems: vi.fn().mockResolvedValue(new Set()),
-  saveCheckedItems: vi.fn().mockResolvedValue(undefined),
+  saveCheckedItems: vi.fn().mockResolvedValue(true),
 }));
 
 vi.mock("@/lib/generalGrocery", () => ({
   loadGeneralItems: vi.fn().mockResolvedValue([]),
-  addGeneralItem: vi.fn().mockResolvedValue(undefined),
-  removeGeneralItem: vi.fn().mockResolvedValue(undefined),
-  updateGeneralItem: vi.fn().mockResolvedValue(undefined),
+  addGeneralItem: vi.fn().mockResolvedValue(true),
+  removeGeneralItem: vi.fn().mockResolvedValue(true),
+  updateGeneralItem: vi.fn().mockResolvedValue(true),
   toRawIngredients: vi.fn().mockReturnValue([]),
 }));
 
+vi.mock("@/lib/groceryOffline", () => ({
+  OFFLINE_ID_PREFIX: "offline-",
+  applyGroceryOp: vi.fn().mockResolvedValue(true),
+  enqueueGroceryOp: vi.fn().mockResolvedValue(undefined),
+  getPendingGroceryOps: vi.fn().mockResolvedValue([]),
+  isNavigatorOnline: vi.fn(() => true),
+  loadGrocerySnapshot: vi.fn().mockResolvedValue(null),
+  replayGroceryQueue: vi.fn().mockResolvedValue({ applied: 0, remaining: 0 }),
+  saveGrocerySnapshot: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("@/lib/household", () => ({
+  loadHouseholdId: vi.fn().mockResolvedValue(null),
+  loadGroceryChecks: vi.fn().mockResolvedValue([]),
+  setGroceryCheck: vi.fn().mockResolvedValue(true),
+  subscribeToGroceryChecks: vi.fn(() => () => {}),
+}));
+
 vi.mock("@/lib/pantry", () => ({
   getPantryItems: vi.fn().mockResolvedValue([]),
   ensureDefaultPantryItems: vi.fn().mockResolvedValue(undefined),
@@ -64,10 +84,35 @@ vi.mock("@/lib/constants", () => ({
 
 import { useGroceryList } from "@/hooks/useGroceryList";
 import { parseIngredientText } from "@/lib/parseIngredientText";
-import { deleteGroceryCache } from "@/lib/groceryCache";
+import { deleteGroceryCache, saveCheckedItems } from "@/lib/groceryCache";
+import { addGeneralItem } from "@/lib/generalGrocery";
+import {
+  enqueueGroceryOp,
+  getPendingGroceryOps,
+  isNavigatorOnline,
+  loadGrocerySnapshot,
+} from "@/lib/groceryOffline";
+import {
+  loadHouseholdId,
+  loadGroceryChecks,
+  setGroceryCheck,
+  subscribeToGroceryChecks,
+} from "@/lib/household";
+import { smartCombineIngredients } from "@/lib/groceryList";
 
 const mockParseIngredientText = parseIngredientText as ReturnType<typeof vi.fn>;
 const mockDeleteGroceryCache = deleteGroceryCache as ReturnType<typeof vi.fn>;
+const mockSmartCombine = smartCombineIngredients as ReturnType<typeof vi.fn>;
+const mockSaveCheckedItems = saveCheckedItems as ReturnType<typeof vi.fn>;
+const mockAddGeneralItem = addGeneralItem as ReturnType<typeof vi.fn>;
+const mockEnqueueGroceryOp = enqueueGroceryOp as ReturnType<typeof vi.fn>;
+const mockGetPendingGroceryOps = getPendingGroceryOps as ReturnType<typeof vi.fn>;
+const mockIsNavigatorOnline = isNavigatorOnline as ReturnType<typeof vi.fn>;
+const mockLoadGrocerySnapshot = loadGrocerySnapshot as ReturnType<typeof vi.fn>;
+const mockLoadHouseholdId = loadHouseholdId as ReturnType<typeof vi.fn>;
+const mockLoadGroceryChecks = loadGroceryChecks as ReturnType<typeof vi.fn>;
+const mockSetGroceryCheck = setGroceryCheck as ReturnType<typeof vi.fn>;
+const mockSubscribeToGroceryChecks = subscribeToGroceryChecks as ReturnType<typeof vi.fn>;
 
 describe("useGroceryList - handleAddItemsToRecipe", () => {
   const defaultOptions = {
@@ -176,3 +221,261 @@ describe("useGroceryList - handleAddItemsToRecipe", () => {
     ).rejects.toThrow();
   });
 });
+
+describe("useGroceryList - servings scaling", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockInQuery.mockResolvedValue({
+      data: [
+        { id: "ing-1", recipe_id: "recipe-1", name: "flour", quantity: 2, unit: "cup", category: "pantry", raw_text: null, sort_order: 0, created_at: "2026-01-01" },
+        { id: "ing-2", recipe_id: "recipe-2", name: "rice", quantity: 1, unit: "cup", category: "pantry", raw_text: null, sort_order: 0, created_at: "2026-01-01" },
+      ],
+      error: null,
+    });
+    mockContentIn.mockResolvedValue({
+      data: [
+        { id: "c1", recipe_id: "recipe-1", servings: "Serves 4", status: "completed", created_at: "2026-01-01" },
+        { id: "c2", recipe_id: "recipe-2", servings: null, status: "completed", created_at: "2026-01-01" },
+      ],
+      error: null,
+    });
+    mockRecipesIn.mockResolvedValue({
+      data: [
+        { id: "recipe-1", name: "Bread", url: null },
+        { id: "recipe-2", name: "Rice", url: null },
+      ],
+      error: null,
+    });
+  });
+
+  it("scales each recipe from its stated servings to the target before combining", async () => {
+    renderHook(() =>
+      useGroceryList({
+        contextType: "meal_plan",
+        contextId: "2026-03-01",
+        userId: "user-1",
+        recipeIds: ["recipe-1", "recipe-2"],
+        servingsTargets: { "recipe-1": { servings: 2, batches: 1 }, "recipe-2": { servings: 2, batches: 1 } },
+      })
+    );
+
+    await vi.waitFor(() => expect(mockSmartCombine).toHaveBeenCalled());
+
+    const [ingredients] = mockSmartCombine.mock.calls[0];
+    expect(ingredients).toEqual([
+      expect.objectContaining({ name: "flour", quantity: 1 }),
+      // No stated servings — left unscaled
+      expect.objectContaining({ name: "rice", quantity: 1 }),
+    ]);
+  });
+
+  it("doesn't scale yields that aren't serving counts by the household size", async () => {
+    mockContentIn.mockResolvedValue({
+      data: [
+        { id: "c1", recipe_id: "recipe-1", servings: "1 loaf", status: "completed", created_at: "2026-01-01" },
+        { id: "c2", recipe_id: "recipe-2", servings: "Makes 24 cookies", status: "completed", created_at: "2026-01-01" },
+      ],
+      error: null,
+    });
+
+    renderHook(() =>
+      useGroceryList({
+        contextType: "meal_plan",
+        contextId: "2026-03-01",
+        userId: "user-1",
+        recipeIds: ["recipe-1", "recipe-2"],
+        servingsTargets: { "recipe-1": { servings: 4, batches: 1 }, "recipe-2": { servings: 4, batches: 2 } },
+      })
+    );
+
+    await vi.waitFor(() => expect(mockSmartCombine).toHaveBeenCalled());
+
+    const [ingredients] = mockSmartCombine.mock.calls[0];
+    expect(ingredients).toEqual([
+      expect.objectContaining({ name: "flour", quantity: 2 }),
+      // Planned twice: two batches of cookies
+      expect.objectContaining({ name: "rice", quantity: 2 }),
+    ]);
+  });
+
+  it("does not scale when no servings targets are given", async () => {
+    renderHook(() =>
+      useGroceryList({
+        contextType: "event",
+        contextId: "event-1",
+        userId: "user-1",
+        recipeIds: ["recipe-1", "recipe-2"],
+      })
+    );
+
+    await vi.waitFor(() => expect(mockSmartCombine).toHaveBeenCalled());
+
+    const [ingredients] = mockSmartCombine.mock.calls[0];
+    expect(ingredients[0]).toEqual(expect.objectContaining({ name: "flour", quantity: 2 }));
+  });
+});
+
+describe("useGroceryList - offline mode", () => {
+  const defaultOptions = {
+    contextType: "event" as const,
+    contextId: "event-1",
+    userId: "user-1",
+    recipeIds: [],
+    supportsGeneralItems: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsNavigatorOnline.mockReturnValue(true);
+    mockSaveCheckedItems.mockResolvedValue(true);
+    mockGetPendingGroceryOps.mockResolvedValue([]);
+    mockLoadGrocerySnapshot.mockResolvedValue(null);
+  });
+
+  it("queues checks instead of saving them while offline", async () => {
+    mockIsNavigatorOnline.mockReturnValue(false);
+    const { result } = renderHook(() => useGroceryList(defaultOptions));
+
+    await act(async () => {
+      result.current.handleToggleChecked("milk");
+    });
+
+    expect(result.current.isOffline).toBe(true);
+    expect(mockSaveCheckedItems).not.toHaveBeenCalled();
+    expect(mockEnqueueGroceryOp).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "check", name: "milk", checked: true, contextId: "event-1" })
+    );
+  });
+
+  it("queues a check when saving it fails", async () => {
+    mockSaveCheckedItems.mockResolvedValue(false);
+    mockGetPendingGroceryOps.mockResolvedValue([{ type: "check" }]);
+    const { result } = renderHook(() => useGroceryList({ ...defaultOptions, enabled: false }));
+
+    await act(async () => {
+      result.current.handleToggleChecked("milk");
+    });
+
+    expect(mockSaveCheckedItems).toHaveBeenCalled();
+    expect(mockEnqueueGroceryOp).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "check", name: "milk", checked: true })
+    );
+    expect(result.current.pendingSyncCount).toBe(1);
+  });
+
+  it("keeps general items added offline under a temporary ID", async () => {
+    mockIsNavigatorOnline.mockReturnValue(false);
+    const { result } = renderHook(() => useGroceryList({ ...defaultOptions, enabled: false }));
+
+    await act(async () => {
+      await result.current.handleAddGeneralItemDirect({ name: "paper towels" });
+    });
+
+    expect(mockAddGeneralItem).not.toHaveBeenCalled();
+    expect(mockEnqueueGroceryOp).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "add_general", item: expect.objectContaining({ name: "paper towels" }) })
+    );
+    expect(result.current.generalItems).toHaveLength(1);
+    expect(result.current.generalItems[0].id).toMatch(/^offline-/);
+  });
+
+  it("shows the offline snapshot instead of loading from the server", async () => {
+    mockIsNavigatorOnline.mockReturnValue(false);
+    mockLoadGrocerySnapshot.mockResolvedValue({
+      recipes: [],
+      recipeIngredients: [],
+      items: [{ name: "milk", displayName: "milk", category: "dairy", sourceRecipes: ["General"] }],
+      checkedItems: ["milk"],
+      generalItems: [],
+      savedAt: "2026-03-01T00:00:00Z",
+    });
+
+    const { result } = renderHook(() => useGroceryList({ ...defaultOptions, recipeIds: ["recipe-1"] }));
+
+    await act(async () => {});
+
+    expect(mockLoadGrocerySnapshot).toHaveBeenCalledWith({
+      contextType: "event",
+      contextId: "event-1",
+      userId: "user-1",
+    });
+    expect(result.current.smartGroceryItems).toHaveLength(1);
+    expect(result.current.checkedItems.has("milk")).toBe(true);
+    expect(mockSelect).not.toHaveBeenCalled();
+  });
+});
+
+describe("useGroceryList - shared household list", () => {
+  const defaultOptions = {
+    contextType: "meal_plan" as const,
+    contextId: "2026-03-01",
+    userId: "user-1",
+    recipeIds: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsNavigatorOnline.mockReturnValue(true);
+    mockLoadHouseholdId.mockResolvedValue("house-1");
+    mockLoadGroceryChecks.mockResolvedValue([
+      { itemName: "milk", checkedBy: "user-2", checkedByName: "Alex" },
+    ]);
+    mockSetGroceryCheck.mockResolvedValue(true);
+    mockSubscribeToGroceryChecks.mockReturnValue(() => {});
+  });
+
+  it("loads the household's checks and who made them", async () => {
+    const { result } = renderHook(() => useGroceryList(defaultOptions));
+
+    await act(async () => {});
+
+    expect(result.current.isSharedList).toBe(true);
+    expect(mockLoadGroceryChecks).toHaveBeenCalledWith("house-1", "meal_plan", "2026-03-01");
+    expect(result.current.checkedItems.has("milk")).toBe(true);
+    expect(result.current.checkedBy).toEqual({ milk: "Alex" });
+  });
+
+  it("saves checks to the shared list instead of the personal one", async () => {
+    const { result } = renderHook(() => useGroceryList(defaultOptions));
+    await act(async () => {});
+
+    await act(async () => {
+      result.current.handleToggleChecked("eggs");
+    });
+
+    expect(mockSetGroceryCheck).toHaveBeenCalledWith("house-1", "meal_plan", "2026-03-01", "eggs", true, "user-1");
+    expect(mockSaveCheckedItems).not.toHaveBeenCalled();
+  });
+
+  it("reloads checks when another member changes the list", async () => {
+    renderHook(() => useGroceryList(defaultOptions));
+    await act(async () => {});
+
+    expect(mockSubscribeToGroceryChecks).toHaveBeenCalledWith(
+      "house-1",
+      "meal_plan",
+      "2026-03-01",
+      expect.any(Function)
+    );
+    const onChange = mockSubscribeToGroceryChecks.mock.calls[0][3] as () => void;
+    mockLoadGroceryChecks.mockClear();
+
+    await act(async () => {
+      onChange();
+    });
+
+    expect(mockLoadGroceryChecks).toHaveBeenCalledTimes(1);
+  });
+
+  it("unsubscribes on unmount", async () => {
+    const unsubscribe = vi.fn();
+    mockSubscribeToGroceryChecks.mockReturnValue(unsubscribe);
+    const { unmount } = renderHook(() => useGroceryList(defaultOptions));
+    await act(async () => {});
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
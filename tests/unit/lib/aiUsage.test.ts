@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFrom = vi.fn();
+const mockRpc = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+import { loadAiUsageSummary, saveAiBudget, toMonthParam } from "@/lib/aiUsage";
+
+describe("aiUsage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("toMonthParam", () => {
+    it("returns the first of the month", () => {
+      expect(toMonthParam(new Date(2026, 2, 17))).toBe("2026-03-01");
+      expect(toMonthParam(new Date(2026, 10, 1))).toBe("2026-11-01");
+    });
+  });
+
+  describe("loadAiUsageSummary", () => {
+    it("maps rows and converts numeric strings", async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            user_id: "user-1",
+            email: "a@test.com",
+            name: "Alex",
+            call_count: 12,
+            input_tokens: 24000,
+            output_tokens: 6000,
+            estimated_cost_usd: "0.162000",
+            soft_limit_usd: "5.00",
+            hard_limit_usd: null,
+          },
+          {
+            user_id: "user-2",
+            email: "b@test.com",
+            name: null,
+            call_count: 0,
+            input_tokens: 0,
+            output_tokens: 0,
+            estimated_cost_usd: "0",
+            soft_limit_usd: null,
+            hard_limit_usd: null,
+          },
+        ],
+        error: null,
+      });
+
+      const result = await loadAiUsageSummary(new Date(2026, 2, 17));
+
+      expect(mockRpc).toHaveBeenCalledWith("get_ai_usage_summary", { p_month: "2026-03-01" });
+      expect(result).toEqual([
+        {
+          userId: "user-1",
+          email: "a@test.com",
+          name: "Alex",
+          callCount: 12,
+          inputTokens: 24000,
+          outputTokens: 6000,
+          estimatedCostUsd: 0.162,
+          softLimitUsd: 5,
+          hardLimitUsd: null,
+        },
+        {
+          userId: "user-2",
+          email: "b@test.com",
+          name: undefined,
+          callCount: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          estimatedCostUsd: 0,
+          softLimitUsd: null,
+          hardLimitUsd: null,
+        },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: new Error("RPC error") });
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(await loadAiUsageSummary(new Date())).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("saveAiBudget", () => {
+    it("upserts the limits", async () => {
+      const mockUpsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ upsert: mockUpsert });
+
+      await saveAiBudget("user-1", 5, 10);
+
+      expect(mockFrom).toHaveBeenCalledWith("ai_budgets");
+      expect(mockUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: "user-1", soft_limit_usd: 5, hard_limit_usd: 10 }),
+        { onConflict: "user_id" }
+      );
+    });
+
+    it("deletes the budget when both limits are cleared", async () => {
+      const mockEq = vi.fn().mockResolvedValue({ error: null });
+      const mockDelete = vi.fn().mockReturnValue({ eq: mockEq });
+      mockFrom.mockReturnValue({ delete: mockDelete });
+
+      await saveAiBudget("user-1", null, null);
+
+      expect(mockDelete).toHaveBeenCalled();
+      expect(mockEq).toHaveBeenCalledWith("user_id", "user-1");
+    });
+
+    it("throws on error", async () => {
+      mockFrom.mockReturnValue({
+        upsert: vi.fn().mockResolvedValue({ error: new Error("DB error") }),
+      });
+
+      await expect(saveAiBudget("user-1", 5, null)).rejects.toThrow("DB error");
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock supabase
+const mockFrom = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+import { hashApiToken, loadApiTokens, createApiToken, revokeApiToken } from "@/lib/apiTokens";
+
+describe("apiTokens", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("hashApiToken", () => {
+    it("returns the SHA-256 hex digest", async () => {
+      expect(await hashApiToken("abc")).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+      );
+    });
+  });
+
+  describe("loadApiTokens", () => {
+    it("maps rows without exposing hashes", async () => {
+      const mockOrder = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "token-1",
+            name: "Kitchen speaker",
+            token_prefix: "rcg_a1b2c3",
+            scope: "read",
+            last_used_at: null,
+            created_at: "2026-03-01T12:00:00Z",
+          },
+        ],
+        error: null,
+      });
+      const mockEq = vi.fn().mockReturnValue({ order: mockOrder });
+      const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
+      mockFrom.mockReturnValue({ select: mockSelect });
+
+      const tokens = await loadApiTokens("user-1");
+
+      expect(mockFrom).toHaveBeenCalledWith("api_tokens");
+      expect(mockSelect.mock.calls[0][0]).not.toContain("token_hash");
+      expect(mockEq).toHaveBeenCalledWith("user_id", "user-1");
+      expect(tokens).toEqual([
+        {
+          id: "token-1",
+          name: "Kitchen speaker",
+          tokenPrefix: "rcg_a1b2c3",
+          scope: "read",
+          lastUsedAt: undefined,
+          createdAt: "2026-03-01T12:00:00Z",
+        },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockFrom.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({ data: null, error: { message: "DB error" } }),
+          }),
+        }),
+      });
+
+      expect(await loadApiTokens("user-1")).toEqual([]);
+    });
+  });
+
+  describe("createApiToken", () => {
+    it("stores only the hash and a short prefix", async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ insert: mockInsert });
+
+      const token = await createApiToken("user-1", " Shortcut ", "read_write");
+
+      expect(token).toMatch(/^rcg_[0-9a-f]{64}$/);
+      expect(mockInsert).toHaveBeenCalledWith({
+        user_id: "user-1",
+        name: "Shortcut",
+        scope: "read_write",
+        token_hash: await hashApiToken(token),
+        token_prefix: token.slice(0, 10),
+      });
+    });
+
+    it("mints a different token each time", async () => {
+      mockFrom.mockReturnValue({ insert: vi.fn().mockResolvedValue({ error: null }) });
+
+      const first = await createApiToken("user-1", "One", "read");
+      const second = await createApiToken("user-1", "Two", "read");
+
+      expect(first).not.toBe(second);
+    });
+
+    it("throws when the insert fails", async () => {
+      mockFrom.mockReturnValue({
+        insert: vi.fn().mockResolvedValue({ error: { message: "RLS" } }),
+      });
+
+      await expect(createApiToken("user-1", "Shortcut", "read")).rejects.toEqual({ message: "RLS" });
+    });
+  });
+
+  describe("revokeApiToken", () => {
+    it("deletes the token", async () => {
+      const mockEq = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ delete: vi.fn().mockReturnValue({ eq: mockEq }) });
+
+      await revokeApiToken("token-1");
+
+      expect(mockEq).toHaveBeenCalledWith("id", "token-1");
+    });
+  });
+});
@@ -149,6 +149,7 @@ describe("Auth module integration", () => {
       signOut: ReturnType<typeof vi.fn>;
     };
     from: ReturnType<typeof vi.fn>;
+    rpc: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(async () => {
@@ -161,6 +162,7 @@ describe("Auth module integration", () => {
         signOut: vi.fn(),
       },
       from: vi.fn(),
+      rpc: vi.fn(),
     };
 
     vi.doMock("@/integrations/supabase/client", () => ({
@@ -305,62 +307,102 @@ describe("Auth module integration", () => {
     );
   });
 
-  it("should get club member emails", async () => {
-    const mockQueryBuilder = {
-      select: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockResolvedValue({
-        data: [
-          { email: "member1@test.com" },
-          { email: "member2@test.com" },
-        ],
-        error: null,
-      }),
-    };
-
-    mockSupabase.from.mockReturnValue(mockQueryBuilder);
+  it("should get club member emails for a club", async () => {
+    mockSupabase.rpc.mockResolvedValue({
+      data: ["member1@test.com", "member2@test.com"],
+      error: null,
+    });
 
     const { getClubMemberEmails } = await import("@/lib/auth");
-    const result = await getClubMemberEmails();
+    const result = await getClubMemberEmails("club-1");
 
-    expect(mockSupabase.from).toHaveBeenCalledWith("allowed_users");
-    expect(mockQueryBuilder.eq).toHaveBeenCalledWith("is_club_member", true);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("get_club_member_emails", { p_club_id: "club-1" });
     expect(result).toEqual(["member1@test.com", "member2@test.com"]);
   });
 
   it("should return empty array when no club members found", async () => {
-    const mockQueryBuilder = {
-      select: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockResolvedValue({
-        data: [],
-        error: null,
-      }),
-    };
-
-    mockSupabase.from.mockReturnValue(mockQueryBuilder);
+    mockSupabase.rpc.mockResolvedValue({ data: [], error: null });
 
     const { getClubMemberEmails } = await import("@/lib/auth");
-    const result = await getClubMemberEmails();
+    const result = await getClubMemberEmails("club-1");
 
     expect(result).toEqual([]);
   });
 
   it("should handle error when fetching club member emails", async () => {
-    const mockQueryBuilder = {
-      select: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockResolvedValue({
-        data: null,
-        error: { message: "Database error" },
-      }),
-    };
-
-    mockSupabase.from.mockReturnValue(mockQueryBuilder);
+    mockSupabase.rpc.mockResolvedValue({
+      data: null,
+      error: { message: "Database error" },
+    });
 
     const { getClubMemberEmails } = await import("@/lib/auth");
-    const result = await getClubMemberEmails();
+    const result = await getClubMemberEmails("club-1");
 
     expect(result).toEqual([]);
   });
 
+  describe("with an active club", () => {
+    const allowedRow = {
+      id: "allowed-user-123",
+      email: "test@example.com",
+      role: "member",
+      is_club_member: false,
+    };
+
+    beforeEach(() => {
+      localStorage.setItem("activeClubId", "club-1");
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    const mockTables = (membership: { role: string } | null, siteRole = "member") => {
+      const builders = {
+        allowed_users: {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: { ...allowedRow, role: siteRole }, error: null }),
+        },
+        club_members: {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: membership, error: null }),
+        },
+      };
+      mockSupabase.from.mockImplementation((table: keyof typeof builders) => builders[table]);
+      return builders;
+    };
+
+    it("uses the club role and membership", async () => {
+      const builders = mockTables({ role: "admin" });
+
+      const { getAllowedUser } = await import("@/lib/auth");
+      const result = await getAllowedUser("test@example.com");
+
+      expect(builders.club_members.eq).toHaveBeenCalledWith("club_id", "club-1");
+      expect(result).toMatchObject({ role: "admin", is_club_member: true });
+    });
+
+    it("treats non-members as viewers of the club", async () => {
+      mockTables(null);
+
+      const { getAllowedUser } = await import("@/lib/auth");
+      const result = await getAllowedUser("test@example.com");
+
+      expect(result).toMatchObject({ role: "viewer", is_club_member: false });
+    });
+
+    it("keeps site admins as admins in every club", async () => {
+      mockTables({ role: "viewer" }, "admin");
+
+      const { getAllowedUser } = await import("@/lib/auth");
+      const result = await getAllowedUser("test@example.com");
+
+      expect(result).toMatchObject({ role: "admin", is_club_member: true });
+    });
+  });
+
   it("should handle error when fetching allowed user", async () => {
     const mockQueryBuilder = {
       select: vi.fn().mockReturnThis(),
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock supabase
+const mockSelect = vi.fn();
+const mockEq = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: mockSelect,
+    })),
+  },
+}));
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  getActiveClubId,
+  setActiveClubId,
+  loadUserClubs,
+  resolveActiveClub,
+  loadActiveClub,
+} from "@/lib/clubs";
+import type { Club } from "@/types";
+
+const office: Club = { id: "club-office", name: "Office", role: "member" };
+const family: Club = { id: "club-family", name: "Family", role: "admin" };
+
+describe("clubs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setActiveClubId(null);
+    localStorage.clear();
+
+    // Default chain: select -> eq
+    mockSelect.mockReturnValue({ eq: mockEq });
+    mockEq.mockResolvedValue({ data: [], error: null });
+  });
+
+  describe("getActiveClubId / setActiveClubId", () => {
+    it("returns null when nothing is stored", () => {
+      expect(getActiveClubId()).toBeNull();
+    });
+
+    it("persists the choice to localStorage", () => {
+      setActiveClubId("club-1");
+
+      expect(getActiveClubId()).toBe("club-1");
+      expect(localStorage.getItem("activeClubId")).toBe("club-1");
+    });
+
+    it("clears the stored choice", () => {
+      setActiveClubId("club-1");
+      setActiveClubId(null);
+
+      expect(getActiveClubId()).toBeNull();
+      expect(localStorage.getItem("activeClubId")).toBeNull();
+    });
+  });
+
+  describe("loadUserClubs", () => {
+    it("returns the user's clubs with their role, sorted by name", async () => {
+      mockEq.mockResolvedValue({
+        data: [
+          { role: "member", clubs: { id: "club-office", name: "Office" } },
+          { role: "admin", clubs: { id: "club-family", name: "Family" } },
+        ],
+        error: null,
+      });
+
+      const result = await loadUserClubs("Me@Example.com");
+
+      expect(supabase.from).toHaveBeenCalledWith("club_members");
+      expect(mockSelect).toHaveBeenCalledWith("role, clubs (id, name)");
+      expect(mockEq).toHaveBeenCalledWith("email", "me@example.com");
+      expect(result).toEqual([family, office]);
+    });
+
+    it("skips memberships whose club is not visible", async () => {
+      mockEq.mockResolvedValue({
+        data: [{ role: "member", clubs: null }],
+        error: null,
+      });
+
+      expect(await loadUserClubs("me@example.com")).toEqual([]);
+    });
+
+    it("returns an empty list on error", async () => {
+      mockEq.mockResolvedValue({ data: null, error: { message: "DB error" } });
+
+      expect(await loadUserClubs("me@example.com")).toEqual([]);
+    });
+  });
+
+  describe("resolveActiveClub", () => {
+    it("keeps the stored club when the user still belongs to it", () => {
+      setActiveClubId("club-office");
+
+      expect(resolveActiveClub([family, office])).toEqual(office);
+      expect(getActiveClubId()).toBe("club-office");
+    });
+
+    it("falls back to the first club when the stored one is gone", () => {
+      setActiveClubId("club-old");
+
+      expect(resolveActiveClub([family, office])).toEqual(family);
+      expect(getActiveClubId()).toBe("club-family");
+    });
+
+    it("clears the active club for users without clubs", () => {
+      setActiveClubId("club-old");
+
+      expect(resolveActiveClub([])).toBeNull();
+      expect(getActiveClubId()).toBeNull();
+    });
+  });
+
+  describe("loadActiveClub", () => {
+    it("loads clubs and resolves the active one", async () => {
+      mockEq.mockResolvedValue({
+        data: [{ role: "member", clubs: { id: "club-office", name: "Office" } }],
+        error: null,
+      });
+
+      expect(await loadActiveClub("me@example.com")).toEqual(office);
+      expect(getActiveClubId()).toBe("club-office");
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRecipeIngredient } from "@tests/utils";
+
+const mockFrom = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+import {
+  clearCookProgress,
+  createCookTimer,
+  findStepDurations,
+  findStepIngredients,
+  formatTimer,
+  getTimerRemaining,
+  loadCookModeRecipe,
+  loadCookProgress,
+  saveCookProgress,
+  toggleCookTimer,
+  type CookTimer,
+} from "@/lib/cookMode";
+
+const timer = (overrides: Partial<CookTimer> = {}): CookTimer => ({
+  id: "0-1000",
+  label: "20 minutes",
+  stepIndex: 0,
+  durationSeconds: 1200,
+  endsAt: 1000 + 1200 * 1000,
+  remainingSeconds: 1200,
+  ...overrides,
+});
+
+/** Mock each table's query chain to resolve with the given result. */
+const mockTables = (results: Record<string, { data: unknown; error: unknown }>) => {
+  mockFrom.mockImplementation((table: string) => {
+    const result = results[table];
+    const chain = {
+      select: vi.fn(() => chain),
+      eq: vi.fn(() => chain),
+      maybeSingle: vi.fn().mockResolvedValue(result),
+      order: vi.fn().mockResolvedValue(result),
+    };
+    return chain;
+  });
+};
+
+describe("cookMode", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe("findStepDurations", () => {
+    it("finds minutes, hours and seconds", () => {
+      expect(findStepDurations("Simmer 20 minutes, stirring occasionally.")).toEqual([
+        { label: "20 minutes", seconds: 1200 },
+      ]);
+      expect(findStepDurations("Bake for 2 hrs.")).toEqual([{ label: "2 hrs", seconds: 7200 }]);
+      expect(findStepDurations("Microwave 30 sec")).toEqual([{ label: "30 sec", seconds: 30 }]);
+      expect(findStepDurations("Rest 1.5 hours")).toEqual([{ label: "1.5 hours", seconds: 5400 }]);
+    });
+
+    it("uses the lower bound of a range", () => {
+      expect(findStepDurations("Roast 25-30 minutes until golden")).toEqual([
+        { label: "25-30 minutes", seconds: 1500 },
+      ]);
+      expect(findStepDurations("Cook 3 to 4 mins per side")).toEqual([{ label: "3 to 4 mins", seconds: 180 }]);
+    });
+
+    it("reads worded amounts", () => {
+      expect(findStepDurations("Let it stand for a minute")).toEqual([{ label: "a minute", seconds: 60 }]);
+      expect(findStepDurations("Chill for an hour")).toEqual([{ label: "an hour", seconds: 3600 }]);
+      expect(findStepDurations("Knead for one minute")).toEqual([{ label: "one minute", seconds: 60 }]);
+      expect(findStepDurations("Marinate half an hour")).toEqual([{ label: "half an hour", seconds: 1800 }]);
+    });
+
+    it("combines adjacent amounts into one timer", () => {
+      expect(findStepDurations("Braise 1 hour 15 minutes")).toEqual([
+        { label: "1 hour 15 minutes", seconds: 4500 },
+      ]);
+      expect(findStepDurations("Braise 2 hours and 30 minutes")).toEqual([
+        { label: "2 hours and 30 minutes", seconds: 9000 },
+      ]);
+    });
+
+    it("keeps separate durations apart", () => {
+      expect(findStepDurations("Sear 2 minutes, then roast 10 minutes")).toEqual([
+        { label: "2 minutes", seconds: 120 },
+        { label: "10 minutes", seconds: 600 },
+      ]);
+    });
+
+    it("ignores zero durations and text without any", () => {
+      expect(findStepDurations("Boil for 0 minutes")).toEqual([]);
+      expect(findStepDurations("Season to taste.")).toEqual([]);
+      expect(findStepDurations("Add 2 cups of flour")).toEqual([]);
+    });
+  });
+
+  describe("findStepIngredients", () => {
+    const flour = createMockRecipeIngredient({ id: "1", name: "flour" });
+    const onion = createMockRecipeIngredient({ id: "2", name: "yellow onion" });
+    const egg = createMockRecipeIngredient({ id: "3", name: "egg" });
+    const oil = createMockRecipeIngredient({ id: "4", name: "olive oil" });
+    const blank = createMockRecipeIngredient({ id: "5", name: " " });
+    const ingredients = [flour, onion, egg, oil, blank];
+
+    it("matches names, plurals and the last word of longer names in recipe order", () => {
+      expect(findStepIngredients("Whisk the eggs, then fold in the Flour.", ingredients)).toEqual([flour, egg]);
+      expect(findStepIngredients("Fry the onions in the oil", ingredients)).toEqual([onion, oil]);
+      expect(findStepIngredients("Drizzle with olive oil", ingredients)).toEqual([oil]);
+    });
+
+    it("doesn't match inside other words", () => {
+      expect(findStepIngredients("Add the eggplant", ingredients)).toEqual([]);
+    });
+  });
+
+  describe("timers", () => {
+    it("creates a running timer for a step duration", () => {
+      expect(createCookTimer({ label: "20 minutes", seconds: 1200 }, 2, 5000)).toEqual({
+        id: expect.any(String),
+        label: "20 minutes",
+        stepIndex: 2,
+        durationSeconds: 1200,
+        endsAt: 5000 + 1200 * 1000,
+        remainingSeconds: 1200,
+      });
+    });
+
+    it("gives each timer its own id", () => {
+      const duration = { label: "5 minutes", seconds: 300 };
+      expect(createCookTimer(duration, 0, 5000).id).not.toBe(createCookTimer(duration, 0, 5000).id);
+    });
+
+    it("defaults to the current time", () => {
+      vi.spyOn(Date, "now").mockReturnValue(9000);
+      expect(createCookTimer({ label: "1 minute", seconds: 60 }, 0).endsAt).toBe(69000);
+      expect(toggleCookTimer(timer({ endsAt: null, remainingSeconds: 10 })).endsAt).toBe(19000);
+      vi.restoreAllMocks();
+    });
+
+    it("pauses with the time left and resumes from it", () => {
+      const paused = toggleCookTimer(timer(), 1000 + 200 * 1000);
+      expect(paused).toMatchObject({ endsAt: null, remainingSeconds: 1000 });
+
+      const resumed = toggleCookTimer(paused, 50000);
+      expect(resumed).toMatchObject({ endsAt: 50000 + 1000 * 1000, remainingSeconds: 1000 });
+    });
+
+    it("starts a finished timer over", () => {
+      const restarted = toggleCookTimer(timer({ endsAt: null, remainingSeconds: 0 }), 7000);
+      expect(restarted).toMatchObject({ endsAt: 7000 + 1200 * 1000, remainingSeconds: 1200 });
+    });
+
+    it("counts down running timers and stops at zero", () => {
+      expect(getTimerRemaining(timer(), 1000 + 59.5 * 1000)).toBe(1141);
+      expect(getTimerRemaining(timer(), 1000 + 2000 * 1000)).toBe(0);
+      expect(getTimerRemaining(timer(), 0)).toBe(1200);
+      expect(getTimerRemaining(timer({ endsAt: null, remainingSeconds: 42 }), 0)).toBe(42);
+    });
+
+    it("formats seconds as a clock", () => {
+      expect(formatTimer(0)).toBe("0:00");
+      expect(formatTimer(245)).toBe("4:05");
+      expect(formatTimer(1200)).toBe("20:00");
+      expect(formatTimer(3845)).toBe("1:04:05");
+    });
+  });
+
+  describe("progress", () => {
+    it("saves, loads and clears progress per recipe", () => {
+      saveCookProgress("recipe-1", { stepIndex: 3, timers: [timer()] });
+      expect(loadCookProgress("recipe-1")).toEqual({ stepIndex: 3, timers: [timer()] });
+      expect(loadCookProgress("recipe-2")).toBeNull();
+
+      clearCookProgress("recipe-1");
+      expect(loadCookProgress("recipe-1")).toBeNull();
+    });
+
+    it("drops malformed timers and ignores unreadable progress", () => {
+      localStorage.setItem(
+        "cookProgress:recipe-1",
+        JSON.stringify({ stepIndex: 1, timers: [timer(), { id: "bad" }, null] })
+      );
+      expect(loadCookProgress("recipe-1")).toEqual({ stepIndex: 1, timers: [timer()] });
+
+      localStorage.setItem("cookProgress:recipe-1", JSON.stringify({ stepIndex: "1", timers: [] }));
+      expect(loadCookProgress("recipe-1")).toBeNull();
+
+      localStorage.setItem("cookProgress:recipe-1", "{not json");
+      expect(loadCookProgress("recipe-1")).toBeNull();
+    });
+
+    it("carries on when storage is unavailable", () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+      const removeItem = vi.spyOn(Storage.prototype, "removeItem").mockImplementation(() => {
+        throw new Error("SecurityError");
+      });
+
+      expect(() => saveCookProgress("recipe-1", { stepIndex: 0, timers: [] })).not.toThrow();
+      expect(() => clearCookProgress("recipe-1")).not.toThrow();
+
+      setItem.mockRestore();
+      removeItem.mockRestore();
+    });
+  });
+
+  describe("loadCookModeRecipe", () => {
+    const ingredientRow = {
+      id: "ing-1",
+      recipe_id: "recipe-1",
+      name: "onion",
+      quantity: 1,
+      unit: null,
+      category: "produce",
+      raw_text: "1 onion, diced",
+      sort_order: 0,
+      created_at: "2026-03-01T00:00:00Z",
+    };
+
+    it("loads the name, steps and ingredients", async () => {
+      mockTables({
+        recipes: { data: { id: "recipe-1", name: "Soup" }, error: null },
+        recipe_content: { data: { instructions: ["Dice the onion.", "", 3, "Simmer 20 minutes."] }, error: null },
+        recipe_ingredients: { data: [ingredientRow, { ...ingredientRow, id: "ing-2", quantity: null, raw_text: null, sort_order: null, created_at: null }], error: null },
+      });
+
+      const recipe = await loadCookModeRecipe("recipe-1");
+
+      expect(mockFrom).toHaveBeenCalledWith("recipe_content");
+      expect(recipe).toEqual({
+        id: "recipe-1",
+        name: "Soup",
+        instructions: ["Dice the onion.", "Simmer 20 minutes."],
+        ingredients: [
+          {
+            id: "ing-1",
+            recipeId: "recipe-1",
+            name: "onion",
+            quantity: 1,
+            unit: undefined,
+            category: "produce",
+            rawText: "1 onion, diced",
+            sortOrder: 0,
+            createdAt: "2026-03-01T00:00:00Z",
+          },
+          {
+            id: "ing-2",
+            recipeId: "recipe-1",
+            name: "onion",
+            quantity: undefined,
+            unit: undefined,
+            category: "produce",
+            rawText: undefined,
+            sortOrder: undefined,
+            createdAt: undefined,
+          },
+        ],
+      });
+    });
+
+    it("returns no steps for a recipe that hasn't been parsed", async () => {
+      mockTables({
+        recipes: { data: { id: "recipe-1", name: "Soup" }, error: null },
+        recipe_content: { data: null, error: null },
+        recipe_ingredients: { data: null, error: null },
+      });
+
+      expect(await loadCookModeRecipe("recipe-1")).toEqual({
+        id: "recipe-1",
+        name: "Soup",
+        instructions: [],
+        ingredients: [],
+      });
+    });
+
+    it("returns null for a missing recipe", async () => {
+      mockTables({
+        recipes: { data: null, error: null },
+        recipe_content: { data: null, error: null },
+        recipe_ingredients: { data: [], error: null },
+      });
+
+      expect(await loadCookModeRecipe("missing")).toBeNull();
+    });
+
+    it.each(["recipes", "recipe_content", "recipe_ingredients"])("returns null when %s fails to load", async (table) => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockTables({
+        recipes: { data: { id: "recipe-1", name: "Soup" }, error: null },
+        recipe_content: { data: null, error: null },
+        recipe_ingredients: { data: [], error: null },
+        [table]: { data: null, error: { message: "boom" } },
+      });
+
+      expect(await loadCookModeRecipe("recipe-1")).toBeNull();
+      expect(consoleSpy).toHaveBeenCalledWith("Error loading recipe for cook mode:", { message: "boom" });
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDietaryConflicts,
+  findDislikedIngredients,
+  findMemberConflicts,
+  getDietaryRestrictionLabel,
+  parseDurationMinutes,
+  getRecipeTotalMinutes,
+  isDietaryRestriction,
+} from "@/lib/dietary";
+
+const names = (...list: string[]) => list.map((name) => ({ name }));
+
+describe("dietary", () => {
+  describe("findDietaryConflicts", () => {
+    it("flags meat and fish for vegetarians", () => {
+      expect(
+        findDietaryConflicts(names("chicken breasts", "onion", "anchovies"), ["vegetarian"])
+      ).toEqual([
+        { restriction: "vegetarian", ingredient: "chicken breasts" },
+        { restriction: "vegetarian", ingredient: "anchovies" },
+      ]);
+    });
+
+    it("allows fish for pescatarians", () => {
+      expect(findDietaryConflicts(names("salmon", "bacon"), ["pescatarian"])).toEqual([
+        { restriction: "pescatarian", ingredient: "bacon" },
+      ]);
+    });
+
+    it("flags dairy and eggs for vegans but not plant-based substitutes", () => {
+      const conflicts = findDietaryConflicts(
+        names("eggs", "whole milk", "coconut milk", "peanut butter", "eggplant", "honey"),
+        ["vegan"]
+      );
+      expect(conflicts.map((c) => c.ingredient)).toEqual(["eggs", "whole milk", "honey"]);
+    });
+
+    it("respects gluten-free exceptions", () => {
+      const conflicts = findDietaryConflicts(
+        names("all-purpose flour", "almond flour", "soy sauce", "tamari", "gluten-free pasta"),
+        ["gluten_free"]
+      );
+      expect(conflicts.map((c) => c.ingredient)).toEqual(["all-purpose flour", "soy sauce"]);
+    });
+
+    it("matches whole words only", () => {
+      expect(findDietaryConflicts(names("nutmeg", "coconut", "butternut squash"), ["nut_free", "dairy_free"])).toEqual([]);
+      expect(findDietaryConflicts(names("pine nuts"), ["nut_free"])).toHaveLength(1);
+    });
+
+    it("ignores unknown restrictions", () => {
+      expect(findDietaryConflicts(names("chicken"), ["keto"])).toEqual([]);
+      expect(isDietaryRestriction("keto")).toBe(false);
+      expect(isDietaryRestriction("vegan")).toBe(true);
+    });
+  });
+
+  describe("findMemberConflicts", () => {
+    it("groups conflicting ingredients per member and restriction", () => {
+      expect(
+        findMemberConflicts(names("bacon", "eggs", "pecans"), [
+          { name: "Alex", restrictions: ["vegetarian", "nut_free"] },
+          { name: "Sam", restrictions: ["egg_free"] },
+          { name: "Jo", restrictions: ["soy_free"] },
+        ])
+      ).toEqual([
+        { memberName: "Alex", restriction: "vegetarian", ingredients: ["bacon"] },
+        { memberName: "Alex", restriction: "nut_free", ingredients: ["pecans"] },
+        { memberName: "Sam", restriction: "egg_free", ingredients: ["eggs"] },
+      ]);
+    });
+  });
+
+  describe("getDietaryRestrictionLabel", () => {
+    it("labels known restrictions and passes others through", () => {
+      expect(getDietaryRestrictionLabel("gluten_free")).toBe("Gluten-free");
+      expect(getDietaryRestrictionLabel("keto")).toBe("keto");
+    });
+  });
+
+  describe("findDislikedIngredients", () => {
+    it("returns disliked terms present in the ingredients", () => {
+      expect(
+        findDislikedIngredients(names("fresh cilantro", "black olives", "lime"), [
+          "olive",
+          " cilantro ",
+          "mushroom",
+          "",
+        ])
+      ).toEqual(["olive", "cilantro"]);
+    });
+  });
+
+  describe("parseDurationMinutes", () => {
+    it("parses free-text durations", () => {
+      expect(parseDurationMinutes("45 minutes")).toBe(45);
+      expect(parseDurationMinutes("1 hr 30 mins")).toBe(90);
+      expect(parseDurationMinutes("1.5 hours")).toBe(90);
+      expect(parseDurationMinutes("20")).toBe(20);
+    });
+
+    it("parses ISO-8601 durations", () => {
+      expect(parseDurationMinutes("PT1H15M")).toBe(75);
+      expect(parseDurationMinutes("PT20M")).toBe(20);
+    });
+
+    it("returns undefined for unrecognized text", () => {
+      expect(parseDurationMinutes("overnight")).toBeUndefined();
+      expect(parseDurationMinutes(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("getRecipeTotalMinutes", () => {
+    it("prefers total time, then prep plus cook", () => {
+      expect(getRecipeTotalMinutes({ totalTime: "1 hour", prepTime: "10 min" })).toBe(60);
+      expect(getRecipeTotalMinutes({ prepTime: "10 min", cookTime: "25 min" })).toBe(35);
+      expect(getRecipeTotalMinutes({ cookTime: "25 min" })).toBe(25);
+      expect(getRecipeTotalMinutes({})).toBeUndefined();
+      expect(getRecipeTotalMinutes(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -172,10 +172,11 @@ describe("generalGrocery", () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
       mockInsert.mockResolvedValue({ error: new Error("Insert failed") });
 
-      await addGeneralItem("meal_plan", "2026-03-02", "user-1", {
+      const saved = await addGeneralItem("meal_plan", "2026-03-02", "user-1", {
         name: "test",
       });
 
+      expect(saved).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith(
         "Error adding general grocery item:",
         expect.any(Error)
@@ -189,9 +190,10 @@ describe("generalGrocery", () => {
       const delEq = vi.fn().mockResolvedValue({ error: null });
       mockDelete.mockReturnValue({ eq: delEq });
 
-      await removeGeneralItem("item-1");
+      const removed = await removeGeneralItem("item-1");
 
       expect(delEq).toHaveBeenCalledWith("id", "item-1");
+      expect(removed).toBe(true);
     });
 
     it("handles errors gracefully", async () => {
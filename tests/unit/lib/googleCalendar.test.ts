@@ -52,6 +52,7 @@ describe("Google Calendar Functions", () => {
         date: new Date("2025-01-20"),
         time: "19:00",
         ingredientName: "Salmon",
+        clubId: "club-1",
       });
 
       expect(result.success).toBe(true);
@@ -77,12 +78,30 @@ describe("Google Calendar Functions", () => {
       await createCalendarEvent({
         date: new Date("2025-01-20"),
         ingredientName: "Test",
+        clubId: "club-1",
       });
 
+      expect(mockGetClubMemberEmails).toHaveBeenCalledWith("club-1");
       const callBody = mockInvoke.mock.calls[0][1].body;
       expect(callBody.attendeeEmails).toEqual(["a@b.com"]);
     });
 
+    it("should invite nobody when no club is given", async () => {
+      mockInvoke.mockResolvedValueOnce({
+        data: { success: true, eventId: "evt-1" },
+        error: null,
+      });
+
+      await createCalendarEvent({
+        date: new Date("2025-01-20"),
+        ingredientName: "Test",
+      });
+
+      expect(mockGetClubMemberEmails).not.toHaveBeenCalled();
+      const callBody = mockInvoke.mock.calls[0][1].body;
+      expect(callBody.attendeeEmails).toEqual([]);
+    });
+
     it("should use default time of 19:00 when not provided", async () => {
       mockInvoke.mockResolvedValueOnce({
         data: { success: true, eventId: "evt-1" },
@@ -242,8 +242,9 @@ describe("groceryCache", () => {
       mockUpdate.mockReturnValue({ eq: updEq1 });
 
       const checkedItems = new Set(["onion", "garlic"]);
-      await saveCheckedItems("meal_plan", "2026-02-15", "user-1", checkedItems);
+      const saved = await saveCheckedItems("meal_plan", "2026-02-15", "user-1", checkedItems);
 
+      expect(saved).toBe(true);
       expect(mockUpdate).toHaveBeenCalledWith(
         expect.objectContaining({
           checked_items: expect.arrayContaining(["onion", "garlic"]),
@@ -274,8 +275,9 @@ describe("groceryCache", () => {
       const updEq1 = vi.fn().mockReturnValue({ eq: updEq2 });
       mockUpdate.mockReturnValue({ eq: updEq1 });
 
-      await saveCheckedItems("meal_plan", "2026-02-15", "user-1", new Set(["onion"]));
+      const saved = await saveCheckedItems("meal_plan", "2026-02-15", "user-1", new Set(["onion"]));
 
+      expect(saved).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith("Error saving checked items:", expect.any(Error));
       consoleSpy.mockRestore();
     });
@@ -26,6 +26,9 @@ import {
   decimalToFraction,
   detectCategory,
   parseFractionToDecimal,
+  canonicalIngredientName,
+  combineIngredientsLocally,
+  findAmbiguousNames,
 } from "@/lib/groceryList";
 import type { RecipeIngredient, SmartGroceryItem, GroceryCategory } from "@/types";
 import { createMockRecipeIngredient } from "@tests/utils";
@@ -931,28 +934,40 @@ describe("groceryList", () => {
       });
     });
 
-    it("throws when edge function returns skipped", async () => {
-      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    it("falls back to a local merge when edge function returns skipped", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
       mockInvoke.mockResolvedValue({ data: { skipped: true }, error: null });
 
-      await expect(smartCombineIngredients(ingredients, recipeNameMap)).rejects.toThrow("AI returned skipped or no items");
-      consoleSpy.mockRestore();
+      const result = await smartCombineIngredients(ingredients, recipeNameMap);
+
+      expect(result.items).toEqual([
+        { name: "broccoli", displayName: "broccoli", totalQuantity: 2, unit: undefined, category: "produce", sourceRecipes: ["Pasta"] },
+        { name: "broccoli florets", displayName: "broccoli florets", totalQuantity: 2, unit: "cup", category: "produce", sourceRecipes: ["Salad"] },
+      ]);
+      expect(result.perRecipeItems["recipe-1"]).toHaveLength(1);
+      expect(result.perRecipeItems["recipe-2"]).toHaveLength(1);
+      warnSpy.mockRestore();
     });
 
-    it("throws when edge function returns error", async () => {
-      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    it("falls back to a local merge when edge function returns error", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
       mockInvoke.mockResolvedValue({ data: null, error: new Error("Network error") });
 
-      await expect(smartCombineIngredients(ingredients, recipeNameMap)).rejects.toThrow("Network error");
-      consoleSpy.mockRestore();
+      const result = await smartCombineIngredients(ingredients, recipeNameMap);
+
+      expect(result.items).toHaveLength(2);
+      expect(warnSpy).toHaveBeenCalledWith("AI combine unavailable, using local merge:", expect.any(Error));
+      warnSpy.mockRestore();
     });
 
-    it("throws when data has no items", async () => {
-      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    it("falls back to a local merge when data has no items", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
       mockInvoke.mockResolvedValue({ data: { success: true }, error: null });
 
-      await expect(smartCombineIngredients(ingredients, recipeNameMap)).rejects.toThrow("AI returned skipped or no items");
-      consoleSpy.mockRestore();
+      const result = await smartCombineIngredients(ingredients, recipeNameMap);
+
+      expect(result.items).toHaveLength(2);
+      warnSpy.mockRestore();
     });
 
     it("defaults perRecipeItems to empty object when not provided", async () => {
@@ -966,40 +981,157 @@ describe("groceryList", () => {
       expect(result.perRecipeItems).toEqual({});
     });
 
-    it("handles unknown recipe IDs gracefully", async () => {
-      const unknownIngredients: RecipeIngredient[] = [
-        createMockRecipeIngredient({ id: "1", recipeId: "unknown", name: "flour", quantity: 1, unit: "cup" }),
+    it("sums the exact quantities rather than their rounded display forms", async () => {
+      const sixths: RecipeIngredient[] = [
+        createMockRecipeIngredient({ id: "1", recipeId: "recipe-1", name: "sugar", quantity: 1 / 6, unit: "cup", category: "pantry" }),
+        createMockRecipeIngredient({ id: "2", recipeId: "recipe-2", name: "sugar", quantity: 1 / 6, unit: "cup", category: "pantry" }),
       ];
-      const mockItems = [{ name: "flour", displayName: "flour", totalQuantity: 1, unit: "cup", category: "pantry", sourceRecipes: ["Unknown Recipe"] }];
-      mockInvoke.mockResolvedValue({ data: { items: mockItems, perRecipeItems: {} }, error: null });
 
-      await smartCombineIngredients(unknownIngredients, recipeNameMap);
+      const result = await smartCombineIngredients(sixths, recipeNameMap);
 
-      expect(mockInvoke).toHaveBeenCalledWith("process-grocery-list", {
-        body: {
-          rawIngredients: [
-            { name: "flour", quantity: "1", unit: "cup", category: "pantry", recipeName: "Unknown Recipe" },
-          ],
-        },
-      });
+      expect(result.items[0].totalQuantity).toBeCloseTo(1 / 3, 4);
+      expect(formatGroceryItem(result.items[0])).toBe("1/3 cup sugar");
+    });
+
+    it("does not call the edge function when there are no ambiguous names", async () => {
+      const exactIngredients: RecipeIngredient[] = [
+        createMockRecipeIngredient({ id: "1", recipeId: "recipe-1", name: "butter", quantity: 1, unit: "tbsp", category: "dairy" }),
+        createMockRecipeIngredient({ id: "2", recipeId: "recipe-2", name: "butter", quantity: 0.5, unit: "tsp", category: "dairy" }),
+        createMockRecipeIngredient({ id: "3", recipeId: "recipe-2", name: "onions", quantity: 2, unit: undefined, category: "produce" }),
+        createMockRecipeIngredient({ id: "4", recipeId: "recipe-1", name: "onion", quantity: 1, unit: undefined, category: "produce" }),
+      ];
+
+      const result = await smartCombineIngredients(exactIngredients, recipeNameMap);
+
+      expect(mockInvoke).not.toHaveBeenCalled();
+      expect(result.items).toEqual([
+        { name: "butter", displayName: "butter", totalQuantity: 3.5, unit: "tsp", category: "dairy", sourceRecipes: ["Pasta", "Salad"] },
+        { name: "onions", displayName: "onions", totalQuantity: 3, unit: undefined, category: "produce", sourceRecipes: ["Salad", "Pasta"] },
+      ]);
+      expect(result.perRecipeItems["recipe-1"]).toEqual([
+        { name: "butter", displayName: "butter", totalQuantity: 1, unit: "tbsp", category: "dairy", sourceRecipes: ["Pasta"] },
+        { name: "onion", displayName: "onion", totalQuantity: 1, unit: undefined, category: "produce", sourceRecipes: ["Pasta"] },
+      ]);
     });
 
-    it("handles ingredients with undefined quantity and unit", async () => {
-      const nullIngredients: RecipeIngredient[] = [
-        createMockRecipeIngredient({ id: "1", recipeId: "recipe-1", name: "salt", quantity: undefined, unit: undefined, category: "spices" }),
+    it("sends only ambiguous ingredients to the edge function", async () => {
+      const mixed: RecipeIngredient[] = [
+        createMockRecipeIngredient({ id: "1", recipeId: "recipe-1", name: "salt", quantity: 1, unit: "tsp", category: "spices" }),
+        createMockRecipeIngredient({ id: "2", recipeId: "recipe-2", name: "kosher salt", quantity: 1, unit: "tsp", category: "spices" }),
+        createMockRecipeIngredient({ id: "3", recipeId: "recipe-2", name: "flour", quantity: 1, unit: "cup", category: "pantry" }),
       ];
-      const mockItems = [{ name: "salt", displayName: "salt", category: "spices", sourceRecipes: ["Pasta"] }];
-      mockInvoke.mockResolvedValue({ data: { items: mockItems, perRecipeItems: {} }, error: null });
+      const aiItems = [
+        { name: "salt", displayName: "salt", totalQuantity: 2, unit: "tsp", category: "spices", sourceRecipes: ["Pasta", "Salad"] },
+      ];
+      mockInvoke.mockResolvedValue({
+        data: { items: aiItems, perRecipeItems: { Salad: [aiItems[0]] } },
+        error: null,
+      });
 
-      await smartCombineIngredients(nullIngredients, recipeNameMap);
+      const result = await smartCombineIngredients(mixed, recipeNameMap, undefined, {
+        provider: "anthropic",
+        model: "claude-haiku-4-5",
+      });
 
       expect(mockInvoke).toHaveBeenCalledWith("process-grocery-list", {
         body: {
           rawIngredients: [
-            { name: "salt", quantity: null, unit: null, category: "spices", recipeName: "Pasta" },
+            { name: "salt", quantity: "1", unit: "tsp", category: "spices", recipeName: "Pasta" },
+            { name: "kosher salt", quantity: "1", unit: "tsp", category: "spices", recipeName: "Salad" },
           ],
+          provider: "anthropic",
+          model: "claude-haiku-4-5",
         },
       });
+      expect(result.items.map((i) => i.name)).toEqual(["flour", "salt"]);
+      expect(result.perRecipeItems["recipe-2"].map((i) => i.name)).toEqual(["flour", "salt"]);
+    });
+
+    it("keeps unknown recipe names as perRecipeItems keys", async () => {
+      const unknownIngredients: RecipeIngredient[] = [
+        createMockRecipeIngredient({ id: "1", recipeId: "unknown", name: "flour", quantity: 1, unit: "cup" }),
+      ];
+
+      const result = await smartCombineIngredients(unknownIngredients, recipeNameMap);
+
+      expect(result.perRecipeItems["Unknown Recipe"]).toEqual([
+        { name: "flour", displayName: "flour", totalQuantity: 1, unit: "cup", category: "pantry", sourceRecipes: ["Unknown Recipe"] },
+      ]);
+    });
+
+    it("includes extra raw ingredients such as General items", async () => {
+      const result = await smartCombineIngredients([], recipeNameMap, [
+        { name: "paper towels", quantity: null, unit: null, category: "other", recipeName: "General" },
+      ]);
+
+      expect(result.items).toEqual([
+        { name: "paper towels", displayName: "paper towels", totalQuantity: undefined, unit: undefined, category: "other", sourceRecipes: ["General"] },
+      ]);
+      expect(result.perRecipeItems.General).toHaveLength(1);
+    });
+  });
+
+  describe("canonicalIngredientName", () => {
+    it("lowercases and singularizes the last word", () => {
+      expect(canonicalIngredientName("  Red  Onions ")).toBe("red onion");
+      expect(canonicalIngredientName("tomatoes")).toBe("tomato");
+      expect(canonicalIngredientName("cherries")).toBe("cherry");
+      expect(canonicalIngredientName("peaches")).toBe("peach");
+      expect(canonicalIngredientName("swiss")).toBe("swiss");
+      expect(canonicalIngredientName("")).toBe("");
+    });
+  });
+
+  describe("combineIngredientsLocally", () => {
+    const raw = (name: string, quantity: string | null, unit: string | null, recipeName = "A", category = "other") =>
+      ({ name, quantity, unit, category, recipeName });
+
+    it("converts compatible units before summing", () => {
+      const items = combineIngredientsLocally([
+        raw("milk", "1", "cup"),
+        raw("milk", "4", "tablespoons", "B"),
+      ]);
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ totalQuantity: 1.25, unit: "cup", sourceRecipes: ["A", "B"] });
+    });
+
+    it("keeps incompatible units as separate items", () => {
+      const items = combineIngredientsLocally([
+        raw("garlic", "2", "clove"),
+        raw("garlic", "1", "tsp"),
+      ]);
+      expect(items.map((i) => [i.totalQuantity, i.unit])).toEqual([[2, "clove"], [1, "tsp"]]);
+    });
+
+    it("absorbs unquantified entries into a quantified one", () => {
+      const items = combineIngredientsLocally([
+        raw("salt", null, null),
+        raw("salt", "1/2", "tsp", "B"),
+      ]);
+      expect(items).toEqual([
+        { name: "salt", displayName: "salt", totalQuantity: 0.5, unit: "tsp", category: "other", sourceRecipes: ["A", "B"] },
+      ]);
+    });
+
+    it("prefers category overrides, then the first specific category", () => {
+      const items = combineIngredientsLocally([
+        raw("egg", "1", null, "A", "dairy"),
+        raw("basil", "1", "bunch", "A", "other"),
+        raw("basil", "1", "bunch", "B", "produce"),
+      ]);
+      expect(items[0].category).toBe("pantry");
+      expect(items[1].category).toBe("produce");
+      expect(items[1].totalQuantity).toBe(2);
+    });
+  });
+
+  describe("findAmbiguousNames", () => {
+    it("flags names contained in another at a word boundary", () => {
+      expect([...findAmbiguousNames(["salt", "kosher salt", "flour", "saltines"])].sort()).toEqual(["kosher salt", "salt"]);
+    });
+
+    it("does not flag plural variants of the same name", () => {
+      expect(findAmbiguousNames(["onion", "onions"]).size).toBe(0);
     });
   });
 
@@ -1019,6 +1151,11 @@ describe("groceryList", () => {
       expect(detectCategory("egg")).toBe("pantry");
     });
 
+    it("falls back to the keyword dictionary", () => {
+      expect(detectCategory("cheddar cheese")).toBe("dairy");
+      expect(detectCategory("boneless chicken thighs")).toBe("meat_seafood");
+    });
+
     it("returns 'other' for unknown ingredients", () => {
       expect(detectCategory("dragon fruit")).toBe("other");
       expect(detectCategory("mystery spice")).toBe("other");
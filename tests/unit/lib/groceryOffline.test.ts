@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock supabase
+const mockMaybeSingle = vi.fn();
+const mockEq = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({ eq: mockEq })),
+      update: mockUpdate,
+      delete: mockDelete,
+    })),
+  },
+}));
+
+vi.mock("@/lib/groceryCache", () => ({
+  saveCheckedItems: vi.fn(),
+}));
+
+vi.mock("@/lib/household", () => ({
+  setGroceryCheck: vi.fn(),
+}));
+
+vi.mock("@/lib/generalGrocery", () => ({
+  addGeneralItem: vi.fn(),
+  removeGeneralItem: vi.fn(),
+  updateGeneralItem: vi.fn(),
+}));
+
+import type * as GroceryOffline from "@/lib/groceryOffline";
+
+// jsdom has no IndexedDB, so the module keeps its queue in memory. Reload it
+// for each test so queued changes don't leak between tests.
+let offline: typeof GroceryOffline;
+let saveCheckedItems: ReturnType<typeof vi.fn>;
+let addGeneralItem: ReturnType<typeof vi.fn>;
+let updateGeneralItem: ReturnType<typeof vi.fn>;
+let setGroceryCheck: ReturnType<typeof vi.fn>;
+
+const context = { contextType: "event" as const, contextId: "event-1", userId: "user-1" };
+
+describe("groceryOffline", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    offline = await import("@/lib/groceryOffline");
+    ({ saveCheckedItems } = (await import("@/lib/groceryCache")) as unknown as {
+      saveCheckedItems: ReturnType<typeof vi.fn>;
+    });
+    ({ addGeneralItem, updateGeneralItem } = (await import("@/lib/generalGrocery")) as unknown as {
+      addGeneralItem: ReturnType<typeof vi.fn>;
+      updateGeneralItem: ReturnType<typeof vi.fn>;
+    });
+    ({ setGroceryCheck } = (await import("@/lib/household")) as unknown as {
+      setGroceryCheck: ReturnType<typeof vi.fn>;
+    });
+
+    // Default chain: select -> eq -> eq -> eq -> maybeSingle
+    mockEq.mockReturnValue({ eq: mockEq, maybeSingle: mockMaybeSingle });
+    mockMaybeSingle.mockResolvedValue({ data: { checked_items: [] }, error: null });
+    mockUpdate.mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) });
+    mockDelete.mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) });
+    saveCheckedItems.mockResolvedValue(true);
+    addGeneralItem.mockResolvedValue(true);
+    updateGeneralItem.mockResolvedValue(true);
+    setGroceryCheck.mockResolvedValue(true);
+  });
+
+  describe("mergeCheckedItems", () => {
+    it("keeps items checked on either device", () => {
+      const merged = offline.mergeCheckedItems(
+        ["milk"],
+        [{ ...context, type: "check", name: "eggs", checked: true }]
+      );
+
+      expect(merged).toEqual(new Set(["milk", "eggs"]));
+    });
+
+    it("applies items unchecked offline", () => {
+      const merged = offline.mergeCheckedItems(
+        ["milk", "eggs"],
+        [{ ...context, type: "check", name: "eggs", checked: false }]
+      );
+
+      expect(merged).toEqual(new Set(["milk"]));
+    });
+
+    it("uses the latest change for an item", () => {
+      const merged = offline.mergeCheckedItems(
+        [],
+        [
+          { ...context, type: "check", name: "eggs", checked: true },
+          { ...context, type: "check", name: "eggs", checked: false },
+        ]
+      );
+
+      expect(merged).toEqual(new Set());
+    });
+  });
+
+  describe("snapshots", () => {
+    it("round-trips the list for a context", async () => {
+      await offline.saveGrocerySnapshot(context, {
+        recipes: [],
+        recipeIngredients: [],
+        items: [{ name: "milk", displayName: "milk", category: "dairy", sourceRecipes: ["General"] }],
+        checkedItems: ["milk"],
+        generalItems: [],
+      });
+
+      const snapshot = await offline.loadGrocerySnapshot(context);
+
+      expect(snapshot?.items).toHaveLength(1);
+      expect(snapshot?.checkedItems).toEqual(["milk"]);
+      expect(await offline.loadGrocerySnapshot({ ...context, contextId: "event-2" })).toBeNull();
+    });
+  });
+
+  describe("enqueueGroceryOp", () => {
+    it("folds updates to an offline-added item into its pending add", async () => {
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "add_general",
+        tempId: "offline-1",
+        item: { name: "milk" },
+      });
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "update_general",
+        itemId: "offline-1",
+        updates: { name: "oat milk", quantity: "2" },
+      });
+
+      expect(await offline.getPendingGroceryOps(context)).toEqual([
+        { ...context, type: "add_general", tempId: "offline-1", item: { name: "oat milk", quantity: "2" } },
+      ]);
+    });
+
+    it("drops the pending add when an offline-added item is removed", async () => {
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "add_general",
+        tempId: "offline-1",
+        item: { name: "milk" },
+      });
+      await offline.enqueueGroceryOp({ ...context, type: "remove_general", itemId: "offline-1" });
+
+      expect(await offline.getPendingGroceryOps(context)).toEqual([]);
+    });
+
+    it("filters pending changes by context", async () => {
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "milk", checked: true });
+      await offline.enqueueGroceryOp({
+        ...context,
+        contextId: "event-2",
+        type: "check",
+        name: "eggs",
+        checked: true,
+      });
+
+      expect(await offline.getPendingGroceryOps(context)).toHaveLength(1);
+      expect(await offline.getPendingGroceryOps()).toHaveLength(2);
+    });
+  });
+
+  describe("replayGroceryQueue", () => {
+    it("merges queued checks with the server's checked items", async () => {
+      mockMaybeSingle.mockResolvedValue({ data: { checked_items: ["bread"] }, error: null });
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "milk", checked: true });
+
+      const result = await offline.replayGroceryQueue();
+
+      expect(saveCheckedItems).toHaveBeenCalledWith("event", "event-1", "user-1", new Set(["bread", "milk"]));
+      expect(result).toEqual({ applied: 1, remaining: 0 });
+      expect(await offline.getPendingGroceryOps()).toEqual([]);
+    });
+
+    it("keeps checks queued when the server's list can't be read", async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: { message: "offline" } });
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "milk", checked: true });
+
+      const result = await offline.replayGroceryQueue();
+
+      expect(saveCheckedItems).not.toHaveBeenCalled();
+      expect(result).toEqual({ applied: 0, remaining: 1 });
+    });
+
+    it("writes each item's latest check to a shared household list", async () => {
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "milk", checked: true, householdId: "house-1" });
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "milk", checked: false, householdId: "house-1" });
+      await offline.enqueueGroceryOp({ ...context, type: "check", name: "eggs", checked: true, householdId: "house-1" });
+
+      const result = await offline.replayGroceryQueue();
+
+      expect(setGroceryCheck).toHaveBeenCalledTimes(2);
+      expect(setGroceryCheck).toHaveBeenCalledWith("house-1", "event", "event-1", "milk", false, "user-1");
+      expect(setGroceryCheck).toHaveBeenCalledWith("house-1", "event", "event-1", "eggs", true, "user-1");
+      expect(saveCheckedItems).not.toHaveBeenCalled();
+      expect(result).toEqual({ applied: 3, remaining: 0 });
+    });
+
+    it("replays general item changes in order", async () => {
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "add_general",
+        tempId: "offline-1",
+        item: { name: "milk" },
+      });
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "update_general",
+        itemId: "item-2",
+        updates: { quantity: "3" },
+      });
+
+      const result = await offline.replayGroceryQueue();
+
+      expect(addGeneralItem).toHaveBeenCalledWith("event", "event-1", "user-1", { name: "milk" });
+      expect(updateGeneralItem).toHaveBeenCalledWith("item-2", { quantity: "3" });
+      expect(result).toEqual({ applied: 2, remaining: 0 });
+    });
+
+    it("stops at the first failed change and keeps the rest queued", async () => {
+      addGeneralItem.mockResolvedValue(false);
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "add_general",
+        tempId: "offline-1",
+        item: { name: "milk" },
+      });
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "update_general",
+        itemId: "item-2",
+        updates: { quantity: "3" },
+      });
+
+      const result = await offline.replayGroceryQueue();
+
+      expect(updateGeneralItem).not.toHaveBeenCalled();
+      expect(result).toEqual({ applied: 0, remaining: 2 });
+      expect(await offline.getPendingGroceryOps()).toHaveLength(2);
+    });
+
+    it("writes queued recipe ingredient edits", async () => {
+      await offline.enqueueGroceryOp({
+        ...context,
+        type: "edit_ingredient",
+        ingredientId: "ing-1",
+        name: "2 onions",
+      });
+
+      await offline.replayGroceryQueue();
+
+      expect(mockUpdate).toHaveBeenCalledWith({ name: "2 onions", quantity: null, unit: null });
+    });
+  });
+});
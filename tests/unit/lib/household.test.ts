@@ -0,0 +1,346 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock supabase
+const mockRpc = vi.fn();
+const mockFrom = vi.fn();
+const mockChannelOn = vi.fn();
+const mockSubscribe = vi.fn();
+const mockRemoveChannel = vi.fn();
+const mockChannel = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+    channel: (...args: unknown[]) => mockChannel(...args),
+    removeChannel: (...args: unknown[]) => mockRemoveChannel(...args),
+  },
+}));
+
+import {
+  loadHouseholdId,
+  loadHousehold,
+  loadHouseholdInvites,
+  acceptHouseholdInvite,
+  createHousehold,
+  inviteHouseholdMember,
+  removeHouseholdMember,
+  loadGroceryChecks,
+  setGroceryCheck,
+  subscribeToGroceryChecks,
+} from "@/lib/household";
+
+describe("household", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChannel.mockReturnValue({ on: mockChannelOn });
+    mockChannelOn.mockReturnValue({ subscribe: mockSubscribe });
+    mockSubscribe.mockReturnValue({ id: "channel-1" });
+  });
+
+  describe("loadHouseholdId", () => {
+    it("returns the current user's household", async () => {
+      mockRpc.mockResolvedValue({ data: "house-1", error: null });
+
+      expect(await loadHouseholdId()).toBe("house-1");
+      expect(mockRpc).toHaveBeenCalledWith("my_household_id");
+    });
+
+    it("returns null on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRpc.mockResolvedValue({ data: null, error: { message: "DB error" } });
+
+      expect(await loadHouseholdId()).toBeNull();
+    });
+  });
+
+  describe("loadHousehold", () => {
+    it("returns null when the user has no household", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      expect(await loadHousehold()).toBeNull();
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it("lists the owner first, then members by email", async () => {
+      mockRpc.mockResolvedValue({ data: "house-1", error: null });
+      const mockEq = vi.fn().mockReturnValue({
+        maybeSingle: vi.fn().mockResolvedValue({
+          data: {
+            id: "house-1",
+            name: "The Smiths",
+            household_members: [
+              { email: "zoe@example.com", role: "member", accepted_at: null },
+              { email: "sam@example.com", role: "owner", accepted_at: "2026-03-01T10:00:00Z" },
+              { email: "alex@example.com", role: "member", accepted_at: "2026-03-02T10:00:00Z" },
+            ],
+          },
+          error: null,
+        }),
+      });
+      mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: mockEq }) });
+
+      const household = await loadHousehold();
+
+      expect(mockEq).toHaveBeenCalledWith("id", "house-1");
+      expect(household).toEqual({
+        id: "house-1",
+        name: "The Smiths",
+        members: [
+          { email: "sam@example.com", role: "owner", pending: false },
+          { email: "alex@example.com", role: "member", pending: false },
+          { email: "zoe@example.com", role: "member", pending: true },
+        ],
+      });
+    });
+  });
+
+  describe("createHousehold", () => {
+    it("creates the household and adds the creator as owner", async () => {
+      const mockHouseholdInsert = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: { id: "house-1" }, error: null }),
+        }),
+      });
+      const mockMemberInsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockImplementation((table: string) =>
+        table === "households" ? { insert: mockHouseholdInsert } : { insert: mockMemberInsert }
+      );
+
+      const id = await createHousehold("The Smiths", "user-1", "Sam@Example.com");
+
+      expect(id).toBe("house-1");
+      expect(mockHouseholdInsert).toHaveBeenCalledWith({ name: "The Smiths", created_by: "user-1" });
+      expect(mockMemberInsert).toHaveBeenCalledWith({
+        household_id: "house-1",
+        email: "sam@example.com",
+        role: "owner",
+        accepted_at: expect.any(String),
+      });
+    });
+
+    it("throws when the household can't be created", async () => {
+      mockFrom.mockReturnValue({
+        insert: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: null, error: { message: "RLS" } }),
+          }),
+        }),
+      });
+
+      await expect(createHousehold("The Smiths", "user-1", "sam@example.com")).rejects.toEqual({
+        message: "RLS",
+      });
+    });
+  });
+
+  describe("members", () => {
+    it("invites by lowercased email", async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ insert: mockInsert });
+
+      await inviteHouseholdMember("house-1", " Alex@Example.com ");
+
+      expect(mockInsert).toHaveBeenCalledWith({
+        household_id: "house-1",
+        email: "alex@example.com",
+        role: "member",
+      });
+    });
+
+    it("throws when the invite fails (e.g. already invited)", async () => {
+      mockFrom.mockReturnValue({
+        insert: vi.fn().mockResolvedValue({ error: { code: "23505" } }),
+      });
+
+      await expect(inviteHouseholdMember("house-1", "alex@example.com")).rejects.toEqual({
+        code: "23505",
+      });
+    });
+
+    it("removes a member from the household", async () => {
+      const mockEq2 = vi.fn().mockResolvedValue({ error: null });
+      const mockEq1 = vi.fn().mockReturnValue({ eq: mockEq2 });
+      mockFrom.mockReturnValue({ delete: vi.fn().mockReturnValue({ eq: mockEq1 }) });
+
+      await removeHouseholdMember("house-1", "Alex@Example.com");
+
+      expect(mockEq1).toHaveBeenCalledWith("household_id", "house-1");
+      expect(mockEq2).toHaveBeenCalledWith("email", "alex@example.com");
+    });
+  });
+
+  describe("invites", () => {
+    it("lists the households waiting on the current user", async () => {
+      mockRpc.mockResolvedValue({
+        data: [{ household_id: "house-2", household_name: "The Joneses" }],
+        error: null,
+      });
+
+      expect(await loadHouseholdInvites()).toEqual([{ householdId: "house-2", householdName: "The Joneses" }]);
+      expect(mockRpc).toHaveBeenCalledWith("my_household_invites");
+    });
+
+    it("returns no invites on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRpc.mockResolvedValue({ data: null, error: { message: "DB error" } });
+
+      expect(await loadHouseholdInvites()).toEqual([]);
+    });
+
+    it("accepts an invite", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      await acceptHouseholdInvite("house-2");
+
+      expect(mockRpc).toHaveBeenCalledWith("accept_household_invite", { p_household_id: "house-2" });
+    });
+
+    it("throws when the invite can't be accepted (e.g. already in a household)", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { code: "23505" } });
+
+      await expect(acceptHouseholdInvite("house-2")).rejects.toEqual({ code: "23505" });
+    });
+  });
+
+  describe("loadGroceryChecks", () => {
+    it("returns checks with the checker's name", async () => {
+      const mockEq3 = vi.fn().mockResolvedValue({
+        data: [
+          {
+            item_name: "milk",
+            checked_by: "user-2",
+            checked_at: "2026-03-01T10:00:00Z",
+            profiles: { name: "Alex" },
+          },
+        ],
+        error: null,
+      });
+      const mockEq2 = vi.fn().mockReturnValue({ eq: mockEq3 });
+      const mockEq1 = vi.fn().mockReturnValue({ eq: mockEq2 });
+      mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: mockEq1 }) });
+
+      const checks = await loadGroceryChecks("house-1", "meal_plan", "2026-03-01");
+
+      expect(mockFrom).toHaveBeenCalledWith("grocery_checks");
+      expect(mockEq1).toHaveBeenCalledWith("household_id", "house-1");
+      expect(mockEq2).toHaveBeenCalledWith("context_type", "meal_plan");
+      // A Sunday-start week is keyed by the Monday of the days it covers
+      expect(mockEq3).toHaveBeenCalledWith("context_id", "2026-03-02");
+      expect(checks).toEqual([
+        {
+          itemName: "milk",
+          checkedBy: "user-2",
+          checkedAt: "2026-03-01T10:00:00Z",
+          checkedByName: "Alex",
+        },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const mockEq3 = vi.fn().mockResolvedValue({ data: null, error: { message: "DB error" } });
+      mockFrom.mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ eq: mockEq3 }) }),
+        }),
+      });
+
+      expect(await loadGroceryChecks("house-1", "event", "event-1")).toEqual([]);
+    });
+  });
+
+  describe("setGroceryCheck", () => {
+    it("upserts a check with who checked it", async () => {
+      const mockUpsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ upsert: mockUpsert });
+
+      const saved = await setGroceryCheck("house-1", "event", "event-1", "milk", true, "user-1");
+
+      expect(saved).toBe(true);
+      expect(mockUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          household_id: "house-1",
+          context_type: "event",
+          context_id: "event-1",
+          item_name: "milk",
+          checked_by: "user-1",
+        }),
+        { onConflict: "household_id,context_type,context_id,item_name" }
+      );
+    });
+
+    it("deletes the check when unchecking", async () => {
+      const mockEq4 = vi.fn().mockResolvedValue({ error: null });
+      const mockEq3 = vi.fn().mockReturnValue({ eq: mockEq4 });
+      const mockEq2 = vi.fn().mockReturnValue({ eq: mockEq3 });
+      const mockEq1 = vi.fn().mockReturnValue({ eq: mockEq2 });
+      mockFrom.mockReturnValue({ delete: vi.fn().mockReturnValue({ eq: mockEq1 }) });
+
+      const saved = await setGroceryCheck("house-1", "event", "event-1", "milk", false, "user-1");
+
+      expect(saved).toBe(true);
+      expect(mockEq4).toHaveBeenCalledWith("item_name", "milk");
+    });
+
+    it("shares one check between members with different week start days", async () => {
+      const mockUpsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValue({ upsert: mockUpsert });
+
+      // week_start_day 0 (Sunday) and 1 (Monday) for the same week
+      await setGroceryCheck("house-1", "meal_plan", "2026-10-18", "milk", true, "user-1");
+      await setGroceryCheck("house-1", "meal_plan", "2026-10-19", "milk", true, "user-2");
+
+      expect(mockUpsert.mock.calls[0][0].context_id).toBe("2026-10-19");
+      expect(mockUpsert.mock.calls[1][0].context_id).toBe("2026-10-19");
+    });
+
+    it("returns false on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockFrom.mockReturnValue({
+        upsert: vi.fn().mockResolvedValue({ error: { message: "offline" } }),
+      });
+
+      expect(await setGroceryCheck("house-1", "event", "event-1", "milk", true, "user-1")).toBe(false);
+    });
+  });
+
+  describe("subscribeToGroceryChecks", () => {
+    it("calls back for changes to the same list only", () => {
+      const onChange = vi.fn();
+      subscribeToGroceryChecks("house-1", "event", "event-1", onChange);
+
+      expect(mockChannelOn).toHaveBeenCalledWith(
+        "postgres_changes",
+        expect.objectContaining({ table: "grocery_checks", filter: "household_id=eq.house-1" }),
+        expect.any(Function)
+      );
+      const handler = mockChannelOn.mock.calls[0][2] as (payload: unknown) => void;
+
+      handler({ eventType: "INSERT", new: { context_type: "event", context_id: "event-1" }, old: {} });
+      handler({ eventType: "DELETE", new: {}, old: { context_type: "event", context_id: "event-1" } });
+      handler({ eventType: "INSERT", new: { context_type: "event", context_id: "event-2" }, old: {} });
+
+      expect(onChange).toHaveBeenCalledTimes(2);
+    });
+
+    it("hears checks from members whose week starts on another day", () => {
+      const onChange = vi.fn();
+      subscribeToGroceryChecks("house-1", "meal_plan", "2026-10-18", onChange);
+      const handler = mockChannelOn.mock.calls[0][2] as (payload: unknown) => void;
+
+      handler({ eventType: "INSERT", new: { context_type: "meal_plan", context_id: "2026-10-19" }, old: {} });
+      handler({ eventType: "INSERT", new: { context_type: "meal_plan", context_id: "2026-10-12" }, old: {} });
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it("removes the channel on unsubscribe", () => {
+      const unsubscribe = subscribeToGroceryChecks("house-1", "event", "event-1", vi.fn());
+
+      unsubscribe();
+
+      expect(mockRemoveChannel).toHaveBeenCalledWith({ id: "channel-1" });
+    });
+  });
+});
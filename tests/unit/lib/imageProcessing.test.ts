@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  normalizeImage,
+  createThumbnail,
+  isHeicFile,
+  getThumbnailPath,
+  getThumbnailUrl,
+  MAX_IMAGE_DIMENSION,
+  THUMBNAIL_DIMENSION,
+} from "@/lib/imageProcessing";
+
+const mockHeic2any = vi.fn();
+vi.mock("heic2any", () => ({
+  default: (options: unknown) => mockHeic2any(options),
+}));
+
+const mockDrawImage = vi.fn();
+const mockClose = vi.fn();
+const mockCreateImageBitmap = vi.fn();
+let encodableTypes: string[];
+
+const createFile = (name: string, type: string) => new File(["image-bytes"], name, { type });
+
+describe("imageProcessing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    encodableTypes = ["image/webp", "image/jpeg"];
+    mockCreateImageBitmap.mockResolvedValue({ width: 4000, height: 3000, close: mockClose });
+    vi.stubGlobal("createImageBitmap", mockCreateImageBitmap);
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      drawImage: mockDrawImage,
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation(function (callback, type) {
+      // Like browsers, fall back to PNG for types that can't be encoded
+      const encoded = type && encodableTypes.includes(type) ? type : "image/png";
+      callback(new Blob(["encoded"], { type: encoded }));
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("isHeicFile", () => {
+    it("recognises HEIC and HEIF by type or extension", () => {
+      expect(isHeicFile(createFile("photo.jpg", "image/heic"))).toBe(true);
+      expect(isHeicFile(createFile("photo.HEIF", ""))).toBe(true);
+      expect(isHeicFile(createFile("photo.jpg", "image/jpeg"))).toBe(false);
+    });
+  });
+
+  describe("normalizeImage", () => {
+    it("downscales a large photo to WebP, applying its orientation", async () => {
+      const result = await normalizeImage(createFile("dinner.jpg", "image/jpeg"));
+
+      expect(mockCreateImageBitmap).toHaveBeenCalledWith(expect.any(File), { imageOrientation: "from-image" });
+      expect(mockDrawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, MAX_IMAGE_DIMENSION, 1536);
+      expect(mockClose).toHaveBeenCalled();
+      expect(result.name).toBe("dinner.webp");
+      expect(result.type).toBe("image/webp");
+    });
+
+    it("keeps the size of photos that are already small", async () => {
+      mockCreateImageBitmap.mockResolvedValueOnce({ width: 800, height: 1200, close: mockClose });
+
+      await normalizeImage(createFile("dinner.png", "image/png"));
+
+      expect(mockDrawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 800, 1200);
+    });
+
+    it("falls back to JPEG when the browser can't encode WebP", async () => {
+      encodableTypes = ["image/jpeg"];
+
+      const result = await normalizeImage(createFile("dinner.png", "image/png"));
+
+      expect(result.name).toBe("dinner.jpg");
+      expect(result.type).toBe("image/jpeg");
+    });
+
+    it("converts HEIC photos before decoding them", async () => {
+      const converted = new Blob(["jpeg"], { type: "image/jpeg" });
+      mockHeic2any.mockResolvedValueOnce(converted);
+      const file = createFile("IMG_0001.HEIC", "");
+
+      const result = await normalizeImage(file);
+
+      expect(mockHeic2any).toHaveBeenCalledWith(expect.objectContaining({ blob: file, toType: "image/jpeg" }));
+      expect(mockCreateImageBitmap).toHaveBeenCalledWith(converted, expect.anything());
+      expect(result.name).toBe("IMG_0001.webp");
+    });
+
+    it("returns PDFs and GIFs unchanged", async () => {
+      const pdf = createFile("recipe.pdf", "application/pdf");
+      const gif = createFile("whisk.gif", "image/gif");
+
+      expect(await normalizeImage(pdf)).toBe(pdf);
+      expect(await normalizeImage(gif)).toBe(gif);
+      expect(mockCreateImageBitmap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createThumbnail", () => {
+    it("renders a small copy of a photo", async () => {
+      const result = await createThumbnail(createFile("dinner.webp", "image/webp"));
+
+      expect(mockDrawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, THUMBNAIL_DIMENSION, 300);
+      expect(result?.name).toBe("dinner.webp");
+    });
+
+    it("returns null for PDFs", async () => {
+      expect(await createThumbnail(createFile("recipe.pdf", "application/pdf"))).toBeNull();
+    });
+  });
+
+  describe("getThumbnailPath", () => {
+    it("puts the thumbnail in a thumbs folder next to the file", () => {
+      expect(getThumbnailPath("abc.webp")).toBe("thumbs/abc.webp");
+      expect(getThumbnailPath("recipe-photos/abc.webp")).toBe("recipe-photos/thumbs/abc.webp");
+    });
+  });
+
+  describe("getThumbnailUrl", () => {
+    const base = "https://abc.supabase.co/storage/v1/object/public/recipe-images";
+
+    it("maps an uploaded photo to its thumbnail", () => {
+      expect(getThumbnailUrl(`${base}/abc.webp`)).toBe(`${base}/thumbs/abc.webp`);
+      expect(getThumbnailUrl(`${base}/abc.jpg?v=2`)).toBe(`${base}/thumbs/abc.jpg?v=2`);
+    });
+
+    it("leaves PDFs and links elsewhere alone", () => {
+      expect(getThumbnailUrl(`${base}/abc.pdf`)).toBe(`${base}/abc.pdf`);
+      expect(getThumbnailUrl("https://example.com/photo.jpg")).toBe("https://example.com/photo.jpg");
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseIngredientLine,
+  parseIngredientLines,
+  categorizeIngredient,
+  CATEGORY_KEYWORDS,
+  CATEGORY_OVERRIDES,
+} from "@/lib/ingredientParser";
+
+describe("ingredientParser", () => {
+  describe("parseIngredientLine", () => {
+    it("parses quantity, unit and name", () => {
+      expect(parseIngredientLine("2 lbs chicken thighs")).toEqual({
+        name: "chicken thighs",
+        quantity: 2,
+        unit: "lb",
+        category: "meat_seafood",
+      });
+    });
+
+    it("parses mixed and unicode fractions", () => {
+      expect(parseIngredientLine("1 1/2 cups all-purpose flour")).toMatchObject({
+        name: "all-purpose flour",
+        quantity: 1.5,
+        unit: "cup",
+      });
+      expect(parseIngredientLine("1½ cups milk")).toMatchObject({ quantity: 1.5, unit: "cup" });
+      expect(parseIngredientLine("½ tsp salt")).toMatchObject({ quantity: 0.5, unit: "tsp" });
+    });
+
+    it("uses the upper end of a range", () => {
+      expect(parseIngredientLine("2-3 tbsp olive oil")).toMatchObject({ quantity: 3, unit: "tbsp" });
+      expect(parseIngredientLine("2 to 3 cloves garlic")).toMatchObject({
+        name: "garlic",
+        quantity: 3,
+        unit: "clove",
+      });
+    });
+
+    it("moves parenthetical sizes and trailing prep to notes", () => {
+      expect(parseIngredientLine("1 (14 oz) can diced tomatoes, drained")).toEqual({
+        name: "diced tomatoes",
+        quantity: 1,
+        unit: "can",
+        category: "pantry",
+        notes: "14 oz, drained",
+      });
+    });
+
+    it("moves leading prep and size words to notes", () => {
+      expect(parseIngredientLine("1 large onion, finely chopped")).toEqual({
+        name: "onion",
+        quantity: 1,
+        unit: null,
+        category: "produce",
+        notes: "large, finely chopped",
+      });
+      expect(parseIngredientLine("2 peeled and diced potatoes")).toMatchObject({
+        name: "potatoes",
+        notes: "peeled and diced",
+      });
+    });
+
+    it("resolves unit aliases", () => {
+      expect(parseIngredientLine("3 Tbsp butter")).toMatchObject({ unit: "tbsp" });
+      expect(parseIngredientLine("1 T sugar")).toMatchObject({ unit: "tbsp" });
+      expect(parseIngredientLine("8 oz. cream cheese")).toMatchObject({ name: "cream cheese", unit: "oz" });
+    });
+
+    it("treats a leading article as one of the following unit", () => {
+      expect(parseIngredientLine("a pinch of salt")).toMatchObject({
+        name: "salt",
+        quantity: 1,
+        unit: "pinch",
+      });
+    });
+
+    it("keeps names without a quantity", () => {
+      expect(parseIngredientLine("salt and pepper to taste")).toEqual({
+        name: "salt and pepper",
+        quantity: null,
+        unit: null,
+        category: "spices",
+        notes: "to taste",
+      });
+    });
+
+    it("strips list bullets", () => {
+      expect(parseIngredientLine("- 2 eggs")).toMatchObject({ name: "eggs", quantity: 2 });
+    });
+
+    it("returns null for blank lines", () => {
+      expect(parseIngredientLine("   ")).toBeNull();
+      expect(parseIngredientLine("(optional)")).toBeNull();
+    });
+  });
+
+  describe("parseIngredientLines", () => {
+    it("splits on newlines and commas", () => {
+      expect(parseIngredientLines("milk, eggs\nbread").map((item) => item.name)).toEqual([
+        "milk",
+        "eggs",
+        "bread",
+      ]);
+    });
+
+    it("keeps note segments with their item", () => {
+      const items = parseIngredientLines("2 cups flour, 1 onion, diced");
+
+      expect(items).toHaveLength(2);
+      expect(items[1]).toMatchObject({ name: "onion", notes: "diced" });
+    });
+
+    it("skips empty segments", () => {
+      expect(parseIngredientLines("flour,,\n\n")).toHaveLength(1);
+    });
+  });
+
+  describe("categorizeIngredient", () => {
+    it("prefers overrides", () => {
+      expect(categorizeIngredient("Olive Oil")).toBe("pantry");
+      expect(categorizeIngredient("tofu")).toBe("meat_seafood");
+    });
+
+    it("matches singular keywords", () => {
+      expect(categorizeIngredient("bay leaves")).toBe("spices");
+      expect(categorizeIngredient("tomatoes")).toBe("produce");
+      expect(categorizeIngredient("berries")).toBe("produce");
+    });
+
+    it("favours the last noun in a phrase", () => {
+      expect(categorizeIngredient("cheddar cheese")).toBe("dairy");
+      expect(categorizeIngredient("hot dog buns")).toBe("bakery");
+      expect(categorizeIngredient("tortilla chips")).toBe("pantry");
+    });
+
+    it("matches whole words only", () => {
+      expect(categorizeIngredient("rice")).toBe("pantry");
+      expect(categorizeIngredient("ice cream")).toBe("frozen");
+    });
+
+    it("puts frozen items in frozen", () => {
+      expect(categorizeIngredient("frozen peas")).toBe("frozen");
+    });
+
+    it("returns other for unknown names", () => {
+      expect(categorizeIngredient("dragon fruit")).toBe("other");
+      expect(categorizeIngredient("")).toBe("other");
+    });
+  });
+
+  describe("CATEGORY_KEYWORDS", () => {
+    it("includes every override", () => {
+      for (const [name, category] of Object.entries(CATEGORY_OVERRIDES)) {
+        expect(CATEGORY_KEYWORDS[name]).toBe(category);
+      }
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRecipeIngredient } from "@tests/utils";
+import type { MealPlanItem, RecipeNutrition } from "@/types";
+
+const mockFrom = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+import {
+  EMPTY_NUTRITION,
+  addNutrition,
+  estimateDayNutrition,
+  estimateRecipeNutrition,
+  findNutrientEntry,
+  formatNutrient,
+  ingredientGrams,
+  loadRecipeNutrition,
+  scaleNutrition,
+} from "@/lib/nutrition";
+import { NUTRIENT_TABLE } from "@/lib/nutritionData";
+
+const entry = (name: string) => NUTRIENT_TABLE.find((candidate) => candidate.name === name)!;
+
+const ingredient = (name: string, quantity?: number, unit?: string) =>
+  createMockRecipeIngredient({ id: name, name, quantity, unit });
+
+const mealItem = (overrides: Partial<MealPlanItem>): MealPlanItem => ({
+  id: "item-1",
+  planId: "plan-1",
+  dayOfWeek: 1,
+  mealType: "dinner",
+  sortOrder: 0,
+  ...overrides,
+});
+
+const recipeNutrition = (overrides: Partial<RecipeNutrition> = {}): RecipeNutrition => ({
+  total: { calories: 2000, protein: 100, carbs: 200, fat: 80, fiber: 20, sodium: 4000 },
+  perServing: { calories: 500, protein: 25, carbs: 50, fat: 20, fiber: 5, sodium: 1000 },
+  servings: 4,
+  countedCount: 5,
+  uncounted: [],
+  ...overrides,
+});
+
+/** Mock each table's query chain to resolve with the given result. */
+const mockTables = (results: Record<string, { data: unknown; error: unknown }>) => {
+  mockFrom.mockImplementation((table: string) => {
+    const chain = {
+      select: vi.fn(() => chain),
+      in: vi.fn().mockResolvedValue(results[table]),
+    };
+    return chain;
+  });
+};
+
+describe("nutrition", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("nutrient table", () => {
+    it("has unique names and no negative or impossible values", () => {
+      const names = NUTRIENT_TABLE.flatMap((e) => [e.name, ...(e.aliases ?? [])]);
+      expect(new Set(names).size).toBe(names.length);
+      for (const e of NUTRIENT_TABLE) {
+        const { calories, protein, carbs, fat, fiber, sodium } = e.per100g;
+        expect(Math.min(calories, protein, carbs, fat, fiber, sodium)).toBeGreaterThanOrEqual(0);
+        expect(protein + carbs + fat).toBeLessThanOrEqual(100);
+      }
+    });
+  });
+
+  describe("findNutrientEntry", () => {
+    it("matches names and aliases ignoring case, punctuation and plurals", () => {
+      expect(findNutrientEntry("Onions")?.name).toBe("onion");
+      expect(findNutrientEntry("scallions")?.name).toBe("green onion");
+      expect(findNutrientEntry("Tomatoes, diced")?.name).toBe("tomato");
+      expect(findNutrientEntry("Jalapeño")?.name).toBe("jalapeno");
+    });
+
+    it("prefers the longest name found in the ingredient", () => {
+      expect(findNutrientEntry("boneless skinless chicken breasts")?.name).toBe("chicken breast");
+      expect(findNutrientEntry("extra virgin olive oil")?.name).toBe("olive oil");
+      expect(findNutrientEntry("fresh lemon juice")?.name).toBe("lemon juice");
+      expect(findNutrientEntry("low-sodium chicken broth")?.name).toBe("broth");
+    });
+
+    it("doesn't match part of a word or unknown ingredients", () => {
+      expect(findNutrientEntry("licorice")).toBeUndefined();
+      expect(findNutrientEntry("saffron threads")).toBeUndefined();
+      expect(findNutrientEntry("  ")).toBeUndefined();
+    });
+  });
+
+  describe("ingredientGrams", () => {
+    it("converts mass units", () => {
+      expect(ingredientGrams(1, "lb", entry("ground beef"))).toBeCloseTo(453.6, 1);
+      expect(ingredientGrams(250, "grams", entry("pasta"))).toBe(250);
+    });
+
+    it("converts volume units with the entry's density", () => {
+      expect(ingredientGrams(1, "cup", entry("all-purpose flour"))).toBeCloseTo(125.4, 1);
+      expect(ingredientGrams(2, "tbsp", entry("olive oil"))).toBeCloseTo(26.9, 1);
+      expect(ingredientGrams(1, "cup", entry("chicken breast"))).toBeUndefined();
+    });
+
+    it("weighs counts, sizes and packages", () => {
+      expect(ingredientGrams(2, undefined, entry("egg"))).toBe(100);
+      expect(ingredientGrams(1, "large", entry("onion"))).toBe(110);
+      expect(ingredientGrams(3, "cloves", entry("garlic"))).toBe(9);
+      expect(ingredientGrams(1, "stick", entry("butter"))).toBe(113);
+      expect(ingredientGrams(2, "pieces", entry("sausage"))).toBe(150);
+      expect(ingredientGrams(2, "piece", entry("chicken thigh"))).toBe(220);
+      expect(ingredientGrams(1, "pinch", entry("salt"))).toBe(0.36);
+      expect(ingredientGrams(1, "block", entry("tofu"))).toBe(397);
+    });
+
+    it("can't weigh counts the entry has no size for", () => {
+      expect(ingredientGrams(2, undefined, entry("all-purpose flour"))).toBeUndefined();
+      expect(ingredientGrams(1, "can", entry("olive oil"))).toBeUndefined();
+      expect(ingredientGrams(1, "piece", entry("all-purpose flour"))).toBeUndefined();
+    });
+  });
+
+  describe("addNutrition and scaleNutrition", () => {
+    it("adds and scales every nutrient", () => {
+      const facts = { calories: 100, protein: 2, carbs: 10, fat: 5, fiber: 1, sodium: 50 };
+      expect(addNutrition(facts, facts)).toEqual(scaleNutrition(facts, 2));
+      expect(addNutrition(EMPTY_NUTRITION, facts)).toEqual(facts);
+    });
+  });
+
+  describe("estimateRecipeNutrition", () => {
+    it("totals matched ingredients and divides by servings", () => {
+      const nutrition = estimateRecipeNutrition(
+        [ingredient("pasta", 1, "lb"), ingredient("olive oil", 2, "tbsp"), ingredient("parmesan", 50, "g")],
+        "Serves 4"
+      );
+
+      expect(nutrition.countedCount).toBe(3);
+      expect(nutrition.uncounted).toEqual([]);
+      expect(nutrition.servings).toBe(4);
+      expect(nutrition.total.calories).toBeCloseTo(371 * 4.536 + 884 * 0.269 + 392 * 0.5, 0);
+      expect(nutrition.perServing!.calories).toBeCloseTo(nutrition.total.calories / 4, 5);
+      expect(nutrition.perServing!.sodium).toBeCloseTo(nutrition.total.sodium / 4, 5);
+    });
+
+    it("flags ingredients it couldn't count, with the reason", () => {
+      const nutrition = estimateRecipeNutrition([
+        ingredient("eggs", 2),
+        ingredient("saffron", 1, "pinch"),
+        ingredient("salt", undefined),
+        ingredient("flour", 0, "cup"),
+        ingredient("olive oil", 1, "can"),
+      ]);
+
+      expect(nutrition.countedCount).toBe(1);
+      expect(nutrition.uncounted).toEqual([
+        { name: "saffron", reason: "unknown" },
+        { name: "salt", reason: "no_amount" },
+        { name: "flour", reason: "no_amount" },
+        { name: "olive oil", reason: "unit" },
+      ]);
+    });
+
+    it("only gives per-serving values when servings has a number", () => {
+      const nutrition = estimateRecipeNutrition([ingredient("eggs", 2)], "a crowd");
+      expect(nutrition.perServing).toBeUndefined();
+      expect(nutrition.servings).toBeUndefined();
+      expect(nutrition.total.protein).toBeCloseTo(12.6, 5);
+    });
+  });
+
+  describe("estimateDayNutrition", () => {
+    it("adds one serving of each estimated meal per day", () => {
+      const days = estimateDayNutrition(
+        [
+          mealItem({ id: "1", recipeId: "r1", dayOfWeek: 1 }),
+          mealItem({ id: "2", recipeId: "r2", dayOfWeek: 1, mealType: "lunch" }),
+          mealItem({ id: "3", recipeId: "r1", dayOfWeek: 3 }),
+        ],
+        {
+          r1: recipeNutrition(),
+          r2: recipeNutrition({ uncounted: [{ name: "saffron", reason: "unknown" }] }),
+        }
+      );
+
+      expect(days[1]).toEqual({
+        perPerson: { calories: 1000, protein: 50, carbs: 100, fat: 40, fiber: 10, sodium: 2000 },
+        estimatedMeals: 2,
+        unestimatedMeals: [],
+        uncountedIngredients: 1,
+      });
+      expect(days[3].estimatedMeals).toBe(1);
+      expect(days[2]).toBeUndefined();
+    });
+
+    it("lists meals it couldn't estimate", () => {
+      const days = estimateDayNutrition(
+        [
+          mealItem({ id: "1", customName: "Takeout" }),
+          mealItem({ id: "2", recipeId: "unparsed", recipeName: "Mystery Stew" }),
+          mealItem({ id: "3", recipeId: "no-servings", recipeName: "Bread" }),
+          mealItem({ id: "4", recipeId: "nothing-matched", recipeName: "Saffron Rice" }),
+          mealItem({ id: "5" }),
+        ],
+        {
+          "no-servings": recipeNutrition({ perServing: undefined, servings: undefined }),
+          "nothing-matched": recipeNutrition({ countedCount: 0 }),
+        }
+      );
+
+      expect(days[1].estimatedMeals).toBe(0);
+      expect(days[1].perPerson).toEqual(EMPTY_NUTRITION);
+      expect(days[1].unestimatedMeals).toEqual(["Takeout", "Mystery Stew", "Bread", "Saffron Rice", "Meal"]);
+    });
+  });
+
+  describe("loadRecipeNutrition", () => {
+    const row = (recipeId: string, name: string, quantity: number | null, unit: string | null) => ({
+      id: `${recipeId}-${name}`,
+      recipe_id: recipeId,
+      name,
+      quantity,
+      unit,
+      category: "other",
+    });
+
+    it("estimates each recipe from its ingredients and servings", async () => {
+      mockTables({
+        recipe_ingredients: {
+          data: [row("r1", "eggs", 4, null), row("r1", "butter", 1, "tbsp"), row("r2", "salt", null, null)],
+          error: null,
+        },
+        recipe_content: { data: [{ recipe_id: "r1", servings: "2" }], error: null },
+      });
+
+      const nutrition = await loadRecipeNutrition(["r1", "r2", "r3"]);
+
+      expect(Object.keys(nutrition)).toEqual(["r1", "r2"]);
+      expect(nutrition.r1.servings).toBe(2);
+      expect(nutrition.r1.countedCount).toBe(2);
+      expect(nutrition.r2.perServing).toBeUndefined();
+      expect(nutrition.r2.uncounted).toEqual([{ name: "salt", reason: "no_amount" }]);
+    });
+
+    it("handles empty results", async () => {
+      mockTables({
+        recipe_ingredients: { data: null, error: null },
+        recipe_content: { data: null, error: null },
+      });
+
+      expect(await loadRecipeNutrition(["r1"])).toEqual({});
+    });
+
+    it("skips the query when there are no recipes", async () => {
+      expect(await loadRecipeNutrition([])).toEqual({});
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it.each(["recipe_ingredients", "recipe_content"])("returns nothing when %s fails to load", async (table) => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockTables({
+        recipe_ingredients: { data: [], error: null },
+        recipe_content: { data: [], error: null },
+        [table]: { data: null, error: { message: "boom" } },
+      });
+
+      expect(await loadRecipeNutrition(["r1"])).toEqual({});
+      expect(consoleSpy).toHaveBeenCalledWith("Error loading recipe nutrition:", { message: "boom" });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("formatNutrient", () => {
+    it("rounds and adds units", () => {
+      expect(formatNutrient("calories", 1234.6)).toBe("1,235");
+      expect(formatNutrient("protein", 12.4)).toBe("12 g");
+      expect(formatNutrient("sodium", 850.2)).toBe("850 mg");
+    });
+  });
+});
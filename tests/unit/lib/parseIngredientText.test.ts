@@ -38,7 +38,7 @@ describe("parseIngredientText", () => {
     expect(result[1].name).toBe("eggs");
   });
 
-  it("falls back to line splitting when data.skipped is true", async () => {
+  it("falls back to the rule-based parser when data.skipped is true", async () => {
     mockInvoke.mockResolvedValue({
       data: { success: true, skipped: true },
       error: null,
@@ -47,12 +47,12 @@ describe("parseIngredientText", () => {
     const result = await parseIngredientText("flour, sugar", "user-1");
 
     expect(result).toEqual([
-      { name: "flour", quantity: null, unit: null, category: "other" },
-      { name: "sugar", quantity: null, unit: null, category: "other" },
+      { name: "flour", quantity: null, unit: null, category: "pantry" },
+      { name: "sugar", quantity: null, unit: null, category: "pantry" },
     ]);
   });
 
-  it("falls back to line splitting on edge function error", async () => {
+  it("falls back to the rule-based parser on edge function error", async () => {
     mockInvoke.mockResolvedValue({
       data: null,
       error: { message: "Function error" },
@@ -61,11 +61,11 @@ describe("parseIngredientText", () => {
     const result = await parseIngredientText("flour", "user-1");
 
     expect(result).toEqual([
-      { name: "flour", quantity: null, unit: null, category: "other" },
+      { name: "flour", quantity: null, unit: null, category: "pantry" },
     ]);
   });
 
-  it("falls back to line splitting when data.success is false", async () => {
+  it("falls back to the rule-based parser when data.success is false", async () => {
     mockInvoke.mockResolvedValue({
       data: { success: false, error: "Parse failed" },
       error: null,
@@ -74,7 +74,7 @@ describe("parseIngredientText", () => {
     const result = await parseIngredientText("flour", "user-1");
 
     expect(result).toEqual([
-      { name: "flour", quantity: null, unit: null, category: "other" },
+      { name: "flour", quantity: null, unit: null, category: "pantry" },
     ]);
   });
 
@@ -104,8 +104,8 @@ describe("parseIngredientText", () => {
     const result = await parseIngredientText("flour, sugar", "user-1");
 
     expect(result).toEqual([
-      { name: "flour", quantity: null, unit: null, category: "other" },
-      { name: "sugar", quantity: null, unit: null, category: "other" },
+      { name: "flour", quantity: null, unit: null, category: "pantry" },
+      { name: "sugar", quantity: null, unit: null, category: "pantry" },
     ]);
   });
 
@@ -138,4 +138,18 @@ describe("parseIngredientText", () => {
     expect(result[1].name).toBe("sugar");
     expect(result[2].name).toBe("eggs");
   });
+
+  it("parses quantities and units in fallback", async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, skipped: true },
+      error: null,
+    });
+
+    const result = await parseIngredientText("2 lbs chicken thighs\n1½ cups milk", "user-1");
+
+    expect(result).toEqual([
+      { name: "chicken thighs", quantity: 2, unit: "lb", category: "meat_seafood" },
+      { name: "milk", quantity: 1.5, unit: "cup", category: "dairy" },
+    ]);
+  });
 });
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock supabase
+const mockFrom = vi.fn();
+const mockFunctionsInvoke = vi.fn();
+const mockChannelOn = vi.fn();
+const mockSubscribe = vi.fn();
+const mockRemoveChannel = vi.fn();
+const mockChannel = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    functions: { invoke: (...args: unknown[]) => mockFunctionsInvoke(...args) },
+    channel: (...args: unknown[]) => mockChannel(...args),
+    removeChannel: (...args: unknown[]) => mockRemoveChannel(...args),
+  },
+}));
+
+const mockGetCachedAiOptions = vi.fn();
+vi.mock("@/lib/userPreferences", () => ({
+  getCachedAiOptions: () => mockGetCachedAiOptions(),
+}));
+
+import { enqueueRecipeParse, getParseJob, kickParseWorker, subscribeToParseJob } from "@/lib/parseJobs";
+
+const jobRow = (overrides: Record<string, unknown> = {}) => ({
+  id: "job-1",
+  recipe_id: "recipe-1",
+  requested_by: "user-1",
+  request: {},
+  status: "queued",
+  attempts: 0,
+  max_attempts: 3,
+  next_attempt_at: "2026-03-19T12:00:00Z",
+  last_error: null,
+  started_at: null,
+  completed_at: null,
+  created_at: "2026-03-19T12:00:00Z",
+  updated_at: "2026-03-19T12:00:00Z",
+  ...overrides,
+});
+
+const expectedJob = {
+  id: "job-1",
+  recipeId: "recipe-1",
+  status: "queued",
+  attempts: 0,
+  maxAttempts: 3,
+  lastError: undefined,
+  nextAttemptAt: "2026-03-19T12:00:00Z",
+};
+
+function mockSelectJob(data: unknown, error: unknown = null) {
+  const mockEq = vi.fn().mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data, error }) });
+  mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: mockEq }) });
+  return mockEq;
+}
+
+describe("parseJobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFunctionsInvoke.mockResolvedValue({ data: { success: true }, error: null });
+    mockGetCachedAiOptions.mockReturnValue({ model: "claude-sonnet-4-5" });
+    mockChannel.mockReturnValue({ on: mockChannelOn });
+    mockChannelOn.mockReturnValue({ subscribe: mockSubscribe });
+    mockSubscribe.mockReturnValue({ id: "channel-1" });
+  });
+
+  describe("kickParseWorker", () => {
+    it("invokes the worker for one job", () => {
+      kickParseWorker("job-1");
+
+      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe-worker", { body: { jobId: "job-1" } });
+    });
+
+    it("invokes the worker for the whole queue without a job id", () => {
+      kickParseWorker();
+
+      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe-worker", { body: {} });
+    });
+
+    it("logs worker errors", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "boom" } });
+
+      kickParseWorker("job-1");
+
+      await vi.waitFor(() => {
+        expect(consoleSpy).toHaveBeenCalledWith("Error starting parse worker:", { message: "boom" });
+      });
+    });
+  });
+
+  describe("enqueueRecipeParse", () => {
+    function mockInsert(data: unknown, error: unknown = null) {
+      const mockInsertFn = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue({ data, error }) }),
+      });
+      mockFrom.mockReturnValue({ insert: mockInsertFn });
+      return mockInsertFn;
+    }
+
+    it("queues a URL parse with the user's AI settings and kicks the worker", async () => {
+      const insert = mockInsert(jobRow());
+
+      const job = await enqueueRecipeParse("recipe-1", {
+        recipeName: "Pasta",
+        recipeUrl: "https://example.com/pasta",
+      });
+
+      expect(mockFrom).toHaveBeenCalledWith("recipe_parse_jobs");
+      expect(insert).toHaveBeenCalledWith({
+        recipe_id: "recipe-1",
+        request: { recipeName: "Pasta", recipeUrl: "https://example.com/pasta", model: "claude-sonnet-4-5" },
+      });
+      expect(job).toEqual(expectedJob);
+      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe-worker", { body: { jobId: "job-1" } });
+    });
+
+    it("sends pasted text instead of the URL", async () => {
+      const insert = mockInsert(jobRow());
+
+      await enqueueRecipeParse("recipe-1", {
+        recipeName: "Pasta",
+        recipeUrl: "https://example.com/pasta",
+        text: "1 lb pasta",
+      });
+
+      expect(insert.mock.calls[0][0].request).toEqual({
+        recipeName: "Pasta",
+        text: "1 lb pasta",
+        model: "claude-sonnet-4-5",
+      });
+    });
+
+    it("passes reparse through", async () => {
+      const insert = mockInsert(jobRow());
+
+      await enqueueRecipeParse("recipe-1", { recipeName: "Pasta", recipeUrl: "https://example.com/pasta", reparse: true });
+
+      expect(insert.mock.calls[0][0].request).toMatchObject({ reparse: true });
+    });
+
+    it("throws and doesn't kick the worker when the insert fails", async () => {
+      mockInsert(null, { message: "RLS violation" });
+
+      await expect(enqueueRecipeParse("recipe-1", { recipeName: "Pasta" })).rejects.toEqual({
+        message: "RLS violation",
+      });
+      expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getParseJob", () => {
+    it("maps the job row", async () => {
+      const mockEq = mockSelectJob(jobRow({ status: "failed", attempts: 3, last_error: "timeout" }));
+
+      expect(await getParseJob("job-1")).toEqual({
+        ...expectedJob,
+        status: "failed",
+        attempts: 3,
+        lastError: "timeout",
+      });
+      expect(mockEq).toHaveBeenCalledWith("id", "job-1");
+    });
+
+    it("returns null on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockSelectJob(null, { message: "DB error" });
+
+      expect(await getParseJob("job-1")).toBeNull();
+    });
+  });
+
+  describe("subscribeToParseJob", () => {
+    it("reports the current state, then each update", async () => {
+      mockSelectJob(jobRow({ status: "running", attempts: 1 }));
+      const onChange = vi.fn();
+
+      subscribeToParseJob("job-1", onChange);
+
+      expect(mockChannel).toHaveBeenCalledWith("recipe_parse_jobs:job-1");
+      expect(mockChannelOn).toHaveBeenCalledWith(
+        "postgres_changes",
+        expect.objectContaining({ event: "UPDATE", table: "recipe_parse_jobs", filter: "id=eq.job-1" }),
+        expect.any(Function)
+      );
+      await vi.waitFor(() => {
+        expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ status: "running", attempts: 1 }));
+      });
+
+      const handler = mockChannelOn.mock.calls[0][2] as (payload: unknown) => void;
+      handler({ new: jobRow({ status: "completed", attempts: 1 }) });
+
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ status: "completed" }));
+    });
+
+    it("stops reporting and removes the channel on unsubscribe", async () => {
+      mockSelectJob(jobRow());
+      const onChange = vi.fn();
+
+      const unsubscribe = subscribeToParseJob("job-1", onChange);
+      unsubscribe();
+      const handler = mockChannelOn.mock.calls[0][2] as (payload: unknown) => void;
+      handler({ new: jobRow({ status: "completed" }) });
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(mockRemoveChannel).toHaveBeenCalledWith({ id: "channel-1" });
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
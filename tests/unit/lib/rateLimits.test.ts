@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockRpc = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+import { loadThrottledCallers } from "@/lib/rateLimits";
+
+describe("rateLimits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-24T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("loadThrottledCallers", () => {
+    it("loads callers throttled since the given number of days ago", async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            function_name: "parse-recipe",
+            caller_type: "user",
+            caller: "user-1",
+            email: "looping@example.com",
+            name: null,
+            throttled_count: 42,
+            last_throttled_at: "2026-03-24T11:00:00Z",
+          },
+          {
+            function_name: "send-contact-email",
+            caller_type: "ip",
+            caller: "203.0.113.7",
+            email: null,
+            name: null,
+            throttled_count: 3,
+            last_throttled_at: "2026-03-23T09:00:00Z",
+          },
+        ],
+        error: null,
+      });
+
+      const callers = await loadThrottledCallers(2);
+
+      expect(mockRpc).toHaveBeenCalledWith("get_throttled_callers", { p_since: "2026-03-22T12:00:00.000Z" });
+      expect(callers).toEqual([
+        {
+          functionName: "parse-recipe",
+          callerType: "user",
+          caller: "user-1",
+          email: "looping@example.com",
+          name: undefined,
+          throttledCount: 42,
+          lastThrottledAt: "2026-03-24T11:00:00Z",
+        },
+        {
+          functionName: "send-contact-email",
+          callerType: "ip",
+          caller: "203.0.113.7",
+          email: undefined,
+          name: undefined,
+          throttledCount: 3,
+          lastThrottledAt: "2026-03-23T09:00:00Z",
+        },
+      ]);
+    });
+
+    it("returns an empty list without data", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      expect(await loadThrottledCallers()).toEqual([]);
+    });
+
+    it("returns an empty list on error", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRpc.mockResolvedValue({ data: null, error: { message: "denied" } });
+
+      expect(await loadThrottledCallers()).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+});
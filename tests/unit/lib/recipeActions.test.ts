@@ -2,17 +2,19 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // --- Supabase mock ---
 const mockFrom = vi.fn();
-const mockFunctionsInvoke = vi.fn();
 
 vi.mock("@/integrations/supabase/client", () => ({
   supabase: {
     from: (...args: unknown[]) => mockFrom(...args),
-    functions: {
-      invoke: (...args: unknown[]) => mockFunctionsInvoke(...args),
-    },
   },
 }));
 
+// --- Parse job queue mock ---
+const mockEnqueueRecipeParse = vi.fn();
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+}));
+
 import { saveRecipeEdit } from "@/lib/recipeActions";
 
 describe("recipeActions", () => {
@@ -39,7 +41,7 @@ describe("recipeActions", () => {
       const mockUpdate = vi.fn().mockReturnValue({ eq: mockUpdateEq });
 
       mockFrom.mockReturnValue({ update: mockUpdate });
-      mockFunctionsInvoke.mockResolvedValue({ data: { success: true }, error: null });
+      mockEnqueueRecipeParse.mockResolvedValue({ id: "job-1" });
 
       return { mockUpdate, mockUpdateEq };
     }
@@ -59,14 +61,11 @@ describe("recipeActions", () => {
       });
       expect(mocks.mockUpdateEq).toHaveBeenCalledWith("id", recipeId);
 
-      // Verify re-parse triggered
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.objectContaining({
-        body: expect.objectContaining({
-          recipeId,
-          recipeUrl: "https://example.com/recipe",
-          recipeName: "My Recipe",
-        }),
-      }));
+      // Verify re-parse queued
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(recipeId, {
+        recipeName: "My Recipe",
+        recipeUrl: "https://example.com/recipe",
+      });
     });
 
     it("saves recipe edit successfully without URL change", async () => {
@@ -77,7 +76,7 @@ describe("recipeActions", () => {
       expect(result).toEqual({ success: true, urlChanged: false });
 
       // No re-parse when URL unchanged
-      expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+      expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
     });
 
     it("rejects invalid URL format", async () => {
@@ -103,7 +102,7 @@ describe("recipeActions", () => {
       expect(mockFrom).toHaveBeenCalledWith("recipes");
 
       // No re-parse when URL is empty
-      expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+      expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
     });
 
     it("returns failure when DB update fails", async () => {
@@ -136,38 +135,26 @@ describe("recipeActions", () => {
       const result = await saveRecipeEdit(recipeId, name, "", "");
 
       expect(result).toEqual({ success: true, urlChanged: false });
-      expect(mockFunctionsInvoke).not.toHaveBeenCalled();
+      expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
     });
 
-    it("handles parse-recipe error gracefully (fire-and-forget)", async () => {
+    it("handles a failure to queue the re-parse gracefully (fire-and-forget)", async () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
       setupMocks();
-      mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "Parse failed" } });
+      mockEnqueueRecipeParse.mockRejectedValue({ message: "Insert failed" });
 
       const result = await saveRecipeEdit(recipeId, name, url, previousUrl);
 
-      // The function returns success even if parse fails (fire-and-forget)
+      // The function returns success even if queueing fails (fire-and-forget)
       expect(result).toEqual({ success: true, urlChanged: true });
 
-      // Wait for the fire-and-forget .then() to execute
+      // Wait for the fire-and-forget .catch() to execute
       await new Promise((resolve) => setTimeout(resolve, 10));
       expect(consoleSpy).toHaveBeenCalledWith(
-        "Error re-parsing recipe:",
-        { message: "Parse failed" }
+        "Error queueing recipe re-parse:",
+        { message: "Insert failed" }
       );
       consoleSpy.mockRestore();
     });
-
-    it("handles parse-recipe returning unsuccessful data", async () => {
-      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
-      setupMocks();
-      mockFunctionsInvoke.mockResolvedValue({ data: { success: false, error: "Bad HTML" }, error: null });
-
-      await saveRecipeEdit(recipeId, name, url, previousUrl);
-
-      await new Promise((resolve) => setTimeout(resolve, 10));
-      expect(consoleSpy).toHaveBeenCalledWith("Error re-parsing recipe:", "Bad HTML");
-      consoleSpy.mockRestore();
-    });
   });
 });
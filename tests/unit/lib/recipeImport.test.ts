@@ -0,0 +1,601 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { deflateRawSync, gzipSync } from "node:zlib";
+import type { ImportedRecipe } from "@/types";
+
+const mockRpc = vi.fn();
+const mockFrom = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+const mockEnqueueRecipeParse = vi.fn();
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+}));
+
+import {
+  RecipeImportError,
+  findImportDuplicates,
+  importRecipes,
+  isMealMaster,
+  loadExistingRecipes,
+  needsParse,
+  parseCooklang,
+  parseJsonLdRecipes,
+  parseMealMaster,
+  parseMelaRecipe,
+  parsePaprikaRecipe,
+  readImportFile,
+} from "@/lib/recipeImport";
+
+/** Build a zip archive the way Paprika and Mela do: one stored or deflated entry per file. */
+function createZip(files: { name: string; data: Uint8Array; store?: boolean }[]): Uint8Array {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const data = file.store ? Buffer.from(file.data) : deflateRawSync(file.data);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(file.store ? 0 : 8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(file.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(file.store ? 0 : 8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(file.data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+    offset += header.length + name.length + data.length;
+  }
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...local, ...central, end]));
+}
+
+const json = (value: unknown) => new Uint8Array(Buffer.from(JSON.stringify(value)));
+const file = (data: Uint8Array | string, name: string) => new File([data as BlobPart], name);
+
+const PAPRIKA_RECIPE = {
+  name: "Weeknight Chili",
+  ingredients: "For the chili:\n1 lb ground beef\n1 (15 oz) can kidney beans, drained\n\n2 tbsp chili powder",
+  directions: "1. Brown the beef.\n2. Add beans and chili powder.\n\nSimmer 20 minutes.",
+  description: "A quick chili.",
+  servings: "4",
+  prep_time: "10 mins",
+  cook_time: "30 mins",
+  total_time: "",
+  source: "Family cookbook",
+  source_url: "https://example.com/chili",
+};
+
+const MELA_RECIPE = {
+  title: "Lemon Pasta",
+  text: "Bright and fast.",
+  yield: "2 servings",
+  prepTime: "5 min",
+  cookTime: "PT12M",
+  totalTime: "",
+  ingredients: "# Pasta\n8 oz spaghetti\n# Sauce\n1 lemon\n2 tbsp butter",
+  instructions: "Boil the pasta.\nToss with lemon and butter.",
+  link: "https://www.example.org/lemon-pasta",
+};
+
+const recipe = (overrides: Partial<ImportedRecipe> = {}): ImportedRecipe => ({
+  name: "Tacos",
+  format: "paprika",
+  instructions: ["Cook."],
+  ingredients: [{ name: "tortillas", quantity: 8, category: "bakery", rawText: "8 tortillas" }],
+  ...overrides,
+});
+
+describe("recipeImport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parsePaprikaRecipe", () => {
+    it("maps Paprika fields and parses ingredient lines", () => {
+      const parsed = parsePaprikaRecipe(PAPRIKA_RECIPE);
+
+      expect(parsed).toMatchObject({
+        name: "Weeknight Chili",
+        format: "paprika",
+        url: "https://example.com/chili",
+        description: "A quick chili.",
+        servings: "4 servings",
+        prepTime: "10 mins",
+        cookTime: "30 mins",
+        totalTime: undefined,
+        instructions: ["Brown the beef.", "Add beans and chili powder.", "Simmer 20 minutes."],
+        sourceTitle: "Family cookbook",
+      });
+      expect(parsed.ingredients).toEqual([
+        { name: "ground beef", quantity: 1, unit: "lb", category: "meat_seafood", rawText: "1 lb ground beef" },
+        expect.objectContaining({ name: "kidney beans", quantity: 1, unit: "can", rawText: "1 (15 oz) can kidney beans, drained" }),
+        expect.objectContaining({ name: "chili powder", quantity: 2, unit: "tbsp" }),
+      ]);
+    });
+
+    it("handles missing fields and non-web sources", () => {
+      const parsed = parsePaprikaRecipe({ source_url: "cookbook p. 12", servings: 6 });
+
+      expect(parsed).toMatchObject({
+        name: "Untitled recipe",
+        url: undefined,
+        servings: "6 servings",
+        instructions: [],
+        ingredients: [],
+        sourceTitle: undefined,
+      });
+    });
+  });
+
+  describe("parseMelaRecipe", () => {
+    it("maps Mela fields, skipping group titles", () => {
+      const parsed = parseMelaRecipe(MELA_RECIPE);
+
+      expect(parsed).toMatchObject({
+        name: "Lemon Pasta",
+        format: "mela",
+        url: "https://www.example.org/lemon-pasta",
+        description: "Bright and fast.",
+        servings: "2 servings",
+        prepTime: "5 min",
+        cookTime: "12 minutes",
+        instructions: ["Boil the pasta.", "Toss with lemon and butter."],
+        sourceTitle: "example.org",
+      });
+      expect(parsed.ingredients.map((ingredient) => ingredient.name)).toEqual(["spaghetti", "lemon", "butter"]);
+    });
+
+    it("keeps a non-link source as the source title", () => {
+      expect(parseMelaRecipe({ title: "Stew", link: "Grandma's notebook" })).toMatchObject({
+        url: undefined,
+        sourceTitle: "Grandma's notebook",
+      });
+      expect(parseMelaRecipe({ title: "Stew", link: "https://" }).sourceTitle).toBeUndefined();
+    });
+  });
+
+  describe("parseJsonLdRecipes", () => {
+    it("reads an array of schema.org recipes", () => {
+      const recipes = parseJsonLdRecipes(JSON.stringify([
+        {
+          "@type": "Recipe",
+          name: "Pancakes",
+          url: "https://example.com/pancakes",
+          recipeYield: ["4", "4 servings"],
+          prepTime: "PT10M",
+          cookTime: "PT1H",
+          recipeIngredient: ["2 cups flour", "2 eggs"],
+          recipeInstructions: [
+            { "@type": "HowToStep", text: "1. Mix." },
+            { "@type": "HowToSection", itemListElement: [{ "@type": "HowToStep", text: "Cook." }] },
+          ],
+          publisher: { name: "Example Kitchen" },
+        },
+        { "@type": "WebPage", name: "Not a recipe" },
+        { "@type": ["Recipe", "NewsArticle"], name: "Waffles", mainEntityOfPage: { "@id": "https://example.com/waffles" } },
+      ]));
+
+      expect(recipes).toHaveLength(2);
+      expect(recipes[0]).toMatchObject({
+        name: "Pancakes",
+        format: "jsonld",
+        url: "https://example.com/pancakes",
+        servings: "4 servings",
+        prepTime: "10 minutes",
+        cookTime: "1 hour",
+        instructions: ["Mix.", "Cook."],
+        sourceTitle: "Example Kitchen",
+      });
+      expect(recipes[0].ingredients).toEqual([
+        expect.objectContaining({ name: "flour", quantity: 2, unit: "cup" }),
+        expect.objectContaining({ name: "eggs", quantity: 2 }),
+      ]);
+      expect(recipes[1]).toMatchObject({
+        name: "Waffles",
+        url: "https://example.com/waffles",
+        sourceTitle: "example.com",
+        ingredients: [],
+      });
+    });
+
+    it("reads a single recipe or a @graph", () => {
+      expect(parseJsonLdRecipes(JSON.stringify({ "@type": "Recipe" }))[0].name).toBe("Untitled recipe");
+      const graph = { "@context": "https://schema.org", "@graph": [{ "@type": "Recipe", name: "Soup" }, { "@type": "Person" }] };
+      expect(parseJsonLdRecipes(JSON.stringify(graph)).map((r) => r.name)).toEqual(["Soup"]);
+    });
+
+    it("rejects invalid JSON", () => {
+      expect(() => parseJsonLdRecipes("{ nope")).toThrow(new RecipeImportError("This isn't a valid JSON-LD file"));
+    });
+  });
+
+  describe("parseCooklang", () => {
+    it("reads metadata, inline ingredients, cookware and timers", () => {
+      const parsed = parseCooklang(
+        [
+          ">> title: Garlic Noodles",
+          ">> servings: 2",
+          ">> source: https://cooklang.org/noodles",
+          ">> time.prep: 5 minutes",
+          "",
+          "-- boil first",
+          "Boil @spaghetti{200%g} in a #large pot{} for ~{10%minutes}.",
+          "",
+          "Melt @butter{2%tbsp} and add @garlic{3%cloves}(minced).",
+          "Season with @salt and @black pepper{}.",
+          "",
+          "> Great with parmesan.",
+          "[- reheat gently -]",
+          "Serve with @parmesan{some}.",
+        ].join("\n"),
+        "noodles"
+      );
+
+      expect(parsed).toMatchObject({
+        name: "Garlic Noodles",
+        format: "cooklang",
+        url: "https://cooklang.org/noodles",
+        servings: "2 servings",
+        prepTime: "5 minutes",
+        sourceTitle: "cooklang.org",
+        instructions: [
+          "Boil spaghetti in a large pot for 10 minutes.",
+          "Melt butter and add garlic. Season with salt and black pepper.",
+          "Serve with parmesan.",
+        ],
+      });
+      expect(parsed.ingredients).toEqual([
+        { name: "spaghetti", quantity: 200, unit: "g", category: "pantry", rawText: "200 g spaghetti" },
+        { name: "butter", quantity: 2, unit: "tbsp", category: "dairy", rawText: "2 tbsp butter" },
+        { name: "garlic", quantity: 3, unit: "clove", category: "produce", rawText: "3 cloves garlic, minced" },
+        { name: "salt", quantity: undefined, unit: undefined, category: "spices", rawText: "salt" },
+        expect.objectContaining({ name: "black pepper", quantity: undefined, rawText: "black pepper" }),
+        expect.objectContaining({ name: "parmesan", quantity: undefined, rawText: "some parmesan" }),
+      ]);
+    });
+
+    it("reads YAML front matter and falls back to the file name", () => {
+      const parsed = parseCooklang(
+        "---\ntitle: \"Tea\"\nservings: 1\nsource: Aunt May\ncook time: 3 minutes\nunknown: ignored\n---\n= Brew\nSteep @tea{1*%bag} for ~steep{3%minutes}.\n",
+        "tea"
+      );
+
+      expect(parsed).toMatchObject({
+        name: "Tea",
+        servings: "1 serving",
+        cookTime: "3 minutes",
+        url: undefined,
+        sourceTitle: "Aunt May",
+        instructions: ["Steep tea for 3 minutes."],
+      });
+      expect(parsed.ingredients[0]).toMatchObject({ quantity: 1, unit: "bag" });
+      expect(parseCooklang("Add @water{}.", "Plain Water").name).toBe("Plain Water");
+      expect(parseCooklang("Add @water{}.", " ").name).toBe("Untitled recipe");
+    });
+  });
+
+  describe("parseMealMaster", () => {
+    const MEALMASTER = [
+      "MMMMM----- Recipe via Meal-Master (tm) v8.05",
+      "",
+      "      Title: Sugar Cookies",
+      " Categories: Cookies, Desserts",
+      "      Yield: 24 servings",
+      "",
+      "      1 c  Butter, softened".padEnd(41) + "      2    Eggs",
+      "  1 1/2 c  Sugar",
+      "      1 ts Vanilla extract",
+      "      3 c  All-purpose flour, sifted",
+      "           -or cake flour",
+      "",
+      "MMMMM---------------------------ICING------------------------------",
+      "      2 c  Powdered sugar",
+      "      2 T  Milk",
+      "      1 x  Food coloring",
+      "",
+      "  Cream the butter and sugar. Beat in the",
+      "  eggs and vanilla.",
+      "",
+      "  Stir in the flour and chill.",
+      "",
+      "MMMMM",
+      "",
+      "---------- Recipe via Meal-Master (tm) v8.02",
+      "      Title: Toast",
+      "   Servings: 1",
+      "      1 sl Bread",
+      "  Toast the bread.",
+    ].join("\n");
+
+    it("reads every recipe in the file", () => {
+      const [cookies, toast] = parseMealMaster(MEALMASTER);
+
+      expect(cookies).toMatchObject({
+        name: "Sugar Cookies",
+        format: "mealmaster",
+        servings: "24 servings",
+        instructions: ["Cream the butter and sugar. Beat in the eggs and vanilla.", "Stir in the flour and chill."],
+      });
+      expect(cookies.ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit }))).toEqual([
+        { name: "Butter", quantity: 1, unit: "cup" },
+        { name: "Eggs", quantity: 2, unit: undefined },
+        { name: "Sugar", quantity: 1.5, unit: "cup" },
+        { name: "Vanilla extract", quantity: 1, unit: "tsp" },
+        { name: "All-purpose flour", quantity: 3, unit: "cup" },
+        { name: "Powdered sugar", quantity: 2, unit: "cup" },
+        { name: "Milk", quantity: 2, unit: "tbsp" },
+        { name: "Food coloring", quantity: 1, unit: undefined },
+      ]);
+      expect(cookies.ingredients[4].rawText).toBe("3 cup All-purpose flour, sifted or cake flour");
+
+      expect(toast).toMatchObject({
+        name: "Toast",
+        servings: "1 serving",
+        instructions: ["Toast the bread."],
+        ingredients: [expect.objectContaining({ name: "Bread", quantity: 1, unit: "slice" })],
+      });
+    });
+
+    it("names recipes without a title", () => {
+      expect(parseMealMaster("MMMMM----- Recipe via Meal-Master\n      1    Egg\nMMMMM")[0].name).toBe("Untitled recipe");
+    });
+
+    it("recognizes MealMaster files", () => {
+      expect(isMealMaster(MEALMASTER)).toBe(true);
+      expect(isMealMaster("Just some notes")).toBe(false);
+    });
+  });
+
+  describe("readImportFile", () => {
+    it("reads a Paprika archive of gzipped recipes", async () => {
+      const archive = createZip([
+        { name: "Weeknight Chili.paprikarecipe", data: new Uint8Array(gzipSync(json(PAPRIKA_RECIPE))) },
+        { name: "Plain.paprikarecipe", data: json({ name: "Plain" }), store: true },
+        { name: "__MACOSX/._Plain.paprikarecipe", data: json({}) },
+        { name: "photos/", data: new Uint8Array(), store: true },
+      ]);
+
+      const recipes = await readImportFile(file(archive, "Export.paprikarecipes"));
+
+      expect(recipes.map((r) => r.name)).toEqual(["Weeknight Chili", "Plain"]);
+      expect(recipes[0].ingredients).toHaveLength(3);
+    });
+
+    it("reads a single Paprika recipe", async () => {
+      const recipes = await readImportFile(file(new Uint8Array(gzipSync(json(PAPRIKA_RECIPE))), "chili.paprikarecipe"));
+      expect(recipes[0].name).toBe("Weeknight Chili");
+    });
+
+    it("reads Mela archives and single recipes", async () => {
+      const archive = createZip([{ name: "Lemon Pasta.melarecipe", data: json(MELA_RECIPE) }]);
+
+      expect((await readImportFile(file(archive, "Recipes.melarecipes")))[0].name).toBe("Lemon Pasta");
+      expect((await readImportFile(file(json(MELA_RECIPE), "pasta.MELARECIPE")))[0].format).toBe("mela");
+    });
+
+    it("reads Cooklang, JSON-LD and MealMaster text files", async () => {
+      expect((await readImportFile(file("Add @salt.", "Salted Water.cook")))[0].name).toBe("Salted Water");
+      expect((await readImportFile(file(JSON.stringify([{ "@type": "Recipe", name: "Soup" }]), "recipes.json")))[0].name).toBe("Soup");
+      expect(
+        (await readImportFile(file("MMMMM----- Recipe via Meal-Master\n Title: Toast\nMMMMM", "toast.mmf")))[0].name
+      ).toBe("Toast");
+    });
+
+    it("rejects files it can't read", async () => {
+      await expect(readImportFile(file("hello", "notes.pdf"))).rejects.toThrow("Unsupported file type");
+      await expect(readImportFile(file("hello", "notes.txt"))).rejects.toThrow("No MealMaster recipes found");
+      await expect(readImportFile(file("[]", "empty.json"))).rejects.toThrow("No recipes found");
+      await expect(readImportFile(file("[1]", "list.melarecipe"))).rejects.toThrow("This isn't a valid Mela file");
+      await expect(readImportFile(file("not a zip", "broken.melarecipes"))).rejects.toThrow("This archive couldn't be opened");
+    });
+
+    it("rejects archives it can't unpack", async () => {
+      const archive = createZip([{ name: "a.melarecipe", data: json(MELA_RECIPE), store: true }]);
+      // Switch the entry to bzip2
+      const unsupported = archive.slice();
+      const centralOffset = new DataView(unsupported.buffer).getUint32(unsupported.length - 6, true);
+      new DataView(unsupported.buffer).setUint16(centralOffset + 10, 12, true);
+      await expect(readImportFile(file(unsupported, "a.melarecipes"))).rejects.toThrow(
+        "This archive uses an unsupported compression method"
+      );
+
+      // Point the central directory at garbage
+      const corrupt = archive.slice();
+      new DataView(corrupt.buffer).setUint32(corrupt.length - 6, 0, true);
+      await expect(readImportFile(file(corrupt, "a.melarecipes"))).rejects.toThrow("This archive couldn't be opened");
+    });
+
+    it("reports unexpected failures as unreadable files", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const archive = createZip([{ name: "a.paprikarecipe", data: new Uint8Array([0x1f, 0x8b, 1, 2, 3]), store: true }]);
+
+      await expect(readImportFile(file(archive, "a.paprikarecipes"))).rejects.toThrow("This file couldn't be read");
+      expect(consoleSpy).toHaveBeenCalledWith("Error reading import file:", expect.anything());
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("findImportDuplicates", () => {
+    it("matches existing recipes and earlier imports by name or link", () => {
+      const duplicates = findImportDuplicates(
+        [
+          recipe({ name: "Weeknight Chili!" }),
+          recipe({ name: "Renamed", url: "http://www.example.com/pasta/?utm=1" }),
+          recipe({ name: "Soup", url: "https://soup.example.com" }),
+          recipe({ name: "soup" }),
+          recipe({ name: "Other soup", url: "https://soup.example.com/" }),
+          recipe({ name: "Salad" }),
+        ],
+        [
+          { name: "weeknight chili", url: null },
+          { name: "Pasta", url: "https://example.com/pasta" },
+        ]
+      );
+
+      expect(duplicates).toEqual(["existing", "existing", null, "file", "file", null]);
+    });
+  });
+
+  describe("loadExistingRecipes", () => {
+    const mockQuery = (result: { data: unknown; error: unknown }) => {
+      const eq = vi.fn().mockResolvedValue(result);
+      mockFrom.mockReturnValue({ select: vi.fn(() => ({ eq })) });
+      return eq;
+    };
+
+    it("loads the user's recipe names and links", async () => {
+      const eq = mockQuery({ data: [{ name: "Chili", url: null }], error: null });
+
+      expect(await loadExistingRecipes("user-1")).toEqual([{ name: "Chili", url: null }]);
+      expect(mockFrom).toHaveBeenCalledWith("recipes");
+      expect(eq).toHaveBeenCalledWith("created_by", "user-1");
+    });
+
+    it("returns nothing on error", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockQuery({ data: null, error: { message: "boom" } });
+
+      expect(await loadExistingRecipes("user-1")).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalledWith("Error loading recipes for import:", { message: "boom" });
+      consoleSpy.mockRestore();
+    });
+
+    it("handles no data", async () => {
+      mockQuery({ data: null, error: null });
+      expect(await loadExistingRecipes("user-1")).toEqual([]);
+    });
+  });
+
+  describe("needsParse", () => {
+    it("is true only for link-only recipes", () => {
+      expect(needsParse(recipe({ ingredients: [], instructions: [], url: "https://example.com" }))).toBe(true);
+      expect(needsParse(recipe({ url: "https://example.com" }))).toBe(false);
+      expect(needsParse(recipe({ ingredients: [], instructions: [] }))).toBe(false);
+    });
+  });
+
+  describe("importRecipes", () => {
+    it("saves each recipe with its ingredients and content", async () => {
+      mockRpc.mockResolvedValue({ data: "recipe-1", error: null });
+      const onProgress = vi.fn();
+
+      const result = await importRecipes(
+        [
+          recipe({
+            url: "https://example.com/tacos",
+            description: "Crispy.",
+            servings: "4 servings",
+            prepTime: "5 minutes",
+            cookTime: "10 minutes",
+            totalTime: "15 minutes",
+            sourceTitle: "example.com",
+            ingredients: [
+              { name: "tortillas", quantity: 8, category: "bakery", rawText: "8 tortillas" },
+              { name: "salt", category: "spices" },
+            ],
+          }),
+        ],
+        onProgress
+      );
+
+      expect(result).toEqual({ imported: 1, failed: [] });
+      expect(mockRpc).toHaveBeenCalledWith("import_recipe", {
+        p_name: "Tacos",
+        p_url: "https://example.com/tacos",
+        p_ingredients: [
+          { name: "tortillas", quantity: 8, unit: null, category: "bakery", raw_text: "8 tortillas", sort_order: 0 },
+          { name: "salt", quantity: null, unit: null, category: "spices", raw_text: null, sort_order: 1 },
+        ],
+        p_content: {
+          description: "Crispy.",
+          servings: "4 servings",
+          prep_time: "5 minutes",
+          cook_time: "10 minutes",
+          total_time: "15 minutes",
+          instructions: ["Cook."],
+          source_title: "example.com",
+        },
+      });
+      expect(onProgress).toHaveBeenCalledWith(1, 1);
+      expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
+    });
+
+    it("sends empty content fields as null", async () => {
+      mockRpc.mockResolvedValue({ data: "recipe-1", error: null });
+
+      await importRecipes([recipe({ ingredients: [], instructions: [] })]);
+
+      expect(mockRpc).toHaveBeenCalledWith("import_recipe", expect.objectContaining({
+        p_url: null,
+        p_content: {
+          description: null,
+          servings: null,
+          prep_time: null,
+          cook_time: null,
+          total_time: null,
+          instructions: [],
+          source_title: null,
+        },
+      }));
+    });
+
+    it("queues link-only recipes for a parse", async () => {
+      mockRpc.mockResolvedValue({ data: "recipe-2", error: null });
+      mockEnqueueRecipeParse.mockResolvedValue({});
+
+      const result = await importRecipes([
+        recipe({ name: "Linked", ingredients: [], instructions: [], url: "https://example.com/linked" }),
+      ]);
+
+      expect(result.imported).toBe(1);
+      expect(mockRpc).toHaveBeenCalledWith("import_recipe", expect.objectContaining({ p_content: null }));
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-2", {
+        recipeName: "Linked",
+        recipeUrl: "https://example.com/linked",
+      });
+    });
+
+    it("keeps a recipe whose parse couldn't be queued", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRpc.mockResolvedValue({ data: "recipe-2", error: null });
+      mockEnqueueRecipeParse.mockRejectedValue(new Error("queue down"));
+
+      const result = await importRecipes([recipe({ ingredients: [], instructions: [], url: "https://example.com/x" })]);
+
+      expect(result).toEqual({ imported: 1, failed: [] });
+      expect(consoleSpy).toHaveBeenCalledWith("Error queueing imported recipe parse:", expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it("carries on past recipes that fail to save", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRpc
+        .mockResolvedValueOnce({ data: null, error: { message: "denied" } })
+        .mockResolvedValueOnce({ data: "recipe-3", error: null });
+
+      const result = await importRecipes([recipe({ name: "Broken" }), recipe({ name: "Fine" })]);
+
+      expect(result).toEqual({ imported: 1, failed: ["Broken"] });
+      expect(consoleSpy).toHaveBeenCalledWith("Error importing recipe:", { message: "denied" });
+      consoleSpy.mockRestore();
+    });
+  });
+});
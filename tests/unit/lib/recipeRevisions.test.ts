@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { RevisionIngredient } from "@/types";
+
+// Mock supabase
+const mockFrom = vi.fn();
+const mockRpc = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+import {
+  loadRecipeRevisions,
+  revertRecipeRevision,
+  diffRevisionIngredients,
+  diffRevisionContent,
+  formatRevisionIngredient,
+} from "@/lib/recipeRevisions";
+
+const ingredient = (name: string, overrides: Partial<RevisionIngredient> = {}): RevisionIngredient => ({
+  name,
+  quantity: 1,
+  unit: "cup",
+  category: "pantry",
+  ...overrides,
+});
+
+describe("recipeRevisions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("loadRecipeRevisions", () => {
+    function mockSelect(data: unknown, error: unknown = null) {
+      const mockOrder = vi.fn().mockResolvedValue({ data, error });
+      const mockEq = vi.fn().mockReturnValue({ order: mockOrder });
+      mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: mockEq }) });
+      return { mockEq, mockOrder };
+    }
+
+    it("maps revision snapshots newest first", async () => {
+      const { mockEq, mockOrder } = mockSelect([
+        {
+          id: "rev-2",
+          recipe_id: "recipe-1",
+          source: "parse",
+          ingredients: [
+            { name: "flour", quantity: 2, unit: "cup", category: "pantry", raw_text: "2 cups flour", sort_order: 0 },
+            { name: "eggs", quantity: 3, unit: null, category: null, raw_text: null, sort_order: 1 },
+          ],
+          content: { description: "Fluffy", instructions: ["Whisk", "Fry"] },
+          reverted_from: null,
+          created_at: "2026-03-20T12:00:00Z",
+          profiles: { name: "Sam" },
+        },
+        {
+          id: "rev-1",
+          recipe_id: "recipe-1",
+          source: "backfill",
+          ingredients: [],
+          content: null,
+          reverted_from: null,
+          created_at: "2026-03-19T12:00:00Z",
+          profiles: null,
+        },
+      ]);
+
+      const revisions = await loadRecipeRevisions("recipe-1");
+
+      expect(mockFrom).toHaveBeenCalledWith("recipe_revisions");
+      expect(mockEq).toHaveBeenCalledWith("recipe_id", "recipe-1");
+      expect(mockOrder).toHaveBeenCalledWith("created_at", { ascending: false });
+      expect(revisions).toEqual([
+        {
+          id: "rev-2",
+          recipeId: "recipe-1",
+          source: "parse",
+          changedByName: "Sam",
+          ingredients: [
+            { name: "flour", quantity: 2, unit: "cup", category: "pantry", rawText: "2 cups flour" },
+            { name: "eggs", quantity: 3, unit: undefined, category: "other", rawText: undefined },
+          ],
+          content: {
+            description: "Fluffy",
+            servings: undefined,
+            prepTime: undefined,
+            cookTime: undefined,
+            totalTime: undefined,
+            instructions: ["Whisk", "Fry"],
+            sourceTitle: undefined,
+          },
+          revertedFrom: undefined,
+          createdAt: "2026-03-20T12:00:00Z",
+        },
+        {
+          id: "rev-1",
+          recipeId: "recipe-1",
+          source: "backfill",
+          changedByName: undefined,
+          ingredients: [],
+          content: null,
+          revertedFrom: undefined,
+          createdAt: "2026-03-19T12:00:00Z",
+        },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockSelect(null, { message: "DB error" });
+
+      expect(await loadRecipeRevisions("recipe-1")).toEqual([]);
+    });
+  });
+
+  describe("revertRecipeRevision", () => {
+    it("calls the revert RPC", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      await revertRecipeRevision("rev-1");
+
+      expect(mockRpc).toHaveBeenCalledWith("revert_recipe_revision", { p_revision_id: "rev-1" });
+    });
+
+    it("throws when the revert fails", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: "Revision not found" } });
+
+      await expect(revertRecipeRevision("rev-1")).rejects.toEqual({ message: "Revision not found" });
+    });
+
+    it("throws when the caller can't edit the recipe", async () => {
+      const denied = { code: "42501", message: "Not allowed to edit this recipe" };
+      mockRpc.mockResolvedValue({ data: null, error: denied });
+
+      await expect(revertRecipeRevision("rev-1")).rejects.toEqual(denied);
+    });
+  });
+
+  describe("diffRevisionIngredients", () => {
+    it("reports added, removed and changed ingredients", () => {
+      const before = [ingredient("flour"), ingredient("sugar"), ingredient("salt", { unit: "tsp" })];
+      const after = [
+        ingredient("Flour", { quantity: 2 }),
+        ingredient("salt", { unit: "tsp" }),
+        ingredient("butter", { unit: "tbsp" }),
+      ];
+
+      expect(diffRevisionIngredients(before, after)).toEqual([
+        { type: "changed", before: before[0], after: after[0] },
+        { type: "added", after: after[2] },
+        { type: "removed", before: before[1] },
+      ]);
+    });
+
+    it("treats a unit or category change as a change", () => {
+      expect(diffRevisionIngredients([ingredient("milk")], [ingredient("milk", { unit: "tbsp" })]))
+        .toEqual([expect.objectContaining({ type: "changed" })]);
+      expect(diffRevisionIngredients([ingredient("milk")], [ingredient("milk", { category: "dairy" })]))
+        .toEqual([expect.objectContaining({ type: "changed" })]);
+    });
+
+    it("matches repeated names one to one", () => {
+      const before = [ingredient("salt"), ingredient("salt")];
+
+      expect(diffRevisionIngredients(before, [ingredient("salt")])).toEqual([
+        { type: "removed", before: before[1] },
+      ]);
+    });
+
+    it("returns nothing for identical lists", () => {
+      expect(diffRevisionIngredients([ingredient("flour")], [ingredient("flour")])).toEqual([]);
+    });
+  });
+
+  describe("diffRevisionContent", () => {
+    it("lists the content fields that changed", () => {
+      expect(
+        diffRevisionContent(
+          { description: "Old", instructions: ["Mix"], prepTime: "5 min" },
+          { description: "New", instructions: ["Mix", "Bake"], prepTime: "5 min" }
+        )
+      ).toEqual(["description", "instructions"]);
+    });
+
+    it("compares against missing content", () => {
+      expect(diffRevisionContent(null, { servings: "4" })).toEqual(["servings"]);
+      expect(diffRevisionContent(null, null)).toEqual([]);
+    });
+  });
+
+  describe("formatRevisionIngredient", () => {
+    it("joins quantity, unit and name", () => {
+      expect(formatRevisionIngredient(ingredient("flour", { quantity: 2 }))).toBe("2 cup flour");
+      expect(formatRevisionIngredient(ingredient("eggs", { unit: undefined, quantity: 3 }))).toBe("3 eggs");
+      expect(formatRevisionIngredient(ingredient("salt", { unit: undefined, quantity: undefined }))).toBe("salt");
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { parseServings, isServingCount, getServingsScale, getYieldScale, scaleIngredients } from "@/lib/servings";
+import { createMockRecipeIngredient } from "@tests/utils";
+
+describe("servings", () => {
+  describe("parseServings", () => {
+    it("extracts the first number from free text", () => {
+      expect(parseServings("4")).toBe(4);
+      expect(parseServings("Serves 4-6")).toBe(4);
+      expect(parseServings("Makes 12 cookies")).toBe(12);
+      expect(parseServings("2.5 servings")).toBe(2.5);
+    });
+
+    it("returns undefined when there is no positive number", () => {
+      expect(parseServings(undefined)).toBeUndefined();
+      expect(parseServings(null)).toBeUndefined();
+      expect(parseServings("")).toBeUndefined();
+      expect(parseServings("a crowd")).toBeUndefined();
+      expect(parseServings("0")).toBeUndefined();
+    });
+  });
+
+  describe("isServingCount", () => {
+    it("recognizes counts of people fed", () => {
+      expect(isServingCount("4")).toBe(true);
+      expect(isServingCount("Serves 4-6")).toBe(true);
+      expect(isServingCount("6 portions")).toBe(true);
+      expect(isServingCount("Yield: 8 servings")).toBe(true);
+    });
+
+    it("rejects yields of things made and missing counts", () => {
+      expect(isServingCount("1 loaf")).toBe(false);
+      expect(isServingCount("Makes 24 cookies")).toBe(false);
+      expect(isServingCount("a crowd")).toBe(false);
+      expect(isServingCount(null)).toBe(false);
+    });
+  });
+
+  describe("getYieldScale", () => {
+    it("scales serving counts to the target servings", () => {
+      expect(getYieldScale("Serves 4", { servings: 2, batches: 1 })).toBe(0.5);
+      expect(getYieldScale("2", { servings: 6, batches: 2 })).toBe(3);
+    });
+
+    it("makes other yields once per slot whatever the household size", () => {
+      expect(getYieldScale("1 loaf", { servings: 4, batches: 1 })).toBe(1);
+      expect(getYieldScale("Makes 24 cookies", { servings: 2, batches: 2 })).toBe(2);
+      expect(getYieldScale(null, { servings: 6, batches: 3 })).toBe(3);
+    });
+
+    it("returns 1 without a target", () => {
+      expect(getYieldScale("Serves 4", undefined)).toBe(1);
+    });
+  });
+
+  describe("getServingsScale", () => {
+    it("divides target by base", () => {
+      expect(getServingsScale(4, 2)).toBe(0.5);
+      expect(getServingsScale(2, 6)).toBe(3);
+    });
+
+    it("returns 1 when either side is unknown", () => {
+      expect(getServingsScale(undefined, 2)).toBe(1);
+      expect(getServingsScale(4, undefined)).toBe(1);
+    });
+  });
+
+  describe("scaleIngredients", () => {
+    it("multiplies quantities and leaves unquantified ingredients alone", () => {
+      const ingredients = [
+        createMockRecipeIngredient({ id: "1", quantity: 3 }),
+        createMockRecipeIngredient({ id: "2", quantity: undefined, name: "salt" }),
+      ];
+      const scaled = scaleIngredients(ingredients, 1 / 3);
+      expect(scaled[0].quantity).toBe(1);
+      expect(scaled[1]).toBe(ingredients[1]);
+    });
+
+    it("returns the same array for a factor of 1", () => {
+      const ingredients = [createMockRecipeIngredient()];
+      expect(scaleIngredients(ingredients, 1)).toBe(ingredients);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFrom = vi.fn();
+const mockInvoke = vi.fn();
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    functions: { invoke: (...args: unknown[]) => mockInvoke(...args) },
+  },
+}));
+
+import { loadStorageCleanupRuns, runStorageCleanup } from "@/lib/storageCleanup";
+
+const runRow = {
+  id: "run-1",
+  triggered_by: null,
+  dry_run: false,
+  status: "completed",
+  scanned_count: 40,
+  orphaned_count: 2,
+  orphaned_bytes: "3072",
+  deleted_count: 2,
+  reclaimed_bytes: "3072",
+  orphans: [
+    { bucket: "recipe-images", path: "a.webp", size: "2048", created_at: "2026-03-01T00:00:00Z" },
+    { bucket: "recipe-images", path: "thumbs/a.webp", size: 1024, created_at: "2026-03-01T00:00:00Z" },
+  ],
+  error: null,
+  started_at: "2026-03-22T03:00:00Z",
+  completed_at: "2026-03-22T03:00:05Z",
+};
+
+describe("storageCleanup", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("loadStorageCleanupRuns", () => {
+    it("loads recent runs newest first and converts sizes", async () => {
+      const mockLimit = vi.fn().mockResolvedValue({ data: [runRow], error: null });
+      const mockOrder = vi.fn().mockReturnValue({ limit: mockLimit });
+      mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ order: mockOrder }) });
+
+      const runs = await loadStorageCleanupRuns(5);
+
+      expect(mockFrom).toHaveBeenCalledWith("storage_cleanup_runs");
+      expect(mockOrder).toHaveBeenCalledWith("started_at", { ascending: false });
+      expect(mockLimit).toHaveBeenCalledWith(5);
+      expect(runs).toEqual([
+        {
+          id: "run-1",
+          dryRun: false,
+          status: "completed",
+          scheduled: true,
+          scannedCount: 40,
+          orphanedCount: 2,
+          orphanedBytes: 3072,
+          deletedCount: 2,
+          reclaimedBytes: 3072,
+          orphans: [
+            { bucket: "recipe-images", path: "a.webp", size: 2048, createdAt: "2026-03-01T00:00:00Z" },
+            { bucket: "recipe-images", path: "thumbs/a.webp", size: 1024, createdAt: "2026-03-01T00:00:00Z" },
+          ],
+          error: undefined,
+          startedAt: "2026-03-22T03:00:00Z",
+        },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const mockLimit = vi.fn().mockResolvedValue({ data: null, error: { message: "denied" } });
+      mockFrom.mockReturnValue({
+        select: vi.fn().mockReturnValue({ order: vi.fn().mockReturnValue({ limit: mockLimit }) }),
+      });
+
+      expect(await loadStorageCleanupRuns()).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("runStorageCleanup", () => {
+    it("invokes cleanup-storage with the dry-run flag", async () => {
+      mockInvoke.mockResolvedValue({ data: { success: true }, error: null });
+
+      await runStorageCleanup(true);
+
+      expect(mockInvoke).toHaveBeenCalledWith("cleanup-storage", { body: { dryRun: true } });
+    });
+
+    it("throws when the run fails", async () => {
+      mockInvoke.mockResolvedValue({ data: { success: false, error: "Failed to list recipe-images/" }, error: null });
+
+      await expect(runStorageCleanup(false)).rejects.toThrow("Failed to list recipe-images/");
+    });
+
+    it("throws on invoke errors", async () => {
+      mockInvoke.mockResolvedValue({ data: null, error: new Error("Forbidden") });
+
+      await expect(runStorageCleanup(true)).rejects.toThrow("Forbidden");
+    });
+  });
+});
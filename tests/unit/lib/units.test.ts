@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeUnit,
+  getUnitDefinition,
+  areUnitsCompatible,
+  convertQuantity,
+  sumMeasures,
+} from "@/lib/units";
+
+describe("units", () => {
+  describe("normalizeUnit", () => {
+    it("maps aliases and plurals to canonical names", () => {
+      expect(normalizeUnit("Tablespoons")).toBe("tbsp");
+      expect(normalizeUnit("tsp.")).toBe("tsp");
+      expect(normalizeUnit("lbs")).toBe("lb");
+      expect(normalizeUnit("Grams")).toBe("g");
+      expect(normalizeUnit("litres")).toBe("liter");
+      expect(normalizeUnit("fluid ounces")).toBe("fl oz");
+      expect(normalizeUnit("cloves")).toBe("clove");
+      expect(normalizeUnit("cans")).toBe("can");
+    });
+
+    it("distinguishes cookbook T and t", () => {
+      expect(normalizeUnit("T")).toBe("tbsp");
+      expect(normalizeUnit("t")).toBe("tsp");
+    });
+
+    it("lowercases unknown units and returns undefined for empty input", () => {
+      expect(normalizeUnit("Knob")).toBe("knob");
+      expect(normalizeUnit("  ")).toBeUndefined();
+      expect(normalizeUnit(null)).toBeUndefined();
+      expect(normalizeUnit(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("getUnitDefinition", () => {
+    it("returns the definition for known units", () => {
+      expect(getUnitDefinition("cups")).toMatchObject({ name: "cup", dimension: "volume", system: "us" });
+      expect(getUnitDefinition("kg")).toMatchObject({ name: "kg", dimension: "mass", system: "metric" });
+      expect(getUnitDefinition("knob")).toBeUndefined();
+    });
+  });
+
+  describe("areUnitsCompatible", () => {
+    it("allows volume with volume and mass with mass across systems", () => {
+      expect(areUnitsCompatible("tsp", "cup")).toBe(true);
+      expect(areUnitsCompatible("ml", "cup")).toBe(true);
+      expect(areUnitsCompatible("oz", "g")).toBe(true);
+    });
+
+    it("rejects volume with mass and count with anything else", () => {
+      expect(areUnitsCompatible("cup", "g")).toBe(false);
+      expect(areUnitsCompatible("fl oz", "oz")).toBe(false);
+      expect(areUnitsCompatible("clove", "tsp")).toBe(false);
+      expect(areUnitsCompatible("can", "jar")).toBe(false);
+      expect(areUnitsCompatible("clove", "cloves")).toBe(true);
+      expect(areUnitsCompatible(undefined, "tsp")).toBe(false);
+      expect(areUnitsCompatible(undefined, null)).toBe(true);
+    });
+  });
+
+  describe("convertQuantity", () => {
+    it("converts between compatible units", () => {
+      expect(convertQuantity(1, "tbsp", "tsp")).toBe(3);
+      expect(convertQuantity(1, "cup", "tbsp")).toBe(16);
+      expect(convertQuantity(1, "lb", "oz")).toBe(16);
+      expect(convertQuantity(1, "kg", "g")).toBe(1000);
+    });
+
+    it("returns the quantity unchanged for identical unknown units", () => {
+      expect(convertQuantity(2, "knob", "knob")).toBe(2);
+    });
+
+    it("returns undefined for incompatible units", () => {
+      expect(convertQuantity(1, "cup", "g")).toBeUndefined();
+    });
+  });
+
+  describe("sumMeasures", () => {
+    it("keeps the unit when all measures share it", () => {
+      expect(sumMeasures([{ quantity: 1, unit: "cup" }, { quantity: 2, unit: "cups" }])).toEqual([
+        { quantity: 3, unit: "cup" },
+      ]);
+    });
+
+    it("converts to the smaller unit before summing", () => {
+      expect(sumMeasures([{ quantity: 0.5, unit: "tsp" }, { quantity: 1, unit: "tbsp" }])).toEqual([
+        { quantity: 3.5, unit: "tsp" },
+      ]);
+    });
+
+    it("expresses clean totals in the larger unit", () => {
+      expect(sumMeasures([{ quantity: 3, unit: "tsp" }, { quantity: 1, unit: "tbsp" }])).toEqual([
+        { quantity: 2, unit: "tbsp" },
+      ]);
+      expect(sumMeasures([{ quantity: 8, unit: "oz" }, { quantity: 1, unit: "lb" }])).toEqual([
+        { quantity: 1.5, unit: "lb" },
+      ]);
+      expect(sumMeasures([{ quantity: 500, unit: "g" }, { quantity: 1, unit: "kg" }])).toEqual([
+        { quantity: 1.5, unit: "kg" },
+      ]);
+    });
+
+    it("returns incompatible measures separately", () => {
+      expect(
+        sumMeasures([
+          { quantity: 2, unit: "clove" },
+          { quantity: 1, unit: "tsp" },
+          { quantity: 1, unit: "cloves" },
+        ])
+      ).toEqual([
+        { quantity: 3, unit: "clove" },
+        { quantity: 1, unit: "tsp" },
+      ]);
+    });
+
+    it("sums unitless counts", () => {
+      expect(sumMeasures([{ quantity: 2 }, { quantity: 1 }])).toEqual([{ quantity: 3, unit: undefined }]);
+    });
+
+    it("absorbs measures without a quantity", () => {
+      expect(sumMeasures([{ unit: "pinch" }, { quantity: 1, unit: "tsp" }])).toEqual([
+        { quantity: 1, unit: "tsp" },
+      ]);
+      expect(sumMeasures([{ unit: "pinch" }, { unit: undefined }])).toEqual([
+        { quantity: undefined, unit: "pinch" },
+      ]);
+      expect(sumMeasures([])).toEqual([]);
+    });
+  });
+});
@@ -1,14 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { validateRecipeFile, uploadRecipeFile, FileValidationError } from "@/lib/upload";
+import {
+  validateRecipeFile,
+  uploadRecipeFiles,
+  uploadNotePhoto,
+  removeNotePhoto,
+  FileValidationError,
+  MAX_RECIPE_FILES,
+} from "@/lib/upload";
 
 const mockUpload = vi.fn();
 const mockGetPublicUrl = vi.fn();
+const mockRemove = vi.fn();
 vi.mock("@/integrations/supabase/client", () => ({
   supabase: {
     storage: {
       from: () => ({
         upload: mockUpload,
         getPublicUrl: mockGetPublicUrl,
+        remove: mockRemove,
       }),
     },
   },
@@ -18,6 +27,14 @@ vi.mock("uuid", () => ({
   v4: () => "mock-uuid-456",
 }));
 
+const mockNormalizeImage = vi.fn();
+const mockCreateThumbnail = vi.fn();
+vi.mock("@/lib/imageProcessing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/imageProcessing")>()),
+  normalizeImage: (file: File) => mockNormalizeImage(file),
+  createThumbnail: (file: File) => mockCreateThumbnail(file),
+}));
+
 const createFile = (name: string, type: string, size = 1024) => {
   return new File(["x".repeat(size)], name, { type });
 };
@@ -26,9 +43,12 @@ describe("upload utility", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockUpload.mockResolvedValue({ error: null });
+    mockRemove.mockResolvedValue({ error: null });
     mockGetPublicUrl.mockReturnValue({
       data: { publicUrl: "https://storage.example.com/recipe-images/mock-uuid-456.jpg" },
     });
+    mockNormalizeImage.mockImplementation(async (file: File) => file);
+    mockCreateThumbnail.mockResolvedValue(null);
   });
 
   describe("FileValidationError", () => {
@@ -56,6 +76,11 @@ describe("upload utility", () => {
       expect(() => validateRecipeFile(file)).not.toThrow();
     });
 
+    it("accepts HEIC photos without a MIME type", () => {
+      const file = createFile("IMG_0001.HEIC", "");
+      expect(() => validateRecipeFile(file)).not.toThrow();
+    });
+
     it("accepts application/pdf files", () => {
       const file = createFile("doc.pdf", "application/pdf");
       expect(() => validateRecipeFile(file)).not.toThrow();
@@ -79,15 +104,15 @@ describe("upload utility", () => {
     });
   });
 
-  describe("uploadRecipeFile", () => {
+  describe("uploading one recipe file", () => {
     it("uploads a file and returns the public URL", async () => {
       const file = createFile("recipe.jpg", "image/jpeg");
 
-      const result = await uploadRecipeFile(file);
+      const result = await uploadRecipeFiles([file]);
 
-      expect(mockUpload).toHaveBeenCalledWith("mock-uuid-456.jpg", file);
+      expect(mockUpload).toHaveBeenCalledWith("mock-uuid-456.jpg", file, { contentType: "image/jpeg" });
       expect(mockGetPublicUrl).toHaveBeenCalledWith("mock-uuid-456.jpg");
-      expect(result).toBe("https://storage.example.com/recipe-images/mock-uuid-456.jpg");
+      expect(result).toEqual(["https://storage.example.com/recipe-images/mock-uuid-456.jpg"]);
     });
 
     it("uploads a PDF file with correct extension", async () => {
@@ -96,25 +121,25 @@ describe("upload utility", () => {
       });
       const file = createFile("recipe.pdf", "application/pdf");
 
-      const result = await uploadRecipeFile(file);
+      const result = await uploadRecipeFiles([file]);
 
-      expect(mockUpload).toHaveBeenCalledWith("mock-uuid-456.pdf", file);
-      expect(result).toBe("https://storage.example.com/recipe-images/mock-uuid-456.pdf");
+      expect(mockUpload).toHaveBeenCalledWith("mock-uuid-456.pdf", file, { contentType: "application/pdf" });
+      expect(result).toEqual(["https://storage.example.com/recipe-images/mock-uuid-456.pdf"]);
     });
 
     it("throws FileValidationError for invalid file type", async () => {
       const file = createFile("doc.txt", "text/plain");
 
-      await expect(uploadRecipeFile(file)).rejects.toThrow(FileValidationError);
-      await expect(uploadRecipeFile(file)).rejects.toThrow("Please select an image or PDF file");
+      await expect(uploadRecipeFiles([file])).rejects.toThrow(FileValidationError);
+      await expect(uploadRecipeFiles([file])).rejects.toThrow("Please select an image or PDF file");
       expect(mockUpload).not.toHaveBeenCalled();
     });
 
     it("throws FileValidationError for oversized files", async () => {
       const file = createFile("big.jpg", "image/jpeg", 6 * 1024 * 1024);
 
-      await expect(uploadRecipeFile(file)).rejects.toThrow(FileValidationError);
-      await expect(uploadRecipeFile(file)).rejects.toThrow("File is too large (max 5MB)");
+      await expect(uploadRecipeFiles([file])).rejects.toThrow(FileValidationError);
+      await expect(uploadRecipeFiles([file])).rejects.toThrow("File is too large (max 5MB)");
       expect(mockUpload).not.toHaveBeenCalled();
     });
 
@@ -122,7 +147,112 @@ describe("upload utility", () => {
       mockUpload.mockResolvedValueOnce({ error: new Error("Storage full") });
       const file = createFile("recipe.jpg", "image/jpeg");
 
-      await expect(uploadRecipeFile(file)).rejects.toThrow("Storage full");
+      await expect(uploadRecipeFiles([file])).rejects.toThrow("Storage full");
+    });
+
+    it("uploads the processed photo instead of the original", async () => {
+      const original = createFile("IMG_0001.HEIC", "", 6 * 1024 * 1024);
+      const processed = createFile("IMG_0001.webp", "image/webp");
+      mockNormalizeImage.mockResolvedValueOnce(processed);
+
+      await uploadRecipeFiles([original]);
+
+      expect(mockNormalizeImage).toHaveBeenCalledWith(original);
+      expect(mockUpload).toHaveBeenCalledWith("mock-uuid-456.webp", processed, { contentType: "image/webp" });
+    });
+
+    it("rejects photos still over 5MB after processing", async () => {
+      const file = createFile("huge.jpg", "image/jpeg", 6 * 1024 * 1024);
+
+      await expect(uploadRecipeFiles([file])).rejects.toThrow("File is too large (max 5MB)");
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it("uploads a thumbnail next to the photo", async () => {
+      const thumbnail = createFile("recipe.webp", "image/webp", 100);
+      mockCreateThumbnail.mockResolvedValueOnce(thumbnail);
+      const file = createFile("recipe.jpg", "image/jpeg");
+
+      await uploadRecipeFiles([file]);
+
+      expect(mockCreateThumbnail).toHaveBeenCalledWith(file);
+      expect(mockUpload).toHaveBeenCalledWith("thumbs/mock-uuid-456.jpg", thumbnail, { contentType: "image/webp" });
+    });
+
+    it("still returns the URL when the thumbnail fails", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      mockCreateThumbnail.mockRejectedValueOnce(new Error("Canvas is not supported"));
+
+      const result = await uploadRecipeFiles([createFile("recipe.jpg", "image/jpeg")]);
+
+      expect(result).toEqual(["https://storage.example.com/recipe-images/mock-uuid-456.jpg"]);
+      expect(consoleSpy).toHaveBeenCalledWith("Error uploading thumbnail:", expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("uploadNotePhoto", () => {
+    it("uploads into the recipe-photos folder with a thumbnail", async () => {
+      const thumbnail = createFile("dish.webp", "image/webp", 100);
+      mockCreateThumbnail.mockResolvedValueOnce(thumbnail);
+      const file = createFile("dish.png", "image/png");
+
+      await uploadNotePhoto(file);
+
+      expect(mockUpload).toHaveBeenCalledWith("recipe-photos/mock-uuid-456.png", file, { contentType: "image/png" });
+      expect(mockUpload).toHaveBeenCalledWith(
+        "recipe-photos/thumbs/mock-uuid-456.png",
+        thumbnail,
+        { contentType: "image/webp" },
+      );
+    });
+  });
+
+  describe("removeNotePhoto", () => {
+    it("removes the photo and its thumbnail by their storage paths", async () => {
+      await removeNotePhoto(
+        "https://abc.supabase.co/storage/v1/object/public/recipe-photos/recipe-photos/mock-uuid-456.png"
+      );
+
+      expect(mockRemove).toHaveBeenCalledWith([
+        "recipe-photos/mock-uuid-456.png",
+        "recipe-photos/thumbs/mock-uuid-456.png",
+      ]);
+    });
+
+    it("ignores files from other buckets or sites", async () => {
+      await removeNotePhoto("https://abc.supabase.co/storage/v1/object/public/recipe-images/page-1.jpg");
+      await removeNotePhoto("https://example.com/recipe-photos/photo.jpg");
+
+      expect(mockRemove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("uploadRecipeFiles", () => {
+    it("uploads every file and returns the URLs in order", async () => {
+      mockGetPublicUrl
+        .mockReturnValueOnce({ data: { publicUrl: "https://storage.example.com/page-1.jpg" } })
+        .mockReturnValueOnce({ data: { publicUrl: "https://storage.example.com/page-2.pdf" } });
+      const files = [createFile("page-1.jpg", "image/jpeg"), createFile("page-2.pdf", "application/pdf")];
+
+      const result = await uploadRecipeFiles(files);
+
+      expect(mockUpload).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(["https://storage.example.com/page-1.jpg", "https://storage.example.com/page-2.pdf"]);
+    });
+
+    it("uploads nothing when any file is invalid", async () => {
+      const files = [createFile("page-1.jpg", "image/jpeg"), createFile("notes.txt", "text/plain")];
+
+      await expect(uploadRecipeFiles(files)).rejects.toThrow("Please select an image or PDF file");
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it("rejects more than the maximum number of files", async () => {
+      const files = Array.from({ length: MAX_RECIPE_FILES + 1 }, (_, i) => createFile(`page-${i}.jpg`, "image/jpeg"));
+
+      await expect(uploadRecipeFiles(files)).rejects.toThrow(`A recipe can have at most ${MAX_RECIPE_FILES} files`);
+      expect(mockUpload).not.toHaveBeenCalled();
     });
   });
 });
@@ -4,6 +4,7 @@ const mockSelect = vi.fn();
 const mockUpsert = vi.fn();
 const mockEq = vi.fn();
 const mockMaybeSingle = vi.fn();
+const mockRpc = vi.fn();
 
 vi.mock("@/integrations/supabase/client", () => ({
   supabase: {
@@ -11,18 +12,30 @@ vi.mock("@/integrations/supabase/client", () => ({
       select: mockSelect,
       upsert: mockUpsert,
     })),
+    rpc: (...args: unknown[]) => mockRpc(...args),
   },
 }));
 
+const { mockIsDevMode } = vi.hoisted(() => ({ mockIsDevMode: vi.fn(() => false) }));
 vi.mock("@/lib/devMode", () => ({
-  isDevMode: () => false,
+  isDevMode: () => mockIsDevMode(),
 }));
 
 import {
   loadUserPreferences,
   saveUserPreferences,
+  loadClubDietaryRestrictions,
+  getCachedAiOptions,
 } from "@/lib/userPreferences";
 
+const DIETARY_DEFAULTS = {
+  dietaryRestrictions: [],
+  cuisinePreferences: [],
+  dislikedIngredients: [],
+  cookingSkill: "intermediate",
+  maxCookTimeMinutes: 60,
+};
+
 describe("userPreferences", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -46,7 +59,9 @@ describe("userPreferences", () => {
         mealTypes: ["breakfast", "lunch", "dinner"],
         weekStartDay: 0,
         householdSize: 2,
+        aiProvider: "anthropic",
         aiModel: "claude-sonnet-4-6",
+        ...DIETARY_DEFAULTS,
       });
     });
 
@@ -56,6 +71,7 @@ describe("userPreferences", () => {
           meal_types: ["lunch", "dinner"],
           week_start_day: 1,
           household_size: 4,
+          ai_provider: "openai",
           ai_model_parse: "gpt-4o",
         },
         error: null,
@@ -67,7 +83,36 @@ describe("userPreferences", () => {
         mealTypes: ["lunch", "dinner"],
         weekStartDay: 1,
         householdSize: 4,
+        aiProvider: "openai",
         aiModel: "gpt-4o",
+        ...DIETARY_DEFAULTS,
+      });
+    });
+
+    it("returns stored dietary preferences", async () => {
+      mockMaybeSingle.mockResolvedValue({
+        data: {
+          meal_types: ["dinner"],
+          week_start_day: 0,
+          household_size: 2,
+          ai_model_parse: "claude-sonnet-4-6",
+          dietary_restrictions: ["vegan"],
+          cuisine_preferences: ["Thai"],
+          disliked_ingredients: ["cilantro"],
+          cooking_skill: "advanced",
+          max_cook_time_minutes: 30,
+        },
+        error: null,
+      });
+
+      const result = await loadUserPreferences("user-1");
+
+      expect(result).toMatchObject({
+        dietaryRestrictions: ["vegan"],
+        cuisinePreferences: ["Thai"],
+        dislikedIngredients: ["cilantro"],
+        cookingSkill: "advanced",
+        maxCookTimeMinutes: 30,
       });
     });
 
@@ -86,7 +131,9 @@ describe("userPreferences", () => {
         mealTypes: ["breakfast", "lunch", "dinner"],
         weekStartDay: 0,
         householdSize: 2,
+        aiProvider: "anthropic",
         aiModel: "claude-sonnet-4-6",
+        ...DIETARY_DEFAULTS,
       });
       expect(consoleSpy).toHaveBeenCalled();
       consoleSpy.mockRestore();
@@ -139,6 +186,40 @@ describe("userPreferences", () => {
 
       expect(result.householdSize).toBe(2);
     });
+
+    it("falls back to anthropic for an unknown ai_provider", async () => {
+      mockMaybeSingle.mockResolvedValue({
+        data: { ai_provider: "gemini", ai_model_parse: "claude-sonnet-4-6" },
+        error: null,
+      });
+
+      const result = await loadUserPreferences("user-1");
+
+      expect(result.aiProvider).toBe("anthropic");
+    });
+
+    it("caches the loaded provider and model for AI calls", async () => {
+      mockIsDevMode.mockReturnValueOnce(true);
+      mockMaybeSingle.mockResolvedValue({
+        data: { ai_provider: "stub", ai_model_parse: "stub-fixtures" },
+        error: null,
+      });
+
+      await loadUserPreferences("user-1");
+
+      expect(getCachedAiOptions()).toEqual({ provider: "stub", model: "stub-fixtures" });
+    });
+
+    it("falls back to the default provider for a saved stub outside dev mode", async () => {
+      mockMaybeSingle.mockResolvedValue({
+        data: { ai_provider: "stub", ai_model_parse: "stub-fixtures" },
+        error: null,
+      });
+
+      const result = await loadUserPreferences("user-1");
+
+      expect(result.aiProvider).toBe("anthropic");
+    });
   });
 
   describe("saveUserPreferences", () => {
@@ -147,7 +228,13 @@ describe("userPreferences", () => {
         mealTypes: ["dinner"],
         weekStartDay: 1,
         householdSize: 3,
+        aiProvider: "openai",
         aiModel: "gpt-4o",
+        dietaryRestrictions: ["gluten_free"],
+        cuisinePreferences: [],
+        dislikedIngredients: ["olives"],
+        cookingSkill: "beginner",
+        maxCookTimeMinutes: 45,
       });
 
       expect(mockUpsert).toHaveBeenCalledWith(
@@ -156,8 +243,13 @@ describe("userPreferences", () => {
           meal_types: ["dinner"],
           week_start_day: 1,
           household_size: 3,
+          ai_provider: "openai",
           ai_model_parse: "gpt-4o",
           ai_model_combine: "gpt-4o",
+          dietary_restrictions: ["gluten_free"],
+          disliked_ingredients: ["olives"],
+          cooking_skill: "beginner",
+          max_cook_time_minutes: 45,
         }),
         { onConflict: "user_id" }
       );
@@ -175,11 +267,42 @@ describe("userPreferences", () => {
           mealTypes: ["breakfast"],
           weekStartDay: 0,
           householdSize: 2,
+          aiProvider: "anthropic",
           aiModel: "claude-sonnet-4-6",
+          ...DIETARY_DEFAULTS,
         })
       ).rejects.toThrow("DB error");
 
       consoleSpy.mockRestore();
     });
   });
+
+  describe("loadClubDietaryRestrictions", () => {
+    it("maps rows from the rpc", async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          { user_id: "u-1", name: "Alex", dietary_restrictions: ["vegan"] },
+          { user_id: "u-2", name: "Sam", dietary_restrictions: null },
+        ],
+        error: null,
+      });
+
+      const result = await loadClubDietaryRestrictions("club-1");
+
+      expect(mockRpc).toHaveBeenCalledWith("get_club_dietary_restrictions", { p_club_id: "club-1" });
+      expect(result).toEqual([
+        { userId: "u-1", name: "Alex", restrictions: ["vegan"] },
+        { userId: "u-2", name: "Sam", restrictions: [] },
+      ]);
+    });
+
+    it("returns an empty list on error", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: new Error("RPC error") });
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(await loadClubDietaryRestrictions("club-1")).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
 });
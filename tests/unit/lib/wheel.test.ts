@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { createMockIngredient } from "@tests/utils";
+import { getSpinOdds, pickSpinIndex } from "@/lib/wheel";
+
+const ingredients = [
+  createMockIngredient({ id: "a", usedCount: 0 }),
+  createMockIngredient({ id: "b", usedCount: 1 }),
+  createMockIngredient({ id: "c", usedCount: 3 }),
+];
+
+describe("wheel", () => {
+  describe("getSpinOdds", () => {
+    it("gives equal odds in uniform mode", () => {
+      expect(getSpinOdds(ingredients, "uniform")).toEqual([1 / 3, 1 / 3, 1 / 3]);
+    });
+
+    it("weights by 1 / (1 + usedCount) in weighted mode", () => {
+      // 1 + 0.5 + 0.25 = 1.75
+      const odds = getSpinOdds(ingredients, "weighted");
+      expect(odds[0]).toBeCloseTo(1 / 1.75);
+      expect(odds[1]).toBeCloseTo(0.5 / 1.75);
+      expect(odds[2]).toBeCloseTo(0.25 / 1.75);
+    });
+
+    it("excludes recent ingredients in cooldown mode", () => {
+      expect(getSpinOdds(ingredients, "cooldown", { recentIngredientIds: ["a"] })).toEqual([0, 0.5, 0.5]);
+    });
+
+    it("falls back to uniform when every ingredient is cooling down", () => {
+      expect(
+        getSpinOdds(ingredients, "cooldown", { recentIngredientIds: ["a", "b", "c"] })
+      ).toEqual([1 / 3, 1 / 3, 1 / 3]);
+    });
+
+    it("avoids the previous pick when another is possible", () => {
+      expect(getSpinOdds(ingredients, "uniform", { excludeIndex: 1 })).toEqual([0.5, 0, 0.5]);
+      expect(
+        getSpinOdds(ingredients, "cooldown", { recentIngredientIds: ["a", "c"], excludeIndex: 1 })
+      ).toEqual([0, 1, 0]);
+    });
+
+    it("returns an empty list for no ingredients", () => {
+      expect(getSpinOdds([], "weighted")).toEqual([]);
+    });
+  });
+
+  describe("pickSpinIndex", () => {
+    it("maps the random value onto cumulative odds", () => {
+      const odds = [0.2, 0.3, 0.5];
+      expect(pickSpinIndex(odds, () => 0)).toBe(0);
+      expect(pickSpinIndex(odds, () => 0.25)).toBe(1);
+      expect(pickSpinIndex(odds, () => 0.7)).toBe(2);
+    });
+
+    it("never picks a zero-odds ingredient", () => {
+      expect(pickSpinIndex([0, 1, 0], () => 0)).toBe(1);
+      expect(pickSpinIndex([0.5, 0.5, 0], () => 0.9999999999)).toBe(1);
+    });
+
+    it("returns -1 when nothing can be picked", () => {
+      expect(pickSpinIndex([])).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, act } from "@tests/utils";
+import { createMockRecipeIngredient } from "@tests/utils";
+import CookModePage from "@/pages/CookModePage";
+
+// Router mock
+const mockNavigate = vi.fn();
+vi.mock("react-router-dom", async () => {
+  const actual = await vi.importActual("react-router-dom");
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+    useParams: () => ({ recipeId: "recipe-1" }),
+  };
+});
+
+// Only the loader is mocked; progress goes through the real localStorage helpers
+const mockLoadCookModeRecipe = vi.fn();
+vi.mock("@/lib/cookMode", async () => {
+  const actual = await vi.importActual("@/lib/cookMode");
+  return {
+    ...actual,
+    loadCookModeRecipe: (...args: unknown[]) => mockLoadCookModeRecipe(...args),
+  };
+});
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {},
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+import { toast } from "sonner";
+
+const soup = {
+  id: "recipe-1",
+  name: "Tomato Soup",
+  instructions: [
+    "Dice the onion and warm the olive oil.",
+    "Add the tomatoes and simmer 20 minutes.",
+    "Blend until smooth.",
+  ],
+  ingredients: [
+    createMockRecipeIngredient({ id: "ing-1", name: "onion", rawText: "1 onion, diced" }),
+    createMockRecipeIngredient({ id: "ing-2", name: "olive oil", quantity: 2, unit: "tbsp", rawText: undefined }),
+    createMockRecipeIngredient({ id: "ing-3", name: "tomatoes", quantity: 0.5, unit: undefined, rawText: undefined }),
+  ],
+};
+
+const renderPage = async () => {
+  render(<CookModePage />);
+  await screen.findByText(/Step \d of/);
+};
+
+const savedProgress = () => JSON.parse(localStorage.getItem("cookProgress:recipe-1") ?? "null");
+
+describe("CookModePage", () => {
+  const mockRequest = vi.fn();
+  const mockRelease = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockLoadCookModeRecipe.mockResolvedValue(soup);
+    mockRelease.mockResolvedValue(undefined);
+    mockRequest.mockResolvedValue({ release: mockRelease });
+    Object.defineProperty(navigator, "wakeLock", {
+      value: { request: mockRequest },
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Reflect.deleteProperty(navigator, "wakeLock");
+  });
+
+  it("shows one step at a time with the ingredients it uses", async () => {
+    await renderPage();
+
+    expect(mockLoadCookModeRecipe).toHaveBeenCalledWith("recipe-1");
+    expect(screen.getByText("Tomato Soup")).toBeInTheDocument();
+    expect(screen.getByText("Step 1 of 3")).toBeInTheDocument();
+    expect(screen.getByText("Dice the onion and warm the olive oil.")).toBeInTheDocument();
+    expect(screen.getByText("1 onion, diced")).toBeInTheDocument();
+    expect(screen.getByText("2 tbsp olive oil")).toBeInTheDocument();
+    expect(screen.queryByText(/tomatoes/)).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Previous/ })).toBeDisabled();
+  });
+
+  it("moves between steps with the buttons and arrow keys and saves the current step", async () => {
+    await renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: /Next/ }));
+    expect(screen.getByText("Step 2 of 3")).toBeInTheDocument();
+    expect(screen.getByText("1/2 tomatoes")).toBeInTheDocument();
+    expect(savedProgress()).toMatchObject({ stepIndex: 1 });
+
+    fireEvent.keyDown(window, { key: "ArrowRight" });
+    expect(screen.getByText("Step 3 of 3")).toBeInTheDocument();
+    fireEvent.keyDown(window, { key: "ArrowRight" });
+    expect(screen.getByText("Step 3 of 3")).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: "ArrowLeft" });
+    expect(screen.getByText("Step 2 of 3")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: /Previous/ }));
+    expect(screen.getByText("Step 1 of 3")).toBeInTheDocument();
+  });
+
+  it("picks up where a previous session left off", async () => {
+    localStorage.setItem("cookProgress:recipe-1", JSON.stringify({ stepIndex: 7, timers: [] }));
+
+    await renderPage();
+
+    expect(screen.getByText("Step 3 of 3")).toBeInTheDocument();
+  });
+
+  it("runs timers for durations in the step, side by side", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    localStorage.setItem("cookProgress:recipe-1", JSON.stringify({ stepIndex: 1, timers: [] }));
+    await renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Start 20 minutes timer" }));
+    fireEvent.click(screen.getByRole("button", { name: "Start 20 minutes timer" }));
+
+    expect(screen.getAllByText("Step 2 · 20 minutes")).toHaveLength(2);
+    expect(screen.getAllByText("20:00")).toHaveLength(2);
+    expect(savedProgress().timers).toHaveLength(2);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(65_000);
+    });
+    expect(screen.getAllByText("18:55")).toHaveLength(2);
+
+    // Pause one; it holds while the other keeps going
+    fireEvent.click(screen.getAllByRole("button", { name: "Pause 20 minutes timer" })[0]);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(60_000);
+    });
+    expect(screen.getByText("18:55")).toBeInTheDocument();
+    expect(screen.getByText("17:55")).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Dismiss 20 minutes timer" })[1]);
+    expect(screen.queryByText("17:55")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Resume 20 minutes timer" }));
+    expect(screen.getByRole("button", { name: "Pause 20 minutes timer" })).toBeInTheDocument();
+  });
+
+  it("rings when a timer finishes and can restart it", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const vibrate = vi.fn();
+    Object.defineProperty(navigator, "vibrate", { value: vibrate, configurable: true });
+    localStorage.setItem(
+      "cookProgress:recipe-1",
+      JSON.stringify({
+        stepIndex: 0,
+        timers: [{
+          id: "1-0",
+          label: "20 minutes",
+          stepIndex: 1,
+          durationSeconds: 1200,
+          endsAt: Date.now() + 2000,
+          remainingSeconds: 1200,
+        }],
+      })
+    );
+    await renderPage();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(3000);
+    });
+
+    expect(toast.success).toHaveBeenCalledWith("Timer done: 20 minutes (step 2)", { duration: 10000 });
+    expect(vibrate).toHaveBeenCalled();
+    expect(screen.getByText("Done")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Restart 20 minutes timer" }));
+    expect(screen.getByText("20:00")).toBeInTheDocument();
+    Reflect.deleteProperty(navigator, "vibrate");
+  });
+
+  it("keeps the screen awake and re-acquires the lock when the page becomes visible", async () => {
+    const { unmount } = render(<CookModePage />);
+    await screen.findByText("Step 1 of 3");
+
+    expect(mockRequest).toHaveBeenCalledWith("screen");
+    act(() => {
+      document.dispatchEvent(new Event("visibilitychange"));
+    });
+    await vi.waitFor(() => expect(mockRequest).toHaveBeenCalledTimes(2));
+
+    unmount();
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it("still works when the wake lock is refused or unsupported", async () => {
+    mockRequest.mockRejectedValue(new Error("NotAllowedError"));
+    const { unmount } = render(<CookModePage />);
+    await screen.findByText("Step 1 of 3");
+    unmount();
+
+    Reflect.deleteProperty(navigator, "wakeLock");
+    await renderPage();
+    expect(screen.getByText("Step 1 of 3")).toBeInTheDocument();
+  });
+
+  it("clears progress and returns to the recipe when finished", async () => {
+    localStorage.setItem("cookProgress:recipe-1", JSON.stringify({ stepIndex: 2, timers: [] }));
+    await renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Finish" }));
+
+    expect(localStorage.getItem("cookProgress:recipe-1")).toBeNull();
+    expect(mockNavigate).toHaveBeenCalledWith("/recipes/recipe-1");
+  });
+
+  it("links back to the recipe", async () => {
+    await renderPage();
+
+    expect(screen.getByRole("link", { name: "Exit cook mode" })).toHaveAttribute("href", "/recipes/recipe-1");
+  });
+
+  it("explains when the recipe has no steps", async () => {
+    mockLoadCookModeRecipe.mockResolvedValue({ ...soup, instructions: [] });
+    render(<CookModePage />);
+
+    expect(await screen.findByText("No steps to cook from")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Back to recipe" })).toHaveAttribute("href", "/recipes/recipe-1");
+  });
+
+  it("shows not found for a missing recipe", async () => {
+    mockLoadCookModeRecipe.mockResolvedValue(null);
+    render(<CookModePage />);
+
+    expect(await screen.findByText("Recipe not found")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Go to Recipe Club" })).toHaveAttribute("href", "/");
+  });
+});
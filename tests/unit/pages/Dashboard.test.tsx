@@ -1157,4 +1157,49 @@ describe("Dashboard", () => {
       expect(screen.getByText("Recipe Club Hub")).toBeInTheDocument();
     });
   });
+
+  it("lists the user's clubs and switches the active club", async () => {
+    mockGetCurrentUser.mockResolvedValue({
+      id: "user-1",
+      name: "Test",
+      email: "test@test.com",
+    });
+    mockGetAllowedUser.mockResolvedValue({ role: "member", is_club_member: true });
+    mockIsAdmin.mockReturnValue(false);
+    localStorage.setItem("activeClubId", "club-office");
+
+    mockFrom.mockImplementation((table: string) => {
+      if (table === "club_members") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockResolvedValue({
+              data: [
+                { role: "member", clubs: { id: "club-office", name: "Office" } },
+                { role: "admin", clubs: { id: "club-family", name: "Family" } },
+              ],
+              error: null,
+            }),
+          }),
+        };
+      }
+      return mockFromResult;
+    });
+
+    render(<Dashboard />);
+
+    // Active club is shown under the title and ticked in the menu
+    await waitFor(() => {
+      expect(screen.getAllByText("Office")).toHaveLength(2);
+    });
+    expect(mockFromResult.eq).toHaveBeenCalledWith("club_id", "club-office");
+
+    fireEvent.click(screen.getByRole("button", { name: "Family" }));
+
+    await waitFor(() => {
+      expect(localStorage.getItem("activeClubId")).toBe("club-family");
+    });
+    expect(mockGetAllowedUser).toHaveBeenCalledTimes(2);
+    expect(mockFromResult.eq).toHaveBeenCalledWith("club_id", "club-family");
+    localStorage.clear();
+  });
 });
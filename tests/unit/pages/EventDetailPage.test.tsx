@@ -52,9 +52,36 @@ vi.mock("@/integrations/supabase/client", () => ({
   },
 }));
 
+// Parse job queue mock; jobs complete as soon as they're followed
+const mockEnqueueRecipeParse = vi.fn();
+const mockSubscribeToParseJob = vi.fn();
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+  subscribeToParseJob: (...args: unknown[]) => mockSubscribeToParseJob(...args),
+}));
+
+const parseJob = (status: string, lastError?: string) => ({
+  id: "job-1",
+  recipeId: "new-recipe-id",
+  status,
+  attempts: 1,
+  maxAttempts: 3,
+  lastError,
+  nextAttemptAt: "2026-01-01T00:00:00Z",
+});
+
+/** Report the given status for each followed job in turn, then "completed". */
+const followParseJobs = (...statuses: string[]) => {
+  mockSubscribeToParseJob.mockImplementation((_jobId: string, onChange: (job: unknown) => void) => {
+    const status = statuses.shift() ?? "completed";
+    onChange(parseJob(status, status === "failed" ? "Parse failed" : undefined));
+    return vi.fn();
+  });
+};
+
 // Sonner mock
 vi.mock("sonner", () => ({
-  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() },
+  toast: Object.assign(vi.fn(), { success: vi.fn(), error: vi.fn(), warning: vi.fn() }),
 }));
 import { toast } from "sonner";
 
@@ -88,8 +115,9 @@ const MockFileValidationError = vi.hoisted(() => {
   return FVE;
 });
 vi.mock("@/lib/upload", () => ({
-  uploadRecipeFile: (...args: unknown[]) => mockUploadRecipeFile(...args),
+  uploadRecipeFiles: (files: File[]) => Promise.all(files.map((file) => mockUploadRecipeFile(file))),
   FileValidationError: MockFileValidationError,
+  MAX_RECIPE_FILES: 6,
 }));
 
 // GroceryList mock
@@ -110,7 +138,15 @@ vi.mock("@/lib/groceryCache", () => ({
   saveGroceryCache: (...args: unknown[]) => mockSaveGroceryCache(...args),
   deleteGroceryCache: vi.fn(),
   loadCheckedItems: vi.fn().mockResolvedValue(new Set()),
-  saveCheckedItems: vi.fn().mockResolvedValue(undefined),
+  saveCheckedItems: vi.fn().mockResolvedValue(true),
+}));
+
+// Household mock — the user isn't in a household, so checks stay personal
+vi.mock("@/lib/household", () => ({
+  loadHouseholdId: vi.fn().mockResolvedValue(null),
+  loadGroceryChecks: vi.fn().mockResolvedValue([]),
+  setGroceryCheck: vi.fn().mockResolvedValue(true),
+  subscribeToGroceryChecks: vi.fn(() => () => {}),
 }));
 
 // IngredientColors mock
@@ -236,6 +272,7 @@ const eventData = {
   ingredient_id: "ing-1",
   created_by: "user-1",
   calendar_event_id: null,
+  club_id: "club-1",
   ingredients: { name: "Chicken", color: null },
 };
 
@@ -373,6 +410,8 @@ describe("EventDetailPage", () => {
     capturedPhotoUploadProps = {};
     capturedRecipesTabProps = {};
     setupDefaultMocks();
+    mockEnqueueRecipeParse.mockResolvedValue(parseJob("queued"));
+    followParseJobs();
   });
 
   it("shows loading spinner initially", () => {
@@ -449,6 +488,22 @@ describe("EventDetailPage", () => {
     expect(screen.getByTestId("recipes-tab")).toBeInTheDocument();
   });
 
+  it("shows the allergen summary when club members have dietary restrictions", async () => {
+    const { supabase } = await import("@/integrations/supabase/client");
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: [{ user_id: "u-2", name: "Alex", dietary_restrictions: ["vegetarian"] }],
+      error: null,
+    } as never);
+
+    render(<EventDetailPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Allergen summary")).toBeInTheDocument();
+    });
+    expect(supabase.rpc).toHaveBeenCalledWith("get_club_dietary_restrictions", { p_club_id: "club-1" });
+    expect(screen.getByText("Alex (vegetarian)")).toBeInTheDocument();
+  });
+
   it("renders event date and time", async () => {
     render(<EventDetailPage />);
 
@@ -1124,10 +1179,11 @@ describe("EventDetailPage", () => {
       expect(toast.success).toHaveBeenCalledWith("Recipe updated!");
     });
 
-    // parse-recipe should be called because URL changed
-    expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.objectContaining({
-      body: expect.objectContaining({ recipeUrl: "https://example.com/updated" }),
-    }));
+    // A re-parse should be queued because URL changed
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-1", {
+      recipeName: "Updated Chicken Parm",
+      recipeUrl: "https://example.com/updated",
+    });
   });
 
   it("saves recipe edit with name-only change and does NOT trigger re-parse", async () => {
@@ -1157,8 +1213,8 @@ describe("EventDetailPage", () => {
       expect(toast.success).toHaveBeenCalledWith("Recipe updated!");
     });
 
-    // parse-recipe should NOT be called because URL didn't change
-    expect(mockFunctionsInvoke).not.toHaveBeenCalledWith("parse-recipe", expect.anything());
+    // No re-parse should be queued because URL didn't change
+    expect(mockEnqueueRecipeParse).not.toHaveBeenCalled();
   });
 
   it("shows validation error when editing recipe with empty name", async () => {
@@ -2521,8 +2577,7 @@ describe("EventDetailPage", () => {
   // ---- HANDLE KEEP RECIPE ANYWAY ----
 
   it("handles keepRecipeAnyway after parse failure", async () => {
-    // Simulate parse failure by making functions.invoke fail
-    mockFunctionsInvoke.mockRejectedValue(new Error("Parse failed"));
+    followParseJobs("failed");
 
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
@@ -2555,7 +2610,7 @@ describe("EventDetailPage", () => {
     fireEvent.click(screen.getByText("Keep as-is"));
 
     await waitFor(() => {
-      expect(toast.success).toHaveBeenCalledWith("Recipe added (parsing skipped)");
+      expect(toast.success).toHaveBeenCalledWith("Recipe saved without parsing");
     });
 
     consoleSpy.mockRestore();
@@ -2564,7 +2619,7 @@ describe("EventDetailPage", () => {
   // ---- HANDLE REMOVE AND RETRY ----
 
   it("handles removeAndRetry after parse failure", async () => {
-    mockFunctionsInvoke.mockRejectedValue(new Error("Parse failed"));
+    followParseJobs("failed");
 
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
@@ -2757,8 +2812,8 @@ describe("EventDetailPage", () => {
       expect(toast.success).toHaveBeenCalledWith("Recipe updated!");
     });
 
-    // Both notification and parse-recipe should be called since URL changed
-    expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+    // A re-parse should be queued since URL changed
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(expect.any(String), expect.anything());
   });
 
   // ---- EDIT RECIPE ERROR ----
@@ -3377,8 +3432,6 @@ describe("EventDetailPage", () => {
   it("handles recipe submit full flow with parse success", async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true });
 
-    mockFunctionsInvoke.mockResolvedValue({ data: { success: true }, error: null });
-
     render(<EventDetailPage />);
 
     await waitFor(() => {
@@ -3402,9 +3455,12 @@ describe("EventDetailPage", () => {
     // Wait for parse step to complete
     await vi.advanceTimersByTimeAsync(500);
 
-    // Functions.invoke called for parsing
+    // Parse job queued for the new recipe
     await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ recipeName: "My Recipe", recipeUrl: "https://example.com/recipe" })
+      );
     });
 
     // Advance timers to get through the notification and done steps
@@ -3479,7 +3535,7 @@ describe("EventDetailPage", () => {
   });
 
   it("handles recipe submit with parse failure showing keep/retry options", async () => {
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "Parse error" } });
+    followParseJobs("failed");
 
     render(<EventDetailPage />);
 
@@ -3510,13 +3566,13 @@ describe("EventDetailPage", () => {
     fireEvent.click(screen.getByText("Keep as-is"));
 
     await waitFor(() => {
-      expect(toast.success).toHaveBeenCalledWith("Recipe added (parsing skipped)");
+      expect(toast.success).toHaveBeenCalledWith("Recipe saved without parsing");
     });
   });
 
   it("handles recipe submit parse failure then remove and retry", async () => {
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "Parse error" } });
+    followParseJobs("failed", "failed");
 
     render(<EventDetailPage />);
 
@@ -3542,7 +3598,7 @@ describe("EventDetailPage", () => {
       expect(screen.getByText("Try Again")).toBeInTheDocument();
     });
 
-    // Click retry - it will parse again (and fail again since mock still returns error)
+    // Click retry - the second job fails too
     fireEvent.click(screen.getByText("Try Again"));
 
     // Should show failure state again after retry fails
@@ -4063,11 +4119,11 @@ describe("EventDetailPage", () => {
       expect(toast.success).toHaveBeenCalledWith("Recipe updated!");
     });
 
-    // Both notification and parse-recipe should be called because URL changed
+    // Both the notification and a re-parse should happen because URL changed
     await waitFor(() => {
       expect(mockFunctionsInvoke).toHaveBeenCalledWith("notify-recipe-change", expect.anything());
     });
-    expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(expect.any(String), expect.anything());
   });
 
   it("saves recipe edit with no URL change skips notification", async () => {
@@ -4305,53 +4361,14 @@ describe("EventDetailPage", () => {
 
   // ---- CLOSE ADD RECIPE DIALOG DURING PARSING (lines 1372-1380) ----
 
-  it("closes add recipe dialog during parsing with window.confirm", async () => {
-    // Make functions.invoke hang (never resolve) to keep parseStatus at "parsing"
-    mockFunctionsInvoke.mockReturnValue(new Promise(() => {}));
-
-    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(true);
-
-    render(<EventDetailPage />);
-
-    await waitFor(() => {
-      expect(screen.getByText("Chicken")).toBeInTheDocument();
-    });
-
-    fireEvent.click(screen.getByText("Add Recipe"));
-
-    await waitFor(() => {
-      expect(screen.getByText("Add a Recipe")).toBeInTheDocument();
-    });
-
-    // Fill in name and URL
-    fireEvent.change(screen.getByPlaceholderText("Enter recipe name"), { target: { value: "Parse Test" } });
-    fireEvent.change(screen.getByPlaceholderText("https://..."), { target: { value: "https://example.com/parse" } });
-
-    // Click Add Recipe — this sets parseStatus to "parsing" and starts the insert + parse flow
-    const addBtn = screen.getByRole("button", { name: /add recipe/i });
-    fireEvent.click(addBtn);
-
-    // Wait for the recipe insert to complete (parseStatus stays "parsing" because functions.invoke hangs)
-    await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
-    });
-
-    // Now press Escape to trigger onOpenChange(false) while parseStatus is "parsing"
-    fireEvent.keyDown(document, { key: "Escape" });
-
-    await waitFor(() => {
-      expect(confirmSpy).toHaveBeenCalledWith("Parsing is in progress. The recipe has been saved. Close anyway?");
+  it("closes add recipe dialog during parsing and leaves the job running", async () => {
+    // The job stays running, so parseStatus stays "parsing"
+    const unsubscribe = vi.fn();
+    mockSubscribeToParseJob.mockImplementation((_jobId: string, onChange: (job: unknown) => void) => {
+      onChange(parseJob("running"));
+      return unsubscribe;
     });
 
-    confirmSpy.mockRestore();
-  });
-
-  it("keeps add recipe dialog open when declining confirm during parsing", async () => {
-    // Make functions.invoke hang to keep parseStatus at "parsing"
-    mockFunctionsInvoke.mockReturnValue(new Promise(() => {}));
-
-    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
-
     render(<EventDetailPage />);
 
     await waitFor(() => {
@@ -4368,26 +4385,24 @@ describe("EventDetailPage", () => {
     fireEvent.change(screen.getByPlaceholderText("Enter recipe name"), { target: { value: "Parse Test" } });
     fireEvent.change(screen.getByPlaceholderText("https://..."), { target: { value: "https://example.com/parse" } });
 
-    // Click Add Recipe
+    // Click Add Recipe — this sets parseStatus to "parsing" and queues the parse job
     const addBtn = screen.getByRole("button", { name: /add recipe/i });
     fireEvent.click(addBtn);
 
-    // Wait for the recipe insert to complete
     await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+      expect(mockSubscribeToParseJob).toHaveBeenCalledWith("job-1", expect.any(Function));
     });
 
-    // Press Escape — decline the confirm
+    // Now press Escape to trigger onOpenChange(false) while parseStatus is "parsing"
     fireEvent.keyDown(document, { key: "Escape" });
 
     await waitFor(() => {
-      expect(confirmSpy).toHaveBeenCalled();
+      expect(toast).toHaveBeenCalledWith("Still parsing — the recipe will update when it's done");
     });
-
-    // Dialog should still be open (user declined)
-    expect(screen.getByText("Add a Recipe")).toBeInTheDocument();
-
-    confirmSpy.mockRestore();
+    expect(screen.queryByText("Add a Recipe")).not.toBeInTheDocument();
+    // Stops following the job, but doesn't delete the recipe
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledTimes(1);
   });
 
 
@@ -4707,9 +4722,11 @@ describe("EventDetailPage", () => {
   it("handles ratingsComplete with rpc error", async () => {
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
-    // Make rpc fail
+    // Make rpc fail (the first call on mount loads the club's dietary restrictions)
     const { supabase } = await import("@/integrations/supabase/client");
-    vi.mocked(supabase.rpc).mockResolvedValueOnce({ error: { message: "RPC error" } } as never);
+    vi.mocked(supabase.rpc)
+      .mockResolvedValueOnce({ data: [], error: null } as never)
+      .mockResolvedValueOnce({ error: { message: "RPC error" } } as never);
 
     render(<EventDetailPage />);
 
@@ -5256,18 +5273,8 @@ describe("EventDetailPage", () => {
   // ---- HANDLE RETRY PARSE SUCCESS (lines 746-754) ----
 
   it("handles retry parse success", async () => {
-    // First parse fails, then retry succeeds
-    let parseCallCount = 0;
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        parseCallCount++;
-        if (parseCallCount === 1) {
-          return Promise.resolve({ data: null, error: { message: "Parse error" } });
-        }
-        return Promise.resolve({ data: { success: true }, error: null });
-      }
-      return Promise.resolve({ data: null, error: null });
-    });
+    // First job fails, then the retry completes
+    followParseJobs("failed");
 
     render(<EventDetailPage />);
 
@@ -6810,23 +6817,11 @@ describe("EventDetailPage", () => {
 
   // Note: Edit ingredients dialog was removed in US-007; no onSaved callback test needed.
 
-  // ---- HANDLE RETRY PARSE WITH success=false (lines 771-773) ----
+  // ---- HANDLE RETRY PARSE FAILING AGAIN ----
 
-  it("handles retry parse when data returns success=false", async () => {
-    // First parse fails with error, then retry returns success=false WITHOUT error field
-    // to trigger the ?? fallback at line 772
-    let parseCallCount = 0;
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        parseCallCount++;
-        if (parseCallCount === 1) {
-          return Promise.resolve({ data: null, error: { message: "Parse error" } });
-        }
-        // Retry returns success: false without error field
-        return Promise.resolve({ data: { success: false }, error: null });
-      }
-      return Promise.resolve({ data: null, error: null });
-    });
+  it("handles retry parse when the retried job fails too", async () => {
+    // Both the first job and the retry run out of attempts
+    followParseJobs("failed", "failed");
 
     render(<EventDetailPage />);
 
@@ -6851,10 +6846,10 @@ describe("EventDetailPage", () => {
       expect(screen.getByText("Try Again")).toBeInTheDocument();
     });
 
-    // Click retry - this time it returns success: false
+    // Click retry - this job fails as well
     fireEvent.click(screen.getByText("Try Again"));
 
-    // Should show failure state again with custom error
+    // Should show failure state again
     await waitFor(() => {
       expect(screen.getByText("Try Again")).toBeInTheDocument();
     });
@@ -6969,29 +6964,9 @@ describe("EventDetailPage", () => {
 
   // ---- MANUAL MODE FULL FLOW (lines 641-691) ----
 
-  it("submits recipe via manual mode with full parse-recipe flow", async () => {
+  it("submits recipe via manual mode with a text parse job", async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true });
 
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        return Promise.resolve({
-          data: {
-            success: true,
-            ingredientCount: 2,
-            parsed: {
-              ingredients: [
-                { name: "chicken breast", quantity: 2, unit: "lbs", category: "meat_seafood" },
-                { name: "garlic", quantity: 3, unit: "cloves", category: "produce" },
-              ],
-            },
-          },
-          error: null,
-        });
-      }
-      // notification
-      return Promise.resolve({ data: null, error: null });
-    });
-
     // Mock smartCombine to succeed
     mockSmartCombineIngredients.mockResolvedValue({ items: [], perRecipeItems: {} });
 
@@ -7068,10 +7043,11 @@ describe("EventDetailPage", () => {
     // Submit
     fireEvent.click(screen.getByRole("button", { name: /add recipe/i }));
 
-    // Wait for parse-recipe to be called with text (manual mode)
+    // Wait for the parse job to be queued with text (manual mode)
     await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.objectContaining({
-        body: expect.objectContaining({ recipeId: "recipe-new", recipeName: "Manual Recipe", text: "2 lbs chicken breast\n3 cloves garlic" }),
+      expect(mockEnqueueRecipeParse).toHaveBeenCalledWith("recipe-new", expect.objectContaining({
+        recipeName: "Manual Recipe",
+        text: "2 lbs chicken breast\n3 cloves garlic",
       }));
     });
 
@@ -7083,15 +7059,10 @@ describe("EventDetailPage", () => {
     vi.useRealTimers();
   });
 
-  // ---- MANUAL MODE parse-recipe ERROR (lines 641-642 branches) ----
+  // ---- MANUAL MODE parse job FAILURE ----
 
-  it("handles manual mode parse-recipe returning parseError", async () => {
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        return Promise.resolve({ data: null, error: { message: "Parse service error" } });
-      }
-      return Promise.resolve({ data: null, error: null });
-    });
+  it("handles manual mode parse job failing", async () => {
+    followParseJobs("failed");
 
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
@@ -7113,160 +7084,21 @@ describe("EventDetailPage", () => {
 
     fireEvent.click(screen.getByRole("button", { name: /add recipe/i }));
 
-    // Should hit the error path
-    await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
-    });
-
-    consoleSpy.mockRestore();
-  });
-
-  it("handles manual mode parse-recipe returning success=false", async () => {
-    // Return success=false WITHOUT error field to trigger the ?? fallback at line 642
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        return Promise.resolve({ data: { success: false }, error: null });
-      }
-      return Promise.resolve({ data: null, error: null });
-    });
-
-    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
-
-    render(<EventDetailPage />);
-
-    await waitFor(() => {
-      expect(screen.getByText("Chicken Parm")).toBeInTheDocument();
-    });
-
-    fireEvent.click(screen.getByText("Add Recipe"));
-
     await waitFor(() => {
-      expect(screen.getByText("Add a Recipe")).toBeInTheDocument();
-    });
-
-    fireEvent.change(screen.getByPlaceholderText("Enter recipe name"), { target: { value: "Fail Recipe 2" } });
-    fireEvent.click(screen.getByText("Manual"));
-    fireEvent.change(screen.getByLabelText("Ingredients text"), { target: { value: "some ingredients" } });
-
-    fireEvent.click(screen.getByRole("button", { name: /add recipe/i }));
-
-    await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
+      expect(screen.getByText("Keep as-is")).toBeInTheDocument();
     });
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ text: "some ingredients" })
+    );
 
     consoleSpy.mockRestore();
   });
 
-  // ---- MANUAL MODE with items that have empty name/category (branches 83[1], 84[1]) ----
-
-  it("handles manual mode items with empty name and category", async () => {
-    vi.useFakeTimers({ shouldAdvanceTime: true });
-
-    mockFunctionsInvoke.mockImplementation((fnName: string) => {
-      if (fnName === "parse-recipe") {
-        return Promise.resolve({
-          data: {
-            success: true,
-            ingredientCount: 2,
-            parsed: {
-              ingredients: [
-                { name: "", quantity: 1, unit: "cup", category: "" },
-                { name: "flour", quantity: 2, unit: "cups", category: "" },
-              ],
-            },
-          },
-          error: null,
-        });
-      }
-      return Promise.resolve({ data: null, error: null });
-    });
-
-    mockSmartCombineIngredients.mockResolvedValue({ items: [], perRecipeItems: {} });
-
-    mockSupabaseFrom.mockImplementation((table: string) => {
-      if (table === "scheduled_events") {
-        return {
-          select: vi.fn().mockReturnValue({
-            eq: vi.fn().mockReturnValue({
-              single: vi.fn().mockResolvedValue({ data: eventData, error: null }),
-            }),
-          }),
-        };
-      }
-      if (table === "recipes") {
-        return {
-          select: vi.fn().mockReturnValue({
-            eq: vi.fn().mockReturnValue({
-              order: vi.fn().mockResolvedValue({ data: recipesData, error: null }),
-            }),
-          }),
-          insert: vi.fn().mockReturnValue({
-            select: vi.fn().mockReturnValue({
-              single: vi.fn().mockResolvedValue({
-                data: { id: "recipe-new", name: "Empty Fields Recipe" },
-                error: null,
-              }),
-            }),
-          }),
-        };
-      }
-      if (table === "recipe_content") {
-        return {
-          select: vi.fn().mockReturnValue({
-            in: vi.fn().mockResolvedValue({ data: [], error: null }),
-          }),
-        };
-      }
-      if (table === "recipe_ingredients") {
-        return {
-          select: vi.fn().mockReturnValue({
-            in: vi.fn().mockResolvedValue({ data: [], error: null }),
-          }),
-        };
-      }
-      return {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        in: vi.fn().mockResolvedValue({ data: [], error: null }),
-        single: vi.fn().mockResolvedValue({ data: null, error: null }),
-        insert: vi.fn().mockResolvedValue({ error: null }),
-      };
-    });
-
-    render(<EventDetailPage />);
-
-    await waitFor(() => {
-      expect(screen.getByText("Chicken Parm")).toBeInTheDocument();
-    });
-
-    fireEvent.click(screen.getByText("Add Recipe"));
-
-    await waitFor(() => {
-      expect(screen.getByText("Add a Recipe")).toBeInTheDocument();
-    });
-
-    fireEvent.change(screen.getByPlaceholderText("Enter recipe name"), { target: { value: "Empty Fields Recipe" } });
-    fireEvent.click(screen.getByText("Manual"));
-    fireEvent.change(screen.getByLabelText("Ingredients text"), { target: { value: "1 cup stuff\n2 cups flour" } });
-
-    fireEvent.click(screen.getByRole("button", { name: /add recipe/i }));
-
-    await waitFor(() => {
-      expect(mockFunctionsInvoke).toHaveBeenCalledWith("parse-recipe", expect.anything());
-    });
-
-    await vi.advanceTimersByTimeAsync(500);
-    await vi.advanceTimersByTimeAsync(500);
-    await vi.advanceTimersByTimeAsync(3000);
-
-    vi.useRealTimers();
-  });
-
-  // ---- URL MODE parse-recipe returns success=false (line 702) ----
+  // ---- URL MODE parse job FAILURE ----
 
-  it("handles URL mode parse-recipe returning success=false during submit", async () => {
-    // Return success=false WITHOUT error field to trigger the ?? fallback at line 702
-    mockFunctionsInvoke.mockResolvedValue({ data: { success: false }, error: null });
+  it("handles URL mode parse job failing during submit", async () => {
+    followParseJobs("failed");
 
     render(<EventDetailPage />);
 
@@ -7285,7 +7117,7 @@ describe("EventDetailPage", () => {
 
     fireEvent.click(screen.getByRole("button", { name: /add recipe/i }));
 
-    // Parse returns success=false, should show retry options
+    // Job fails, should show retry options
     await waitFor(() => {
       expect(screen.getByText("Keep as-is")).toBeInTheDocument();
     });
@@ -36,6 +36,33 @@ vi.mock("@/integrations/supabase/client", () => ({
   },
 }));
 
+// Parse job queue mock; jobs complete as soon as they're followed
+const mockEnqueueRecipeParse = vi.fn();
+const mockSubscribeToParseJob = vi.fn();
+vi.mock("@/lib/parseJobs", () => ({
+  enqueueRecipeParse: (...args: unknown[]) => mockEnqueueRecipeParse(...args),
+  subscribeToParseJob: (...args: unknown[]) => mockSubscribeToParseJob(...args),
+}));
+
+const parseJob = (status: string, lastError?: string) => ({
+  id: "job-1",
+  recipeId: "recipe-new",
+  status,
+  attempts: 1,
+  maxAttempts: 3,
+  lastError,
+  nextAttemptAt: "2026-03-10T00:00:00Z",
+});
+
+/** Report the given status for each followed job in turn, then "completed". */
+const followParseJobs = (...statuses: string[]) => {
+  mockSubscribeToParseJob.mockImplementation((_jobId: string, onChange: (job: unknown) => void) => {
+    const status = statuses.shift() ?? "completed";
+    onChange(parseJob(status, status === "failed" ? "parse failed" : undefined));
+    return vi.fn();
+  });
+};
+
 // Sonner mock
 vi.mock("sonner", () => ({
   toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() },
@@ -309,6 +336,8 @@ describe("PersonalMealDetailPage", () => {
     capturedRecipesTabProps = {};
     capturedAddMealProps = {};
     setupDefaultMocks();
+    mockEnqueueRecipeParse.mockResolvedValue(parseJob("queued"));
+    followParseJobs();
   });
 
   it("shows loading spinner initially", () => {
@@ -497,8 +526,8 @@ describe("PersonalMealDetailPage", () => {
     });
   });
 
-  it("shows toast error when add manual meal fails", async () => {
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "parse error" } });
+  it("shows parse failed dialog when a manual meal's parse job fails", async () => {
+    followParseJobs("failed");
 
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
@@ -506,8 +535,9 @@ describe("PersonalMealDetailPage", () => {
     fireEvent.click(screen.getByRole("button", { name: "Add Manual Meal" }));
 
     await waitFor(() => {
-      expect(toast.error).toHaveBeenCalledWith("Failed to add meal");
-    });
+      expect(screen.getByText("Parsing Failed")).toBeInTheDocument();
+    }, { timeout: 5000 });
+    expect(toast.error).not.toHaveBeenCalledWith("Failed to add meal");
   });
 
   it("opens edit recipe dialog when Edit is clicked", async () => {
@@ -869,23 +899,24 @@ describe("PersonalMealDetailPage", () => {
     });
   });
 
-  it("adds manual meal successfully when function invoke returns success", async () => {
-    mockFunctionsInvoke.mockResolvedValue({ data: { success: true }, error: null });
-
+  it("queues a parse of the manual meal's text", async () => {
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
     await waitFor(() => screen.getByTestId("add-meal-dialog"));
     fireEvent.click(screen.getByRole("button", { name: "Add Manual Meal" }));
 
     await waitFor(() => {
-      expect(toast.success).toHaveBeenCalledWith("Recipe added!");
+      expect(toast.success).toHaveBeenCalledWith("Recipe parsed successfully!");
+    }, { timeout: 5000 });
+    expect(mockEnqueueRecipeParse).toHaveBeenCalledWith(expect.any(String), {
+      recipeName: "Manual Recipe",
+      recipeUrl: undefined,
+      text: "2 cups flour",
     });
+    expect(mockFunctionsInvoke).not.toHaveBeenCalledWith("parse-recipe", expect.anything());
   });
 
   it("starts parse progress when shouldParse=true", async () => {
-    // Make parse succeed immediately
-    mockFunctionsInvoke.mockResolvedValue({ data: { success: true }, error: null });
-
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
     await waitFor(() => screen.getByTestId("add-meal-dialog"));
@@ -897,9 +928,8 @@ describe("PersonalMealDetailPage", () => {
     }, { timeout: 5000 });
   });
 
-  it("shows parse failed dialog when parse-recipe function fails", async () => {
-    // First call succeeds (for recipe insert), second call to functions.invoke fails
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "parse failed" } });
+  it("shows parse failed dialog when the parse job fails", async () => {
+    followParseJobs("failed");
 
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
@@ -912,7 +942,7 @@ describe("PersonalMealDetailPage", () => {
   });
 
   it("handleParseKeep shows success toast and dismisses dialog", async () => {
-    mockFunctionsInvoke.mockResolvedValue({ data: null, error: { message: "parse failed" } });
+    followParseJobs("failed");
 
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
@@ -928,12 +958,7 @@ describe("PersonalMealDetailPage", () => {
   });
 
   it("handleParseRetry restarts the parse flow", async () => {
-    let callCount = 0;
-    mockFunctionsInvoke.mockImplementation(() => {
-      callCount++;
-      if (callCount === 1) return Promise.resolve({ data: null, error: { message: "parse failed" } });
-      return Promise.resolve({ data: { success: true }, error: null });
-    });
+    followParseJobs("failed");
 
     await renderAndWait();
     fireEvent.click(screen.getByRole("button", { name: "Add Recipe" }));
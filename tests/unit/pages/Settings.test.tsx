@@ -26,7 +26,37 @@ vi.mock("@/lib/userPreferences", () => ({
     mockLoadUserPreferences(...args),
   saveUserPreferences: (...args: unknown[]) =>
     mockSaveUserPreferences(...args),
-  getCachedAiModel: vi.fn().mockReturnValue("claude-sonnet-4-6"),
+  getCachedAiOptions: vi.fn().mockReturnValue({ provider: "anthropic", model: "claude-sonnet-4-6" }),
+}));
+
+const mockLoadHousehold = vi.fn();
+const mockLoadHouseholdInvites = vi.fn();
+const mockAcceptHouseholdInvite = vi.fn();
+const mockCreateHousehold = vi.fn();
+const mockDeleteHousehold = vi.fn();
+const mockInviteHouseholdMember = vi.fn();
+const mockRemoveHouseholdMember = vi.fn();
+vi.mock("@/lib/household", () => ({
+  loadHousehold: () => mockLoadHousehold(),
+  loadHouseholdInvites: () => mockLoadHouseholdInvites(),
+  acceptHouseholdInvite: (...args: unknown[]) => mockAcceptHouseholdInvite(...args),
+  createHousehold: (...args: unknown[]) => mockCreateHousehold(...args),
+  deleteHousehold: (...args: unknown[]) => mockDeleteHousehold(...args),
+  inviteHouseholdMember: (...args: unknown[]) => mockInviteHouseholdMember(...args),
+  removeHouseholdMember: (...args: unknown[]) => mockRemoveHouseholdMember(...args),
+}));
+
+const mockLoadApiTokens = vi.fn();
+const mockCreateApiToken = vi.fn();
+const mockRevokeApiToken = vi.fn();
+vi.mock("@/lib/apiTokens", () => ({
+  loadApiTokens: (...args: unknown[]) => mockLoadApiTokens(...args),
+  createApiToken: (...args: unknown[]) => mockCreateApiToken(...args),
+  revokeApiToken: (...args: unknown[]) => mockRevokeApiToken(...args),
+}));
+
+vi.mock("@/lib/devMode", () => ({
+  isDevMode: () => false,
 }));
 
 // Mock Select to make it testable in jsdom
@@ -59,7 +89,13 @@ const defaultPrefs = {
   mealTypes: ["breakfast", "lunch", "dinner"],
   weekStartDay: 0,
   householdSize: 2,
+  aiProvider: "anthropic",
   aiModel: "claude-sonnet-4-6",
+  dietaryRestrictions: [],
+  cuisinePreferences: [],
+  dislikedIngredients: [],
+  cookingSkill: "intermediate",
+  maxCookTimeMinutes: 60,
 };
 
 describe("Settings", () => {
@@ -73,6 +109,9 @@ describe("Settings", () => {
     mockLoadUserPreferences.mockResolvedValue({ ...defaultPrefs });
     mockSaveUserPreferences.mockResolvedValue(undefined);
     mockGetAllowedUser.mockResolvedValue(null);
+    mockLoadHousehold.mockResolvedValue(null);
+    mockLoadHouseholdInvites.mockResolvedValue([]);
+    mockLoadApiTokens.mockResolvedValue([]);
   });
 
   it("shows loading spinner initially", () => {
@@ -143,7 +182,7 @@ describe("Settings", () => {
     render(<Settings />);
 
     await waitFor(() => {
-      const input = screen.getByRole("spinbutton");
+      const input = screen.getByRole("spinbutton", { name: "Household size" });
       expect(input).toHaveValue(5);
     });
   });
@@ -159,12 +198,7 @@ describe("Settings", () => {
     await user.click(screen.getByText("Save Settings"));
 
     await waitFor(() => {
-      expect(mockSaveUserPreferences).toHaveBeenCalledWith("user-1", {
-        mealTypes: ["breakfast", "lunch", "dinner"],
-        weekStartDay: 0,
-        householdSize: 2,
-        aiModel: "claude-sonnet-4-6",
-      });
+      expect(mockSaveUserPreferences).toHaveBeenCalledWith("user-1", defaultPrefs);
     });
   });
 
@@ -291,7 +325,7 @@ describe("Settings", () => {
       expect(screen.getByText("Week Start Day")).toBeInTheDocument();
     });
 
-    const select = screen.getByRole("combobox");
+    const select = screen.getAllByRole("combobox")[0];
     fireEvent.change(select, { target: { value: "1" } });
 
     const user = userEvent.setup();
@@ -350,10 +384,10 @@ describe("Settings", () => {
     render(<Settings />);
 
     await waitFor(() => {
-      expect(screen.getByRole("spinbutton")).toBeInTheDocument();
+      expect(screen.getByRole("spinbutton", { name: "Household size" })).toBeInTheDocument();
     });
 
-    const input = screen.getByRole("spinbutton");
+    const input = screen.getByRole("spinbutton", { name: "Household size" });
     // Use fireEvent.change for number inputs to avoid intermediate state issues
     fireEvent.change(input, { target: { value: "6" } });
 
@@ -386,6 +420,362 @@ describe("Settings", () => {
       expect(screen.getByText("AI Models")).toBeInTheDocument();
     });
 
+    expect(screen.getByText("AI Provider")).toBeInTheDocument();
     expect(screen.getByText("AI Model")).toBeInTheDocument();
   });
+
+  it("shows a free-text model for OpenAI-compatible providers and saves it", async () => {
+    mockGetAllowedUser.mockResolvedValue({ role: "admin" });
+    mockLoadUserPreferences.mockResolvedValue({ ...defaultPrefs, aiProvider: "openai", aiModel: "" });
+    const user = userEvent.setup();
+    render(<Settings />);
+
+    const modelInput = await screen.findByLabelText("AI Model");
+    await user.type(modelInput, "llama3.1");
+    await user.click(screen.getByRole("button", { name: "Save Settings" }));
+
+    await waitFor(() => {
+      expect(mockSaveUserPreferences).toHaveBeenCalledWith(
+        "user-1",
+        expect.objectContaining({ aiProvider: "openai", aiModel: "llama3.1" })
+      );
+    });
+  });
+
+  it("hides the model for the offline stub", async () => {
+    mockGetAllowedUser.mockResolvedValue({ role: "admin" });
+    mockLoadUserPreferences.mockResolvedValue({ ...defaultPrefs, aiProvider: "stub", aiModel: "stub-fixtures" });
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.getByText("AI Provider")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("AI Model")).not.toBeInTheDocument();
+  });
+
+  it("doesn't offer the offline stub outside dev mode", async () => {
+    mockGetAllowedUser.mockResolvedValue({ role: "admin" });
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Anthropic (Claude)")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("Offline stub — fixtures, no network")).not.toBeInTheDocument();
+  });
+
+  describe("dietary preferences", () => {
+    it("renders loaded restrictions and free-text lists", async () => {
+      mockLoadUserPreferences.mockResolvedValue({
+        ...defaultPrefs,
+        dietaryRestrictions: ["vegetarian"],
+        dislikedIngredients: ["cilantro", "olives"],
+        cuisinePreferences: ["Thai"],
+      });
+
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("switch", { name: "Vegetarian" })).toBeChecked();
+      });
+      expect(screen.getByRole("switch", { name: "Vegan" })).not.toBeChecked();
+      expect(screen.getByLabelText("Disliked ingredients")).toHaveValue("cilantro, olives");
+      expect(screen.getByLabelText("Favorite cuisines")).toHaveValue("Thai");
+    });
+
+    it("saves toggled restrictions, split lists and max cook time", async () => {
+      const user = userEvent.setup();
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Dietary Preferences")).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole("switch", { name: "Gluten-free" }));
+      fireEvent.change(screen.getByLabelText("Disliked ingredients"), {
+        target: { value: " cilantro ,, mushrooms " },
+      });
+      fireEvent.change(screen.getByLabelText("Max cook time (minutes)"), {
+        target: { value: "30" },
+      });
+      await user.click(screen.getByText("Save Settings"));
+
+      await waitFor(() => {
+        expect(mockSaveUserPreferences).toHaveBeenCalledWith(
+          "user-1",
+          expect.objectContaining({
+            dietaryRestrictions: ["gluten_free"],
+            dislikedIngredients: ["cilantro", "mushrooms"],
+            cuisinePreferences: [],
+            maxCookTimeMinutes: 30,
+          })
+        );
+      });
+    });
+
+    it("removes a restriction when toggled off", async () => {
+      mockLoadUserPreferences.mockResolvedValue({
+        ...defaultPrefs,
+        dietaryRestrictions: ["vegan", "nut_free"],
+      });
+      const user = userEvent.setup();
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("switch", { name: "Vegan" })).toBeChecked();
+      });
+      await user.click(screen.getByRole("switch", { name: "Vegan" }));
+      await user.click(screen.getByText("Save Settings"));
+
+      await waitFor(() => {
+        expect(mockSaveUserPreferences).toHaveBeenCalledWith(
+          "user-1",
+          expect.objectContaining({ dietaryRestrictions: ["nut_free"] })
+        );
+      });
+    });
+  });
+
+  describe("shared grocery list", () => {
+    const household = {
+      id: "house-1",
+      name: "The Smiths",
+      members: [
+        { email: "test@test.com", role: "owner", pending: false },
+        { email: "alex@example.com", role: "member", pending: false },
+        { email: "sam@example.com", role: "member", pending: true },
+      ],
+    };
+
+    it("creates a household", async () => {
+      const user = userEvent.setup();
+      mockCreateHousehold.mockResolvedValue("house-1");
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Shared Grocery List")).toBeInTheDocument();
+      });
+      mockLoadHousehold.mockResolvedValue(household);
+      await user.type(screen.getByLabelText("Household name"), "The Smiths");
+      await user.click(screen.getByText("Create household"));
+
+      await waitFor(() => {
+        expect(screen.getByText("alex@example.com")).toBeInTheDocument();
+      });
+      expect(mockCreateHousehold).toHaveBeenCalledWith("The Smiths", "user-1", "test@test.com");
+    });
+
+    it("lets the owner invite and remove members", async () => {
+      const user = userEvent.setup();
+      mockLoadHousehold.mockResolvedValue(household);
+      mockInviteHouseholdMember.mockResolvedValue(undefined);
+      mockRemoveHouseholdMember.mockResolvedValue(undefined);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("The Smiths")).toBeInTheDocument();
+      });
+      await user.type(screen.getByLabelText("Invite by email"), "jo@example.com");
+      await user.click(screen.getByText("Invite"));
+
+      await waitFor(() => {
+        expect(mockInviteHouseholdMember).toHaveBeenCalledWith("house-1", "jo@example.com");
+      });
+
+      await user.click(screen.getByRole("button", { name: "Remove alex@example.com" }));
+
+      await waitFor(() => {
+        expect(mockRemoveHouseholdMember).toHaveBeenCalledWith("house-1", "alex@example.com");
+      });
+      expect(screen.getByText("Delete household")).toBeInTheDocument();
+    });
+
+    it("shows an error when the invite fails", async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockLoadHousehold.mockResolvedValue(household);
+      mockInviteHouseholdMember.mockRejectedValue({ code: "23505" });
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("The Smiths")).toBeInTheDocument();
+      });
+      await user.type(screen.getByLabelText("Invite by email"), "jo@example.com");
+      await user.click(screen.getByText("Invite"));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith("Failed to invite member");
+      });
+    });
+
+    it("marks members who haven't accepted yet", async () => {
+      mockLoadHousehold.mockResolvedValue(household);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("sam@example.com")).toBeInTheDocument();
+      });
+      expect(screen.getAllByText("(invited)")).toHaveLength(1);
+      expect(screen.getByText("sam@example.com").parentElement).toHaveTextContent("(invited)");
+    });
+
+    it("lets an invitee join a household", async () => {
+      const user = userEvent.setup();
+      mockGetCurrentUser.mockResolvedValue({ id: "user-2", name: "Alex", email: "alex@example.com" });
+      mockLoadHouseholdInvites.mockResolvedValue([{ householdId: "house-1", householdName: "The Smiths" }]);
+      mockAcceptHouseholdInvite.mockResolvedValue(undefined);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Join The Smiths" })).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText("Household name")).toBeInTheDocument();
+      mockLoadHousehold.mockResolvedValue(household);
+      mockLoadHouseholdInvites.mockResolvedValue([]);
+      await user.click(screen.getByRole("button", { name: "Join The Smiths" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("Leave household")).toBeInTheDocument();
+      });
+      expect(mockAcceptHouseholdInvite).toHaveBeenCalledWith("house-1");
+      expect(toast.success).toHaveBeenCalledWith("Joined The Smiths");
+    });
+
+    it("lets an invitee decline", async () => {
+      const user = userEvent.setup();
+      mockLoadHouseholdInvites.mockResolvedValue([{ householdId: "house-1", householdName: "The Smiths" }]);
+      mockRemoveHouseholdMember.mockResolvedValue(undefined);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Decline The Smiths" })).toBeInTheDocument();
+      });
+      mockLoadHouseholdInvites.mockResolvedValue([]);
+      await user.click(screen.getByRole("button", { name: "Decline The Smiths" }));
+
+      await waitFor(() => {
+        expect(screen.queryByText("The Smiths")).not.toBeInTheDocument();
+      });
+      expect(mockRemoveHouseholdMember).toHaveBeenCalledWith("house-1", "test@test.com");
+    });
+
+    it("shows an error when joining fails", async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockLoadHouseholdInvites.mockResolvedValue([{ householdId: "house-1", householdName: "The Smiths" }]);
+      mockAcceptHouseholdInvite.mockRejectedValue({ code: "23505" });
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Join The Smiths" })).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole("button", { name: "Join The Smiths" }));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith("Failed to join household");
+      });
+    });
+
+    it("lets members leave but not manage the household", async () => {
+      const user = userEvent.setup();
+      mockGetCurrentUser.mockResolvedValue({ id: "user-2", name: "Alex", email: "alex@example.com" });
+      mockLoadHousehold.mockResolvedValue(household);
+      mockRemoveHouseholdMember.mockResolvedValue(undefined);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Leave household")).toBeInTheDocument();
+      });
+      expect(screen.queryByLabelText("Invite by email")).not.toBeInTheDocument();
+
+      await user.click(screen.getByText("Leave household"));
+
+      await waitFor(() => {
+        expect(mockRemoveHouseholdMember).toHaveBeenCalledWith("house-1", "alex@example.com");
+      });
+    });
+  });
+
+  describe("grocery API tokens", () => {
+    const token = {
+      id: "token-1",
+      name: "Kitchen speaker",
+      tokenPrefix: "rcg_a1b2c3",
+      scope: "read",
+      lastUsedAt: "2026-03-02T12:00:00Z",
+      createdAt: "2026-03-01T12:00:00Z",
+    };
+
+    it("lists tokens with their scope and last use", async () => {
+      mockLoadApiTokens.mockResolvedValue([token, { ...token, id: "token-2", name: "Shortcut", scope: "read_write", lastUsedAt: undefined }]);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Kitchen speaker")).toBeInTheDocument();
+      });
+      expect(mockLoadApiTokens).toHaveBeenCalledWith("user-1");
+      expect(screen.getByText("(read only)")).toBeInTheDocument();
+      expect(screen.getByText("(read & write)")).toBeInTheDocument();
+      expect(screen.getByText(/Last used Mar 2, 2026/)).toBeInTheDocument();
+      expect(screen.getByText(/Never used/)).toBeInTheDocument();
+    });
+
+    it("shows a new token once after creating it", async () => {
+      const user = userEvent.setup();
+      mockCreateApiToken.mockResolvedValue("rcg_secret");
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Grocery API Tokens")).toBeInTheDocument();
+      });
+      mockLoadApiTokens.mockResolvedValue([token]);
+      await user.type(screen.getByLabelText("Token name"), "Kitchen speaker");
+      await user.click(screen.getByText("Create token"));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText("New API token")).toHaveValue("rcg_secret");
+      });
+      expect(mockCreateApiToken).toHaveBeenCalledWith("user-1", "Kitchen speaker", "read_write");
+      expect(screen.getByText("Kitchen speaker")).toBeInTheDocument();
+
+      await user.click(screen.getByText("Done"));
+
+      expect(screen.queryByLabelText("New API token")).not.toBeInTheDocument();
+    });
+
+    it("revokes a token", async () => {
+      const user = userEvent.setup();
+      mockLoadApiTokens.mockResolvedValue([token]);
+      mockRevokeApiToken.mockResolvedValue(undefined);
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Kitchen speaker")).toBeInTheDocument();
+      });
+      mockLoadApiTokens.mockResolvedValue([]);
+      await user.click(screen.getByText("Revoke"));
+
+      await waitFor(() => {
+        expect(screen.queryByText("Kitchen speaker")).not.toBeInTheDocument();
+      });
+      expect(mockRevokeApiToken).toHaveBeenCalledWith("token-1");
+    });
+
+    it("shows an error when the token can't be created", async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockCreateApiToken.mockRejectedValue(new Error("RLS"));
+      render(<Settings />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Grocery API Tokens")).toBeInTheDocument();
+      });
+      await user.type(screen.getByLabelText("Token name"), "Shortcut");
+      await user.click(screen.getByText("Create token"));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith("Failed to create API token");
+      });
+      expect(screen.queryByLabelText("New API token")).not.toBeInTheDocument();
+    });
+  });
 });
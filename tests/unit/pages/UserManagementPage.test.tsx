@@ -11,10 +11,12 @@ vi.mock("react-router-dom", async () => {
 const mockGetCurrentUser = vi.fn();
 const mockGetAllowedUser = vi.fn();
 const mockIsMemberOrAdmin = vi.fn();
+const mockIsAdmin = vi.fn();
 
 vi.mock("@/lib/auth", () => ({
   getCurrentUser: () => mockGetCurrentUser(),
   getAllowedUser: (...args: unknown[]) => mockGetAllowedUser(...args),
+  isAdmin: (...args: unknown[]) => mockIsAdmin(...args),
   isMemberOrAdmin: (...args: unknown[]) => mockIsMemberOrAdmin(...args),
 }));
 
@@ -25,6 +27,18 @@ vi.mock("@/components/admin/UserManagement", () => ({
   ),
 }));
 
+vi.mock("@/components/admin/AiUsage", () => ({
+  default: () => <div data-testid="ai-usage">AiUsage</div>,
+}));
+
+vi.mock("@/components/admin/StorageCleanup", () => ({
+  default: () => <div data-testid="storage-cleanup">StorageCleanup</div>,
+}));
+
+vi.mock("@/components/admin/ThrottledCallers", () => ({
+  default: () => <div data-testid="throttled-callers">ThrottledCallers</div>,
+}));
+
 describe("UserManagementPage", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -74,6 +88,7 @@ describe("UserManagementPage", () => {
     });
     mockGetAllowedUser.mockResolvedValue({ role: "admin" });
     mockIsMemberOrAdmin.mockReturnValue(true);
+    mockIsAdmin.mockReturnValue(true);
 
     render(<UserManagementPage />);
 
@@ -83,6 +98,9 @@ describe("UserManagementPage", () => {
 
     expect(screen.getByTestId("user-management")).toBeInTheDocument();
     expect(screen.getByText("UserManagement for admin@test.com")).toBeInTheDocument();
+    expect(screen.getByTestId("ai-usage")).toBeInTheDocument();
+    expect(screen.getByTestId("storage-cleanup")).toBeInTheDocument();
+    expect(screen.getByTestId("throttled-callers")).toBeInTheDocument();
   });
 
   it("renders back to dashboard button", async () => {
@@ -129,6 +147,7 @@ describe("UserManagementPage", () => {
     });
     mockGetAllowedUser.mockResolvedValue({ role: "member" });
     mockIsMemberOrAdmin.mockReturnValue(true);
+    mockIsAdmin.mockReturnValue(false);
 
     render(<UserManagementPage />);
 
@@ -137,6 +156,9 @@ describe("UserManagementPage", () => {
     });
 
     expect(screen.getByTestId("user-management")).toBeInTheDocument();
+    expect(screen.queryByTestId("ai-usage")).not.toBeInTheDocument();
+    expect(screen.queryByTestId("storage-cleanup")).not.toBeInTheDocument();
+    expect(screen.queryByTestId("throttled-callers")).not.toBeInTheDocument();
   });
 
   it("returns null when viewer after loading", async () => {